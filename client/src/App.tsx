@@ -1,4 +1,4 @@
-import { Routes, Route } from 'react-router-dom'
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom'
 import { useEffect, useState, useCallback, lazy, Suspense } from 'react'
 import { io, Socket } from 'socket.io-client'
 import Layout from './components/Layout'
@@ -24,10 +24,12 @@ import Dashboard from './pages/Dashboard'
 import { Toaster } from './components/ui/toaster'
 import { SocketContext, ConnectionStatus, ConnectionStatusContext } from './contexts/SocketContext'
 import { ThemeProvider } from './contexts/ThemeContext'
+import { AuthProvider, useAuth } from './contexts/AuthContext'
 import { TooltipProvider } from './components/ui/tooltip'
 import { useToast } from './components/ui/use-toast'
 import { PageSkeleton } from './components/PageSkeleton'
 import { ScrollToTop } from './components/ScrollToTop'
+import Login from './pages/Login'
 
 // Lazy load larger pages for code splitting
 const Players = lazy(() => import('./pages/Players'))
@@ -45,6 +47,8 @@ const ServerFinder = lazy(() => import('./pages/ServerFinder'))
 const Events = lazy(() => import('./pages/Events'))
 const Chat = lazy(() => import('./pages/Chat'))
 const Backups = lazy(() => import('./pages/Backups'))
+const Users = lazy(() => import('./pages/Users'))
+const Audit = lazy(() => import('./pages/Audit'))
 
 // Loading fallback — shows a skeleton layout instead of a plain spinner
 function PageLoader() {
@@ -60,6 +64,7 @@ function AppContent() {
     error: null,
   })
   const { toast } = useToast()
+  const { markUnauthenticated, refresh: refreshAuth } = useAuth()
 
   const handleReconnectSuccess = useCallback(() => {
     toast({
@@ -110,6 +115,11 @@ function AppContent() {
     // Connection error with detailed logging (from Socket.IO best practices)
     newSocket.on('connect_error', (err) => {
       console.error('Connection error:', err.message)
+      if (err.message === 'Authentication required') {
+        // Session expired or was revoked - back to the login page
+        markUnauthenticated()
+        return
+      }
       if (newSocket.active) {
         // Temporary failure, socket will automatically reconnect
         setConnectionStatus(prev => ({
@@ -129,6 +139,11 @@ function AppContent() {
       }
     })
 
+    // Role changed by an owner - reload permissions
+    newSocket.on('auth:changed', () => {
+      refreshAuth()
+    })
+
     // Reconnection events
     newSocket.io.on('reconnect_attempt', (attempt) => {
       setConnectionStatus(prev => ({
@@ -158,7 +173,7 @@ function AppContent() {
     return () => {
       newSocket.close()
     }
-  }, [toast, handleReconnectSuccess])
+  }, [toast, handleReconnectSuccess, markUnauthenticated, refreshAuth])
 
   return (
     <ConnectionStatusContext.Provider value={connectionStatus}>
@@ -183,21 +198,52 @@ function AppContent() {
               <Route path="/events" element={<EventsErrorBoundary><Events /></EventsErrorBoundary>} />
               <Route path="/chat" element={<ChatErrorBoundary><Chat /></ChatErrorBoundary>} />
               <Route path="/backups" element={<BackupsErrorBoundary><Backups /></BackupsErrorBoundary>} />
+              <Route path="/users" element={<FeatureErrorBoundary featureName="Panel Users"><Users /></FeatureErrorBoundary>} />
+              <Route path="/audit" element={<FeatureErrorBoundary featureName="Audit Log"><Audit /></FeatureErrorBoundary>} />
             </Routes>
           </Suspense>
         </Layout>
-        <Toaster />
       </SocketContext.Provider>
     </ConnectionStatusContext.Provider>
   )
 }
 
+// Only mount the panel (and its socket) once the session is confirmed
+function AuthGate() {
+  const { state } = useAuth()
+  const location = useLocation()
+
+  if (state === 'loading') {
+    return <PageLoader />
+  }
+
+  return (
+    <Routes>
+      <Route
+        path="/login"
+        element={state === 'authenticated'
+          ? <Navigate to={(location.state as { from?: string } | null)?.from || '/'} replace />
+          : <Login />}
+      />
+      <Route
+        path="*"
+        element={state === 'authenticated'
+          ? <AppContent />
+          : <Navigate to="/login" replace state={{ from: location.pathname }} />}
+      />
+    </Routes>
+  )
+}
+
 function App() {
   return (
     <ErrorBoundary>
       <ThemeProvider>
         <TooltipProvider>
-          <AppContent />
+          <AuthProvider>
+            <AuthGate />
+            <Toaster />
+          </AuthProvider>
         </TooltipProvider>
       </ThemeProvider>
     </ErrorBoundary>
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { Zap, Plus, Pencil, Trash2, Play } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/use-toast'
+import { useAuth } from '@/contexts/AuthContext'
+import { ConsoleMacroDialog } from '@/components/forms/ConsoleMacroDialog'
+import { rconApi, ConsoleMacro, MACRO_PREFIX, macroUsage } from '@/lib/api'
+
+interface ConsoleMacrosProps {
+  macros: ConsoleMacro[]
+  onChanged: () => void
+  // Put a macro line in the console input
+  onUse: (line: string) => void
+}
+
+/**
+ * ConsoleMacros - the saved console macros with buttons to use, edit and
+ * delete them. Using a macro puts its `!name` line in the console input,
+ * where its parameters are filled in before it runs.
+ */
+export function ConsoleMacros({ macros, onChanged, onUse }: ConsoleMacrosProps) {
+  const { toast } = useToast()
+  const { can } = useAuth()
+  const [editing, setEditing] = useState<ConsoleMacro | 'new' | null>(null)
+  const canEdit = can('rcon.execute')
+
+  const handleDelete = async (macro: ConsoleMacro) => {
+    if (!confirm(`Delete macro ${MACRO_PREFIX}${macro.name}? Scheduled tasks using it will fail.`)) return
+    try {
+      await rconApi.deleteMacro(macro.id)
+      onChanged()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete macro',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Zap className="w-5 h-5" />
+          Macros
+        </CardTitle>
+        {canEdit && (
+          <Button variant="ghost" size="sm" onClick={() => setEditing('new')}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Macro
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {macros.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No macros yet. A macro runs several RCON or PanelBridge commands in a row - type {MACRO_PREFIX}name in the console to run one.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {macros.map(macro => (
+              <div key={macro.id} className="flex items-center gap-2 p-2 rounded-lg border">
+                <div className="min-w-0 flex-1">
+                  <code className="text-sm font-mono text-primary">{macroUsage(macro)}</code>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {macro.description || `${macro.steps.length} step(s)`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => onUse(`${MACRO_PREFIX}${macro.name}${macro.params.length > 0 ? ' ' : ''}`)}
+                  disabled={!canEdit}
+                  title="Use in console"
+                >
+                  <Play className="w-4 h-4" />
+                </Button>
+                {canEdit && (
+                  <>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setEditing(macro)} title="Edit">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => handleDelete(macro)} title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ConsoleMacroDialog macro={editing} onClose={() => setEditing(null)} onSaved={onChanged} />
+    </Card>
+  )
+}
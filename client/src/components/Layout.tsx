@@ -23,13 +23,18 @@ import {
   MessagesSquare,
   Archive,
   AlertCircle,
-  RefreshCw
+  RefreshCw,
+  LogOut,
+  UserCircle,
+  UserCog,
+  ScrollText
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { ConnectionStatus } from './ConnectionStatus'
-import { serversApi, ServerInstance, updateApi, UpdateStatus } from '@/lib/api'
+import { serversApi, ServerInstance, ServerInstanceStatus, updateApi, UpdateStatus, PanelPermission } from '@/lib/api'
 import { SocketContext } from '@/contexts/SocketContext'
 import { useTheme } from '@/contexts/ThemeContext'
+import { useAuth } from '@/contexts/AuthContext'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -52,8 +57,17 @@ import {
 // Standalone top-level nav item (not collapsible)
 const dashboardItem = { to: '/', icon: LayoutDashboard, label: 'Dashboard' }
 
+interface NavItem {
+  to: string
+  icon: typeof LayoutDashboard
+  label: string
+  requiresLocal?: boolean
+  // Hidden unless the signed-in role has this permission
+  permission?: PanelPermission
+}
+
 // Navigation sections with collapsible groups
-const navSections = [
+const navSections: { id: string; label: string; icon: typeof LayoutDashboard; color: string; items: NavItem[] }[] = [
   {
     id: 'active',
     label: 'Live',
@@ -92,7 +106,7 @@ const navSections = [
     items: [
       { to: '/scheduler', icon: Clock, label: 'Scheduled Tasks' },
       { to: '/backups', icon: Archive, label: 'World Backups', requiresLocal: true },
-      { to: '/chunks', icon: Map, label: 'Map Cleanup', requiresLocal: true },
+      { to: '/chunks', icon: Map, label: 'Map Cleanup', requiresLocal: true, permission: 'chunks.delete' },
     ]
   },
   {
@@ -102,7 +116,7 @@ const navSections = [
     color: 'cyan',
     items: [
       { to: '/servers', icon: Layers, label: 'My Servers' },
-      { to: '/server-setup', icon: Download, label: 'Steam Installer' },
+      { to: '/server-setup', icon: Download, label: 'Steam Installer', permission: 'server.control' },
       { to: '/server-finder', icon: Search, label: 'Browse Public' },
     ]
   },
@@ -112,8 +126,10 @@ const navSections = [
     icon: Settings,
     color: 'slate',
     items: [
-      { to: '/discord', icon: MessageSquare, label: 'Discord' },
+      { to: '/discord', icon: MessageSquare, label: 'Discord', permission: 'discord.manage' },
       { to: '/settings', icon: Settings, label: 'Panel Settings' },
+      { to: '/users', icon: UserCog, label: 'Panel Users', permission: 'users.manage' },
+      { to: '/audit', icon: ScrollText, label: 'Audit Log', permission: 'audit.view' },
       { to: '/debug', icon: Bug, label: 'Debug Logs' },
     ]
   },
@@ -133,9 +149,22 @@ interface LayoutProps {
   children: React.ReactNode
 }
 
+// Switcher dot for a server's lifecycle state
+function instanceStateDot(state?: string) {
+  if (state === 'ready' || state === 'saving') return 'status-online'
+  if (state === 'starting' || state === 'loading' || state === 'stopping') return 'status-connecting'
+  return 'status-offline'
+}
+
+function indexInstanceStates(instances: ServerInstanceStatus[]) {
+  return Object.fromEntries(instances.map(i => [String(i.serverId), i.lifecycle.state]))
+}
+
 export default function Layout({ children }: LayoutProps) {
   const [activeServer, setActiveServer] = useState<ServerInstance | null>(null)
   const [servers, setServers] = useState<ServerInstance[]>([])
+  // Lifecycle state of every server, keyed by server id
+  const [instanceStates, setInstanceStates] = useState<Record<string, string>>({})
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [openSections, setOpenSections] = useState<Set<string>>(new Set(['active', 'world']))
   const [updateInfo, setUpdateInfo] = useState<UpdateStatus | null>(null)
@@ -159,6 +188,7 @@ export default function Layout({ children }: LayoutProps) {
   const navigate = useNavigate()
   const location = useLocation()
   const { theme, setTheme } = useTheme()
+  const { user, logout, can } = useAuth()
 
   // Toggle section open/closed
   const toggleSection = (sectionId: string) => {
@@ -197,6 +227,8 @@ export default function Layout({ children }: LayoutProps) {
         setServers(data.servers || [])
         const active = data.servers?.find((s: ServerInstance) => s.isActive) || null
         setActiveServer(active)
+        const status = await serversApi.getInstances()
+        setInstanceStates(indexInstanceStates(status.instances || []))
       } catch (error) {
         console.error('Failed to fetch servers:', error)
       }
@@ -214,14 +246,24 @@ export default function Layout({ children }: LayoutProps) {
         setServers(data.servers || [])
         const active = data.servers?.find((s: ServerInstance) => s.isActive) || null
         setActiveServer(active)
+        const status = await serversApi.getInstances()
+        setInstanceStates(indexInstanceStates(status.instances || []))
       } catch (error) {
         console.error('Failed to refresh servers:', error)
       }
     }
     
+    // Every server keeps running in the background - track all their states
+    const handleInstanceState = (data: { serverId: string | number | null; state: string }) => {
+      setInstanceStates(prev => ({ ...prev, [String(data.serverId)]: data.state }))
+    }
+    
+    socket.emit('subscribe:instances')
     socket.on('activeServerChanged', handleActiveServerChanged)
+    socket.on('instances:state', handleInstanceState)
     return () => {
       socket.off('activeServerChanged', handleActiveServerChanged)
+      socket.off('instances:state', handleInstanceState)
     }
   }, [socket])
 
@@ -435,12 +477,21 @@ export default function Layout({ children }: LayoutProps) {
                         <Server className={cn("w-4 h-4", server.isActive && "text-primary")} />
                       </div>
                       <span className="truncate flex-1 font-medium">{server.name}</span>
+                      <span
+                        className={cn("w-2 h-2 rounded-full shrink-0", instanceStateDot(instanceStates[String(server.id)]))}
+                        title={instanceStates[String(server.id)] || 'stopped'}
+                      />
                       {server.isActive && (
                         <span className="text-xs text-primary font-semibold px-2 py-0.5 bg-primary/10 rounded-full">Active</span>
                       )}
                     </div>
                   </DropdownMenuItem>
                 ))}
+                {servers.length > 1 && (
+                  <p className="px-3 py-1.5 text-xs text-muted-foreground">
+                    Switching only changes which server you are viewing - the others keep running their schedules.
+                  </p>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={() => navigate('/servers')} className="py-2.5 px-3">
                   <Layers className="w-4 h-4 mr-2" />
@@ -488,9 +539,10 @@ export default function Layout({ children }: LayoutProps) {
 
             {/* Collapsible sections */}
             {navSections.map((section) => {
+              const items = section.items.filter(item => !item.permission || can(item.permission))
               const colors = sectionColors[section.color] || sectionColors.slate
               const isOpen = openSections.has(section.id)
-              const hasActiveChild = section.items.some(item => location.pathname === item.to)
+              const hasActiveChild = items.some(item => location.pathname === item.to)
 
               return (
                 <Collapsible
@@ -534,15 +586,16 @@ export default function Layout({ children }: LayoutProps) {
                       "border-l-[2px] transition-colors",
                       hasActiveChild ? colors.border.replace('/20', '/40') : "border-border/40"
                     )}>
-                      {section.items.map((item) => {
-                        const isDisabledByRemote = !!(item as any).requiresLocal && activeServer?.isRemote
+                      {items.map((item) => {
+                        // Remote servers reach their files through the panel agent, if they have one
+                        const isDisabledByRemote = !!item.requiresLocal && activeServer?.isRemote && !activeServer.agentUrl
                         
                         if (isDisabledByRemote) {
                           return (
                             <div
                               key={item.to}
                               className="nav-item flex items-center gap-3 px-3 py-2 rounded-lg text-[13px] opacity-40 cursor-not-allowed relative"
-                              title="Not available for remote (RCON-only) servers"
+                              title="Not available for remote servers without a panel agent"
                             >
                               <item.icon className="w-4 h-4 text-muted-foreground/50 shrink-0" />
                               <span className="truncate text-muted-foreground/70 line-through decoration-muted-foreground/30">{item.label}</span>
@@ -596,6 +649,23 @@ export default function Layout({ children }: LayoutProps) {
 
         {/* Footer */}
         <div className="p-4 border-t space-y-4">
+          {user && (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-muted/40">
+              <UserCircle className="w-4 h-4 text-muted-foreground shrink-0" />
+              <span className="text-sm font-medium truncate flex-1">{user.username}</span>
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground">{user.role}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => logout()}
+                title="Sign out"
+                aria-label="Sign out"
+              >
+                <LogOut className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
           <ConnectionStatus showLabel className="justify-center" />
           <div className="text-center">
             <p 
@@ -0,0 +1,93 @@
+import { useEffect, useState, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { CalendarX, X } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { useSocket } from '@/contexts/SocketContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { schedulerApi, MissedRuns } from '@/lib/api'
+
+function formatDue(at: string): string {
+  return new Date(at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+function describe(entry: MissedRuns): string {
+  const due = entry.missed === 1
+    ? `1 run due ${formatDue(entry.firstDueAt)}`
+    : `${entry.missed} runs due ${formatDue(entry.firstDueAt)} to ${formatDue(entry.lastDueAt)}`
+  const action = entry.caughtUp === 0
+    ? 'skipped'
+    : entry.caughtUp === 1 ? 'ran once to catch up' : `ran ${entry.caughtUp} times to catch up`
+  return `${due} - ${action}`
+}
+
+/**
+ * MissedRunsAlert - scheduled tasks that were due while the panel was not
+ * running, and what their catch-up policy did about it. The scheduler
+ * finds them when the panel starts; the warning stays until dismissed.
+ */
+export function MissedRunsAlert() {
+  const socket = useSocket()
+  const { can } = useAuth()
+  const [missedRuns, setMissedRuns] = useState<MissedRuns[]>([])
+
+  const fetchMissedRuns = useCallback(async () => {
+    try {
+      const status = await schedulerApi.getStatus()
+      setMissedRuns(status.missedRuns ?? [])
+    } catch (error) {
+      console.error('Failed to fetch missed runs:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchMissedRuns()
+  }, [fetchMissedRuns])
+
+  useEffect(() => {
+    if (!socket) return
+    socket.on('activeServerChanged', fetchMissedRuns)
+    return () => {
+      socket.off('activeServerChanged', fetchMissedRuns)
+    }
+  }, [socket, fetchMissedRuns])
+
+  const handleDismiss = async () => {
+    try {
+      await schedulerApi.dismissMissedRuns()
+      setMissedRuns([])
+    } catch (error) {
+      console.error('Failed to dismiss missed runs:', error)
+    }
+  }
+
+  if (missedRuns.length === 0) return null
+
+  return (
+    <Card className="border-warning/40 bg-warning/5">
+      <CardContent className="py-4">
+        <div className="flex items-start gap-4">
+          <div className="w-10 h-10 rounded-xl bg-warning/10 flex items-center justify-center flex-shrink-0">
+            <CalendarX className="w-5 h-5 text-warning" />
+          </div>
+          <div className="flex-1 min-w-0 space-y-1">
+            <p className="text-sm font-medium">Scheduled runs were missed while the panel was down</p>
+            {missedRuns.map((entry, index) => (
+              <p key={index} className="text-xs text-muted-foreground truncate">
+                <span className="text-foreground">{entry.taskName}</span>: {describe(entry)}
+              </p>
+            ))}
+            <Link to="/scheduler" className="text-xs text-primary hover:underline">
+              View history →
+            </Link>
+          </div>
+          {can('scheduler.manage') && (
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleDismiss} title="Dismiss">
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
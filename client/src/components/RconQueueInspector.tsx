@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from 'react'
+import { ListOrdered, RefreshCw, RotateCcw, Trash2, Loader2, Server } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/use-toast'
+import { debugApi, RconPriority, RconQueueJob, RconQueueState } from '@/lib/api'
+
+const REFRESH_MS = 2000
+
+const PRIORITY_STYLES: Record<RconPriority, string> = {
+  critical: 'bg-red-500/20 text-red-400 border-red-500/30',
+  moderation: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  normal: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  polling: 'bg-muted text-muted-foreground'
+}
+
+function formatMs(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+function JobRow({ job, running = false }: { job: RconQueueJob; running?: boolean }) {
+  return (
+    <div className="flex items-center gap-2 py-1.5 text-sm border-b last:border-0">
+      {running && <Loader2 className="w-3.5 h-3.5 animate-spin text-primary shrink-0" />}
+      <Badge variant="outline" className={`text-xs ${PRIORITY_STYLES[job.priority]}`}>{job.priority}</Badge>
+      <span className="text-xs text-muted-foreground w-16 shrink-0">{job.source}</span>
+      <code className="font-mono text-xs truncate flex-1" title={job.command}>{job.command}</code>
+      {job.attempts > 0 && !running && (
+        <span className="text-xs text-yellow-400" title={job.lastError || undefined}>
+          retry {job.attempts + 1}{job.retryAt ? ` at ${new Date(job.retryAt).toLocaleTimeString()}` : ''}
+        </span>
+      )}
+      <span className="text-xs text-muted-foreground font-mono w-14 text-right">
+        {formatMs(running && job.runningMs !== undefined ? job.runningMs : job.waitingMs)}
+      </span>
+    </div>
+  )
+}
+
+/**
+ * RconQueueInspector - live view of each server's RCON command queue:
+ * the command being sent, waiting commands by priority, per-source rate
+ * limits and failed commands (dead letters), which can be sent again.
+ */
+export function RconQueueInspector() {
+  const { toast } = useToast()
+  const [servers, setServers] = useState<RconQueueState[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const data = await debugApi.getRconQueue()
+      setServers(data.servers)
+    } catch {
+      // Keep the last state; the next refresh tries again
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+    const interval = setInterval(fetchQueue, REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [fetchQueue])
+
+  const handleRetry = async (server: RconQueueState, id: number) => {
+    setBusy(`${server.serverId}-${id}`)
+    try {
+      const result = await debugApi.retryDeadLetter(server.serverId, id)
+      toast({
+        title: result.success ? 'Command sent' : 'Command failed again',
+        description: result.success ? result.response : result.error,
+        variant: result.success ? 'default' : 'destructive'
+      })
+    } catch (error) {
+      toast({
+        title: 'Retry failed',
+        description: error instanceof Error ? error.message : 'Failed to retry command',
+        variant: 'destructive'
+      })
+    } finally {
+      setBusy(null)
+      fetchQueue()
+    }
+  }
+
+  const handleClear = async (server: RconQueueState) => {
+    setBusy(`${server.serverId}-clear`)
+    try {
+      await debugApi.clearDeadLetters(server.serverId)
+    } catch (error) {
+      toast({
+        title: 'Failed to clear',
+        description: error instanceof Error ? error.message : 'Failed to clear dead letters',
+        variant: 'destructive'
+      })
+    } finally {
+      setBusy(null)
+      fetchQueue()
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" /> Loading RCON queues...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {servers.map(server => (
+        <Card key={server.serverId ?? 'default'}>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2">
+              <Server className="w-5 h-5" />
+              {server.name}
+              {server.isActive && <Badge variant="outline" className="text-xs">Active</Badge>}
+              <Badge variant="outline" className={`text-xs ml-auto ${server.rconConnected ? 'text-green-400' : 'text-muted-foreground'}`}>
+                RCON {server.rconConnected ? 'connected' : 'disconnected'}
+              </Badge>
+            </CardTitle>
+            <CardDescription className="font-mono text-xs">
+              {server.stats.sent} sent · {server.stats.succeeded} ok · {server.stats.failed} failed · {server.stats.retried} retried
+              · {server.stats.coalesced} merged · {server.stats.rejected} rejected · {server.stats.expired} expired
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="text-sm font-medium flex items-center gap-2 mb-1">
+                <ListOrdered className="w-4 h-4" />
+                Queue ({server.pending.length} waiting)
+              </p>
+              {!server.running && server.pending.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Idle</p>
+              ) : (
+                <div>
+                  {server.running && <JobRow job={server.running} running />}
+                  {server.pending.map(job => <JobRow key={job.id} job={job} />)}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {server.sources.map(source => (
+                <div key={source.source} className="p-2 rounded-lg bg-muted/50 border text-xs">
+                  <p className="font-medium">{source.source}</p>
+                  <p className={`font-mono ${source.limitedUntil ? 'text-yellow-400' : 'text-muted-foreground'}`}>
+                    {source.recent}/{source.limit} per {source.windowMs / 1000}s
+                  </p>
+                  {source.pending > 0 && <p className="text-muted-foreground">{source.pending} waiting</p>}
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-sm font-medium">Dead letters ({server.deadLetters.length})</p>
+                {server.deadLetters.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleClear(server)}
+                    disabled={busy === `${server.serverId}-clear`}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Clear
+                  </Button>
+                )}
+              </div>
+              {server.deadLetters.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No failed commands</p>
+              ) : (
+                <div className="max-h-64 overflow-auto">
+                  {server.deadLetters.map(entry => (
+                    <div key={entry.id} className="flex items-center gap-2 py-1.5 text-sm border-b last:border-0">
+                      <Badge variant="outline" className={`text-xs ${PRIORITY_STYLES[entry.priority]}`}>{entry.priority}</Badge>
+                      <span className="text-xs text-muted-foreground w-16 shrink-0">{entry.source}</span>
+                      <div className="flex-1 min-w-0">
+                        <code className="font-mono text-xs block truncate" title={entry.command}>{entry.command}</code>
+                        <p className="text-xs text-red-400 truncate" title={entry.error}>
+                          {entry.error} · {entry.attempts} attempt(s) · {new Date(entry.failedAt).toLocaleTimeString()}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => handleRetry(server, entry.id)}
+                        disabled={busy === `${server.serverId}-${entry.id}`}
+                      >
+                        {busy === `${server.serverId}-${entry.id}`
+                          ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                          : <RotateCcw className="w-3.5 h-3.5" />}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <RefreshCw className="w-3 h-3" /> Refreshes every {REFRESH_MS / 1000}s
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import type { StructuredRconResult } from '@/types'
+
+interface RconResultViewProps {
+  result: StructuredRconResult
+}
+
+function formatValue(value: string | number | boolean | null) {
+  if (value === null) return '—'
+  return String(value)
+}
+
+function MessageLines({ message, className }: { message: string; className: string }) {
+  return (
+    <div className={className}>
+      {(message || 'Command executed successfully').split('\n').map((line, i) => (
+        <div key={`line-${i}`}>{line || '\u00A0'}</div>
+      ))}
+    </div>
+  )
+}
+
+/** One-line summary of what a parsed command did */
+function summarize(result: StructuredRconResult): string | null {
+  switch (result.kind) {
+    case 'item':
+      return `Gave ${result.data.count}× ${result.data.item ?? 'item'}${result.data.username ? ` to ${result.data.username}` : ''}`
+    case 'xp':
+      return `Gave ${result.data.amount ?? '?'} ${result.data.perk ?? ''} XP to ${result.data.username ?? 'player'}`
+    case 'vehicle':
+      return `Spawned ${result.data.vehicle ?? 'vehicle'}${result.data.username ? ` at ${result.data.username}` : ''}`
+    case 'moderation': {
+      const { action, target, banIp, reason } = result.data
+      return `${action}${banIp ? ' (IP)' : ''}: ${target ?? '?'}${reason ? ` — ${reason}` : ''}`
+    }
+    case 'accessLevel':
+      return `${result.data.username ?? '?'} → ${result.data.accessLevel ?? '?'}`
+    case 'whitelist':
+      return result.data.action === 'addAll'
+        ? 'Added all connected players to the whitelist'
+        : `Whitelist ${result.data.action}: ${result.data.username ?? '?'}`
+    case 'option':
+      return `${result.data.name ?? '?'} = ${formatValue(result.data.value)}`
+    case 'teleport': {
+      const { player, target, coordinates } = result.data
+      if (coordinates) return `Teleported to ${coordinates.x}, ${coordinates.y}, ${coordinates.z}`
+      return `Teleported ${player ?? '?'}${target ? ` to ${target}` : ''}`
+    }
+    case 'adminMode':
+      return `${result.data.mode} ${result.data.enabled === null ? 'toggled' : result.data.enabled ? 'on' : 'off'}${result.data.username ? ` for ${result.data.username}` : ''}`
+    case 'modCheck':
+      if (result.data.needsUpdate === true) return 'Mods need an update'
+      if (result.data.needsUpdate === false) return 'All mods are up to date'
+      return result.data.started ? 'Mod update check started - the result is written to the server log' : null
+    default:
+      return null
+  }
+}
+
+/**
+ * RconResultView - renders a structured RCON result: tables for player and
+ * option lists, a short summary for other parsed commands, text otherwise.
+ */
+export function RconResultView({ result }: RconResultViewProps) {
+  if (!result.success) {
+    return <MessageLines message={result.error || result.message} className="text-red-400" />
+  }
+
+  if (result.kind === 'players') {
+    return (
+      <div className="text-green-400">
+        <div>Players connected: {result.data.count}</div>
+        {result.data.players.length > 0 && (
+          <table className="mt-1 text-xs">
+            <tbody>
+              {result.data.players.map((player, i) => (
+                <tr key={player.name}>
+                  <td className="pr-4 text-muted-foreground">{i + 1}</td>
+                  <td>{player.name}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    )
+  }
+
+  if (result.kind === 'options') {
+    return (
+      <div className="text-green-400">
+        <div>{result.data.options.length} server options</div>
+        <div className="mt-1 max-h-64 overflow-auto">
+          <table className="text-xs">
+            <tbody>
+              {result.data.options.map(option => (
+                <tr key={option.name}>
+                  <td className="pr-4 text-blue-300 align-top">{option.name}</td>
+                  <td className={typeof option.value === 'boolean' ? (option.value ? 'text-green-400' : 'text-orange-400') : 'text-foreground'}>
+                    {formatValue(option.value)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    )
+  }
+
+  const summary = summarize(result)
+  return (
+    <div className="text-green-400">
+      {summary && <div className="font-medium">{summary}</div>}
+      {result.message && result.message !== summary && (
+        <MessageLines message={result.message} className={summary ? 'text-muted-foreground text-xs' : ''} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState, useCallback } from 'react'
+import { Timer, XCircle } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/use-toast'
+import { useSocket } from '@/contexts/SocketContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { schedulerApi, RestartCountdown as Countdown } from '@/lib/api'
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+/**
+ * RestartCountdown - shown while a restart is warning players, with the
+ * time left, the last warning sent and a button to cancel it. The server
+ * sends the countdown when each warning goes out; the clock ticks here.
+ */
+export function RestartCountdown() {
+  const socket = useSocket()
+  const { can } = useAuth()
+  const { toast } = useToast()
+  const [countdown, setCountdown] = useState<Countdown | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const [cancelling, setCancelling] = useState(false)
+
+  const fetchCountdown = useCallback(async () => {
+    try {
+      const status = await schedulerApi.getStatus()
+      setCountdown(status.restartCountdown ?? null)
+    } catch (error) {
+      console.error('Failed to fetch restart countdown:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCountdown()
+  }, [fetchCountdown])
+
+  useEffect(() => {
+    if (!socket) return
+    const handleCountdown = (data: { countdown: Countdown | null }) => setCountdown(data.countdown)
+    socket.on('restart:countdown', handleCountdown)
+    socket.on('activeServerChanged', fetchCountdown)
+    return () => {
+      socket.off('restart:countdown', handleCountdown)
+      socket.off('activeServerChanged', fetchCountdown)
+    }
+  }, [socket, fetchCountdown])
+
+  useEffect(() => {
+    if (!countdown) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [countdown])
+
+  const handleCancel = async () => {
+    setCancelling(true)
+    try {
+      await schedulerApi.cancelRestart()
+      toast({ title: 'Restart Cancelled', description: 'Players have been told the restart is off' })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to cancel restart',
+        variant: 'destructive',
+      })
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  if (!countdown) return null
+
+  const secondsLeft = Math.max(0, Math.ceil((new Date(countdown.restartAt).getTime() - now) / 1000))
+
+  return (
+    <Card className="border-warning/40 bg-warning/5">
+      <CardContent className="py-4">
+        <div className="flex items-center gap-4">
+          <div className="w-10 h-10 rounded-xl bg-warning/10 flex items-center justify-center flex-shrink-0">
+            <Timer className="w-5 h-5 text-warning" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">
+              {secondsLeft > 0 ? `Server restarting in ${formatCountdown(secondsLeft)}` : 'Server restarting now'}
+              <span className="text-muted-foreground font-normal"> · {countdown.reason}</span>
+            </p>
+            <p className="text-xs text-muted-foreground truncate">Last warning: {countdown.message}</p>
+          </div>
+          {secondsLeft > 0 && can('server.control') && (
+            <Button variant="outline" size="sm" onClick={handleCancel} disabled={cancelling}>
+              <XCircle className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,285 @@
+import { useEffect, useState, useCallback } from 'react'
+import { RotateCcw, Plus, Trash2, Save, Loader2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import { useAuth } from '@/contexts/AuthContext'
+import { schedulerApi, RestartPolicy, RestartWindow, NextAutoRestart } from '@/lib/api'
+
+// Offsets are edited as text in minutes or seconds and parsed when saving
+interface WarningDraft {
+  amount: string
+  unit: 'minutes' | 'seconds'
+  message: string
+}
+
+const EMPTY_WINDOW: RestartWindow = { cron: '0 */6 * * *', label: '', enabled: true }
+const EMPTY_WARNING: WarningDraft = { amount: '1', unit: 'minutes', message: '⚠️ Server restarting in {time}!' }
+
+function warningDraft(offsetSeconds: number, message: string): WarningDraft {
+  return offsetSeconds % 60 === 0
+    ? { amount: String(offsetSeconds / 60), unit: 'minutes', message }
+    : { amount: String(offsetSeconds), unit: 'seconds', message }
+}
+
+function offsetSeconds(draft: WarningDraft): number {
+  return Math.round(Number(draft.amount) * (draft.unit === 'minutes' ? 60 : 1))
+}
+
+// Same placeholders as server/utils/restartPolicy.js renderWarning
+function renderWarning(template: string, seconds: number): string {
+  const minutes = Math.ceil(seconds / 60)
+  const time = seconds >= 60
+    ? `${minutes} minute${minutes === 1 ? '' : 's'}`
+    : `${seconds} second${seconds === 1 ? '' : 's'}`
+  return template
+    .replace(/\{minutes\}/g, String(minutes))
+    .replace(/\{seconds\}/g, String(seconds))
+    .replace(/\{time\}/g, time)
+}
+
+interface RestartPolicyCardProps {
+  onSaved?: () => void
+}
+
+/**
+ * RestartPolicyCard - when the server restarts on its own and how players
+ * are warned: the restart windows, the warnings sent before each restart
+ * and whether they go out over RCON, PanelBridge or both. Manual restarts
+ * use the same warnings.
+ */
+export function RestartPolicyCard({ onSaved }: RestartPolicyCardProps) {
+  const { toast } = useToast()
+  const { can } = useAuth()
+  const [policy, setPolicy] = useState<RestartPolicy | null>(null)
+  const [warnings, setWarnings] = useState<WarningDraft[]>([])
+  const [nextAutoRestart, setNextAutoRestart] = useState<NextAutoRestart | null>(null)
+  const [saving, setSaving] = useState(false)
+  const canEdit = can('scheduler.manage')
+
+  const load = useCallback((data: { policy: RestartPolicy; nextAutoRestart: NextAutoRestart | null }) => {
+    setPolicy(data.policy)
+    setWarnings(data.policy.warnings.map(w => warningDraft(w.offsetSeconds, w.message)))
+    setNextAutoRestart(data.nextAutoRestart)
+  }, [])
+
+  useEffect(() => {
+    schedulerApi.getRestartPolicy()
+      .then(load)
+      .catch(error => console.error('Failed to fetch restart policy:', error))
+  }, [load])
+
+  if (!policy) return null
+
+  const updateWindow = (index: number, changes: Partial<RestartWindow>) => {
+    setPolicy({ ...policy, windows: policy.windows.map((w, i) => (i === index ? { ...w, ...changes } : w)) })
+  }
+
+  const updateWarning = (index: number, changes: Partial<WarningDraft>) => {
+    setWarnings(warnings.map((w, i) => (i === index ? { ...w, ...changes } : w)))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const data = await schedulerApi.saveRestartPolicy({
+        ...policy,
+        warnings: warnings.map(w => ({ offsetSeconds: offsetSeconds(w), message: w.message })),
+      })
+      load(data)
+      onSaved?.()
+      toast({
+        title: 'Restart Policy Saved',
+        description: data.nextAutoRestart
+          ? `Next restart ${new Date(data.nextAutoRestart.at).toLocaleString()}`
+          : 'Automatic restarts are off',
+        variant: 'success' as const,
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save restart policy',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <RotateCcw className="w-5 h-5" />
+              Restart Policy
+            </CardTitle>
+            <CardDescription>
+              {nextAutoRestart
+                ? `Next automatic restart: ${new Date(nextAutoRestart.at).toLocaleString()}${nextAutoRestart.label ? ` (${nextAutoRestart.label})` : ''}`
+                : 'Automatic restarts are off'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="auto-restart-enabled" className="text-sm">Automatic restarts</Label>
+            <Switch
+              id="auto-restart-enabled"
+              checked={policy.enabled}
+              onCheckedChange={(checked) => setPolicy({ ...policy, enabled: checked })}
+              disabled={!canEdit}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Restart Windows */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Restart at</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPolicy({ ...policy, windows: [...policy.windows, { ...EMPTY_WINDOW }] })}
+              disabled={!canEdit || policy.windows.length >= 10}
+            >
+              <Plus className="w-4 h-4 mr-1" /> Add
+            </Button>
+          </div>
+          {policy.windows.length === 0 && (
+            <p className="text-xs text-muted-foreground">No restart windows - the server only restarts when you ask it to.</p>
+          )}
+          {policy.windows.map((window, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Switch
+                checked={window.enabled}
+                onCheckedChange={(checked) => updateWindow(index, { enabled: checked })}
+                disabled={!canEdit}
+              />
+              <Input
+                value={window.cron}
+                onChange={e => updateWindow(index, { cron: e.target.value })}
+                className="w-40 h-8 font-mono text-xs"
+                placeholder="0 */6 * * *"
+                disabled={!canEdit}
+              />
+              <Input
+                value={window.label}
+                onChange={e => updateWindow(index, { label: e.target.value })}
+                className="h-8 text-xs"
+                placeholder="Nightly restart"
+                disabled={!canEdit}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => setPolicy({ ...policy, windows: policy.windows.filter((_, i) => i !== index) })}
+                disabled={!canEdit}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* Warnings */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Warn players</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setWarnings([...warnings, { ...EMPTY_WARNING }])}
+              disabled={!canEdit || warnings.length >= 20}
+            >
+              <Plus className="w-4 h-4 mr-1" /> Add
+            </Button>
+          </div>
+          {warnings.map((warning, index) => {
+            const seconds = offsetSeconds(warning)
+            return (
+              <div key={index} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={warning.amount}
+                    onChange={e => updateWarning(index, { amount: e.target.value })}
+                    className="w-20 h-8 text-xs"
+                    disabled={!canEdit}
+                  />
+                  <Select
+                    value={warning.unit}
+                    onValueChange={(value) => updateWarning(index, { unit: value as WarningDraft['unit'] })}
+                    disabled={!canEdit}
+                  >
+                    <SelectTrigger className="w-28 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="minutes">min before</SelectItem>
+                      <SelectItem value="seconds">sec before</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={warning.message}
+                    onChange={e => updateWarning(index, { message: e.target.value })}
+                    className="h-8 text-xs"
+                    maxLength={200}
+                    disabled={!canEdit}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setWarnings(warnings.filter((_, i) => i !== index))}
+                    disabled={!canEdit || warnings.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                {seconds > 0 && warning.message && (
+                  <p className="text-xs text-muted-foreground pl-1">{renderWarning(warning.message, seconds)}</p>
+                )}
+              </div>
+            )
+          })}
+          <p className="text-xs text-muted-foreground">
+            Messages can use {'{minutes}'}, {'{seconds}'} and {'{time}'} ("5 minutes", "30 seconds").
+          </p>
+        </div>
+
+        {/* Delivery */}
+        <div className="flex flex-wrap items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="restart-delivery-rcon"
+              checked={policy.delivery.rcon}
+              onCheckedChange={(checked) => setPolicy({ ...policy, delivery: { ...policy.delivery, rcon: checked } })}
+              disabled={!canEdit}
+            />
+            <Label htmlFor="restart-delivery-rcon" className="text-sm">Server message (RCON)</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="restart-delivery-bridge"
+              checked={policy.delivery.bridge}
+              onCheckedChange={(checked) => setPolicy({ ...policy, delivery: { ...policy.delivery, bridge: checked } })}
+              disabled={!canEdit}
+            />
+            <Label htmlFor="restart-delivery-bridge" className="text-sm">On-screen alert (PanelBridge)</Label>
+          </div>
+          <Button onClick={handleSave} disabled={!canEdit || saving} className="ml-auto">
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
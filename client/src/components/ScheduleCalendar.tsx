@@ -0,0 +1,335 @@
+import { useEffect, useState, useCallback, useMemo, DragEvent } from 'react'
+import { CalendarDays, ChevronLeft, ChevronRight, AlertTriangle, Loader2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useToast } from '@/components/ui/use-toast'
+import { useAuth } from '@/contexts/AuthContext'
+import { cn } from '@/lib/utils'
+import { schedulerApi, UpcomingEvent, UpcomingSchedule } from '@/lib/api'
+
+type CalendarView = 'day' | 'week'
+
+const DAY_MS = 24 * 3600 * 1000
+const HOUR_PX: Record<CalendarView, number> = { day: 48, week: 24 }
+const SNAP_MINUTES = 15
+
+const KIND_STYLES: Record<UpcomingEvent['kind'], string> = {
+  task: 'bg-primary/15 border-primary/60 text-foreground',
+  backup: 'bg-blue-500/15 border-blue-500/60 text-foreground',
+  restart: 'bg-warning/20 border-warning text-foreground',
+  modRestart: 'bg-orange-500/15 border-orange-500/60 text-foreground',
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+function formatTime(value: string | Date): string {
+  return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+function formatDateTime(value: string | Date): string {
+  return new Date(value).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })
+}
+
+interface PlacedEvent {
+  event: UpcomingEvent
+  top: number
+  height: number
+  lane: number
+  lanes: number
+}
+
+// Place a day's events in side-by-side lanes where they overlap
+function layoutDay(events: UpcomingEvent[], day: Date, hourPx: number): PlacedEvent[] {
+  const dayStart = day.getTime()
+  const dayEnd = dayStart + DAY_MS
+  const placed: PlacedEvent[] = []
+  const laneEnds: number[] = []
+
+  const visible = events
+    .filter(e => new Date(e.start).getTime() < dayEnd && new Date(e.end).getTime() > dayStart)
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+
+  for (const event of visible) {
+    const start = Math.max(new Date(event.start).getTime(), dayStart)
+    const end = Math.min(new Date(event.end).getTime(), dayEnd)
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= start)
+    if (lane === -1) lane = laneEnds.length
+    laneEnds[lane] = end
+    placed.push({
+      event,
+      top: ((start - dayStart) / 3600000) * hourPx,
+      height: Math.max(((end - start) / 3600000) * hourPx, 14),
+      lane,
+      lanes: 0,
+    })
+  }
+  for (const p of placed) p.lanes = laneEnds.length
+  return placed
+}
+
+interface ScheduleCalendarProps {
+  // Refetch when this changes, e.g. after tasks are edited
+  refreshKey?: unknown
+}
+
+/**
+ * ScheduleCalendar - a day or week of upcoming scheduled tasks, backups and
+ * restarts. Runs that keep the server busy at the same time as a restart or
+ * a backup are outlined in red. Dragging a run to a later time postpones
+ * that one run; clicking a postponed run moves it back.
+ */
+export function ScheduleCalendar({ refreshKey }: ScheduleCalendarProps) {
+  const { toast } = useToast()
+  const { can } = useAuth()
+  const [view, setView] = useState<CalendarView>('week')
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()))
+  const [schedule, setSchedule] = useState<UpcomingSchedule | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [dragging, setDragging] = useState<{ event: UpcomingEvent; grabMs: number } | null>(null)
+  const [now, setNow] = useState(Date.now())
+  const canEdit = can('scheduler.manage')
+
+  const days = useMemo(() => {
+    const first = view === 'week' ? addDays(anchor, -anchor.getDay()) : anchor
+    return Array.from({ length: view === 'week' ? 7 : 1 }, (_, i) => addDays(first, i))
+  }, [view, anchor])
+
+  const fetchUpcoming = useCallback(async () => {
+    setLoading(true)
+    try {
+      setSchedule(await schedulerApi.getUpcoming({ from: days[0].toISOString(), days: days.length, limit: 200 }))
+    } catch (error) {
+      console.error('Failed to fetch upcoming runs:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchUpcoming()
+  }, [fetchUpcoming, refreshKey])
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const events = useMemo(() => schedule?.events ?? [], [schedule])
+  const eventsById = useMemo(() => new Map(events.map(e => [e.id, e])), [events])
+  const conflicts = useMemo(() => {
+    const pairs: [UpcomingEvent, UpcomingEvent][] = []
+    for (const event of events) {
+      for (const id of event.conflicts) {
+        const other = eventsById.get(id)
+        if (other && event.id < other.id) pairs.push([event, other])
+      }
+    }
+    return pairs.sort((a, b) => new Date(a[0].start).getTime() - new Date(b[0].start).getTime())
+  }, [events, eventsById])
+
+  const hourPx = HOUR_PX[view]
+
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, event: UpcomingEvent) => {
+    // Keep the point that was grabbed under the pointer
+    const rect = e.currentTarget.getBoundingClientRect()
+    const grabMs = ((e.clientY - rect.top) / hourPx) * 3600000
+    e.dataTransfer.effectAllowed = 'move'
+    setDragging({ event, grabMs })
+  }
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>, day: Date) => {
+    e.preventDefault()
+    if (!dragging) return
+    const { event, grabMs } = dragging
+    setDragging(null)
+
+    const rect = e.currentTarget.getBoundingClientRect()
+    const snapMs = SNAP_MINUTES * 60000
+    const start = day.getTime() + ((e.clientY - rect.top) / hourPx) * 3600000 - grabMs
+    const leadMs = new Date(event.at).getTime() - new Date(event.start).getTime()
+    const newAt = new Date(Math.round((start + leadMs) / snapMs) * snapMs)
+    const originalAt = event.postponedFrom ?? event.at
+
+    if (newAt.getTime() <= new Date(originalAt).getTime()) {
+      toast({ title: 'Runs can only be postponed', description: 'Drop it later than its usual time', variant: 'destructive' })
+      return
+    }
+    if (!confirm(`Postpone "${event.name}" from ${formatDateTime(originalAt)} to ${formatDateTime(newAt)}? Only this run moves.`)) return
+
+    try {
+      await schedulerApi.postponeRun(event.key, originalAt, newAt.toISOString())
+      toast({ title: 'Run Postponed', description: `${event.name} now runs ${formatDateTime(newAt)}`, variant: 'success' as const })
+      fetchUpcoming()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to postpone run',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleUndo = async (event: UpcomingEvent) => {
+    if (!event.postponementId || !event.postponedFrom) return
+    if (!confirm(`Move "${event.name}" back to ${formatDateTime(event.postponedFrom)}?`)) return
+    try {
+      await schedulerApi.cancelPostponement(event.postponementId)
+      fetchUpcoming()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to undo postponement',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const rangeLabel = view === 'week'
+    ? `${days[0].toLocaleDateString()} – ${days[days.length - 1].toLocaleDateString()}`
+    : days[0].toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' })
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5" />
+              Upcoming
+              {conflicts.length > 0 && (
+                <Badge variant="destructive" className="ml-1">{conflicts.length} overlap{conflicts.length === 1 ? '' : 's'}</Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              Tasks, backups and restarts{canEdit ? ' - drag a run later to postpone it once' : ''}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {loading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+              <TabsList>
+                <TabsTrigger value="day">Day</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setAnchor(addDays(anchor, view === 'week' ? -7 : -1))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(startOfDay(new Date()))}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setAnchor(addDays(anchor, view === 'week' ? 7 : 1))}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm font-medium">{rangeLabel}</p>
+
+        <div className="border rounded-lg overflow-hidden">
+          <div className="flex border-b">
+            <div className="w-12 shrink-0 border-r h-8" />
+            {days.map(day => (
+              <div key={day.toISOString()} className="flex-1 min-w-0 border-r last:border-r-0 h-8 flex items-center justify-center">
+                <span className={cn('text-xs', startOfDay(new Date(now)).getTime() === day.getTime() ? 'font-bold text-primary' : 'text-muted-foreground')}>
+                  {day.toLocaleDateString([], { weekday: 'short', day: 'numeric' })}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="max-h-[480px] overflow-y-auto">
+            <div className="flex" style={{ height: 24 * hourPx }}>
+              <div className="w-12 shrink-0 border-r relative">
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <span key={hour} className="absolute left-1 text-[10px] text-muted-foreground" style={{ top: hour * hourPx }}>
+                    {String(hour).padStart(2, '0')}:00
+                  </span>
+                ))}
+              </div>
+              {days.map(day => {
+                const nowOffset = now - day.getTime()
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className="flex-1 min-w-0 border-r last:border-r-0 relative"
+                    onDragOver={(e) => { if (dragging) e.preventDefault() }}
+                    onDrop={(e) => handleDrop(e, day)}
+                  >
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <div key={hour} className="absolute inset-x-0 border-t border-border/50" style={{ top: hour * hourPx }} />
+                    ))}
+                    {nowOffset >= 0 && nowOffset < DAY_MS && (
+                      <div className="absolute inset-x-0 border-t-2 border-destructive z-10" style={{ top: (nowOffset / 3600000) * hourPx }} />
+                    )}
+                    {layoutDay(events, day, hourPx).map(({ event, top, height, lane, lanes }) => (
+                      <div
+                        key={event.id}
+                        draggable={canEdit && event.movable}
+                        onDragStart={(e) => handleDragStart(e, event)}
+                        onDragEnd={() => setDragging(null)}
+                        onClick={() => canEdit && handleUndo(event)}
+                        title={[
+                          event.name,
+                          `Runs ${formatDateTime(event.at)}`,
+                          event.postponedFrom ? `Postponed from ${formatDateTime(event.postponedFrom)} - click to undo` : null,
+                          event.cron ? `Cron: ${event.cron}` : null,
+                          event.conflicts.length > 0
+                            ? `Overlaps: ${event.conflicts.map(id => eventsById.get(id)?.name ?? id).join(', ')}`
+                            : null,
+                        ].filter(Boolean).join('\n')}
+                        className={cn(
+                          'absolute rounded border px-1 overflow-hidden text-[10px] leading-tight',
+                          KIND_STYLES[event.kind],
+                          event.postponedFrom && 'border-dashed',
+                          event.conflicts.length > 0 && 'ring-2 ring-destructive',
+                          canEdit && event.movable ? 'cursor-grab' : 'cursor-default',
+                        )}
+                        style={{
+                          top,
+                          height,
+                          left: `${(lane / lanes) * 100}%`,
+                          width: `${100 / lanes}%`,
+                        }}
+                      >
+                        <span className="font-medium">{formatTime(event.at)}</span> {event.name}
+                      </div>
+                    ))}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="space-y-1">
+            {conflicts.slice(0, 5).map(([a, b]) => (
+              <p key={`${a.id}|${b.id}`} className="text-xs flex items-center gap-2 text-destructive">
+                <AlertTriangle className="w-3 h-3 shrink-0" />
+                {a.name} ({formatDateTime(a.at)}) overlaps {b.name} ({formatDateTime(b.at)})
+              </p>
+            ))}
+            {conflicts.length > 5 && (
+              <p className="text-xs text-muted-foreground">and {conflicts.length - 5} more</p>
+            )}
+          </div>
+        )}
+        {schedule && schedule.truncated.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Some jobs run too often to show every run: {schedule.truncated.map(key => events.find(e => e.key === key)?.name ?? key).join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { Loader2, PlugZap, CheckCircle, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { serversApi, AgentInfo } from '@/lib/api'
+
+export interface AgentSettingsValue {
+  agentUrl: string
+  agentToken: string
+  installPath: string
+  zomboidDataPath: string
+  serverConfigPath: string
+}
+
+interface AgentSettingsFieldsProps {
+  value: AgentSettingsValue
+  onChange: (changes: Partial<AgentSettingsValue>) => void
+  serverId?: string | number  // lets the test reuse a saved (masked) token
+}
+
+/**
+ * AgentSettingsFields - connection to the panel agent on a remote server's
+ * host. With an agent the panel can edit configs, manage mods, clean chunks
+ * and take backups on that machine; the folders are paths on the remote host.
+ */
+export function AgentSettingsFields({ value, onChange, serverId }: AgentSettingsFieldsProps) {
+  const [testing, setTesting] = useState(false)
+  const [result, setResult] = useState<{ info?: AgentInfo; error?: string } | null>(null)
+
+  const handleTest = async () => {
+    setTesting(true)
+    setResult(null)
+    try {
+      const response = await serversApi.testAgent(value.agentUrl.trim(), value.agentToken, serverId)
+      setResult(response.success ? { info: response.info } : { error: response.error || 'Agent test failed' })
+    } catch (error) {
+      setResult({ error: error instanceof Error ? error.message : 'Agent test failed' })
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const hasAgent = !!value.agentUrl.trim()
+
+  return (
+    <div className="p-4 rounded-lg bg-muted/50 border space-y-3">
+      <div>
+        <p className="font-medium text-sm">Panel Agent (optional)</p>
+        <p className="text-xs text-muted-foreground">
+          Run <code className="font-mono">npm run agent</code> on the server's machine to enable config editing, mods, chunks and backups
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Agent URL</Label>
+          <Input
+            value={value.agentUrl}
+            onChange={e => { onChange({ agentUrl: e.target.value }); setResult(null) }}
+            placeholder="http://192.168.1.100:3002"
+            className="font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Agent Token</Label>
+          <Input
+            type="password"
+            value={value.agentToken}
+            onChange={e => { onChange({ agentToken: e.target.value }); setResult(null) }}
+            placeholder="AGENT_TOKEN from the agent's .env"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleTest}
+          disabled={testing || !hasAgent || !value.agentToken}
+        >
+          {testing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <PlugZap className="w-4 h-4 mr-1" />}
+          Test Agent
+        </Button>
+        {result?.info && (
+          <span className="flex items-center gap-1.5 text-xs text-green-500">
+            <CheckCircle className="w-3.5 h-3.5" />
+            Connected to {result.info.hostname} ({result.info.platform})
+          </span>
+        )}
+        {result?.error && (
+          <span className="flex items-center gap-1.5 text-xs text-destructive">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {result.error}
+          </span>
+        )}
+      </div>
+      {result?.info && (
+        <p className="text-xs text-muted-foreground font-mono break-all">
+          Allowed folders: {result.info.roots.join(', ')}
+        </p>
+      )}
+
+      {hasAgent && (
+        <div className="space-y-3 pt-1">
+          <p className="text-xs text-muted-foreground">Folders on the remote machine (must be inside the agent's allowed folders)</p>
+          <div className="space-y-2">
+            <Label>Install Path</Label>
+            <Input
+              value={value.installPath}
+              onChange={e => onChange({ installPath: e.target.value })}
+              placeholder="/home/pzserver/pzserver"
+              className="font-mono text-sm"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Zomboid Data Path</Label>
+            <Input
+              value={value.zomboidDataPath}
+              onChange={e => onChange({ zomboidDataPath: e.target.value })}
+              placeholder="/home/pzserver/Zomboid"
+              className="font-mono text-sm"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Server Config Path</Label>
+            <Input
+              value={value.serverConfigPath}
+              onChange={e => onChange({ serverConfigPath: e.target.value })}
+              placeholder="Leave empty for {Zomboid Data Path}/Server"
+              className="font-mono text-sm"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react'
+import { Loader2, Copy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { serversApi, ServerInstance } from '@/lib/api'
+
+interface CloneServerDialogProps {
+  server: ServerInstance | null
+  onClose: () => void
+  onCloned?: () => void
+}
+
+const CONFIG_FILE_SUFFIXES = ['.ini', '_SandboxVars.lua', '_spawnpoints.lua', '_spawnregions.lua']
+
+/**
+ * CloneServerDialog - copy a server's settings and config files under a new
+ * server name. The panel picks game and RCON ports no other server uses.
+ */
+export function CloneServerDialog({ server, onClose, onCloned }: CloneServerDialogProps) {
+  const { toast } = useToast()
+  const [name, setName] = useState('')
+  const [serverName, setServerName] = useState('')
+  const [includeSaves, setIncludeSaves] = useState(false)
+  const [cloning, setCloning] = useState(false)
+
+  useEffect(() => {
+    if (!server) return
+    setName(`${server.name} (Copy)`)
+    setServerName(`${server.serverName}_copy`)
+    setIncludeSaves(false)
+  }, [server])
+
+  const serverNameValid = /^[a-zA-Z0-9_-]{1,64}$/.test(serverName)
+
+  const handleClone = async () => {
+    if (!server) return
+    setCloning(true)
+    try {
+      const result = await serversApi.clone(server.id, { name: name.trim(), serverName, includeSaves })
+      toast({ title: 'Server Cloned', description: result.message })
+      onCloned?.()
+      onClose()
+    } catch (error) {
+      toast({
+        title: 'Clone Failed',
+        description: error instanceof Error ? error.message : 'Failed to clone server',
+        variant: 'destructive'
+      })
+    } finally {
+      setCloning(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!server} onOpenChange={(open) => !open && !cloning && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Clone Server</DialogTitle>
+          <DialogDescription>
+            Create a copy of "{server?.name}" with its own config files and free ports
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Display Name</Label>
+            <Input value={name} onChange={e => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Server Name</Label>
+            <Input
+              value={serverName}
+              onChange={e => setServerName(e.target.value)}
+              className="font-mono text-sm"
+            />
+            {serverName && !serverNameValid && (
+              <p className="text-xs text-destructive">Only letters, numbers, underscores and hyphens</p>
+            )}
+          </div>
+
+          <div className="p-3 rounded-lg bg-muted/50 border text-sm space-y-1">
+            <p className="font-medium">Files copied</p>
+            {CONFIG_FILE_SUFFIXES.map(suffix => (
+              <p key={suffix} className="font-mono text-xs text-muted-foreground">
+                {server?.serverName}{suffix} → {serverName || '…'}{suffix}
+              </p>
+            ))}
+            <p className="text-xs text-muted-foreground pt-1">
+              Game and RCON ports are set to the next ports no other server uses.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="cloneIncludeSaves"
+              checked={includeSaves}
+              onCheckedChange={(checked) => setIncludeSaves(checked === true)}
+            />
+            <Label htmlFor="cloneIncludeSaves" className="text-sm text-muted-foreground cursor-pointer">
+              Also copy the world save (Saves/Multiplayer/{server?.serverName})
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={cloning}>
+            Cancel
+          </Button>
+          <Button onClick={handleClone} disabled={cloning || !serverNameValid || serverName === server?.serverName}>
+            {cloning ? (
+              <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Cloning...</>
+            ) : (
+              <><Copy className="w-4 h-4 mr-2" /> Clone</>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
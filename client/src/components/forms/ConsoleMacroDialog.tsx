@@ -0,0 +1,275 @@
+import { useEffect, useState } from 'react'
+import { Loader2, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { rconApi, ConsoleMacro, ConsoleMacroParam, ConsoleMacroStep, MACRO_PREFIX } from '@/lib/api'
+
+interface ConsoleMacroDialogProps {
+  // The macro to edit, 'new' to create one, null when closed
+  macro: ConsoleMacro | 'new' | null
+  onClose: () => void
+  onSaved?: (macro: ConsoleMacro) => void
+}
+
+// Bridge args are edited as JSON text and parsed when saving
+interface StepDraft {
+  type: 'rcon' | 'bridge'
+  command: string
+  action: string
+  argsText: string
+  delaySeconds: string
+}
+
+const EMPTY_STEP: StepDraft = { type: 'rcon', command: '', action: '', argsText: '{}', delaySeconds: '0' }
+
+function toDraft(step: ConsoleMacroStep): StepDraft {
+  return step.type === 'rcon'
+    ? { ...EMPTY_STEP, command: step.command, delaySeconds: String(step.delaySeconds || 0) }
+    : { ...EMPTY_STEP, type: 'bridge', action: step.action, argsText: JSON.stringify(step.args ?? {}, null, 2), delaySeconds: String(step.delaySeconds || 0) }
+}
+
+function fromDraft(draft: StepDraft, index: number): ConsoleMacroStep {
+  const delaySeconds = Number(draft.delaySeconds) || 0
+  if (draft.type === 'rcon') return { type: 'rcon', command: draft.command, delaySeconds }
+  let args: Record<string, unknown>
+  try {
+    args = draft.argsText.trim() ? JSON.parse(draft.argsText) : {}
+  } catch {
+    throw new Error(`Step ${index + 1}: PanelBridge args are not valid JSON`)
+  }
+  return { type: 'bridge', action: draft.action, args, delaySeconds }
+}
+
+/**
+ * ConsoleMacroDialog - create or edit a console macro: named parameters
+ * with optional defaults, and RCON or PanelBridge steps that can wait
+ * before they run. `${param}` in a step is replaced when the macro runs.
+ */
+export function ConsoleMacroDialog({ macro, onClose, onSaved }: ConsoleMacroDialogProps) {
+  const { toast } = useToast()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [params, setParams] = useState<ConsoleMacroParam[]>([])
+  const [steps, setSteps] = useState<StepDraft[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!macro) return
+    const existing = macro === 'new' ? null : macro
+    setName(existing?.name ?? '')
+    setDescription(existing?.description ?? '')
+    setParams(existing?.params ?? [])
+    setSteps(existing ? existing.steps.map(toDraft) : [{ ...EMPTY_STEP }])
+  }, [macro])
+
+  const updateParam = (index: number, changes: Partial<ConsoleMacroParam>) => {
+    setParams(params.map((p, i) => (i === index ? { ...p, ...changes } : p)))
+  }
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setSteps(steps.map((s, i) => (i === index ? { ...s, ...changes } : s)))
+  }
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= steps.length) return
+    const next = [...steps]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setSteps(next)
+  }
+
+  const handleSave = async () => {
+    if (!macro) return
+    setSaving(true)
+    try {
+      const input = {
+        name: name.trim(),
+        description,
+        params: params.map(p => ({ name: p.name.trim(), ...(p.default ? { default: p.default } : {}) })),
+        steps: steps.map(fromDraft),
+      }
+      const result = macro === 'new'
+        ? await rconApi.createMacro(input)
+        : await rconApi.updateMacro(macro.id, input)
+      toast({ title: 'Saved', description: `Macro ${MACRO_PREFIX}${result.macro.name} saved` })
+      onSaved?.(result.macro)
+      onClose()
+    } catch (error) {
+      toast({
+        title: 'Invalid macro',
+        description: error instanceof Error ? error.message : 'Failed to save macro',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!macro} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{macro === 'new' ? 'New Macro' : 'Edit Macro'}</DialogTitle>
+          <DialogDescription>
+            Run it from the console, Discord /rcon or a scheduled task with {MACRO_PREFIX}{name || 'name'} followed by its parameters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                className="font-mono text-sm"
+                placeholder="restart-warning"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                value={description}
+                onChange={e => setDescription(e.target.value)}
+                placeholder="Warn, save and quit"
+              />
+            </div>
+          </div>
+
+          {/* Parameters */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Parameters</Label>
+              <Button variant="ghost" size="sm" onClick={() => setParams([...params, { name: '' }])}>
+                <Plus className="w-4 h-4 mr-1" /> Add
+              </Button>
+            </div>
+            {params.length === 0 && (
+              <p className="text-xs text-muted-foreground">No parameters</p>
+            )}
+            {params.map((param, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={param.name}
+                  onChange={e => updateParam(index, { name: e.target.value })}
+                  className="font-mono text-xs"
+                  placeholder="player"
+                />
+                <Input
+                  value={param.default ?? ''}
+                  onChange={e => updateParam(index, { default: e.target.value || undefined })}
+                  className="font-mono text-xs"
+                  placeholder="(required)"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => setParams(params.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Use {'${name}'} in a step. Parameters without a default must be given when the macro runs.
+            </p>
+          </div>
+
+          {/* Steps */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Steps</Label>
+              <Button variant="ghost" size="sm" onClick={() => setSteps([...steps, { ...EMPTY_STEP }])}>
+                <Plus className="w-4 h-4 mr-1" /> Add
+              </Button>
+            </div>
+            {steps.map((step, index) => (
+              <div key={index} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-5">{index + 1}.</span>
+                  <Select value={step.type} onValueChange={(value) => updateStep(index, { type: value as StepDraft['type'] })}>
+                    <SelectTrigger className="w-36 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="rcon">RCON</SelectItem>
+                      <SelectItem value="bridge">PanelBridge</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Label className="text-xs text-muted-foreground ml-auto">Wait before (s)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={3600}
+                    value={step.delaySeconds}
+                    onChange={e => updateStep(index, { delaySeconds: e.target.value })}
+                    className="w-20 h-8 text-xs"
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                    disabled={steps.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                {step.type === 'rcon' ? (
+                  <Input
+                    value={step.command}
+                    onChange={e => updateStep(index, { command: e.target.value })}
+                    className="font-mono text-xs"
+                    placeholder={'servermsg "Restart in ${minutes} minutes"'}
+                  />
+                ) : (
+                  <>
+                    <Input
+                      value={step.action}
+                      onChange={e => updateStep(index, { action: e.target.value })}
+                      className="font-mono text-xs"
+                      placeholder="triggerStorm"
+                    />
+                    <Textarea
+                      value={step.argsText}
+                      onChange={e => updateStep(index, { argsText: e.target.value })}
+                      className="font-mono text-xs min-h-[60px]"
+                      placeholder={'{ "duration": "${hours}" }'}
+                    />
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
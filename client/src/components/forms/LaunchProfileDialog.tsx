@@ -0,0 +1,301 @@
+import { useEffect, useState } from 'react'
+import { Loader2, Plus, Trash2, RotateCcw, FileCode, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { serversApi, ServerInstance, LaunchProfile, LaunchProfileResponse } from '@/lib/api'
+
+interface LaunchProfileDialogProps {
+  server: ServerInstance | null
+  onClose: () => void
+  onSaved?: () => void
+}
+
+const FILE_ROLE_LABELS: Record<string, string> = {
+  'jvm': 'JVM options',
+  'game': 'Game arguments',
+  'jvm+game': 'JVM options and game arguments',
+}
+
+function formatGb(mb: number | null) {
+  return mb ? `${(mb / 1024).toFixed(mb % 1024 === 0 ? 0 : 1)} GB` : ''
+}
+
+/**
+ * LaunchProfileDialog - edit the JVM options and launch arguments a server
+ * starts with. The profile is read from and written to the server's own
+ * start files (start script / ProjectZomboid64.json).
+ */
+export function LaunchProfileDialog({ server, onClose, onSaved }: LaunchProfileDialogProps) {
+  const { toast } = useToast()
+  const [data, setData] = useState<LaunchProfileResponse | null>(null)
+  const [profile, setProfile] = useState<LaunchProfile | null>(null)
+  // Free-text fields, split into lists when saving
+  const [gcFlagsText, setGcFlagsText] = useState('')
+  const [extraArgsText, setExtraArgsText] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  const applyResponse = (response: LaunchProfileResponse) => {
+    setData(response)
+    setProfile(response.profile)
+    setGcFlagsText(response.profile.gcFlags.join('\n'))
+    setExtraArgsText(response.profile.extraGameArgs.join(' '))
+  }
+
+  useEffect(() => {
+    if (!server) return
+    setData(null)
+    setProfile(null)
+    setLoadError(null)
+    setLoading(true)
+    serversApi.getLaunchProfile(server.id)
+      .then(applyResponse)
+      .catch(error => setLoadError(error instanceof Error ? error.message : 'Failed to read launch profile'))
+      .finally(() => setLoading(false))
+  }, [server])
+
+  const updateProperty = (index: number, field: 'key' | 'value', value: string) => {
+    if (!profile) return
+    const properties = profile.properties.map((p, i) => (i === index ? { ...p, [field]: value } : p))
+    setProfile({ ...profile, properties })
+  }
+
+  const handleSave = async () => {
+    if (!server || !profile) return
+    setSaving(true)
+    try {
+      const result = await serversApi.saveLaunchProfile(server.id, {
+        ...profile,
+        gcFlags: gcFlagsText.split('\n').map(f => f.trim()).filter(Boolean),
+        extraGameArgs: extraArgsText.split(/\s+/).filter(Boolean),
+      })
+      applyResponse(result)
+      toast({ title: 'Saved', description: result.message })
+      onSaved?.()
+    } catch (error) {
+      toast({
+        title: 'Invalid launch profile',
+        description: error instanceof Error ? error.message : 'Failed to save launch profile',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!server) return
+    if (!confirm('Restore the start files saved before the first launch profile change? Your edits will be lost.')) return
+    setRestoring(true)
+    try {
+      const result = await serversApi.restoreLaunchProfile(server.id)
+      applyResponse(result)
+      toast({ title: 'Restored', description: result.message })
+      onSaved?.()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to restore launch profile',
+        variant: 'destructive'
+      })
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const hasBackup = !!data?.files.some(file => file.backup)
+
+  return (
+    <Dialog open={!!server} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Launch Options</DialogTitle>
+          <DialogDescription>
+            JVM options and launch arguments for {server?.name}. Changes apply the next time the server starts.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" /> Reading start files...
+          </div>
+        )}
+
+        {loadError && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>{loadError}</span>
+          </div>
+        )}
+
+        {profile && data && (
+          <div className="space-y-5">
+            {/* Memory */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Minimum Heap (MB)</Label>
+                <Input
+                  type="number"
+                  min={512}
+                  step={512}
+                  value={profile.minMemory ?? ''}
+                  onChange={e => setProfile({ ...profile, minMemory: e.target.value ? parseInt(e.target.value, 10) : null })}
+                />
+                <p className="text-xs text-muted-foreground">-Xms {formatGb(profile.minMemory)}</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Maximum Heap (MB)</Label>
+                <Input
+                  type="number"
+                  min={512}
+                  step={512}
+                  value={profile.maxMemory ?? ''}
+                  onChange={e => setProfile({ ...profile, maxMemory: e.target.value ? parseInt(e.target.value, 10) : null })}
+                />
+                <p className="text-xs text-muted-foreground">-Xmx {formatGb(profile.maxMemory)}</p>
+              </div>
+            </div>
+
+            {/* GC / -XX flags */}
+            <div className="space-y-2">
+              <Label>JVM Flags</Label>
+              <Textarea
+                value={gcFlagsText}
+                onChange={e => setGcFlagsText(e.target.value)}
+                className="font-mono text-xs min-h-[72px]"
+                placeholder="-XX:+UseZGC"
+              />
+              <p className="text-xs text-muted-foreground">One -XX: flag per line (garbage collector and other JVM tuning)</p>
+            </div>
+
+            {/* -D properties */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>System Properties (-D)</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setProfile({ ...profile, properties: [...profile.properties, { key: '', value: '' }] })}
+                >
+                  <Plus className="w-4 h-4 mr-1" /> Add
+                </Button>
+              </div>
+              {profile.properties.length === 0 && (
+                <p className="text-xs text-muted-foreground">No properties</p>
+              )}
+              {profile.properties.map((property, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={property.key}
+                    onChange={e => updateProperty(index, 'key', e.target.value)}
+                    className="font-mono text-xs"
+                    placeholder="zomboid.steam"
+                  />
+                  <span className="text-muted-foreground">=</span>
+                  <Input
+                    value={property.value ?? ''}
+                    onChange={e => updateProperty(index, 'value', e.target.value)}
+                    className="font-mono text-xs"
+                    placeholder="(no value)"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setProfile({ ...profile, properties: profile.properties.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {/* Game arguments */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Server Name (-servername)</Label>
+                <Input
+                  value={profile.serverName}
+                  onChange={e => setProfile({ ...profile, serverName: e.target.value })}
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Game Port (-port)</Label>
+                <Input
+                  type="number"
+                  value={profile.port ?? ''}
+                  onChange={e => setProfile({ ...profile, port: e.target.value ? parseInt(e.target.value, 10) : null })}
+                  placeholder="16261"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Cache Directory (-cachedir)</Label>
+              <Input
+                value={profile.cacheDir}
+                onChange={e => setProfile({ ...profile, cacheDir: e.target.value })}
+                className="font-mono text-sm"
+                placeholder="Leave empty for the default Zomboid folder"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Extra Arguments</Label>
+              <Input
+                value={extraArgsText}
+                onChange={e => setExtraArgsText(e.target.value)}
+                className="font-mono text-sm"
+                placeholder="-nosteam -statistic 5"
+              />
+            </div>
+
+            {/* Effective command and files */}
+            <div className="space-y-2">
+              <Label>Start Command</Label>
+              <pre className="p-3 rounded-lg bg-muted text-xs font-mono whitespace-pre-wrap break-all">{data.command}</pre>
+              <p className="text-xs text-muted-foreground">Run from {data.serverPath}</p>
+            </div>
+            <div className="space-y-1">
+              {data.files.map(file => (
+                <div key={file.path} className="flex items-center gap-2 text-xs">
+                  <FileCode className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                  <span className="font-mono truncate" title={file.path}>{file.path}</span>
+                  <span className="text-muted-foreground shrink-0">{FILE_ROLE_LABELS[file.role]}</span>
+                  {file.backup && <Badge variant="secondary" className="shrink-0">original saved</Badge>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {hasBackup && (
+            <Button variant="outline" onClick={handleRestore} disabled={restoring || saving} className="sm:mr-auto">
+              {restoring ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+              Restore Original
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!profile || saving || restoring}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
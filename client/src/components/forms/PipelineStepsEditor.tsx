@@ -0,0 +1,299 @@
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PipelineStep, PipelineStepType, PipelineFailurePolicy } from '@/lib/api'
+import { WorldEventDraft, EMPTY_WORLD_EVENT, WorldEventFields, worldEventFromDraft } from './WorldEventFields'
+
+// Number and JSON fields are edited as text and parsed when saving
+export interface PipelineStepDraft {
+  type: PipelineStepType
+  command: string
+  action: string
+  argsText: string
+  worldEvent: WorldEventDraft
+  includeDb: boolean
+  warningMinutes: string
+  seconds: string
+  message: string
+  url: string
+  method: 'GET' | 'POST' | 'PUT'
+  body: string
+  onFailure: PipelineFailurePolicy
+  retries: string
+  retryDelaySeconds: string
+}
+
+export const EMPTY_PIPELINE_STEP: PipelineStepDraft = {
+  type: 'rcon',
+  command: '',
+  action: '',
+  argsText: '{}',
+  worldEvent: EMPTY_WORLD_EVENT,
+  includeDb: false,
+  warningMinutes: '',
+  seconds: '60',
+  message: '',
+  url: '',
+  method: 'POST',
+  body: '',
+  onFailure: 'stop',
+  retries: '3',
+  retryDelaySeconds: '30',
+}
+
+const STEP_LABELS: Record<PipelineStepType, string> = {
+  rcon: 'RCON command',
+  bridge: 'PanelBridge action',
+  event: 'World event',
+  backup: 'Backup',
+  restart: 'Restart',
+  wait: 'Wait',
+  discord: 'Discord message',
+  webhook: 'HTTP webhook',
+}
+
+const FAILURE_LABELS: Record<PipelineFailurePolicy, string> = {
+  stop: 'On failure: stop',
+  continue: 'On failure: continue',
+  retry: 'On failure: retry',
+}
+
+/** The steps to save; throws with the step number when a field is not valid */
+export function pipelineStepsFromDrafts(drafts: PipelineStepDraft[]): PipelineStep[] {
+  return drafts.map((draft, index) => {
+    const policy = draft.onFailure === 'retry'
+      ? { onFailure: draft.onFailure, retries: Number(draft.retries) || 0, retryDelaySeconds: Number(draft.retryDelaySeconds) || 0 }
+      : { onFailure: draft.onFailure }
+    switch (draft.type) {
+      case 'rcon': return { type: 'rcon', command: draft.command, ...policy }
+      case 'bridge': {
+        let args: Record<string, unknown>
+        try {
+          args = draft.argsText.trim() ? JSON.parse(draft.argsText) : {}
+        } catch {
+          throw new Error(`Step ${index + 1}: PanelBridge args are not valid JSON`)
+        }
+        return { type: 'bridge', action: draft.action, args, ...policy }
+      }
+      case 'event': {
+        try {
+          return { type: 'event', ...worldEventFromDraft(draft.worldEvent), ...policy }
+        } catch (error) {
+          throw new Error(`Step ${index + 1}: ${error instanceof Error ? error.message : error}`)
+        }
+      }
+      case 'backup': return { type: 'backup', includeDb: draft.includeDb, ...policy }
+      case 'restart': return { type: 'restart', warningMinutes: draft.warningMinutes === '' ? null : Number(draft.warningMinutes), ...policy }
+      case 'wait': return { type: 'wait', seconds: Number(draft.seconds) || 0, ...policy }
+      case 'discord': return { type: 'discord', message: draft.message, ...policy }
+      case 'webhook': return { type: 'webhook', url: draft.url, method: draft.method, body: draft.body, ...policy }
+    }
+  })
+}
+
+interface PipelineStepsEditorProps {
+  steps: PipelineStepDraft[]
+  onChange: (steps: PipelineStepDraft[]) => void
+}
+
+/**
+ * PipelineStepsEditor - the ordered steps of a pipeline task, each with
+ * its own failure policy: stop the task, skip to the next step, or retry
+ * a few times before stopping.
+ */
+export function PipelineStepsEditor({ steps, onChange }: PipelineStepsEditorProps) {
+  const updateStep = (index: number, changes: Partial<PipelineStepDraft>) => {
+    onChange(steps.map((s, i) => (i === index ? { ...s, ...changes } : s)))
+  }
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= steps.length) return
+    const next = [...steps]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Steps</Label>
+        <Button variant="ghost" size="sm" onClick={() => onChange([...steps, { ...EMPTY_PIPELINE_STEP }])}>
+          <Plus className="w-4 h-4 mr-1" /> Add
+        </Button>
+      </div>
+      {steps.map((step, index) => (
+        <div key={index} className="p-3 rounded-lg border space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground w-5">{index + 1}.</span>
+            <Select value={step.type} onValueChange={(value) => updateStep(index, { type: value as PipelineStepType })}>
+              <SelectTrigger className="w-44 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STEP_LABELS) as PipelineStepType[]).map(type => (
+                  <SelectItem key={type} value={type}>{STEP_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="ml-auto flex items-center">
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => onChange(steps.filter((_, i) => i !== index))}
+                disabled={steps.length === 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {step.type === 'rcon' && (
+            <Input
+              value={step.command}
+              onChange={e => updateStep(index, { command: e.target.value })}
+              className="font-mono text-xs"
+              placeholder='servermsg "Restarting in 5 minutes" or !macro args'
+            />
+          )}
+          {step.type === 'bridge' && (
+            <>
+              <Input
+                value={step.action}
+                onChange={e => updateStep(index, { action: e.target.value })}
+                className="font-mono text-xs"
+                placeholder="triggerStorm"
+              />
+              <Textarea
+                value={step.argsText}
+                onChange={e => updateStep(index, { argsText: e.target.value })}
+                className="font-mono text-xs min-h-[60px]"
+                placeholder='{ "duration": 2 }'
+              />
+            </>
+          )}
+          {step.type === 'event' && (
+            <WorldEventFields draft={step.worldEvent} onChange={(worldEvent) => updateStep(index, { worldEvent })} />
+          )}
+          {step.type === 'backup' && (
+            <div className="flex items-center gap-2">
+              <Switch checked={step.includeDb} onCheckedChange={(checked) => updateStep(index, { includeDb: checked })} />
+              <Label className="text-xs">Include the panel database</Label>
+            </div>
+          )}
+          {step.type === 'restart' && (
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">Warning (minutes)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={60}
+                value={step.warningMinutes}
+                onChange={e => updateStep(index, { warningMinutes: e.target.value })}
+                className="w-24 h-8 text-xs"
+                placeholder="default"
+              />
+            </div>
+          )}
+          {step.type === 'wait' && (
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">Seconds</Label>
+              <Input
+                type="number"
+                min={1}
+                value={step.seconds}
+                onChange={e => updateStep(index, { seconds: e.target.value })}
+                className="w-24 h-8 text-xs"
+              />
+            </div>
+          )}
+          {step.type === 'discord' && (
+            <Textarea
+              value={step.message}
+              onChange={e => updateStep(index, { message: e.target.value })}
+              className="text-xs min-h-[60px]"
+              placeholder="🔄 Daily restart done - the server is back up"
+            />
+          )}
+          {step.type === 'webhook' && (
+            <>
+              <div className="flex items-center gap-2">
+                <Select value={step.method} onValueChange={(value) => updateStep(index, { method: value as PipelineStepDraft['method'] })}>
+                  <SelectTrigger className="w-24 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="GET">GET</SelectItem>
+                    <SelectItem value="POST">POST</SelectItem>
+                    <SelectItem value="PUT">PUT</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={step.url}
+                  onChange={e => updateStep(index, { url: e.target.value })}
+                  className="font-mono text-xs"
+                  placeholder="https://example.com/hooks/restart"
+                />
+              </div>
+              {step.method !== 'GET' && (
+                <Textarea
+                  value={step.body}
+                  onChange={e => updateStep(index, { body: e.target.value })}
+                  className="font-mono text-xs min-h-[60px]"
+                  placeholder='{ "event": "restart" } (JSON is sent as application/json)'
+                />
+              )}
+            </>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Select value={step.onFailure} onValueChange={(value) => updateStep(index, { onFailure: value as PipelineFailurePolicy })}>
+              <SelectTrigger className="w-44 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FAILURE_LABELS) as PipelineFailurePolicy[]).map(policy => (
+                  <SelectItem key={policy} value={policy}>{FAILURE_LABELS[policy]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {step.onFailure === 'retry' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={step.retries}
+                  onChange={e => updateStep(index, { retries: e.target.value })}
+                  className="w-16 h-8 text-xs"
+                  title="Retries"
+                />
+                <Label className="text-xs text-muted-foreground">times, every</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={step.retryDelaySeconds}
+                  onChange={e => updateStep(index, { retryDelaySeconds: e.target.value })}
+                  className="w-20 h-8 text-xs"
+                  title="Seconds between retries"
+                />
+                <Label className="text-xs text-muted-foreground">s</Label>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { TaskConditions, TaskConditionRule, ConditionOperator, ServerLifecycleState } from '@/lib/api'
+
+type RuleType = TaskConditionRule['type']
+
+// Numbers are edited as text and parsed when saving
+export interface ConditionRuleDraft {
+  type: RuleType
+  operator: ConditionOperator
+  value: string
+  states: ServerLifecycleState[]
+  pending: boolean
+  minutes: string
+  action: string
+  field: string
+}
+
+export interface TaskConditionsDraft {
+  rules: ConditionRuleDraft[]
+  onUnmet: TaskConditions['onUnmet']
+  maxDelayMinutes: string
+}
+
+const EMPTY_RULE: ConditionRuleDraft = {
+  type: 'players',
+  operator: '<',
+  value: '1',
+  states: ['ready'],
+  pending: true,
+  minutes: '60',
+  action: 'getWeather',
+  field: '',
+}
+
+export const EMPTY_CONDITIONS: TaskConditionsDraft = {
+  rules: [{ ...EMPTY_RULE }],
+  onUnmet: 'skip',
+  maxDelayMinutes: '30',
+}
+
+const RULE_LABELS: Record<RuleType, string> = {
+  players: 'Players online',
+  serverState: 'Server state',
+  modUpdates: 'Mod updates',
+  uptime: 'Time since restart',
+  world: 'PanelBridge value',
+}
+
+const OPERATORS: ConditionOperator[] = ['<', '<=', '>', '>=', '=', '!=']
+const SERVER_STATES: ServerLifecycleState[] = ['stopped', 'starting', 'loading', 'ready', 'saving', 'stopping', 'crashed']
+
+/** The conditions to save; throws with the rule number when a field is not valid */
+export function taskConditionsFromDraft(draft: TaskConditionsDraft): TaskConditions {
+  const rules = draft.rules.map((rule, index): TaskConditionRule => {
+    const number = (text: string, label: string) => {
+      const value = Number(text)
+      if (text.trim() === '' || !Number.isFinite(value)) throw new Error(`Condition ${index + 1}: ${label} must be a number`)
+      return value
+    }
+    switch (rule.type) {
+      case 'players': return { type: 'players', operator: rule.operator, value: number(rule.value, 'player count') }
+      case 'serverState': return { type: 'serverState', states: rule.states }
+      case 'modUpdates': return { type: 'modUpdates', pending: rule.pending }
+      case 'uptime': return { type: 'uptime', operator: rule.operator, minutes: number(rule.minutes, 'minutes') }
+      case 'world': {
+        // Numeric values compare as numbers on the server
+        const value = rule.value.trim() !== '' && Number.isFinite(Number(rule.value)) ? Number(rule.value) : rule.value
+        return { type: 'world', action: rule.action, field: rule.field, operator: rule.operator, value }
+      }
+    }
+  })
+  return draft.onUnmet === 'skip'
+    ? { rules, onUnmet: 'skip' }
+    : { rules, onUnmet: draft.onUnmet, maxDelayMinutes: Number(draft.maxDelayMinutes) || 0 }
+}
+
+interface TaskConditionsEditorProps {
+  conditions: TaskConditionsDraft
+  onChange: (conditions: TaskConditionsDraft) => void
+}
+
+/**
+ * TaskConditionsEditor - rules a scheduled task checks before it runs,
+ * and what to do when they do not hold.
+ */
+export function TaskConditionsEditor({ conditions, onChange }: TaskConditionsEditorProps) {
+  const { rules } = conditions
+
+  const updateRule = (index: number, changes: Partial<ConditionRuleDraft>) => {
+    onChange({ ...conditions, rules: rules.map((r, i) => (i === index ? { ...r, ...changes } : r)) })
+  }
+
+  const toggleState = (index: number, state: ServerLifecycleState) => {
+    const states = rules[index].states
+    updateRule(index, { states: states.includes(state) ? states.filter(s => s !== state) : [...states, state] })
+  }
+
+  const operatorSelect = (rule: ConditionRuleDraft, index: number) => (
+    <Select value={rule.operator} onValueChange={(value) => updateRule(index, { operator: value as ConditionOperator })}>
+      <SelectTrigger className="w-16 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {OPERATORS.map(op => (
+          <SelectItem key={op} value={op}>{op}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Only run when all of these hold</Label>
+        <Button variant="ghost" size="sm" onClick={() => onChange({ ...conditions, rules: [...rules, { ...EMPTY_RULE }] })}>
+          <Plus className="w-4 h-4 mr-1" /> Add
+        </Button>
+      </div>
+      {rules.map((rule, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-lg border">
+          <Select value={rule.type} onValueChange={(value) => updateRule(index, { type: value as RuleType })}>
+            <SelectTrigger className="w-44 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RULE_LABELS) as RuleType[]).map(type => (
+                <SelectItem key={type} value={type}>{RULE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {rule.type === 'players' && (
+            <>
+              {operatorSelect(rule, index)}
+              <Input
+                type="number"
+                min={0}
+                value={rule.value}
+                onChange={e => updateRule(index, { value: e.target.value })}
+                className="w-20 h-8 text-xs"
+              />
+            </>
+          )}
+          {rule.type === 'serverState' && (
+            <div className="flex flex-wrap gap-1">
+              {SERVER_STATES.map(state => (
+                <Button
+                  key={state}
+                  type="button"
+                  variant={rule.states.includes(state) ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => toggleState(index, state)}
+                >
+                  {state}
+                </Button>
+              ))}
+            </div>
+          )}
+          {rule.type === 'modUpdates' && (
+            <Select value={rule.pending ? 'pending' : 'none'} onValueChange={(value) => updateRule(index, { pending: value === 'pending' })}>
+              <SelectTrigger className="w-40 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">are pending</SelectItem>
+                <SelectItem value="none">none pending</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {rule.type === 'uptime' && (
+            <>
+              {operatorSelect(rule, index)}
+              <Input
+                type="number"
+                min={0}
+                value={rule.minutes}
+                onChange={e => updateRule(index, { minutes: e.target.value })}
+                className="w-20 h-8 text-xs"
+              />
+              <span className="text-xs text-muted-foreground">minutes</span>
+            </>
+          )}
+          {rule.type === 'world' && (
+            <>
+              <Input
+                value={rule.action}
+                onChange={e => updateRule(index, { action: e.target.value })}
+                className="w-32 h-8 font-mono text-xs"
+                placeholder="getWeather"
+              />
+              <Input
+                value={rule.field}
+                onChange={e => updateRule(index, { field: e.target.value })}
+                className="w-32 h-8 font-mono text-xs"
+                placeholder="field.path"
+              />
+              {operatorSelect(rule, index)}
+              <Input
+                value={rule.value}
+                onChange={e => updateRule(index, { value: e.target.value })}
+                className="w-20 h-8 text-xs"
+              />
+            </>
+          )}
+
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 ml-auto"
+            onClick={() => onChange({ ...conditions, rules: rules.filter((_, i) => i !== index) })}
+            disabled={rules.length === 1}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Label className="text-xs text-muted-foreground">Otherwise</Label>
+        <Select value={conditions.onUnmet} onValueChange={(value) => onChange({ ...conditions, onUnmet: value as TaskConditions['onUnmet'] })}>
+          <SelectTrigger className="w-56 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="skip">skip this run</SelectItem>
+            <SelectItem value="delay">wait for them, then skip</SelectItem>
+            <SelectItem value="delayThenRun">wait for them, then run anyway</SelectItem>
+          </SelectContent>
+        </Select>
+        {conditions.onUnmet !== 'skip' && (
+          <>
+            <Label className="text-xs text-muted-foreground">for up to</Label>
+            <Input
+              type="number"
+              min={1}
+              max={1440}
+              value={conditions.maxDelayMinutes}
+              onChange={e => onChange({ ...conditions, maxDelayMinutes: e.target.value })}
+              className="w-20 h-8 text-xs"
+            />
+            <Label className="text-xs text-muted-foreground">minutes</Label>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
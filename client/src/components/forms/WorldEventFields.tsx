@@ -0,0 +1,185 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { WorldEvent, WorldEventType, CLIMATE_FLOATS } from '@/lib/api'
+
+// Number fields are edited as text and parsed when saving.
+// Climate values other than temperature are edited in percent
+export interface WorldEventDraft {
+  event: WorldEventType
+  duration: string
+  count: string
+  username: string
+  power: boolean
+  water: boolean
+  floatId: string
+  value: string
+  x: string
+  y: string
+  z: string
+  radius: string
+  volume: string
+}
+
+export const EMPTY_WORLD_EVENT: WorldEventDraft = {
+  event: 'triggerBlizzard',
+  duration: '2',
+  count: '50',
+  username: '',
+  power: true,
+  water: true,
+  floatId: '5',
+  value: '80',
+  x: '',
+  y: '',
+  z: '0',
+  radius: '100',
+  volume: '100',
+}
+
+const EVENT_LABELS: Record<WorldEventType, string> = {
+  triggerBlizzard: 'Blizzard',
+  createHorde: 'Zombie horde',
+  shutOffUtilities: 'Shut off power/water',
+  setClimateFloat: 'Set weather value',
+  playWorldSound: 'Sound at a location',
+}
+
+/** The event to save; throws when a field is not valid */
+export function worldEventFromDraft(draft: WorldEventDraft): WorldEvent {
+  switch (draft.event) {
+    case 'triggerBlizzard':
+      return { event: 'triggerBlizzard', args: { duration: Number(draft.duration) || 0 } }
+    case 'createHorde':
+      return { event: 'createHorde', args: { count: Number(draft.count) || 0, username: draft.username.trim() || null } }
+    case 'shutOffUtilities':
+      return { event: 'shutOffUtilities', args: { power: draft.power, water: draft.water } }
+    case 'setClimateFloat': {
+      const floatId = Number(draft.floatId)
+      const value = Number(draft.value) || 0
+      return { event: 'setClimateFloat', args: { floatId, value: floatId === 4 ? value : value / 100 } }
+    }
+    case 'playWorldSound': {
+      const x = parseInt(draft.x, 10)
+      const y = parseInt(draft.y, 10)
+      if (isNaN(x) || isNaN(y)) throw new Error('The sound needs x and y coordinates')
+      return {
+        event: 'playWorldSound',
+        args: { x, y, z: Number(draft.z) || 0, radius: Number(draft.radius) || 0, volume: Number(draft.volume) || 0 },
+      }
+    }
+  }
+}
+
+interface WorldEventFieldsProps {
+  draft: WorldEventDraft
+  onChange: (draft: WorldEventDraft) => void
+}
+
+/**
+ * WorldEventFields - one in-game event (the ones on the Events page) with
+ * the fields that event takes. Everything but the horde needs PanelBridge.
+ */
+export function WorldEventFields({ draft, onChange }: WorldEventFieldsProps) {
+  const update = (changes: Partial<WorldEventDraft>) => onChange({ ...draft, ...changes })
+
+  return (
+    <div className="space-y-2">
+      <Select value={draft.event} onValueChange={(value) => update({ event: value as WorldEventType })}>
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(EVENT_LABELS) as WorldEventType[]).map(event => (
+            <SelectItem key={event} value={event}>{EVENT_LABELS[event]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {draft.event === 'triggerBlizzard' && (
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Lasts</Label>
+          <Input
+            type="number"
+            min={1}
+            max={24}
+            value={draft.duration}
+            onChange={e => update({ duration: e.target.value })}
+            className="w-20 h-8 text-xs"
+          />
+          <Label className="text-xs text-muted-foreground">hours</Label>
+        </div>
+      )}
+      {draft.event === 'createHorde' && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            max={500}
+            value={draft.count}
+            onChange={e => update({ count: e.target.value })}
+            className="w-20 h-8 text-xs"
+          />
+          <Label className="text-xs text-muted-foreground shrink-0">zombies near</Label>
+          <Input
+            value={draft.username}
+            onChange={e => update({ username: e.target.value })}
+            className="h-8 text-xs"
+            placeholder="a random player"
+          />
+        </div>
+      )}
+      {draft.event === 'shutOffUtilities' && (
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-2">
+            <Switch checked={draft.power} onCheckedChange={(checked) => update({ power: checked })} />
+            <Label className="text-xs">Power</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch checked={draft.water} onCheckedChange={(checked) => update({ water: checked })} />
+            <Label className="text-xs">Water</Label>
+          </div>
+        </div>
+      )}
+      {draft.event === 'setClimateFloat' && (
+        <div className="flex items-center gap-2">
+          <Select value={draft.floatId} onValueChange={(value) => update({ floatId: value })}>
+            <SelectTrigger className="w-40 h-8 text-xs capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CLIMATE_FLOATS).map(([id, name]) => (
+                <SelectItem key={id} value={id} className="capitalize">{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={draft.floatId === '4' ? -30 : 0}
+            max={draft.floatId === '4' ? 45 : 100}
+            value={draft.value}
+            onChange={e => update({ value: e.target.value })}
+            className="w-20 h-8 text-xs"
+          />
+          <Label className="text-xs text-muted-foreground">{draft.floatId === '4' ? '°C' : '%'}</Label>
+        </div>
+      )}
+      {draft.event === 'playWorldSound' && (
+        <div className="grid grid-cols-5 gap-2">
+          {(['x', 'y', 'z', 'radius', 'volume'] as const).map(field => (
+            <div key={field} className="space-y-1">
+              <Label className="text-xs text-muted-foreground capitalize">{field}</Label>
+              <Input
+                type="number"
+                value={draft[field]}
+                onChange={e => update({ [field]: e.target.value })}
+                className="h-8 text-xs"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { authApi, setUnauthorizedHandler, PanelUser, PanelPermission } from '@/lib/api'
+
+export type AuthState = 'loading' | 'authenticated' | 'unauthenticated'
+
+interface AuthContextType {
+  state: AuthState
+  user: PanelUser | null
+  setupRequired: boolean
+  login: (username: string, password: string) => Promise<void>
+  setup: (username: string, password: string) => Promise<void>
+  logout: () => Promise<void>
+  refresh: () => Promise<void>
+  // Whether the current user's role grants a permission
+  can: (permission: PanelPermission) => boolean
+  // Mark the session as gone (e.g. a 401 or a rejected socket handshake)
+  markUnauthenticated: () => void
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<AuthState>('loading')
+  const [user, setUser] = useState<PanelUser | null>(null)
+  const [setupRequired, setSetupRequired] = useState(false)
+
+  const markUnauthenticated = useCallback(() => {
+    setUser(null)
+    setState('unauthenticated')
+  }, [])
+
+  const refresh = useCallback(async () => {
+    try {
+      const status = await authApi.getStatus()
+      setUser(status.user)
+      setSetupRequired(status.setupRequired)
+      setState(status.authenticated ? 'authenticated' : 'unauthenticated')
+    } catch (error) {
+      console.error('Failed to check login status:', error)
+      markUnauthenticated()
+    }
+  }, [markUnauthenticated])
+
+  useEffect(() => {
+    setUnauthorizedHandler(markUnauthenticated)
+    refresh()
+    return () => setUnauthorizedHandler(null)
+  }, [refresh, markUnauthenticated])
+
+  const login = useCallback(async (username: string, password: string) => {
+    const result = await authApi.login(username, password)
+    setUser(result.user)
+    setState('authenticated')
+  }, [])
+
+  const setup = useCallback(async (username: string, password: string) => {
+    const result = await authApi.setup(username, password)
+    setUser(result.user)
+    setSetupRequired(false)
+    setState('authenticated')
+  }, [])
+
+  const logout = useCallback(async () => {
+    try {
+      await authApi.logout()
+    } finally {
+      markUnauthenticated()
+    }
+  }, [markUnauthenticated])
+
+  const can = useCallback(
+    (permission: PanelPermission) => !!user?.permissions.includes(permission),
+    [user]
+  )
+
+  return (
+    <AuthContext.Provider value={{ state, user, setupRequired, login, setup, logout, refresh, can, markUnauthenticated }}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider')
+  }
+  return context
+}
@@ -1,3 +1,5 @@
+import type { RconExecuteResult } from '@/types'
+
 const API_BASE = '/api'
 
 // Retry configuration
@@ -18,6 +20,13 @@ function getRetryDelay(attempt: number): number {
   return delay * (0.75 + Math.random() * 0.5)
 }
 
+// Called when the server rejects a request because the session is missing or expired
+let unauthorizedHandler: (() => void) | null = null
+
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler
+}
+
 // Check if error is retryable
 function isRetryableError(error: unknown, response?: Response): boolean {
   // Network errors are retryable
@@ -59,6 +68,12 @@ async function fetchWithRetry(
         })
         clearTimeout(timeoutId)
         
+        // Session expired or logged out - send the user to the login page instead of retrying
+        if (response.status === 401) {
+          unauthorizedHandler?.()
+          return response
+        }
+        
         // If response is not retryable error, return it
         if (!isRetryableError(null, response) || attempt === retries) {
           return response
@@ -131,6 +146,160 @@ function apiPut(endpoint: string, body?: unknown) {
   }).then(handleResponse)
 }
 
+// Panel authentication
+export type PanelRole = 'owner' | 'admin' | 'moderator' | 'viewer'
+
+// Mirrors server/utils/permissions.js
+export type PanelPermission =
+  | 'server.control'
+  | 'server.manage'
+  | 'players.moderate'
+  | 'players.manage'
+  | 'rcon.execute'
+  | 'events.trigger'
+  | 'config.write'
+  | 'mods.write'
+  | 'chunks.delete'
+  | 'backup.create'
+  | 'backup.restore'
+  | 'scheduler.manage'
+  | 'servers.manage'
+  | 'discord.manage'
+  | 'settings.manage'
+  | 'users.manage'
+  | 'audit.view'
+  | 'tokens.manage'
+
+export interface PanelUser {
+  id: string
+  username: string
+  role: PanelRole
+  permissions: PanelPermission[]
+  createdAt: string
+  lastLogin: string | null
+}
+
+export interface AuthStatus {
+  authenticated: boolean
+  user: PanelUser | null
+  setupRequired: boolean
+}
+
+// Auth requests are never retried (a 429 lockout must not be hammered)
+function authPost(endpoint: string, body?: unknown) {
+  return fetchWithRetry(`${API_BASE}/auth${endpoint}`, {
+    method: 'POST',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  }, 0).then(handleResponse)
+}
+
+export const authApi = {
+  getStatus: () => apiGet('/auth/status') as Promise<AuthStatus>,
+  login: (username: string, password: string) =>
+    authPost('/login', { username, password }) as Promise<{ success: boolean; user: PanelUser }>,
+  setup: (username: string, password: string) =>
+    authPost('/setup', { username, password }) as Promise<{ success: boolean; user: PanelUser }>,
+  logout: () => authPost('/logout') as Promise<{ success: boolean }>,
+  changePassword: (currentPassword: string, newPassword: string) =>
+    authPost('/password', { currentPassword, newPassword }) as Promise<{ success: boolean; message: string }>,
+}
+
+// Panel user management (owner only)
+export interface PanelRolesInfo {
+  roles: PanelRole[]
+  permissions: Record<PanelPermission, string>
+  rolePermissions: Record<PanelRole, PanelPermission[]>
+}
+
+export const usersApi = {
+  getAll: () => apiGet('/users') as Promise<{ users: PanelUser[] }>,
+  getRoles: () => apiGet('/users/roles') as Promise<PanelRolesInfo>,
+  create: (username: string, password: string, role: PanelRole) =>
+    apiPost('/users', { username, password, role }) as Promise<{ success: boolean; user: PanelUser }>,
+  update: (id: string, updates: { role?: PanelRole; password?: string }) =>
+    apiPut(`/users/${id}`, updates) as Promise<{ success: boolean; user: PanelUser }>,
+  delete: (id: string) => apiDelete(`/users/${id}`) as Promise<{ success: boolean; message: string }>,
+}
+
+// API tokens for scripts and integrations (sent as `Authorization: Bearer <secret>`)
+export type ApiTokenScope =
+  | 'status:read'
+  | 'config:read'
+  | 'server:control'
+  | 'players:write'
+  | 'rcon:execute'
+  | 'events:trigger'
+  | 'backup:create'
+  | 'audit:read'
+
+export interface ApiToken {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiTokenScope[]
+  createdBy: string | null
+  createdAt: string
+  expiresAt: string | null
+  expired: boolean
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+}
+
+export const tokensApi = {
+  getAll: () => apiGet('/tokens') as Promise<{ tokens: ApiToken[] }>,
+  getScopes: () => apiGet('/tokens/scopes') as Promise<{ scopes: Record<ApiTokenScope, string> }>,
+  create: (name: string, scopes: ApiTokenScope[], expiresAt: string | null) =>
+    apiPost('/tokens', { name, scopes, expiresAt }) as Promise<{ success: boolean; token: ApiToken; secret: string }>,
+  revoke: (id: string) => apiDelete(`/tokens/${id}`) as Promise<{ success: boolean; message: string }>,
+}
+
+// Audit log
+export type AuditSource = 'web' | 'api' | 'discord' | 'scheduler'
+
+export interface AuditEntry {
+  id: string
+  actor: string | null
+  actor_id: string | null
+  source: AuditSource
+  action: string
+  target: string | null
+  params: Record<string, unknown> | null
+  success: number
+  status: number | null
+  error: string | null
+  ip: string | null
+  created_at: string
+}
+
+export interface AuditFilters {
+  actor?: string
+  source?: AuditSource
+  action?: string
+  success?: boolean
+  since?: string
+  until?: string
+  search?: string
+}
+
+function auditQuery(filters: AuditFilters, extra: Record<string, string | number> = {}) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries({ ...filters, ...extra })) {
+    if (value !== undefined && value !== '') params.set(key, String(value))
+  }
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+export const auditApi = {
+  getEntries: (filters: AuditFilters = {}, limit = 100, offset = 0) =>
+    apiGet(`/audit${auditQuery(filters, { limit, offset })}`) as Promise<{ entries: AuditEntry[]; total: number; limit: number; offset: number }>,
+  getFilters: () => apiGet('/audit/filters') as Promise<{ actors: string[]; sources: AuditSource[] }>,
+  // Export URL - opened directly so the browser downloads the file
+  getExportUrl: (filters: AuditFilters, format: 'csv' | 'json'): string =>
+    `${API_BASE}/audit/export${auditQuery(filters, { format })}`,
+}
+
 // Steam branch info
 export interface SteamBranch {
   name: string
@@ -139,6 +308,22 @@ export interface SteamBranch {
   timeUpdated?: string | null
 }
 
+// Host platform the panel runs on (paths and tooling differ between Windows and Linux)
+export interface PlatformInfo {
+  platform: string
+  isWindows: boolean
+  startScript: string
+  startScriptExtension: string
+  steamcmdExecutable: string
+  steamcmdDownloadUrl: string
+  folderPicker: boolean
+  examplePaths: {
+    steamcmd: string
+    install: string
+    data: string
+  }
+}
+
 // Character export/import types
 export interface PerkData {
   level: number
@@ -223,6 +408,9 @@ export const serverApi = {
   // Panel restart - restarts the panel process
   restartPanel: () => apiPost('/panel/restart'),
   
+  // Host platform details for the setup wizard
+  getPlatform: () => apiGet('/server/platform') as Promise<PlatformInfo>,
+  
   // Get available Steam branches
   getBranches: (steamcmdPath?: string) => 
     apiGet(`/server/branches${steamcmdPath ? `?steamcmdPath=${encodeURIComponent(steamcmdPath)}` : ''}`) as Promise<{ branches: SteamBranch[]; source: string; message: string }>,
@@ -276,7 +464,7 @@ export const serverApi = {
   // Safehouse
   releaseSafehouse: () => apiPost('/server/releasesafehouse'),
   
-  // Server Console Log (server-console.txt)
+  // Server Console Log (captured server output, or server-console.txt)
   getConsoleLog: (lines?: number) => apiGet(`/server/console-log${lines ? `?lines=${lines}` : ''}`),
   streamConsoleLog: (lastSize: number) => apiGet(`/server/console-log/stream?lastSize=${lastSize}`),
   clearConsoleLog: () => apiPost('/server/console-log/clear'),
@@ -325,11 +513,146 @@ export const playersApi = {
 // RCON API
 export const rconApi = {
   execute: (command: string) => apiPost('/rcon/execute', { command }),
+  executeStructured: (command: string) =>
+    apiPost('/rcon/execute?structured=1', { command }) as Promise<RconExecuteResult>,
   getStatus: () => apiGet('/rcon/status'),
   connect: (host?: string, port?: number, password?: string) => apiPost('/rcon/connect', { host, port, password }),
   disconnect: () => apiPost('/rcon/disconnect'),
   getHistory: (limit?: number) => apiGet(`/rcon/history?limit=${limit || 100}`),
   getCommands: () => apiGet('/rcon/commands'),
+  getCompletions: () => apiGet('/rcon/completions') as Promise<RconCompletionData>,
+
+  // Console macros (`!name args` in the console, Discord /rcon and scheduled tasks)
+  getMacros: () => apiGet('/rcon/macros') as Promise<{ macros: ConsoleMacro[] }>,
+  createMacro: (macro: ConsoleMacroInput) =>
+    apiPost('/rcon/macros', macro) as Promise<{ success: boolean; macro: ConsoleMacro }>,
+  updateMacro: (id: string, macro: ConsoleMacroInput) =>
+    apiPut(`/rcon/macros/${id}`, macro) as Promise<{ success: boolean; macro: ConsoleMacro }>,
+  deleteMacro: (id: string) => apiDelete(`/rcon/macros/${id}`),
+  // Starts the macro; each step arrives as an rcon:response socket event
+  runMacro: (command: string) =>
+    apiPost('/rcon/macros/run', { command }) as Promise<{ success: boolean; macro: string; steps: number }>,
+}
+
+// PZ_COMMANDS parameter metadata - see server/utils/commands.js
+export interface RconCommandParameter {
+  name: string
+  type: 'string' | 'number' | 'boolean' | 'coordinates' | 'perkAmount'
+  required: boolean
+  values?: string
+  strict?: boolean
+  flag?: string
+  format?: string
+}
+
+export interface RconCommandSpec {
+  command: string
+  description: string
+  parameters: RconCommandParameter[]
+  category: string
+}
+
+export interface RconCompletionData {
+  commands: Record<string, RconCommandSpec>
+  values: Record<string, string[]>
+  players: string[]
+  options: { name: string; value: string }[]
+}
+
+// Console macros - see server/utils/consoleMacros.js
+export const MACRO_PREFIX = '!'
+
+export interface ConsoleMacroParam {
+  name: string
+  default?: string
+}
+
+export type ConsoleMacroStep =
+  | { type: 'rcon'; command: string; delaySeconds: number }
+  | { type: 'bridge'; action: string; args: Record<string, unknown>; delaySeconds: number }
+
+export interface ConsoleMacro {
+  id: string
+  name: string
+  description: string
+  params: ConsoleMacroParam[]
+  steps: ConsoleMacroStep[]
+  created_at: string
+  updated_at?: string
+}
+
+export type ConsoleMacroInput = Pick<ConsoleMacro, 'name' | 'description' | 'params' | 'steps'>
+
+/** `!name <param> [param=default]` - how a macro is invoked */
+export function macroUsage(macro: ConsoleMacro): string {
+  const params = macro.params.map(p => (p.default !== undefined ? `[${p.name}=${p.default}]` : `<${p.name}>`))
+  return [`${MACRO_PREFIX}${macro.name}`, ...params].join(' ')
+}
+
+// RCON queue inspector (Debug page)
+export type RconPriority = 'critical' | 'moderation' | 'normal' | 'polling'
+export type RconSource = 'ui' | 'discord' | 'scheduler' | 'poller' | 'system'
+
+export interface RconQueueJob {
+  id: number
+  command: string
+  source: RconSource
+  priority: RconPriority
+  attempts: number
+  retryable: boolean
+  waitingMs: number
+  retryAt: string | null
+  lastError: string | null
+  runningMs?: number
+}
+
+export interface RconDeadLetter {
+  id: number
+  command: string
+  source: RconSource
+  priority: RconPriority
+  attempts: number
+  error: string
+  enqueuedAt: string
+  failedAt: string
+}
+
+export interface RconQueueSourceState {
+  source: RconSource
+  limit: number
+  windowMs: number
+  recent: number
+  pending: number
+  limitedUntil: string | null
+}
+
+export interface RconQueueState {
+  serverId: string | null
+  name: string
+  isActive: boolean
+  rconConnected: boolean
+  running: RconQueueJob | null
+  pending: RconQueueJob[]
+  deadLetters: RconDeadLetter[]
+  stats: {
+    enqueued: number
+    sent: number
+    succeeded: number
+    failed: number
+    retried: number
+    coalesced: number
+    rejected: number
+    expired: number
+  }
+  sources: RconQueueSourceState[]
+}
+
+export const debugApi = {
+  getRconQueue: () => apiGet('/debug/rcon-queue') as Promise<{ servers: RconQueueState[] }>,
+  retryDeadLetter: (serverId: string | null, id: number) =>
+    apiPost(`/debug/rcon-queue/${serverId ?? 'default'}/dead-letters/${id}/retry`) as Promise<RconExecuteResult>,
+  clearDeadLetters: (serverId: string | null) =>
+    apiDelete(`/debug/rcon-queue/${serverId ?? 'default'}/dead-letters`),
 }
 
 // Scheduler API
@@ -341,18 +664,233 @@ export interface ScheduleHistoryEntry {
   success: number
   message: string | null
   duration: number | null
+  // Set when the task's conditions held the run back, or the panel was not running when it was due
+  outcome?: 'skipped' | 'delayed' | 'forced' | 'late' | 'missed' | null
   executed_at: string
 }
 
+// Pipeline task steps - see server/utils/taskPipelines.js
+export type PipelineFailurePolicy = 'stop' | 'continue' | 'retry'
+
+interface PipelineStepPolicy {
+  onFailure: PipelineFailurePolicy
+  retries?: number
+  retryDelaySeconds?: number
+}
+
+// In-game world events a task can start - see server/utils/worldEvents.js
+export type WorldEvent =
+  | { event: 'triggerBlizzard'; args: { duration: number } }
+  | { event: 'createHorde'; args: { count: number; username: string | null } }
+  | { event: 'shutOffUtilities'; args: { power: boolean; water: boolean } }
+  | { event: 'setClimateFloat'; args: { floatId: number; value: number } }
+  | { event: 'playWorldSound'; args: { x: number; y: number; z: number; radius: number; volume: number } }
+
+export type WorldEventType = WorldEvent['event']
+
+// Climate values a task can set; temperature is in °C, the rest 0-1
+export const CLIMATE_FLOATS: Record<number, string> = {
+  3: 'precipitation',
+  4: 'temperature',
+  5: 'fog',
+  6: 'wind',
+  8: 'clouds',
+  12: 'humidity',
+}
+
+/** A short label for a world event, like the server's schedule history shows */
+export function describeWorldEvent(worldEvent: WorldEvent): string {
+  switch (worldEvent.event) {
+    case 'triggerBlizzard': return `blizzard (${worldEvent.args.duration}h)`
+    case 'createHorde': return `horde of ${worldEvent.args.count}${worldEvent.args.username ? ` near ${worldEvent.args.username}` : ''}`
+    case 'shutOffUtilities': {
+      const { power, water } = worldEvent.args
+      return `shut off ${[power && 'power', water && 'water'].filter(Boolean).join(' and ')}`
+    }
+    case 'setClimateFloat': {
+      const { floatId, value } = worldEvent.args
+      const name = CLIMATE_FLOATS[floatId] ?? `climate ${floatId}`
+      return floatId === 4 ? `temperature ${value}°C` : `${name} ${Math.round(value * 100)}%`
+    }
+    case 'playWorldSound': return `sound at ${worldEvent.args.x},${worldEvent.args.y} (radius ${worldEvent.args.radius})`
+  }
+}
+
+export type PipelineStep = PipelineStepPolicy & (
+  | { type: 'rcon'; command: string }
+  | { type: 'bridge'; action: string; args: Record<string, unknown> }
+  | ({ type: 'event' } & WorldEvent)
+  | { type: 'backup'; includeDb: boolean }
+  | { type: 'restart'; warningMinutes: number | null }
+  | { type: 'wait'; seconds: number }
+  | { type: 'discord'; message: string }
+  | { type: 'webhook'; url: string; method: 'GET' | 'POST' | 'PUT'; body: string }
+)
+
+export type PipelineStepType = PipelineStep['type']
+
+/** A short label for a pipeline step, like the server's schedule history shows */
+export function describePipelineStep(step: PipelineStep): string {
+  switch (step.type) {
+    case 'rcon': return step.command
+    case 'bridge': return `bridge:${step.action}`
+    case 'event': return describeWorldEvent(step)
+    case 'backup': return step.includeDb ? 'backup (with database)' : 'backup'
+    case 'restart': return step.warningMinutes !== null ? `restart (${step.warningMinutes} min warning)` : 'restart'
+    case 'wait': return `wait ${step.seconds}s`
+    case 'discord': return `discord: ${step.message}`
+    case 'webhook': return `${step.method} ${step.url}`
+  }
+}
+
+// Task conditions - see server/utils/taskConditions.js
+export type ConditionOperator = '<' | '<=' | '>' | '>=' | '=' | '!='
+export type ServerLifecycleState = 'stopped' | 'starting' | 'loading' | 'ready' | 'saving' | 'stopping' | 'crashed'
+
+export type TaskConditionRule =
+  | { type: 'players'; operator: ConditionOperator; value: number }
+  | { type: 'serverState'; states: ServerLifecycleState[] }
+  | { type: 'modUpdates'; pending: boolean }
+  | { type: 'uptime'; operator: ConditionOperator; minutes: number }
+  | { type: 'world'; action: string; field: string; operator: ConditionOperator; value: string | number }
+
+export interface TaskConditions {
+  rules: TaskConditionRule[]
+  // What happens when a rule does not hold: skip the run, wait for up to
+  // maxDelayMinutes then skip, or wait then run anyway
+  onUnmet: 'skip' | 'delay' | 'delayThenRun'
+  maxDelayMinutes?: number
+}
+
+/** A short label for a condition rule, like the server's schedule history shows */
+export function describeTaskCondition(rule: TaskConditionRule): string {
+  switch (rule.type) {
+    case 'players': return `players ${rule.operator} ${rule.value}`
+    case 'serverState': return `server ${rule.states.join('/')}`
+    case 'modUpdates': return rule.pending ? 'mod updates pending' : 'no mod updates pending'
+    case 'uptime': return `uptime ${rule.operator} ${rule.minutes} min`
+    case 'world': return `${rule.action}.${rule.field} ${rule.operator} ${rule.value}`
+  }
+}
+
+// Restart policy - see server/utils/restartPolicy.js
+export interface RestartWindow {
+  cron: string
+  label: string
+  enabled: boolean
+}
+
+// Messages can use {minutes}, {seconds} and {time}
+export interface RestartWarning {
+  offsetSeconds: number
+  message: string
+}
+
+export interface RestartPolicy {
+  enabled: boolean
+  windows: RestartWindow[]
+  warnings: RestartWarning[]
+  delivery: { rcon: boolean; bridge: boolean }
+}
+
+export interface NextAutoRestart {
+  at: string
+  label: string
+}
+
+// A restart that is warning players; null once it happened or was cancelled
+export interface RestartCountdown {
+  restartAt: string
+  secondsLeft: number
+  message: string
+  reason: string
+}
+
+// What happens to runs missed while the panel was down - see server/utils/missedRuns.js
+export type CatchUpPolicy = 'skip' | 'once' | 'all'
+
+// Runs of one task missed while the panel was down, until dismissed
+export interface MissedRuns {
+  taskId: number
+  taskName: string
+  missed: number
+  firstDueAt: string
+  lastDueAt: string
+  policy: CatchUpPolicy
+  // Runs made up after the panel came back
+  caughtUp: number
+}
+
+// Upcoming runs for the scheduler calendar - see server/utils/scheduleForecast.js
+export interface UpcomingEvent {
+  id: string
+  // 'task:<id>', 'backup', 'restart', 'countdown' or 'modRestart'
+  key: string
+  kind: 'task' | 'backup' | 'restart' | 'modRestart'
+  name: string
+  cron: string | null
+  taskId: number | null
+  // Restarts the server, so anything running alongside it is flagged
+  disruptive: boolean
+  at: string
+  // When the run keeps the server busy: a restart's warnings and downtime, a backup's usual duration
+  start: string
+  end: string
+  movable: boolean
+  postponementId: number | null
+  postponedFrom: string | null
+  conflicts: string[]
+}
+
+export interface UpcomingSchedule {
+  from: string
+  until: string
+  events: UpcomingEvent[]
+  // Jobs with more runs in the range than were listed
+  truncated: string[]
+}
+
+// A task that runs once - see server/utils/oneOffTasks.js
+export interface OneOffSchedule {
+  // Wall-clock time in `timezone`, e.g. 2026-10-24T03:00
+  runAt: string
+  timezone: string
+  // Still run it this late when the panel was down at runAt; otherwise it is recorded as missed
+  missedGraceMinutes: number
+}
+
 export const schedulerApi = {
   getStatus: () => apiGet('/scheduler/status'),
   getTasks: () => apiGet('/scheduler/tasks'),
-  createTask: (name: string, cronExpression: string, command: string) =>
-    apiPost('/scheduler/tasks', { name, cronExpression, command }),
-  updateTask: (id: number, name: string, cronExpression: string, command: string, enabled: boolean) =>
-    apiPut(`/scheduler/tasks/${id}`, { name, cronExpression, command, enabled }),
+  // Passing steps makes the task a pipeline; the command is then ignored.
+  // Passing oneOff makes it run once instead of on the cron expression
+  createTask: (name: string, cronExpression: string, command: string, steps?: PipelineStep[], conditions?: TaskConditions | null, oneOff?: OneOffSchedule, catchUp?: CatchUpPolicy) =>
+    apiPost('/scheduler/tasks', { name, cronExpression, command, steps, conditions, ...oneOff, catchUp }),
+  // Steps, conditions or catch-up left undefined are kept as they are
+  updateTask: (id: number, name: string, cronExpression: string, command: string, enabled: boolean, steps?: PipelineStep[] | null, conditions?: TaskConditions | null, catchUp?: CatchUpPolicy) =>
+    apiPut(`/scheduler/tasks/${id}`, { name, cronExpression, command, enabled, steps, conditions, catchUp }),
   deleteTask: (id: number) => apiDelete(`/scheduler/tasks/${id}`),
+  // Starts the task in the background; its result shows up in the history
+  runTask: (id: number) => apiPost(`/scheduler/tasks/${id}/run`),
   restartNow: (warningMinutes?: number) => apiPost('/scheduler/restart-now', { warningMinutes }),
+  cancelRestart: () => apiPost('/scheduler/restart/cancel'),
+  dismissMissedRuns: () => apiPost('/scheduler/missed-runs/dismiss'),
+  getUpcoming: (options: { from?: string; days?: number; limit?: number } = {}) => {
+    const params = new URLSearchParams()
+    if (options.from) params.set('from', options.from)
+    if (options.days) params.set('days', options.days.toString())
+    if (options.limit) params.set('limit', options.limit.toString())
+    const query = params.toString()
+    return apiGet(`/scheduler/upcoming${query ? `?${query}` : ''}`) as Promise<UpcomingSchedule>
+  },
+  // Move one run of a job; originalAt is the time it was due before any earlier postponement
+  postponeRun: (jobKey: string, originalAt: string, postponedTo: string) =>
+    apiPost('/scheduler/postponements', { jobKey, originalAt, postponedTo }),
+  cancelPostponement: (id: number) => apiDelete(`/scheduler/postponements/${id}`),
+  getRestartPolicy: () =>
+    apiGet('/scheduler/restart-policy') as Promise<{ policy: RestartPolicy; nextAutoRestart: NextAutoRestart | null }>,
+  saveRestartPolicy: (policy: RestartPolicy) =>
+    apiPut('/scheduler/restart-policy', policy) as Promise<{ success: boolean; policy: RestartPolicy; nextAutoRestart: NextAutoRestart | null }>,
   getCronPresets: () => apiGet('/scheduler/cron-presets'),
   validateCron: (cronExpression: string) => 
     apiPost('/scheduler/validate-cron', { cronExpression }) as Promise<{ valid: boolean; error?: string }>,
@@ -503,15 +1041,67 @@ export interface ServerInstance {
   maxMemory: number
   useNoSteam: boolean
   useDebug: boolean
+  extraLaunchArgs?: string[]
   isRemote: boolean
+  agentUrl?: string | null  // Panel agent on a remote server's host (npm run agent)
+  agentToken?: string
   isActive: boolean
   createdAt: string
 }
 
+export interface AgentInfo {
+  agent: boolean
+  version: string | null
+  hostname: string
+  platform: string
+  roots: string[]
+}
+
+// JVM options and launch arguments, read from the server's start files
+export interface LaunchProfile {
+  minMemory: number | null  // MB
+  maxMemory: number | null  // MB
+  gcFlags: string[]
+  properties: Array<{ key: string; value: string | null }>
+  serverName: string
+  cacheDir: string
+  port: number | null
+  adminPassword: string
+  extraGameArgs: string[]
+}
+
+export interface LaunchProfileFile {
+  path: string
+  role: 'jvm' | 'game' | 'jvm+game'
+  backup: string | null
+}
+
+export interface LaunchProfileResponse {
+  profile: LaunchProfile
+  files: LaunchProfileFile[]
+  script: string
+  serverPath: string
+  command: string
+}
+
+// Services the panel runs for one server (every server is monitored side by side)
+export interface ServerInstanceStatus {
+  serverId: string | number | null
+  name: string
+  isActive: boolean
+  isRemote: boolean
+  hasAgent: boolean
+  lifecycle: { state: string; since: string; upSince: string | null; reason: string | null }
+  rconConnected: boolean
+  playerCount: number
+  panelBridge: boolean
+}
+
 // Servers API (multi-server management)
 export const serversApi = {
   getAll: () => apiGet('/servers') as Promise<{ servers: ServerInstance[] }>,
   getActive: () => apiGet('/servers/active') as Promise<{ server: ServerInstance }>,
+  getInstances: () => apiGet('/servers/instances') as Promise<{ instances: ServerInstanceStatus[] }>,
   get: (id: string | number) => apiGet(`/servers/${id}`) as Promise<{ server: ServerInstance }>,
   create: (config: Partial<ServerInstance>) =>
     apiPost('/servers', config) as Promise<{ server: ServerInstance; message: string }>,
@@ -521,6 +1111,16 @@ export const serversApi = {
     apiDelete(`/servers/${id}`) as Promise<{ success: boolean; message: string }>,
   activate: (id: string | number) =>
     apiPost(`/servers/${id}/activate`) as Promise<{ server: ServerInstance; message: string }>,
+  clone: (id: string | number, options: { name?: string; serverName: string; includeSaves?: boolean }) =>
+    apiPost(`/servers/${id}/clone`, options) as Promise<{ server: ServerInstance; copied: string[]; message: string }>,
+  testAgent: (agentUrl: string, agentToken: string, serverId?: string | number) =>
+    apiPost('/servers/test-agent', { agentUrl, agentToken, serverId }) as Promise<{ success: boolean; info?: AgentInfo; error?: string }>,
+  getLaunchProfile: (id: string | number) =>
+    apiGet(`/servers/${id}/launch-profile`) as Promise<LaunchProfileResponse>,
+  saveLaunchProfile: (id: string | number, profile: LaunchProfile) =>
+    apiPut(`/servers/${id}/launch-profile`, profile) as Promise<LaunchProfileResponse & { server: ServerInstance; message: string }>,
+  restoreLaunchProfile: (id: string | number) =>
+    apiPost(`/servers/${id}/launch-profile/restore`) as Promise<LaunchProfileResponse & { server: ServerInstance; restored: string[]; message: string }>,
   steamUpdate: (steamcmdPath: string, installPath: string, branch: string = 'stable') =>
     apiPost('/server/steam-update', { steamcmdPath, installPath, branch, validateFiles: false }) as Promise<{ success: boolean; message: string }>,
   steamVerify: (steamcmdPath: string, installPath: string, branch: string = 'stable') =>
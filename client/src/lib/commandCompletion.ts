@@ -0,0 +1,306 @@
+import type { ConsoleMacro, RconCommandParameter, RconCommandSpec, RconCompletionData } from '@/lib/api'
+import { MACRO_PREFIX, macroUsage } from '@/lib/api'
+
+// ============================================================================
+// RCON console completion and checks
+// ============================================================================
+//
+// Works from the parameter metadata in PZ_COMMANDS (server/utils/commands.js):
+// each parameter's `values` names where suggestions come from, `strict` lists
+// only accept those values and `flag` parameters are given as -flag [value].
+
+export interface Suggestion {
+  // Text that replaces the word being typed
+  value: string
+  label: string
+  detail?: string
+}
+
+export interface ParameterHint {
+  text: string
+  active: boolean
+}
+
+export interface Completion {
+  suggestions: Suggestion[]
+  // Where the word being typed starts, replaced when a suggestion is picked
+  replaceFrom: number
+  // The command's usage with the parameter being typed marked
+  hint: { command: string; params: ParameterHint[]; description?: string } | null
+}
+
+export interface CommandCheck {
+  // Problems the game would reject the command for
+  errors: string[]
+  // Likely mistakes that are still sent
+  warnings: string[]
+}
+
+interface Token {
+  text: string
+  start: number
+  end: number
+}
+
+const MAX_SUGGESTIONS = 10
+const BOOLEAN_VALUES = ['-true', '-false']
+const COORDINATES = /^-?\d+(\.\d+)?,-?\d+(\.\d+)?,-?\d+(\.\d+)?$/
+const PERK_AMOUNT = /^(\w+)=(-?\d+(\.\d+)?)$/
+
+/** Split a command line into words with their positions, honouring double quotes */
+function tokenize(line: string): Token[] {
+  const tokens: Token[] = []
+  const regex = /"([^"]*)"?|(\S+)/g
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(line)) !== null) {
+    tokens.push({ text: match[1] ?? match[2], start: match.index, end: match.index + match[0].length })
+  }
+  return tokens
+}
+
+function findCommand(data: RconCompletionData, name: string): RconCommandSpec | null {
+  const lower = name.toLowerCase()
+  return Object.values(data.commands).find(spec => spec.command.toLowerCase() === lower) ?? null
+}
+
+function isFlagArg(spec: RconCommandSpec, arg: string) {
+  return arg.startsWith('-') && spec.parameters.some(p => p.flag && p.flag.toLowerCase() === arg.slice(1).toLowerCase())
+}
+
+/**
+ * Match arguments to parameters: `-flag [value]` arguments go to flag
+ * parameters, the rest fill positional ones in order - optional ones only
+ * while there are more arguments than required parameters left.
+ */
+function assignArguments(spec: RconCommandSpec, args: string[]) {
+  const assigned = new Map<RconCommandParameter, string>()
+  const positional: string[] = []
+  for (let i = 0; i < args.length; i++) {
+    const flagParam = args[i].startsWith('-')
+      ? spec.parameters.find(p => p.flag && p.flag.toLowerCase() === args[i].slice(1).toLowerCase())
+      : undefined
+    if (!flagParam) {
+      positional.push(args[i])
+    } else if (flagParam.type === 'boolean') {
+      assigned.set(flagParam, 'true')
+    } else {
+      assigned.set(flagParam, args[++i] ?? '')
+    }
+  }
+
+  const params = spec.parameters.filter(p => !p.flag)
+  let optionalSlots = positional.length - params.filter(p => p.required).length
+  const extra: string[] = []
+  let next = 0
+  for (const param of params) {
+    if (next >= positional.length) break
+    if (!param.required) {
+      if (optionalSlots <= 0) continue
+      optionalSlots--
+    }
+    assigned.set(param, positional[next++])
+  }
+  extra.push(...positional.slice(next))
+  return { assigned, extra }
+}
+
+/**
+ * The parameters argument `index` (0-based, flags left out) can be: the one
+ * at that position when every optional parameter before it is given, and
+ * the one when none are.
+ */
+function candidateParams(spec: RconCommandSpec, index: number): RconCommandParameter[] {
+  const params = spec.parameters.filter(p => !p.flag)
+  const required = params.filter(p => p.required)
+  return [...new Set([params[index], required[index]].filter(Boolean))] as RconCommandParameter[]
+}
+
+function valuesFor(param: RconCommandParameter, data: RconCompletionData, args: string[]): Suggestion[] {
+  if (param.type === 'boolean') return BOOLEAN_VALUES.map(value => ({ value, label: value }))
+  if (param.type === 'perkAmount') {
+    return (data.values.perks ?? []).map(perk => ({ value: `${perk}=`, label: `${perk}=`, detail: 'Perk=amount' }))
+  }
+  switch (param.values) {
+    case 'players':
+      return data.players.map(name => ({ value: name, label: name, detail: 'online' }))
+    case 'options':
+      return data.options.map(option => ({ value: option.name, label: option.name, detail: option.value }))
+    case 'optionValue': {
+      // The current value of the option named before it
+      const option = data.options.find(o => o.name.toLowerCase() === (args[0] ?? '').toLowerCase())
+      return option ? [{ value: option.value, label: option.value || '(empty)', detail: 'current value' }] : []
+    }
+    case undefined:
+      return []
+    default:
+      return (data.values[param.values] ?? []).map(value => ({ value, label: value }))
+  }
+}
+
+// Words starting with what was typed come first, then words containing it
+function filterSuggestions(suggestions: Suggestion[], typed: string): Suggestion[] {
+  const lower = typed.toLowerCase()
+  const unique = [...new Map(suggestions.map(s => [s.value, s])).values()]
+  const starts = unique.filter(s => s.value.toLowerCase().startsWith(lower))
+  const contains = lower ? unique.filter(s => !s.value.toLowerCase().startsWith(lower) && s.value.toLowerCase().includes(lower)) : []
+  return [...starts, ...contains]
+    .filter(s => s.value !== typed)
+    .slice(0, MAX_SUGGESTIONS)
+}
+
+function paramLabel(param: RconCommandParameter) {
+  const name = param.flag ? `-${param.flag}${param.type === 'boolean' ? '' : ` ${param.name}`}` : param.format ?? param.name
+  return param.required ? `<${name}>` : `[${name}]`
+}
+
+/** Suggestions and a usage hint for the end of the command line */
+export function getCompletion(line: string, data: RconCompletionData | null, macros: ConsoleMacro[] = []): Completion {
+  const tokens = tokenize(line)
+  const openQuote = (line.match(/"/g)?.length ?? 0) % 2 === 1
+  // A new word starts after trailing whitespace, unless a quote is open
+  const typingNew = line.length === 0 || (/\s$/.test(line) && !openQuote)
+  const current: Token = typingNew ? { text: '', start: line.length, end: line.length } : tokens[tokens.length - 1]
+  const before = typingNew ? tokens : tokens.slice(0, -1)
+  const empty: Completion = { suggestions: [], replaceFrom: current.start, hint: null }
+
+  // Command name, or a macro
+  if (before.length === 0) {
+    if (!current.text) return empty
+    if (current.text.startsWith(MACRO_PREFIX)) {
+      const typed = current.text.slice(MACRO_PREFIX.length)
+      const suggestions = macros
+        .map(macro => ({ value: `${MACRO_PREFIX}${macro.name}`, label: macroUsage(macro), detail: macro.description }))
+      return { ...empty, suggestions: filterSuggestions(suggestions, `${MACRO_PREFIX}${typed}`) }
+    }
+    if (!data) return empty
+    const suggestions = Object.values(data.commands)
+      .map(spec => ({ value: spec.command, label: spec.command, detail: spec.description }))
+    return { ...empty, suggestions: filterSuggestions(suggestions, current.text) }
+  }
+
+  const name = before[0].text
+  if (name.startsWith(MACRO_PREFIX)) {
+    const macro = macros.find(m => `${MACRO_PREFIX}${m.name}`.toLowerCase() === name.toLowerCase())
+    if (!macro) return empty
+    const argIndex = before.length - 1
+    return {
+      ...empty,
+      hint: {
+        command: `${MACRO_PREFIX}${macro.name}`,
+        params: macro.params.map((p, i) => ({
+          text: p.default !== undefined ? `[${p.name}=${p.default}]` : `<${p.name}>`,
+          active: i === argIndex,
+        })),
+        description: macro.description,
+      },
+    }
+  }
+
+  const spec = data ? findCommand(data, name) : null
+  if (!spec || !data) return empty
+
+  const args = before.slice(1).map(t => t.text)
+  const previous = args[args.length - 1]
+  const valueFlag = previous?.startsWith('-')
+    ? spec.parameters.find(p => p.flag && p.type !== 'boolean' && p.flag.toLowerCase() === previous.slice(1).toLowerCase())
+    : undefined
+
+  let active: RconCommandParameter[] = []
+  let suggestions: Suggestion[] = []
+  if (valueFlag) {
+    active = [valueFlag]
+  } else {
+    // Flags and their values don't take a position
+    const positional: string[] = []
+    for (let i = 0; i < args.length; i++) {
+      if (isFlagArg(spec, args[i])) {
+        const param = spec.parameters.find(p => p.flag?.toLowerCase() === args[i].slice(1).toLowerCase())
+        if (param?.type !== 'boolean') i++
+      } else {
+        positional.push(args[i])
+      }
+    }
+    active = candidateParams(spec, positional.length)
+    suggestions = active.flatMap(param => valuesFor(param, data, positional))
+    if (current.text.startsWith('-')) {
+      suggestions.push(...spec.parameters
+        .filter(p => p.flag && !args.some(a => a.toLowerCase() === `-${p.flag}`.toLowerCase()))
+        .map(p => ({ value: `-${p.flag}`, label: `-${p.flag}`, detail: p.name })))
+    }
+  }
+
+  return {
+    suggestions: filterSuggestions(suggestions, current.text),
+    replaceFrom: current.start,
+    hint: {
+      command: spec.command,
+      params: spec.parameters.map(param => ({ text: paramLabel(param), active: active.includes(param) })),
+      description: spec.description,
+    },
+  }
+}
+
+/** The line with the word being typed replaced by a suggestion */
+export function applySuggestion(line: string, completion: Completion, suggestion: Suggestion): string {
+  const value = /\s/.test(suggestion.value) ? `"${suggestion.value}"` : suggestion.value
+  // Perk= and similar go on with the amount, everything else starts a new word
+  const separator = value.endsWith('=') ? '' : ' '
+  return `${line.slice(0, completion.replaceFrom)}${value}${separator}`
+}
+
+/**
+ * Check a command against its PZ_COMMANDS parameters before it is sent.
+ * Macros and commands the panel doesn't know are left to the server.
+ */
+export function checkCommand(line: string, data: RconCompletionData | null): CommandCheck {
+  const check: CommandCheck = { errors: [], warnings: [] }
+  const tokens = tokenize(line.trim())
+  if (!data || tokens.length === 0 || tokens[0].text.startsWith(MACRO_PREFIX)) return check
+
+  const spec = findCommand(data, tokens[0].text)
+  if (!spec) {
+    check.warnings.push(`${tokens[0].text} is not a known command - it is sent as typed`)
+    return check
+  }
+
+  const { assigned, extra } = assignArguments(spec, tokens.slice(1).map(t => t.text))
+  for (const param of spec.parameters) {
+    const value = assigned.get(param)
+    if (value === undefined) {
+      if (param.required) check.errors.push(`Missing ${param.format ?? param.name}`)
+      continue
+    }
+
+    if (param.type === 'number' && !Number.isFinite(Number(value))) {
+      check.errors.push(`${param.name} must be a number`)
+    } else if (param.type === 'boolean' && !param.flag && !/^-?(true|false)$/i.test(value)) {
+      check.errors.push(`${param.name} must be -true or -false`)
+    } else if (param.type === 'coordinates' && !COORDINATES.test(value)) {
+      check.errors.push(`${param.name} must be written as ${param.format}`)
+    } else if (param.type === 'perkAmount') {
+      const match = value.match(PERK_AMOUNT)
+      const perks = data.values.perks ?? []
+      if (!match) {
+        check.errors.push(`${param.name} must be written as ${param.format}`)
+      } else if (!perks.some(perk => perk.toLowerCase() === match[1].toLowerCase())) {
+        check.errors.push(`Unknown perk ${match[1]}`)
+      }
+    } else if (param.format?.includes('.') && !value.includes('.')) {
+      check.errors.push(`${param.name} ids look like ${param.format}`)
+    } else if (param.values === 'players' && !data.players.some(p => p.toLowerCase() === value.toLowerCase())) {
+      check.warnings.push(`${value} is not online`)
+    } else if (param.values === 'options' && data.options.length > 0 && !data.options.some(o => o.name.toLowerCase() === value.toLowerCase())) {
+      check.warnings.push(`${value} is not an option in the server's ini`)
+    } else if (param.strict && param.values) {
+      const allowed = data.values[param.values] ?? []
+      if (!allowed.some(v => v.toLowerCase() === value.toLowerCase())) {
+        check.errors.push(`${param.name} must be one of: ${allowed.join(', ')}`)
+      }
+    }
+  }
+
+  if (extra.length > 0) {
+    check.warnings.push(`Extra arguments: ${extra.join(' ')} - quote text that contains spaces`)
+  }
+  return check
+}
@@ -0,0 +1,307 @@
+import { useEffect, useState, useCallback } from 'react'
+import { ScrollText, RefreshCw, Download, Loader2, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, CheckCircle, XCircle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import { PageHeader } from '@/components/PageHeader'
+import { EmptyState } from '@/components/EmptyState'
+import { auditApi, AuditEntry, AuditFilters, AuditSource } from '@/lib/api'
+
+const PAGE_SIZE = 50
+const ALL = 'all'
+
+const SOURCE_LABELS: Record<AuditSource, string> = {
+  web: 'Web UI',
+  api: 'API Token',
+  discord: 'Discord',
+  scheduler: 'Scheduler',
+}
+
+const SOURCE_BADGES: Record<AuditSource, 'default' | 'secondary' | 'warning' | 'success'> = {
+  web: 'default',
+  api: 'warning',
+  discord: 'secondary',
+  scheduler: 'success',
+}
+
+// Date inputs give local calendar days; the API filters on ISO timestamps
+function dayBoundary(date: string, endOfDay: boolean): string | undefined {
+  if (!date) return undefined
+  return new Date(`${date}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString()
+}
+
+export default function Audit() {
+  const { toast } = useToast()
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  // Filters
+  const [actors, setActors] = useState<string[]>([])
+  const [sources, setSources] = useState<AuditSource[]>(Object.keys(SOURCE_LABELS) as AuditSource[])
+  const [search, setSearch] = useState('')
+  const [actor, setActor] = useState(ALL)
+  const [source, setSource] = useState(ALL)
+  const [result, setResult] = useState(ALL)
+  const [sinceDate, setSinceDate] = useState('')
+  const [untilDate, setUntilDate] = useState('')
+
+  const filters: AuditFilters = {
+    search: search.trim() || undefined,
+    actor: actor !== ALL ? actor : undefined,
+    source: source !== ALL ? (source as AuditSource) : undefined,
+    success: result === ALL ? undefined : result === 'success',
+    since: dayBoundary(sinceDate, false),
+    until: dayBoundary(untilDate, true),
+  }
+  const filterKey = JSON.stringify(filters)
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true)
+    try {
+      const data = await auditApi.getEntries(JSON.parse(filterKey), PAGE_SIZE, page * PAGE_SIZE)
+      setEntries(data.entries)
+      setTotal(data.total)
+    } catch (error) {
+      toast({
+        title: 'Failed to load audit log',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [filterKey, page, toast])
+
+  useEffect(() => {
+    fetchEntries()
+  }, [fetchEntries])
+
+  useEffect(() => {
+    auditApi.getFilters()
+      .then(data => {
+        setActors(data.actors)
+        setSources(data.sources)
+      })
+      .catch(() => { /* dropdowns fall back to defaults */ })
+  }, [])
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(0)
+  }, [filterKey])
+
+  const clearFilters = () => {
+    setSearch('')
+    setActor(ALL)
+    setSource(ALL)
+    setResult(ALL)
+    setSinceDate('')
+    setUntilDate('')
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
+  const hasFilters = filterKey !== '{}'
+
+  return (
+    <div className="space-y-8 page-transition">
+      <PageHeader
+        title="Audit Log"
+        description="Who changed what on the panel, and from where"
+        icon={<ScrollText className="w-5 h-5 text-primary" />}
+        actions={
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchEntries} className="gap-2">
+              <RefreshCw className="w-4 h-4" />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" asChild className="gap-2">
+              <a href={auditApi.getExportUrl(filters, 'csv')} download>
+                <Download className="w-4 h-4" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild className="gap-2">
+              <a href={auditApi.getExportUrl(filters, 'json')} download>
+                <Download className="w-4 h-4" />
+                JSON
+              </a>
+            </Button>
+          </div>
+        }
+      />
+
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg">Filters</CardTitle>
+          <CardDescription>Exports include every entry matching these filters</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-search">Search</Label>
+              <Input
+                id="audit-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Action, target, error..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Actor</Label>
+              <Select value={actor} onValueChange={setActor}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Everyone</SelectItem>
+                  {actors.map(a => (
+                    <SelectItem key={a} value={a}>{a}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select value={source} onValueChange={setSource}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sources</SelectItem>
+                  {sources.map(s => (
+                    <SelectItem key={s} value={s}>{SOURCE_LABELS[s] ?? s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Result</Label>
+              <Select value={result} onValueChange={setResult}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any result</SelectItem>
+                  <SelectItem value="success">Succeeded</SelectItem>
+                  <SelectItem value="failure">Failed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-since">From</Label>
+              <Input id="audit-since" type="date" value={sinceDate} onChange={(e) => setSinceDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-until">To</Label>
+              <Input id="audit-until" type="date" value={untilDate} onChange={(e) => setUntilDate(e.target.value)} />
+            </div>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters} className="mt-4">
+              Clear filters
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg">Entries</CardTitle>
+              <CardDescription>{total} recorded action{total === 1 ? '' : 's'}</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0 || loading}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page + 1 >= pageCount || loading}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <EmptyState
+              type={hasFilters ? 'noResults' : 'noData'}
+              title={hasFilters ? 'No matching entries' : 'No actions recorded yet'}
+              description={hasFilters ? 'Try widening the filters' : 'Changes made through the panel, Discord or the scheduler will show up here'}
+              compact
+            />
+          ) : (
+            <div className="space-y-2">
+              {entries.map(entry => {
+                const expanded = expandedId === entry.id
+                return (
+                  <div key={entry.id} className="rounded-lg border bg-muted/20">
+                    <button
+                      type="button"
+                      className="w-full flex items-center gap-3 p-3 text-left"
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    >
+                      {entry.success ? (
+                        <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-mono text-sm">{entry.action}</span>
+                          {entry.target && (
+                            <span className="text-sm text-muted-foreground truncate">→ {entry.target}</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(entry.created_at).toLocaleString()} · {entry.actor ?? 'anonymous'}
+                          {entry.ip && ` · ${entry.ip}`}
+                        </div>
+                      </div>
+                      <Badge variant={SOURCE_BADGES[entry.source] ?? 'secondary'}>
+                        {SOURCE_LABELS[entry.source] ?? entry.source}
+                      </Badge>
+                      {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    </button>
+                    {expanded && (
+                      <div className="px-3 pb-3 space-y-2 text-sm">
+                        {entry.error && (
+                          <p className="text-destructive">{entry.error}</p>
+                        )}
+                        {entry.status !== null && (
+                          <p className="text-muted-foreground">HTTP status {entry.status}</p>
+                        )}
+                        <pre className="p-2 rounded bg-muted text-xs font-mono overflow-x-auto whitespace-pre-wrap break-all">
+                          {entry.params ? JSON.stringify(entry.params, null, 2) : 'No parameters'}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -39,6 +39,7 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { useToast } from '@/components/ui/use-toast'
+import { useAuth } from '@/contexts/AuthContext'
 import { useSocket } from '@/contexts/SocketContext'
 import { backupApi, BackupStatus, BackupFile } from '@/lib/api'
 import { cn } from '@/lib/utils'
@@ -56,6 +57,7 @@ interface BackupProgress {
 
 export default function Backups() {
   const { toast } = useToast()
+  const { can } = useAuth()
   const socket = useSocket()
 
   // Refs for cleanup
@@ -718,7 +720,7 @@ export default function Backups() {
                             variant="ghost"
                             size="sm"
                             onClick={() => setRestoreDialog({ open: true, backupName: backup.name })}
-                            disabled={isRestoring || restoringBackup !== null}
+                            disabled={isRestoring || restoringBackup !== null || !can('backup.restore')}
                             className="text-amber-400 hover:text-amber-500 hover:bg-amber-500/10"
                             title="Restore this backup"
                           >
@@ -44,6 +44,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip'
 import { useToast } from '@/components/ui/use-toast'
+import { useAuth } from '@/contexts/AuthContext'
 import { Separator } from '@/components/ui/separator'
 import { chunksApi, serversApi } from '@/lib/api'
 
@@ -102,6 +103,7 @@ export default function ChunkCleaner() {
   const [loading, setLoading] = useState(false)
   const [selectedChunks, setSelectedChunks] = useState<Set<string>>(new Set())
   const { toast } = useToast()
+  const { can } = useAuth()
   
   // Canvas refs  
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -996,6 +998,7 @@ export default function ChunkCleaner() {
                 variant="destructive" 
                 className="w-full"
                 onClick={() => setDeleteDialogOpen(true)}
+                disabled={!can('chunks.delete')}
               >
                 <Trash2 className="w-4 h-4 mr-2" />
                 Delete {selectedChunks.size} Chunks
@@ -8,10 +8,15 @@ import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useToast } from '@/components/ui/use-toast'
-import { rconApi, configApi, serverApi } from '@/lib/api'
+import { useAuth } from '@/contexts/AuthContext'
+import { rconApi, configApi, serverApi, ConsoleMacro, MACRO_PREFIX, RconCompletionData } from '@/lib/api'
+import { getCompletion, applySuggestion, checkCommand, Suggestion } from '@/lib/commandCompletion'
 import { useSocket } from '@/contexts/SocketContext'
 import { EmptyState } from '@/components/EmptyState'
 import { PageHeader } from '@/components/PageHeader'
+import { RconResultView } from '@/components/RconResultView'
+import { ConsoleMacros } from '@/components/ConsoleMacros'
+import type { StructuredRconResult } from '@/types'
 
 interface CommandEntry {
   id: number
@@ -21,13 +26,30 @@ interface CommandEntry {
   executed_at: string
 }
 
+interface ServerConsoleLine {
+  seq: number
+  line: string
+  stream: 'stdout' | 'stderr' | 'panel'
+  time: string
+}
+
 interface RconResponse {
   command: string
   response: string
   success: boolean
+  structured?: StructuredRconResult
+  // The `!macro` line a step belongs to
+  macro?: string
   timestamp: string
 }
 
+interface MacroFinished {
+  success: boolean
+  macro: string
+  command: string
+  error?: string
+}
+
 // Parse PZ server log line into structured parts
 interface ParsedLogLine {
   type: 'LOG' | 'WARN' | 'ERROR' | 'DEBUG' | 'INFO' | 'UNKNOWN'
@@ -85,9 +107,16 @@ export default function Console() {
   const [sendingAnnouncement, setSendingAnnouncement] = useState(false)
   const [sendingChannelMessage, setSendingChannelMessage] = useState(false)
   const [historySearch, setHistorySearch] = useState('')
+  const [macros, setMacros] = useState<ConsoleMacro[]>([])
+  const [completionData, setCompletionData] = useState<RconCompletionData | null>(null)
+  const [suggestionIndex, setSuggestionIndex] = useState(0)
+  // Closed with Escape and while browsing history; typing opens it again
+  const [suggestionsOpen, setSuggestionsOpen] = useState(true)
+  const [showCheck, setShowCheck] = useState(false)
   const scrollRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
+  const { can } = useAuth()
   const socket = useSocket()
   
   // Server Console Log state
@@ -95,6 +124,8 @@ export default function Console() {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [_serverLogSize, setServerLogSize] = useState(0)
   const [serverLogPath, setServerLogPath] = useState('')
+  // 'panel' = output captured from the server process (pushed over the socket), 'file' = server-console.txt (polled)
+  const [serverLogSource, setServerLogSource] = useState<'panel' | 'file'>('file')
   const [serverLogExists, setServerLogExists] = useState(false)
   const [serverLogLoading, setServerLogLoading] = useState(false)
   const [serverLogAutoScroll, setServerLogAutoScroll] = useState(true)
@@ -103,6 +134,7 @@ export default function Console() {
   const serverLogRef = useRef<HTMLDivElement>(null)
   const serverLogIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const serverLogSizeRef = useRef(0) // Track size without recreating interval
+  const serverLogSourceRef = useRef<'panel' | 'file'>('file')
 
   // Patterns to filter out (uninteresting/repetitive messages) - memoized to prevent recreation
   const noisePatterns = useMemo(() => [
@@ -134,6 +166,28 @@ export default function Console() {
     }
   }, [])
 
+  const fetchMacros = useCallback(async () => {
+    try {
+      const data = await rconApi.getMacros()
+      setMacros(data.macros || [])
+    } catch (error) {
+      console.error('Failed to fetch macros:', error)
+    }
+  }, [])
+
+  const fetchCompletions = useCallback(async () => {
+    try {
+      setCompletionData(await rconApi.getCompletions())
+    } catch (error) {
+      console.error('Failed to fetch completions:', error)
+    }
+  }, [])
+
+  // Argument suggestions, the usage hint and checks for the line being typed
+  const completion = useMemo(() => getCompletion(command, completionData, macros), [command, completionData, macros])
+  const commandCheck = useMemo(() => checkCommand(command, completionData), [command, completionData])
+  const suggestions = suggestionsOpen ? completion.suggestions : []
+
   const testRconConnection = useCallback(async () => {
     setTestingConnection(true)
     try {
@@ -159,7 +213,11 @@ export default function Console() {
         serverLogSizeRef.current = data.size || 0
         setServerLogPath(data.path || '')
         setServerLogExists(data.exists || false)
+        serverLogSourceRef.current = data.source === 'panel' ? 'panel' : 'file'
+        setServerLogSource(serverLogSourceRef.current)
       } else {
+        // Captured output arrives over the socket instead
+        if (serverLogSourceRef.current === 'panel') return
         // Stream new content - use ref to avoid stale closure
         const data = await serverApi.streamConsoleLog(serverLogSizeRef.current)
         if (data.newLines && data.newLines.length > 0) {
@@ -202,7 +260,11 @@ export default function Console() {
   const serverLogPausedRef = useRef(serverLogPaused)
   useEffect(() => {
     serverLogPausedRef.current = serverLogPaused
-  }, [serverLogPaused])
+    // Socket lines are dropped while paused - catch up from the buffer on resume
+    if (!serverLogPaused && serverLogSourceRef.current === 'panel') {
+      fetchServerLog(true)
+    }
+  }, [serverLogPaused, fetchServerLog])
 
   // Start/stop server log polling
   useEffect(() => {
@@ -232,10 +294,42 @@ export default function Console() {
 
   useEffect(() => {
     fetchHistory()
+    fetchMacros()
+    fetchCompletions()
     testRconConnection()
     // Auto-focus input on mount
     inputRef.current?.focus()
-  }, [fetchHistory, testRconConnection])
+  }, [fetchHistory, fetchMacros, fetchCompletions, testRconConnection])
+
+  // Live captured server output
+  useEffect(() => {
+    if (!socket) return
+
+    const subscribe = () => socket.emit('subscribe:console')
+    const handleConsoleLine = (entry: ServerConsoleLine) => {
+      if (serverLogPausedRef.current || serverLogSourceRef.current !== 'panel') return
+      setServerLogLines(prev => [...prev, entry.line].slice(-2000))
+    }
+    // A server started by the panel - switch from server-console.txt to captured output
+    const handleConsoleAttached = () => fetchServerLog(true)
+    // Rooms are lost on reconnect, and lines may have been missed meanwhile
+    const handleReconnect = () => {
+      subscribe()
+      fetchServerLog(true)
+    }
+
+    subscribe()
+    socket.on('console:line', handleConsoleLine)
+    socket.on('console:attached', handleConsoleAttached)
+    socket.io.on('reconnect', handleReconnect)
+
+    return () => {
+      socket.emit('unsubscribe:console')
+      socket.off('console:line', handleConsoleLine)
+      socket.off('console:attached', handleConsoleAttached)
+      socket.io.off('reconnect', handleReconnect)
+    }
+  }, [socket, fetchServerLog])
 
   useEffect(() => {
     if (socket) {
@@ -245,13 +339,31 @@ export default function Console() {
         setRconConnected(true)
       }
 
+      // Macro steps arrive as rcon:response events; this ends the run
+      const handleMacroFinished = (data: MacroFinished) => {
+        toast({
+          title: data.success ? 'Macro finished' : 'Macro stopped',
+          description: data.success ? data.command : data.error,
+          variant: data.success ? 'success' as const : 'destructive',
+        })
+      }
+
+      // Keep player name suggestions current
+      const handlePlayersUpdate = (players: { name: string }[]) => {
+        setCompletionData(prev => (prev ? { ...prev, players: players.map(p => p.name) } : prev))
+      }
+
       socket.on('rcon:response', handleRconResponse)
+      socket.on('rcon:macroFinished', handleMacroFinished)
+      socket.on('players:update', handlePlayersUpdate)
 
       return () => {
         socket.off('rcon:response', handleRconResponse)
+        socket.off('rcon:macroFinished', handleMacroFinished)
+        socket.off('players:update', handlePlayersUpdate)
       }
     }
-  }, [socket])
+  }, [socket, toast])
 
   useEffect(() => {
     // Auto-scroll to bottom
@@ -260,12 +372,41 @@ export default function Console() {
     }
   }, [liveLog])
 
-  const executeCommand = async () => {
+  const runMacro = async () => {
+    setLoading(true)
+    try {
+      const result = await rconApi.runMacro(command)
+      toast({
+        title: 'Macro started',
+        description: `${MACRO_PREFIX}${result.macro}: ${result.steps} step(s)`,
+      })
+      setCommandCache(prev => [...prev.slice(-99), command])
+      setCommandHistoryIndex(-1)
+      setCommand('')
+      inputRef.current?.focus()
+    } catch (error) {
+      toast({
+        title: 'Macro not run',
+        description: error instanceof Error ? error.message : 'Macro failed',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // `force` sends a command the checks reject (Shift+Enter)
+  const executeCommand = async (force = false) => {
     if (!command.trim()) return
+    if (command.trim().startsWith(MACRO_PREFIX)) return runMacro()
+    if (commandCheck.errors.length > 0 && !force) {
+      setShowCheck(true)
+      return
+    }
 
     setLoading(true)
     try {
-      const result = await rconApi.execute(command)
+      const result = await rconApi.executeStructured(command)
       
       // Update connection status based on result
       if (result.error?.includes('Server is not running') || result.error?.includes('ECONNREFUSED')) {
@@ -278,7 +419,8 @@ export default function Console() {
       setLiveLog(prev => [...prev, {
         command,
         response: result.response || result.error || 'No response',
-        success: result.success,
+        success: result.structured?.success ?? result.success,
+        structured: result.structured,
         timestamp: new Date().toISOString()
       }].slice(-100))
 
@@ -286,6 +428,7 @@ export default function Console() {
       setCommandCache(prev => [...prev.slice(-99), command])
       setCommandHistoryIndex(-1)
       setCommand('')
+      setShowCheck(false)
       
       // Re-focus input after command execution
       inputRef.current?.focus()
@@ -303,11 +446,37 @@ export default function Console() {
     }
   }
 
+  const pickSuggestion = (suggestion: Suggestion) => {
+    setCommand(applySuggestion(command, completion, suggestion))
+    setSuggestionIndex(0)
+    setSuggestionsOpen(true)
+    inputRef.current?.focus()
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // While suggestions are shown, Tab completes and the arrows pick one
+    if (suggestions.length > 0) {
+      if (e.key === 'Tab') {
+        e.preventDefault()
+        pickSuggestion(suggestions[Math.min(suggestionIndex, suggestions.length - 1)])
+        return
+      }
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault()
+        const offset = e.key === 'ArrowDown' ? 1 : -1
+        setSuggestionIndex(i => (i + offset + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === 'Escape') {
+        setSuggestionsOpen(false)
+        return
+      }
+    }
     if (e.key === 'Enter') {
-      executeCommand()
+      executeCommand(e.shiftKey)
     } else if (e.key === 'ArrowUp') {
       e.preventDefault()
+      setSuggestionsOpen(false)
       if (commandCache.length > 0) {
         const newIndex = commandHistoryIndex < commandCache.length - 1 
           ? commandHistoryIndex + 1 
@@ -591,7 +760,7 @@ export default function Console() {
                     ? `${filteredLogLines.length} lines shown (${serverLogLines.length - filteredLogLines.length} filtered)` 
                     : `${serverLogLines.length} lines loaded`}
                 </span>
-                <span>{serverLogPaused ? 'Paused' : 'Live updating every 2s'}</span>
+                <span>{serverLogPaused ? 'Paused' : serverLogSource === 'panel' ? 'Live from server process' : 'Live updating every 2s'}</span>
               </div>
             </CardContent>
           </Card>
@@ -795,15 +964,24 @@ export default function Console() {
                   <div className="flex items-center gap-2">
                     <span className="text-primary">{'>'}</span>
                     <span className="text-blue-400">{entry.command}</span>
+                    {entry.macro && (
+                      <span className="text-xs text-muted-foreground font-mono">({entry.macro})</span>
+                    )}
                     <span className="text-muted-foreground text-xs ml-auto">
                       {new Date(entry.timestamp).toLocaleTimeString()}
                     </span>
                   </div>
-                  <div className={`ml-4 ${entry.success ? 'text-green-400' : 'text-red-400'}`}>
-                    {entry.response.split('\n').map((line, i) => (
-                      <div key={`line-${i}`}>{line || '\u00A0'}</div>
-                    ))}
-                  </div>
+                  {entry.structured ? (
+                    <div className="ml-4">
+                      <RconResultView result={entry.structured} />
+                    </div>
+                  ) : (
+                    <div className={`ml-4 ${entry.success ? 'text-green-400' : 'text-red-400'}`}>
+                      {entry.response.split('\n').map((line, i) => (
+                        <div key={`line-${i}`}>{line || '\u00A0'}</div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ))
             )}
@@ -839,28 +1017,83 @@ export default function Console() {
               <Input
                 ref={inputRef}
                 value={command}
-                onChange={(e) => setCommand(e.target.value)}
+                onChange={(e) => {
+                  setCommand(e.target.value)
+                  setSuggestionIndex(0)
+                  setSuggestionsOpen(true)
+                  setShowCheck(false)
+                }}
                 onKeyDown={handleKeyDown}
                 placeholder="Enter command..."
                 className="pl-8 font-mono"
-                disabled={loading}
+                disabled={loading || !can('rcon.execute')}
                 aria-label="RCON command input"
               />
+              {suggestions.length > 0 && (
+                <div className="absolute bottom-full mb-1 left-0 right-0 z-10 rounded-md border bg-popover shadow-md py-1" role="listbox">
+                  {suggestions.map((suggestion, index) => (
+                    <button
+                      key={suggestion.value}
+                      type="button"
+                      role="option"
+                      aria-selected={index === suggestionIndex}
+                      className={`w-full flex items-center text-left px-3 py-1.5 text-sm ${index === suggestionIndex ? 'bg-muted' : 'hover:bg-muted/50'}`}
+                      onMouseDown={(e) => {
+                        e.preventDefault()
+                        pickSuggestion(suggestion)
+                      }}
+                    >
+                      <code className="font-mono text-primary">{suggestion.label}</code>
+                      {suggestion.detail && (
+                        <span className="ml-2 text-xs text-muted-foreground truncate">{suggestion.detail}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
             <Button 
-              onClick={executeCommand} 
-              disabled={loading || !command.trim()}
+              onClick={() => executeCommand()} 
+              disabled={loading || !command.trim() || !can('rcon.execute')}
               aria-label="Execute command"
             >
               {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
             </Button>
           </div>
-          <p className="text-xs text-muted-foreground mt-2">
-            Use ↑/↓ arrows to navigate command history. Press Enter to execute.
-          </p>
+          {completion.hint ? (
+            <p className="text-xs text-muted-foreground mt-2 font-mono">
+              {completion.hint.command}
+              {completion.hint.params.map((param, i) => (
+                <span key={i} className={param.active ? 'text-primary font-semibold' : ''}> {param.text}</span>
+              ))}
+              {completion.hint.description && <span className="font-sans"> - {completion.hint.description}</span>}
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground mt-2">
+              Use ↑/↓ arrows to navigate command history, Tab to complete. Press Enter to execute. Type {MACRO_PREFIX} to run a macro.
+            </p>
+          )}
+          {showCheck && commandCheck.errors.map(error => (
+            <p key={error} className="text-xs text-red-400 mt-1">{error}</p>
+          ))}
+          {showCheck && commandCheck.errors.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">Fix the command, or press Shift+Enter to send it anyway.</p>
+          )}
+          {command.trim() && commandCheck.warnings.map(warning => (
+            <p key={warning} className="text-xs text-yellow-500 mt-1">{warning}</p>
+          ))}
         </CardContent>
       </Card>
 
+      <ConsoleMacros
+        macros={macros}
+        onChanged={fetchMacros}
+        onUse={(line) => {
+          setCommand(line)
+          inputRef.current?.focus()
+        }}
+      />
+
       {/* Command History */}
       <Card>
         <CardHeader className="pb-3">
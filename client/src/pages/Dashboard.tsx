@@ -49,10 +49,13 @@ import {
 import { serverApi, rconApi, playersApi, panelBridgeApi, backupApi, configApi, serversApi, ServerInstance } from '@/lib/api'
 import { formatUptime } from '@/lib/utils'
 import { useSocket } from '@/contexts/SocketContext'
+import { useAuth } from '@/contexts/AuthContext'
 import { EmptyState } from '@/components/EmptyState'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
 import { PageHeader } from '@/components/PageHeader'
+import { RestartCountdown } from '@/components/RestartCountdown'
+import { MissedRunsAlert } from '@/components/MissedRunsAlert'
 
 interface PlayerActivity {
   id: number
@@ -74,8 +77,28 @@ interface BridgeStatus {
   } | null
 }
 
+type LifecycleState = 'stopped' | 'starting' | 'loading' | 'ready' | 'saving' | 'stopping' | 'crashed'
+
+interface ServerLifecycle {
+  state: LifecycleState
+  since: string
+  reason: string | null
+}
+
+// Label and colours for each lifecycle state
+const LIFECYCLE_DISPLAY: Record<LifecycleState, { label: string; dot: string; bar: string }> = {
+  stopped: { label: 'Offline', dot: 'status-offline', bar: 'from-red-500 to-red-400' },
+  starting: { label: 'Starting', dot: 'status-connecting', bar: 'from-amber-500 to-amber-400' },
+  loading: { label: 'Loading World', dot: 'status-connecting', bar: 'from-amber-500 to-amber-400' },
+  ready: { label: 'Online', dot: 'status-online', bar: 'from-emerald-500 to-emerald-400' },
+  saving: { label: 'Saving', dot: 'status-online', bar: 'from-emerald-500 to-sky-400' },
+  stopping: { label: 'Stopping', dot: 'status-connecting', bar: 'from-orange-500 to-orange-400' },
+  crashed: { label: 'Crashed', dot: 'status-offline', bar: 'from-red-700 to-red-500' },
+}
+
 interface ServerStatus {
   running: boolean
+  lifecycle?: ServerLifecycle
   startTime: string | null
   uptime: number
   serverPath: string
@@ -119,6 +142,7 @@ export default function Dashboard() {
   const [fetchError, setFetchError] = useState<string | null>(null)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
   const [autoStartServer, setAutoStartServer] = useState<boolean>(false)
+  const [crashRestartEnabled, setCrashRestartEnabled] = useState<boolean>(true)
   const [quickChatMsg, setQuickChatMsg] = useState('')
   const [sendingChat, setSendingChat] = useState(false)
   const [panelInfo, setPanelInfo] = useState<{ localIp: string; port: number; url: string } | null>(null)
@@ -133,6 +157,7 @@ export default function Dashboard() {
   } | null>(null)
   const { toast } = useToast()
   const socket = useSocket()
+  const { can } = useAuth()
 
   const copyToClipboard = async (text: string, label: string) => {
     try {
@@ -217,6 +242,9 @@ export default function Dashboard() {
       if (response?.settings?.autoStartServer !== undefined) {
         setAutoStartServer(response.settings.autoStartServer === true || response.settings.autoStartServer === 'true')
       }
+      if (response?.settings?.crashRestartEnabled !== undefined) {
+        setCrashRestartEnabled(response.settings.crashRestartEnabled !== false && response.settings.crashRestartEnabled !== 'false')
+      }
     } catch {
       // Setting may not exist yet
     }
@@ -243,6 +271,27 @@ export default function Dashboard() {
     }
   }
 
+  const handleCrashRestartChange = async (checked: boolean) => {
+    setCrashRestartEnabled(checked)
+    try {
+      await configApi.updateAppSettings({ crashRestartEnabled: String(checked) })
+      toast({
+        title: checked ? 'Crash restart enabled' : 'Crash restart disabled',
+        description: checked 
+          ? 'The server will be restarted automatically if it crashes' 
+          : 'Crashes will be reported but the server will stay down',
+      })
+    } catch {
+      // Revert on error
+      setCrashRestartEnabled(!checked)
+      toast({
+        title: 'Error',
+        description: 'Failed to save crash restart setting',
+        variant: 'destructive',
+      })
+    }
+  }
+
   useEffect(() => {
     const loadInitialData = async () => {
       try {
@@ -307,6 +356,15 @@ export default function Dashboard() {
         })
       }
 
+      const handleServerState = (data: ServerLifecycle) => {
+        setStatus(prev => {
+          if (!prev) return prev
+          const running = ['loading', 'ready', 'saving', 'stopping'].includes(data.state)
+            || (data.state === 'starting' && prev.running)
+          return { ...prev, lifecycle: data, running }
+        })
+      }
+
       const handlePlayersUpdate = (data: Player[]) => {
         setPlayers(data)
       }
@@ -343,6 +401,7 @@ export default function Dashboard() {
       }
 
       socket.on('server:status', handleServerStatus)
+      socket.on('server:state', handleServerState)
       socket.on('players:update', handlePlayersUpdate)
       socket.on('activeServerChanged', handleActiveServerChanged)
       socket.on('panelBridge:modStatus', handleBridgeModStatus)
@@ -350,6 +409,7 @@ export default function Dashboard() {
 
       return () => {
         socket.off('server:status', handleServerStatus)
+        socket.off('server:state', handleServerState)
         socket.off('players:update', handlePlayersUpdate)
         socket.off('activeServerChanged', handleActiveServerChanged)
         socket.off('panelBridge:modStatus', handleBridgeModStatus)
@@ -456,6 +516,9 @@ export default function Dashboard() {
     }
   }
 
+  const lifecycleState: LifecycleState = status?.lifecycle?.state ?? (status?.running ? 'ready' : 'stopped')
+  const lifecycleDisplay = LIFECYCLE_DISPLAY[lifecycleState]
+
   if (initialLoading) {
     return (
       <div className="space-y-8 page-transition">
@@ -532,7 +595,7 @@ export default function Dashboard() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 stagger-in">
         {/* Server Status */}
         <Card className="card-interactive overflow-hidden">
-          <div className={`h-1.5 ${status?.running ? 'bg-gradient-to-r from-emerald-500 to-emerald-400' : 'bg-gradient-to-r from-red-500 to-red-400'}`} />
+          <div className={`h-1.5 bg-gradient-to-r ${lifecycleDisplay.bar}`} />
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
               <Server className="w-4 h-4" />
@@ -542,12 +605,17 @@ export default function Dashboard() {
           <CardContent className="pt-0">
             <div className="flex items-center gap-4 mb-3">
               <div className="relative">
-                <div className={`w-4 h-4 rounded-full ${status?.running ? 'status-online' : 'status-offline'}`} />
+                <div className={`w-4 h-4 rounded-full ${lifecycleDisplay.dot}`} />
               </div>
               <div>
                 <span className="text-3xl font-bold tracking-tight">
-                  {status?.running ? 'Online' : 'Offline'}
+                  {lifecycleDisplay.label}
                 </span>
+                {lifecycleState !== 'ready' && lifecycleState !== 'stopped' && status?.lifecycle?.reason && (
+                  <p className="text-sm text-muted-foreground mt-0.5">
+                    {status.lifecycle.reason}
+                  </p>
+                )}
                 {status?.running && status.uptime > 0 && (
                   <p className="text-sm text-muted-foreground mt-0.5">
                     Uptime: {formatUptime(status.uptime)}
@@ -748,6 +816,9 @@ export default function Dashboard() {
         </Card>
       )}
 
+      <RestartCountdown />
+      <MissedRunsAlert />
+
       {/* Server Controls */}
       <Card className="card-interactive">
         <CardHeader className="pb-4">
@@ -765,11 +836,11 @@ export default function Dashboard() {
           <div className="flex flex-wrap gap-3">
             <Button
               onClick={() => handleAction('Start server', serverApi.start)}
-              disabled={status?.running || loading !== null || activeServer?.isRemote}
+              disabled={status?.running || loading !== null || (activeServer?.isRemote && !activeServer.agentUrl) || !can('server.control')}
               variant="success"
               size="lg"
               className="gap-2"
-              title={activeServer?.isRemote ? 'Not available for remote (RCON-only) servers' : undefined}
+              title={activeServer?.isRemote && !activeServer.agentUrl ? 'Not available for remote servers without a panel agent' : undefined}
             >
               {loading === 'Start server' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
               Start Server
@@ -781,7 +852,7 @@ export default function Dashboard() {
                 action: serverApi.stop,
                 variant: 'destructive'
               })}
-              disabled={!status?.running || loading !== null}
+              disabled={!status?.running || loading !== null || !can('server.control')}
               variant="destructive"
               size="lg"
               className="gap-2"
@@ -796,7 +867,7 @@ export default function Dashboard() {
                 action: () => serverApi.restart(5),
                 variant: 'warning'
               })}
-              disabled={!status?.running || loading !== null}
+              disabled={!status?.running || loading !== null || !can('server.control')}
               variant="warning"
               size="lg"
               className="gap-2"
@@ -811,7 +882,7 @@ export default function Dashboard() {
                 action: () => serverApi.restart(0),
                 variant: 'destructive'
               })}
-              disabled={!status?.running || loading !== null}
+              disabled={!status?.running || loading !== null || !can('server.control')}
               variant="destructive"
               size="lg"
               className="gap-2"
@@ -822,7 +893,7 @@ export default function Dashboard() {
             <div className="flex-1 min-w-[200px]" />
             <Button
               onClick={() => handleAction('Save world', serverApi.save)}
-              disabled={!status?.running || loading !== null}
+              disabled={!status?.running || loading !== null || !can('server.manage')}
               variant="secondary"
               size="lg"
               className="gap-2"
@@ -832,11 +903,11 @@ export default function Dashboard() {
             </Button>
             <Button
               onClick={() => handleAction('Create backup', () => backupApi.createBackup({ includeDb: true }))}
-              disabled={loading !== null || activeServer?.isRemote}
+              disabled={loading !== null || (activeServer?.isRemote && !activeServer.agentUrl) || !can('backup.create')}
               variant="outline"
               size="lg"
               className="gap-2"
-              title={activeServer?.isRemote ? 'Not available for remote (RCON-only) servers' : undefined}
+              title={activeServer?.isRemote && !activeServer.agentUrl ? 'Not available for remote servers without a panel agent' : undefined}
             >
               <Archive className="w-5 h-5" />
               Backup Now
@@ -855,17 +926,29 @@ export default function Dashboard() {
             )}
           </div>
           
-          {/* Auto-start setting - only for local servers */}
-          {!activeServer?.isRemote && (
-          <div className="flex items-center gap-3 mt-4 pt-4 border-t border-border">
-            <Checkbox 
-              id="autoStartServer" 
-              checked={autoStartServer}
-              onCheckedChange={(checked) => handleAutoStartChange(checked === true)}
-            />
-            <Label htmlFor="autoStartServer" className="text-sm text-muted-foreground cursor-pointer">
-              Auto-start server when panel launches
-            </Label>
+          {/* Auto-start and crash restart settings - for servers the panel can start */}
+          {(!activeServer?.isRemote || activeServer.agentUrl) && (
+          <div className="space-y-3 mt-4 pt-4 border-t border-border">
+            <div className="flex items-center gap-3">
+              <Checkbox 
+                id="autoStartServer" 
+                checked={autoStartServer}
+                onCheckedChange={(checked) => handleAutoStartChange(checked === true)}
+              />
+              <Label htmlFor="autoStartServer" className="text-sm text-muted-foreground cursor-pointer">
+                Auto-start server when panel launches
+              </Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <Checkbox 
+                id="crashRestartEnabled" 
+                checked={crashRestartEnabled}
+                onCheckedChange={(checked) => handleCrashRestartChange(checked === true)}
+              />
+              <Label htmlFor="crashRestartEnabled" className="text-sm text-muted-foreground cursor-pointer">
+                Restart server automatically if it crashes
+              </Label>
+            </div>
           </div>
           )}
         </CardContent>
@@ -28,7 +28,8 @@ import {
   Database,
   Settings,
   Zap,
-  TrendingUp
+  TrendingUp,
+  ListOrdered
 } from 'lucide-react'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RTooltip, ResponsiveContainer, AreaChart, Area } from 'recharts'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -56,6 +57,7 @@ import {
 import { useToast } from '@/components/ui/use-toast'
 import { SocketContext } from '@/contexts/SocketContext'
 import { PageHeader } from '@/components/PageHeader'
+import { RconQueueInspector } from '@/components/RconQueueInspector'
 
 interface LogEntry {
   id: string
@@ -591,6 +593,10 @@ export default function Debug() {
             <Activity className="w-4 h-4" />
             Health
           </TabsTrigger>
+          <TabsTrigger value="rcon-queue" className="gap-2">
+            <ListOrdered className="w-4 h-4" />
+            RCON Queue
+          </TabsTrigger>
           <TabsTrigger value="system" className="gap-2">
             <Database className="w-4 h-4" />
             System
@@ -1253,6 +1259,11 @@ export default function Debug() {
           </Card>
         </TabsContent>
 
+        {/* RCON Queue Tab */}
+        <TabsContent value="rcon-queue" className="space-y-4">
+          <RconQueueInspector />
+        </TabsContent>
+
         {/* System Tab */}
         <TabsContent value="system" className="space-y-4">
           {/* System Info Cards */}
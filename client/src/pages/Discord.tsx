@@ -263,6 +263,7 @@ export default function Discord() {
   const eventLabels: Record<string, { label: string; description: string; variables: string }> = {
     serverStart: { label: 'Server Start', description: 'When server starts', variables: 'None' },
     serverStop: { label: 'Server Stop', description: 'When server stops', variables: 'None' },
+    serverCrash: { label: 'Server Crash', description: 'When the server stops unexpectedly', variables: '{reason}, {action}, {attempt}, {maxAttempts}' },
     playerJoin: { label: 'Player Join', description: 'When a player connects', variables: '{player}' },
     playerLeave: { label: 'Player Leave', description: 'When a player disconnects', variables: '{player}' },
     scheduledRestart: { label: 'Scheduled Restart', description: 'Before scheduled restart', variables: '{minutes}' },
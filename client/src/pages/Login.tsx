@@ -0,0 +1,129 @@
+import { useState, FormEvent } from 'react'
+import { Loader2, LogIn, ShieldCheck, AlertCircle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useAuth } from '@/contexts/AuthContext'
+
+const PASSWORD_MIN_LENGTH = 8
+
+export default function Login() {
+  const { setupRequired, login, setup } = useAuth()
+  const [username, setUsername] = useState(setupRequired ? 'admin' : '')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (setupRequired) {
+      if (password.length < PASSWORD_MIN_LENGTH) {
+        setError(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+        return
+      }
+      if (password !== confirmPassword) {
+        setError('Passwords do not match')
+        return
+      }
+    }
+
+    setSubmitting(true)
+    try {
+      if (setupRequired) {
+        await setup(username.trim(), password)
+      } else {
+        await login(username.trim(), password)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed')
+      setPassword('')
+      setConfirmPassword('')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <img
+            src="/spiffo.png"
+            alt="Spiffo"
+            className="w-12 h-14 object-contain mx-auto mb-2 drop-shadow-lg"
+          />
+          <CardTitle className="text-xl tracking-wider" style={{ fontFamily: 'Impact, sans-serif' }}>
+            Zomboid Control Panel
+          </CardTitle>
+          <CardDescription>
+            {setupRequired
+              ? 'Create the panel account to secure this control panel'
+              : 'Sign in to manage your server'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoFocus={!setupRequired}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus={setupRequired}
+                required
+              />
+            </div>
+            {setupRequired && (
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm Password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+
+            {error && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-sm text-destructive">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <Button type="submit" className="w-full gap-2" disabled={submitting || !username || !password}>
+              {submitting ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : setupRequired ? (
+                <ShieldCheck className="w-4 h-4" />
+              ) : (
+                <LogIn className="w-4 h-4" />
+              )}
+              {setupRequired ? 'Create Account' : 'Sign In'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
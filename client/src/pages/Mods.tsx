@@ -54,6 +54,7 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
 import { useToast } from '@/components/ui/use-toast'
+import { useAuth } from '@/contexts/AuthContext'
 import { modsApi } from '@/lib/api'
 import { EmptyState } from '@/components/EmptyState'
 
@@ -120,6 +121,7 @@ export default function Mods() {
   const [checking, setChecking] = useState(false)
   const [syncing, setSyncing] = useState(false)
   const { toast } = useToast()
+  const { can } = useAuth()
 
   // Search and filters
   const [searchQuery, setSearchQuery] = useState('')
@@ -2174,7 +2176,7 @@ export default function Mods() {
                             </Badge>
                           ))}
                         </div>
-                        <Button onClick={handleWriteToIni} disabled={loading} size="sm">
+                        <Button onClick={handleWriteToIni} disabled={loading || !can('mods.write')} size="sm">
                           <FileText className="w-4 h-4 mr-2" />
                           Write to Server INI
                         </Button>
@@ -76,6 +76,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { useToast } from '@/components/ui/use-toast'
+import { useAuth } from '@/contexts/AuthContext'
 import { EmptyState } from '@/components/EmptyState'
 import { playersApi } from '@/lib/api'
 import { PageHeader } from '@/components/PageHeader'
@@ -107,6 +108,7 @@ export default function Players() {
   const [loading, setLoading] = useState(false)
   const [initialLoading, setInitialLoading] = useState(true)
   const { toast } = useToast()
+  const { can } = useAuth()
 
   // Stats tracking
   const [peakPlayers, setPeakPlayers] = useState(0)
@@ -886,7 +888,7 @@ export default function Players() {
                   {/* Kick */}
                   <Dialog open={kickDialogOpen} onOpenChange={setKickDialogOpen}>
                     <DialogTrigger asChild>
-                      <Button variant="outline" disabled={!selectedPlayer} className="h-auto py-3 flex-col gap-1">
+                      <Button variant="outline" disabled={!selectedPlayer || !can('players.moderate')} className="h-auto py-3 flex-col gap-1">
                         <UserX className="w-5 h-5" />
                         <span className="text-xs">Kick</span>
                       </Button>
@@ -920,7 +922,7 @@ export default function Players() {
                   {/* Ban */}
                   <Dialog open={banDialogOpen} onOpenChange={setBanDialogOpen}>
                     <DialogTrigger asChild>
-                      <Button variant="outline" disabled={!selectedPlayer} className="h-auto py-3 flex-col gap-1 hover:border-destructive hover:text-destructive">
+                      <Button variant="outline" disabled={!selectedPlayer || !can('players.moderate')} className="h-auto py-3 flex-col gap-1 hover:border-destructive hover:text-destructive">
                         <Ban className="w-5 h-5" />
                         <span className="text-xs">Ban</span>
                       </Button>
@@ -991,7 +993,7 @@ export default function Players() {
                   {/* Unban */}
                   <Dialog open={unbanDialogOpen} onOpenChange={setUnbanDialogOpen}>
                     <DialogTrigger asChild>
-                      <Button variant="outline" className="h-auto py-3 flex-col gap-1">
+                      <Button variant="outline" disabled={!can('players.moderate')} className="h-auto py-3 flex-col gap-1">
                         <UserPlus className="w-5 h-5" />
                         <span className="text-xs">Unban</span>
                       </Button>
@@ -10,7 +10,10 @@ import {
   XCircle,
   RefreshCw,
   Play,
-  Loader2
+  Loader2,
+  MinusCircle,
+  Hourglass,
+  CalendarX
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { PageHeader } from '@/components/PageHeader'
@@ -42,25 +45,76 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { useToast } from '@/components/ui/use-toast'
-import { schedulerApi, rconApi, ScheduleHistoryEntry } from '@/lib/api'
+import { schedulerApi, rconApi, ScheduleHistoryEntry, ConsoleMacro, MACRO_PREFIX, macroUsage, PipelineStep, describePipelineStep, TaskConditions, describeTaskCondition, OneOffSchedule, CatchUpPolicy } from '@/lib/api'
 import { EmptyState } from '@/components/EmptyState'
+import { RestartPolicyCard } from '@/components/RestartPolicyCard'
+import { ScheduleCalendar } from '@/components/ScheduleCalendar'
+import { PipelineStepsEditor, PipelineStepDraft, EMPTY_PIPELINE_STEP, pipelineStepsFromDrafts } from '@/components/forms/PipelineStepsEditor'
+import { WorldEventFields, WorldEventDraft, EMPTY_WORLD_EVENT, worldEventFromDraft } from '@/components/forms/WorldEventFields'
+import { TaskConditionsEditor, TaskConditionsDraft, EMPTY_CONDITIONS, taskConditionsFromDraft } from '@/components/forms/TaskConditionsEditor'
 
 interface ScheduledTask {
   id: number
   name: string
-  cron_expression: string
+  // Null for one-off tasks, which run once at run_at
+  cron_expression: string | null
+  run_at?: string | null
+  timezone?: string | null
+  missed_grace_minutes?: number | null
+  catch_up?: CatchUpPolicy
   command: string
+  // Set for pipeline tasks, which run these instead of the command
+  steps?: PipelineStep[] | null
+  // Checked before each scheduled run
+  conditions?: TaskConditions | null
   enabled: number
   last_run: string | null
   created_at: string
 }
 
+const UNMET_LABELS: Record<TaskConditions['onUnmet'], string> = {
+  skip: 'otherwise skip',
+  delay: 'otherwise wait, then skip',
+  delayThenRun: 'otherwise wait, then run',
+}
+
+const CATCH_UP_LABELS: Record<CatchUpPolicy, string> = {
+  skip: 'Skip missed runs',
+  once: 'Run once to catch up',
+  all: 'Run every missed run',
+}
+
+// Restart tasks, or pipelines with a restart step
+function isRestartTask(task: ScheduledTask): boolean {
+  return task.steps?.length
+    ? task.steps.some(step => step.type === 'restart')
+    : task.command.toLowerCase() === 'restart'
+}
+
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+// When a one-off task runs, as its own time zone shows it
+function formatRunAt(task: ScheduledTask): string {
+  const timeZone = task.timezone || BROWSER_TIME_ZONE
+  const text = new Date(task.run_at!).toLocaleString([], {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+  return timeZone === BROWSER_TIME_ZONE ? text : `${text} (${timeZone})`
+}
+
 interface CronPreset {
   name: string
   cron: string
@@ -70,6 +124,7 @@ export default function Scheduler() {
   const [tasks, setTasks] = useState<ScheduledTask[]>([])
   const [history, setHistory] = useState<ScheduleHistoryEntry[]>([])
   const [presets, setPresets] = useState<CronPreset[]>([])
+  const [macros, setMacros] = useState<ConsoleMacro[]>([])
   const [status, setStatus] = useState<{
     activeTasks: number
     autoRestartEnabled: boolean
@@ -83,14 +138,23 @@ export default function Scheduler() {
   const [newTaskName, setNewTaskName] = useState('')
   const [newTaskCron, setNewTaskCron] = useState('')
   const [newTaskCommand, setNewTaskCommand] = useState('')
+  const [newTaskKind, setNewTaskKind] = useState<'command' | 'pipeline' | 'event'>('command')
+  const [newTaskEvent, setNewTaskEvent] = useState<WorldEventDraft>(EMPTY_WORLD_EVENT)
+  const [newTaskSteps, setNewTaskSteps] = useState<PipelineStepDraft[]>([{ ...EMPTY_PIPELINE_STEP }])
+  const [newTaskHasConditions, setNewTaskHasConditions] = useState(false)
+  const [newTaskConditions, setNewTaskConditions] = useState<TaskConditionsDraft>(EMPTY_CONDITIONS)
+  const [newTaskCatchUp, setNewTaskCatchUp] = useState<CatchUpPolicy>('skip')
   const [dialogOpen, setDialogOpen] = useState(false)
   
   // Simple Scheduler State
-  const [scheduleMode, setScheduleMode] = useState<'simple' | 'advanced'>('simple')
+  const [scheduleMode, setScheduleMode] = useState<'simple' | 'advanced' | 'once'>('simple')
   const [simpleIntervalType, setSimpleIntervalType] = useState<'hourly' | 'daily' | 'interval'>('daily')
   const [simpleHour, setSimpleHour] = useState('06')
   const [simpleMinute, setSimpleMinute] = useState('00')
   const [simpleHoursInterval, setSimpleHoursInterval] = useState('4')
+  const [onceAt, setOnceAt] = useState('')
+  const [onceTimeZone, setOnceTimeZone] = useState(BROWSER_TIME_ZONE)
+  const [onceGraceMinutes, setOnceGraceMinutes] = useState('15')
 
   // Restart form
   const [restartMinutes, setRestartMinutes] = useState(5)
@@ -110,6 +174,10 @@ export default function Scheduler() {
     } catch (error) {
       console.error('Failed to fetch scheduler data:', error)
     }
+    // Console macros can be picked as a task command
+    rconApi.getMacros()
+      .then(data => setMacros(data.macros || []))
+      .catch(error => console.error('Failed to fetch macros:', error))
   }, [])
 
   useEffect(() => {
@@ -138,7 +206,8 @@ export default function Scheduler() {
       }
     }
 
-    if (!newTaskName || !cronToUse || !newTaskCommand) {
+    const once = scheduleMode === 'once'
+    if (!newTaskName || (once ? !onceAt : !cronToUse) || (newTaskKind === 'command' && !newTaskCommand)) {
       toast({
         title: 'Error',
         description: 'Please fill in all fields',
@@ -148,7 +217,7 @@ export default function Scheduler() {
     }
 
     // Validate cron expression
-    if (!isValidCron(cronToUse)) {
+    if (!once && !isValidCron(cronToUse)) {
       toast({
         title: 'Invalid Schedule',
         description: `Invalid cron expression: ${cronToUse}`,
@@ -159,7 +228,21 @@ export default function Scheduler() {
 
     setLoading(true)
     try {
-      await schedulerApi.createTask(newTaskName, cronToUse, newTaskCommand)
+      const conditions = newTaskHasConditions ? taskConditionsFromDraft(newTaskConditions) : null
+      const oneOff: OneOffSchedule | undefined = once
+        ? { runAt: onceAt, timezone: onceTimeZone.trim(), missedGraceMinutes: Number(onceGraceMinutes) || 0 }
+        : undefined
+      const cronExpression = once ? '' : cronToUse
+      const catchUp = once ? undefined : newTaskCatchUp
+      if (newTaskKind === 'pipeline') {
+        await schedulerApi.createTask(newTaskName, cronExpression, '', pipelineStepsFromDrafts(newTaskSteps), conditions, oneOff, catchUp)
+      } else if (newTaskKind === 'event') {
+        // A world event task is a pipeline with the event as its only step
+        const steps = [{ type: 'event' as const, ...worldEventFromDraft(newTaskEvent), onFailure: 'stop' as const }]
+        await schedulerApi.createTask(newTaskName, cronExpression, '', steps, conditions, oneOff, catchUp)
+      } else {
+        await schedulerApi.createTask(newTaskName, cronExpression, newTaskCommand, undefined, conditions, oneOff, catchUp)
+      }
       toast({
         title: 'Success',
         description: 'Task created successfully',
@@ -167,7 +250,13 @@ export default function Scheduler() {
       })
       setNewTaskName('')
       setNewTaskCron('')
+      setOnceAt('')
       setNewTaskCommand('')
+      setNewTaskSteps([{ ...EMPTY_PIPELINE_STEP }])
+      setNewTaskEvent(EMPTY_WORLD_EVENT)
+      setNewTaskHasConditions(false)
+      setNewTaskConditions(EMPTY_CONDITIONS)
+      setNewTaskCatchUp('skip')
       setDialogOpen(false)
       fetchData()
     } catch (error) {
@@ -187,7 +276,8 @@ export default function Scheduler() {
       await schedulerApi.updateTask(
         task.id,
         task.name,
-        task.cron_expression,
+        // One-off tasks keep their run time
+        task.cron_expression ?? '',
         task.command,
         !task.enabled
       )
@@ -208,6 +298,22 @@ export default function Scheduler() {
     }
   }
 
+  const handleCatchUpChange = async (task: ScheduledTask, catchUp: CatchUpPolicy) => {
+    setLoading(true)
+    try {
+      await schedulerApi.updateTask(task.id, task.name, task.cron_expression ?? '', task.command, !!task.enabled, undefined, undefined, catchUp)
+      fetchData()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update task',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleDeleteTask = async (taskId: number) => {
     setLoading(true)
     try {
@@ -233,6 +339,24 @@ export default function Scheduler() {
     if (runningTaskId !== null) return // Prevent double-click
     setRunningTaskId(task.id)
     try {
+      if (task.steps?.length) {
+        // Pipelines run in the background - each step shows up in the history
+        await schedulerApi.runTask(task.id)
+        toast({
+          title: 'Task Started',
+          description: `"${task.name}" is running ${task.steps.length} step(s)`,
+        })
+        return
+      }
+      if (task.command.startsWith(MACRO_PREFIX)) {
+        // Runs in the background - its steps show up on the Console page
+        const started = await rconApi.runMacro(task.command)
+        toast({
+          title: 'Macro Started',
+          description: `"${task.name}" started ${MACRO_PREFIX}${started.macro} (${started.steps} step(s))`,
+        })
+        return
+      }
       const result = await rconApi.execute(task.command)
       if (result.success) {
         toast({
@@ -363,11 +487,11 @@ export default function Scheduler() {
             </DialogTrigger>
           }
         />
-        <DialogContent>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create Scheduled Task</DialogTitle>
               <DialogDescription>
-                Schedule a command to run automatically
+                Schedule a command, or several steps in a row, to run automatically
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
@@ -382,9 +506,10 @@ export default function Scheduler() {
               <div>
                 <Label className="mb-2 block">Schedule Type</Label>
                 <Tabs value={scheduleMode} onValueChange={(v: any) => setScheduleMode(v)} className="w-full">
-                  <TabsList className="grid w-full grid-cols-2">
+                  <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="simple">Simple Builder</TabsTrigger>
                     <TabsTrigger value="advanced">Advanced (Cron)</TabsTrigger>
+                    <TabsTrigger value="once">Once</TabsTrigger>
                   </TabsList>
                   
                   <TabsContent value="simple" className="space-y-4 pt-4 border rounded-md p-4 mt-0 border-t-0 rounded-t-none">
@@ -483,29 +608,132 @@ export default function Scheduler() {
                       Format: minute hour day month weekday
                     </p>
                   </TabsContent>
+
+                  <TabsContent value="once" className="space-y-3 pt-4 border rounded-md p-4 mt-0 border-t-0 rounded-t-none">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Date and Time</Label>
+                        <Input
+                          type="datetime-local"
+                          value={onceAt}
+                          onChange={e => setOnceAt(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Time Zone</Label>
+                        <Input
+                          value={onceTimeZone}
+                          onChange={e => setOnceTimeZone(e.target.value)}
+                          placeholder="Europe/Berlin"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Label className="text-xs text-muted-foreground">If the panel is down then, still run it up to</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1440}
+                        value={onceGraceMinutes}
+                        onChange={e => setOnceGraceMinutes(e.target.value)}
+                        className="w-20 h-8 text-xs"
+                      />
+                      <Label className="text-xs text-muted-foreground">min late</Label>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      The task runs once and is then switched off. Later than that it is recorded as missed.
+                    </p>
+                  </TabsContent>
                 </Tabs>
               </div>
-              <div>
-                <Label>Command</Label>
-                <Select onValueChange={(value) => setNewTaskCommand(value)}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select common command..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {commonCommands.map((cmd) => (
-                      <SelectItem key={cmd.value} value={cmd.value}>
-                        {cmd.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <Input
-                  className="mt-2"
-                  value={newTaskCommand}
-                  onChange={(e) => setNewTaskCommand(e.target.value)}
-                  placeholder="Or enter custom command"
-                />
+              <Tabs value={newTaskKind} onValueChange={(v) => setNewTaskKind(v as 'command' | 'pipeline' | 'event')} className="w-full">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="command">Single Command</TabsTrigger>
+                  <TabsTrigger value="pipeline">Steps</TabsTrigger>
+                  <TabsTrigger value="event">World Event</TabsTrigger>
+                </TabsList>
+                <TabsContent value="event" className="pt-2">
+                  <WorldEventFields draft={newTaskEvent} onChange={setNewTaskEvent} />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Combine events with messages and waits under Steps, e.g. fog, then a horde, then a storm.
+                  </p>
+                </TabsContent>
+                <TabsContent value="pipeline" className="pt-2">
+                  <PipelineStepsEditor steps={newTaskSteps} onChange={setNewTaskSteps} />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Steps run one after another. Each step's result is recorded in the execution history.
+                  </p>
+                </TabsContent>
+                <TabsContent value="command" className="pt-2">
+                  <div>
+                    <Label>Command</Label>
+                    <Select onValueChange={(value) => setNewTaskCommand(value)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select common command..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {commonCommands.map((cmd) => (
+                          <SelectItem key={cmd.value} value={cmd.value}>
+                            {cmd.label}
+                          </SelectItem>
+                        ))}
+                        {macros.length > 0 && (
+                          <SelectGroup>
+                            <SelectLabel>Macros</SelectLabel>
+                            {macros.map((macro) => (
+                              <SelectItem key={macro.id} value={`${MACRO_PREFIX}${macro.name}`}>
+                                {macroUsage(macro)}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="mt-2"
+                      value={newTaskCommand}
+                      onChange={(e) => setNewTaskCommand(e.target.value)}
+                      placeholder="Or enter custom command"
+                    />
+                    {newTaskCommand.startsWith(MACRO_PREFIX) && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Add the macro's parameters after its name, e.g. {MACRO_PREFIX}warn 5 or {MACRO_PREFIX}warn minutes=5
+                      </p>
+                    )}
+                  </div>
+                </TabsContent>
+              </Tabs>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Switch checked={newTaskHasConditions} onCheckedChange={setNewTaskHasConditions} />
+                  <Label>Conditions</Label>
+                </div>
+                {newTaskHasConditions ? (
+                  <TaskConditionsEditor conditions={newTaskConditions} onChange={setNewTaskConditions} />
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Hold the task back, e.g. while players are online or until mods have updates
+                  </p>
+                )}
               </div>
+              {scheduleMode !== 'once' && (
+                <div className="space-y-2">
+                  <Label>If the panel was down when it was due</Label>
+                  <Select value={newTaskCatchUp} onValueChange={(value) => setNewTaskCatchUp(value as CatchUpPolicy)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CATCH_UP_LABELS) as CatchUpPolicy[]).map(policy => (
+                        <SelectItem key={policy} value={policy}>{CATCH_UP_LABELS[policy]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Missed runs are found when the panel starts and recorded in the execution history
+                  </p>
+                </div>
+              )}
             </div>
             <DialogFooter>
               <Button onClick={handleCreateTask} disabled={loading}>
@@ -541,10 +769,10 @@ export default function Scheduler() {
           </CardHeader>
           <CardContent>
             <span className="text-2xl font-bold">
-              {tasks.filter(t => t.enabled && t.command.toLowerCase() === 'restart').length > 0 ? 'Scheduled' : 'None'}
+              {tasks.filter(t => t.enabled && isRestartTask(t)).length > 0 ? 'Scheduled' : 'None'}
             </span>
             <p className="text-xs text-muted-foreground mt-1">
-              {tasks.filter(t => t.command.toLowerCase() === 'restart').length} restart task(s)
+              {tasks.filter(isRestartTask).length} restart task(s)
             </p>
           </CardContent>
         </Card>
@@ -567,6 +795,8 @@ export default function Scheduler() {
         </Card>
       </div>
 
+      <ScheduleCalendar refreshKey={tasks} />
+
       {/* Manual Restart */}
       <Card>
         <CardHeader>
@@ -638,11 +868,13 @@ export default function Scheduler() {
             </Button>
           </div>
           <p className="text-sm text-muted-foreground">
-            Players will receive countdown warnings at 15m, 10m, 5m, and 1m before restart.
+            Players are warned using the restart policy's warnings below.
           </p>
         </CardContent>
       </Card>
 
+      <RestartPolicyCard onSaved={fetchData} />
+
       {/* Maintenance Mode */}
       <Card>
         <CardHeader>
@@ -715,17 +947,58 @@ export default function Scheduler() {
                         <div className="flex items-center gap-3">
                           <h3 className="font-medium">{task.name}</h3>
                           <code className="text-xs bg-muted px-2 py-0.5 rounded">
-                            {task.cron_expression}
+                            {task.run_at ? `once · ${formatRunAt(task)}` : task.cron_expression}
                           </code>
                         </div>
-                        <p className="text-sm text-muted-foreground mt-1">
-                          Command: <code className="text-primary">{task.command}</code>
-                        </p>
+                        {task.steps?.length ? (
+                          <ol className="text-sm text-muted-foreground mt-1 space-y-0.5">
+                            {task.steps.map((step, index) => (
+                              <li key={index}>
+                                {index + 1}. <code className="text-primary">{describePipelineStep(step)}</code>
+                                {step.onFailure !== 'stop' && (
+                                  <span className="ml-2 text-xs">
+                                    ({step.onFailure === 'retry' ? `retry ${step.retries}x` : 'continue on failure'})
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        ) : (
+                          <p className="text-sm text-muted-foreground mt-1">
+                            Command: <code className="text-primary">{task.command}</code>
+                          </p>
+                        )}
+                        {task.conditions && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            When: {task.conditions.rules.map(describeTaskCondition).join(', ')}
+                            {' - '}{UNMET_LABELS[task.conditions.onUnmet]}
+                            {task.conditions.onUnmet !== 'skip' && ` (up to ${task.conditions.maxDelayMinutes} min)`}
+                          </p>
+                        )}
                         {task.last_run && (
                           <p className="text-xs text-muted-foreground mt-1">
                             Last run: {new Date(task.last_run).toLocaleString()}
                           </p>
                         )}
+                        {!task.run_at && (
+                          <div className="flex items-center gap-2 mt-1">
+                            <span className="text-xs text-muted-foreground">Missed while the panel was down:</span>
+                            <Select
+                              value={task.catch_up ?? 'skip'}
+                              onValueChange={(value) => handleCatchUpChange(task, value as CatchUpPolicy)}
+                              disabled={loading}
+                            >
+                              <SelectTrigger className="h-7 w-48 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(CATCH_UP_LABELS) as CatchUpPolicy[]).map(policy => (
+                                  <SelectItem key={policy} value={policy}>{CATCH_UP_LABELS[policy]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         <Button
@@ -860,7 +1133,13 @@ export default function Scheduler() {
                   >
                     <div className="flex items-start justify-between">
                       <div className="flex items-center gap-2">
-                        {entry.success ? (
+                        {entry.outcome === 'skipped' ? (
+                          <MinusCircle className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                        ) : entry.outcome === 'missed' ? (
+                          <CalendarX className="w-4 h-4 text-destructive flex-shrink-0" />
+                        ) : entry.success && entry.outcome ? (
+                          <Hourglass className="w-4 h-4 text-yellow-500 flex-shrink-0" />
+                        ) : entry.success ? (
                           <CheckCircle2 className="w-4 h-4 text-green-500 flex-shrink-0" />
                         ) : (
                           <XCircle className="w-4 h-4 text-destructive flex-shrink-0" />
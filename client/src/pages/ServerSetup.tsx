@@ -25,7 +25,7 @@ import {
   Info,
   ArrowRight
 } from 'lucide-react'
-import { configApi, serverApi, serversApi } from '@/lib/api'
+import { configApi, serverApi, serversApi, PlatformInfo } from '@/lib/api'
 import { useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -67,6 +67,22 @@ interface InstallLog {
 
 type SetupMode = 'select' | 'full' | 'quick'
 
+// Assumed until the panel reports its platform
+const WINDOWS_PLATFORM: PlatformInfo = {
+  platform: 'win32',
+  isWindows: true,
+  startScript: 'StartServer64.bat',
+  startScriptExtension: '.bat',
+  steamcmdExecutable: 'steamcmd.exe',
+  steamcmdDownloadUrl: 'https://steamcdn-a.akamaihd.net/client/installer/steamcmd.zip',
+  folderPicker: true,
+  examplePaths: {
+    steamcmd: 'C:\\SteamCMD',
+    install: 'C:\\PZServer',
+    data: 'D:\\PZServerData',
+  },
+}
+
 // Generate a random password
 function generatePassword(length = 12): string {
   const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
@@ -89,13 +105,14 @@ function formatBytes(bytes: number): string {
 export default function ServerSetup() {
   const [setupMode, setSetupMode] = useState<SetupMode>('select')
   const [currentStep, setCurrentStep] = useState(1)
+  const [platform, setPlatform] = useState<PlatformInfo>(WINDOWS_PLATFORM)
   
   // Step 1: Prerequisites
-  const [steamCmdPath, setSteamCmdPath] = useState('C:\\SteamCMD')
+  const [steamCmdPath, setSteamCmdPath] = useState(WINDOWS_PLATFORM.examplePaths.steamcmd)
   const [hasSteamCmd, setHasSteamCmd] = useState(false)
   
   // Step 2: Server Config
-  const [installPath, setInstallPath] = useState('C:\\PZServer')
+  const [installPath, setInstallPath] = useState(WINDOWS_PLATFORM.examplePaths.install)
   const [serverName, setServerName] = useState('myserver')
   const [branch, setBranch] = useState('public')
   const [availableBranches, setAvailableBranches] = useState<Array<{name: string, description: string, buildId?: string | null}>>([
@@ -172,6 +189,17 @@ export default function ServerSetup() {
     handleAutoDetectRam()
   }, [])
 
+  // Use paths that fit the panel's platform unless they were already changed
+  useEffect(() => {
+    serverApi.getPlatform()
+      .then(info => {
+        setPlatform(info)
+        setSteamCmdPath(current => current === WINDOWS_PLATFORM.examplePaths.steamcmd ? info.examplePaths.steamcmd : current)
+        setInstallPath(current => current === WINDOWS_PLATFORM.examplePaths.install ? info.examplePaths.install : current)
+      })
+      .catch(() => { /* keep Windows defaults */ })
+  }, [])
+
   // Load saved settings
   useEffect(() => {
     const loadSettings = async () => {
@@ -354,6 +382,10 @@ export default function ServerSetup() {
   }
 
   const handleBrowseFolder = async (setter: (path: string) => void, description: string, currentPath?: string) => {
+    if (!platform.folderPicker) {
+      toast({ title: 'Type the path instead', description: 'The folder picker is only available when the panel runs on Windows' })
+      return
+    }
     try {
       const result = await serverApi.browseFolder(currentPath, description)
       if (result.success && result.path) {
@@ -714,7 +746,7 @@ export default function ServerSetup() {
                     <Input
                       value={steamCmdPath}
                       onChange={(e) => setSteamCmdPath(e.target.value)}
-                      placeholder="C:\SteamCMD"
+                      placeholder={platform.examplePaths.steamcmd}
                       className="font-mono flex-1"
                       disabled={downloadingSteamCmd}
                     />
@@ -773,14 +805,14 @@ export default function ServerSetup() {
                     <p className="font-medium text-amber-600 dark:text-amber-400">Manual Setup Instructions:</p>
                     <ol className="list-decimal list-inside space-y-1 text-muted-foreground mt-2">
                       <li>Download SteamCMD from Valve</li>
-                      <li>Extract to a folder (e.g., <code className="bg-muted px-1 rounded">C:\SteamCMD</code>)</li>
-                      <li>Run <code className="bg-muted px-1 rounded">steamcmd.exe</code> once to update</li>
+                      <li>Extract to a folder (e.g., <code className="bg-muted px-1 rounded">{platform.examplePaths.steamcmd}</code>)</li>
+                      <li>Run <code className="bg-muted px-1 rounded">{platform.steamcmdExecutable}</code> once to update</li>
                     </ol>
                     <Button 
                       variant="outline" 
                       size="sm" 
                       className="mt-3"
-                      onClick={() => window.open('https://steamcdn-a.akamaihd.net/client/installer/steamcmd.zip', '_blank')}
+                      onClick={() => window.open(platform.steamcmdDownloadUrl, '_blank')}
                     >
                       <Download className="w-4 h-4 mr-2" />
                       Download SteamCMD
@@ -792,7 +824,7 @@ export default function ServerSetup() {
                     <Input
                       value={steamCmdPath}
                       onChange={(e) => setSteamCmdPath(e.target.value)}
-                      placeholder="C:\SteamCMD"
+                      placeholder={platform.examplePaths.steamcmd}
                       className="font-mono flex-1"
                     />
                     <Button
@@ -850,7 +882,7 @@ export default function ServerSetup() {
             <Input
               value={installPath}
               onChange={(e) => setInstallPath(e.target.value)}
-              placeholder="C:\PZServer"
+              placeholder={platform.examplePaths.install}
               className="font-mono flex-1"
             />
             <TooltipProvider>
@@ -933,7 +965,7 @@ export default function ServerSetup() {
                     <Input
                       value={zomboidDataPath}
                       onChange={(e) => setZomboidDataPath(e.target.value)}
-                      placeholder="D:\PZServerData"
+                      placeholder={platform.examplePaths.data}
                       className="font-mono flex-1"
                     />
                     <Button
@@ -1369,7 +1401,7 @@ export default function ServerSetup() {
             <div className="space-y-1">
               <p className="font-medium">Using existing files</p>
               <p className="text-sm text-muted-foreground">
-                The folder should contain <code className="bg-muted px-1 rounded">StartServer64.bat</code> and the <code className="bg-muted px-1 rounded">java</code> folder.
+                The folder should contain <code className="bg-muted px-1 rounded">{platform.startScript}</code> and the <code className="bg-muted px-1 rounded">java</code> folder.
               </p>
             </div>
           </div>
@@ -1382,7 +1414,7 @@ export default function ServerSetup() {
           <Input
             value={installPath}
             onChange={(e) => setInstallPath(e.target.value)}
-            placeholder="D:\PZServer"
+            placeholder={platform.examplePaths.install}
             className="font-mono flex-1"
           />
           <TooltipProvider>
@@ -1575,7 +1607,7 @@ export default function ServerSetup() {
                   <Input
                     value={zomboidDataPath}
                     onChange={(e) => setZomboidDataPath(e.target.value)}
-                    placeholder="D:\PZServerData"
+                    placeholder={platform.examplePaths.data}
                     className="font-mono flex-1"
                   />
                   <Button
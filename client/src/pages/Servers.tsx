@@ -19,7 +19,10 @@ import {
   Info,
   Globe,
   Monitor,
-  Wifi
+  Wifi,
+  Cpu,
+  PlugZap,
+  Copy
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -68,6 +71,9 @@ import { serversApi, ServerInstance, configApi, serverApi } from '@/lib/api'
 import { SocketContext } from '@/contexts/SocketContext'
 import { useNavigate } from 'react-router-dom'
 import { PageHeader } from '@/components/PageHeader'
+import { LaunchProfileDialog } from '@/components/forms/LaunchProfileDialog'
+import { AgentSettingsFields } from '@/components/forms/AgentSettingsFields'
+import { CloneServerDialog } from '@/components/forms/CloneServerDialog'
 
 interface DetectedServerConfig {
   dataPath: string
@@ -133,6 +139,8 @@ interface NewServerForm {
   useNoSteam: boolean
   useDebug: boolean
   isRemote: boolean
+  agentUrl: string
+  agentToken: string
 }
 
 const defaultNewServer: NewServerForm = {
@@ -149,13 +157,17 @@ const defaultNewServer: NewServerForm = {
   maxMemory: 4096,
   useNoSteam: false,
   useDebug: false,
-  isRemote: false
+  isRemote: false,
+  agentUrl: '',
+  agentToken: ''
 }
 
 export default function Servers() {
   const [servers, setServers] = useState<ServerInstance[]>([])
   const [loading, setLoading] = useState(true)
   const [editingServer, setEditingServer] = useState<ServerInstance | null>(null)
+  const [launchProfileServer, setLaunchProfileServer] = useState<ServerInstance | null>(null)
+  const [cloneServer, setCloneServer] = useState<ServerInstance | null>(null)
   const [deleteServer, setDeleteServer] = useState<ServerInstance | null>(null)
   const [deleteFiles, setDeleteFiles] = useState(false)
   const [deleting, setDeleting] = useState(false)
@@ -596,8 +608,8 @@ export default function Servers() {
   // Get clean install path (folder only, not batch file)
   const getInstallFolder = (installPath: string | undefined): string => {
     if (!installPath) return ''
-    // If path ends with .bat, get the parent folder
-    if (installPath.toLowerCase().endsWith('.bat')) {
+    // If path ends with a start script (.bat / .sh), get the parent folder
+    if (/\.(bat|sh)$/i.test(installPath)) {
       const lastSlash = Math.max(installPath.lastIndexOf('\\'), installPath.lastIndexOf('/'))
       return lastSlash > 0 ? installPath.substring(0, lastSlash) : installPath
     }
@@ -619,6 +631,10 @@ export default function Servers() {
         toast({ title: 'Error', description: 'RCON password is required', variant: 'destructive' })
         return
       }
+      if (newServer.agentUrl.trim() && !newServer.agentToken) {
+        toast({ title: 'Error', description: 'Agent token is required when an agent URL is set', variant: 'destructive' })
+        return
+      }
     } else {
       // Local server validation
       if (!selectedServerConfig) {
@@ -647,7 +663,10 @@ export default function Servers() {
         maxMemory: newServer.maxMemory,
         useNoSteam: newServer.useNoSteam,
         useDebug: newServer.useDebug,
-        isRemote: addMode === 'remote'
+        isRemote: addMode === 'remote',
+        ...(addMode === 'remote' && newServer.agentUrl.trim()
+          ? { agentUrl: newServer.agentUrl.trim(), agentToken: newServer.agentToken }
+          : {})
       } as Partial<ServerInstance>)
       
       toast({ title: 'Server Added', description: `"${newServer.name}" added to panel` })
@@ -751,6 +770,11 @@ export default function Servers() {
                           <Globe className="w-3 h-3 mr-1" /> Remote
                         </Badge>
                       )}
+                      {server.isRemote && server.agentUrl && (
+                        <Badge variant="outline" className="text-xs bg-green-500/10 text-green-500 border-green-500/30">
+                          <PlugZap className="w-3 h-3 mr-1" /> Agent
+                        </Badge>
+                      )}
                     </CardTitle>
                     <CardDescription className="font-mono text-xs">
                       {server.serverName}
@@ -767,6 +791,16 @@ export default function Servers() {
                       <DropdownMenuItem onClick={() => setEditingServer({ ...server })}>
                         <Edit2 className="w-4 h-4 mr-2" /> Edit
                       </DropdownMenuItem>
+                      {!server.isRemote && (
+                        <DropdownMenuItem onClick={() => setLaunchProfileServer(server)}>
+                          <Cpu className="w-4 h-4 mr-2" /> Launch Options
+                        </DropdownMenuItem>
+                      )}
+                      {(!server.isRemote || server.agentUrl) && (
+                        <DropdownMenuItem onClick={() => setCloneServer(server)}>
+                          <Copy className="w-4 h-4 mr-2" /> Clone
+                        </DropdownMenuItem>
+                      )}
                       {!server.isActive && (
                         <DropdownMenuItem onClick={() => handleActivateServer(server)}>
                           <Power className="w-4 h-4 mr-2" /> Set Active
@@ -892,6 +926,9 @@ export default function Servers() {
                   will be unavailable. You'll be able to use the console, manage players, send chat messages, 
                   control weather/events, and run scheduled commands.
                 </p>
+                <p className="text-muted-foreground mt-1">
+                  Connect a panel agent below to bring back config editing, mods, chunks and backups.
+                </p>
               </div>
             </div>
           )}
@@ -900,13 +937,24 @@ export default function Servers() {
             {addMode === 'remote' ? (
               /* ========== REMOTE SERVER FORM ========== */
               <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label>Server Display Name *</Label>
-                  <Input
-                    value={newServer.name}
-                    onChange={e => setNewServer({ ...newServer, name: e.target.value })}
-                    placeholder="My Remote PZ Server"
-                  />
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Server Display Name *</Label>
+                    <Input
+                      value={newServer.name}
+                      onChange={e => setNewServer({ ...newServer, name: e.target.value })}
+                      placeholder="My Remote PZ Server"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Server Name</Label>
+                    <Input
+                      value={newServer.serverName}
+                      onChange={e => setNewServer({ ...newServer, serverName: e.target.value })}
+                      placeholder="servertest"
+                      className="font-mono text-sm"
+                    />
+                  </div>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4">
@@ -949,6 +997,11 @@ export default function Servers() {
                   />
                   <p className="text-xs text-muted-foreground">The PZ game port — used for display purposes only</p>
                 </div>
+
+                <AgentSettingsFields
+                  value={newServer}
+                  onChange={changes => setNewServer({ ...newServer, ...changes })}
+                />
               </div>
             ) : (
               /* ========== LOCAL SERVER FORM ========== */
@@ -1018,7 +1071,7 @@ export default function Servers() {
                               </div>
                             ) : autoScanResult.installPaths.length > 0 ? (
                               <div className="text-xs text-yellow-500 mt-1">
-                                ⚠ No matching .bat file - will use default install path
+                                ⚠ No matching start script - will use default install path
                               </div>
                             ) : (
                               <div className="text-xs text-orange-500 mt-1">
@@ -1035,7 +1088,7 @@ export default function Servers() {
                           <p>📁 Install paths found: {autoScanResult.installPaths.length}</p>
                         )}
                         {autoScanResult.customBatFiles && autoScanResult.customBatFiles.length > 0 && (
-                          <p>🎯 Custom .bat files: {autoScanResult.customBatFiles.map(b => b.fileName).join(', ')}</p>
+                          <p>🎯 Custom start scripts: {autoScanResult.customBatFiles.map(b => b.fileName).join(', ')}</p>
                         )}
                       </div>
                     </div>
@@ -1082,7 +1135,7 @@ export default function Servers() {
                 <Input
                   value={newServer.installPath}
                   onChange={e => setNewServer({ ...newServer, installPath: e.target.value })}
-                  placeholder="D:\Servers\ProjectZomboid (folder with StartServer64.bat)"
+                  placeholder="D:\Servers\ProjectZomboid (folder with StartServer64.bat or start-server.sh)"
                   className="font-mono text-sm"
                 />
               </div>
@@ -1249,7 +1302,9 @@ export default function Servers() {
               {editingServer.isRemote && (
                 <div className="flex items-center gap-2 p-3 rounded-lg bg-purple-500/10 border border-purple-500/20">
                   <Globe className="w-4 h-4 text-purple-500" />
-                  <span className="text-sm font-medium text-purple-600 dark:text-purple-400">Remote Server (RCON Only)</span>
+                  <span className="text-sm font-medium text-purple-600 dark:text-purple-400">
+                    {editingServer.agentUrl ? 'Remote Server (Agent)' : 'Remote Server (RCON Only)'}
+                  </span>
                 </div>
               )}
               
@@ -1270,6 +1325,20 @@ export default function Servers() {
                 </div>
               </div>
               
+              {editingServer.isRemote && (
+                <AgentSettingsFields
+                  value={{
+                    agentUrl: editingServer.agentUrl || '',
+                    agentToken: editingServer.agentToken || '',
+                    installPath: editingServer.installPath || '',
+                    zomboidDataPath: editingServer.zomboidDataPath || '',
+                    serverConfigPath: editingServer.serverConfigPath || ''
+                  }}
+                  onChange={changes => setEditingServer({ ...editingServer, ...changes })}
+                  serverId={editingServer.id}
+                />
+              )}
+              
               {!editingServer.isRemote && (
               <>
               <div className="space-y-2">
@@ -1427,6 +1496,20 @@ export default function Servers() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Launch Options Dialog */}
+      <LaunchProfileDialog
+        server={launchProfileServer}
+        onClose={() => setLaunchProfileServer(null)}
+        onSaved={fetchServers}
+      />
+
+      {/* Clone Dialog */}
+      <CloneServerDialog
+        server={cloneServer}
+        onClose={() => setCloneServer(null)}
+        onCloned={fetchServers}
+      />
+
       {/* Steam Update/Verify Dialog */}
       <Dialog open={!!steamOperation} onOpenChange={(open) => !open && !steamRunning && setSteamOperation(null)}>
         <DialogContent className="max-w-2xl">
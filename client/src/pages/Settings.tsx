@@ -22,7 +22,10 @@ import {
   RotateCcw,
   Settings2,
   Globe,
-  RotateCw
+  RotateCw,
+  Lock,
+  KeyRound,
+  Copy
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { PageHeader } from '@/components/PageHeader'
@@ -30,6 +33,8 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -42,7 +47,8 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
 import { useToast } from '@/components/ui/use-toast'
-import { configApi, panelBridgeApi, backupApi, serversApi, serverApi, BackupStatus, BackupFile, ServerInstance } from '@/lib/api'
+import { configApi, panelBridgeApi, backupApi, serversApi, serverApi, authApi, tokensApi, BackupStatus, BackupFile, ServerInstance, ApiToken, ApiTokenScope } from '@/lib/api'
+import { useAuth } from '@/contexts/AuthContext'
 import { useSocket } from '@/contexts/SocketContext'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import {
@@ -90,6 +96,24 @@ export default function Settings() {
   const [testingRcon, setTestingRcon] = useState(false)
   const [restarting, setRestarting] = useState(false)
   const { toast } = useToast()
+  const { user, can } = useAuth()
+  
+  // Panel login state
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [changingPassword, setChangingPassword] = useState(false)
+  
+  // API token state
+  const canManageTokens = can('tokens.manage')
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([])
+  const [tokenScopes, setTokenScopes] = useState<Partial<Record<ApiTokenScope, string>>>({})
+  const [newTokenName, setNewTokenName] = useState('')
+  const [newTokenScopes, setNewTokenScopes] = useState<ApiTokenScope[]>(['status:read'])
+  const [newTokenExpiryDays, setNewTokenExpiryDays] = useState('90')
+  const [creatingToken, setCreatingToken] = useState(false)
+  const [createdTokenSecret, setCreatedTokenSecret] = useState<string | null>(null)
+  const [revokeTarget, setRevokeTarget] = useState<ApiToken | null>(null)
   
   // Panel Bridge state
   const [bridgeStatus, setBridgeStatus] = useState<{
@@ -246,6 +270,110 @@ export default function Settings() {
     }
   }
 
+  const handleChangePassword = async () => {
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: 'Passwords Do Not Match',
+        description: 'Please re-enter the new password',
+        variant: 'destructive',
+      })
+      return
+    }
+    setChangingPassword(true)
+    try {
+      await authApi.changePassword(currentPassword, newPassword)
+      setCurrentPassword('')
+      setNewPassword('')
+      setConfirmPassword('')
+      toast({
+        title: 'Password Changed',
+        description: 'Other sessions have been signed out',
+        variant: 'success' as const,
+      })
+    } catch (error) {
+      toast({
+        title: 'Password Change Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setChangingPassword(false)
+    }
+  }
+
+  // API token functions
+  const fetchApiTokens = useCallback(async () => {
+    try {
+      const [tokensData, scopesData] = await Promise.all([tokensApi.getAll(), tokensApi.getScopes()])
+      setApiTokens(tokensData.tokens)
+      setTokenScopes(scopesData.scopes)
+    } catch (error) {
+      console.error('Failed to fetch API tokens:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (canManageTokens) fetchApiTokens()
+  }, [canManageTokens, fetchApiTokens])
+
+  const toggleNewTokenScope = (scope: ApiTokenScope, checked: boolean) => {
+    setNewTokenScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope))
+  }
+
+  const handleCreateToken = async () => {
+    setCreatingToken(true)
+    try {
+      const expiresAt = newTokenExpiryDays === 'never'
+        ? null
+        : new Date(Date.now() + parseInt(newTokenExpiryDays, 10) * 86400000).toISOString()
+      const result = await tokensApi.create(newTokenName.trim(), newTokenScopes, expiresAt)
+      setCreatedTokenSecret(result.secret)
+      setNewTokenName('')
+      setNewTokenScopes(['status:read'])
+      fetchApiTokens()
+      toast({
+        title: 'API Token Created',
+        description: 'Copy it now - it will not be shown again',
+        variant: 'success' as const,
+      })
+    } catch (error) {
+      toast({
+        title: 'Failed to create API token',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setCreatingToken(false)
+    }
+  }
+
+  const handleCopyTokenSecret = async () => {
+    if (!createdTokenSecret) return
+    try {
+      await navigator.clipboard.writeText(createdTokenSecret)
+      toast({ title: 'Copied', description: 'API token copied to clipboard' })
+    } catch {
+      toast({ title: 'Copy failed', description: 'Select the token and copy it manually', variant: 'destructive' })
+    }
+  }
+
+  const handleRevokeToken = async () => {
+    if (!revokeTarget) return
+    try {
+      await tokensApi.revoke(revokeTarget.id)
+      toast({ title: 'API Token Revoked', description: revokeTarget.name, variant: 'success' as const })
+      fetchApiTokens()
+    } catch (error) {
+      toast({
+        title: 'Failed to revoke API token',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setRevokeTarget(null)
+    }
+  }
+
   // Panel Bridge functions
   const fetchBridgeStatus = useCallback(async () => {
     try {
@@ -777,6 +905,213 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Panel Login */}
+      <Card className="card-interactive">
+        <CardHeader className="pb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-red-500/10 flex items-center justify-center">
+              <Lock className="w-5 h-5 text-red-400" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Panel Login</CardTitle>
+              <CardDescription className="mt-0.5">
+                Signed in as <strong>{user?.username}</strong>. Changing the password signs out all other sessions.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3 max-w-3xl">
+            <div>
+              <Label>Current Password</Label>
+              <Input
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>New Password</Label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="At least 8 characters"
+              />
+            </div>
+            <div>
+              <Label>Confirm New Password</Label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleChangePassword}
+            disabled={changingPassword || !currentPassword || !newPassword || !confirmPassword}
+            className="gap-2"
+          >
+            {changingPassword ? <Loader2 className="w-4 h-4 animate-spin" /> : <Key className="w-4 h-4" />}
+            Change Password
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* API Tokens */}
+      {canManageTokens && (
+        <Card className="card-interactive">
+          <CardHeader className="pb-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-violet-500/10 flex items-center justify-center">
+                <KeyRound className="w-5 h-5 text-violet-400" />
+              </div>
+              <div>
+                <CardTitle className="text-lg">API Tokens</CardTitle>
+                <CardDescription className="mt-0.5">
+                  For scripts and integrations. Send as <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>.
+                  A token can never do more than the role of the user who created it.
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {createdTokenSecret && (
+              <div className="p-3 rounded-lg border border-amber-500/50 bg-amber-500/10 space-y-2">
+                <p className="text-sm font-medium">Copy this token now - it will not be shown again</p>
+                <div className="flex gap-2">
+                  <Input readOnly value={createdTokenSecret} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="sm" onClick={handleCopyTokenSecret} className="gap-2">
+                    <Copy className="w-4 h-4" />
+                    Copy
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setCreatedTokenSecret(null)}>
+                    Done
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-4 max-w-3xl">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <Label>Name</Label>
+                  <Input
+                    value={newTokenName}
+                    onChange={(e) => setNewTokenName(e.target.value)}
+                    placeholder="e.g. Grafana, community website"
+                    maxLength={64}
+                  />
+                </div>
+                <div>
+                  <Label>Expires</Label>
+                  <Select value={newTokenExpiryDays} onValueChange={setNewTokenExpiryDays}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="30">In 30 days</SelectItem>
+                      <SelectItem value="90">In 90 days</SelectItem>
+                      <SelectItem value="365">In 1 year</SelectItem>
+                      <SelectItem value="never">Never</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Scopes</Label>
+                <div className="grid gap-2 sm:grid-cols-2 mt-2">
+                  {(Object.entries(tokenScopes) as [ApiTokenScope, string][]).map(([scope, description]) => (
+                    <label key={scope} className="flex items-start gap-2 p-2 rounded-md border cursor-pointer hover:bg-muted/30">
+                      <Checkbox
+                        checked={newTokenScopes.includes(scope)}
+                        onCheckedChange={(checked) => toggleNewTokenScope(scope, checked === true)}
+                        className="mt-0.5"
+                      />
+                      <div>
+                        <div className="font-mono text-xs">{scope}</div>
+                        <div className="text-xs text-muted-foreground">{description}</div>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <Button
+                onClick={handleCreateToken}
+                disabled={creatingToken || !newTokenName.trim() || newTokenScopes.length === 0}
+                className="gap-2"
+              >
+                {creatingToken ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+                Create Token
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {apiTokens.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No API tokens yet</p>
+              ) : (
+                apiTokens.map(token => (
+                  <div key={token.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border bg-muted/20">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{token.name}</span>
+                        <code className="text-xs text-muted-foreground">{token.prefix}…</code>
+                        {token.expired && <Badge variant="destructive">Expired</Badge>}
+                      </div>
+                      <div className="flex gap-1 flex-wrap">
+                        {token.scopes.map(scope => (
+                          <Badge key={scope} variant="secondary" className="font-mono text-[10px]">{scope}</Badge>
+                        ))}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Created by {token.createdBy ?? 'deleted user'} on {new Date(token.createdAt).toLocaleDateString()}
+                        {' · '}
+                        {token.expiresAt ? `Expires ${new Date(token.expiresAt).toLocaleDateString()}` : 'Never expires'}
+                        {' · '}
+                        {token.lastUsedAt
+                          ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ''}`
+                          : 'Never used'}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRevokeTarget(token)}
+                      className="text-destructive hover:text-destructive gap-2"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Revoke
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={revokeTarget !== null} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke API token?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anything using "{revokeTarget?.name}" will immediately lose access to the panel.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevokeToken} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* RCON Settings */}
       <Card className="card-interactive">
         <CardHeader className="pb-4">
@@ -1112,7 +1447,8 @@ export default function Settings() {
               </button>
             </div>
             <p className="text-sm text-muted-foreground">
-              Used for Steam Workshop mod information and server finder features.
+              Used for Steam Workshop mod information and server finder features. Stored encrypted - 
+              a saved key is shown masked, type a new one to replace it.
             </p>
             <div className="p-4 bg-muted rounded-lg text-sm mt-3">
               <p className="font-medium mb-2">How to get a Steam API Key:</p>
@@ -1377,14 +1713,20 @@ export default function Settings() {
         </CardHeader>
         <CardContent className="space-y-4 text-sm text-muted-foreground">
           <p>
-            <strong className="text-foreground">Local Access Only:</strong> This panel is designed 
-            for local use on the same machine as your server. Do not expose it to the internet 
-            without proper security measures.
+            <strong className="text-foreground">Panel Login:</strong> Every page, API call and live 
+            connection requires a signed-in session. Still, avoid exposing the panel to the internet 
+            without HTTPS in front of it.
           </p>
           <p>
             <strong className="text-foreground">RCON Security:</strong> Your RCON password is 
             stored locally and is never transmitted outside of the RCON connection to your server.
           </p>
+          <p>
+            <strong className="text-foreground">Stored Secrets:</strong> RCON passwords, the Discord 
+            bot token and the Steam API key are encrypted in the panel database with a key kept outside 
+            it (<code>data/secret.key</code> or <code>PANEL_SECRET_KEY</code>). Keep that key safe - backups 
+            of the database are unreadable without it. Rotate it with <code>npm run rotate-secret-key</code>.
+          </p>
           <p>
             <strong className="text-foreground">Admin Commands:</strong> Be careful with admin 
             commands. Some actions like banning or kicking players cannot be easily undone.
@@ -0,0 +1,383 @@
+import { useEffect, useState, useCallback } from 'react'
+import { UserCog, UserPlus, Trash2, KeyRound, Loader2, RefreshCw, Shield } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { PageHeader } from '@/components/PageHeader'
+import { EmptyState } from '@/components/EmptyState'
+import { usersApi, PanelUser, PanelRole, PanelRolesInfo } from '@/lib/api'
+import { useAuth } from '@/contexts/AuthContext'
+
+const ROLE_BADGES: Record<PanelRole, 'destructive' | 'warning' | 'success' | 'secondary'> = {
+  owner: 'destructive',
+  admin: 'warning',
+  moderator: 'success',
+  viewer: 'secondary',
+}
+
+const ROLE_DESCRIPTIONS: Record<PanelRole, string> = {
+  owner: 'Full access, including panel accounts',
+  admin: 'Everything except managing panel accounts',
+  moderator: 'Player moderation, world events, saves and backups',
+  viewer: 'Read-only access to every page',
+}
+
+export default function Users() {
+  const { user: currentUser } = useAuth()
+  const { toast } = useToast()
+  const [users, setUsers] = useState<PanelUser[]>([])
+  const [rolesInfo, setRolesInfo] = useState<PanelRolesInfo | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busyUserId, setBusyUserId] = useState<string | null>(null)
+
+  // Create dialog
+  const [createOpen, setCreateOpen] = useState(false)
+  const [newUsername, setNewUsername] = useState('')
+  const [newPassword, setNewPassword] = useState('')
+  const [newRole, setNewRole] = useState<PanelRole>('viewer')
+  const [creating, setCreating] = useState(false)
+
+  // Password reset dialog
+  const [resetUser, setResetUser] = useState<PanelUser | null>(null)
+  const [resetPassword, setResetPassword] = useState('')
+
+  // Delete confirmation
+  const [deleteUser, setDeleteUser] = useState<PanelUser | null>(null)
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const [usersData, roles] = await Promise.all([usersApi.getAll(), usersApi.getRoles()])
+      setUsers(usersData.users)
+      setRolesInfo(roles)
+    } catch (error) {
+      toast({
+        title: 'Failed to load users',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
+
+  const handleCreate = async () => {
+    setCreating(true)
+    try {
+      await usersApi.create(newUsername.trim(), newPassword, newRole)
+      toast({ title: 'User Created', description: `${newUsername} can now sign in`, variant: 'success' as const })
+      setCreateOpen(false)
+      setNewUsername('')
+      setNewPassword('')
+      setNewRole('viewer')
+      fetchUsers()
+    } catch (error) {
+      toast({
+        title: 'Failed to create user',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRoleChange = async (target: PanelUser, role: PanelRole) => {
+    setBusyUserId(target.id)
+    try {
+      await usersApi.update(target.id, { role })
+      toast({ title: 'Role Updated', description: `${target.username} is now ${role}`, variant: 'success' as const })
+      fetchUsers()
+    } catch (error) {
+      toast({
+        title: 'Failed to change role',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  const handleResetPassword = async () => {
+    if (!resetUser) return
+    setBusyUserId(resetUser.id)
+    try {
+      await usersApi.update(resetUser.id, { password: resetPassword })
+      toast({ title: 'Password Reset', description: `${resetUser.username} has been signed out`, variant: 'success' as const })
+      setResetUser(null)
+      setResetPassword('')
+    } catch (error) {
+      toast({
+        title: 'Failed to reset password',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setBusyUserId(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteUser) return
+    setBusyUserId(deleteUser.id)
+    try {
+      await usersApi.delete(deleteUser.id)
+      toast({ title: 'User Deleted', description: deleteUser.username, variant: 'success' as const })
+      fetchUsers()
+    } catch (error) {
+      toast({
+        title: 'Failed to delete user',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      })
+    } finally {
+      setBusyUserId(null)
+      setDeleteUser(null)
+    }
+  }
+
+  const roles = rolesInfo?.roles || (Object.keys(ROLE_DESCRIPTIONS) as PanelRole[])
+
+  return (
+    <div className="space-y-8 page-transition">
+      <PageHeader
+        title="Panel Users"
+        description="Accounts that can sign in to this control panel and what they may do"
+        icon={<UserCog className="w-5 h-5 text-primary" />}
+        actions={
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchUsers} className="gap-2">
+              <RefreshCw className="w-4 h-4" />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={() => setCreateOpen(true)} className="gap-2">
+              <UserPlus className="w-4 h-4" />
+              Add User
+            </Button>
+          </div>
+        }
+      />
+
+      <Card className="card-interactive">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg">Accounts</CardTitle>
+          <CardDescription>Role changes apply immediately to open sessions</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : users.length === 0 ? (
+            <EmptyState
+              type="noPlayers"
+              title="No users"
+              description="Add an account to give someone access to the panel"
+            />
+          ) : (
+            <div className="divide-y divide-border">
+              {users.map(u => (
+                <div key={u.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{u.username}</span>
+                      <Badge variant={ROLE_BADGES[u.role]}>{u.role}</Badge>
+                      {u.id === currentUser?.id && (
+                        <span className="text-xs text-muted-foreground">(you)</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      Last login: {u.lastLogin ? new Date(u.lastLogin).toLocaleString() : 'never'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={u.role}
+                      onValueChange={(value) => handleRoleChange(u, value as PanelRole)}
+                      disabled={busyUserId === u.id || u.id === currentUser?.id}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map(role => (
+                          <SelectItem key={role} value={role}>{role}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      title="Reset password"
+                      onClick={() => { setResetUser(u); setResetPassword('') }}
+                      disabled={busyUserId === u.id}
+                    >
+                      <KeyRound className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      title="Delete user"
+                      onClick={() => setDeleteUser(u)}
+                      disabled={busyUserId === u.id || u.id === currentUser?.id}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Role reference */}
+      <Card className="card-interactive">
+        <CardHeader className="pb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-red-500/10 flex items-center justify-center">
+              <Shield className="w-5 h-5 text-red-400" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Roles</CardTitle>
+              <CardDescription className="mt-0.5">Every role can view all pages; these are the actions it may perform</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          {roles.map(role => (
+            <div key={role} className="p-4 rounded-lg bg-muted/40 space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge variant={ROLE_BADGES[role]}>{role}</Badge>
+                <span className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</span>
+              </div>
+              {rolesInfo && (
+                <ul className="text-xs text-muted-foreground list-disc list-inside space-y-0.5">
+                  {rolesInfo.rolePermissions[role].length === 0 ? (
+                    <li>No actions</li>
+                  ) : (
+                    rolesInfo.rolePermissions[role].map(permission => (
+                      <li key={permission}>{rolesInfo.permissions[permission]}</li>
+                    ))
+                  )}
+                </ul>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Create user */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Panel User</DialogTitle>
+            <DialogDescription>The new user signs in with this username and password.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Username</Label>
+              <Input value={newUsername} onChange={(e) => setNewUsername(e.target.value)} placeholder="3-32 characters" />
+            </div>
+            <div className="space-y-2">
+              <Label>Password</Label>
+              <Input type="password" autoComplete="new-password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="At least 8 characters" />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={newRole} onValueChange={(value) => setNewRole(value as PanelRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(role => (
+                    <SelectItem key={role} value={role}>{role} — {ROLE_DESCRIPTIONS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={creating || !newUsername || !newPassword} className="gap-2">
+              {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset password */}
+      <Dialog open={resetUser !== null} onOpenChange={(open) => !open && setResetUser(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for <strong>{resetUser?.username}</strong>. Their other sessions will be signed out.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>New Password</Label>
+            <Input type="password" autoComplete="new-password" value={resetPassword} onChange={(e) => setResetPassword(e.target.value)} placeholder="At least 8 characters" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResetUser(null)}>Cancel</Button>
+            <Button onClick={handleResetPassword} disabled={!resetPassword || busyUserId !== null}>
+              Reset Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleteUser !== null} onOpenChange={(open) => !open && setDeleteUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteUser?.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The account and all of its sessions are removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
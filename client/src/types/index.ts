@@ -39,6 +39,54 @@ export interface RconCommand {
   success?: boolean
 }
 
+// Structured RCON results (POST /rcon/execute?structured=1)
+// Mirrors server/utils/rconParsers.js - failed commands are always kind 'message'
+export interface RconOption {
+  name: string
+  value: string | number | boolean
+}
+
+export interface RconResultDataMap {
+  message: { message: string }
+  players: { count: number; players: { name: string; online: boolean }[] }
+  options: { options: RconOption[] }
+  modCheck: { started: boolean; needsUpdate: boolean | null }
+  item: { username: string | null; item: string | null; count: number }
+  xp: { username: string | null; perk: string | null; amount: number | null }
+  vehicle: { vehicle: string | null; username: string | null }
+  moderation: {
+    action: 'kick' | 'ban' | 'unban' | 'banid' | 'unbanid' | 'voiceban' | 'voiceunban'
+    target: string | null
+    banIp?: boolean
+    reason: string | null
+  }
+  accessLevel: { username: string | null; accessLevel: string | null }
+  whitelist: { action: 'create' | 'add' | 'remove' | 'addAll'; username: string | null }
+  option: { name: string | null; value: string | number | boolean | null }
+  teleport: { player: string | null; target: string | null; coordinates: { x: number; y: number; z: number } | null }
+  adminMode: { mode: 'godmod' | 'invisible' | 'noclip'; username: string | null; enabled: boolean | null }
+}
+
+export type RconResultKind = keyof RconResultDataMap
+
+export type StructuredRconResult = {
+  [K in RconResultKind]: {
+    command: string
+    kind: K
+    success: boolean
+    error: string | null
+    message: string
+    data: RconResultDataMap[K]
+  }
+}[RconResultKind]
+
+export interface RconExecuteResult {
+  success: boolean
+  response?: string
+  error?: string
+  structured?: StructuredRconResult
+}
+
 export interface CommandHistory {
   id: number
   command: string
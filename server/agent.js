@@ -0,0 +1,90 @@
+import express from 'express';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+import { createLogger, logSection } from './utils/logger.js';
+const log = createLogger('Agent');
+import agentRoutes from './routes/agent.js';
+
+// ============================================
+// Panel Agent
+// ============================================
+//
+// Runs on the host of a remote server so the panel can reach its files
+// (config editing, mod ini writes, chunk cleaning, world backups and
+// PanelBridge) and start, stop and watch the server. Start it with `npm run agent` and add the agent's URL and
+// token to the server in the panel.
+//
+//   AGENT_TOKEN  shared secret the panel sends (required)
+//   AGENT_ROOTS  folders the panel may access, separated by `;` or `,`
+//                (required - usually the server install and Zomboid folders;
+//                start scripts must lie inside one of them too)
+//   AGENT_PORT   port to listen on (default 3002)
+
+dotenv.config();
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+function readVersion() {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '../package.json'), 'utf8')).version;
+  } catch {
+    return null;
+  }
+}
+
+// Roots are compared with real paths (see routes/agent.js), so a root given
+// through a symlink still matches the files below it
+function realpathOrResolve(root) {
+  try {
+    return fs.realpathSync(root);
+  } catch {
+    return path.resolve(root);
+  }
+}
+
+const token = process.env.AGENT_TOKEN;
+const roots = (process.env.AGENT_ROOTS || '')
+  .split(/[;,]/)
+  .map(root => root.trim())
+  .filter(Boolean)
+  .map(root => realpathOrResolve(root));
+const port = parseInt(process.env.AGENT_PORT, 10) || 3002;
+
+if (!token || token.length < 16) {
+  log.error('AGENT_TOKEN must be set to a secret of at least 16 characters');
+  process.exit(1);
+}
+if (roots.length === 0) {
+  log.error('AGENT_ROOTS must list the folders the panel may access (server install and Zomboid data folders)');
+  process.exit(1);
+}
+
+const app = express();
+app.use(express.json({ limit: '50mb' }));
+app.set('agentConfig', { token, roots, version: readVersion() });
+
+app.use('/agent', agentRoutes);
+
+app.use((req, res) => {
+  res.status(404).json({ error: 'Agent endpoint not found' });
+});
+
+const server = app.listen(port, () => {
+  logSection('Agent Ready');
+  log.info(`Listening on port ${port}`);
+  for (const root of roots) {
+    log.info(`Serving ${root}`);
+  }
+});
+
+function shutdown(signal) {
+  log.info(`Received ${signal}, shutting down...`);
+  server.close(() => process.exit(0));
+  setTimeout(() => process.exit(1), 5000).unref();
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -4,6 +4,7 @@ import path from 'path';
 import fs from 'fs';
 import { randomUUID } from 'crypto';
 import { getDataPaths } from '../utils/paths.js';
+import { SECRET_SETTINGS, encryptSecret, decryptSecret, isEncrypted } from '../utils/secrets.js';
 
 // ============================================
 // Database Configuration
@@ -16,8 +17,12 @@ const RETENTION = {
   schedule_history: 500,
   performance_history: 1440,   // 24h at 1-min intervals
   player_sessions: 50,         // per player
+  audit_log: 5000,
 };
 
+// Server fields stored encrypted at rest (settings: SECRET_SETTINGS in utils/secrets.js)
+const SECRET_SERVER_FIELDS = ['rconPassword', 'agentToken'];
+
 const WRITE_DEBOUNCE_MS = 500;          // Coalesce rapid writes
 const BACKUP_INTERVAL_MS = 6 * 3600000; // Auto-backup every 6 hours
 const MAX_BACKUPS = 5;
@@ -44,6 +49,8 @@ const defaultData = {
   command_history: [],
   scheduled_tasks: [],
   schedule_history: [],
+  restart_policies: [],
+  schedule_postponements: [],
   player_logs: [],
   server_events: [],
   tracked_mods: [],
@@ -51,8 +58,13 @@ const defaultData = {
   player_notes: [],
   player_stats: [],
   mod_presets: [],
+  console_macros: [],
   performance_history: [],
   discord_webhooks: [],
+  panel_users: [],
+  panel_sessions: [],
+  api_tokens: [],
+  audit_log: [],
   settings: {}
 };
 
@@ -186,6 +198,69 @@ function registerShutdownHandlers() {
   process.on('beforeExit', () => shutdown('beforeExit'));
 }
 
+// ============================================
+// Secrets
+// ============================================
+
+/**
+ * Apply `transform` to every stored secret (settings and server fields).
+ * Returns how many values changed.
+ */
+function transformSecrets(data, transform) {
+  let changed = 0;
+  const apply = (obj, key) => {
+    if (typeof obj[key] !== 'string' || obj[key] === '') return;
+    const next = transform(obj[key]);
+    if (next !== obj[key]) {
+      obj[key] = next;
+      changed++;
+    }
+  };
+
+  for (const key of SECRET_SETTINGS) apply(data.settings, key);
+  for (const server of data.servers || []) {
+    for (const field of SECRET_SERVER_FIELDS) apply(server, field);
+  }
+  return changed;
+}
+
+/** Decrypt a stored secret; one the configured key can't read comes back empty */
+function readSecret(value) {
+  try {
+    return decryptSecret(value);
+  } catch (err) {
+    console.error(`[DB] ${err.message}`);
+    return '';
+  }
+}
+
+function decryptServer(server) {
+  if (!server) return server;
+  const copy = { ...server };
+  for (const field of SECRET_SERVER_FIELDS) copy[field] = readSecret(copy[field]);
+  return copy;
+}
+
+function encryptServerFields(fields) {
+  const copy = { ...fields };
+  for (const field of SECRET_SERVER_FIELDS) {
+    if (field in copy) copy[field] = encryptSecret(copy[field]);
+  }
+  return copy;
+}
+
+/**
+ * Re-encrypt every stored secret (key rotation) and write the database
+ * to disk before returning.
+ */
+export async function reencryptSecrets(reencrypt) {
+  const db = await getDb();
+  const count = transformSecrets(db.data, reencrypt);
+  scheduleWrite();
+  await flushWrites();
+  return count;
+}
+
 // ============================================
 // Startup & Initialization
 // ============================================
@@ -229,8 +304,14 @@ function compactData(data) {
   data.player_logs = trimArray(data.player_logs, RETENTION.player_logs);
   data.server_events = trimArray(data.server_events, RETENTION.server_events);
   data.schedule_history = trimArray(data.schedule_history, RETENTION.schedule_history);
+  data.audit_log = trimArray(data.audit_log, RETENTION.audit_log);
   data.performance_history = trimArrayEnd(data.performance_history, RETENTION.performance_history);
 
+  if (Array.isArray(data.panel_sessions)) {
+    const now = Date.now();
+    data.panel_sessions = data.panel_sessions.filter(s => new Date(s.expires_at).getTime() > now);
+  }
+
   if (Array.isArray(data.player_stats)) {
     for (const stat of data.player_stats) {
       if (Array.isArray(stat.sessions) && stat.sessions.length > RETENTION.player_sessions) {
@@ -275,9 +356,11 @@ export async function getDb() {
       }
     }
 
-    // Validate structure and compact
+    // Validate structure, compact and encrypt any plain-text secrets
     db.data = validateData(db.data);
     db.data = compactData(db.data);
+    const encrypted = transformSecrets(db.data, value => isEncrypted(value) ? value : encryptSecret(value));
+    if (encrypted > 0) console.log(`[DB] Encrypted ${encrypted} stored secret(s)`);
     await db.write();
 
     // Start periodic backups and register shutdown handlers
@@ -317,6 +400,8 @@ function getDatabaseStatsSync() {
       command_history: data.command_history?.length ?? 0,
       scheduled_tasks: data.scheduled_tasks?.length ?? 0,
       schedule_history: data.schedule_history?.length ?? 0,
+      restart_policies: data.restart_policies?.length ?? 0,
+      schedule_postponements: data.schedule_postponements?.length ?? 0,
       player_logs: data.player_logs?.length ?? 0,
       server_events: data.server_events?.length ?? 0,
       tracked_mods: data.tracked_mods?.length ?? 0,
@@ -324,8 +409,13 @@ function getDatabaseStatsSync() {
       player_notes: data.player_notes?.length ?? 0,
       player_stats: data.player_stats?.length ?? 0,
       mod_presets: data.mod_presets?.length ?? 0,
+      console_macros: data.console_macros?.length ?? 0,
       performance_history: data.performance_history?.length ?? 0,
-      discord_webhooks: data.discord_webhooks?.length ?? 0
+      discord_webhooks: data.discord_webhooks?.length ?? 0,
+      panel_users: data.panel_users?.length ?? 0,
+      panel_sessions: data.panel_sessions?.length ?? 0,
+      api_tokens: data.api_tokens?.length ?? 0,
+      audit_log: data.audit_log?.length ?? 0
     },
     totalRecords: Object.values(data).reduce((sum, v) => sum + (Array.isArray(v) ? v.length : 0), 0),
     settingsCount: Object.keys(data.settings || {}).length
@@ -404,20 +494,36 @@ export async function getCommandHistory(limit = 100) {
 // Scheduled Tasks
 // ============================================
 
-export async function getScheduledTasks() {
+/** Scheduled tasks, optionally only those of one server instance */
+export async function getScheduledTasks(serverId = null) {
   const db = await getDb();
-  return db.data.scheduled_tasks || [];
+  const tasks = db.data.scheduled_tasks || [];
+  if (serverId === null) return tasks;
+  return tasks.filter(t => String(t.server_id) === String(serverId));
 }
 
-export async function createScheduledTask(name, cronExpression, command) {
+/**
+ * `steps` makes the task a pipeline (see utils/taskPipelines.js), `oneOff`
+ * ({ run_at, timezone, missed_grace_minutes }) a task that runs once
+ * instead of on `cronExpression` (see utils/oneOffTasks.js). `catchUp` is
+ * what happens to runs missed while the panel was down (see utils/missedRuns.js)
+ */
+export async function createScheduledTask(name, cronExpression, command, serverId = null, steps = null, conditions = null, oneOff = null, catchUp = 'skip') {
   const db = await getDb();
   if (!Array.isArray(db.data.scheduled_tasks)) db.data.scheduled_tasks = [];
 
   const task = {
     id: generateNumericId(db.data.scheduled_tasks),
+    server_id: serverId,
     name,
     cron_expression: cronExpression,
     command,
+    steps,
+    conditions,
+    run_at: oneOff?.run_at ?? null,
+    timezone: oneOff?.timezone ?? null,
+    missed_grace_minutes: oneOff?.missed_grace_minutes ?? null,
+    catch_up: catchUp,
     enabled: 1,
     last_run: null,
     created_at: new Date().toISOString()
@@ -428,7 +534,11 @@ export async function createScheduledTask(name, cronExpression, command) {
   return task;
 }
 
-export async function updateScheduledTask(id, name, cronExpression, command, enabled) {
+/**
+ * Leaving `steps`, `conditions`, `oneOff` or `catchUp` undefined keeps what
+ * the task has; a null `oneOff` makes it a cron task again
+ */
+export async function updateScheduledTask(id, name, cronExpression, command, enabled, steps = undefined, conditions = undefined, oneOff = undefined, catchUp = undefined) {
   const db = await getDb();
   const index = db.data.scheduled_tasks.findIndex(t => t.id === id);
   if (index === -1) return null;
@@ -438,7 +548,17 @@ export async function updateScheduledTask(id, name, cronExpression, command, ena
     name,
     cron_expression: cronExpression,
     command,
-    enabled: enabled ? 1 : 0
+    ...(steps !== undefined ? { steps } : {}),
+    ...(conditions !== undefined ? { conditions } : {}),
+    ...(oneOff !== undefined ? {
+      run_at: oneOff?.run_at ?? null,
+      timezone: oneOff?.timezone ?? null,
+      missed_grace_minutes: oneOff?.missed_grace_minutes ?? null
+    } : {}),
+    ...(catchUp !== undefined ? { catch_up: catchUp } : {}),
+    enabled: enabled ? 1 : 0,
+    // Runs before this are not looked for as missed
+    updated_at: new Date().toISOString()
   };
   scheduleWrite();
   return db.data.scheduled_tasks[index];
@@ -454,6 +574,29 @@ export async function deleteScheduledTask(id) {
   return true;
 }
 
+/** Give tasks created before multi-server scheduling to a server instance */
+export async function assignUnscopedScheduledTasks(serverId) {
+  const db = await getDb();
+  let assigned = 0;
+  for (const task of db.data.scheduled_tasks || []) {
+    if (task.server_id === undefined || task.server_id === null) {
+      task.server_id = serverId;
+      assigned++;
+    }
+  }
+  if (assigned > 0) scheduleWrite();
+  return assigned;
+}
+
+export async function setScheduledTaskEnabled(id, enabled) {
+  const db = await getDb();
+  const task = db.data.scheduled_tasks.find(t => t.id === id);
+  if (task) {
+    task.enabled = enabled ? 1 : 0;
+    scheduleWrite();
+  }
+}
+
 export async function updateTaskLastRun(id) {
   const db = await getDb();
   const task = db.data.scheduled_tasks.find(t => t.id === id);
@@ -467,7 +610,11 @@ export async function updateTaskLastRun(id) {
 // Schedule History
 // ============================================
 
-export async function logScheduleExecution(taskId, taskName, command, success, message = null, duration = null) {
+/**
+ * `outcome` marks runs held back by task conditions ('skipped', 'delayed' or
+ * 'forced') and runs the panel was not up for ('late' or 'missed')
+ */
+export async function logScheduleExecution(taskId, taskName, command, success, message = null, duration = null, outcome = null) {
   const db = await getDb();
   if (!db.data.schedule_history) db.data.schedule_history = [];
 
@@ -479,6 +626,7 @@ export async function logScheduleExecution(taskId, taskName, command, success, m
     success: success ? 1 : 0,
     message,
     duration,
+    outcome,
     executed_at: new Date().toISOString()
   };
 
@@ -507,6 +655,76 @@ export async function clearScheduleHistory() {
   scheduleWrite();
 }
 
+// ============================================
+// Restart Policies
+// ============================================
+
+/** The saved restart policy of a server instance, or null */
+export async function getRestartPolicy(serverId = null) {
+  const db = await getDb();
+  const policies = db.data.restart_policies || [];
+  return policies.find(p => String(p.server_id) === String(serverId)) || null;
+}
+
+export async function saveRestartPolicy(serverId, policy) {
+  const db = await getDb();
+  if (!Array.isArray(db.data.restart_policies)) db.data.restart_policies = [];
+
+  const record = { ...policy, server_id: serverId, updated_at: new Date().toISOString() };
+  const index = db.data.restart_policies.findIndex(p => String(p.server_id) === String(serverId));
+  if (index === -1) {
+    db.data.restart_policies.push(record);
+  } else {
+    db.data.restart_policies[index] = record;
+  }
+  scheduleWrite();
+  return record;
+}
+
+// ============================================
+// Schedule Postponements
+// ============================================
+
+/**
+ * One-off moves of a single scheduled run. `job_key` names the job
+ * ('task:<id>', 'backup' or 'restart'), `original_at` the run that is moved
+ * and `postponed_to` when it happens instead.
+ */
+export async function getSchedulePostponements(serverId = null) {
+  const db = await getDb();
+  const postponements = db.data.schedule_postponements || [];
+  return postponements.filter(p => String(p.server_id) === String(serverId));
+}
+
+export async function createSchedulePostponement(serverId, jobKey, originalAt, postponedTo) {
+  const db = await getDb();
+  if (!Array.isArray(db.data.schedule_postponements)) db.data.schedule_postponements = [];
+
+  const postponement = {
+    id: generateNumericId(db.data.schedule_postponements),
+    server_id: serverId,
+    job_key: jobKey,
+    original_at: originalAt,
+    postponed_to: postponedTo,
+    created_at: new Date().toISOString()
+  };
+
+  db.data.schedule_postponements.push(postponement);
+  scheduleWrite();
+  return postponement;
+}
+
+export async function deleteSchedulePostponement(id) {
+  const db = await getDb();
+  const postponements = db.data.schedule_postponements || [];
+  const index = postponements.findIndex(p => p.id === id);
+  if (index === -1) return false;
+
+  postponements.splice(index, 1);
+  scheduleWrite();
+  return true;
+}
+
 // ============================================
 // Player Logs
 // ============================================
@@ -637,18 +855,23 @@ export async function clearModUpdates() {
 
 export async function getSetting(key) {
   const db = await getDb();
-  return db.data.settings[key] ?? null;
+  const value = db.data.settings[key] ?? null;
+  return SECRET_SETTINGS.includes(key) ? readSecret(value) : value;
 }
 
 export async function setSetting(key, value) {
   const db = await getDb();
-  db.data.settings[key] = value;
+  db.data.settings[key] = SECRET_SETTINGS.includes(key) ? encryptSecret(value) : value;
   scheduleWrite();
 }
 
 export async function getAllSettings() {
   const db = await getDb();
-  return db.data.settings;
+  const settings = { ...db.data.settings };
+  for (const key of SECRET_SETTINGS) {
+    if (key in settings) settings[key] = readSecret(settings[key]);
+  }
+  return settings;
 }
 
 // ============================================
@@ -657,17 +880,22 @@ export async function getAllSettings() {
 
 export async function getServers() {
   const db = await getDb();
-  return db.data.servers || [];
+  return (db.data.servers || []).map(decryptServer);
 }
 
 export async function getServer(id) {
   const db = await getDb();
-  return db.data.servers.find(s => String(s.id) === String(id)) || null;
+  return decryptServer(db.data.servers.find(s => String(s.id) === String(id)) || null);
 }
 
 export async function getActiveServer() {
   const db = await getDb();
-  return db.data.servers.find(s => s.isActive) || db.data.servers[0] || null;
+  return decryptServer(db.data.servers.find(s => s.isActive) || db.data.servers[0] || null);
+}
+
+/** A specific server instance, or the active one when no id is given */
+export async function resolveServer(serverId = null) {
+  return serverId === null || serverId === undefined ? getActiveServer() : getServer(serverId);
 }
 
 export async function createServer(serverConfig) {
@@ -686,13 +914,17 @@ export async function createServer(serverConfig) {
     branch: serverConfig.branch || 'stable',
     rconHost: serverConfig.rconHost || '127.0.0.1',
     rconPort: serverConfig.rconPort || 27015,
-    rconPassword: serverConfig.rconPassword || '',
+    rconPassword: encryptSecret(serverConfig.rconPassword || ''),
     serverPort: serverConfig.serverPort || 16261,
     minMemory: serverConfig.minMemory || 4,
     maxMemory: serverConfig.maxMemory || 8,
     useNoSteam: serverConfig.useNoSteam || false,
     useDebug: serverConfig.useDebug || false,
+    extraLaunchArgs: serverConfig.extraLaunchArgs || [],
     isRemote: serverConfig.isRemote || false,
+    // Panel agent on a remote server's host (file access - see agent.js)
+    agentUrl: serverConfig.agentUrl || null,
+    agentToken: encryptSecret(serverConfig.agentToken || ''),
     isActive: isFirst,
     createdAt: new Date().toISOString()
   };
@@ -704,7 +936,7 @@ export async function createServer(serverConfig) {
   }
 
   scheduleWrite();
-  return server;
+  return decryptServer(server);
 }
 
 export async function updateServer(id, updates) {
@@ -714,12 +946,12 @@ export async function updateServer(id, updates) {
 
   db.data.servers[index] = {
     ...db.data.servers[index],
-    ...updates,
+    ...encryptServerFields(updates),
     id,
     updatedAt: new Date().toISOString()
   };
   scheduleWrite();
-  return db.data.servers[index];
+  return decryptServer(db.data.servers[index]);
 }
 
 export async function deleteServer(id) {
@@ -749,7 +981,7 @@ export async function setActiveServer(id) {
 
   syncServerToSettings(db, server);
   scheduleWrite();
-  return server;
+  return decryptServer(server);
 }
 
 /** Sync active server config to legacy flat settings */
@@ -979,3 +1211,345 @@ export async function deleteModPreset(id) {
   scheduleWrite();
   return true;
 }
+
+// ============================================
+// Console Macros
+// ============================================
+
+export async function getConsoleMacros() {
+  const db = await getDb();
+  if (!db.data.console_macros) db.data.console_macros = [];
+  return db.data.console_macros;
+}
+
+export async function getConsoleMacro(id) {
+  const macros = await getConsoleMacros();
+  return macros.find(m => m.id === id) || null;
+}
+
+export async function getConsoleMacroByName(name) {
+  const macros = await getConsoleMacros();
+  const lower = String(name).toLowerCase();
+  return macros.find(m => m.name.toLowerCase() === lower) || null;
+}
+
+export async function createConsoleMacro({ name, description, params, steps }) {
+  const db = await getDb();
+  if (!db.data.console_macros) db.data.console_macros = [];
+
+  const macro = {
+    id: generateId(),
+    name,
+    description: description || '',
+    params: params || [],
+    steps: steps || [],
+    created_at: new Date().toISOString()
+  };
+
+  db.data.console_macros.push(macro);
+  scheduleWrite();
+  return macro;
+}
+
+export async function updateConsoleMacro(id, updates) {
+  const db = await getDb();
+  if (!db.data.console_macros) return null;
+
+  const index = db.data.console_macros.findIndex(m => m.id === id);
+  if (index === -1) return null;
+
+  db.data.console_macros[index] = {
+    ...db.data.console_macros[index],
+    ...updates,
+    updated_at: new Date().toISOString()
+  };
+  scheduleWrite();
+  return db.data.console_macros[index];
+}
+
+export async function deleteConsoleMacro(id) {
+  const db = await getDb();
+  if (!db.data.console_macros) return false;
+
+  const index = db.data.console_macros.findIndex(m => m.id === id);
+  if (index === -1) return false;
+
+  db.data.console_macros.splice(index, 1);
+  scheduleWrite();
+  return true;
+}
+
+// ============================================
+// Panel Users & Sessions (panel login)
+// ============================================
+
+export async function getPanelUsers() {
+  const db = await getDb();
+  return db.data.panel_users;
+}
+
+export async function getPanelUser(id) {
+  const db = await getDb();
+  return db.data.panel_users.find(u => u.id === id) || null;
+}
+
+export async function getPanelUserByUsername(username) {
+  const db = await getDb();
+  if (typeof username !== 'string') return null;
+  return db.data.panel_users.find(u => u.username.toLowerCase() === username.toLowerCase()) || null;
+}
+
+function newPanelUser(username, passwordHash, role) {
+  return {
+    id: generateId(),
+    username,
+    password_hash: passwordHash,
+    role,
+    created_at: new Date().toISOString(),
+    last_login: null
+  };
+}
+
+export async function createPanelUser(username, passwordHash, role = 'viewer') {
+  const db = await getDb();
+  const user = newPanelUser(username, passwordHash, role);
+  db.data.panel_users.push(user);
+  scheduleWrite();
+  return user;
+}
+
+/**
+ * Create the first account, as owner. Resolves with null when an account
+ * exists already - checked right before adding it, so two setup requests
+ * at once cannot both create one.
+ */
+export async function createInitialPanelUser(username, passwordHash) {
+  const db = await getDb();
+  if (db.data.panel_users.length > 0) return null;
+  const user = newPanelUser(username, passwordHash, 'owner');
+  db.data.panel_users.push(user);
+  scheduleWrite();
+  return user;
+}
+
+export async function updatePanelUser(id, updates) {
+  const db = await getDb();
+  const index = db.data.panel_users.findIndex(u => u.id === id);
+  if (index === -1) return null;
+
+  db.data.panel_users[index] = {
+    ...db.data.panel_users[index],
+    ...updates,
+    id,
+    updated_at: new Date().toISOString()
+  };
+  scheduleWrite();
+  return db.data.panel_users[index];
+}
+
+export async function deletePanelUser(id) {
+  const db = await getDb();
+  const index = db.data.panel_users.findIndex(u => u.id === id);
+  if (index === -1) return false;
+
+  db.data.panel_users.splice(index, 1);
+  db.data.panel_sessions = db.data.panel_sessions.filter(s => s.user_id !== id);
+  db.data.api_tokens = db.data.api_tokens.filter(t => t.user_id !== id);
+  scheduleWrite();
+  return true;
+}
+
+/**
+ * Sessions are looked up by the SHA-256 hash of the cookie token,
+ * so the raw token never touches the disk.
+ */
+export async function createPanelSession(userId, tokenHash, expiresAt, meta = {}) {
+  const db = await getDb();
+  const now = new Date().toISOString();
+
+  const session = {
+    id: generateId(),
+    user_id: userId,
+    token_hash: tokenHash,
+    ip: meta.ip || null,
+    user_agent: meta.userAgent || null,
+    created_at: now,
+    last_seen: now,
+    expires_at: new Date(expiresAt).toISOString()
+  };
+
+  db.data.panel_sessions.push(session);
+  scheduleWrite();
+  return session;
+}
+
+export async function getPanelSession(tokenHash) {
+  const db = await getDb();
+  const session = db.data.panel_sessions.find(s => s.token_hash === tokenHash);
+  if (!session) return null;
+
+  if (new Date(session.expires_at).getTime() <= Date.now()) {
+    db.data.panel_sessions = db.data.panel_sessions.filter(s => s !== session);
+    scheduleWrite();
+    return null;
+  }
+  return session;
+}
+
+export async function touchPanelSession(id, expiresAt) {
+  const db = await getDb();
+  const session = db.data.panel_sessions.find(s => s.id === id);
+  if (session) {
+    session.last_seen = new Date().toISOString();
+    session.expires_at = new Date(expiresAt).toISOString();
+    scheduleWrite();
+  }
+  return session || null;
+}
+
+export async function deletePanelSession(id) {
+  const db = await getDb();
+  const index = db.data.panel_sessions.findIndex(s => s.id === id);
+  if (index === -1) return false;
+
+  db.data.panel_sessions.splice(index, 1);
+  scheduleWrite();
+  return true;
+}
+
+/** Remove every session of a user, optionally keeping one (e.g. the current one after a password change) */
+export async function deletePanelSessionsForUser(userId, exceptSessionId = null) {
+  const db = await getDb();
+  const before = db.data.panel_sessions.length;
+  db.data.panel_sessions = db.data.panel_sessions.filter(
+    s => s.user_id !== userId || s.id === exceptSessionId
+  );
+  const removed = before - db.data.panel_sessions.length;
+  if (removed > 0) scheduleWrite();
+  return removed;
+}
+
+// ============================================
+// API Tokens
+// ============================================
+
+export async function getApiTokens() {
+  const db = await getDb();
+  return db.data.api_tokens;
+}
+
+export async function getApiToken(id) {
+  const db = await getDb();
+  return db.data.api_tokens.find(t => t.id === id) || null;
+}
+
+/** Tokens are stored by SHA-256 hash like sessions; only the prefix is kept for display */
+export async function getApiTokenByHash(tokenHash) {
+  const db = await getDb();
+  return db.data.api_tokens.find(t => t.token_hash === tokenHash) || null;
+}
+
+export async function createApiToken({ name, tokenHash, prefix, scopes, userId, expiresAt = null }) {
+  const db = await getDb();
+
+  const token = {
+    id: generateId(),
+    name,
+    token_hash: tokenHash,
+    prefix,
+    scopes,
+    user_id: userId,
+    created_at: new Date().toISOString(),
+    expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+    last_used_at: null,
+    last_used_ip: null
+  };
+
+  db.data.api_tokens.push(token);
+  scheduleWrite();
+  return token;
+}
+
+export async function touchApiToken(id, ip) {
+  const db = await getDb();
+  const token = db.data.api_tokens.find(t => t.id === id);
+  if (token) {
+    token.last_used_at = new Date().toISOString();
+    token.last_used_ip = ip || null;
+    scheduleWrite();
+  }
+}
+
+export async function deleteApiToken(id) {
+  const db = await getDb();
+  const index = db.data.api_tokens.findIndex(t => t.id === id);
+  if (index === -1) return false;
+
+  db.data.api_tokens.splice(index, 1);
+  scheduleWrite();
+  return true;
+}
+
+// ============================================
+// Audit Log
+// ============================================
+
+export async function logAudit({ actor = null, actorId = null, source, action, target = null, params = null, success = true, status = null, error = null, ip = null }) {
+  const db = await getDb();
+  const entry = {
+    id: generateId(),
+    actor,
+    actor_id: actorId,
+    source,
+    action,
+    target,
+    params,
+    success: success ? 1 : 0,
+    status,
+    error,
+    ip,
+    created_at: new Date().toISOString()
+  };
+
+  db.data.audit_log.unshift(entry);
+  if (db.data.audit_log.length > RETENTION.audit_log) {
+    db.data.audit_log = db.data.audit_log.slice(0, RETENTION.audit_log);
+  }
+  scheduleWrite();
+  return entry;
+}
+
+/**
+ * Query the audit log (newest first).
+ * Filters: actor, source, action (substring), success (true/false), since/until (ISO dates), search (any field)
+ */
+export async function getAuditLog(filters = {}, limit = 100, offset = 0) {
+  const db = await getDb();
+  const { actor, source, action, success, since, until, search } = filters;
+  const sinceTime = since ? new Date(since).getTime() : null;
+  const untilTime = until ? new Date(until).getTime() : null;
+  const needle = search ? search.toLowerCase() : null;
+
+  const entries = db.data.audit_log.filter(e => {
+    if (actor && e.actor !== actor) return false;
+    if (source && e.source !== source) return false;
+    if (action && !e.action.toLowerCase().includes(action.toLowerCase())) return false;
+    if (success !== undefined && success !== null && !!e.success !== success) return false;
+    const time = new Date(e.created_at).getTime();
+    if (sinceTime && time < sinceTime) return false;
+    if (untilTime && time > untilTime) return false;
+    if (needle) {
+      const haystack = [e.actor, e.action, e.target, e.error, JSON.stringify(e.params)].join(' ').toLowerCase();
+      if (!haystack.includes(needle)) return false;
+    }
+    return true;
+  });
+
+  return { total: entries.length, entries: entries.slice(offset, offset + limit) };
+}
+
+/** Distinct actors seen in the audit log (for filter dropdowns) */
+export async function getAuditActors() {
+  const db = await getDb();
+  return [...new Set(db.data.audit_log.map(e => e.actor).filter(Boolean))].sort();
+}
@@ -10,15 +10,14 @@ import { exec, spawn } from 'child_process';
 
 import { logger, onLog, createLogger, logSection, logBlank } from './utils/logger.js';
 const log = createLogger('Panel');
-import { initDatabase, getActiveServer, getAllSettings, getSetting } from './database/init.js';
-import { RconService } from './services/rcon.js';
-import { ServerManager } from './services/serverManager.js';
-import { ModChecker } from './services/modChecker.js';
-import { Scheduler } from './services/scheduler.js';
+import { initDatabase, getSetting } from './database/init.js';
 import { DiscordBot } from './services/discordBot.js';
-import { BackupService } from './services/backupService.js';
 import { UpdateChecker } from './services/updateChecker.js';
-import { LogTailer } from './services/logTailer.js';
+import { ServerInstances } from './services/serverInstances.js';
+import { filterConsoleLogLines } from './services/serverConsole.js';
+import { initAuth, requireAuth, authenticateSocket } from './utils/auth.js';
+import { authorize, requirePermission, hasPermission, resolveRoutePermission } from './utils/permissions.js';
+import { auditTrail } from './utils/audit.js';
 
 // Global error handlers to prevent app crashes
 process.on('uncaughtException', (error) => {
@@ -41,40 +40,16 @@ async function gracefulShutdown(signal) {
   log.info(`Received ${signal}, shutting down gracefully...`);
   
   try {
-    // Stop player polling
-    stopPlayerPolling();
-    
-    // Stop scheduler jobs
-    if (scheduler) {
-      scheduler.stopAllJobs?.();
-    }
-    
-    // Stop mod checker
-    if (modChecker) {
-      modChecker.stop();
-    }
-    
-    // Stop log tailer
-    if (logTailer) {
-      logTailer.stopWatching();
-    }
-    
     // Stop update checker
     if (updateChecker) {
       updateChecker.stop();
     }
     
-    // Stop PanelBridge
-    if (panelBridge?.isRunning) {
-      panelBridge.stop();
-    }
-    
-    // Stop RCON auto-reconnect and disconnect
-    if (rconService) {
-      rconService.stopAutoReconnect();
-      if (rconService.connected) {
-        await rconService.disconnect();
-      }
+    // Stop every server's services: player polling, scheduler jobs, crash
+    // watchdog (the servers keep running without the panel), mod checker,
+    // log tailer, PanelBridge and RCON; buffered console output is written out
+    if (instances) {
+      await instances.shutdown();
     }
     
     // Close HTTP server
@@ -98,6 +73,10 @@ process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
 process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
 // Routes
+import authRoutes from './routes/auth.js';
+import usersRoutes from './routes/users.js';
+import auditRoutes from './routes/audit.js';
+import tokensRoutes from './routes/tokens.js';
 import serverRoutes from './routes/server.js';
 import serversRoutes from './routes/servers.js';
 import serverFilesRoutes from './routes/serverFiles.js';
@@ -112,7 +91,6 @@ import debugRoutes, { addLogToBuffer } from './routes/debug.js';
 import serverFinderRoutes from './routes/serverFinder.js';
 import panelBridgeRoutes from './routes/panelBridge.js';
 import backupRoutes from './routes/backup.js';
-import panelBridge from './services/panelBridge.js';
 
 dotenv.config();
 
@@ -133,215 +111,178 @@ app.use(cors());
 app.use(express.json());
 
 // Initialize services
-const rconService = new RconService();
-const serverManager = new ServerManager();
-const modChecker = new ModChecker();
-const logTailer = new LogTailer();
-const scheduler = new Scheduler(rconService, serverManager);
-const discordBot = new DiscordBot(rconService, serverManager, scheduler, logTailer);
-const backupService = new BackupService();
+// The Discord bot follows the active server (see instances.on('active'))
+const discordBot = new DiscordBot();
+const instances = new ServerInstances({ io, discordBot });
 
-// Connect services for cross-communication
-rconService.setServerManager(serverManager);
-scheduler.setBackupService(backupService);
+app.set('discordBot', discordBot);
+app.set('serverInstances', instances);
+app.set('io', io);
 
-// Start RCON auto-reconnect for automatic recovery
-rconService.startAutoReconnect();
+// Services used by the unscoped routes (/api/server, /api/players, ...)
+const SERVICE_SETTINGS = ['rconService', 'serverManager', 'modChecker', 'scheduler', 'backupService', 'serverConsole', 'panelBridge'];
+
+// Route groups each server answers under /api/servers/:serverId/...
+const SERVER_ROUTES = [
+  ['/server', 'server', serverRoutes],
+  ['/server-files', 'serverFiles', serverFilesRoutes],
+  ['/players', 'players', playerRoutes],
+  ['/rcon', 'rcon', rconRoutes],
+  ['/scheduler', 'scheduler', schedulerRoutes],
+  ['/mods', 'mods', modsRoutes],
+  ['/chunks', 'chunks', chunksRoutes],
+  ['/panel-bridge', 'panelBridge', panelBridgeRoutes],
+  ['/backup', 'backup', backupRoutes]
+];
 
 /**
- * Find the PanelBridge path for the active server
- * PZ Lua mod writes to: {serverRuntimePath}/Lua/panelbridge/{serverName}/
- * For dedicated servers, this is usually a Server_files* folder (set via -cachedir)
+ * Socket.IO target for a server's events: its own room, plus the legacy
+ * room when it is the active server (pages that follow the active server).
+ * Without a legacy room the active server's events go to every client.
  */
-async function findPanelBridgePath() {
-  const activeServer = await getActiveServer();
-  if (!activeServer) {
-    return { error: 'No active server configured' };
-  }
-  
-  const serverName = activeServer.serverName || activeServer.name;
-  if (!serverName) {
-    return { error: 'Server name not configured' };
-  }
-  
-  // Check if db.json has a saved bridgePath that exists and has files
-  const settings = await getAllSettings();
-  if (settings?.panelBridge?.bridgePath) {
-    const savedPath = settings.panelBridge.bridgePath;
-    const statusFile = path.join(savedPath, 'status.json');
-    if (fs.existsSync(statusFile)) {
-      return { path: savedPath, source: 'db.json (saved)', serverName };
-    }
-  }
-  
-  // Build list of possible paths - PZ Lua mod writes to Lua/panelbridge/
-  const possiblePaths = [];
-  
-  // Helper to safely read directory contents
-  const safeReadDir = (dirPath) => {
-    try {
-      return fs.existsSync(dirPath) ? fs.readdirSync(dirPath) : [];
-    } catch (e) {
-      return [];
-    }
-  };
-  
-  // PRIORITY 1: zomboidDataPath is where -cachedir points - this is where the mod WRITES status.json
-  // This should be checked first since it's explicitly configured for the server
-  if (activeServer.zomboidDataPath) {
-    possiblePaths.push({ p: path.join(activeServer.zomboidDataPath, 'Lua', 'panelbridge', serverName), source: 'zomboidDataPath/Lua (cachedir)', priority: 1 });
-  }
-  
-  // PRIORITY 2: Look for Server_files* folders at parent level (dedicated server runtime data)
-  // This is where -cachedir typically points for dedicated servers with separate data folders
-  if (activeServer.installPath) {
-    const parentDir = path.dirname(activeServer.installPath);
-    const parentContents = safeReadDir(parentDir);
-    for (const item of parentContents) {
-      if (item.startsWith('Server_files') || item.match(/Server.*files/i)) {
-        possiblePaths.push({ p: path.join(parentDir, item, 'Lua', 'panelbridge', serverName), source: `${item}/Lua`, priority: 2 });
-      }
-    }
-  }
-  
-  // PRIORITY 3: Lua folder directly in install path (fallback)
-  if (activeServer.installPath) {
-    possiblePaths.push({ p: path.join(activeServer.installPath, 'Lua', 'panelbridge', serverName), source: 'installPath/Lua', priority: 3 });
-  }
-  
-  // Find first path with existing status.json (bridge is active)
-  for (const { p, source } of possiblePaths) {
-    const statusFile = path.join(p, 'status.json');
-    if (fs.existsSync(statusFile)) {
-      return { path: p, source, serverName };
-    }
-  }
-  
-  // Check for .init file (bridge initialized but not yet active)
-  for (const { p, source } of possiblePaths) {
-    const initFile = path.join(p, '.init');
-    if (fs.existsSync(initFile)) {
-      return { path: p, source: `${source} (.init)`, serverName };
-    }
-  }
-  
-  // Check if any of the paths exist (even if empty - mod may have started writing)
-  for (const { p, source } of possiblePaths) {
-    if (fs.existsSync(p)) {
-      return { path: p, source: `${source} (exists)`, serverName };
-    }
-  }
-  
-  // No existing bridge found - return the best expected path but DON'T create it
-  // The directory will be created by the PZ mod when it runs
-  if (possiblePaths.length > 0) {
-    possiblePaths.sort((a, b) => a.priority - b.priority);
-    const bestPath = possiblePaths[0];
-    return { path: bestPath.p, source: `${bestPath.source} (expected)`, serverName, notCreated: true };
-  }
-  
-  return { error: 'No valid bridge path could be determined', searchedPaths: possiblePaths.map(x => x.p), serverName };
+function toServerRooms(set, legacyRoom = null) {
+  const target = io.to(`server:${set.serverId ?? 'default'}`);
+  if (!instances.isActive(set)) return target;
+  return legacyRoom ? target.to(legacyRoom) : io;
 }
 
-/**
- * Start PanelBridge if a valid bridge path is found
- * This is called both at startup and when RCON connects
- */
-async function tryStartPanelBridge(trigger = 'unknown') {
-  if (panelBridge.isRunning) {
-    log.debug(`Already running (trigger: ${trigger})`);
-    return true;
+app.set('serverRooms', (legacyRoom) => toServerRooms(instances.getActive(), legacyRoom));
+
+// The active server's services answer the unscoped routes
+instances.on('active', (set) => {
+  for (const name of SERVICE_SETTINGS) {
+    app.set(name, set[name]);
   }
-  
-  const result = await findPanelBridgePath();
-  
-  if (result.error) {
-    log.debug(`${result.error} (trigger: ${trigger})`);
-    return false;
+  log.info(`Active server: ${set.name}`);
+});
+
+instances.on('added', (set) => {
+  const serverId = set.serverId;
+
+  // Each server gets its own sub-app so routes see its services and id;
+  // other settings (io, discordBot, ...) come from the main app
+  const instanceApp = express();
+  Object.setPrototypeOf(instanceApp.settings, app.settings);
+  instanceApp.set('serverId', serverId);
+  for (const name of SERVICE_SETTINGS) {
+    instanceApp.set(name, set[name]);
   }
-  
-  try {
-    panelBridge.configure(result.path, true);
-    panelBridge.start();
-    log.info(`Started from ${result.source} (trigger: ${trigger})`);
-    return true;
-  } catch (error) {
-    log.warn(`Failed to start - ${error.message}`);
-    return false;
+  instanceApp.set('serverRooms', (legacyRoom) => toServerRooms(set, legacyRoom));
+  for (const [mountPath, group, routes] of SERVER_ROUTES) {
+    instanceApp.use(mountPath, authorize(group), routes);
   }
-}
+  set.app = instanceApp;
 
-// Auto-start PanelBridge when RCON connects (secondary trigger)
-rconService.on('connected', async () => {
-  log.info('RCON connected - checking PanelBridge...');
-  await tryStartPanelBridge('rcon-connected');
-});
-
-rconService.on('disconnected', () => {
-  // Optionally stop the bridge when RCON disconnects (server stopped)
-  // Uncomment if you want bridge to stop when server stops:
-  // if (panelBridge.isRunning) {
-  //   panelBridge.stop();
-  //   log.info('[PanelBridge] Stopped due to RCON disconnect');
-  // }
-});
+  // Stream captured server output to the console page (noise filtered like /server/console-log)
+  set.serverConsole.on('line', (entry) => {
+    if (filterConsoleLogLines([entry.line]).length > 0) {
+      toServerRooms(set, 'server-console').emit('console:line', { ...entry, serverId });
+    }
+  });
+  set.serverConsole.on('attached', (data) => toServerRooms(set, 'server-console').emit('console:attached', { ...data, serverId }));
+  set.serverConsole.on('detached', (data) => toServerRooms(set, 'server-console').emit('console:detached', { ...data, serverId }));
+
+  // Broadcast lifecycle changes (starting, loading, ready, saving, ...) to the dashboard
+  set.serverManager.lifecycle.on('change', (state) => {
+    toServerRooms(set, 'server-status').emit('server:state', { ...state, serverId });
+    // Every server's state for the server switcher
+    io.to('server-instances').emit('instances:state', { ...state, serverId });
+  });
 
-// Emit PanelBridge status changes to connected clients via Socket.IO
-panelBridge.on('started', () => {
-  io.emit('panelBridge:status', { isRunning: true, bridgePath: panelBridge.bridgePath });
-});
+  // Restart countdowns (auto-restart windows, manual restarts) for the dashboard
+  set.scheduler.on('restartCountdown', (countdown) => {
+    toServerRooms(set, 'server-status').emit('restart:countdown', { countdown, serverId });
+  });
 
-panelBridge.on('stopped', () => {
-  io.emit('panelBridge:status', { isRunning: false, bridgePath: panelBridge.bridgePath });
-});
+  // Broadcast live chat messages to Socket.IO clients
+  set.logTailer.on('chatMessage', (data) => {
+    toServerRooms(set).emit('chat:message', {
+      id: Date.now().toString(),
+      type: 'general', // Default to general for now
+      author: data.author,
+      message: data.message,
+      timestamp: data.timestamp,
+      serverId
+    });
+  });
 
-panelBridge.on('modStatus', (status) => {
-  io.emit('panelBridge:modStatus', status);
+  // Emit PanelBridge status changes to connected clients via Socket.IO
+  const { panelBridge } = set;
+  panelBridge.on('started', () => {
+    toServerRooms(set).emit('panelBridge:status', { isRunning: true, bridgePath: panelBridge.bridgePath, serverId });
+  });
+  panelBridge.on('stopped', () => {
+    toServerRooms(set).emit('panelBridge:status', { isRunning: false, bridgePath: panelBridge.bridgePath, serverId });
+  });
+  panelBridge.on('modStatus', (status) => {
+    toServerRooms(set).emit('panelBridge:modStatus', status);
+  });
+  panelBridge.on('configured', ({ path }) => {
+    toServerRooms(set).emit('panelBridge:configured', { bridgePath: path, serverId });
+  });
 });
 
-panelBridge.on('configured', ({ path }) => {
-  io.emit('panelBridge:configured', { bridgePath: path });
+// Player list changes from each server's player polling
+instances.on('players', (set, players) => {
+  toServerRooms(set, 'players').emit('players:update', players);
 });
 
-// Make services available to routes
-app.set('rconService', rconService);
-app.set('serverManager', serverManager);
-app.set('modChecker', modChecker);
-app.set('scheduler', scheduler);
-app.set('discordBot', discordBot);
-app.set('backupService', backupService);
-app.set('io', io);
-
 // Initialize update checker (needs io for socket events)
 const updateChecker = new UpdateChecker(io);
 app.set('updateChecker', updateChecker);
 
-// API Routes
-app.use('/api/server', serverRoutes);
-app.use('/api/servers', serversRoutes);
-app.use('/api/server-files', serverFilesRoutes);
-app.use('/api/players', playerRoutes);
-app.use('/api/rcon', rconRoutes);
-app.use('/api/config', configRoutes);
-app.use('/api/scheduler', schedulerRoutes);
-app.use('/api/mods', modsRoutes);
-app.use('/api/chunks', chunksRoutes);
-app.use('/api/discord', discordRoutes);
-app.use('/api/debug', debugRoutes);
-app.use('/api/server-finder', serverFinderRoutes);
-app.use('/api/panel-bridge', panelBridgeRoutes);
-app.use('/api/backup', backupRoutes);
+// Public API Routes (no session required)
+app.use('/api/auth', auditTrail, authRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Everything else under /api requires a logged-in panel session or an API token
+app.use('/api', requireAuth);
+
+// Record who changed what (utils/audit.js)
+app.use('/api', auditTrail);
+
+// API Routes - each group is checked against the role permission map (utils/permissions.js)
+app.use('/api/users', requirePermission('users.manage'), usersRoutes);
+app.use('/api/audit', requirePermission('audit.view'), auditRoutes);
+app.use('/api/tokens', requirePermission('tokens.manage'), tokensRoutes);
+
+// Per-server routes (/api/servers/:serverId/players, ...) - handled by the
+// server's sub-app; anything it doesn't match falls through to /api/servers
+app.use('/api/servers/:serverId', (req, res, next) => {
+  const set = instances.get(req.params.serverId);
+  if (!set?.app) return next();
+  const parentApp = req.app;
+  set.app.handle(req, res, (err) => {
+    // The sub-app swapped req/res over to its own prototypes
+    Object.setPrototypeOf(req, parentApp.request);
+    Object.setPrototypeOf(res, parentApp.response);
+    next(err);
+  });
+});
+app.use('/api/server', authorize('server'), serverRoutes);
+app.use('/api/servers', authorize('servers'), serversRoutes);
+app.use('/api/server-files', authorize('serverFiles'), serverFilesRoutes);
+app.use('/api/players', authorize('players'), playerRoutes);
+app.use('/api/rcon', authorize('rcon'), rconRoutes);
+app.use('/api/config', authorize('config'), configRoutes);
+app.use('/api/scheduler', authorize('scheduler'), schedulerRoutes);
+app.use('/api/mods', authorize('mods'), modsRoutes);
+app.use('/api/chunks', authorize('chunks'), chunksRoutes);
+app.use('/api/discord', authorize('discord'), discordRoutes);
+app.use('/api/debug', authorize('debug'), debugRoutes);
+app.use('/api/server-finder', authorize('serverFinder'), serverFinderRoutes);
+app.use('/api/panel-bridge', authorize('panelBridge'), panelBridgeRoutes);
+app.use('/api/backup', authorize('backup'), backupRoutes);
+
 // Panel info - returns the panel's own address for remote access
 app.get('/api/panel-info', async (req, res) => {
   const savedPort = await getSetting('panelPort');
   const PORT = process.env.PORT || savedPort || 3001;
-  const localIp = serverManager.getLocalIp();
+  const localIp = instances.getActive().serverManager.getLocalIp();
   res.json({ 
     localIp,
     port: parseInt(PORT, 10),
@@ -350,7 +291,7 @@ app.get('/api/panel-info', async (req, res) => {
 });
 
 // Panel restart endpoint — restarts the panel process (works with exe or node)
-app.post('/api/panel/restart', (req, res) => {
+app.post('/api/panel/restart', requirePermission('settings.manage'), (req, res) => {
   log.info('Panel restart requested via API');
   res.json({ success: true, message: 'Panel is restarting...' });
   
@@ -387,14 +328,19 @@ app.get('*', (req, res) => {
   }
 });
 
-// Socket.IO connection handling
+// Socket.IO connection handling - the handshake must carry a valid session cookie
+io.use(authenticateSocket);
+
 io.on('connection', (socket) => {
-  log.debug(`Client connected: ${socket.id}`);
+  log.debug(`Client connected: ${socket.id} (${socket.data.user?.username})`);
   
   socket.on('disconnect', () => {
     log.debug(`Client disconnected: ${socket.id}`);
   });
   
+  // The user's own room, for results of actions they started (macro steps)
+  socket.join(`user:${socket.data.user.id}`);
+  
   // Subscribe to server status updates
   socket.on('subscribe:status', () => {
     socket.join('server-status');
@@ -405,10 +351,45 @@ io.on('connection', (socket) => {
     socket.join('players');
   });
   
-  // Subscribe to logs
+  // Subscribe to logs (panel log lines and RCON output) - for the roles
+  // that may read the logs over HTTP (GET /api/debug/logs)
   socket.on('subscribe:logs', () => {
+    if (!hasPermission(socket.data.user, resolveRoutePermission('debug', 'GET', '/logs'))) {
+      log.debug(`Refused log subscription for ${socket.data.user.username}`);
+      return;
+    }
     socket.join('logs');
   });
+  
+  socket.on('unsubscribe:logs', () => {
+    socket.leave('logs');
+  });
+  
+  // Subscribe to captured server console output
+  socket.on('subscribe:console', () => {
+    socket.join('server-console');
+  });
+  
+  socket.on('unsubscribe:console', () => {
+    socket.leave('server-console');
+  });
+  
+  // Subscribe to the state of all servers (server switcher)
+  socket.on('subscribe:instances', () => {
+    socket.join('server-instances');
+  });
+  
+  // Subscribe to every event of one server (state, console, players, chat),
+  // whether or not it is the active server
+  socket.on('subscribe:server', (serverId) => {
+    if (instances.get(serverId)) {
+      socket.join(`server:${serverId ?? 'default'}`);
+    }
+  });
+  
+  socket.on('unsubscribe:server', (serverId) => {
+    socket.leave(`server:${serverId ?? 'default'}`);
+  });
 });
 
 // Stream logs to Socket.IO clients
@@ -417,92 +398,20 @@ onLog((logEntry) => {
   io.to('logs').emit('log:entry', logEntry);
 });
 
-// ============================================
-// Server-side player polling for real-time updates
-// ============================================
-let lastPlayerList = [];
-let playerPollingInterval = null;
-
-function startPlayerPolling() {
-  // Poll every 5 seconds for player changes
-  if (playerPollingInterval) {
-    clearInterval(playerPollingInterval);
-  }
-  
-  playerPollingInterval = setInterval(async () => {
-    try {
-      // Only poll if RCON is connected
-      if (!rconService.connected) {
-        return;
-      }
-      
-      const result = await rconService.getPlayers();
-      if (result.success && result.players) {
-        // Check if player list has changed
-        const currentNames = result.players.map(p => p.name).sort().join(',');
-        const lastNames = lastPlayerList.map(p => p.name).sort().join(',');
-        
-        if (currentNames !== lastNames) {
-          lastPlayerList = result.players;
-          // Broadcast to all clients in the 'players' room
-          io.to('players').emit('players:update', result.players);
-          log.debug(`Player list updated: ${result.players.length} players online`);
-        }
-      }
-    } catch (error) {
-      // Silently ignore polling errors to avoid log spam
-      log.debug(`Player polling error: ${error.message}`);
-    }
-  }, 5000);
-  
-  log.info('Server-side player polling started (5s interval)');
-}
-
-function stopPlayerPolling() {
-  if (playerPollingInterval) {
-    clearInterval(playerPollingInterval);
-    playerPollingInterval = null;
-    log.info('Server-side player polling stopped');
-  }
-}
-
 // Initialize and start server
 async function start() {
   try {
     // ── Database ──
     logSection('Database');
     await initDatabase();
+    await initAuth();
     log.info('Database ready');
 
     // ── Services ──
     logSection('Services');
 
-    // Initialize log tailer
-    await logTailer.init();
-    
-    // Broadcast live chat messages to Socket.IO clients
-    logTailer.on('chatMessage', (data) => {
-        io.emit('chat:message', {
-            id: Date.now().toString(),
-            type: 'general', // Default to general for now
-            author: data.author,
-            message: data.message,
-            timestamp: data.timestamp
-        });
-    });
-    
-    // Initialize scheduler first (needed by modChecker for auto-restart)
-    await scheduler.init();
-    
-    // Initialize mod checker with scheduler, serverManager, and socket.io
-    await modChecker.init(scheduler, serverManager, io);
-    
-    // Start mod checker if workshop ACF file is found
-    if (modChecker.workshopAcfPath) {
-      modChecker.start();
-    } else {
-      log.info('Mod checker: Workshop ACF not found — configure server install path');
-    }
+    // One set of services per server instance
+    await instances.init();
     
     // Initialize Discord bot
     await discordBot.loadConfig();
@@ -513,139 +422,11 @@ async function start() {
     // ── Server Detection ──
     logSection('Server Detection');
 
-    // Check if PZ server is already running and auto-configure services
+    // Check which servers are already running and auto-configure their services
     // Run this in the background so it doesn't block server startup
-    (async () => {
-      try {
-        // Wait a moment for everything to initialize
-        await new Promise(r => setTimeout(r, 1000));
-        
-        // STEP 1: Try to start PanelBridge first (file-based, independent of RCON)
-        // This works even if RCON isn't connected yet
-        const bridgeStarted = await tryStartPanelBridge('startup');
-        if (bridgeStarted) {
-          log.info('PanelBridge started on startup (found active bridge files)');
-        }
-        
-        // STEP 2: Check if PZ server is running and connect RCON
-        const timeoutMs = 15000;
-        const isRunning = await Promise.race([
-          serverManager.checkServerRunning(),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('Server check timeout')), timeoutMs))
-        ]);
-        
-        if (isRunning) {
-          log.info('PZ server detected running - connecting RCON...');
-          
-          // Try to connect RCON with retries
-          let connected = false;
-          for (let attempt = 1; attempt <= 3; attempt++) {
-            try {
-              await Promise.race([
-                rconService.connect(),
-                new Promise((_, reject) => setTimeout(() => reject(new Error('RCON connection timeout')), timeoutMs))
-              ]);
-              
-              if (rconService.connected) {
-                connected = true;
-                log.info(`RCON connected on attempt ${attempt}`);
-                break;
-              }
-            } catch (e) {
-              log.debug(`RCON connection attempt ${attempt} failed: ${e.message}`);
-              if (attempt < 3) {
-                await new Promise(r => setTimeout(r, 5000)); // Wait 5s before retry
-              }
-            }
-          }
-          
-          if (!connected) {
-            log.warn('RCON connection failed after 3 attempts - auto-reconnect will keep trying');
-          }
-        } else {
-          log.info('PZ server not detected running on startup');
-          
-          // Check if auto-start is enabled
-          const autoStartServer = await getSetting('autoStartServer');
-          if (autoStartServer === true || autoStartServer === 'true') {
-            log.info('Auto-start is enabled - starting PZ server...');
-            
-            // Set flag to prevent auto-reconnect from interfering
-            rconService.setServerStarting(true);
-            
-            try {
-              const startResult = await serverManager.startServer();
-              if (startResult.success) {
-                log.info('PZ server auto-started successfully');
-                
-                // Wait for server to fully start before connecting RCON
-                // Monitor the TCP port instead of hard waiting
-                log.info('PZ server auto-started - Monitoring RCON port...');
-                
-                await rconService.loadConfig(); // Ensure clean config
-                const rconHost = rconService.config.host || '127.0.0.1';
-                const rconPort = rconService.config.port || 27015;
-                
-                let connected = false;
-                const maxPollAttempts = 60; // 5 minutes max
-                
-                for (let i = 0; i < maxPollAttempts; i++) {
-                  // Check port readiness
-                  const portOpen = await rconService.checkPortOpen(rconHost, rconPort);
-                  
-                  if (!portOpen) {
-                    // Log every 30s
-                    if (i % 6 === 0) {
-                      log.debug(`Auto-start: Waiting for RCON port ${rconHost}:${rconPort}...`);
-                    }
-                    await new Promise(r => setTimeout(r, 5000));
-                    continue;
-                  }
-                  
-                  // Port is open, try to connect
-                  log.info(`RCON port open! Attempting connection...`);
-                  
-                  try {
-                    await Promise.race([
-                      rconService.connect(),
-                      new Promise((_, reject) => setTimeout(() => reject(new Error('RCON connection timeout')), 15000))
-                    ]);
-                    
-                    if (rconService.connected) {
-                      log.info('RCON connected successfully after auto-start');
-                      connected = true;
-                      break;
-                    } else {
-                        // Port open but auth/handshake failed
-                        log.debug('RCON port open but connection failed, retrying in 5s...');
-                        await new Promise(r => setTimeout(r, 5000));
-                    }
-                  } catch (e) {
-                    log.debug(`Auto-start RCON connection failed: ${e.message}`);
-                    await new Promise(r => setTimeout(r, 5000));
-                  }
-                }
-              } else {
-                log.error('Failed to auto-start PZ server:', startResult.error);
-              }
-            } catch (e) {
-              log.error('Error during auto-start:', e.message);
-            } finally {
-              // Clear the flag so auto-reconnect can resume normally
-              rconService.setServerStarting(false);
-            }
-          }
-          
-          // Even if server isn't running, Panel Bridge might have stale files
-          // The bridge will detect the mod isn't responding via status timestamp
-        }
-      } catch (e) {
-        log.debug(`Startup initialization: ${e.message}`);
-      }
-    })();
-    
-    // Start server-side player polling for real-time updates
-    startPlayerPolling();
+    setTimeout(() => {
+      instances.detectRunningServers().catch(e => log.debug(`Startup initialization: ${e.message}`));
+    }, 1000);
     
     // Start update checker for server updates
     updateChecker.start();
@@ -0,0 +1,317 @@
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('API:Agent');
+import { localFs } from '../services/hostFs.js';
+import { createServerProcess } from '../services/serverProcess.js';
+import { isStartScriptPath } from '../utils/platform.js';
+
+// Routes served by a panel agent (agent.js) on a remote server's host. Every
+// request needs the agent token, and every path must lie inside one of the
+// agent's allowed roots.
+
+const router = express.Router();
+
+// fs operations the panel may call, and which of their arguments are paths
+const FS_OPS = {
+  exists: [0],
+  stat: [0],
+  readdir: [0],
+  readFile: [0],
+  writeFile: [0],
+  mkdir: [0],
+  rm: [0],
+  rmdir: [0],
+  unlink: [0],
+  rename: [0, 1],
+  copyFile: [0, 1],
+  cp: [0, 1]
+};
+
+function tokensMatch(expected, provided) {
+  const a = crypto.createHash('sha256').update(expected).digest();
+  const b = crypto.createHash('sha256').update(provided).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Require the agent token (Authorization: Bearer <token>)
+router.use((req, res, next) => {
+  const { token } = req.app.get('agentConfig');
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+  if (!match || !tokensMatch(token, match[1])) {
+    log.warn(`Rejected agent request from ${req.ip}`);
+    return res.status(401).json({ error: 'Invalid agent token' });
+  }
+  next();
+});
+
+/**
+ * Real path of a file, following symlinks. A path that does not exist yet
+ * (a file about to be written, a folder about to be made) is the real path
+ * of its nearest existing parent plus the rest.
+ */
+async function realpathOfNew(filePath) {
+  try {
+    return await fs.promises.realpath(filePath);
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    // A dangling symlink leads to wherever its target would be created
+    const target = await fs.promises.readlink(filePath).catch(() => null);
+    if (target !== null) return realpathOfNew(path.resolve(path.dirname(filePath), target));
+    const parent = path.dirname(filePath);
+    if (parent === filePath) throw error;
+    return path.join(await realpathOfNew(parent), path.basename(filePath));
+  }
+}
+
+/**
+ * Resolve a path and check it lies inside an allowed root. The check uses
+ * the real path, so a symlink inside a root cannot reach files outside it.
+ */
+async function resolveAllowedPath(req, filePath) {
+  if (typeof filePath !== 'string' || !filePath) {
+    throw Object.assign(new Error('Path is required'), { status: 400 });
+  }
+  const { roots } = req.app.get('agentConfig');
+  const resolved = path.resolve(filePath);
+  const real = await realpathOfNew(resolved);
+  const normalize = (p) => (process.platform === 'win32' ? p.toLowerCase() : p);
+  const allowed = roots.some(root => {
+    const relative = path.relative(normalize(root), normalize(real));
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  });
+  if (!allowed) {
+    throw Object.assign(new Error(`Path is outside the agent's allowed folders: ${filePath}`), { status: 403 });
+  }
+  return resolved;
+}
+
+/** JSON form of fs.Stats (see agentClient.js) */
+function toJsonStats(stats) {
+  return {
+    type: stats.isDirectory() ? 'directory' : stats.isFile() ? 'file' : 'other',
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+    birthtimeMs: stats.birthtimeMs
+  };
+}
+
+function sendError(res, error) {
+  const status = error.status || (error.code === 'ENOENT' ? 404 : 500);
+  res.status(status).json({ error: error.message, code: error.code });
+}
+
+async function runFsOp(op, args) {
+  switch (op) {
+    case 'stat':
+      return toJsonStats(await localFs.stat(args[0]));
+    case 'readdir': {
+      // Entries come with their stats so the panel can skip a stat per file
+      const entries = await localFs.readdir(args[0], { withFileTypes: true });
+      return Promise.all(entries.map(async entry => {
+        try {
+          return { name: entry.name, ...toJsonStats(await localFs.stat(path.join(args[0], entry.name))) };
+        } catch {
+          return { name: entry.name, type: entry.isDirectory() ? 'directory' : 'file', size: 0, mtimeMs: 0, birthtimeMs: 0 };
+        }
+      }));
+    }
+    case 'readFile': {
+      const [filePath, encoding] = args;
+      return encoding
+        ? localFs.readFile(filePath, encoding)
+        : (await localFs.readFile(filePath)).toString('base64');
+    }
+    case 'writeFile': {
+      const [filePath, data, encoding] = args;
+      await localFs.writeFile(filePath, encoding === 'base64' ? Buffer.from(data, 'base64') : data, encoding === 'base64' ? undefined : encoding);
+      return null;
+    }
+    default:
+      return (await localFs[op](...args)) ?? null;
+  }
+}
+
+// Agent details - the panel uses this to test the connection
+router.get('/info', (req, res) => {
+  const { roots, version } = req.app.get('agentConfig');
+  res.json({
+    agent: true,
+    version,
+    hostname: os.hostname(),
+    platform: process.platform,
+    roots
+  });
+});
+
+// File operations: { op, args }
+router.post('/fs', async (req, res) => {
+  const { op, args = [] } = req.body || {};
+  try {
+    if (!Object.hasOwn(FS_OPS, op) || !Array.isArray(args)) {
+      return res.status(400).json({ error: `Unknown file operation: ${op}` });
+    }
+    for (const index of FS_OPS[op]) {
+      args[index] = await resolveAllowedPath(req, args[index]);
+    }
+    res.json({ result: await runFsOp(op, args) });
+  } catch (error) {
+    if (error.code !== 'ENOENT') log.warn(`${op} failed: ${error.message}`);
+    sendError(res, error);
+  }
+});
+
+// Stream a file (backup downloads)
+router.get('/fs/stream', async (req, res) => {
+  try {
+    const filePath = await resolveAllowedPath(req, req.query.path);
+    const stats = await localFs.stat(filePath);
+    res.setHeader('Content-Length', stats.size);
+    res.setHeader('Content-Type', 'application/octet-stream');
+    fs.createReadStream(filePath).pipe(res);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Zip a folder, streaming progress as newline-delimited JSON
+router.post('/archive', async (req, res) => {
+  const { sourceDir, destFile, rootName, files = [] } = req.body || {};
+  let source, dest;
+  try {
+    source = await resolveAllowedPath(req, sourceDir);
+    dest = await resolveAllowedPath(req, destFile);
+  } catch (error) {
+    return sendError(res, error);
+  }
+
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  const send = (message) => res.write(`${JSON.stringify(message)}\n`);
+
+  let lastSent = 0;
+  try {
+    const result = await localFs.archive(source, dest, {
+      rootName,
+      files: files.map(file => ({ name: file.name, content: Buffer.from(file.content, 'base64') })),
+      onProgress: (progress) => {
+        // Every 50 files is enough for the panel's progress bar
+        if (progress.filesProcessed === undefined || progress.filesProcessed - lastSent >= 50 || progress.filesProcessed === progress.totalFiles) {
+          lastSent = progress.filesProcessed ?? 0;
+          send({ progress });
+        }
+      }
+    });
+    log.info(`Archived ${source} -> ${dest}`);
+    send({ result });
+  } catch (error) {
+    log.error(`Archive failed: ${error.message}`);
+    send({ error: error.message, code: error.code });
+  }
+  res.end();
+});
+
+// Unzip an archive into a folder
+router.post('/extract', async (req, res) => {
+  try {
+    const { archiveFile, destDir } = req.body || {};
+    const archive = await resolveAllowedPath(req, archiveFile);
+    const dest = await resolveAllowedPath(req, destDir);
+    await localFs.extract(archive, dest);
+    log.info(`Extracted ${archive} -> ${dest}`);
+    res.json({ success: true });
+  } catch (error) {
+    log.error(`Extract failed: ${error.message}`);
+    sendError(res, error);
+  }
+});
+
+// ── Server process ──
+// The game server is found, started and stopped the way the panel does it
+// for a local server (services/serverProcess.js). Requests name the install
+// folder and the server name, which tell servers sharing a host apart.
+
+// Start scripts the agent started, by install folder and server name
+const startedScripts = new Map();
+
+/** Install folder, server name and process controller for a process request */
+async function resolveServerProcess(req) {
+  const { serverPath, serverName } = req.body || {};
+  if (typeof serverName !== 'string' || !serverName) {
+    throw Object.assign(new Error('Server name is required'), { status: 400 });
+  }
+  const cwd = await resolveAllowedPath(req, serverPath);
+  return {
+    cwd,
+    key: `${cwd}|${serverName.toLowerCase()}`,
+    serverProcess: createServerProcess(() => cwd, () => serverName)
+  };
+}
+
+router.post('/process/status', async (req, res) => {
+  try {
+    const { serverProcess } = await resolveServerProcess(req);
+    res.json({ running: await serverProcess.isRunning() });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Run a start script from the install folder: { serverPath, serverName, script, args }
+router.post('/process/start', async (req, res) => {
+  try {
+    const { script, args = [] } = req.body || {};
+    const { cwd, key, serverProcess } = await resolveServerProcess(req);
+    if (typeof script !== 'string' || path.basename(script) !== script || !isStartScriptPath(script)) {
+      return res.status(400).json({ error: `Not a start script: ${script}` });
+    }
+    if (!Array.isArray(args) || args.some(arg => typeof arg !== 'string')) {
+      return res.status(400).json({ error: 'Start script arguments must be text' });
+    }
+    if (!(await localFs.exists(await resolveAllowedPath(req, path.join(cwd, script))))) {
+      return res.status(404).json({ error: `Server start script not found: ${path.join(cwd, script)}` });
+    }
+    if (await serverProcess.isRunning()) {
+      return res.status(409).json({ error: 'Server is already running' });
+    }
+
+    const child = serverProcess.start({ cwd, script, args });
+    await new Promise((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+    // Nobody reads the output here - keep the pipes from filling up
+    child.stdout?.resume();
+    child.stderr?.resume();
+    child.on('error', (error) => log.error(`Server process error: ${error.message}`));
+    child.on('exit', () => {
+      if (startedScripts.get(key) === child) startedScripts.delete(key);
+    });
+    child.unref();
+    startedScripts.set(key, child);
+
+    log.info(`Started ${script} in ${cwd} (PID ${child.pid})`);
+    res.json({ pid: child.pid });
+  } catch (error) {
+    log.error(`Server start failed: ${error.message}`);
+    sendError(res, error);
+  }
+});
+
+// Stop the server - SIGTERM then SIGKILL on Linux, taskkill on Windows
+router.post('/process/stop', async (req, res) => {
+  try {
+    const { cwd, key, serverProcess } = await resolveServerProcess(req);
+    const result = await serverProcess.stop(startedScripts.get(key)?.pid);
+    startedScripts.delete(key);
+    if (result.stopped) log.info(`Stopped the server in ${cwd}`);
+    res.json(result);
+  } catch (error) {
+    log.error(`Server stop failed: ${error.message}`);
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,74 @@
+import express from 'express';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('API:Audit');
+import { getAuditLog, getAuditActors } from '../database/init.js';
+import { AUDIT_SOURCES } from '../utils/audit.js';
+
+const router = express.Router();
+
+const EXPORT_COLUMNS = ['created_at', 'actor', 'source', 'action', 'target', 'success', 'status', 'error', 'ip', 'params'];
+
+function parseFilters(query) {
+  const filters = {};
+  for (const key of ['actor', 'source', 'action', 'since', 'until', 'search']) {
+    if (typeof query[key] === 'string' && query[key].trim()) {
+      filters[key] = query[key].trim();
+    }
+  }
+  if (query.success === 'true') filters.success = true;
+  if (query.success === 'false') filters.success = false;
+  return filters;
+}
+
+function toCsvValue(value) {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from evaluating player-supplied text as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Query the audit log
+router.get('/', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 100, 1000);
+    const offset = Math.max(parseInt(req.query.offset, 10) || 0, 0);
+    const result = await getAuditLog(parseFilters(req.query), limit, offset);
+    res.json({ ...result, limit, offset });
+  } catch (error) {
+    log.error(`Failed to get audit log: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Values for the filter dropdowns
+router.get('/filters', async (req, res) => {
+  try {
+    res.json({ actors: await getAuditActors(), sources: AUDIT_SOURCES });
+  } catch (error) {
+    log.error(`Failed to get audit filters: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Download the filtered audit log as CSV or JSON
+router.get('/export', async (req, res) => {
+  try {
+    const format = req.query.format === 'csv' ? 'csv' : 'json';
+    const { entries } = await getAuditLog(parseFilters(req.query), Infinity);
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'csv') {
+      const rows = entries.map(e => EXPORT_COLUMNS.map(column => toCsvValue(e[column])).join(','));
+      res.type('text/csv').send([EXPORT_COLUMNS.join(','), ...rows].join('\n'));
+    } else {
+      res.json(entries);
+    }
+  } catch (error) {
+    log.error(`Failed to export audit log: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
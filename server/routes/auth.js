@@ -0,0 +1,190 @@
+import express from 'express';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('API:Auth');
+import {
+  getPanelUsers,
+  getPanelUserByUsername,
+  createInitialPanelUser,
+  updatePanelUser,
+  createPanelSession,
+  deletePanelSession,
+  deletePanelSessionsForUser
+} from '../database/init.js';
+import {
+  SESSION_TTL_MS,
+  USERNAME_REGEX,
+  hashPassword,
+  verifyPassword,
+  validatePassword,
+  generateSessionToken,
+  hashSessionToken,
+  setSessionCookie,
+  clearSessionCookie,
+  resolveSession,
+  requireSession,
+  disconnectSockets,
+  toPublicUser
+} from '../utils/auth.js';
+
+const router = express.Router();
+
+// Login throttling - per client IP, in memory
+const LOGIN_MAX_FAILURES = 5;
+const LOGIN_LOCKOUT_MS = 15 * 60000;
+const loginFailures = new Map();
+
+function isLockedOut(ip) {
+  const entry = loginFailures.get(ip);
+  if (!entry) return false;
+  if (Date.now() - entry.firstFailure > LOGIN_LOCKOUT_MS) {
+    loginFailures.delete(ip);
+    return false;
+  }
+  return entry.count >= LOGIN_MAX_FAILURES;
+}
+
+function recordLoginFailure(ip) {
+  const entry = loginFailures.get(ip);
+  if (!entry || Date.now() - entry.firstFailure > LOGIN_LOCKOUT_MS) {
+    loginFailures.set(ip, { count: 1, firstFailure: Date.now() });
+  } else {
+    entry.count++;
+  }
+}
+
+async function startSession(req, res, user) {
+  const token = generateSessionToken();
+  await createPanelSession(user.id, hashSessionToken(token), Date.now() + SESSION_TTL_MS, {
+    ip: req.ip,
+    userAgent: req.get('user-agent')
+  });
+  setSessionCookie(req, res, token);
+  req.user = user; // Attribute the login in the audit log
+  return updatePanelUser(user.id, { last_login: new Date().toISOString() });
+}
+
+// Current authentication state (public)
+router.get('/status', async (req, res) => {
+  try {
+    const users = await getPanelUsers();
+    const resolved = await resolveSession(req.headers.cookie);
+    res.json({
+      authenticated: !!resolved,
+      user: resolved ? toPublicUser(resolved.user) : null,
+      setupRequired: users.length === 0
+    });
+  } catch (error) {
+    log.error(`Failed to get auth status: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// First-run: create the initial account (only allowed while no account exists)
+router.post('/setup', async (req, res) => {
+  try {
+    const users = await getPanelUsers();
+    if (users.length > 0) {
+      return res.status(409).json({ error: 'Panel account already configured' });
+    }
+
+    const { username, password } = req.body;
+    if (typeof username !== 'string' || !USERNAME_REGEX.test(username)) {
+      return res.status(400).json({ error: 'Username must be 3-32 characters (letters, numbers, _ . -)' });
+    }
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const created = await createInitialPanelUser(username, await hashPassword(password));
+    if (!created) {
+      return res.status(409).json({ error: 'Panel account already configured' });
+    }
+    const user = await startSession(req, res, created);
+
+    log.info(`Initial panel account "${username}" created from ${req.ip}`);
+    res.json({ success: true, user: toPublicUser(user) });
+  } catch (error) {
+    log.error(`Account setup failed: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Login
+router.post('/login', async (req, res) => {
+  try {
+    if (isLockedOut(req.ip)) {
+      return res.status(429).json({ error: 'Too many failed login attempts. Try again later.' });
+    }
+
+    const { username, password } = req.body;
+    if (!username || !password) {
+      return res.status(400).json({ error: 'Username and password are required' });
+    }
+
+    const user = await getPanelUserByUsername(username);
+    const valid = user ? await verifyPassword(password, user.password_hash) : false;
+
+    if (!valid) {
+      recordLoginFailure(req.ip);
+      log.warn(`Failed login for "${username}" from ${req.ip}`);
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    loginFailures.delete(req.ip);
+    const loggedIn = await startSession(req, res, user);
+
+    log.info(`User "${user.username}" logged in from ${req.ip}`);
+    res.json({ success: true, user: toPublicUser(loggedIn) });
+  } catch (error) {
+    log.error(`Login failed: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Logout - ends the current session only
+router.post('/logout', async (req, res) => {
+  try {
+    const resolved = await resolveSession(req.headers.cookie);
+    if (resolved) {
+      req.user = resolved.user;
+      await deletePanelSession(resolved.session.id);
+      disconnectSockets(req.app.get('io'), socket => socket.data.sessionId === resolved.session.id);
+      log.info(`User "${resolved.user.username}" logged out`);
+    }
+    clearSessionCookie(req, res);
+    res.json({ success: true });
+  } catch (error) {
+    log.error(`Logout failed: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Change password - signs out every other session of the user
+router.post('/password', requireSession, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!(await verifyPassword(currentPassword, req.user.password_hash))) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    await updatePanelUser(req.user.id, { password_hash: await hashPassword(newPassword) });
+    const removed = await deletePanelSessionsForUser(req.user.id, req.session.id);
+    disconnectSockets(req.app.get('io'), socket =>
+      socket.data.user?.id === req.user.id && socket.data.sessionId !== req.session.id
+    );
+
+    log.info(`User "${req.user.username}" changed password (${removed} other session(s) signed out)`);
+    res.json({ success: true, message: 'Password changed' });
+  } catch (error) {
+    log.error(`Password change failed: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,6 +1,5 @@
 import express from 'express';
 import path from 'path';
-import fs from 'fs';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('API:Backup');
 
@@ -116,12 +115,24 @@ router.get('/download/:name', async (req, res) => {
     }
     
     const backupPath = path.join(backupsPath, safeName);
+    const hostFs = await backupService.getHostFs();
     
-    if (!fs.existsSync(backupPath)) {
+    if (!await hostFs.exists(backupPath)) {
       return res.status(404).json({ error: 'Backup not found' });
     }
     
-    res.download(backupPath, safeName);
+    if (!hostFs.isRemote) {
+      return res.download(backupPath, safeName);
+    }
+    
+    // Remote backups are streamed through from the server's agent
+    const stream = await hostFs.createReadStream(backupPath);
+    res.attachment(safeName);
+    stream.on('error', (error) => {
+      log.error(`Backup download interrupted: ${error.message}`);
+      res.destroy(error);
+    });
+    stream.pipe(res);
   } catch (error) {
     log.error(`Failed to download backup: ${error.message}`);
     res.status(500).json({ error: error.message });
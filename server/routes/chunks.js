@@ -3,14 +3,15 @@ import fs from 'fs';
 import path from 'path';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('API:Chunks');
-import { getSetting, getActiveServer } from '../database/init.js';
+import { getSetting, resolveServer } from '../database/init.js';
+import { getRequestFs } from '../services/hostFs.js';
 
 const router = express.Router();
 
 // Helper: Get zomboidDataPath from active server or legacy settings
-async function getZomboidDataPath() {
+async function getZomboidDataPath(req) {
   // First try active server (multi-server support)
-  const activeServer = await getActiveServer();
+  const activeServer = await resolveServer(req.app.get('serverId'));
   if (activeServer?.zomboidDataPath) {
     return activeServer.zomboidDataPath;
   }
@@ -23,35 +24,36 @@ async function getZomboidDataPath() {
 // Get list of available saves
 router.get('/saves', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     // Use zomboidDataPath (the parent folder containing Saves, Server, Logs, etc.)
-    const zomboidDataPath = await getZomboidDataPath();
+    const zomboidDataPath = await getZomboidDataPath(req);
     if (!zomboidDataPath) {
       return res.status(400).json({ error: 'Zomboid data path not set. Configure a server first.' });
     }
     
     const savesPath = path.join(zomboidDataPath, 'Saves', 'Multiplayer');
     
-    if (!fs.existsSync(savesPath)) {
+    if (!await hostFs.exists(savesPath)) {
       return res.json({ saves: [] });
     }
     
-    const entries = await fs.promises.readdir(savesPath, { withFileTypes: true });
+    const entries = await hostFs.readdir(savesPath, { withFileTypes: true });
     
     const saves = await Promise.all(entries
       .filter(d => d.isDirectory())
       .map(async d => {
         const savePath = path.join(savesPath, d.name);
-        const stats = await fs.promises.stat(savePath);
+        const stats = await hostFs.stat(savePath);
         
         // Count chunk files (uses recursive count for B42's subdirectory structure)
         let chunkCount = 0;
         const mapPath = path.join(savePath, 'map');
-        if (fs.existsSync(mapPath)) {
-          chunkCount = await countFiles(mapPath);
+        if (await hostFs.exists(mapPath)) {
+          chunkCount = await countFiles(hostFs, mapPath);
         }
         
         // Get save size
-        const size = await getDirSize(savePath);
+        const size = await getDirSize(hostFs, savePath);
         
         return {
           name: d.name,
@@ -72,15 +74,16 @@ router.get('/saves', async (req, res) => {
 // Get chunk data for a specific save
 router.get('/chunks/:saveName', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { saveName } = req.params;
     
     // Sanitize saveName to prevent path traversal
-    const sanitizedSaveName = path.basename(saveName);
+    const sanitizedSaveName = hostFs.path.basename(saveName);
     if (!sanitizedSaveName || sanitizedSaveName !== saveName) {
       return res.status(400).json({ error: 'Invalid save name' });
     }
     
-    const zomboidDataPath = await getZomboidDataPath();
+    const zomboidDataPath = await getZomboidDataPath(req);
     
     if (!zomboidDataPath) {
       return res.status(400).json({ error: 'Zomboid data path not set' });
@@ -89,7 +92,7 @@ router.get('/chunks/:saveName', async (req, res) => {
     const savePath = path.join(zomboidDataPath, 'Saves', 'Multiplayer', sanitizedSaveName);
     const mapPath = path.join(savePath, 'map');
     
-    if (!fs.existsSync(mapPath)) {
+    if (!await hostFs.exists(mapPath)) {
       return res.json({ chunks: [], bounds: null });
     }
     
@@ -99,7 +102,7 @@ router.get('/chunks/:saveName', async (req, res) => {
     
     // B42 uses subdirectory structure: map/{X}/{Y}.bin
     // First try the new B42 directory-based structure
-    const mapContents = await fs.promises.readdir(mapPath, { withFileTypes: true });
+    const mapContents = await hostFs.readdir(mapPath, { withFileTypes: true });
     const xDirs = mapContents.filter(d => d.isDirectory() && /^\d+$/.test(d.name));
     
     // Limit maximum chunks to prevent memory issues with very large maps
@@ -116,7 +119,7 @@ router.get('/chunks/:saveName', async (req, res) => {
         
         try {
           // Read Y files in this X directory
-          const yFiles = await fs.promises.readdir(xPath);
+          const yFiles = await hostFs.readdir(xPath);
           
           // Filter and process files in parallel for this directory
           // (Batch size usually reasonable for one directory)
@@ -132,7 +135,7 @@ router.get('/chunks/:saveName', async (req, res) => {
                const filePath = path.join(xPath, yFile);
                
                try {
-                 const stats = await fs.promises.stat(filePath);
+                 const stats = await hostFs.stat(filePath);
                  return {
                     file: `${x}/${yFile}`,
                     x,
@@ -170,7 +173,7 @@ router.get('/chunks/:saveName', async (req, res) => {
           try {
               const x = parseInt(match[1], 10);
               const y = parseInt(match[2], 10);
-              const stats = await fs.promises.stat(path.join(mapPath, file));
+              const stats = await hostFs.stat(path.join(mapPath, file));
               
               return {
                 file, x, y, size: stats.size, modified: stats.mtime
@@ -198,11 +201,11 @@ router.get('/chunks/:saveName', async (req, res) => {
     const isB42 = xDirs.length > 0;
     if (!isB42) {
       const chunkDataPath = path.join(savePath, 'chunkdata');
-      if (fs.existsSync(chunkDataPath)) {
+      if (await hostFs.exists(chunkDataPath)) {
         // Create a Set for O(1) lookup of existing chunks to prevent O(N^2) complexity
         const existingCoords = new Set(chunks.map(c => `${c.x},${c.y}`));
 
-        const chunkDataFiles = await fs.promises.readdir(chunkDataPath);
+        const chunkDataFiles = await hostFs.readdir(chunkDataPath);
         const validFiles = chunkDataFiles.filter(f => f.endsWith('.bin'));
 
         const chunkDataPromises = validFiles.map(async file => {
@@ -214,7 +217,7 @@ router.get('/chunks/:saveName', async (req, res) => {
             // Check if we already have this chunk from map folder
             if (!existingCoords.has(`${x},${y}`)) {
               try {
-                  const stats = await fs.promises.stat(path.join(chunkDataPath, file));
+                  const stats = await hostFs.stat(path.join(chunkDataPath, file));
                   return {
                     file, x, y, size: stats.size, modified: stats.mtime, source: 'chunkdata'
                   };
@@ -259,6 +262,7 @@ router.get('/chunks/:saveName', async (req, res) => {
 // Delete selected chunks
 router.post('/delete-chunks', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { saveName, chunks, createBackup = true } = req.body;
     
     if (!saveName || !chunks || !Array.isArray(chunks) || chunks.length === 0) {
@@ -266,7 +270,7 @@ router.post('/delete-chunks', async (req, res) => {
     }
     
     // Sanitize saveName to prevent path traversal
-    const sanitizedSaveName = path.basename(saveName);
+    const sanitizedSaveName = hostFs.path.basename(saveName);
     if (!sanitizedSaveName || sanitizedSaveName !== saveName) {
       return res.status(400).json({ error: 'Invalid save name' });
     }
@@ -285,21 +289,21 @@ router.post('/delete-chunks', async (req, res) => {
       }
     }
     
-    const zomboidDataPath = await getZomboidDataPath();
+    const zomboidDataPath = await getZomboidDataPath(req);
     if (!zomboidDataPath) {
       return res.status(400).json({ error: 'Zomboid data path not set' });
     }
     
     const savePath = path.join(zomboidDataPath, 'Saves', 'Multiplayer', sanitizedSaveName);
     
-    if (!fs.existsSync(savePath)) {
+    if (!await hostFs.exists(savePath)) {
       return res.status(404).json({ error: 'Save not found' });
     }
     
     // Create backup if requested
     if (createBackup) {
       const backupPath = path.join(zomboidDataPath, 'backups', `${sanitizedSaveName}_chunks_${Date.now()}`);
-      await fs.promises.mkdir(backupPath, { recursive: true });
+      await hostFs.mkdir(backupPath, { recursive: true });
       
       // Backup only the chunks we're about to delete
       // Do this in parallel but with error handling
@@ -310,7 +314,7 @@ router.post('/delete-chunks', async (req, res) => {
             try {
                 // Handle B42's subdirectory structure (e.g., "1000/1208.bin" -> "map_1000_1208.bin")
                 const backupName = `map_${chunk.file.replace(/[/\\]/g, '_')}`;
-                await fs.promises.copyFile(mapFile, path.join(backupPath, backupName), fs.constants.COPYFILE_EXCL);
+                await hostFs.copyFile(mapFile, path.join(backupPath, backupName), fs.constants.COPYFILE_EXCL);
             } catch (e) {
                 // Ignore ENOENT (file not found), effectively "if exists"
                 if (e.code !== 'ENOENT') throw e;
@@ -321,7 +325,7 @@ router.post('/delete-chunks', async (req, res) => {
               const chunkDataFile = path.join(savePath, 'chunkdata', chunk.file);
               try {
                   const backupName = `chunkdata_${chunk.file.replace(/[/\\]/g, '_')}`;
-                  await fs.promises.copyFile(chunkDataFile, path.join(backupPath, backupName), fs.constants.COPYFILE_EXCL);
+                  await hostFs.copyFile(chunkDataFile, path.join(backupPath, backupName), fs.constants.COPYFILE_EXCL);
               } catch (e) {
                   if (e.code !== 'ENOENT') throw e;
               }
@@ -347,7 +351,7 @@ router.post('/delete-chunks', async (req, res) => {
         // Delete from map folder
         const mapFile = path.join(savePath, 'map', chunk.file);
         try {
-            await fs.promises.unlink(mapFile);
+            await hostFs.unlink(mapFile);
             wasDeleted = true;
         } catch (e) {
             // Ignore if file doesn't exist
@@ -357,15 +361,15 @@ router.post('/delete-chunks', async (req, res) => {
         // Related data folders use flat file naming: prefix_X_Y.bin
         // Unlike map/ which uses B42's subdirectory structure (X/Y.bin)
         const chunkDataFile = path.join(savePath, 'chunkdata', `chunkdata_${chunk.x}_${chunk.y}.bin`);
-        try { await fs.promises.unlink(chunkDataFile); } catch (e) {}
+        try { await hostFs.unlink(chunkDataFile); } catch (e) {}
         
         // isoregiondata uses datachunk_X_Y.bin format
         const isoFile = path.join(savePath, 'isoregiondata', `datachunk_${chunk.x}_${chunk.y}.bin`);
-        try { await fs.promises.unlink(isoFile); } catch (e) {}
+        try { await hostFs.unlink(isoFile); } catch (e) {}
         
         // zpop uses zpop_X_Y.bin format
         const zpopFile = path.join(savePath, 'zpop', `zpop_${chunk.x}_${chunk.y}.bin`);
-        try { await fs.promises.unlink(zpopFile); } catch (e) {}
+        try { await hostFs.unlink(zpopFile); } catch (e) {}
         
         return { success: true, wasDeleted };
       } catch (err) {
@@ -390,8 +394,8 @@ router.post('/delete-chunks', async (req, res) => {
     for (const xDir of deletedXDirs) {
       try {
         const xPath = path.join(savePath, 'map', xDir);
-        const remaining = await fs.promises.readdir(xPath);
-        if (remaining.length === 0) await fs.promises.rmdir(xPath);
+        const remaining = await hostFs.readdir(xPath);
+        if (remaining.length === 0) await hostFs.rmdir(xPath);
       } catch (e) { /* ignore */ }
     }
     
@@ -412,6 +416,7 @@ router.post('/delete-chunks', async (req, res) => {
 // Delete chunks by region (x/y coordinate range)
 router.post('/delete-region', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { saveName, minX, maxX, minY, maxY, createBackup = true, invert = false } = req.body;
     
     if (!saveName || minX === undefined || maxX === undefined || minY === undefined || maxY === undefined) {
@@ -419,7 +424,7 @@ router.post('/delete-region', async (req, res) => {
     }
     
     // Sanitize saveName to prevent path traversal
-    const sanitizedSaveName = path.basename(saveName);
+    const sanitizedSaveName = hostFs.path.basename(saveName);
     if (!sanitizedSaveName || sanitizedSaveName !== saveName) {
       return res.status(400).json({ error: 'Invalid save name' });
     }
@@ -430,7 +435,7 @@ router.post('/delete-region', async (req, res) => {
       return res.status(400).json({ error: 'Region bounds must be numbers' });
     }
     
-    const zomboidDataPath = await getZomboidDataPath();
+    const zomboidDataPath = await getZomboidDataPath(req);
     if (!zomboidDataPath) {
       return res.status(400).json({ error: 'Zomboid data path not set' });
     }
@@ -438,13 +443,13 @@ router.post('/delete-region', async (req, res) => {
     const savePath = path.join(zomboidDataPath, 'Saves', 'Multiplayer', sanitizedSaveName);
     const mapPath = path.join(savePath, 'map');
     
-    if (!fs.existsSync(mapPath)) {
+    if (!await hostFs.exists(mapPath)) {
       return res.status(404).json({ error: 'Save map folder not found' });
     }
     
     // Get all chunks - handle both B42 directory structure and legacy flat files
     const chunksToDelete = [];
-    const mapContents = await fs.promises.readdir(mapPath, { withFileTypes: true });
+    const mapContents = await hostFs.readdir(mapPath, { withFileTypes: true });
     const xDirs = mapContents.filter(d => d.isDirectory() && /^\d+$/.test(d.name));
     
     if (xDirs.length > 0) {
@@ -457,7 +462,7 @@ router.post('/delete-region', async (req, res) => {
         const xPath = path.join(mapPath, xDir.name);
         
         try {
-          const yFiles = await fs.promises.readdir(xPath);
+          const yFiles = await hostFs.readdir(xPath);
           const binFiles = yFiles.filter(f => f.endsWith('.bin'));
           
           for (const yFile of binFiles) {
@@ -511,21 +516,21 @@ router.post('/delete-region', async (req, res) => {
     // Create backup if requested
     if (createBackup) {
       const backupPath = path.join(zomboidDataPath, 'backups', `${sanitizedSaveName}_region_${Date.now()}`);
-      await fs.promises.mkdir(backupPath, { recursive: true });
+      await hostFs.mkdir(backupPath, { recursive: true });
       
       // Parallel backup
       await Promise.all(chunksToDelete.map(async chunk => {
         const srcFile = path.join(mapPath, chunk.file);
         try {
              const backupName = `map_${chunk.file.replace(/[/\\]/g, '_')}`;
-             await fs.promises.copyFile(srcFile, path.join(backupPath, backupName));
+             await hostFs.copyFile(srcFile, path.join(backupPath, backupName));
         } catch (e) {
             // Ignore missing files or errors
         }
       }));
       
       // Save region info
-      await fs.promises.writeFile(
+      await hostFs.writeFile(
         path.join(backupPath, 'region_info.json'),
         JSON.stringify({ minX, maxX, minY, maxY, invert, chunksDeleted: chunksToDelete.length }, null, 2)
       );
@@ -538,7 +543,7 @@ router.post('/delete-region', async (req, res) => {
     
     await Promise.all(chunksToDelete.map(async chunk => {
       try {
-        await fs.promises.unlink(path.join(mapPath, chunk.file));
+        await hostFs.unlink(path.join(mapPath, chunk.file));
         // Atomic increment? JS is single threaded event loop, so yes this is safe.
         // But `deleted` is a simple var captured in closure.
         // It's safe in Node.js main thread.
@@ -554,7 +559,7 @@ router.post('/delete-region', async (req, res) => {
         await Promise.all(relatedFiles.map(async ({ folder, file }) => {
             try {
                 const relatedPath = path.join(savePath, folder, file);
-                await fs.promises.unlink(relatedPath);
+                await hostFs.unlink(relatedPath);
             } catch(e) {}
         }));
       } catch (err) {
@@ -571,8 +576,8 @@ router.post('/delete-region', async (req, res) => {
     for (const xDir of deletedXDirs) {
       try {
         const xDirPath = path.join(mapPath, xDir);
-        const remaining = await fs.promises.readdir(xDirPath);
-        if (remaining.length === 0) await fs.promises.rmdir(xDirPath);
+        const remaining = await hostFs.readdir(xDirPath);
+        if (remaining.length === 0) await hostFs.rmdir(xDirPath);
       } catch (e) { /* ignore */ }
     }
     
@@ -593,15 +598,16 @@ router.post('/delete-region', async (req, res) => {
 // Get save statistics
 router.get('/stats/:saveName', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { saveName } = req.params;
     
     // Sanitize saveName to prevent path traversal
-    const sanitizedSaveName = path.basename(saveName);
+    const sanitizedSaveName = hostFs.path.basename(saveName);
     if (!sanitizedSaveName || sanitizedSaveName !== saveName) {
       return res.status(400).json({ error: 'Invalid save name' });
     }
     
-    const zomboidDataPath = await getZomboidDataPath();
+    const zomboidDataPath = await getZomboidDataPath(req);
     
     if (!zomboidDataPath) {
       return res.status(400).json({ error: 'Zomboid data path not set' });
@@ -609,13 +615,13 @@ router.get('/stats/:saveName', async (req, res) => {
     
     const savePath = path.join(zomboidDataPath, 'Saves', 'Multiplayer', sanitizedSaveName);
     
-    if (!fs.existsSync(savePath)) {
+    if (!await hostFs.exists(savePath)) {
       return res.status(404).json({ error: 'Save not found' });
     }
     
     const stats = {
       saveName,
-      totalSize: await getDirSize(savePath), // Now awaited
+      totalSize: await getDirSize(hostFs, savePath), // Now awaited
       folders: {}
     };
     
@@ -624,9 +630,9 @@ router.get('/stats/:saveName', async (req, res) => {
     for (const folder of folders) {
       const folderPath = path.join(savePath, folder);
       try {
-        if (fs.existsSync(folderPath)) {
-            const fileCount = await countFiles(folderPath);
-            const size = await getDirSize(folderPath);
+        if (await hostFs.exists(folderPath)) {
+            const fileCount = await countFiles(hostFs, folderPath);
+            const size = await getDirSize(hostFs, folderPath);
             stats.folders[folder] = {
             fileCount,
             size,
@@ -638,18 +644,18 @@ router.get('/stats/:saveName', async (req, res) => {
     
     // Players count
     const playersDb = path.join(savePath, 'players.db');
-    if (fs.existsSync(playersDb)) {
+    if (await hostFs.exists(playersDb)) {
       try {
-        const s = await fs.promises.stat(playersDb);
+        const s = await hostFs.stat(playersDb);
         stats.playersDbSize = s.size;
       } catch (e) {}
     }
     
     // Vehicles db
     const vehiclesDb = path.join(savePath, 'vehicles.db');
-    if (fs.existsSync(vehiclesDb)) {
+    if (await hostFs.exists(vehiclesDb)) {
       try {
-        const s = await fs.promises.stat(vehiclesDb);
+        const s = await hostFs.stat(vehiclesDb);
         stats.vehiclesDbSize = s.size;
       } catch (e) {}
     }
@@ -664,19 +670,19 @@ router.get('/stats/:saveName', async (req, res) => {
 });
 
 // Helper functions
-async function getDirSize(dirPath) {
+async function getDirSize(hostFs, dirPath) {
   let totalSize = 0;
   try {
-    const files = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    const files = await hostFs.readdir(dirPath, { withFileTypes: true });
     
     for (const file of files) {
       const filePath = path.join(dirPath, file.name);
       if (file.isDirectory()) {
-         totalSize += await getDirSize(filePath);
+         totalSize += await getDirSize(hostFs, filePath);
       } else {
          // Optimization: We could just ignore stat failures
          try {
-           const stats = await fs.promises.stat(filePath);
+           const stats = await hostFs.stat(filePath);
            totalSize += stats.size;
          } catch (e) {}
       }
@@ -688,13 +694,13 @@ async function getDirSize(dirPath) {
 }
 
 // Count files recursively (handles B42's subdirectory structure)
-async function countFiles(dirPath) {
+async function countFiles(hostFs, dirPath) {
   let count = 0;
   try {
-    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    const entries = await hostFs.readdir(dirPath, { withFileTypes: true });
     for (const entry of entries) {
       if (entry.isDirectory()) {
-        count += await countFiles(path.join(dirPath, entry.name));
+        count += await countFiles(hostFs, path.join(dirPath, entry.name));
       } else {
         count++;
       }
@@ -2,6 +2,9 @@ import express from 'express';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('API:Config');
 import { getAllSettings, setSetting } from '../database/init.js';
+import { SECRET_SETTINGS, maskSecret, isMaskedSecret, maskIniSettings } from '../utils/secrets.js';
+import { requestHasPermission } from '../utils/permissions.js';
+import { DEFAULT_START_SCRIPT } from '../utils/platform.js';
 
 const router = express.Router();
 
@@ -13,7 +16,7 @@ const VALID_SETTINGS_KEYS = [
   'modCheckInterval', 'modAutoRestart', 'modRestartDelay',
   'darkMode', 'autoReconnect', 'reconnectInterval',
   'discordEnabled', 'discordToken', 'discordGuildId', 'discordAdminRole',
-  'autoStartServer',
+  'autoStartServer', 'crashRestartEnabled', 'crashRestartMaxAttempts',
   'panelPort'
 ];
 
@@ -34,7 +37,8 @@ router.get('/', async (req, res) => {
   try {
     const serverManager = req.app.get('serverManager');
     const config = await serverManager.getServerConfig();
-    res.json({ config });
+    // Only roles that can edit the config see the INI's passwords
+    res.json({ config: requestHasPermission(req, 'config.write') ? config : maskIniSettings(config) });
   } catch (error) {
     log.error(`Failed to get config: ${error.message}`);
     res.status(500).json({ error: error.message });
@@ -114,6 +118,9 @@ router.post('/option', async (req, res) => {
 router.get('/app-settings', async (req, res) => {
   try {
     const settings = await getAllSettings();
+    for (const key of SECRET_SETTINGS) {
+      if (key in settings) settings[key] = maskSecret(settings[key]);
+    }
     res.json({ settings });
   } catch (error) {
     log.error(`Failed to get app settings: ${error.message}`);
@@ -136,6 +143,10 @@ router.put('/app-settings', async (req, res) => {
         log.warn(`Invalid setting key rejected: ${key}`);
         continue;
       }
+      // Secrets come back masked when the user didn't change them
+      if (SECRET_SETTINGS.includes(key) && isMaskedSecret(value)) {
+        continue;
+      }
       await setSetting(key, value);
     }
     
@@ -163,7 +174,7 @@ router.get('/paths', async (req, res) => {
     res.json({
       serverPath: process.env.PZ_SERVER_PATH || '',
       savePath: process.env.PZ_SAVE_PATH || '',
-      serverBat: process.env.PZ_SERVER_BAT || 'StartServer64.bat'
+      serverBat: process.env.PZ_SERVER_BAT || DEFAULT_START_SCRIPT
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
@@ -204,7 +215,8 @@ const RCON_PASSWORD_MAX_LENGTH = 256;
 router.put('/rcon', async (req, res) => {
   try {
     const rconService = req.app.get('rconService');
-    const { host, port, password } = req.body;
+    const { host, port } = req.body;
+    const password = isMaskedSecret(req.body.password) ? undefined : req.body.password;
     
     // Validate host (if provided)
     if (host !== undefined) {
@@ -440,5 +440,66 @@ router.get('/crash-logs/:filename', async (req, res) => {
   }
 });
 
+// ── RCON queue inspector ──
+
+// The legacy (no servers configured) instance has no id
+function getQueueSet(req) {
+  const instances = req.app.get('serverInstances');
+  const serverId = req.params.serverId === 'default' ? null : req.params.serverId;
+  return instances.get(serverId);
+}
+
+// Queue state of every server instance
+router.get('/rcon-queue', async (req, res) => {
+  try {
+    const instances = req.app.get('serverInstances');
+    const servers = instances.list().map(set => ({
+      serverId: set.serverId,
+      name: set.name,
+      isActive: instances.isActive(set),
+      rconConnected: set.rconService.connected,
+      ...set.rconService.queue.getSnapshot()
+    }));
+    res.json({ servers });
+  } catch (error) {
+    log.error(`Failed to get RCON queue: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Send a dead-lettered command again
+router.post('/rcon-queue/:serverId/dead-letters/:id/retry', async (req, res) => {
+  try {
+    const set = getQueueSet(req);
+    if (!set) {
+      return res.status(404).json({ error: 'Server not found' });
+    }
+    const pending = set.rconService.queue.retryDeadLetter(parseInt(req.params.id, 10));
+    if (!pending) {
+      return res.status(404).json({ error: 'Dead letter not found' });
+    }
+    const result = await pending;
+    res.json(result);
+  } catch (error) {
+    log.error(`Failed to retry RCON command: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Clear the dead-letter list
+router.delete('/rcon-queue/:serverId/dead-letters', async (req, res) => {
+  try {
+    const set = getQueueSet(req);
+    if (!set) {
+      return res.status(404).json({ error: 'Server not found' });
+    }
+    const cleared = set.rconService.queue.clearDeadLetters();
+    res.json({ success: true, cleared });
+  } catch (error) {
+    log.error(`Failed to clear RCON dead letters: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
 export { logBuffer };
@@ -1,6 +1,7 @@
 import express from 'express';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('API:Discord');
+import { maskSecret, isMaskedSecret } from '../utils/secrets.js';
 
 const router = express.Router();
 
@@ -35,7 +36,7 @@ router.get('/config', async (req, res) => {
     await discordBot.loadConfig();
     
     res.json({
-      token: discordBot.token ? '••••••••' + discordBot.token.slice(-4) : null,
+      token: discordBot.token ? maskSecret(discordBot.token) : null,
       hasToken: !!discordBot.token,
       guildId: discordBot.guildId,
       adminRoleId: discordBot.adminRoleId,
@@ -60,8 +61,9 @@ router.put('/config', async (req, res) => {
     // Load current config to check for existing token
     await discordBot.loadConfig();
     
-    // Handle KEEP_EXISTING token marker
-    const finalToken = (token === 'KEEP_EXISTING' && discordBot.token) ? discordBot.token : token;
+    // Handle KEEP_EXISTING token marker (or the masked token sent back unchanged)
+    const keepToken = token === 'KEEP_EXISTING' || isMaskedSecret(token);
+    const finalToken = (keepToken && discordBot.token) ? discordBot.token : token;
     
     if (!finalToken || !guildId) {
       return res.status(400).json({ error: 'Token and Guild ID are required' });
@@ -195,6 +197,7 @@ router.get('/webhook-events', async (req, res) => {
     const defaultEvents = {
       serverStart: { enabled: false, template: '🟢 **Server Started**\nThe Project Zomboid server is now online!' },
       serverStop: { enabled: false, template: '🔴 **Server Stopped**\nThe server has been shut down.' },
+      serverCrash: { enabled: false, template: '💥 **Server Crashed**\n{reason}. {action}' },
       playerJoin: { enabled: false, template: '👋 **{player}** joined the server' },
       playerLeave: { enabled: false, template: '👋 **{player}** left the server' },
       scheduledRestart: { enabled: false, template: '⏰ **Scheduled Restart**\nServer will restart in {minutes} minutes' },
@@ -1,15 +1,15 @@
 import express from 'express';
 import path from 'path';
-import fs from 'fs';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('API:Mods');
-import { getTrackedMods, addTrackedMod, removeTrackedMod, clearModUpdates, getSetting, getActiveServer, getModPresets, createModPreset, updateModPreset, deleteModPreset } from '../database/init.js';
+import { getTrackedMods, addTrackedMod, removeTrackedMod, clearModUpdates, getSetting, resolveServer, getModPresets, createModPreset, updateModPreset, deleteModPreset } from '../database/init.js';
+import { getRequestFs } from '../services/hostFs.js';
 
 const router = express.Router();
 
 // Helper functions for multi-server support
-async function getServerConfigPath() {
-  const activeServer = await getActiveServer();
+async function getServerConfigPath(req) {
+  const activeServer = await resolveServer(req.app.get('serverId'));
   
   // First, use explicitly configured serverConfigPath if available
   if (activeServer?.serverConfigPath) {
@@ -33,8 +33,8 @@ async function getServerConfigPath() {
   return null;
 }
 
-async function getServerName() {
-  const activeServer = await getActiveServer();
+async function getServerName(req) {
+  const activeServer = await resolveServer(req.app.get('serverId'));
   if (activeServer?.serverName) {
     return activeServer.serverName;
   }
@@ -42,8 +42,8 @@ async function getServerName() {
   return legacyName || 'servertest';
 }
 
-async function getServerPath() {
-  const activeServer = await getActiveServer();
+async function getServerPath(req) {
+  const activeServer = await resolveServer(req.app.get('serverId'));
   if (activeServer?.installPath) {
     return activeServer.installPath;
   }
@@ -312,9 +312,10 @@ router.post('/cancel-pending-restart', async (req, res) => {
 // Sync mods from server config
 router.post('/sync-from-server', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     // Use direct INI reading (more reliable than serverManager which has path issues)
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     
     if (!serverConfigPath) {
       log.warn('sync-from-server: Server config path not set');
@@ -326,7 +327,7 @@ router.post('/sync-from-server', async (req, res) => {
     }
     
     // Sanitize serverName
-    const sanitizedServerName = path.basename(serverName);
+    const sanitizedServerName = hostFs.path.basename(serverName);
     if (!sanitizedServerName || sanitizedServerName !== serverName || serverName.includes('..')) {
       return res.status(400).json({ error: 'Invalid server name' });
     }
@@ -334,7 +335,7 @@ router.post('/sync-from-server', async (req, res) => {
     const iniPath = path.join(serverConfigPath, `${sanitizedServerName}.ini`);
     log.info(`sync-from-server: Looking for config at ${iniPath}`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       log.warn(`sync-from-server: Config file not found at ${iniPath}`);
       return res.json({ 
         success: false, 
@@ -344,7 +345,7 @@ router.post('/sync-from-server', async (req, res) => {
     }
     
     // Read and parse the INI file
-    const content = fs.readFileSync(iniPath, 'utf-8');
+    const content = await hostFs.readFile(iniPath, 'utf-8');
     const modsMatch = content.match(/^Mods=(.*)$/m);
     const workshopMatch = content.match(/^WorkshopItems=(.*)$/m);
     
@@ -546,6 +547,7 @@ router.post('/get-mod-info', async (req, res) => {
 // Write mods to server .ini file
 router.post('/write-to-ini', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { mods, mapFolders } = req.body;
     // mods: array of { workshopId, modId } where modId is the mod loading ID (from info.txt)
     // mapFolders: optional array of map folder names for map mods
@@ -554,23 +556,23 @@ router.post('/write-to-ini', async (req, res) => {
       return res.status(400).json({ error: 'Mods array is required' });
     }
     
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
-    const serverPath = await getServerPath();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
+    const serverPath = await getServerPath(req);
     
     if (!serverConfigPath) {
       return res.status(400).json({ error: 'Server config path not set. Please configure the server first.' });
     }
     
     // Sanitize serverName to prevent path traversal
-    const sanitizedServerName = path.basename(serverName);
+    const sanitizedServerName = hostFs.path.basename(serverName);
     if (!sanitizedServerName || sanitizedServerName !== serverName || serverName.includes('..')) {
       return res.status(400).json({ error: 'Invalid server name' });
     }
     
     const iniPath = path.join(serverConfigPath, `${sanitizedServerName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ 
         error: `Server config not found at ${iniPath}. Start the server once first to generate the config file.` 
       });
@@ -590,7 +592,7 @@ router.post('/write-to-ini', async (req, res) => {
       if (modId && /^\d+$/.test(modId)) {
         // First try local files
         if (serverPath) {
-          const detectedId = findModIdFromWorkshop(modId, serverPath);
+          const detectedId = await findModIdFromWorkshop(hostFs, modId, serverPath);
           if (detectedId) {
             modId = detectedId;
             autoDetectedCount++;
@@ -611,7 +613,7 @@ router.post('/write-to-ini', async (req, res) => {
       else if (!modId) {
         // First try local files
         if (serverPath) {
-          const detectedId = findModIdFromWorkshop(workshopIdStr, serverPath);
+          const detectedId = await findModIdFromWorkshop(hostFs, workshopIdStr, serverPath);
           if (detectedId) {
             modId = detectedId;
             autoDetectedCount++;
@@ -643,7 +645,7 @@ router.post('/write-to-ini', async (req, res) => {
     if (serverPath && (!mapFolders || mapFolders.length === 0)) {
       for (const m of mods) {
         const workshopIdStr = String(m.workshopId);
-        const modMapFolders = findMapFoldersFromWorkshop(workshopIdStr, serverPath);
+        const modMapFolders = await findMapFoldersFromWorkshop(hostFs, workshopIdStr, serverPath);
         for (const folder of modMapFolders) {
           if (!detectedMapFolders.includes(folder)) {
             detectedMapFolders.push(folder);
@@ -661,7 +663,7 @@ router.post('/write-to-ini', async (req, res) => {
     }
     
     // Read and update the ini file
-    let content = fs.readFileSync(iniPath, 'utf-8');
+    let content = await hostFs.readFile(iniPath, 'utf-8');
     
     // Update or add Mods= (mod IDs like NeatUI_Framework)
     if (content.includes('Mods=')) {
@@ -686,7 +688,7 @@ router.post('/write-to-ini', async (req, res) => {
       }
     }
     
-    fs.writeFileSync(iniPath, content, 'utf-8');
+    await hostFs.writeFile(iniPath, content, 'utf-8');
     
     log.info(`Wrote ${mods.length} mods to ${iniPath} (${autoDetectedCount} mod IDs auto-detected, ${detectedMapFolders.length} map folders)`);
     
@@ -710,8 +712,9 @@ router.post('/write-to-ini', async (req, res) => {
 // Get current mod configuration from .ini file
 router.get('/current-config', async (req, res) => {
   try {
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     
     if (!serverConfigPath) {
       return res.json({ 
@@ -721,21 +724,21 @@ router.get('/current-config', async (req, res) => {
     }
     
     // Sanitize serverName to prevent path traversal
-    const sanitizedServerName = path.basename(serverName);
+    const sanitizedServerName = hostFs.path.basename(serverName);
     if (!sanitizedServerName || sanitizedServerName !== serverName || serverName.includes('..')) {
       return res.status(400).json({ error: 'Invalid server name' });
     }
     
     const iniPath = path.join(serverConfigPath, `${sanitizedServerName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.json({ 
         configured: false,
         error: 'Server config file not found' 
       });
     }
     
-    const content = fs.readFileSync(iniPath, 'utf-8');
+    const content = await hostFs.readFile(iniPath, 'utf-8');
     
     // Extract mod-related settings
     const modsMatch = content.match(/^Mods=(.*)$/m);
@@ -763,6 +766,7 @@ router.get('/current-config', async (req, res) => {
 // Add a single mod to server .ini file (appends to existing mods)
 router.post('/add-to-ini', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { workshopId, modId } = req.body;
     // workshopId: the Steam Workshop ID
     // modId: optional - the mod loading ID (from info.txt). If not provided, workshopId is used as a placeholder
@@ -776,29 +780,29 @@ router.post('/add-to-ini', async (req, res) => {
       return res.status(400).json({ error: 'Invalid Workshop ID' });
     }
     
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     
     if (!serverConfigPath) {
       return res.status(400).json({ error: 'Server config path not set. Please configure the server first in Settings.' });
     }
     
     // Sanitize serverName to prevent path traversal
-    const sanitizedServerName = path.basename(serverName);
+    const sanitizedServerName = hostFs.path.basename(serverName);
     if (!sanitizedServerName || sanitizedServerName !== serverName || serverName.includes('..')) {
       return res.status(400).json({ error: 'Invalid server name' });
     }
     
     const iniPath = path.join(serverConfigPath, `${sanitizedServerName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ 
         error: `Server config not found at ${iniPath}. Start the server once first to generate the config file.` 
       });
     }
     
     // Read current config
-    let content = fs.readFileSync(iniPath, 'utf-8');
+    let content = await hostFs.readFile(iniPath, 'utf-8');
     
     // Get current workshop items
     const workshopMatch = content.match(/^WorkshopItems=(.*)$/m);
@@ -823,9 +827,9 @@ router.post('/add-to-ini', async (req, res) => {
     
     if (!detectedModId) {
       // First, try to find from already downloaded workshop folder
-      const serverPath = await getServerPath();
+      const serverPath = await getServerPath(req);
       if (serverPath) {
-        detectedModId = findModIdFromWorkshop(String(workshopId), serverPath);
+        detectedModId = await findModIdFromWorkshop(hostFs, String(workshopId), serverPath);
         if (detectedModId) {
           detectionSource = 'local-files';
           log.info(`Auto-detected mod ID from local files: ${detectedModId} for workshop ${workshopId}`);
@@ -870,9 +874,9 @@ router.post('/add-to-ini', async (req, res) => {
     
     // Check if this mod has map folders and add them to Map=
     let addedMapFolders = [];
-    const serverPath = await getServerPath();
+    const serverPath = await getServerPath(req);
     if (serverPath) {
-      const modMapFolders = findMapFoldersFromWorkshop(String(workshopId), serverPath);
+      const modMapFolders = await findMapFoldersFromWorkshop(hostFs, String(workshopId), serverPath);
       if (modMapFolders.length > 0) {
         // Get current map list
         const mapMatch = content.match(/^Map=(.*)$/m);
@@ -898,7 +902,7 @@ router.post('/add-to-ini', async (req, res) => {
       }
     }
     
-    fs.writeFileSync(iniPath, content, 'utf-8');
+    await hostFs.writeFile(iniPath, content, 'utf-8');
     
     log.info(`Added mod ${workshopId} to ${iniPath}${addedMapFolders.length > 0 ? ` with map folders: ${addedMapFolders.join(', ')}` : ''}`);
     
@@ -1021,28 +1025,28 @@ function getWorkshopPaths(workshopId, serverPath) {
 
 // Helper function to find map folders from a workshop mod
 // Map mods have a media/maps folder with their map folder inside
-function findMapFoldersFromWorkshop(workshopId, serverPath) {
+async function findMapFoldersFromWorkshop(hostFs, workshopId, serverPath) {
   const mapFolders = [];
   const possiblePaths = getWorkshopPaths(workshopId, serverPath);
   
   for (const workshopPath of possiblePaths) {
-    if (!fs.existsSync(workshopPath)) continue;
+    if (!await hostFs.exists(workshopPath)) continue;
     
     // Look for mods subfolder first (some mods have mods/ModName/media/maps structure)
     const modsFolder = path.join(workshopPath, 'mods');
-    const searchPath = fs.existsSync(modsFolder) ? modsFolder : workshopPath;
+    const searchPath = await hostFs.exists(modsFolder) ? modsFolder : workshopPath;
     
     try {
-      if (fs.existsSync(searchPath)) {
-        const entries = fs.readdirSync(searchPath, { withFileTypes: true });
+      if (await hostFs.exists(searchPath)) {
+        const entries = await hostFs.readdir(searchPath, { withFileTypes: true });
         for (const entry of entries) {
             if (!entry.isDirectory()) continue;
             
             // Check for media/maps folder in this mod
             const mapsPath = path.join(searchPath, entry.name, 'media', 'maps');
-            if (fs.existsSync(mapsPath)) {
+            if (await hostFs.exists(mapsPath)) {
             // Get the map folder names inside media/maps
-            const mapEntries = fs.readdirSync(mapsPath, { withFileTypes: true });
+            const mapEntries = await hostFs.readdir(mapsPath, { withFileTypes: true });
             for (const mapEntry of mapEntries) {
                 if (mapEntry.isDirectory()) {
                 mapFolders.push(mapEntry.name);
@@ -1055,8 +1059,8 @@ function findMapFoldersFromWorkshop(workshopId, serverPath) {
       
       // Also check direct media/maps path (some mods don't have mods subfolder)
       const directMapsPath = path.join(workshopPath, 'media', 'maps');
-      if (fs.existsSync(directMapsPath)) {
-        const mapEntries = fs.readdirSync(directMapsPath, { withFileTypes: true });
+      if (await hostFs.exists(directMapsPath)) {
+        const mapEntries = await hostFs.readdir(directMapsPath, { withFileTypes: true });
         for (const mapEntry of mapEntries) {
           if (mapEntry.isDirectory() && !mapFolders.includes(mapEntry.name)) {
             mapFolders.push(mapEntry.name);
@@ -1075,15 +1079,15 @@ function findMapFoldersFromWorkshop(workshopId, serverPath) {
 }
 
 // Helper function to find ALL mod IDs from workshop folder (returns array)
-function findAllModIdsFromWorkshop(workshopId, serverPath) {
-  const mods = getModDetailsFromWorkshop(workshopId, serverPath);
+async function findAllModIdsFromWorkshop(hostFs, workshopId, serverPath) {
+  const mods = await getModDetailsFromWorkshop(hostFs, workshopId, serverPath);
   return mods.map(m => m.id);
 }
 
 // Helper function to find mod ID from workshop folder
-function findModIdFromWorkshop(workshopId, serverPath) {
+async function findModIdFromWorkshop(hostFs, workshopId, serverPath) {
   // Use shared helper to parse details
-  const mods = getModDetailsFromWorkshop(workshopId, serverPath);
+  const mods = await getModDetailsFromWorkshop(hostFs, workshopId, serverPath);
   // Return the first ID found (legacy behavior)
   return mods.length > 0 ? mods[0].id : null;
 }
@@ -1091,24 +1095,24 @@ function findModIdFromWorkshop(workshopId, serverPath) {
 // Remove a single mod from server .ini file
 
 // Helper to getting full details of mods inside a workshop item
-function getModDetailsFromWorkshop(workshopId, serverPath) {
+async function getModDetailsFromWorkshop(hostFs, workshopId, serverPath) {
   const mods = [];
   const possiblePaths = getWorkshopPaths(workshopId, serverPath);
   
   for (const workshopPath of possiblePaths) {
-    if (!fs.existsSync(workshopPath)) continue;
+    if (!await hostFs.exists(workshopPath)) continue;
     
     const modsFolder = path.join(workshopPath, 'mods');
-    const searchPath = fs.existsSync(modsFolder) ? modsFolder : workshopPath;
+    const searchPath = await hostFs.exists(modsFolder) ? modsFolder : workshopPath;
     
     try {
-      const entries = fs.readdirSync(searchPath, { withFileTypes: true });
+      const entries = await hostFs.readdir(searchPath, { withFileTypes: true });
       for (const entry of entries) {
         if (!entry.isDirectory()) continue;
         
         const modInfoPath = path.join(searchPath, entry.name, 'mod.info');
-        if (fs.existsSync(modInfoPath)) {
-          const content = fs.readFileSync(modInfoPath, 'utf-8');
+        if (await hostFs.exists(modInfoPath)) {
+          const content = await hostFs.readFile(modInfoPath, 'utf-8');
           const info = {};
           
           // Parse mod.info
@@ -1154,15 +1158,16 @@ router.post('/inspect-workshop-item', async (req, res) => {
       return res.status(400).json({ error: 'Workshop ID is required' });
     }
 
-    const serverPath = await getServerPath();
+    const serverPath = await getServerPath(req);
     if (!serverPath) {
        return res.status(400).json({ error: 'Server path not configured' });
     }
 
-    const mods = getModDetailsFromWorkshop(workshopId, serverPath);
+    const hostFs = await getRequestFs(req);
+    const mods = await getModDetailsFromWorkshop(hostFs, workshopId, serverPath);
     
     // Also try to find map folders
-    const mapFolders = findMapFoldersFromWorkshop(workshopId, serverPath);
+    const mapFolders = await findMapFoldersFromWorkshop(hostFs, workshopId, serverPath);
 
     res.json({
       workshopId,
@@ -1180,33 +1185,34 @@ router.post('/inspect-workshop-item', async (req, res) => {
 // Remove a single mod from server .ini file
 router.post('/remove-from-ini', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { workshopId, modId } = req.body;
     
     if (!workshopId) {
       return res.status(400).json({ error: 'Workshop ID is required' });
     }
     
-    const serverConfigPath = await getServerConfigPath();
-    const serverPath = await getServerPath();
-    const serverName = await getServerName();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverPath = await getServerPath(req);
+    const serverName = await getServerName(req);
     
     if (!serverConfigPath) {
       return res.status(400).json({ error: 'Server config path not set' });
     }
     
     // Sanitize serverName
-    const sanitizedServerName = path.basename(serverName);
+    const sanitizedServerName = hostFs.path.basename(serverName);
     if (!sanitizedServerName || sanitizedServerName !== serverName || serverName.includes('..')) {
       return res.status(400).json({ error: 'Invalid server name' });
     }
     
     const iniPath = path.join(serverConfigPath, `${sanitizedServerName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ error: 'Server config file not found' });
     }
     
-    let content = fs.readFileSync(iniPath, 'utf-8');
+    let content = await hostFs.readFile(iniPath, 'utf-8');
     
     // Get current workshop items
     const workshopMatch = content.match(/^WorkshopItems=(.*)$/m);
@@ -1225,7 +1231,7 @@ router.post('/remove-from-ini', async (req, res) => {
     
     if (!modIdToRemove && serverPath) {
       // Try to find the mod ID by reading the workshop folder
-      modIdToRemove = findModIdFromWorkshop(String(workshopId), serverPath);
+      modIdToRemove = await findModIdFromWorkshop(hostFs, String(workshopId), serverPath);
       if (modIdToRemove) {
         log.info(`Found mod ID "${modIdToRemove}" for workshop ID ${workshopId} from mod files`);
       }
@@ -1242,7 +1248,7 @@ router.post('/remove-from-ini', async (req, res) => {
     // Check if this mod has map folders and remove them from Map=
     let removedMapFolders = [];
     if (serverPath) {
-      const modMapFolders = findMapFoldersFromWorkshop(String(workshopId), serverPath);
+      const modMapFolders = await findMapFoldersFromWorkshop(hostFs, String(workshopId), serverPath);
       if (modMapFolders.length > 0) {
         // Get current map list
         const mapMatch = content.match(/^Map=(.*)$/m);
@@ -1280,7 +1286,7 @@ router.post('/remove-from-ini', async (req, res) => {
       content = content.replace(/^Mods=.*/m, `Mods=${modIds.join(';')}`);
     }
     
-    fs.writeFileSync(iniPath, content, 'utf-8');
+    await hostFs.writeFile(iniPath, content, 'utf-8');
     
     log.info(`Removed workshop ID ${workshopId}${removedModId ? ` and mod ID ${removedModId}` : ''}${removedMapFolders.length > 0 ? ` and map folders: ${removedMapFolders.join(', ')}` : ''} from ${iniPath}`);
     
@@ -1304,27 +1310,28 @@ router.post('/remove-from-ini', async (req, res) => {
 // Sync mod IDs from downloaded mods - reads workshop folders and updates Mods= in ini
 router.post('/sync-mod-ids', async (req, res) => {
   try {
-    const serverConfigPath = await getServerConfigPath();
-    const serverPath = await getServerPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverPath = await getServerPath(req);
+    const serverName = await getServerName(req);
     
     if (!serverConfigPath || !serverPath) {
       return res.status(400).json({ error: 'Server path not configured. Please set up the server first.' });
     }
     
     // Sanitize serverName
-    const sanitizedServerName = path.basename(serverName);
+    const sanitizedServerName = hostFs.path.basename(serverName);
     if (!sanitizedServerName || sanitizedServerName !== serverName || serverName.includes('..')) {
       return res.status(400).json({ error: 'Invalid server name' });
     }
     
     const iniPath = path.join(serverConfigPath, `${sanitizedServerName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ error: 'Server config file not found. Start the server once first.' });
     }
     
-    let content = fs.readFileSync(iniPath, 'utf-8');
+    let content = await hostFs.readFile(iniPath, 'utf-8');
     
     // Get current workshop items
     const workshopMatch = content.match(/^WorkshopItems=(.*)$/m);
@@ -1344,7 +1351,7 @@ router.post('/sync-mod-ids', async (req, res) => {
       try {
         // Get ALL mod IDs for this workshop item
         // findAllModIdsFromWorkshop uses the new getModDetailsFromWorkshop logic
-        const availableModIds = findAllModIdsFromWorkshop(workshopId, serverPath);
+        const availableModIds = await findAllModIdsFromWorkshop(hostFs, workshopId, serverPath);
         
         if (availableModIds.length > 0) {
           // Check if ANY of these mod IDs are already in the list
@@ -1398,7 +1405,7 @@ router.post('/sync-mod-ids', async (req, res) => {
       content += `\nMods=${newModList}`;
     }
     
-    fs.writeFileSync(iniPath, content, 'utf-8');
+    await hostFs.writeFile(iniPath, content, 'utf-8');
     
     const addedCount = syncedMods.filter(m => m.status.startsWith('added')).length;
     
@@ -1424,23 +1431,24 @@ router.post('/sync-mod-ids', async (req, res) => {
 // Validate mod configuration (check for dependencies and consistency)
 router.get('/validate-config', async (req, res) => {
   try {
-    const serverConfigPath = await getServerConfigPath();
-    const serverPath = await getServerPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverPath = await getServerPath(req);
+    const serverName = await getServerName(req);
     
     if (!serverConfigPath) {
       return res.status(400).json({ error: 'Server config path not set' });
     }
     
     // Sanitize serverName
-    const sanitizedServerName = path.basename(serverName);
+    const sanitizedServerName = hostFs.path.basename(serverName);
     const iniPath = path.join(serverConfigPath, `${sanitizedServerName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ error: 'Server config file not found' });
     }
     
-    const content = fs.readFileSync(iniPath, 'utf-8');
+    const content = await hostFs.readFile(iniPath, 'utf-8');
     const workshopMatch = content.match(/^WorkshopItems=(.*)$/m);
     const modsMatch = content.match(/^Mods=(.*)$/m);
     
@@ -1458,7 +1466,7 @@ router.get('/validate-config', async (req, res) => {
     
     if (serverPath) {
         for (const wid of workshopIds) {
-            const details = getModDetailsFromWorkshop(wid, serverPath);
+            const details = await getModDetailsFromWorkshop(hostFs, wid, serverPath);
             for (const mod of details) {
                 availableModIds.add(mod.id);
                 modIdToWorkshopId.set(mod.id, wid);
@@ -1537,21 +1545,22 @@ router.get('/presets', async (req, res) => {
 // Create a mod preset (save current mods as a preset)
 router.post('/presets', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { name, description } = req.body;
     if (!name) {
       return res.status(400).json({ error: 'Preset name is required' });
     }
     
     // Read current mods from INI
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const iniPath = path.join(serverConfigPath, `${serverName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ error: 'Server INI not found' });
     }
     
-    const content = fs.readFileSync(iniPath, 'utf-8');
+    const content = await hostFs.readFile(iniPath, 'utf-8');
     const workshopMatch = content.match(/^WorkshopItems=(.*)$/m);
     const modsMatch = content.match(/^Mods=(.*)$/m);
     
@@ -1616,6 +1625,7 @@ router.delete('/presets/:id', async (req, res) => {
 // Apply a mod preset (load mods from preset)
 router.post('/presets/:id/apply', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { id } = req.params;
     const presets = await getModPresets();
     const preset = presets.find(p => String(p.id) === String(id));
@@ -1624,15 +1634,15 @@ router.post('/presets/:id/apply', async (req, res) => {
       return res.status(404).json({ error: 'Preset not found' });
     }
     
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const iniPath = path.join(serverConfigPath, `${serverName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ error: 'Server INI not found' });
     }
     
-    let content = fs.readFileSync(iniPath, 'utf-8');
+    let content = await hostFs.readFile(iniPath, 'utf-8');
     
     // Update WorkshopItems
     const workshopLine = `WorkshopItems=${(preset.workshop_ids || []).join(';')}`;
@@ -1650,7 +1660,7 @@ router.post('/presets/:id/apply', async (req, res) => {
       content += `\n${modsLine}`;
     }
     
-    fs.writeFileSync(iniPath, content, 'utf-8');
+    await hostFs.writeFile(iniPath, content, 'utf-8');
     
     log.info(`Applied mod preset "${preset.name}": ${(preset.workshop_ids || []).length} workshop items, ${(preset.mods || []).length} mod IDs`);
     res.json({ 
@@ -1667,21 +1677,22 @@ router.post('/presets/:id/apply', async (req, res) => {
 // Save mod load order
 router.post('/save-order', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { modIds } = req.body;
     
     if (!Array.isArray(modIds)) {
       return res.status(400).json({ error: 'modIds must be an array' });
     }
     
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const iniPath = path.join(serverConfigPath, `${serverName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ error: 'Server INI not found' });
     }
     
-    let content = fs.readFileSync(iniPath, 'utf-8');
+    let content = await hostFs.readFile(iniPath, 'utf-8');
     
     // Update Mods line with new order
     const modsLine = `Mods=${modIds.join(';')}`;
@@ -1691,7 +1702,7 @@ router.post('/save-order', async (req, res) => {
       content += `\n${modsLine}`;
     }
     
-    fs.writeFileSync(iniPath, content, 'utf-8');
+    await hostFs.writeFile(iniPath, content, 'utf-8');
     
     log.info(`Saved mod load order: ${modIds.length} mods`);
     res.json({ 
@@ -1729,13 +1740,14 @@ router.post('/discover-mod-ids', async (req, res) => {
       return res.status(400).json({ error: 'Invalid Workshop ID' });
     }
     
-    const serverPath = await getServerPath();
+    const serverPath = await getServerPath(req);
+    const hostFs = await getRequestFs(req);
     const discoveredModIds = [];
     const sources = [];
     
     // 1. First try local files (most accurate if mod is already downloaded)
     if (serverPath) {
-      const localModIds = findAllModIdsFromWorkshop(String(wsId), serverPath);
+      const localModIds = await findAllModIdsFromWorkshop(hostFs, String(wsId), serverPath);
       for (const modId of localModIds) {
         if (!discoveredModIds.includes(modId)) {
           discoveredModIds.push(modId);
@@ -1811,7 +1823,7 @@ router.post('/discover-mod-ids', async (req, res) => {
     // Get map folders if available
     let mapFolders = [];
     if (serverPath) {
-      mapFolders = findMapFoldersFromWorkshop(String(wsId), serverPath);
+      mapFolders = await findMapFoldersFromWorkshop(hostFs, String(wsId), serverPath);
     }
     
     // Check if mod has map tag from Steam API
@@ -1829,7 +1841,7 @@ router.post('/discover-mod-ids', async (req, res) => {
       sources,
       isMap,
       mapFolders,
-      isDownloaded: serverPath ? findAllModIdsFromWorkshop(String(wsId), serverPath).length > 0 : false,
+      isDownloaded: serverPath ? (await findAllModIdsFromWorkshop(hostFs, String(wsId), serverPath)).length > 0 : false,
       tags: modInfo?.tags?.map(t => t.tag) || []
     });
   } catch (error) {
@@ -1841,6 +1853,7 @@ router.post('/discover-mod-ids', async (req, res) => {
 // Add mod with specific mod IDs selected (for multi-ID mods)
 router.post('/add-mod-advanced', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { workshopId, selectedModIds, includeAllModIds } = req.body;
     // workshopId: the Steam Workshop ID
     // selectedModIds: array of mod IDs to add (user-selected)
@@ -1859,30 +1872,30 @@ router.post('/add-mod-advanced', async (req, res) => {
       return res.status(400).json({ error: 'Invalid Workshop ID' });
     }
     
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
-    const serverPath = await getServerPath();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
+    const serverPath = await getServerPath(req);
     
     if (!serverConfigPath) {
       return res.status(400).json({ error: 'Server config path not set. Please configure the server first.' });
     }
     
     // Sanitize serverName
-    const sanitizedServerName = path.basename(serverName);
+    const sanitizedServerName = hostFs.path.basename(serverName);
     if (!sanitizedServerName || sanitizedServerName !== serverName || serverName.includes('..')) {
       return res.status(400).json({ error: 'Invalid server name' });
     }
     
     const iniPath = path.join(serverConfigPath, `${sanitizedServerName}.ini`);
     
-    if (!fs.existsSync(iniPath)) {
+    if (!await hostFs.exists(iniPath)) {
       return res.status(400).json({ 
         error: `Server config not found at ${iniPath}. Start the server once first.` 
       });
     }
     
     // Read current config
-    let content = fs.readFileSync(iniPath, 'utf-8');
+    let content = await hostFs.readFile(iniPath, 'utf-8');
     
     // Get current workshop items
     const workshopMatch = content.match(/^WorkshopItems=(.*)$/m);
@@ -1896,7 +1909,7 @@ router.post('/add-mod-advanced', async (req, res) => {
     let modIdsToAdd = selectedModIds || [];
     
     if (includeAllModIds && serverPath) {
-      const allModIds = findAllModIdsFromWorkshop(String(workshopId), serverPath);
+      const allModIds = await findAllModIdsFromWorkshop(hostFs, String(workshopId), serverPath);
       modIdsToAdd = [...new Set([...modIdsToAdd, ...allModIds])];
     }
     
@@ -1937,7 +1950,7 @@ router.post('/add-mod-advanced', async (req, res) => {
     // Handle map folders
     let addedMapFolders = [];
     if (serverPath) {
-      const modMapFolders = findMapFoldersFromWorkshop(String(workshopId), serverPath);
+      const modMapFolders = await findMapFoldersFromWorkshop(hostFs, String(workshopId), serverPath);
       if (modMapFolders.length > 0) {
         const mapMatch = content.match(/^Map=(.*)$/m);
         let currentMaps = mapMatch?.[1]?.split(';').filter(Boolean) || ['Muldraugh, KY'];
@@ -1958,7 +1971,7 @@ router.post('/add-mod-advanced', async (req, res) => {
       }
     }
     
-    fs.writeFileSync(iniPath, content, 'utf-8');
+    await hostFs.writeFile(iniPath, content, 'utf-8');
     
     // Also add to tracking
     try {
@@ -9,8 +9,8 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { fileURLToPath } from 'url';
-import bridge from '../services/panelBridge.js';
-import { getActiveServer, getServer, getAllSettings } from '../database/init.js';
+import { resolveServer, getServer, getAllSettings } from '../database/init.js';
+import { getHostFs, getRequestFs } from '../services/hostFs.js';
 
 // ES Module __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
@@ -20,12 +20,13 @@ const router = express.Router();
 
 // Get bridge status
 router.get('/status', async (req, res) => {
-  const status = bridge.getStatus();
+  const bridge = req.app.get('panelBridge');
+  const status = await bridge.getStatus();
   
   // Also include detected paths from active server
   let detectedPaths = null;
   try {
-    const activeServer = await getActiveServer();
+    const activeServer = await resolveServer(req.app.get('serverId'));
     if (activeServer) {
       detectedPaths = {
         serverName: activeServer.serverName || activeServer.name,
@@ -48,6 +49,7 @@ router.get('/status', async (req, res) => {
 
 // Auto-configure bridge from server settings (optionally specify serverId)
 router.post('/auto-configure', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   try {
     const { serverId } = req.body;
     
@@ -59,7 +61,7 @@ router.post('/auto-configure', async (req, res) => {
         return res.status(400).json({ error: `Server with ID ${serverId} not found.` });
       }
     } else {
-      targetServer = await getActiveServer();
+      targetServer = await resolveServer(req.app.get('serverId'));
       if (!targetServer) {
         return res.status(400).json({ error: 'No active server configured. Please configure a server first.' });
       }
@@ -76,31 +78,33 @@ router.post('/auto-configure', async (req, res) => {
     const possiblePaths = [];
     const searchedLocations = [];
     
+    const hostFs = getHostFs(targetServer);
+
     // Helper to safely read directory contents
-    const safeReadDir = (dirPath) => {
+    const safeReadDir = async (dirPath) => {
       try {
-        return fs.existsSync(dirPath) ? fs.readdirSync(dirPath) : [];
+        return await hostFs.readdir(dirPath);
       } catch (e) {
         return [];
       }
     };
     
     // Helper to add path with metadata
-    const addPath = (p, source, priority = 10) => {
+    const addPath = async (p, source, priority = 10) => {
       // Avoid duplicates
       if (possiblePaths.some(pp => pp.path === p)) return;
       
       const statusFile = path.join(p, 'status.json');
       const initFile = path.join(p, '.init');
-      const hasStatus = fs.existsSync(statusFile);
-      const hasInit = fs.existsSync(initFile);
+      const hasStatus = await hostFs.exists(statusFile);
+      const hasInit = await hostFs.exists(initFile);
       
       possiblePaths.push({
         path: p,
         source,
         hasStatus,
         hasInit,
-        exists: hasStatus || hasInit || fs.existsSync(p),
+        exists: hasStatus || hasInit || await hostFs.exists(p),
         priority
       });
       searchedLocations.push({ path: p, source, hasStatus, hasInit });
@@ -109,36 +113,36 @@ router.post('/auto-configure', async (req, res) => {
     // PRIORITY 1: zomboidDataPath is where -cachedir points - this is where the mod WRITES status.json
     // This should be checked first since it's explicitly configured for the server
     if (targetServer.zomboidDataPath) {
-      addPath(path.join(targetServer.zomboidDataPath, 'Lua', 'panelbridge', serverName), 'zomboidDataPath/Lua (cachedir)', 1);
+      await addPath(path.join(targetServer.zomboidDataPath, 'Lua', 'panelbridge', serverName), 'zomboidDataPath/Lua (cachedir)', 1);
     }
     
     // PRIORITY 2: Look for Server_files* folders at the parent level (runtime data location)
     // This is where -cachedir typically points for dedicated servers with separate data folders
     if (targetServer.installPath) {
       const parentDir = path.dirname(targetServer.installPath);
-      const parentContents = safeReadDir(parentDir);
+      const parentContents = await safeReadDir(parentDir);
       for (const item of parentContents) {
         // Match Server_files* patterns (e.g., Server_files_B42, Server_files_B42_Beta1)
         if (item.startsWith('Server_files') || item.match(/Server.*files/i)) {
           const luaPath = path.join(parentDir, item, 'Lua', 'panelbridge', serverName);
-          addPath(luaPath, `${item}/Lua`, 2);
+          await addPath(luaPath, `${item}/Lua`, 2);
         }
       }
       
       // PRIORITY 3: Also check grandparent directory (for nested setups)
       const grandParentDir = path.dirname(parentDir);
       if (grandParentDir !== parentDir) {
-        const grandParentContents = safeReadDir(grandParentDir);
+        const grandParentContents = await safeReadDir(grandParentDir);
         for (const item of grandParentContents) {
           if (item.startsWith('Server_files') || item.match(/Server.*files/i)) {
             const luaPath = path.join(grandParentDir, item, 'Lua', 'panelbridge', serverName);
-            addPath(luaPath, `${item}/Lua`, 3);
+            await addPath(luaPath, `${item}/Lua`, 3);
           }
         }
       }
       
       // PRIORITY 4: Lua folder directly in install path (fallback)
-      addPath(path.join(targetServer.installPath, 'Lua', 'panelbridge', serverName), 'installPath/Lua', 4);
+      await addPath(path.join(targetServer.installPath, 'Lua', 'panelbridge', serverName), 'installPath/Lua', 4);
     }
     
     // Sort by priority, then by whether it has status.json
@@ -183,7 +187,7 @@ router.post('/auto-configure', async (req, res) => {
     // Just configure the bridge to watch this path
     
     // Configure and start bridge - foundPath IS the complete panelbridge folder
-    const bridgePath = bridge.configure(foundPath.path, true); // true = direct path
+    const bridgePath = await bridge.configure(foundPath.path, true); // true = direct path
     bridge.start();
     
     // Also auto-install the PanelBridge mod if not already present
@@ -198,7 +202,7 @@ router.post('/auto-configure', async (req, res) => {
         const destLuaFile = path.join(installDir, 'media', 'lua', 'server', 'PanelBridge.lua');
         
         // Check if mod already exists
-        if (!fs.existsSync(destLuaFile)) {
+        if (!await hostFs.exists(destLuaFile)) {
           // Find source mod
           const possibleModPaths = [
             path.join(process.cwd(), 'pz-mod', 'PanelBridge'),
@@ -210,8 +214,8 @@ router.post('/auto-configure', async (req, res) => {
             const sourceLuaFile = path.join(modPath, 'media', 'lua', 'server', 'PanelBridge.lua');
             if (fs.existsSync(sourceLuaFile)) {
               // Create destination directory
-              fs.mkdirSync(path.dirname(destLuaFile), { recursive: true });
-              fs.copyFileSync(sourceLuaFile, destLuaFile);
+              await hostFs.mkdir(path.dirname(destLuaFile), { recursive: true });
+              await hostFs.writeFile(destLuaFile, await fs.promises.readFile(sourceLuaFile));
               modInstalled = true;
               break;
             }
@@ -257,68 +261,70 @@ router.get('/scan-server/:serverId', async (req, res) => {
     
     const possiblePaths = [];
     
+    const hostFs = getHostFs(targetServer);
+
     // Helper to safely read directory contents
-    const safeReadDir = (dirPath) => {
+    const safeReadDir = async (dirPath) => {
       try {
-        return fs.existsSync(dirPath) ? fs.readdirSync(dirPath) : [];
+        return await hostFs.readdir(dirPath);
       } catch (e) {
         return [];
       }
     };
     
     // Helper to add path with metadata
-    const addPath = (p, source, priority = 10) => {
+    const addPath = async (p, source, priority = 10) => {
       if (possiblePaths.some(pp => pp.path === p)) return;
       
       const statusFile = path.join(p, 'status.json');
       const initFile = path.join(p, '.init');
-      const hasStatus = fs.existsSync(statusFile);
-      const hasInit = fs.existsSync(initFile);
+      const hasStatus = await hostFs.exists(statusFile);
+      const hasInit = await hostFs.exists(initFile);
       
       possiblePaths.push({
         path: p,
         source,
         hasStatus,
         hasInit,
-        exists: hasStatus || hasInit || fs.existsSync(p),
+        exists: hasStatus || hasInit || await hostFs.exists(p),
         priority
       });
     };
     
     // Check default Zomboid user folder (B42 without -cachedir)
     const defaultZomboidPath = path.join(os.homedir(), 'Zomboid', 'Lua', 'panelbridge', serverName);
-    addPath(defaultZomboidPath, 'default Zomboid folder', 0);
+    await addPath(defaultZomboidPath, 'default Zomboid folder', 0);
     
     if (targetServer.installPath) {
       const parentDir = path.dirname(targetServer.installPath);
       
       // Server_files folders at parent level
-      const parentContents = safeReadDir(parentDir);
+      const parentContents = await safeReadDir(parentDir);
       for (const item of parentContents) {
         if (item.startsWith('Server_files') || item.match(/Server.*files/i)) {
           const luaPath = path.join(parentDir, item, 'Lua', 'panelbridge', serverName);
-          addPath(luaPath, `${item}`, 1);
+          await addPath(luaPath, `${item}`, 1);
         }
       }
       
       // Grandparent
       const grandParentDir = path.dirname(parentDir);
       if (grandParentDir !== parentDir) {
-        const grandParentContents = safeReadDir(grandParentDir);
+        const grandParentContents = await safeReadDir(grandParentDir);
         for (const item of grandParentContents) {
           if (item.startsWith('Server_files') || item.match(/Server.*files/i)) {
             const luaPath = path.join(grandParentDir, item, 'Lua', 'panelbridge', serverName);
-            addPath(luaPath, `${item} (grandparent)`, 2);
+            await addPath(luaPath, `${item} (grandparent)`, 2);
           }
         }
       }
       
-      addPath(path.join(targetServer.installPath, 'Lua', 'panelbridge', serverName), 'installPath/Lua', 3);
-      addPath(path.join(parentDir, 'Lua', 'panelbridge', serverName), 'parent/Lua', 4);
+      await addPath(path.join(targetServer.installPath, 'Lua', 'panelbridge', serverName), 'installPath/Lua', 3);
+      await addPath(path.join(parentDir, 'Lua', 'panelbridge', serverName), 'parent/Lua', 4);
     }
     
     if (targetServer.zomboidDataPath) {
-      addPath(path.join(targetServer.zomboidDataPath, 'Lua', 'panelbridge', serverName), 'zomboidDataPath', 1);
+      await addPath(path.join(targetServer.zomboidDataPath, 'Lua', 'panelbridge', serverName), 'zomboidDataPath', 1);
     }
     
     // Sort by priority
@@ -348,7 +354,8 @@ router.get('/scan-server/:serverId', async (req, res) => {
 });
 
 // Auto-detect bridge path from server name
-router.post('/auto-detect', (req, res) => {
+router.post('/auto-detect', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   const { serverName, zomboidUserFolder } = req.body;
   
   if (!serverName) {
@@ -356,7 +363,7 @@ router.post('/auto-detect', (req, res) => {
   }
   
   try {
-    const bridgePath = bridge.autoDetect(serverName, zomboidUserFolder);
+    const bridgePath = await bridge.autoDetect(serverName, zomboidUserFolder);
     bridge.start();
     res.json({ 
       success: true, 
@@ -369,7 +376,8 @@ router.post('/auto-detect', (req, res) => {
 });
 
 // Configure the bridge with Zomboid save path
-router.post('/configure', (req, res) => {
+router.post('/configure', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   const { zomboidSavePath } = req.body;
   
   if (!zomboidSavePath) {
@@ -377,7 +385,7 @@ router.post('/configure', (req, res) => {
   }
   
   try {
-    const bridgePath = bridge.configure(zomboidSavePath);
+    const bridgePath = await bridge.configure(zomboidSavePath);
     // Also start the bridge automatically after configuring
     if (!bridge.isRunning) {
       bridge.start();
@@ -390,6 +398,7 @@ router.post('/configure', (req, res) => {
 
 // Start the bridge polling
 router.post('/start', (req, res) => {
+  const bridge = req.app.get('panelBridge');
   try {
     bridge.start();
     res.json({ success: true, message: 'Bridge started' });
@@ -400,6 +409,7 @@ router.post('/start', (req, res) => {
 
 // Stop the bridge
 router.post('/stop', (req, res) => {
+  const bridge = req.app.get('panelBridge');
   try {
     bridge.stop();
     res.json({ success: true, message: 'Bridge stopped' });
@@ -410,18 +420,20 @@ router.post('/stop', (req, res) => {
 
 // Scan for all panelbridge folders across known locations
 router.get('/scan-paths', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   try {
-    const activeServer = await getActiveServer();
+    const activeServer = await resolveServer(req.app.get('serverId'));
     const allSettings = await getAllSettings();
+    const hostFs = await getRequestFs(req);
     const foundBridges = [];
     const scannedDirs = [];
     
     // Helper to recursively search for panelbridge folders
-    const searchForBridge = (baseDir, depth = 0, maxDepth = 3) => {
-      if (depth > maxDepth || !baseDir || !fs.existsSync(baseDir)) return;
+    const searchForBridge = async (baseDir, depth = 0, maxDepth = 3) => {
+      if (depth > maxDepth || !baseDir || !await hostFs.exists(baseDir)) return;
       
       try {
-        const contents = fs.readdirSync(baseDir, { withFileTypes: true });
+        const contents = await hostFs.readdir(baseDir, { withFileTypes: true });
         
         for (const item of contents) {
           if (!item.isDirectory()) continue;
@@ -432,23 +444,23 @@ router.get('/scan-paths', async (req, res) => {
           if (item.name === 'panelbridge') {
             // List server folders inside
             try {
-              const serverFolders = fs.readdirSync(itemPath, { withFileTypes: true });
+              const serverFolders = await hostFs.readdir(itemPath, { withFileTypes: true });
               for (const sf of serverFolders) {
                 if (!sf.isDirectory()) continue;
                 
                 const serverPath = path.join(itemPath, sf.name);
                 const statusFile = path.join(serverPath, 'status.json');
                 const initFile = path.join(serverPath, '.init');
-                const hasStatus = fs.existsSync(statusFile);
-                const hasInit = fs.existsSync(initFile);
+                const hasStatus = await hostFs.exists(statusFile);
+                const hasInit = await hostFs.exists(initFile);
                 
                 let statusAge = null;
                 let modVersion = null;
                 if (hasStatus) {
                   try {
-                    const stats = fs.statSync(statusFile);
+                    const stats = await hostFs.stat(statusFile);
                     statusAge = Date.now() - stats.mtimeMs;
-                    const content = JSON.parse(fs.readFileSync(statusFile, 'utf-8'));
+                    const content = JSON.parse(await hostFs.readFile(statusFile, 'utf-8'));
                     modVersion = content.version;
                   } catch (e) { /* ignore */ }
                 }
@@ -471,9 +483,9 @@ router.get('/scan-paths', async (req, res) => {
           // Look for Lua folder
           if (item.name === 'Lua') {
             const bridgePath = path.join(itemPath, 'panelbridge');
-            if (fs.existsSync(bridgePath)) {
+            if (await hostFs.exists(bridgePath)) {
               scannedDirs.push(bridgePath);
-              searchForBridge(bridgePath, depth + 1, maxDepth);
+              await searchForBridge(bridgePath, depth + 1, maxDepth);
             }
             continue;
           }
@@ -481,7 +493,7 @@ router.get('/scan-paths', async (req, res) => {
           // Look for Server_files* folders
           if (item.name.startsWith('Server_files') || item.name.match(/Server.*files/i)) {
             scannedDirs.push(itemPath);
-            searchForBridge(itemPath, depth + 1, maxDepth);
+            await searchForBridge(itemPath, depth + 1, maxDepth);
           }
         }
       } catch (e) {
@@ -515,7 +527,7 @@ router.get('/scan-paths', async (req, res) => {
     for (const dir of searchDirs) {
       if (dir) {
         scannedDirs.push(dir);
-        searchForBridge(dir);
+        await searchForBridge(dir);
       }
     }
     
@@ -533,6 +545,7 @@ router.get('/scan-paths', async (req, res) => {
 
 // Force refresh - restart bridge with fresh state
 router.post('/refresh', (req, res) => {
+  const bridge = req.app.get('panelBridge');
   try {
     if (bridge.isRunning) {
       bridge.stop();
@@ -563,6 +576,7 @@ router.post('/refresh', (req, res) => {
 
 // Ping the mod
 router.get('/ping', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.bridgePath) {
     return res.status(400).json({ error: 'Bridge not configured' });
   }
@@ -577,6 +591,7 @@ router.get('/ping', async (req, res) => {
 
 // Send a command to the game
 router.post('/command', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   const { action, args } = req.body;
   
   if (!action) {
@@ -601,6 +616,7 @@ router.post('/command', async (req, res) => {
 
 // Get weather info
 router.get('/weather', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.bridgePath) {
     return res.status(400).json({ error: 'Bridge not configured' });
   }
@@ -618,6 +634,7 @@ router.get('/weather', async (req, res) => {
 
 // Get server info
 router.get('/server-info', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.bridgePath) {
     return res.status(400).json({ error: 'Bridge not configured' });
   }
@@ -635,6 +652,7 @@ router.get('/server-info', async (req, res) => {
 
 // Weather control endpoints
 router.post('/weather/blizzard', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -648,6 +666,7 @@ router.post('/weather/blizzard', async (req, res) => {
 });
 
 router.post('/weather/tropical-storm', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -661,6 +680,7 @@ router.post('/weather/tropical-storm', async (req, res) => {
 });
 
 router.post('/weather/storm', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -674,6 +694,7 @@ router.post('/weather/storm', async (req, res) => {
 });
 
 router.post('/weather/stop', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -686,6 +707,7 @@ router.post('/weather/stop', async (req, res) => {
 });
 
 router.post('/weather/snow', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -704,6 +726,7 @@ router.post('/weather/snow', async (req, res) => {
 
 // Rain control
 router.post('/weather/rain/start', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -717,6 +740,7 @@ router.post('/weather/rain/start', async (req, res) => {
 });
 
 router.post('/weather/rain/stop', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -730,6 +754,7 @@ router.post('/weather/rain/stop', async (req, res) => {
 
 // Lightning
 router.post('/weather/lightning', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -744,6 +769,7 @@ router.post('/weather/lightning', async (req, res) => {
 
 // Climate float control
 router.get('/climate/floats', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -756,6 +782,7 @@ router.get('/climate/floats', async (req, res) => {
 });
 
 router.post('/climate/float', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -772,6 +799,7 @@ router.post('/climate/float', async (req, res) => {
 });
 
 router.post('/climate/reset', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -785,6 +813,7 @@ router.post('/climate/reset', async (req, res) => {
 
 // Game time endpoints
 router.get('/time', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -797,6 +826,7 @@ router.get('/time', async (req, res) => {
 });
 
 router.post('/time', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -811,6 +841,7 @@ router.post('/time', async (req, res) => {
 
 // World stats
 router.get('/world/stats', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -824,6 +855,7 @@ router.get('/world/stats', async (req, res) => {
 
 // Save world
 router.post('/world/save', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -837,6 +869,7 @@ router.post('/world/save', async (req, res) => {
 
 // Player endpoints
 router.get('/players', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -849,6 +882,7 @@ router.get('/players', async (req, res) => {
 });
 
 router.get('/players/:username', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -861,6 +895,7 @@ router.get('/players/:username', async (req, res) => {
 });
 
 router.post('/players/:username/teleport', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -878,6 +913,7 @@ router.post('/players/:username/teleport', async (req, res) => {
 
 // Server message
 router.post('/message', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -895,6 +931,7 @@ router.post('/message', async (req, res) => {
 
 // Sandbox options (read-only)
 router.get('/sandbox', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -999,7 +1036,7 @@ router.get('/mod-path', async (req, res) => {
   // Also detect suggested install path from active server
   let suggestedInstallPath = null;
   try {
-    const activeServer = await getActiveServer();
+    const activeServer = await resolveServer(req.app.get('serverId'));
     if (activeServer?.installPath) {
       // For dedicated servers, Lua folder is at: {installPath}/media/lua/server/
       suggestedInstallPath = path.join(activeServer.installPath, 'media', 'lua', 'server');
@@ -1029,7 +1066,7 @@ router.post('/install-mod-auto', async (req, res) => {
         return res.status(400).json({ error: `Server with ID ${serverId} not found.` });
       }
     } else {
-      targetServer = await getActiveServer();
+      targetServer = await resolveServer(req.app.get('serverId'));
       if (!targetServer) {
         return res.status(400).json({ error: 'No active server configured.' });
       }
@@ -1066,13 +1103,14 @@ router.post('/install-mod-auto', async (req, res) => {
     }
     
     // Install to: {serverInstallDir}/media/lua/server/PanelBridge.lua
+    const hostFs = getHostFs(targetServer);
     const luaServerPath = path.join(serverInstallDir, 'media', 'lua', 'server');
     const sourceLuaFile = path.join(sourcePath, 'media', 'lua', 'server', 'PanelBridge.lua');
     const destLuaFile = path.join(luaServerPath, 'PanelBridge.lua');
     
     // Ensure destination directory exists
-    if (!fs.existsSync(luaServerPath)) {
-      fs.mkdirSync(luaServerPath, { recursive: true });
+    if (!await hostFs.exists(luaServerPath)) {
+      await hostFs.mkdir(luaServerPath, { recursive: true });
     }
     
     // Copy the Lua file
@@ -1080,7 +1118,7 @@ router.post('/install-mod-auto', async (req, res) => {
       return res.status(404).json({ error: `Source Lua file not found at: ${sourceLuaFile}` });
     }
     
-    fs.copyFileSync(sourceLuaFile, destLuaFile);
+    await hostFs.writeFile(destLuaFile, await fs.promises.readFile(sourceLuaFile));
     
     res.json({ 
       success: true, 
@@ -1094,7 +1132,7 @@ router.post('/install-mod-auto', async (req, res) => {
 });
 
 // Copy mod to server Lua folder (manual path)
-router.post('/install-mod', (req, res) => {
+router.post('/install-mod', async (req, res) => {
   const { serverLuaPath } = req.body;
   
   // Support legacy field name
@@ -1132,13 +1170,14 @@ router.post('/install-mod', (req, res) => {
     }
     
     // Ensure target directory exists
-    if (!fs.existsSync(targetPath)) {
-      fs.mkdirSync(targetPath, { recursive: true });
+    const hostFs = await getRequestFs(req);
+    if (!await hostFs.exists(targetPath)) {
+      await hostFs.mkdir(targetPath, { recursive: true });
     }
     
     // Copy the Lua file
     const destPath = path.join(targetPath, 'PanelBridge.lua');
-    fs.copyFileSync(sourceLuaFile, destPath);
+    await hostFs.writeFile(destPath, await fs.promises.readFile(sourceLuaFile));
     
     res.json({ 
       success: true, 
@@ -1156,6 +1195,7 @@ router.post('/install-mod', (req, res) => {
 
 // Play sound at world coordinates
 router.post('/sound/world', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1173,6 +1213,7 @@ router.post('/sound/world', async (req, res) => {
 
 // Play sound near a player
 router.post('/sound/near-player', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1190,6 +1231,7 @@ router.post('/sound/near-player', async (req, res) => {
 
 // Trigger gunshot sound
 router.post('/sound/gunshot', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1204,6 +1246,7 @@ router.post('/sound/gunshot', async (req, res) => {
 
 // Trigger alarm sound
 router.post('/sound/alarm', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1218,6 +1261,7 @@ router.post('/sound/alarm', async (req, res) => {
 
 // Create custom noise
 router.post('/sound/noise', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1236,6 +1280,7 @@ router.post('/sound/noise', async (req, res) => {
 
 // Get utilities (power/water) status
 router.get('/utilities/status', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1249,6 +1294,7 @@ router.get('/utilities/status', async (req, res) => {
 
 // Restore utilities (turn power/water back on)
 router.post('/utilities/restore', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1266,6 +1312,7 @@ router.post('/utilities/restore', async (req, res) => {
 
 // Shut off utilities
 router.post('/utilities/shutoff', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1287,6 +1334,7 @@ router.post('/utilities/shutoff', async (req, res) => {
 
 // Export character data (XP, perks, skills, traits, inventory)
 router.post('/character/export', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1304,6 +1352,7 @@ router.post('/character/export', async (req, res) => {
 
 // Import character data (apply XP, perks to player)
 router.post('/character/import', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running. Start it first.' });
   }
@@ -1338,6 +1387,7 @@ router.post('/character/import', async (req, res) => {
 
 // Give item to player
 router.post('/players/:username/give-item', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1356,6 +1406,7 @@ router.post('/players/:username/give-item', async (req, res) => {
 
 // Heal player
 router.post('/players/:username/heal', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1370,6 +1421,7 @@ router.post('/players/:username/heal', async (req, res) => {
 
 // Kill player
 router.post('/players/:username/kill', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1384,6 +1436,7 @@ router.post('/players/:username/kill', async (req, res) => {
 
 // Set god mode for player
 router.post('/players/:username/godmode', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1399,6 +1452,7 @@ router.post('/players/:username/godmode', async (req, res) => {
 
 // Set invisible for player
 router.post('/players/:username/invisible', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1418,6 +1472,7 @@ router.post('/players/:username/invisible', async (req, res) => {
 
 // Get zombie statistics
 router.get('/zombies/count', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1431,6 +1486,7 @@ router.get('/zombies/count', async (req, res) => {
 
 // Clear zombies near a player
 router.post('/zombies/clear-near-player', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1452,6 +1508,7 @@ router.post('/zombies/clear-near-player', async (req, res) => {
 
 // Set view distance
 router.post('/visual/view-distance', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1469,6 +1526,7 @@ router.post('/visual/view-distance', async (req, res) => {
 
 // Set daylight level
 router.post('/visual/daylight', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1486,6 +1544,7 @@ router.post('/visual/daylight', async (req, res) => {
 
 // Set night strength
 router.post('/visual/night-strength', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1503,6 +1562,7 @@ router.post('/visual/night-strength', async (req, res) => {
 
 // Set desaturation (color wash)
 router.post('/visual/desaturation', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1520,6 +1580,7 @@ router.post('/visual/desaturation', async (req, res) => {
 
 // Set ambient light
 router.post('/visual/ambient', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1541,6 +1602,7 @@ router.post('/visual/ambient', async (req, res) => {
 
 // Get chat info
 router.get('/chat/info', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1554,6 +1616,7 @@ router.get('/chat/info', async (req, res) => {
 
 // Send to admin chat
 router.post('/chat/admin', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1571,6 +1634,7 @@ router.post('/chat/admin', async (req, res) => {
 
 // Send to general chat with author
 router.post('/chat/general', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1588,6 +1652,7 @@ router.post('/chat/general', async (req, res) => {
 
 // Send server alert
 router.post('/chat/alert', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1609,6 +1674,7 @@ router.post('/chat/alert', async (req, res) => {
 
 // Get mod debug log
 router.get('/debug/log', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1624,6 +1690,7 @@ router.get('/debug/log', async (req, res) => {
 
 // Get mod statistics
 router.get('/debug/stats', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1637,6 +1704,7 @@ router.get('/debug/stats', async (req, res) => {
 
 // Set debug mode
 router.post('/debug/mode', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1651,6 +1719,7 @@ router.post('/debug/mode', async (req, res) => {
 
 // Check API availability
 router.get('/debug/api', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
@@ -1665,6 +1734,7 @@ router.get('/debug/api', async (req, res) => {
 
 // Get available handlers
 router.get('/debug/handlers', async (req, res) => {
+  const bridge = req.app.get('panelBridge');
   if (!bridge.isRunning) {
     return res.status(400).json({ error: 'Bridge not running' });
   }
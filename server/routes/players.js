@@ -56,9 +56,9 @@ router.get('/', async (req, res) => {
     const rconService = req.app.get('rconService');
     const result = await rconService.getPlayers();
     
-    const io = req.app.get('io');
+    const toServerRooms = req.app.get('serverRooms');
     if (result.success) {
-      io.to('players').emit('players:update', result.players);
+      toServerRooms('players').emit('players:update', result.players);
     }
     
     res.json(result);
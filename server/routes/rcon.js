@@ -1,33 +1,46 @@
 import express from 'express';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('API:RCON');
-import { getCommandHistory } from '../database/init.js';
-import { PZ_COMMANDS } from '../utils/commands.js';
+import {
+  getCommandHistory,
+  getConsoleMacros,
+  getConsoleMacroByName,
+  createConsoleMacro,
+  updateConsoleMacro,
+  deleteConsoleMacro
+} from '../database/init.js';
+import { PZ_COMMANDS, COMMAND_VALUES } from '../utils/commands.js';
+import { parseRconResponse } from '../utils/rconParsers.js';
+import { validateMacro, normalizeMacro, startMacroInvocation } from '../utils/consoleMacros.js';
 
 const router = express.Router();
 
 // Execute raw RCON command
+// ?structured=1 adds the answer parsed into a typed object (utils/rconParsers.js)
 router.post('/execute', async (req, res) => {
   try {
     const rconService = req.app.get('rconService');
     const { command } = req.body;
+    const wantStructured = req.query.structured === '1' || req.query.structured === 'true';
     
     if (!command) {
       return res.status(400).json({ error: 'Command is required' });
     }
     
     const result = await rconService.execute(command);
+    const structured = wantStructured ? parseRconResponse(command, result) : undefined;
     
     // Emit to connected clients
-    const io = req.app.get('io');
-    io.to('logs').emit('rcon:response', {
+    const toServerRooms = req.app.get('serverRooms');
+    toServerRooms('logs').emit('rcon:response', {
       command,
       response: result.response || result.error,
       success: result.success,
+      structured,
       timestamp: new Date().toISOString()
     });
     
-    res.json(result);
+    res.json(structured ? { ...result, structured } : result);
   } catch (error) {
     log.error(`RCON execute failed: ${error.message}`);
     res.status(500).json({ error: error.message });
@@ -112,6 +125,37 @@ router.get('/commands', (req, res) => {
   res.json({ commands: PZ_COMMANDS });
 });
 
+// Everything the console completes command arguments from: the command
+// list, value lists, who is online (from the player poller) and the
+// server's ini options with their current values
+router.get('/completions', async (req, res) => {
+  try {
+    const instances = req.app.get('serverInstances');
+    const serverId = req.app.get('serverId');
+    const set = serverId === undefined ? instances.getActive() : instances.get(serverId);
+
+    let options = [];
+    try {
+      const config = await req.app.get('serverManager').getServerConfig();
+      options = Object.entries(config || {})
+        .filter(([name]) => !/password|token|secret/i.test(name))
+        .map(([name, value]) => ({ name, value }));
+    } catch (error) {
+      log.debug(`No server options for completions: ${error.message}`);
+    }
+
+    res.json({
+      commands: PZ_COMMANDS,
+      values: COMMAND_VALUES,
+      players: (set?.players || []).map(p => p.name),
+      options
+    });
+  } catch (error) {
+    log.error(`Failed to get completions: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get commands by category
 router.get('/commands/:category', (req, res) => {
   const { category } = req.params;
@@ -125,4 +169,115 @@ router.get('/commands/:category', (req, res) => {
   res.json({ commands: filtered });
 });
 
+// ── Console macros (see utils/consoleMacros.js) ──
+
+// List saved macros
+router.get('/macros', async (req, res) => {
+  try {
+    const macros = await getConsoleMacros();
+    res.json({ macros });
+  } catch (error) {
+    log.error(`Failed to get macros: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create a macro
+router.post('/macros', async (req, res) => {
+  try {
+    const invalid = validateMacro(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (await getConsoleMacroByName(req.body.name.trim())) {
+      return res.status(409).json({ error: `A macro named ${req.body.name} already exists` });
+    }
+
+    const macro = await createConsoleMacro(normalizeMacro(req.body));
+    res.json({ success: true, macro });
+  } catch (error) {
+    log.error(`Failed to create macro: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Update a macro
+router.put('/macros/:id', async (req, res) => {
+  try {
+    const invalid = validateMacro(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    const existing = await getConsoleMacroByName(req.body.name.trim());
+    if (existing && existing.id !== req.params.id) {
+      return res.status(409).json({ error: `A macro named ${req.body.name} already exists` });
+    }
+
+    const macro = await updateConsoleMacro(req.params.id, normalizeMacro(req.body));
+    if (!macro) {
+      return res.status(404).json({ error: 'Macro not found' });
+    }
+    res.json({ success: true, macro });
+  } catch (error) {
+    log.error(`Failed to update macro: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete a macro
+router.delete('/macros/:id', async (req, res) => {
+  try {
+    const deleted = await deleteConsoleMacro(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Macro not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    log.error(`Failed to delete macro: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Run a macro line (`!name args`). Answers once the macro has started -
+// steps can wait minutes - and streams each step to the console as an
+// rcon:response, followed by rcon:macroFinished.
+router.post('/macros/run', async (req, res) => {
+  const { command } = req.body;
+  if (!command) {
+    return res.status(400).json({ error: 'Command is required' });
+  }
+
+  // Steps also go to the user who ran the macro, whether or not they may follow the logs
+  const toServerRooms = req.app.get('serverRooms');
+  const toRunner = () => (req.user ? toServerRooms('logs').to(`user:${req.user.id}`) : toServerRooms('logs'));
+  let started;
+  try {
+    started = await startMacroInvocation(command, {
+      rconService: req.app.get('rconService'),
+      panelBridge: req.app.get('panelBridge'),
+      source: 'ui',
+      onStep: (step) => toRunner().emit('rcon:response', {
+        ...step,
+        macro: command,
+        timestamp: new Date().toISOString()
+      })
+    });
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  const { macro, run } = started;
+  run
+    .then(result => {
+      if (!result.success) log.warn(`Macro ${macro.name} stopped: ${result.error}`);
+      toRunner().emit('rcon:macroFinished', { ...result, command, timestamp: new Date().toISOString() });
+    })
+    .catch(error => {
+      log.error(`Macro ${macro.name} failed: ${error.message}`);
+      toRunner().emit('rcon:macroFinished', { success: false, macro: macro.name, command, steps: [], error: error.message, timestamp: new Date().toISOString() });
+    });
+
+  res.json({ success: true, macro: macro.name, steps: macro.steps.length });
+});
+
 export default router;
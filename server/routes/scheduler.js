@@ -10,9 +10,88 @@ import {
   getScheduleHistory,
   clearScheduleHistory
 } from '../database/init.js';
+import { isMacroInvocation, findMacroInvocation } from '../utils/consoleMacros.js';
+import { validatePipeline, normalizePipeline } from '../utils/taskPipelines.js';
+import { validateConditions, normalizeConditions } from '../utils/taskConditions.js';
+import { validateRestartPolicy, normalizeRestartPolicy } from '../utils/restartPolicy.js';
+import { validateOneOffSchedule, normalizeOneOffSchedule } from '../utils/oneOffTasks.js';
+import { validateCatchUp, DEFAULT_CATCH_UP } from '../utils/missedRuns.js';
 
 const router = express.Router();
 
+// Tasks belong to the server instance whose scheduler runs them
+async function findServerTask(scheduler, taskId) {
+  const tasks = await getScheduledTasks(scheduler.serverId);
+  return tasks.find(t => t.id === taskId) || null;
+}
+
+// A `!macro args` command must name a saved macro with arguments that fit
+async function checkTaskCommand(command) {
+  if (!isMacroInvocation(command)) return null;
+  try {
+    await findMacroInvocation(command);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+// Pipeline tasks are saved with this command; their steps do the work
+const PIPELINE_COMMAND = 'pipeline';
+
+/**
+ * Check a task's command or steps. Resolves with `{ command, steps }` to
+ * save, or `{ error }`.
+ */
+async function checkTaskBody({ command, steps }) {
+  if (Array.isArray(steps) && steps.length > 0) {
+    const pipelineError = validatePipeline(steps);
+    if (pipelineError) return { error: pipelineError };
+    for (const [index, step] of steps.entries()) {
+      if (step.type !== 'rcon') continue;
+      const commandError = await checkTaskCommand(step.command);
+      if (commandError) return { error: `Step ${index + 1}: ${commandError}` };
+    }
+    return { command: PIPELINE_COMMAND, steps: normalizePipeline(steps) };
+  }
+  if (!command) return { error: 'A command or steps are required' };
+  const commandError = await checkTaskCommand(command);
+  return commandError ? { error: commandError } : { command, steps: null };
+}
+
+const CRON_ERROR = 'Invalid cron expression. Use format: minute hour day month weekday (e.g., "0 */6 * * *" for every 6 hours)';
+
+/**
+ * Check when a task runs: on `cronExpression`, or once at `runAt` (with
+ * `timezone` and `missedGraceMinutes`). Resolves with `{ cronExpression,
+ * oneOff }` to save - an undefined oneOff keeps what the task has - or
+ * `{ error }`.
+ */
+function checkTaskSchedule({ cronExpression, runAt, timezone, missedGraceMinutes, enabled = true }, existing = null) {
+  if (runAt) {
+    const error = validateOneOffSchedule({ runAt, timezone, missedGraceMinutes });
+    return error ? { error } : { cronExpression: null, oneOff: normalizeOneOffSchedule({ runAt, timezone, missedGraceMinutes }) };
+  }
+  if (cronExpression) {
+    if (!cron.validate(cronExpression)) return { error: CRON_ERROR };
+    return { cronExpression, oneOff: existing?.run_at ? null : undefined };
+  }
+  if (existing?.run_at) {
+    if (enabled && !existing.enabled && new Date(existing.run_at).getTime() <= Date.now()) {
+      return { error: 'This one-off task has already run - give it a new run time' };
+    }
+    return { cronExpression: null, oneOff: undefined };
+  }
+  return { error: 'A cron expression or a run time is required' };
+}
+
+// Conditions are optional; null removes them
+function checkTaskConditions(conditions) {
+  if (conditions === undefined || conditions === null) return { conditions };
+  const error = validateConditions(conditions);
+  return error ? { error } : { conditions: normalizeConditions(conditions) };
+}
+
 // Get scheduler status
 router.get('/status', async (req, res) => {
   try {
@@ -28,7 +107,8 @@ router.get('/status', async (req, res) => {
 // Get all scheduled tasks
 router.get('/tasks', async (req, res) => {
   try {
-    const tasks = await getScheduledTasks();
+    const scheduler = req.app.get('scheduler');
+    const tasks = await getScheduledTasks(scheduler.serverId);
     res.json({ tasks });
   } catch (error) {
     log.error(`Failed to get scheduled tasks: ${error.message}`);
@@ -59,25 +139,22 @@ router.post('/validate-cron', async (req, res) => {
 router.post('/tasks', async (req, res) => {
   try {
     const scheduler = req.app.get('scheduler');
-    const { name, cronExpression, command } = req.body;
+    const { name } = req.body;
     
-    if (!name || !cronExpression || !command) {
-      return res.status(400).json({ error: 'Name, cronExpression, and command are required' });
+    if (!name || (!req.body.cronExpression && !req.body.runAt)) {
+      return res.status(400).json({ error: 'Name and cronExpression or runAt are required' });
     }
     
-    // Validate cron expression before saving
-    if (!cron.validate(cronExpression)) {
-      return res.status(400).json({ error: 'Invalid cron expression. Use format: minute hour day month weekday (e.g., "0 */6 * * *" for every 6 hours)' });
+    // Validate the schedule before saving
+    const schedule = checkTaskSchedule(req.body);
+    const body = await checkTaskBody(req.body);
+    const { conditions, error: conditionsError } = checkTaskConditions(req.body.conditions);
+    const catchUpError = validateCatchUp(req.body.catchUp);
+    if (schedule.error || body.error || conditionsError || catchUpError) {
+      return res.status(400).json({ error: schedule.error || body.error || conditionsError || catchUpError });
     }
     
-    const result = await createScheduledTask(name, cronExpression, command);
-    const task = {
-      id: result.id,
-      name,
-      cron_expression: cronExpression,
-      command,
-      enabled: 1
-    };
+    const task = await createScheduledTask(name, schedule.cronExpression, body.command, scheduler.serverId, body.steps, conditions ?? null, schedule.oneOff ?? null, req.body.catchUp ?? DEFAULT_CATCH_UP);
     
     // Schedule the task
     scheduler.scheduleTask(task);
@@ -94,29 +171,34 @@ router.put('/tasks/:id', async (req, res) => {
   try {
     const scheduler = req.app.get('scheduler');
     const { id } = req.params;
-    const { name, cronExpression, command, enabled } = req.body;
+    const { name, enabled } = req.body;
     
     const taskId = parseInt(id, 10);
     if (isNaN(taskId)) {
       return res.status(400).json({ error: 'Invalid task ID' });
     }
+    const existing = await findServerTask(scheduler, taskId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
     
-    // Validate cron expression before saving to prevent DB/scheduler inconsistency
-    if (enabled && !cron.validate(cronExpression)) {
-      return res.status(400).json({ error: 'Invalid cron expression. Use format: minute hour day month weekday (e.g., "0 */6 * * *" for every 6 hours)' });
+    // Validate the schedule before saving to prevent DB/scheduler inconsistency.
+    // A one-off task keeps its run time when none is sent
+    const schedule = checkTaskSchedule(req.body, existing);
+    // A pipeline keeps its steps when they are not sent
+    const keepSteps = req.body.steps === undefined && existing.steps?.length > 0;
+    const body = await checkTaskBody(keepSteps ? { steps: existing.steps } : req.body);
+    const { conditions, error: conditionsError } = checkTaskConditions(req.body.conditions);
+    const catchUpError = validateCatchUp(req.body.catchUp);
+    if (schedule.error || body.error || conditionsError || catchUpError) {
+      return res.status(400).json({ error: schedule.error || body.error || conditionsError || catchUpError });
     }
     
-    await updateScheduledTask(taskId, name, cronExpression, command, enabled);
+    const task = await updateScheduledTask(taskId, name, schedule.cronExpression, body.command, enabled, body.steps, conditions, schedule.oneOff, req.body.catchUp);
     
     // Reschedule or cancel the task
     if (enabled) {
-      scheduler.scheduleTask({
-        id: taskId,
-        name,
-        cron_expression: cronExpression,
-        command,
-        enabled: 1
-      });
+      scheduler.scheduleTask(task);
     } else {
       scheduler.cancelTask(taskId);
     }
@@ -138,6 +220,9 @@ router.delete('/tasks/:id', async (req, res) => {
     if (isNaN(taskId)) {
       return res.status(400).json({ error: 'Invalid task ID' });
     }
+    if (!await findServerTask(scheduler, taskId)) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
     
     scheduler.cancelTask(taskId);
     await deleteScheduledTask(taskId);
@@ -149,6 +234,34 @@ router.delete('/tasks/:id', async (req, res) => {
   }
 });
 
+// Run a task now, in the background - pipelines can take many minutes.
+// A manual run does not wait for the task's conditions
+router.post('/tasks/:id/run', async (req, res) => {
+  try {
+    const scheduler = req.app.get('scheduler');
+    const taskId = parseInt(req.params.id, 10);
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+    const task = await findServerTask(scheduler, taskId);
+    if (!task) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    if (scheduler.runningTasks.has(taskId)) {
+      return res.status(409).json({ error: 'Task is already running' });
+    }
+    
+    scheduler.runTask(task, { ignoreConditions: true }).catch(err => {
+      log.error(`Task ${task.name} failed: ${err.message}`);
+    });
+    
+    res.json({ success: true, message: 'Task started' });
+  } catch (error) {
+    log.error(`Failed to run scheduled task: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Trigger immediate restart
 router.post('/restart-now', async (req, res) => {
   try {
@@ -175,6 +288,114 @@ router.post('/restart-now', async (req, res) => {
   }
 });
 
+// Cancel a restart while players are being warned
+router.post('/restart/cancel', async (req, res) => {
+  try {
+    const scheduler = req.app.get('scheduler');
+    const result = scheduler.cancelRestart();
+    if (!result.success) {
+      return res.status(409).json({ error: result.message });
+    }
+    res.json(result);
+  } catch (error) {
+    log.error(`Failed to cancel restart: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Hide the warning about runs missed while the panel was down
+router.post('/missed-runs/dismiss', async (req, res) => {
+  try {
+    const scheduler = req.app.get('scheduler');
+    scheduler.dismissMissedRuns();
+    res.json({ success: true });
+  } catch (error) {
+    log.error(`Failed to dismiss missed runs: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get the restart policy: restart windows, warnings and how they are sent
+router.get('/restart-policy', async (req, res) => {
+  try {
+    const scheduler = req.app.get('scheduler');
+    res.json({ policy: scheduler.restartPolicy, nextAutoRestart: scheduler.nextAutoRestart });
+  } catch (error) {
+    log.error(`Failed to get restart policy: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Save the restart policy and re-plan the next auto-restart
+router.put('/restart-policy', async (req, res) => {
+  try {
+    const scheduler = req.app.get('scheduler');
+    const validationError = validateRestartPolicy(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+    
+    const policy = await scheduler.updateRestartPolicy(normalizeRestartPolicy(req.body));
+    res.json({ success: true, policy, nextAutoRestart: scheduler.nextAutoRestart });
+  } catch (error) {
+    log.error(`Failed to save restart policy: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Upcoming runs of every job (tasks, backups, restarts) for the calendar
+router.get('/upcoming', async (req, res) => {
+  try {
+    const scheduler = req.app.get('scheduler');
+    const days = Math.min(Math.max(parseInt(req.query.days, 10) || 7, 1), 31);
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 100, 1), 500);
+    const from = req.query.from ? new Date(req.query.from) : new Date();
+    if (isNaN(from)) {
+      return res.status(400).json({ error: 'Invalid from date' });
+    }
+
+    res.json(await scheduler.getUpcoming({ from, days, limit }));
+  } catch (error) {
+    log.error(`Failed to get upcoming runs: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Move one upcoming run of a job to a later time
+router.post('/postponements', async (req, res) => {
+  try {
+    const scheduler = req.app.get('scheduler');
+    const { jobKey, originalAt, postponedTo } = req.body;
+    if (!jobKey || !originalAt || !postponedTo) {
+      return res.status(400).json({ error: 'jobKey, originalAt and postponedTo are required' });
+    }
+
+    const result = await scheduler.postponeRun(jobKey, originalAt, postponedTo);
+    if (!result.success) {
+      return res.status(400).json({ error: result.message });
+    }
+    res.json(result);
+  } catch (error) {
+    log.error(`Failed to postpone run: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Undo a postponement
+router.delete('/postponements/:id', async (req, res) => {
+  try {
+    const scheduler = req.app.get('scheduler');
+    const cancelled = await scheduler.cancelPostponement(parseInt(req.params.id, 10));
+    if (!cancelled) {
+      return res.status(404).json({ error: 'Postponement not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    log.error(`Failed to cancel postponement: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Common cron presets for convenience
 router.get('/cron-presets', (req, res) => {
   res.json({
@@ -4,7 +4,18 @@ import path from 'path';
 import fs from 'fs';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('API:Server');
-import { logServerEvent, setSetting, getSetting, getActiveServer } from '../database/init.js';
+import { logServerEvent, setSetting, getSetting, resolveServer } from '../database/init.js';
+import {
+  IS_WINDOWS,
+  SERVER_INSTALL_MARKERS,
+  STEAMCMD_DOWNLOAD_URL,
+  getCustomStartScriptName,
+  findSteamCmdExecutable,
+  describeSteamCmdExecutable,
+  buildLinuxLaunchArgs,
+  getPlatformInfo
+} from '../utils/platform.js';
+import { filterConsoleLogLines } from '../services/serverConsole.js';
 
 const router = express.Router();
 
@@ -13,9 +24,9 @@ const activeSteamOperations = new Map();
 
 // Helper to auto-configure RCON in the server's .ini file
 // This is called after server starts and creates the .ini file
-async function ensureRconConfigured() {
+async function ensureRconConfigured(req) {
   try {
-    const activeServer = await getActiveServer();
+    const activeServer = await resolveServer(req.app.get('serverId'));
     if (!activeServer) {
       log.debug('ensureRconConfigured: No active server');
       return false;
@@ -76,8 +87,8 @@ async function ensureRconConfigured() {
 }
 
 // Helper functions for multi-server support
-async function getServerConfigPath() {
-  const activeServer = await getActiveServer();
+async function getServerConfigPath(req) {
+  const activeServer = await resolveServer(req.app.get('serverId'));
   if (activeServer?.serverConfigPath) {
     return activeServer.serverConfigPath;
   }
@@ -85,8 +96,8 @@ async function getServerConfigPath() {
   return legacyPath || null;
 }
 
-async function getServerName() {
-  const activeServer = await getActiveServer();
+async function getServerName(req) {
+  const activeServer = await resolveServer(req.app.get('serverId'));
   if (activeServer?.serverName) {
     return activeServer.serverName;
   }
@@ -116,7 +127,7 @@ function isValidPath(inputPath) {
   const normalized = path.normalize(inputPath);
   // Check for path traversal attempts
   if (normalized.includes('..')) return false;
-  // Must be absolute path on Windows
+  // Must be an absolute path
   if (!path.isAbsolute(normalized)) return false;
   return true;
 }
@@ -209,6 +220,76 @@ PAUSE
   return batchContent;
 }
 
+// Quote a value for a bash script
+function shellQuote(value) {
+  return `'${String(value).replace(/'/g, `'\\''`)}'`;
+}
+
+// Generate a custom startup shell script (Linux) that runs the stock
+// start-server.sh with the configured options
+function generateStartupShellScript(options) {
+  const {
+    serverName,
+    minMemory = 4,
+    maxMemory = 8,
+    zomboidDataPath,
+    adminPassword,
+    serverPort = 16261,
+    useNoSteam = false,
+    useDebug = false
+  } = options;
+
+  const safeServerName = sanitizeForBatch(serverName);
+  const args = buildLinuxLaunchArgs({
+    serverName: safeServerName,
+    minMemory: minMemory * 1024,
+    maxMemory: maxMemory * 1024,
+    cacheDir: zomboidDataPath ? sanitizeForBatch(zomboidDataPath) : '',
+    serverPort,
+    useNoSteam,
+    useDebug
+  });
+
+  if (adminPassword) {
+    args.push('-adminpassword', sanitizeForBatch(adminPassword));
+  }
+  args.push('-statistic', '0');
+
+  return `#!/usr/bin/env bash
+# =====================================================
+# Project Zomboid Server Startup Script
+# Generated by PZ Server Manager
+# Server Name: ${safeServerName}
+# Memory: ${minMemory}GB - ${maxMemory}GB
+# =====================================================
+
+cd "$(dirname "$0")" || exit 1
+
+exec bash ./start-server.sh ${args.map(shellQuote).join(' ')}
+`;
+}
+
+// Write the custom startup script for this platform, returning its file name
+function writeStartupScript(options) {
+  const fileName = getCustomStartScriptName(options.serverName);
+  const scriptPath = path.join(options.installPath, fileName);
+
+  if (IS_WINDOWS) {
+    fs.writeFileSync(scriptPath, generateStartupBatch(options), 'utf8');
+  } else {
+    fs.writeFileSync(scriptPath, generateStartupShellScript(options), { encoding: 'utf8', mode: 0o755 });
+    fs.chmodSync(scriptPath, 0o755);
+  }
+
+  log.info(`Created custom startup script: ${scriptPath}`);
+  return fileName;
+}
+
+// Host platform details for the setup wizard
+router.get('/platform', (req, res) => {
+  res.json(getPlatformInfo());
+});
+
 // Get server status
 router.get('/status', async (req, res) => {
   try {
@@ -236,7 +317,7 @@ router.post('/start', async (req, res) => {
     const result = await serverManager.startServer();
     
     // Emit status update via Socket.IO
-    const io = req.app.get('io');
+    const toServerRooms = req.app.get('serverRooms');
     
     // Set flag to prevent RCON reconnect attempts during startup
     // Use setServerStarting which has a 5-minute failsafe timeout
@@ -260,7 +341,7 @@ router.post('/start', async (req, res) => {
         if (isRunning) {
           pollCleared = true;
           clearInterval(pollInterval);
-          io.emit('server:status', { running: true });
+          toServerRooms().emit('server:status', { running: true });
           log.info('Server detected as running');
           
           // Wait for RCON to be ready (PZ takes 60-180s to fully start)
@@ -292,7 +373,7 @@ router.post('/start', async (req, res) => {
                  
                  // Periodically try to configure RCON (Wait for .ini to appear)
                  if (!rconConfigured && (i % 3 === 0)) { // Every 15s (3 * 5s)
-                    rconConfigured = await ensureRconConfigured();
+                    rconConfigured = await ensureRconConfigured(req);
                     if (rconConfigured) {
                       log.info('RCON settings auto-configured in server .ini file during startup wait');
                     }
@@ -392,8 +473,8 @@ router.post('/stop', async (req, res) => {
     // Then quit
     const result = await rconService.quit();
     
-    const io = req.app.get('io');
-    io.to('server-status').emit('server:status', { running: false });
+    const toServerRooms = req.app.get('serverRooms');
+    toServerRooms('server-status').emit('server:status', { running: false });
     
     logServerEvent('server_stop', 'Server stopped via web UI');
     res.json(result);
@@ -409,8 +490,8 @@ router.post('/force-stop', async (req, res) => {
     const serverManager = req.app.get('serverManager');
     const result = await serverManager.stopServer(false);
     
-    const io = req.app.get('io');
-    io.to('server-status').emit('server:status', { running: false });
+    const toServerRooms = req.app.get('serverRooms');
+    toServerRooms('server-status').emit('server:status', { running: false });
     
     res.json(result);
   } catch (error) {
@@ -591,8 +672,8 @@ router.get('/branches', async (req, res) => {
       });
     }
     
-    const steamcmdExe = path.join(steamcmdPath, 'steamcmd.exe');
-    if (!fs.existsSync(steamcmdExe)) {
+    const steamcmdExe = findSteamCmdExecutable(steamcmdPath);
+    if (!steamcmdExe) {
       return res.json({ 
         branches: FALLBACK_BRANCHES,
         source: 'fallback',
@@ -823,10 +904,10 @@ router.post('/install', async (req, res) => {
     // Sanitize string inputs for batch file
     const safeAdminPassword = sanitizeForBatch(adminPassword);
     
-    // Check if steamcmd.exe exists
-    const steamcmdExe = path.join(steamcmdPath, 'steamcmd.exe');
-    if (!fs.existsSync(steamcmdExe)) {
-      return res.status(400).json({ error: `SteamCMD not found at: ${steamcmdExe}` });
+    // Check if SteamCMD exists
+    const steamcmdExe = findSteamCmdExecutable(steamcmdPath);
+    if (!steamcmdExe) {
+      return res.status(400).json({ error: `SteamCMD not found at: ${describeSteamCmdExecutable(steamcmdPath)}` });
     }
     
     // Prevent concurrent operations on the same install path
@@ -964,9 +1045,9 @@ router.post('/install', async (req, res) => {
           io.emit('install:log', { type: 'stdout', text: `RCON settings saved (port: ${rconPort})` });
         }
         
-        // Generate custom startup batch file
+        // Generate custom startup script
         try {
-          const batchContent = generateStartupBatch({
+          const scriptName = writeStartupScript({
             installPath,
             serverName,
             minMemory: safeMinMemory,
@@ -977,13 +1058,9 @@ router.post('/install', async (req, res) => {
             useNoSteam,
             useDebug
           });
-          
-          const batchPath = path.join(installPath, `StartServer_${serverName}.bat`);
-          fs.writeFileSync(batchPath, batchContent, 'utf8');
-          log.info(`Created custom startup batch: ${batchPath}`);
-          io.emit('install:log', { type: 'stdout', text: `Created custom startup script: StartServer_${serverName}.bat` });
+          io.emit('install:log', { type: 'stdout', text: `Created custom startup script: ${scriptName}` });
         } catch (batchError) {
-          log.warn(`Failed to create startup batch: ${batchError.message}`);
+          log.warn(`Failed to create startup script: ${batchError.message}`);
         }
         
         logServerEvent('server_install', `Installed PZ server to ${installPath} (${selectedBranch} branch)`);
@@ -1109,10 +1186,10 @@ router.post('/quick-setup', async (req, res) => {
     }
     
     // Check if server files exist
-    const startServerBat = path.join(installPath, 'StartServer64.bat');
+    const hasStartScript = SERVER_INSTALL_MARKERS.some(marker => fs.existsSync(path.join(installPath, marker)));
     const javaFolder = path.join(installPath, 'jre64');
     
-    if (!fs.existsSync(startServerBat) && !fs.existsSync(javaFolder)) {
+    if (!hasStartScript && !fs.existsSync(javaFolder)) {
       return res.status(400).json({ 
         error: 'Server files not found. Make sure the path contains Project Zomboid dedicated server files.' 
       });
@@ -1167,8 +1244,8 @@ router.post('/quick-setup', async (req, res) => {
       await setSetting('rconHost', '127.0.0.1');
     }
     
-    // Generate custom startup batch file
-    const batchContent = generateStartupBatch({
+    // Generate custom startup script
+    const scriptName = writeStartupScript({
       installPath,
       serverName,
       minMemory: safeMinMemory,
@@ -1180,10 +1257,6 @@ router.post('/quick-setup', async (req, res) => {
       useDebug
     });
     
-    const batchPath = path.join(installPath, `StartServer_${serverName}.bat`);
-    fs.writeFileSync(batchPath, batchContent, 'utf8');
-    log.info(`Created custom startup batch: ${batchPath}`);
-    
     // Auto-install PanelBridge mod to the server
     let panelBridgeInstalled = false;
     try {
@@ -1227,7 +1300,7 @@ router.post('/quick-setup', async (req, res) => {
       serverName,
       zomboidDataPath: zomboidPath,  // Send back the computed data path
       serverConfigPath,
-      batchFile: `StartServer_${serverName}.bat`,
+      batchFile: scriptName,
       rconPort: safeRconPort,
       rconPassword,
       serverPort: safeServerPort,
@@ -1253,8 +1326,8 @@ router.post('/configure-rcon', async (req, res) => {
     }
     
     // Get the server config path from active server or settings
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     
     if (!serverConfigPath) {
       return res.status(400).json({ error: 'Server config path not set. Please run installation first.' });
@@ -1311,8 +1384,8 @@ router.post('/configure-network', async (req, res) => {
     const serverPort = validateInt(rawServerPort, 1024, 65535, 16261);
     
     // Get the server config path from active server or settings
-    const serverConfigPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const serverConfigPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     
     if (!serverConfigPath) {
       return res.status(400).json({ error: 'Server config path not set. Please run installation first.' });
@@ -1544,9 +1617,9 @@ router.post('/steam-update', async (req, res) => {
       });
     }
     
-    const steamcmdExe = path.join(steamcmdPath, 'steamcmd.exe');
-    if (!fs.existsSync(steamcmdExe)) {
-      return res.status(400).json({ error: `SteamCMD not found at: ${steamcmdExe}` });
+    const steamcmdExe = findSteamCmdExecutable(steamcmdPath);
+    if (!steamcmdExe) {
+      return res.status(400).json({ error: `SteamCMD not found at: ${describeSteamCmdExecutable(steamcmdPath)}` });
     }
     
     const operation = validateFiles ? 'verification' : 'update';
@@ -1669,7 +1742,7 @@ router.post('/steam-update', async (req, res) => {
 // Auto-download and install SteamCMD
 router.post('/steamcmd/download', async (req, res) => {
   try {
-    const { installPath = 'C:\\SteamCMD' } = req.body;
+    const { installPath = getPlatformInfo().examplePaths.steamcmd } = req.body;
     
     if (!isValidPath(installPath)) {
       return res.status(400).json({ error: 'Invalid installation path' });
@@ -1677,15 +1750,14 @@ router.post('/steamcmd/download', async (req, res) => {
     
     const io = req.app.get('io');
     const https = await import('https');
-    const unzipper = await import('unzipper');
     
     // Create directory if it doesn't exist
     if (!fs.existsSync(installPath)) {
       fs.mkdirSync(installPath, { recursive: true });
     }
     
-    const steamcmdUrl = 'https://steamcdn-a.akamaihd.net/client/installer/steamcmd.zip';
-    const zipPath = path.join(installPath, 'steamcmd.zip');
+    const steamcmdUrl = STEAMCMD_DOWNLOAD_URL;
+    const zipPath = path.join(installPath, path.basename(steamcmdUrl));
     
     io.emit('steamcmd:status', { status: 'downloading', message: 'Downloading SteamCMD...' });
     log.info(`Downloading SteamCMD to ${installPath}`);
@@ -1734,19 +1806,31 @@ router.post('/steamcmd/download', async (req, res) => {
         io.emit('steamcmd:status', { status: 'extracting', message: 'Extracting SteamCMD...' });
         log.info('Extracting SteamCMD...');
         
-        // Extract the zip file
-        await fs.createReadStream(zipPath)
-          .pipe(unzipper.default.Extract({ path: installPath }))
-          .promise();
+        // Extract the archive (zip on Windows, tar.gz on Linux)
+        if (IS_WINDOWS) {
+          const unzipper = await import('unzipper');
+          await fs.createReadStream(zipPath)
+            .pipe(unzipper.default.Extract({ path: installPath }))
+            .promise();
+        } else {
+          await new Promise((resolve, reject) => {
+            const tar = spawn('tar', ['-xzf', zipPath, '-C', installPath]);
+            tar.on('error', reject);
+            tar.on('close', (code) => code === 0 ? resolve() : reject(new Error(`tar exited with code ${code}`)));
+          });
+        }
         
-        // Clean up zip file
+        // Clean up archive
         fs.unlinkSync(zipPath);
         
         io.emit('steamcmd:status', { status: 'initializing', message: 'Initializing SteamCMD (first run)...' });
         log.info('Running SteamCMD first-time setup...');
         
         // Run steamcmd once to let it update itself
-        const steamcmdExe = path.join(installPath, 'steamcmd.exe');
+        const steamcmdExe = findSteamCmdExecutable(installPath);
+        if (!steamcmdExe) {
+          throw new Error(`SteamCMD not found after extraction: ${describeSteamCmdExecutable(installPath)}`);
+        }
         const steamcmd = spawn(steamcmdExe, ['+quit'], {
           cwd: installPath
         });
@@ -1810,13 +1894,13 @@ router.get('/steamcmd/check', async (req, res) => {
       return res.json({ exists: false, message: 'Invalid path' });
     }
     
-    const steamcmdExe = path.join(checkPath, 'steamcmd.exe');
-    const exists = fs.existsSync(steamcmdExe);
+    const steamcmdExe = findSteamCmdExecutable(checkPath);
+    const exists = !!steamcmdExe;
     
     res.json({ 
       exists,
       path: checkPath,
-      executable: steamcmdExe,
+      executable: steamcmdExe || describeSteamCmdExecutable(checkPath),
       message: exists ? 'SteamCMD found' : 'SteamCMD not found at this location'
     });
     
@@ -1840,7 +1924,7 @@ router.post('/delete-files', async (req, res) => {
     }
     
     // Check for known PZ server markers to prevent accidental deletion of wrong folders
-    const pzMarkers = ['ProjectZomboid64.json', 'StartServer64.bat', 'java', 'natives'];
+    const pzMarkers = ['ProjectZomboid64.json', ...SERVER_INSTALL_MARKERS, 'java', 'natives'];
     const hasPzFiles = pzMarkers.some(marker => fs.existsSync(path.join(deletePath, marker)));
     
     if (!hasPzFiles) {
@@ -1866,6 +1950,10 @@ router.post('/delete-files', async (req, res) => {
 // Open folder browser dialog (uses PowerShell for native Windows dialog)
 router.post('/browse-folder', async (req, res) => {
   try {
+    if (!IS_WINDOWS) {
+      return res.status(400).json({ error: 'The folder picker is only available when the panel runs on Windows - type the path instead' });
+    }
+    
     const { initialPath, description = 'Select a folder' } = req.body;
     const safePath = initialPath && isValidPath(initialPath) ? initialPath.replace(/'/g, "''") : '';
     const safeDesc = description.replace(/'/g, "''");
@@ -1936,91 +2024,43 @@ if ($result -eq 'OK') {
 });
 
 // ============================================
-// Server Console Log (server-console.txt)
+// Server Console Log
 // ============================================
+//
+// Output of a server started by the panel is captured directly (see
+// services/serverConsole.js). server-console.txt is only read when there is
+// no captured output, e.g. for a server started outside the panel.
 
-// Filter patterns for console log - patterns to exclude (noise)
-const CONSOLE_LOG_EXCLUDE_PATTERNS = [
-  // Duplicate sprites/textures (very spammy)
-  /IsoSpriteManager\.AddSprite > duplicate texture/,
-  // PlayerHitZombie packet spam (not consistent packets)
-  /The packet PlayerHitZombie is not consistent/,
-  // Missing icons for build items (cosmetic only)
-  /XuiSkin\$EntityUiStyle\.Load > Could not find icon:/,
-  /XuiSkin\$EntityUiStyle\.LoadComponentInfo> Could not find icon:/,
-  // Recursive require warnings (usually harmless)
-  /LuaManager\.RunLua > recursive require\(\)/,
-  // AnimalPacket/AnimalEventPacket class warnings (known issue)
-  /The AnimalPacket class doesn't have PacketSetting attributes/,
-  /The AnimalEventPacket class doesn't have PacketSetting attributes/,
-];
-
-// Patterns for errors (always show these)
-const CONSOLE_LOG_ERROR_PATTERNS = [
-  /^ERROR\[/,
-  /Exception thrown/,
-  /Stack trace:/,
-  /java\.lang\.\w+Exception/,
-  /KahluaThread\.flushErrorMessage/,
-];
+// Get server console log content
+router.get('/console-log', async (req, res) => {
+  try {
+    // Filter level: 'all' | 'filtered' | 'important' | 'errors'
+    const filterLevel = req.query.filter || 'filtered';
 
-// Patterns for important info (always show these)
-const CONSOLE_LOG_IMPORTANT_PATTERNS = [
-  /^\[PanelBridge\]/,
-  /SERVER STARTED/,
-  /fully-connected/,
-  /player-connect/,
-  /connection-lost/,
-  /disconnect/,
-  /Steam client .* is initiating/,
-  /RCON:/,
-  /Recipe AutoLearned/,
-  /Reduce Head Condition/,
-  /ISBuildIsoEntity/,
-];
+    // Read last N lines (default 500, max 2000)
+    const maxLines = Math.min(parseInt(req.query.lines) || 500, 2000);
 
-/**
- * Filter console log lines based on filter level
- * @param {string[]} lines - Array of log lines
- * @param {string} filterLevel - 'all' | 'filtered' | 'important' | 'errors'
- * @returns {string[]} Filtered lines
- */
-function filterConsoleLogLines(lines, filterLevel = 'filtered') {
-  if (filterLevel === 'all') {
-    return lines;
-  }
-  
-  return lines.filter(line => {
-    if (!line.trim()) return false;
-    
-    // Always include error lines
-    const isError = CONSOLE_LOG_ERROR_PATTERNS.some(pattern => pattern.test(line));
-    if (isError) return true;
-    
-    // Always include important lines
-    const isImportant = CONSOLE_LOG_IMPORTANT_PATTERNS.some(pattern => pattern.test(line));
-    if (isImportant) return true;
-    
-    // For 'errors' level, only show errors
-    if (filterLevel === 'errors') {
-      return isError;
-    }
-    
-    // For 'important' level, show errors + important
-    if (filterLevel === 'important') {
-      return isError || isImportant;
+    const serverConsole = req.app.get('serverConsole');
+    const captured = serverConsole?.getLines() || [];
+    if (serverConsole && (serverConsole.capturing || captured.length > 0)) {
+      const filteredLines = filterConsoleLogLines(captured.map(entry => entry.line), filterLevel);
+      const lines = filteredLines.slice(-maxLines);
+      return res.json({
+        success: true,
+        source: 'panel',
+        content: lines.join('\n'),
+        lines,
+        totalLines: captured.length,
+        filteredCount: filteredLines.length,
+        filterLevel,
+        exists: true,
+        capturing: serverConsole.capturing,
+        path: serverConsole.getLogPath(),
+        lastSeq: serverConsole.seq
+      });
     }
-    
-    // For 'filtered' level (default), exclude noise patterns
-    const isNoise = CONSOLE_LOG_EXCLUDE_PATTERNS.some(pattern => pattern.test(line));
-    return !isNoise;
-  });
-}
 
-// Get server console log content
-router.get('/console-log', async (req, res) => {
-  try {
-    const activeServer = await getActiveServer();
+    const activeServer = await resolveServer(req.app.get('serverId'));
     // server-console.txt is in zomboidDataPath (where Server/, Saves/, Logs/ are)
     const zomboidDataPath = activeServer?.zomboidDataPath || activeServer?.installPath || await getSetting('zomboidDataPath') || await getSetting('serverPath');
     
@@ -2033,6 +2073,7 @@ router.get('/console-log', async (req, res) => {
     if (!fs.existsSync(consoleLogPath)) {
       return res.json({ 
         success: true, 
+        source: 'file',
         content: '', 
         lines: [],
         exists: false,
@@ -2040,11 +2081,6 @@ router.get('/console-log', async (req, res) => {
       });
     }
     
-    // Filter level: 'all' | 'filtered' | 'important' | 'errors'
-    const filterLevel = req.query.filter || 'filtered';
-    
-    // Read last N lines (default 500, max 2000)
-    const maxLines = Math.min(parseInt(req.query.lines) || 500, 2000);
     const content = fs.readFileSync(consoleLogPath, 'utf-8');
     const allLines = content.split('\n');
     
@@ -2057,6 +2093,7 @@ router.get('/console-log', async (req, res) => {
     
     res.json({
       success: true,
+      source: 'file',
       content: lines.join('\n'),
       lines,
       totalLines: allLines.length,
@@ -2073,10 +2110,30 @@ router.get('/console-log', async (req, res) => {
   }
 });
 
-// Stream server console log (long-polling for new content)
+// Stream server console log (long-polling for new content).
+// Captured output is also pushed live to the 'server-console' socket room.
 router.get('/console-log/stream', async (req, res) => {
   try {
-    const activeServer = await getActiveServer();
+    // Filter level: 'all' | 'filtered' | 'important' | 'errors'
+    const filterLevel = req.query.filter || 'filtered';
+
+    const serverConsole = req.app.get('serverConsole');
+    if (serverConsole && req.query.since !== undefined) {
+      const since = parseInt(req.query.since) || 0;
+      const newLines = filterConsoleLogLines(serverConsole.getLines({ since }).map(entry => entry.line), filterLevel);
+      return res.json({
+        success: true,
+        source: 'panel',
+        newLines,
+        // The buffer was cleared or the panel restarted since the client last looked
+        rotated: since > serverConsole.seq,
+        filterLevel,
+        capturing: serverConsole.capturing,
+        lastSeq: serverConsole.seq
+      });
+    }
+
+    const activeServer = await resolveServer(req.app.get('serverId'));
     // server-console.txt is in zomboidDataPath (where Server/, Saves/, Logs/ are)
     const zomboidDataPath = activeServer?.zomboidDataPath || activeServer?.installPath || await getSetting('zomboidDataPath') || await getSetting('serverPath');
     
@@ -2090,9 +2147,6 @@ router.get('/console-log/stream', async (req, res) => {
       return res.json({ success: true, newLines: [], exists: false });
     }
     
-    // Filter level: 'all' | 'filtered' | 'important' | 'errors'
-    const filterLevel = req.query.filter || 'filtered';
-    
     // Get the last known position from client
     const lastSize = parseInt(req.query.lastSize) || 0;
     const stats = fs.statSync(consoleLogPath);
@@ -2150,20 +2204,23 @@ router.get('/console-log/stream', async (req, res) => {
 // Clear server console log
 router.post('/console-log/clear', async (req, res) => {
   try {
-    const activeServer = await getActiveServer();
+    const serverConsole = req.app.get('serverConsole');
+    serverConsole?.clear();
+
+    const activeServer = await resolveServer(req.app.get('serverId'));
     // server-console.txt is in zomboidDataPath (where Server/, Saves/, Logs/ are)
     const zomboidDataPath = activeServer?.zomboidDataPath || activeServer?.installPath || await getSetting('zomboidDataPath') || await getSetting('serverPath');
     
-    if (!zomboidDataPath) {
+    if (!zomboidDataPath && !serverConsole) {
       return res.status(400).json({ error: 'Server data path not configured' });
     }
     
-    const consoleLogPath = path.join(zomboidDataPath, 'server-console.txt');
+    const consoleLogPath = zomboidDataPath ? path.join(zomboidDataPath, 'server-console.txt') : null;
     
-    if (fs.existsSync(consoleLogPath)) {
+    if (consoleLogPath && fs.existsSync(consoleLogPath)) {
       fs.writeFileSync(consoleLogPath, '');
-      log.info('Server console log cleared');
     }
+    log.info('Server console log cleared');
     
     res.json({ success: true });
   } catch (error) {
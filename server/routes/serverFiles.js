@@ -1,9 +1,11 @@
 import express from 'express';
-import fs from 'fs';
 import path from 'path';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('API:Files');
-import { getActiveServer, getAllSettings } from '../database/init.js';
+import { resolveServer, getAllSettings } from '../database/init.js';
+import { getRequestFs } from '../services/hostFs.js';
+import { maskIniSettings, maskIniText } from '../utils/secrets.js';
+import { requestHasPermission } from '../utils/permissions.js';
 
 const router = express.Router();
 
@@ -13,8 +15,8 @@ function escapeRegExp(str) {
 }
 
 // Get the server config directory path
-async function getServerConfigPath() {
-  const activeServer = await getActiveServer();
+async function getServerConfigPath(req) {
+  const activeServer = await resolveServer(req.app.get('serverId'));
   
   // First, use explicitly configured serverConfigPath if available
   if (activeServer?.serverConfigPath) {
@@ -41,8 +43,8 @@ async function getServerConfigPath() {
 }
 
 // Get server name from active server
-async function getServerName() {
-  const activeServer = await getActiveServer();
+async function getServerName(req) {
+  const activeServer = await resolveServer(req.app.get('serverId'));
   if (activeServer?.serverName) {
     return activeServer.serverName;
   }
@@ -52,37 +54,38 @@ async function getServerName() {
 }
 
 // Backup directory
-async function getBackupPath() {
-  return path.join(await getServerConfigPath(), 'backups');
+async function getBackupPath(req) {
+  return path.join(await getServerConfigPath(req), 'backups');
 }
 
 // Create backup before saving
-async function createBackup(filename) {
-  const configPath = await getServerConfigPath();
-  const backupDir = await getBackupPath();
+async function createBackup(req, filename) {
+  const configPath = await getServerConfigPath(req);
+  const backupDir = await getBackupPath(req);
   const filePath = path.join(configPath, filename);
   
   try {
+    const hostFs = await getRequestFs(req);
     // Check file existence asynchronously
     try {
-      await fs.promises.access(filePath);
+      await hostFs.access(filePath);
     } catch {
       return null;
     }
     
     // Ensure backup directory exists
-    await fs.promises.mkdir(backupDir, { recursive: true });
+    await hostFs.mkdir(backupDir, { recursive: true });
     
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const backupName = `${filename}.${timestamp}.bak`;
     const backupPath = path.join(backupDir, backupName);
     
     // Async copy
-    await fs.promises.copyFile(filePath, backupPath);
+    await hostFs.copyFile(filePath, backupPath);
     log.info(`Created backup: ${backupName}`);
     
     // Cleanup old backups asynchronously
-    const files = await fs.promises.readdir(backupDir);
+    const files = await hostFs.readdir(backupDir);
     const backups = files
       .filter(f => f.startsWith(filename + '.') && f.endsWith('.bak'))
       .sort()
@@ -91,7 +94,7 @@ async function createBackup(filename) {
     if (backups.length > 10) {
       const filesToDelete = backups.slice(10);
       await Promise.all(filesToDelete.map(old => 
-        fs.promises.unlink(path.join(backupDir, old)).catch(e => 
+        hostFs.unlink(path.join(backupDir, old)).catch(e => 
           log.warn(`Failed to delete old backup ${old}: ${e.message}`)
         )
       ));
@@ -104,6 +107,11 @@ async function createBackup(filename) {
   }
 }
 
+// Only roles that can edit the config see the INI's passwords
+function canSeeIniSecrets(req) {
+  return requestHasPermission(req, 'config.write');
+}
+
 // Parse INI file to object
 function parseIni(content) {
   const result = {};
@@ -505,8 +513,9 @@ function toSpawnRegions(regions, serverName) {
 // Get server file paths info
 router.get('/paths', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     
     const files = {
       ini: path.join(configPath, `${serverName}.ini`),
@@ -516,10 +525,10 @@ router.get('/paths', async (req, res) => {
     };
     
     const exists = {
-      ini: fs.existsSync(files.ini),
-      sandbox: fs.existsSync(files.sandbox),
-      spawnpoints: fs.existsSync(files.spawnpoints),
-      spawnregions: fs.existsSync(files.spawnregions)
+      ini: await hostFs.exists(files.ini),
+      sandbox: await hostFs.exists(files.sandbox),
+      spawnpoints: await hostFs.exists(files.spawnpoints),
+      spawnregions: await hostFs.exists(files.spawnregions)
     };
     
     res.json({ configPath, serverName, files, exists });
@@ -532,18 +541,19 @@ router.get('/paths', async (req, res) => {
 // Get INI file (parsed)
 router.get('/ini', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const filePath = path.join(configPath, `${serverName}.ini`);
     
-    if (!fs.existsSync(filePath)) {
+    if (!await hostFs.exists(filePath)) {
       return res.status(404).json({ error: 'INI file not found', path: filePath });
     }
     
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const content = await hostFs.readFile(filePath, 'utf-8');
     const parsed = parseIni(content);
     
-    res.json({ settings: parsed, path: filePath });
+    res.json({ settings: canSeeIniSecrets(req) ? parsed : maskIniSettings(parsed), path: filePath });
   } catch (error) {
     log.error('Failed to read INI:', error);
     res.status(500).json({ error: error.message });
@@ -553,8 +563,9 @@ router.get('/ini', async (req, res) => {
 // Save INI file
 router.put('/ini', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const filePath = path.join(configPath, `${serverName}.ini`);
     const { settings } = req.body;
     
@@ -564,13 +575,13 @@ router.put('/ini', async (req, res) => {
     
     // Read original to preserve comments/structure
     let originalContent = '';
-    if (fs.existsSync(filePath)) {
-      originalContent = fs.readFileSync(filePath, 'utf-8');
-      await createBackup(`${serverName}.ini`);
+    if (await hostFs.exists(filePath)) {
+      originalContent = await hostFs.readFile(filePath, 'utf-8');
+      await createBackup(req, `${serverName}.ini`);
     }
     
     const newContent = toIni(settings, originalContent);
-    fs.writeFileSync(filePath, newContent, 'utf-8');
+    await hostFs.writeFile(filePath, newContent, 'utf-8');
     
     log.info('Saved INI file');
     res.json({ success: true, message: 'Settings saved' });
@@ -583,15 +594,16 @@ router.put('/ini', async (req, res) => {
 // Get SandboxVars (parsed)
 router.get('/sandbox', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const filePath = path.join(configPath, `${serverName}_SandboxVars.lua`);
     
-    if (!fs.existsSync(filePath)) {
+    if (!await hostFs.exists(filePath)) {
       return res.status(404).json({ error: 'SandboxVars file not found', path: filePath });
     }
     
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const content = await hostFs.readFile(filePath, 'utf-8');
     const parsed = parseSandboxVars(content);
     
     res.json({ sandbox: parsed, path: filePath });
@@ -604,8 +616,9 @@ router.get('/sandbox', async (req, res) => {
 // Save SandboxVars
 router.put('/sandbox', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const filePath = path.join(configPath, `${serverName}_SandboxVars.lua`);
     const { sandbox } = req.body;
     
@@ -613,16 +626,16 @@ router.put('/sandbox', async (req, res) => {
       return res.status(400).json({ error: 'Sandbox object required' });
     }
     
-    if (!fs.existsSync(filePath)) {
+    if (!await hostFs.exists(filePath)) {
       return res.status(404).json({ error: 'SandboxVars file not found. Start the server once to generate it.' });
     }
     
     // Modify in-place to preserve comments and structure
-    await createBackup(`${serverName}_SandboxVars.lua`);
-    const originalContent = fs.readFileSync(filePath, 'utf-8');
+    await createBackup(req, `${serverName}_SandboxVars.lua`);
+    const originalContent = await hostFs.readFile(filePath, 'utf-8');
     const newContent = applySandboxChanges(originalContent, sandbox);
     
-    fs.writeFileSync(filePath, newContent, 'utf-8');
+    await hostFs.writeFile(filePath, newContent, 'utf-8');
     
     log.info('Saved SandboxVars file');
     res.json({ success: true, message: 'Sandbox settings saved' });
@@ -635,15 +648,16 @@ router.put('/sandbox', async (req, res) => {
 // Get spawn points
 router.get('/spawnpoints', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const filePath = path.join(configPath, `${serverName}_spawnpoints.lua`);
     
-    if (!fs.existsSync(filePath)) {
+    if (!await hostFs.exists(filePath)) {
       return res.status(404).json({ error: 'Spawn points file not found', path: filePath });
     }
     
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const content = await hostFs.readFile(filePath, 'utf-8');
     const points = parseSpawnPoints(content);
     
     res.json({ spawnpoints: points, path: filePath });
@@ -656,8 +670,9 @@ router.get('/spawnpoints', async (req, res) => {
 // Save spawn points
 router.put('/spawnpoints', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const filePath = path.join(configPath, `${serverName}_spawnpoints.lua`);
     const { spawnpoints } = req.body;
     
@@ -665,12 +680,12 @@ router.put('/spawnpoints', async (req, res) => {
       return res.status(400).json({ error: 'Spawn points object required (keyed by profession)' });
     }
     
-    if (fs.existsSync(filePath)) {
-      await createBackup(`${serverName}_spawnpoints.lua`);
+    if (await hostFs.exists(filePath)) {
+      await createBackup(req, `${serverName}_spawnpoints.lua`);
     }
     
     const newContent = toSpawnPoints(spawnpoints, serverName);
-    fs.writeFileSync(filePath, newContent, 'utf-8');
+    await hostFs.writeFile(filePath, newContent, 'utf-8');
     
     log.info('Saved spawn points file');
     res.json({ success: true, message: 'Spawn points saved' });
@@ -683,15 +698,16 @@ router.put('/spawnpoints', async (req, res) => {
 // Get spawn regions
 router.get('/spawnregions', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const filePath = path.join(configPath, `${serverName}_spawnregions.lua`);
     
-    if (!fs.existsSync(filePath)) {
+    if (!await hostFs.exists(filePath)) {
       return res.status(404).json({ error: 'Spawn regions file not found', path: filePath });
     }
     
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const content = await hostFs.readFile(filePath, 'utf-8');
     const regions = parseSpawnRegions(content);
     
     res.json({ spawnregions: regions, path: filePath });
@@ -704,8 +720,9 @@ router.get('/spawnregions', async (req, res) => {
 // Save spawn regions
 router.put('/spawnregions', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const filePath = path.join(configPath, `${serverName}_spawnregions.lua`);
     const { spawnregions } = req.body;
     
@@ -713,12 +730,12 @@ router.put('/spawnregions', async (req, res) => {
       return res.status(400).json({ error: 'Spawn regions array required' });
     }
     
-    if (fs.existsSync(filePath)) {
-      await createBackup(`${serverName}_spawnregions.lua`);
+    if (await hostFs.exists(filePath)) {
+      await createBackup(req, `${serverName}_spawnregions.lua`);
     }
     
     const newContent = toSpawnRegions(spawnregions, serverName);
-    fs.writeFileSync(filePath, newContent, 'utf-8');
+    await hostFs.writeFile(filePath, newContent, 'utf-8');
     
     log.info('Saved spawn regions file');
     res.json({ success: true, message: 'Spawn regions saved' });
@@ -731,8 +748,9 @@ router.put('/spawnregions', async (req, res) => {
 // Get raw file content
 router.get('/raw/:type', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const type = req.params.type;
     
     const fileMap = {
@@ -748,12 +766,13 @@ router.get('/raw/:type', async (req, res) => {
     
     const filePath = path.join(configPath, fileMap[type]);
     
-    if (!fs.existsSync(filePath)) {
+    if (!await hostFs.exists(filePath)) {
       return res.status(404).json({ error: 'File not found', path: filePath });
     }
     
-    const content = fs.readFileSync(filePath, 'utf-8');
-    res.json({ content, path: filePath, filename: fileMap[type] });
+    const content = await hostFs.readFile(filePath, 'utf-8');
+    const visible = type === 'ini' && !canSeeIniSecrets(req) ? maskIniText(content) : content;
+    res.json({ content: visible, path: filePath, filename: fileMap[type] });
   } catch (error) {
     log.error('Failed to read raw file:', error);
     res.status(500).json({ error: error.message });
@@ -763,8 +782,9 @@ router.get('/raw/:type', async (req, res) => {
 // Save raw file content
 router.put('/raw/:type', async (req, res) => {
   try {
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const hostFs = await getRequestFs(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     const type = req.params.type;
     const { content } = req.body;
     
@@ -785,11 +805,11 @@ router.put('/raw/:type', async (req, res) => {
     
     const filePath = path.join(configPath, fileMap[type]);
     
-    if (fs.existsSync(filePath)) {
-      await createBackup(fileMap[type]);
+    if (await hostFs.exists(filePath)) {
+      await createBackup(req, fileMap[type]);
     }
     
-    fs.writeFileSync(filePath, content, 'utf-8');
+    await hostFs.writeFile(filePath, content, 'utf-8');
     
     log.info(`Saved raw file: ${fileMap[type]}`);
     res.json({ success: true, message: 'File saved' });
@@ -802,18 +822,19 @@ router.put('/raw/:type', async (req, res) => {
 // List backups
 router.get('/backups', async (req, res) => {
   try {
-    const backupDir = await getBackupPath();
+    const hostFs = await getRequestFs(req);
+    const backupDir = await getBackupPath(req);
     
-    if (!fs.existsSync(backupDir)) {
+    if (!await hostFs.exists(backupDir)) {
       return res.json({ backups: [] });
     }
     
-    const fileList = await fs.promises.readdir(backupDir);
+    const fileList = await hostFs.readdir(backupDir);
     const files = (await Promise.all(fileList
       .filter(f => f.endsWith('.bak'))
       .map(async filename => {
         try {
-          const stats = await fs.promises.stat(path.join(backupDir, filename));
+          const stats = await hostFs.stat(path.join(backupDir, filename));
           return {
             filename,
             size: stats.size,
@@ -841,11 +862,12 @@ router.get('/backups', async (req, res) => {
 // Restore from backup
 router.post('/restore/:filename', async (req, res) => {
   try {
-    const backupDir = await getBackupPath();
-    const configPath = await getServerConfigPath();
+    const hostFs = await getRequestFs(req);
+    const backupDir = await getBackupPath(req);
+    const configPath = await getServerConfigPath(req);
     
     // Sanitize filename to prevent path traversal
-    const filename = path.basename(req.params.filename);
+    const filename = hostFs.path.basename(req.params.filename);
     
     if (!filename.endsWith('.bak')) {
       return res.status(400).json({ error: 'Invalid backup file extension' });
@@ -853,7 +875,7 @@ router.post('/restore/:filename', async (req, res) => {
     
     const backupPath = path.join(backupDir, filename);
     
-    if (!fs.existsSync(backupPath)) {
+    if (!await hostFs.exists(backupPath)) {
       return res.status(404).json({ error: 'Backup not found' });
     }
     
@@ -871,11 +893,11 @@ router.post('/restore/:filename', async (req, res) => {
     const targetPath = path.join(configPath, originalName);
     
     // Create backup of current before restoring
-    if (fs.existsSync(targetPath)) {
-      await createBackup(originalName);
+    if (await hostFs.exists(targetPath)) {
+      await createBackup(req, originalName);
     }
     
-    await fs.promises.copyFile(backupPath, targetPath);
+    await hostFs.copyFile(backupPath, targetPath);
     
     log.info(`Restored from backup: ${filename} -> ${originalName}`);
     res.json({ success: true, message: `Restored ${originalName} from backup` });
@@ -905,16 +927,17 @@ router.post('/save-and-reload', async (req, res) => {
 // ===== CONFIG TEMPLATES =====
 
 // Get templates directory
-async function getTemplatesPath() {
-  const configPath = await getServerConfigPath();
+async function getTemplatesPath(req) {
+  const configPath = await getServerConfigPath(req);
   return path.join(configPath, 'templates');
 }
 
 // Ensure templates directory exists
-async function ensureTemplatesDir() {
-  const templatesPath = await getTemplatesPath();
-  if (!fs.existsSync(templatesPath)) {
-    fs.mkdirSync(templatesPath, { recursive: true });
+async function ensureTemplatesDir(req) {
+  const hostFs = await getRequestFs(req);
+  const templatesPath = await getTemplatesPath(req);
+  if (!await hostFs.exists(templatesPath)) {
+    await hostFs.mkdir(templatesPath, { recursive: true });
   }
   return templatesPath;
 }
@@ -922,14 +945,15 @@ async function ensureTemplatesDir() {
 // GET /templates - List all saved templates
 router.get('/templates', async (req, res) => {
   try {
-    const templatesPath = await ensureTemplatesDir();
+    const hostFs = await getRequestFs(req);
+    const templatesPath = await ensureTemplatesDir(req);
     
-    const files = fs.readdirSync(templatesPath)
+    const files = (await Promise.all((await hostFs.readdir(templatesPath))
       .filter(f => f.endsWith('.json'))
-      .map(f => {
+      .map(async f => {
         const filePath = path.join(templatesPath, f);
-        const stats = fs.statSync(filePath);
-        const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const stats = await hostFs.stat(filePath);
+        const content = JSON.parse(await hostFs.readFile(filePath, 'utf-8'));
         
         return {
           id: f.replace('.json', ''),
@@ -941,7 +965,7 @@ router.get('/templates', async (req, res) => {
           hasIni: !!content.ini,
           hasSandbox: !!content.sandbox
         };
-      })
+      })))
       .sort((a, b) => new Date(b.modified) - new Date(a.modified));
     
     res.json({ templates: files });
@@ -954,20 +978,22 @@ router.get('/templates', async (req, res) => {
 // GET /templates/:id - Get a specific template
 router.get('/templates/:id', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     // Sanitize template ID to prevent path traversal
     const safeId = path.basename(req.params.id).replace(/[^a-z0-9_-]/gi, '');
     if (!safeId || safeId !== req.params.id) {
       return res.status(400).json({ error: 'Invalid template ID' });
     }
     
-    const templatesPath = await getTemplatesPath();
+    const templatesPath = await getTemplatesPath(req);
     const templateFile = path.join(templatesPath, `${safeId}.json`);
     
-    if (!fs.existsSync(templateFile)) {
+    if (!await hostFs.exists(templateFile)) {
       return res.status(404).json({ error: 'Template not found' });
     }
     
-    const content = JSON.parse(fs.readFileSync(templateFile, 'utf-8'));
+    const content = JSON.parse(await hostFs.readFile(templateFile, 'utf-8'));
+    if (content.ini && !canSeeIniSecrets(req)) content.ini = maskIniSettings(content.ini);
     res.json(content);
   } catch (error) {
     log.error('Failed to get template:', error);
@@ -978,21 +1004,22 @@ router.get('/templates/:id', async (req, res) => {
 // POST /templates - Save current config as a template
 router.post('/templates', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     const { name, description, includeIni = true, includeSandbox = true } = req.body;
     
     if (!name) {
       return res.status(400).json({ error: 'Template name is required' });
     }
     
-    const templatesPath = await ensureTemplatesDir();
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const templatesPath = await ensureTemplatesDir(req);
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     
     // Generate safe filename from name with uniqueness check
     const baseId = name.toLowerCase().replace(/[^a-z0-9]/g, '_').substring(0, 50);
     let safeId = baseId;
     let counter = 1;
-    while (fs.existsSync(path.join(templatesPath, `${safeId}.json`))) {
+    while (await hostFs.exists(path.join(templatesPath, `${safeId}.json`))) {
       safeId = `${baseId}_${counter++}`;
       if (counter > 100) {
         return res.status(400).json({ error: 'Too many templates with similar names' });
@@ -1011,8 +1038,8 @@ router.post('/templates', async (req, res) => {
     // Read current INI settings
     if (includeIni) {
       const iniPath = path.join(configPath, `${serverName}.ini`);
-      if (fs.existsSync(iniPath)) {
-        const iniContent = fs.readFileSync(iniPath, 'utf-8');
+      if (await hostFs.exists(iniPath)) {
+        const iniContent = await hostFs.readFile(iniPath, 'utf-8');
         template.ini = parseIni(iniContent);
         template.iniRaw = iniContent;
       }
@@ -1021,12 +1048,12 @@ router.post('/templates', async (req, res) => {
     // Read current Sandbox settings
     if (includeSandbox) {
       const sandboxPath = path.join(configPath, `${serverName}_SandboxVars.lua`);
-      if (fs.existsSync(sandboxPath)) {
-        template.sandboxRaw = fs.readFileSync(sandboxPath, 'utf-8');
+      if (await hostFs.exists(sandboxPath)) {
+        template.sandboxRaw = await hostFs.readFile(sandboxPath, 'utf-8');
       }
     }
     
-    fs.writeFileSync(templateFile, JSON.stringify(template, null, 2));
+    await hostFs.writeFile(templateFile, JSON.stringify(template, null, 2));
     log.info(`Created template: ${name} (${safeId})`);
     
     res.json({ 
@@ -1044,6 +1071,7 @@ router.post('/templates', async (req, res) => {
 // POST /templates/:id/apply - Apply a template to current config
 router.post('/templates/:id/apply', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     // Sanitize template ID to prevent path traversal
     const safeId = path.basename(req.params.id).replace(/[^a-z0-9_-]/gi, '');
     if (!safeId || safeId !== req.params.id) {
@@ -1052,16 +1080,16 @@ router.post('/templates/:id/apply', async (req, res) => {
     
     const { applyIni = true, applySandbox = true } = req.body;
     
-    const templatesPath = await getTemplatesPath();
+    const templatesPath = await getTemplatesPath(req);
     const templateFile = path.join(templatesPath, `${safeId}.json`);
     
-    if (!fs.existsSync(templateFile)) {
+    if (!await hostFs.exists(templateFile)) {
       return res.status(404).json({ error: 'Template not found' });
     }
     
-    const template = JSON.parse(fs.readFileSync(templateFile, 'utf-8'));
-    const configPath = await getServerConfigPath();
-    const serverName = await getServerName();
+    const template = JSON.parse(await hostFs.readFile(templateFile, 'utf-8'));
+    const configPath = await getServerConfigPath(req);
+    const serverName = await getServerName(req);
     
     const applied = [];
     
@@ -1070,10 +1098,10 @@ router.post('/templates/:id/apply', async (req, res) => {
       const iniPath = path.join(configPath, `${serverName}.ini`);
       
       // Create backup first
-      await createBackup(`${serverName}.ini`);
+      await createBackup(req, `${serverName}.ini`);
       
       // Write the template INI
-      fs.writeFileSync(iniPath, template.iniRaw);
+      await hostFs.writeFile(iniPath, template.iniRaw);
       applied.push('INI');
       log.info(`Applied INI from template: ${template.name}`);
     }
@@ -1083,10 +1111,10 @@ router.post('/templates/:id/apply', async (req, res) => {
       const sandboxPath = path.join(configPath, `${serverName}_SandboxVars.lua`);
       
       // Create backup first
-      await createBackup(`${serverName}_SandboxVars.lua`);
+      await createBackup(req, `${serverName}_SandboxVars.lua`);
       
       // Write the template sandbox
-      fs.writeFileSync(sandboxPath, template.sandboxRaw);
+      await hostFs.writeFile(sandboxPath, template.sandboxRaw);
       applied.push('Sandbox');
       log.info(`Applied Sandbox from template: ${template.name}`);
     }
@@ -1109,6 +1137,7 @@ router.post('/templates/:id/apply', async (req, res) => {
 // PUT /templates/:id - Update template metadata
 router.put('/templates/:id', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     // Sanitize template ID to prevent path traversal
     const safeId = path.basename(req.params.id).replace(/[^a-z0-9_-]/gi, '');
     if (!safeId || safeId !== req.params.id) {
@@ -1117,20 +1146,20 @@ router.put('/templates/:id', async (req, res) => {
     
     const { name, description } = req.body;
     
-    const templatesPath = await getTemplatesPath();
+    const templatesPath = await getTemplatesPath(req);
     const templateFile = path.join(templatesPath, `${safeId}.json`);
     
-    if (!fs.existsSync(templateFile)) {
+    if (!await hostFs.exists(templateFile)) {
       return res.status(404).json({ error: 'Template not found' });
     }
     
-    const template = JSON.parse(fs.readFileSync(templateFile, 'utf-8'));
+    const template = JSON.parse(await hostFs.readFile(templateFile, 'utf-8'));
     
     if (name) template.name = name;
     if (description !== undefined) template.description = description;
     template.modified = new Date().toISOString();
     
-    fs.writeFileSync(templateFile, JSON.stringify(template, null, 2));
+    await hostFs.writeFile(templateFile, JSON.stringify(template, null, 2));
     
     res.json({ success: true, message: 'Template updated' });
   } catch (error) {
@@ -1142,20 +1171,21 @@ router.put('/templates/:id', async (req, res) => {
 // DELETE /templates/:id - Delete a template
 router.delete('/templates/:id', async (req, res) => {
   try {
+    const hostFs = await getRequestFs(req);
     // Sanitize template ID to prevent path traversal
     const safeId = path.basename(req.params.id).replace(/[^a-z0-9_-]/gi, '');
     if (!safeId || safeId !== req.params.id) {
       return res.status(400).json({ error: 'Invalid template ID' });
     }
     
-    const templatesPath = await getTemplatesPath();
+    const templatesPath = await getTemplatesPath(req);
     const templateFile = path.join(templatesPath, `${safeId}.json`);
     
-    if (!fs.existsSync(templateFile)) {
+    if (!await hostFs.exists(templateFile)) {
       return res.status(404).json({ error: 'Template not found' });
     }
     
-    fs.unlinkSync(templateFile);
+    await hostFs.unlink(templateFile);
     log.info(`Deleted template: ${req.params.id}`);
     
     res.json({ success: true, message: 'Template deleted' });
@@ -12,9 +12,41 @@ import {
   deleteServer,
   setActiveServer
 } from '../database/init.js';
+import { maskSecret, isMaskedSecret } from '../utils/secrets.js';
+import { SERVER_INSTALL_MARKERS } from '../utils/platform.js';
+import { AgentClient } from '../services/agentClient.js';
+import { getHostFs } from '../services/hostFs.js';
+import { validateCloneName, allocateServerPorts, cloneServerFiles } from '../utils/serverClone.js';
+import {
+  readLaunchProfile,
+  writeLaunchProfile,
+  restoreLaunchProfile,
+  normalizeLaunchProfile,
+  validateLaunchProfile
+} from '../utils/launchProfile.js';
 
 const router = express.Router();
 
+// The stored RCON password and agent token never leave the panel - editors send the mask back to keep them
+function maskServer(server) {
+  if (!server) return server;
+  return { ...server, rconPassword: maskSecret(server.rconPassword), agentToken: maskSecret(server.agentToken) };
+}
+
+// Agent URL of a remote server (see agent.js) - returns an error message or null
+function validateAgentUrl(agentUrl) {
+  if (!agentUrl) return null;
+  try {
+    const url = new URL(agentUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Agent URL must start with http:// or https://';
+    }
+  } catch {
+    return 'Invalid agent URL';
+  }
+  return null;
+}
+
 // Helper: Parse INI file
 function parseIni(content) {
   const result = {};
@@ -35,9 +67,9 @@ function parseIni(content) {
 // Helper: Recursively scan for PZ server paths (max depth 3)
 function scanForPzPaths(rootPath, maxDepth = 3) {
   const results = {
-    installPaths: [],   // Folders containing StartServer64.bat
+    installPaths: [],   // Folders containing StartServer64.bat or start-server.sh
     dataPaths: [],      // Folders containing Server/ subfolder with .ini files
-    customBatFiles: []  // Custom StartServer_*.bat files found
+    customBatFiles: []  // Custom StartServer_*.bat / .sh files found
   };
   
   function scan(currentPath, depth) {
@@ -48,19 +80,19 @@ function scanForPzPaths(rootPath, maxDepth = 3) {
       
       const items = fs.readdirSync(currentPath);
       
-      // Check if this is an install path (has StartServer64.bat or jre64)
-      if (items.includes('StartServer64.bat') || items.includes('StartServer64_nosteam.bat') || 
+      // Check if this is an install path (has a stock start script or jre64)
+      if (SERVER_INSTALL_MARKERS.some(marker => items.includes(marker)) || 
           (items.includes('jre64') && items.includes('ProjectZomboid64.json'))) {
         results.installPaths.push(currentPath);
         
-        // Also look for custom StartServer_*.bat files
+        // Also look for custom StartServer_*.bat / .sh files
         const customBats = items.filter(f => 
-          f.startsWith('StartServer_') && f.endsWith('.bat') ||
+          f.startsWith('StartServer_') && (f.endsWith('.bat') || f.endsWith('.sh')) ||
           f.startsWith('StartServer64_') && f.endsWith('.bat') && f !== 'StartServer64_nosteam.bat'
         );
         for (const bat of customBats) {
-          // Extract server name from bat file name (e.g., StartServer_DoomerZ.bat -> DoomerZ)
-          let serverName = bat.replace(/^StartServer(64)?_/, '').replace('.bat', '');
+          // Extract server name from script name (e.g., StartServer_DoomerZ.bat -> DoomerZ)
+          let serverName = bat.replace(/^StartServer(64)?_/, '').replace(/\.(bat|sh)$/, '');
           results.customBatFiles.push({
             path: path.join(currentPath, bat),
             folder: currentPath,
@@ -217,9 +249,8 @@ router.post('/detect', async (req, res) => {
     let hasNoSteam = false;
     let validInstallPath = false;
     if (installPath && fs.existsSync(installPath)) {
-      const startBat = path.join(installPath, 'StartServer64.bat');
       const startBatNoSteam = path.join(installPath, 'StartServer64_nosteam.bat');
-      validInstallPath = fs.existsSync(startBat) || fs.existsSync(startBatNoSteam);
+      validInstallPath = SERVER_INSTALL_MARKERS.some(marker => fs.existsSync(path.join(installPath, marker)));
       hasNoSteam = fs.existsSync(startBatNoSteam);
     }
     
@@ -277,13 +308,51 @@ router.post('/detect', async (req, res) => {
 router.get('/', async (req, res) => {
   try {
     const servers = await getServers();
-    res.json({ servers });
+    res.json({ servers: servers.map(maskServer) });
   } catch (error) {
     log.error(`Failed to get servers: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Status of every server instance the panel runs services for
+router.get('/instances', async (req, res) => {
+  try {
+    const instances = req.app.get('serverInstances');
+    res.json({ instances: instances.getStatus() });
+  } catch (error) {
+    log.error(`Failed to get server instances: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Check that a panel agent answers with the given URL and token
+// (a masked token with a serverId tests the stored one)
+router.post('/test-agent', async (req, res) => {
+  try {
+    const { agentUrl, serverId } = req.body;
+    let { agentToken } = req.body;
+    
+    const agentError = validateAgentUrl(agentUrl);
+    if (agentError || !agentUrl) {
+      return res.status(400).json({ error: agentError || 'Missing required field: agentUrl' });
+    }
+    if (isMaskedSecret(agentToken) && serverId) {
+      agentToken = (await getServer(serverId))?.agentToken;
+    }
+    if (!agentToken) {
+      return res.status(400).json({ error: 'Missing required field: agentToken' });
+    }
+    
+    const client = new AgentClient({ url: agentUrl, token: agentToken, name: 'test' });
+    const info = await client.info();
+    res.json({ success: true, info });
+  } catch (error) {
+    log.warn(`Agent test failed: ${error.message}`);
+    res.json({ success: false, error: error.message });
+  }
+});
+
 // Get active server
 router.get('/active', async (req, res) => {
   try {
@@ -291,7 +360,7 @@ router.get('/active', async (req, res) => {
     if (!server) {
       return res.status(404).json({ error: 'No active server configured' });
     }
-    res.json({ server });
+    res.json({ server: maskServer(server) });
   } catch (error) {
     log.error(`Failed to get active server: ${error.message}`);
     res.status(500).json({ error: error.message });
@@ -314,7 +383,7 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Server not found' });
     }
     
-    res.json({ server });
+    res.json({ server: maskServer(server) });
   } catch (error) {
     log.error(`Failed to get server: ${error.message}`);
     res.status(500).json({ error: error.message });
@@ -349,6 +418,15 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ error: 'Invalid server name: only letters, numbers, underscores and hyphens allowed' });
     }
     
+    // A remote server's agent gives the panel access to its files
+    const agentError = isRemote ? validateAgentUrl(config.agentUrl) : null;
+    if (agentError) {
+      return res.status(400).json({ error: agentError });
+    }
+    if (isRemote && config.agentUrl && !config.agentToken) {
+      return res.status(400).json({ error: 'Missing required field: agentToken' });
+    }
+    
     // Validate server port if provided
     if (config.serverPort) {
       const serverPort = parseInt(config.serverPort, 10);
@@ -372,11 +450,16 @@ router.post('/', async (req, res) => {
       maxMemory: parseInt(config.maxMemory, 10) || 4096,
       useNoSteam: !!config.useNoSteam,
       useDebug: !!config.useDebug,
-      isRemote: isRemote
+      isRemote: isRemote,
+      agentUrl: isRemote ? config.agentUrl || null : null,
+      agentToken: isRemote ? config.agentToken || '' : ''
     });
     
+    // Start monitoring and scheduling for the new server right away
+    await req.app.get('serverInstances').add(server);
+    
     log.info(`Created new server: ${server.name} (ID: ${server.id})`);
-    res.status(201).json({ server, message: 'Server created successfully' });
+    res.status(201).json({ server: maskServer(server), message: 'Server created successfully' });
   } catch (error) {
     log.error(`Failed to create server: ${error.message}`);
     res.status(500).json({ error: error.message });
@@ -395,6 +478,22 @@ router.put('/:id', async (req, res) => {
     const serverId = isUUID ? id : parseInt(id, 10);
     
     const updates = req.body;
+
+    // An unchanged (masked) password or token keeps the stored one
+    if (isMaskedSecret(updates.rconPassword)) {
+      delete updates.rconPassword;
+    }
+    if (isMaskedSecret(updates.agentToken)) {
+      delete updates.agentToken;
+    }
+    
+    const agentError = validateAgentUrl(updates.agentUrl);
+    if (agentError) {
+      return res.status(400).json({ error: agentError });
+    }
+    if (updates.agentUrl === '') {
+      updates.agentUrl = null;
+    }
     
     // Validate RCON port if provided
     if (updates.rconPort !== undefined) {
@@ -435,8 +534,10 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Server not found' });
     }
     
+    await req.app.get('serverInstances').reload(server.id);
+    
     log.info(`Updated server: ${server.name} (ID: ${server.id})`);
-    res.json({ server, message: 'Server updated successfully' });
+    res.json({ server: maskServer(server), message: 'Server updated successfully' });
   } catch (error) {
     log.error(`Failed to update server: ${error.message}`);
     res.status(500).json({ error: error.message });
@@ -459,6 +560,9 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Server not found' });
     }
     
+    // Stop the deleted server's services (the server process itself keeps running)
+    await req.app.get('serverInstances').remove(serverId);
+    
     log.info(`Deleted server ID: ${serverId}`);
     res.json({ success: true, message: 'Server deleted successfully' });
   } catch (error) {
@@ -483,42 +587,190 @@ router.post('/:id/activate', async (req, res) => {
       return res.status(404).json({ error: 'Server not found' });
     }
     
-    // Notify services about the active server change
-    const rconService = req.app.get('rconService');
-    const serverManager = req.app.get('serverManager');
+    // Unscoped routes and the Discord bot follow the active server; the
+    // previous server's services keep running
+    const instances = req.app.get('serverInstances');
     const io = req.app.get('io');
+    instances.setActive(server.id);
     
-    // Reload ServerManager config for new active server
-    if (serverManager && serverManager.reloadConfig) {
-      await serverManager.reloadConfig();
-      log.info(`ServerManager reloaded config for server: ${server.name}`);
+    // Emit to clients that active server changed
+    if (io) {
+      io.emit('activeServerChanged', { server });
     }
     
-    // Disconnect current RCON if connected
-    if (rconService && rconService.isConnected()) {
-      await rconService.disconnect();
+    log.info(`Activated server: ${server.name} (ID: ${server.id})`);
+    res.json({ server: maskServer(server), message: `Now managing: ${server.name}` });
+  } catch (error) {
+    log.error(`Failed to activate server: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Clone a server: copies its instance settings and config files (optionally
+// its world save) under a new server name, with ports no other server uses
+router.post('/:id/clone', async (req, res) => {
+  try {
+    const id = req.params.id;
+    // Check if ID looks like a UUID (contains dashes or letters beyond valid decimal digits)
+    const isUUID = /[a-f-]/i.test(id);
+    const source = await getServer(isUUID ? id : parseInt(id, 10));
+    if (!source) {
+      return res.status(404).json({ error: 'Server not found' });
+    }
+    if (source.isRemote && !source.agentUrl) {
+      return res.status(400).json({ error: 'Remote servers can only be cloned through a panel agent' });
     }
     
-    // Reload RCON config and reconnect with new server's settings
-    if (rconService && server.rconPassword) {
-      try {
-        await rconService.reloadConfig();
-        await rconService.connect();
-        log.info(`RCON reconnected for server: ${server.name}`);
-      } catch (rconErr) {
-        log.warn(`Failed to connect RCON for new server: ${rconErr.message}`);
-      }
+    const { serverName, includeSaves = false } = req.body;
+    const name = req.body.name?.trim() || `${source.name} (Copy)`;
+    
+    const servers = await getServers();
+    const nameError = validateCloneName(source, serverName, servers);
+    if (nameError) {
+      return res.status(400).json({ error: nameError });
     }
     
-    // Emit to clients that active server changed
-    if (io) {
-      io.emit('activeServerChanged', { server });
+    const ports = allocateServerPorts(servers, source);
+    let files;
+    try {
+      files = await cloneServerFiles(getHostFs(source), source, { serverName, ...ports, includeSaves: !!includeSaves });
+    } catch (error) {
+      if (error.code === 'EEXIST') {
+        return res.status(409).json({ error: error.message });
+      }
+      throw error;
     }
     
-    log.info(`Activated server: ${server.name} (ID: ${server.id})`);
-    res.json({ server, message: `Now managing: ${server.name}` });
+    const server = await createServer({
+      ...source,
+      name,
+      serverName,
+      installPath: files.installPath,
+      ...ports
+    });
+    await req.app.get('serverInstances').add(server);
+    
+    log.info(`Cloned server ${source.name} as ${server.name} (ID: ${server.id}, ports ${ports.serverPort}/${ports.rconPort})`);
+    res.status(201).json({
+      server: maskServer(server),
+      copied: files.copied,
+      message: `Cloned to "${server.name}" - game port ${ports.serverPort}, RCON port ${ports.rconPort}`
+    });
   } catch (error) {
-    log.error(`Failed to activate server: ${error.message}`);
+    log.error(`Failed to clone server: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// ── Launch profile (JVM options and launch arguments) ──
+
+// Look up a local server for the launch profile routes, or send an error
+async function getLocalServer(req, res) {
+  const id = req.params.id;
+  // Check if ID looks like a UUID (contains dashes or letters beyond valid decimal digits)
+  const isUUID = /[a-f-]/i.test(id);
+  const server = await getServer(isUUID ? id : parseInt(id, 10));
+  if (!server) {
+    res.status(404).json({ error: 'Server not found' });
+    return null;
+  }
+  if (server.isRemote) {
+    res.status(400).json({ error: 'Launch options of remote servers are managed on their host' });
+    return null;
+  }
+  return server;
+}
+
+// Pick up changed launch options in the server's services
+async function reloadInstance(req, server) {
+  await req.app.get('serverInstances').reload(server.id);
+}
+
+function maskLaunchProfile(launchProfile) {
+  return {
+    ...launchProfile,
+    profile: { ...launchProfile.profile, adminPassword: maskSecret(launchProfile.profile.adminPassword) }
+  };
+}
+
+// Get the launch profile read from the server's files
+router.get('/:id/launch-profile', async (req, res) => {
+  try {
+    const server = await getLocalServer(req, res);
+    if (!server) return;
+
+    res.json(maskLaunchProfile(readLaunchProfile(server)));
+  } catch (error) {
+    log.error(`Failed to read launch profile: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Write a launch profile into the server's files
+router.put('/:id/launch-profile', async (req, res) => {
+  try {
+    const server = await getLocalServer(req, res);
+    if (!server) return;
+
+    const profile = normalizeLaunchProfile(req.body);
+    // An unchanged (masked) admin password keeps the one in the files
+    if (isMaskedSecret(profile.adminPassword)) {
+      profile.adminPassword = readLaunchProfile(server).profile.adminPassword;
+    }
+
+    const errors = validateLaunchProfile(profile);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; '), errors });
+    }
+
+    const updates = writeLaunchProfile(server, profile);
+    const updated = await updateServer(server.id, updates);
+    await reloadInstance(req, updated);
+
+    log.info(`Updated launch profile for server: ${server.name} (ID: ${server.id})`);
+    res.json({
+      ...maskLaunchProfile(readLaunchProfile(updated)),
+      server: maskServer(updated),
+      message: 'Launch profile saved. Restart the server to apply it.'
+    });
+  } catch (error) {
+    log.error(`Failed to write launch profile: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Put back the server files as they were before the first launch profile change
+router.post('/:id/launch-profile/restore', async (req, res) => {
+  try {
+    const server = await getLocalServer(req, res);
+    if (!server) return;
+
+    const restored = restoreLaunchProfile(server);
+    if (restored.length === 0) {
+      return res.status(400).json({ error: 'No launch profile backup to restore' });
+    }
+
+    // Bring the instance back in line with the restored files
+    const { profile } = readLaunchProfile(server);
+    const updated = await updateServer(server.id, {
+      serverName: profile.serverName || server.serverName,
+      serverPort: profile.port || server.serverPort,
+      zomboidDataPath: profile.cacheDir || server.zomboidDataPath,
+      minMemory: profile.minMemory || server.minMemory,
+      maxMemory: profile.maxMemory || server.maxMemory,
+      extraLaunchArgs: []
+    });
+    await reloadInstance(req, updated);
+
+    log.info(`Restored launch profile files for server: ${server.name} (${restored.join(', ')})`);
+    res.json({
+      ...maskLaunchProfile(readLaunchProfile(updated)),
+      server: maskServer(updated),
+      restored,
+      message: `Restored ${restored.length} file(s)`
+    });
+  } catch (error) {
+    log.error(`Failed to restore launch profile: ${error.message}`);
     res.status(500).json({ error: error.message });
   }
 });
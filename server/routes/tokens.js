@@ -0,0 +1,110 @@
+import express from 'express';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('API:Tokens');
+import {
+  getApiTokens,
+  getApiToken,
+  createApiToken,
+  deleteApiToken,
+  getPanelUsers
+} from '../database/init.js';
+import { generateApiToken, hashSessionToken } from '../utils/auth.js';
+import { TOKEN_SCOPES, isValidScope } from '../utils/permissions.js';
+
+const router = express.Router();
+
+const TOKEN_NAME_MAX_LENGTH = 64;
+const TOKEN_PREFIX_LENGTH = 12;
+
+function toPublicToken(token, usernames) {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes,
+    createdBy: usernames.get(token.user_id) ?? null,
+    createdAt: token.created_at,
+    expiresAt: token.expires_at,
+    expired: !!token.expires_at && new Date(token.expires_at).getTime() <= Date.now(),
+    lastUsedAt: token.last_used_at,
+    lastUsedIp: token.last_used_ip
+  };
+}
+
+async function getUsernames() {
+  const users = await getPanelUsers();
+  return new Map(users.map(u => [u.id, u.username]));
+}
+
+// List API tokens (secrets are never returned after creation)
+router.get('/', async (req, res) => {
+  try {
+    const [tokens, usernames] = await Promise.all([getApiTokens(), getUsernames()]);
+    res.json({ tokens: tokens.map(t => toPublicToken(t, usernames)) });
+  } catch (error) {
+    log.error(`Failed to list API tokens: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Available scopes and what they allow
+router.get('/scopes', (req, res) => {
+  res.json({
+    scopes: Object.fromEntries(Object.entries(TOKEN_SCOPES).map(([scope, config]) => [scope, config.description]))
+  });
+});
+
+// Create a token - the secret is only shown in this response
+router.post('/', async (req, res) => {
+  try {
+    const { name, scopes, expiresAt } = req.body;
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > TOKEN_NAME_MAX_LENGTH) {
+      return res.status(400).json({ error: `Name must be 1-${TOKEN_NAME_MAX_LENGTH} characters` });
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isValidScope)) {
+      return res.status(400).json({ error: `Scopes must be one or more of: ${Object.keys(TOKEN_SCOPES).join(', ')}` });
+    }
+    if (expiresAt !== undefined && expiresAt !== null) {
+      const expiry = new Date(expiresAt).getTime();
+      if (Number.isNaN(expiry) || expiry <= Date.now()) {
+        return res.status(400).json({ error: 'Expiry must be a date in the future' });
+      }
+    }
+
+    const secret = generateApiToken();
+    const token = await createApiToken({
+      name: name.trim(),
+      tokenHash: hashSessionToken(secret),
+      prefix: secret.slice(0, TOKEN_PREFIX_LENGTH),
+      scopes: [...new Set(scopes)],
+      userId: req.user.id,
+      expiresAt: expiresAt ?? null
+    });
+
+    log.info(`User "${req.user.username}" created API token "${token.name}" (${token.scopes.join(', ')})`);
+    res.json({ success: true, token: toPublicToken(token, await getUsernames()), secret });
+  } catch (error) {
+    log.error(`Failed to create API token: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Revoke a token
+router.delete('/:id', async (req, res) => {
+  try {
+    const token = await getApiToken(req.params.id);
+    if (!token) {
+      return res.status(404).json({ error: 'API token not found' });
+    }
+
+    await deleteApiToken(token.id);
+    log.info(`User "${req.user.username}" revoked API token "${token.name}"`);
+    res.json({ success: true, message: 'API token revoked' });
+  } catch (error) {
+    log.error(`Failed to revoke API token: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
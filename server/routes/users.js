@@ -0,0 +1,156 @@
+import express from 'express';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('API:Users');
+import {
+  getPanelUsers,
+  getPanelUser,
+  getPanelUserByUsername,
+  createPanelUser,
+  updatePanelUser,
+  deletePanelUser,
+  deletePanelSessionsForUser
+} from '../database/init.js';
+import {
+  USERNAME_REGEX,
+  hashPassword,
+  validatePassword,
+  disconnectSockets,
+  toPublicUser
+} from '../utils/auth.js';
+import { ROLES, PERMISSIONS, ROLE_PERMISSIONS, isValidRole } from '../utils/permissions.js';
+
+const router = express.Router();
+
+async function countOwners() {
+  const users = await getPanelUsers();
+  return users.filter(u => u.role === 'owner').length;
+}
+
+/** Tell a user's open tabs to re-fetch their role and permissions */
+function notifyUserChanged(req, userId) {
+  const io = req.app.get('io');
+  if (!io) return;
+  for (const socket of io.sockets.sockets.values()) {
+    if (socket.data.user?.id === userId) {
+      socket.emit('auth:changed');
+    }
+  }
+}
+
+// List panel accounts
+router.get('/', async (req, res) => {
+  try {
+    const users = await getPanelUsers();
+    res.json({ users: users.map(toPublicUser) });
+  } catch (error) {
+    log.error(`Failed to list users: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Roles and what each of them may do
+router.get('/roles', (req, res) => {
+  res.json({ roles: ROLES, permissions: PERMISSIONS, rolePermissions: ROLE_PERMISSIONS });
+});
+
+// Create a panel account
+router.post('/', async (req, res) => {
+  try {
+    const { username, password, role } = req.body;
+
+    if (typeof username !== 'string' || !USERNAME_REGEX.test(username)) {
+      return res.status(400).json({ error: 'Username must be 3-32 characters (letters, numbers, _ . -)' });
+    }
+    if (!isValidRole(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${ROLES.join(', ')}` });
+    }
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+    if (await getPanelUserByUsername(username)) {
+      return res.status(409).json({ error: 'A user with that name already exists' });
+    }
+
+    const user = await createPanelUser(username, await hashPassword(password), role);
+    log.info(`User "${req.user.username}" created account "${username}" (${role})`);
+    res.json({ success: true, user: toPublicUser(user) });
+  } catch (error) {
+    log.error(`Failed to create user: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Change role and/or reset password
+router.put('/:id', async (req, res) => {
+  try {
+    const user = await getPanelUser(req.params.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const { role, password } = req.body;
+    const updates = {};
+
+    if (role !== undefined && role !== user.role) {
+      if (!isValidRole(role)) {
+        return res.status(400).json({ error: `Role must be one of: ${ROLES.join(', ')}` });
+      }
+      if (user.role === 'owner' && await countOwners() <= 1) {
+        return res.status(400).json({ error: 'Cannot change the role of the last owner' });
+      }
+      updates.role = role;
+    }
+
+    if (password !== undefined) {
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+      }
+      updates.password_hash = await hashPassword(password);
+    }
+
+    const updated = await updatePanelUser(user.id, updates);
+
+    // A password reset by someone else signs the user out everywhere
+    if (updates.password_hash && user.id !== req.user.id) {
+      await deletePanelSessionsForUser(user.id);
+      disconnectSockets(req.app.get('io'), socket => socket.data.user?.id === user.id);
+    } else if (updates.role) {
+      notifyUserChanged(req, user.id);
+    }
+
+    log.info(`User "${req.user.username}" updated account "${user.username}"${updates.role ? ` (role: ${updates.role})` : ''}${updates.password_hash ? ' (password reset)' : ''}`);
+    res.json({ success: true, user: toPublicUser(updated) });
+  } catch (error) {
+    log.error(`Failed to update user: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete a panel account
+router.delete('/:id', async (req, res) => {
+  try {
+    const user = await getPanelUser(req.params.id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+    if (user.role === 'owner' && await countOwners() <= 1) {
+      return res.status(400).json({ error: 'Cannot delete the last owner' });
+    }
+
+    await deletePanelUser(user.id);
+    disconnectSockets(req.app.get('io'), socket => socket.data.user?.id === user.id);
+
+    log.info(`User "${req.user.username}" deleted account "${user.username}"`);
+    res.json({ success: true, message: 'User deleted' });
+  } catch (error) {
+    log.error(`Failed to delete user: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
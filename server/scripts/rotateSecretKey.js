@@ -0,0 +1,37 @@
+/**
+ * Re-encrypt every stored secret (RCON passwords, Discord token, Steam API key)
+ * with a new key.
+ *
+ * Stop the panel first - it keeps db.json in memory and would overwrite the result.
+ *
+ *   npm run rotate-secret-key               generate a new key
+ *   npm run rotate-secret-key -- <key>      use this key (32 bytes, base64 or hex)
+ *
+ * With a key file (the default) the new key is installed automatically. With
+ * PANEL_SECRET_KEY set, update the variable to the printed key before
+ * starting the panel again.
+ */
+import dotenv from 'dotenv';
+import { reencryptSecrets } from '../database/init.js';
+import { beginKeyRotation, finishKeyRotation, getKeyFilePath } from '../utils/secrets.js';
+
+dotenv.config();
+
+try {
+  const rotation = beginKeyRotation(process.argv[2]);
+  const count = await reencryptSecrets(rotation.reencrypt);
+  finishKeyRotation(rotation);
+
+  console.log(`[Secrets] Re-encrypted ${count} stored secret(s)`);
+  if (rotation.usesKeyFile) {
+    console.log(`[Secrets] New key installed at ${getKeyFilePath()}`);
+  } else {
+    console.log('[Secrets] Set this before starting the panel:');
+    console.log(`PANEL_SECRET_KEY=${rotation.encodedKey}`);
+  }
+  console.log('[Secrets] Database backups made before now still need the previous key to read their secrets');
+  process.exit(0);
+} catch (error) {
+  console.error(`[Secrets] Key rotation failed: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,324 @@
+import path from 'path';
+import { Readable } from 'stream';
+import { createInterface } from 'readline';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('Agent');
+
+// ============================================
+// Agent Client
+// ============================================
+//
+// Talks to a panel agent (agent.js) running on a remote server's host and
+// exposes its file API with the same methods as hostFs.localFs, so services
+// and routes work on remote servers unchanged. Paths are sent in the form of
+// the agent's platform, which can differ from the panel's.
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Stats returned by a directory listing are reused for a short while, so
+// readdir followed by stat on every entry costs one request
+const STAT_CACHE_MS = 5000;
+const STAT_CACHE_MAX = 50000;
+
+/** fs.Stats-like object from the agent's JSON */
+function toStats(data) {
+  return {
+    size: data.size,
+    mtimeMs: data.mtimeMs,
+    mtime: new Date(data.mtimeMs),
+    birthtime: new Date(data.birthtimeMs),
+    isFile: () => data.type === 'file',
+    isDirectory: () => data.type === 'directory'
+  };
+}
+
+// fs operations whose first two arguments are paths; the rest take one
+const TWO_PATH_OPS = ['rename', 'copyFile', 'cp'];
+
+/** The platform a server's paths are written for, until its agent says */
+function guessPlatform(server) {
+  const paths = [server.installPath, server.serverPath, server.zomboidDataPath].filter(Boolean);
+  return paths.some(p => /^[a-z]:[\\/]|^\\\\/i.test(p)) ? 'win32' : 'linux';
+}
+
+/** Error thrown by the agent, with its fs error code (ENOENT, EEXIST, ...) */
+function toError(data, status) {
+  const error = new Error(data?.error || `Agent request failed (HTTP ${status})`);
+  if (data?.code) error.code = data.code;
+  if (status) error.status = status;
+  return error;
+}
+
+export class AgentClient {
+  constructor({ url, token, name, platform = 'linux' }) {
+    this.isRemote = true;
+    this.url = url.replace(/\/+$/, '');
+    this.token = token;
+    this.name = name;
+    this.platform = platform;
+    this.platformConfirmed = false; // Set once the agent has reported its platform
+    this.statCache = new Map(); // path -> { stats, at }
+  }
+
+  /** path module for the agent's platform, for building remote paths */
+  get path() {
+    return this.platform === 'win32' ? path.win32 : path.posix;
+  }
+
+  /**
+   * A path in the agent's form. Paths built on a Windows panel for a Linux
+   * agent get forward slashes; the other way round Windows accepts either.
+   */
+  toAgentPath(filePath) {
+    if (typeof filePath !== 'string' || !filePath) return filePath;
+    if (this.platform !== 'win32' && path.sep === '\\') {
+      filePath = filePath.replaceAll('\\', '/');
+    }
+    return this.path.normalize(filePath);
+  }
+
+  /** Learn the agent's platform before the first path is sent */
+  async ensurePlatform() {
+    if (this.platformConfirmed) return;
+    try {
+      await this.info();
+    } catch (error) {
+      log.debug(`Could not get the platform of the agent for ${this.name}: ${error.message}`);
+    }
+  }
+
+  headers(extra = {}) {
+    return { Authorization: `Bearer ${this.token}`, ...extra };
+  }
+
+  async request(method, endpoint, body, { timeoutMs = REQUEST_TIMEOUT_MS } = {}) {
+    let response;
+    try {
+      response = await fetch(`${this.url}/agent${endpoint}`, {
+        method,
+        headers: this.headers(body ? { 'Content-Type': 'application/json' } : {}),
+        body: body ? JSON.stringify(body) : undefined,
+        signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined
+      });
+    } catch (error) {
+      throw new Error(`Agent for ${this.name} not reachable at ${this.url}: ${error.cause?.message || error.message}`);
+    }
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw toError(data, response.status);
+    }
+    return data;
+  }
+
+  async call(op, ...args) {
+    await this.ensurePlatform();
+    const pathCount = TWO_PATH_OPS.includes(op) ? 2 : 1;
+    const agentArgs = args.map((arg, index) => (index < pathCount ? this.toAgentPath(arg) : arg));
+    const data = await this.request('POST', '/fs', { op, args: agentArgs });
+    return data.result;
+  }
+
+  /** Agent version, platform and the folders it serves */
+  async info() {
+    const info = await this.request('GET', '/info');
+    if (info?.platform) {
+      this.platform = info.platform;
+      this.platformConfirmed = true;
+    }
+    return info;
+  }
+
+  // ── fs.promises-style API ──
+
+  async exists(filePath) {
+    try {
+      return await this.call('exists', filePath);
+    } catch (error) {
+      // Paths outside the agent's folders are as good as missing
+      if (error.status === 403) return false;
+      throw error;
+    }
+  }
+
+  async access(filePath) {
+    await this.stat(filePath);
+  }
+
+  async stat(filePath) {
+    const cached = this.statCache.get(this.toAgentPath(filePath));
+    if (cached && Date.now() - cached.at < STAT_CACHE_MS) {
+      return cached.stats;
+    }
+    return toStats(await this.call('stat', filePath));
+  }
+
+  async readdir(dirPath, options = {}) {
+    const entries = await this.call('readdir', dirPath);
+
+    if (this.statCache.size > STAT_CACHE_MAX) this.statCache.clear();
+    const at = Date.now();
+    for (const entry of entries) {
+      this.statCache.set(this.path.join(this.toAgentPath(dirPath), entry.name), { stats: toStats(entry), at });
+    }
+
+    if (options.withFileTypes) {
+      return entries.map(entry => ({
+        name: entry.name,
+        isFile: () => entry.type === 'file',
+        isDirectory: () => entry.type === 'directory'
+      }));
+    }
+    return entries.map(entry => entry.name);
+  }
+
+  async readFile(filePath, encoding) {
+    const data = await this.call('readFile', filePath, encoding || null);
+    return encoding ? data : Buffer.from(data, 'base64');
+  }
+
+  writeFile(filePath, data, encoding) {
+    this.statCache.delete(this.toAgentPath(filePath));
+    if (Buffer.isBuffer(data)) {
+      return this.call('writeFile', filePath, data.toString('base64'), 'base64');
+    }
+    return this.call('writeFile', filePath, String(data), encoding || 'utf-8');
+  }
+
+  mkdir(dirPath, options) {
+    return this.call('mkdir', dirPath, options);
+  }
+
+  rm(targetPath, options) {
+    this.statCache.clear();
+    return this.call('rm', targetPath, options);
+  }
+
+  rmdir(dirPath) {
+    this.statCache.delete(this.toAgentPath(dirPath));
+    return this.call('rmdir', dirPath);
+  }
+
+  unlink(filePath) {
+    this.statCache.delete(this.toAgentPath(filePath));
+    return this.call('unlink', filePath);
+  }
+
+  rename(from, to) {
+    this.statCache.delete(this.toAgentPath(from));
+    this.statCache.delete(this.toAgentPath(to));
+    return this.call('rename', from, to);
+  }
+
+  copyFile(from, to, mode) {
+    this.statCache.delete(this.toAgentPath(to));
+    return this.call('copyFile', from, to, mode);
+  }
+
+  /** Copy a file or folder (fs.promises.cp) - folders can take a while */
+  async cp(from, to, options) {
+    this.statCache.clear();
+    await this.ensurePlatform();
+    const args = [this.toAgentPath(from), this.toAgentPath(to), options];
+    const data = await this.request('POST', '/fs', { op: 'cp', args }, { timeoutMs: 0 });
+    return data.result;
+  }
+
+  /** Readable stream of a remote file (backup downloads) */
+  async createReadStream(filePath) {
+    await this.ensurePlatform();
+    const response = await fetch(`${this.url}/agent/fs/stream?path=${encodeURIComponent(this.toAgentPath(filePath))}`, {
+      headers: this.headers()
+    });
+    if (!response.ok) {
+      throw toError(await response.json().catch(() => null), response.status);
+    }
+    return Readable.fromWeb(response.body);
+  }
+
+  // ── Long-running operations ──
+
+  /**
+   * Zip a folder on the agent's host. Progress is streamed back as
+   * newline-delimited JSON; see localFs.archive for the options.
+   */
+  async archive(sourceDir, destFile, { rootName, files = [], onProgress } = {}) {
+    await this.ensurePlatform();
+    const body = {
+      sourceDir: this.toAgentPath(sourceDir),
+      destFile: this.toAgentPath(destFile),
+      rootName,
+      files: files.map(file => ({ name: file.name, content: Buffer.from(file.content).toString('base64') }))
+    };
+    const response = await fetch(`${this.url}/agent/archive`, {
+      method: 'POST',
+      headers: this.headers({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw toError(await response.json().catch(() => null), response.status);
+    }
+
+    let result = null;
+    const lines = createInterface({ input: Readable.fromWeb(response.body) });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      const message = JSON.parse(line);
+      if (message.error) throw toError(message);
+      if (message.progress) onProgress?.(message.progress);
+      if (message.result) result = message.result;
+    }
+    if (!result) {
+      throw new Error('Agent closed the connection before the archive finished');
+    }
+    return result;
+  }
+
+  async extract(archiveFile, destDir) {
+    this.statCache.clear();
+    await this.ensurePlatform();
+    await this.request('POST', '/extract', {
+      archiveFile: this.toAgentPath(archiveFile),
+      destDir: this.toAgentPath(destDir)
+    }, { timeoutMs: 0 });
+  }
+
+  // ── Server process ──
+  // `serverPath` is the install folder and `serverName` the server's name,
+  // as for the local process controller (serverProcess.js)
+
+  async isServerRunning(serverPath, serverName) {
+    await this.ensurePlatform();
+    const data = await this.request('POST', '/process/status', { serverPath: this.toAgentPath(serverPath), serverName });
+    return data.running;
+  }
+
+  /** Run a start script in the install folder; resolves with its PID */
+  async startServer(serverPath, serverName, script, args = []) {
+    await this.ensurePlatform();
+    const data = await this.request('POST', '/process/start', { serverPath: this.toAgentPath(serverPath), serverName, script, args });
+    return data.pid;
+  }
+
+  /** Stop the server; resolves with { stopped, message } */
+  async stopServer(serverPath, serverName) {
+    await this.ensurePlatform();
+    // Stopping waits up to 15s for the server to exit before killing it
+    return this.request('POST', '/process/stop', { serverPath: this.toAgentPath(serverPath), serverName }, { timeoutMs: 60000 });
+  }
+}
+
+// One client per server, replaced when its agent settings change
+const clients = new Map();
+
+export function getAgentClient(server) {
+  const key = String(server.id);
+  const existing = clients.get(key);
+  if (existing && existing.url === server.agentUrl.replace(/\/+$/, '') && existing.token === server.agentToken) {
+    existing.name = server.name;
+    return existing;
+  }
+  const client = new AgentClient({ url: server.agentUrl, token: server.agentToken, name: server.name, platform: guessPlatform(server) });
+  clients.set(key, client);
+  log.debug(`Using agent ${client.url} for ${server.name}`);
+  return client;
+}
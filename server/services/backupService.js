@@ -1,68 +1,70 @@
 import path from 'path';
 import fs from 'fs';
-import { createWriteStream } from 'fs';
-import archiver from 'archiver';
-import { createReadStream } from 'fs';
-import { pipeline } from 'stream/promises';
-import { createGunzip } from 'zlib';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('Backup');
-import { getActiveServer, getSetting, setSetting, logServerEvent } from '../database/init.js';
-
-// Dynamic import for unzipper (CommonJS module)
-let unzipper;
-async function getUnzipper() {
-  if (!unzipper) {
-    unzipper = await import('unzipper');
-  }
-  return unzipper;
-}
+import { resolveServer, getSetting, setSetting, logServerEvent } from '../database/init.js';
+import { getHostFs } from './hostFs.js';
 
 export class BackupService {
-  constructor() {
+  constructor(serverId = null) {
+    this.serverId = serverId;  // ServerInstance id this service works for (null = the active server)
     this.backupInProgress = false;
     this.restoreInProgress = false;
     this.lastBackup = null;
     this.backupHistory = [];
   }
 
+  /**
+   * File access for the server's host: the local disk, or the server's
+   * agent for remote servers (see hostFs.js)
+   */
+  async getHostFs() {
+    return getHostFs(await resolveServer(this.serverId));
+  }
+
   /**
    * Get the saves folder path for the current server
    */
   async getSavesPath() {
     try {
-      const activeServer = await getActiveServer();
+      const instance = await resolveServer(this.serverId);
+      const hostFs = getHostFs(instance);
       
-      if (activeServer?.zomboidDataPath && activeServer?.serverName) {
-        const savesPath = path.join(activeServer.zomboidDataPath, 'Saves', 'Multiplayer', activeServer.serverName);
-        if (fs.existsSync(savesPath)) {
+      if (instance?.zomboidDataPath && instance?.serverName) {
+        const savesPath = path.join(instance.zomboidDataPath, 'Saves', 'Multiplayer', instance.serverName);
+        if (await hostFs.exists(savesPath)) {
           return savesPath;
         }
         // Try without serverName subfolder - but only if the folder matches the expected name
-        const baseSavesPath = path.join(activeServer.zomboidDataPath, 'Saves', 'Multiplayer');
-        if (fs.existsSync(baseSavesPath)) {
+        const baseSavesPath = path.join(instance.zomboidDataPath, 'Saves', 'Multiplayer');
+        if (await hostFs.exists(baseSavesPath)) {
           // Look for a folder that matches the server name (case-insensitive)
-          const folders = fs.readdirSync(baseSavesPath, { withFileTypes: true })
+          const folders = (await hostFs.readdir(baseSavesPath, { withFileTypes: true }))
             .filter(d => d.isDirectory())
             .map(d => d.name);
           // First try exact match
-          const exactMatch = folders.find(f => f === activeServer.serverName);
+          const exactMatch = folders.find(f => f === instance.serverName);
           if (exactMatch) {
             return path.join(baseSavesPath, exactMatch);
           }
           // Then try case-insensitive match
-          const caseInsensitiveMatch = folders.find(f => f.toLowerCase() === activeServer.serverName.toLowerCase());
+          const caseInsensitiveMatch = folders.find(f => f.toLowerCase() === instance.serverName.toLowerCase());
           if (caseInsensitiveMatch) {
             return path.join(baseSavesPath, caseInsensitiveMatch);
           }
           // Only use first folder as last resort with a warning
           if (folders.length > 0) {
-            log.warn(`Could not find save folder matching "${activeServer.serverName}", using first available: ${folders[0]}`);
+            log.warn(`Could not find save folder matching "${instance.serverName}", using first available: ${folders[0]}`);
             return path.join(baseSavesPath, folders[0]);
           }
         }
       }
       
+      // Legacy settings describe the panel's own machine
+      if (instance?.isRemote) {
+        return null;
+      }
+
       // Fallback to legacy settings
       const zomboidDataPath = await getSetting('zomboidDataPath');
       const serverName = await getSetting('serverName');
@@ -83,11 +85,15 @@ export class BackupService {
    */
   async getBackupsPath() {
     try {
-      const activeServer = await getActiveServer();
+      const instance = await resolveServer(this.serverId);
+      const hostFs = getHostFs(instance);
       let basePath;
       
-      if (activeServer?.zomboidDataPath) {
-        basePath = activeServer.zomboidDataPath;
+      if (instance?.zomboidDataPath) {
+        basePath = instance.zomboidDataPath;
+      } else if (instance?.isRemote) {
+        // The local fallbacks below are on the panel's machine, not the server's
+        return null;
       } else {
         basePath = await getSetting('zomboidDataPath');
       }
@@ -101,8 +107,8 @@ export class BackupService {
       const backupsPath = path.join(basePath, 'backups');
       
       // Ensure backups folder exists
-      if (!fs.existsSync(backupsPath)) {
-        fs.mkdirSync(backupsPath, { recursive: true });
+      if (!await hostFs.exists(backupsPath)) {
+        await hostFs.mkdir(backupsPath, { recursive: true });
       }
       
       return backupsPath;
@@ -181,6 +187,7 @@ export class BackupService {
   async _doCreateBackup(options, startTime, emitProgress) {
     emitProgress('preparing', 5, 'Preparing backup...');
     
+    const hostFs = await this.getHostFs();
     const savesPath = await this.getSavesPath();
     const backupsPath = await this.getBackupsPath();
       
@@ -188,7 +195,7 @@ export class BackupService {
         throw new Error('Could not determine saves folder path. Please configure the server first.');
       }
       
-      if (!fs.existsSync(savesPath)) {
+      if (!await hostFs.exists(savesPath)) {
         throw new Error(`Saves folder not found: ${savesPath}`);
       }
       
@@ -198,8 +205,8 @@ export class BackupService {
 
       // Generate backup filename with timestamp
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-      const activeServer = await getActiveServer();
-      const serverName = activeServer?.serverName || 'server';
+      const instance = await resolveServer(this.serverId);
+      const serverName = instance?.serverName || 'server';
       const backupName = `${serverName}_${timestamp}.zip`;
       const backupPath = path.join(backupsPath, backupName);
 
@@ -209,128 +216,64 @@ export class BackupService {
       
       emitProgress('preparing', 10, 'Scanning files...');
 
-      // Count total files for progress (asynchronously to avoid blocking)
-      let totalFiles = 0;
-      const countFiles = async (dir) => {
-        try {
-          const entries = await fs.promises.readdir(dir, { withFileTypes: true });
-          // Use Promise.all to process directories in parallel
-          const counts = await Promise.all(entries.map(async (entry) => {
-            if (entry.isDirectory()) {
-              return countFiles(path.join(dir, entry.name));
-            } else {
-              return 1;
-            }
-          }));
-          return counts.reduce((a, b) => a + b, 0);
-        } catch (e) {
-          // Ignore errors during counting (e.g. permission denied)
-          return 0;
-        }
-      };
-      
-      try {
-          totalFiles = await countFiles(savesPath);
-      } catch (err) {
-          log.warn(`Failed to count files: ${err.message}`);
-          totalFiles = 1000; // Fallback estimate
-      }
-
-      // Get database path if needed (before entering Promise callback)
-      let dbPathToInclude = null;
+      // The panel database always comes from the panel's own disk
+      const extraFiles = [];
       if (options.includeDb) {
         const { getDataPaths } = await import('../utils/paths.js');
         const dbPath = getDataPaths().dbPath;
         if (fs.existsSync(dbPath)) {
-          dbPathToInclude = dbPath;
-          totalFiles++;
+          extraFiles.push({ name: 'db.json', content: await fs.promises.readFile(dbPath) });
         }
       }
 
-      emitProgress('archiving', 15, `Found ${totalFiles} files to backup...`, { totalFiles });
-
-      // Create zip archive
-      const output = createWriteStream(backupPath);
-      const archive = archiver('zip', {
-        zlib: { level: 6 } // Moderate compression
-      });
-
-      let filesProcessed = 0;
-
-      return new Promise((resolve, reject) => {
-        // Track progress during archiving
-        archive.on('entry', (entry) => {
-          filesProcessed++;
+      // Zip on the server's host, tracking progress as entries are added
+      let totalFiles = 0;
+      const { size: sizeBytes } = await hostFs.archive(savesPath, backupPath, {
+        rootName: hostFs.path.basename(savesPath),
+        files: extraFiles,
+        onProgress: ({ filesProcessed, currentFile, ...progress }) => {
+          if (filesProcessed === undefined) {
+            totalFiles = progress.totalFiles;
+            emitProgress('archiving', 15, `Found ${totalFiles} files to backup...`, { totalFiles });
+            return;
+          }
           const percent = Math.min(15 + Math.round((filesProcessed / totalFiles) * 75), 90);
           if (filesProcessed % 50 === 0 || filesProcessed === totalFiles) {
             emitProgress('archiving', percent, `Archiving files... (${filesProcessed}/${totalFiles})`, {
               filesProcessed,
               totalFiles,
-              currentFile: entry.name
+              currentFile
             });
           }
-        });
-
-        output.on('close', async () => {
-          emitProgress('finalizing', 95, 'Finalizing backup...');
-          
-          const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-          const sizeBytes = archive.pointer();
-          const sizeMB = (sizeBytes / (1024 * 1024)).toFixed(2);
-          
-          log.info(`Backup completed: ${backupName} (${sizeMB} MB) in ${duration}s`);
-          
-          this.lastBackup = {
-            name: backupName,
-            path: backupPath,
-            size: sizeBytes,
-            created: new Date().toISOString()
-          };
-
-          await logServerEvent('backup_created', `${backupName} (${sizeMB} MB)`);
-          
-          // Clean up old backups
-          await this.cleanupOldBackups();
-          
-          emitProgress('complete', 100, `Backup complete! (${sizeMB} MB in ${duration}s)`);
-          
-          resolve({
-            success: true,
-            backup: this.lastBackup,
-            duration: parseFloat(duration)
-          });
-        });
-
-        output.on('error', (err) => {
-          emitProgress('error', 0, `Backup failed: ${err.message}`);
-          reject(err);
-        });
-
-        archive.on('error', (err) => {
-          emitProgress('error', 0, `Archive error: ${err.message}`);
-          reject(err);
-        });
-
-        archive.on('warning', (err) => {
-          if (err.code === 'ENOENT') {
-            log.warn(`Backup warning: ${err.message}`);
-          } else {
-            reject(err);
-          }
-        });
-
-        archive.pipe(output);
-
-        // Add the saves folder to the archive
-        archive.directory(savesPath, path.basename(savesPath));
-
-        // Optionally include database
-        if (dbPathToInclude) {
-          archive.file(dbPathToInclude, { name: 'db.json' });
         }
-
-        archive.finalize();
       });
+
+      emitProgress('finalizing', 95, 'Finalizing backup...');
+      
+      const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+      const sizeMB = (sizeBytes / (1024 * 1024)).toFixed(2);
+      
+      log.info(`Backup completed: ${backupName} (${sizeMB} MB) in ${duration}s`);
+      
+      this.lastBackup = {
+        name: backupName,
+        path: backupPath,
+        size: sizeBytes,
+        created: new Date().toISOString()
+      };
+
+      await logServerEvent('backup_created', `${backupName} (${sizeMB} MB)`);
+      
+      // Clean up old backups
+      await this.cleanupOldBackups();
+      
+      emitProgress('complete', 100, `Backup complete! (${sizeMB} MB in ${duration}s)`);
+      
+      return {
+        success: true,
+        backup: this.lastBackup,
+        duration: parseFloat(duration)
+      };
   }
 
   /**
@@ -338,19 +281,20 @@ export class BackupService {
    */
   async listBackups() {
     try {
+      const hostFs = await this.getHostFs();
       const backupsPath = await this.getBackupsPath();
-      if (!backupsPath || !fs.existsSync(backupsPath)) {
+      if (!backupsPath || !await hostFs.exists(backupsPath)) {
         return [];
       }
 
-      const files = await fs.promises.readdir(backupsPath);
+      const files = await hostFs.readdir(backupsPath);
       
       const backups = await Promise.all(files
         .filter(f => f.endsWith('.zip'))
         .map(async f => {
             try {
                 const filePath = path.join(backupsPath, f);
-                const stats = await fs.promises.stat(filePath);
+                const stats = await hostFs.stat(filePath);
                 return {
                     name: f,
                     path: filePath,
@@ -377,24 +321,25 @@ export class BackupService {
    */
   async deleteBackup(backupName) {
     try {
+      const hostFs = await this.getHostFs();
       const backupsPath = await this.getBackupsPath();
       if (!backupsPath) {
         throw new Error('Backups folder not found');
       }
 
       // Sanitize filename to prevent path traversal
-      const safeName = path.basename(backupName);
+      const safeName = hostFs.path.basename(backupName);
       if (!safeName.endsWith('.zip')) {
         throw new Error('Invalid backup file');
       }
 
       const backupPath = path.join(backupsPath, safeName);
       
-      if (!fs.existsSync(backupPath)) {
+      if (!await hostFs.exists(backupPath)) {
         throw new Error('Backup not found');
       }
 
-      fs.unlinkSync(backupPath);
+      await hostFs.unlink(backupPath);
       log.info(`Deleted backup: ${safeName}`);
       await logServerEvent('backup_deleted', safeName);
       
@@ -481,6 +426,7 @@ export class BackupService {
   async getStatus() {
     const settings = await this.getSettings();
     const backups = await this.listBackups();
+    const hostFs = await this.getHostFs();
     const savesPath = await this.getSavesPath();
     const backupsPath = await this.getBackupsPath();
     
@@ -492,7 +438,7 @@ export class BackupService {
       backupCount: backups.length,
       savesPath,
       backupsPath,
-      savesExists: savesPath ? fs.existsSync(savesPath) : false
+      savesExists: savesPath ? await hostFs.exists(savesPath) : false
     };
   }
 
@@ -534,6 +480,7 @@ export class BackupService {
     const startTime = Date.now();
 
     try {
+      const hostFs = await this.getHostFs();
       const backupsPath = await this.getBackupsPath();
       const savesPath = await this.getSavesPath();
       
@@ -546,14 +493,14 @@ export class BackupService {
       }
 
       // Sanitize backup name
-      const safeName = path.basename(backupName);
+      const safeName = hostFs.path.basename(backupName);
       if (!safeName.endsWith('.zip')) {
         throw new Error('Invalid backup file');
       }
 
       const backupPath = path.join(backupsPath, safeName);
       
-      if (!fs.existsSync(backupPath)) {
+      if (!await hostFs.exists(backupPath)) {
         throw new Error(`Backup not found: ${safeName}`);
       }
 
@@ -571,50 +518,42 @@ export class BackupService {
       }
 
       // Get parent directory and expected folder name
-      const savesParentPath = path.dirname(savesPath);
-      const expectedFolderName = path.basename(savesPath);
+      const savesParentPath = hostFs.path.dirname(savesPath);
+      const expectedFolderName = hostFs.path.basename(savesPath);
 
       // Clear the existing saves folder
-      if (fs.existsSync(savesPath)) {
+      if (await hostFs.exists(savesPath)) {
         log.info('Removing existing saves folder...');
-        fs.rmSync(savesPath, { recursive: true, force: true });
+        await hostFs.rm(savesPath, { recursive: true, force: true });
       }
 
       // Ensure parent directory exists
-      if (!fs.existsSync(savesParentPath)) {
-        fs.mkdirSync(savesParentPath, { recursive: true });
+      if (!await hostFs.exists(savesParentPath)) {
+        await hostFs.mkdir(savesParentPath, { recursive: true });
       }
 
       // Extract the backup
       log.info('Extracting backup...');
-      const unzip = await getUnzipper();
-      
-      await new Promise((resolve, reject) => {
-        const extractStream = createReadStream(backupPath)
-          .pipe(unzip.Extract({ path: savesParentPath }));
-        
-        extractStream.on('close', resolve);
-        extractStream.on('error', reject);
-      });
+      await hostFs.extract(backupPath, savesParentPath);
 
       // Verify the restore
-      if (!fs.existsSync(savesPath)) {
+      if (!await hostFs.exists(savesPath)) {
         // Check if it extracted with a different folder name
-        const extracted = fs.readdirSync(savesParentPath).filter(f => 
-          fs.statSync(path.join(savesParentPath, f)).isDirectory()
-        );
+        const extracted = (await hostFs.readdir(savesParentPath, { withFileTypes: true }))
+          .filter(entry => entry.isDirectory())
+          .map(entry => entry.name);
         
         if (extracted.length > 0) {
           // Find the newly extracted folder (the one that matches the backup pattern)
           for (const folder of extracted) {
             const folderPath = path.join(savesParentPath, folder);
             // Check if this looks like a world save folder
-            if (fs.existsSync(path.join(folderPath, 'map_meta.bin')) || 
-                fs.existsSync(path.join(folderPath, 'map_t.bin'))) {
+            if (await hostFs.exists(path.join(folderPath, 'map_meta.bin')) || 
+                await hostFs.exists(path.join(folderPath, 'map_t.bin'))) {
               // Rename to expected folder name if different
               if (folder !== expectedFolderName) {
                 log.info(`Renaming extracted folder from ${folder} to ${expectedFolderName}`);
-                fs.renameSync(folderPath, savesPath);
+                await hostFs.rename(folderPath, savesPath);
               }
               break;
             }
@@ -622,7 +561,7 @@ export class BackupService {
         }
       }
 
-      if (!fs.existsSync(savesPath)) {
+      if (!await hostFs.exists(savesPath)) {
         throw new Error('Restore may have failed - saves folder not found after extraction');
       }
 
@@ -2,6 +2,19 @@ import { Client, GatewayIntentBits, SlashCommandBuilder, REST, Routes, EmbedBuil
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('Discord');
 import { getSetting, setSetting } from '../database/init.js';
+import { recordAudit } from '../utils/audit.js';
+import { isMacroInvocation, runMacroInvocation } from '../utils/consoleMacros.js';
+
+// How each server lifecycle state is shown in /status
+const STATE_DISPLAY = {
+  stopped: { label: '🔴 Offline', color: 0xff0000 },
+  starting: { label: '🟡 Starting', color: 0xf1c40f },
+  loading: { label: '🟡 Loading world', color: 0xf1c40f },
+  ready: { label: '🟢 Online', color: 0x00ff00 },
+  saving: { label: '💾 Saving', color: 0x00ff00 },
+  stopping: { label: '🟠 Stopping', color: 0xe67e22 },
+  crashed: { label: '💥 Crashed', color: 0x992d22 }
+};
 
 export class DiscordBot {
   constructor(rconService, serverManager, scheduler, logTailer = null) {
@@ -10,6 +23,7 @@ export class DiscordBot {
     this.serverManager = serverManager;
     this.scheduler = scheduler;
     this.logTailer = logTailer;
+    this.panelBridge = null;
     this.token = null;
     this.guildId = null;
     this.adminRoleId = null;
@@ -18,11 +32,23 @@ export class DiscordBot {
     this.webhookEvents = {};
     
     // Setup Chat Bridge listener
+    this.onGameChat = (data) => this.handleGameChat(data);
     if (this.logTailer) {
-        this.logTailer.on('chatMessage', (data) => this.handleGameChat(data));
+        this.logTailer.on('chatMessage', this.onGameChat);
     }
   }
 
+  // Point the bot at another server's services (when the active server changes)
+  setServices({ rconService, serverManager, scheduler, logTailer, panelBridge }) {
+    this.logTailer?.off('chatMessage', this.onGameChat);
+    this.rconService = rconService;
+    this.panelBridge = panelBridge;
+    this.serverManager = serverManager;
+    this.scheduler = scheduler;
+    this.logTailer = logTailer;
+    this.logTailer?.on('chatMessage', this.onGameChat);
+  }
+
   async handleGameChat(data) {
       // Don't echo back if the bot is not running or channel not set
       if (!this.isRunning || !this.channelId || !this.client) return;
@@ -156,7 +182,7 @@ export class DiscordBot {
         .setDescription('Execute a custom RCON command')
         .addStringOption(option =>
           option.setName('command')
-            .setDescription('RCON command to execute')
+            .setDescription('RCON command to execute, or !macro args to run a saved macro')
             .setRequired(true)
         )
         .setDefaultMemberPermissions(PermissionFlagsBits.Administrator),
@@ -209,7 +235,9 @@ export class DiscordBot {
     
     // Check admin role for restricted commands
     const adminCommands = ['start', 'stop', 'restart', 'save', 'broadcast', 'kick', 'rcon'];
-    if (adminCommands.includes(commandName) && !this.hasAdminRole(interaction)) {
+    const audited = adminCommands.includes(commandName);
+    if (audited && !this.hasAdminRole(interaction)) {
+      await this.auditInteraction(interaction, { success: false, error: 'Missing Discord admin role' });
       await interaction.reply({
         content: '❌ You do not have permission to use this command.',
         ephemeral: true
@@ -218,6 +246,7 @@ export class DiscordBot {
     }
 
     try {
+      let result;
       switch (commandName) {
         case 'status':
           await this.handleStatus(interaction);
@@ -226,31 +255,33 @@ export class DiscordBot {
           await this.handlePlayers(interaction);
           break;
         case 'start':
-          await this.handleStart(interaction);
+          result = await this.handleStart(interaction);
           break;
         case 'stop':
-          await this.handleStop(interaction);
+          result = await this.handleStop(interaction);
           break;
         case 'restart':
-          await this.handleRestart(interaction);
+          result = await this.handleRestart(interaction);
           break;
         case 'save':
-          await this.handleSave(interaction);
+          result = await this.handleSave(interaction);
           break;
         case 'broadcast':
-          await this.handleBroadcast(interaction);
+          result = await this.handleBroadcast(interaction);
           break;
         case 'kick':
-          await this.handleKick(interaction);
+          result = await this.handleKick(interaction);
           break;
         case 'rcon':
-          await this.handleRcon(interaction);
+          result = await this.handleRcon(interaction);
           break;
         default:
           await interaction.reply({ content: 'Unknown command', ephemeral: true });
       }
+      if (audited) await this.auditInteraction(interaction, result);
     } catch (error) {
       log.error(`command error: ${error.message}`);
+      if (audited) await this.auditInteraction(interaction, { success: false, error: error.message });
       try {
         const content = `❌ Error: ${error.message}`;
         if (interaction.replied || interaction.deferred) {
@@ -264,6 +295,21 @@ export class DiscordBot {
     }
   }
 
+  /** Record an admin slash command in the panel audit log */
+  async auditInteraction(interaction, result) {
+    const params = Object.fromEntries(interaction.options.data.map(option => [option.name, option.value]));
+    await recordAudit({
+      actor: interaction.user.tag,
+      actorId: interaction.user.id,
+      source: 'discord',
+      action: `/${interaction.commandName}`,
+      target: params.player ?? null,
+      params,
+      success: result?.success !== false,
+      error: result?.success === false ? result.error ?? null : null
+    });
+  }
+
   async handleStatus(interaction) {
     await interaction.deferReply();
     
@@ -278,18 +324,27 @@ export class DiscordBot {
       uptimeStr = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
     }
     
+    const lifecycle = status.lifecycle || { state: isRunning ? 'ready' : 'stopped' };
+    const stateInfo = STATE_DISPLAY[lifecycle.state] || STATE_DISPLAY.stopped;
+    
     const embed = new EmbedBuilder()
       .setTitle('🧟 Project Zomboid Server Status')
-      .setColor(isRunning ? 0x00ff00 : 0xff0000)
+      .setColor(stateInfo.color)
       .addFields(
-        { name: 'Status', value: isRunning ? '🟢 Online' : '🔴 Offline', inline: true },
+        { name: 'Status', value: stateInfo.label, inline: true },
         { name: 'Uptime', value: uptimeStr, inline: true }
       )
       .setTimestamp();
     
-    if (isRunning) {
+    const isReady = lifecycle.state === 'ready' || lifecycle.state === 'saving';
+    if (!isReady && lifecycle.state !== 'stopped' && lifecycle.reason) {
+      embed.setDescription(`Since <t:${Math.floor(new Date(lifecycle.since).getTime() / 1000)}:R> - ${lifecycle.reason}`);
+    }
+    
+    // Players can only be listed once the world is loaded
+    if (isReady) {
       try {
-        const players = await this.rconService.getPlayers();
+        const players = await this.rconService.getPlayers({ source: 'discord' });
         if (players.success) {
           embed.addFields({ 
             name: 'Players Online', 
@@ -314,7 +369,7 @@ export class DiscordBot {
       return;
     }
     
-    const result = await this.rconService.getPlayers();
+    const result = await this.rconService.getPlayers({ source: 'discord' });
     
     if (!result.success) {
       await interaction.editReply(`❌ Failed to get players: ${result.error}`);
@@ -342,7 +397,7 @@ export class DiscordBot {
     const isRunning = await this.serverManager.checkServerRunning();
     if (isRunning) {
       await interaction.editReply('⚠️ Server is already running');
-      return;
+      return { success: false, error: 'Server is already running' };
     }
     
     await this.serverManager.startServer();
@@ -350,6 +405,7 @@ export class DiscordBot {
     
     // Send notification to channel
     await this.sendNotification(`🚀 **Server started** by ${interaction.user.tag}`);
+    return { success: true };
   }
 
   async handleStop(interaction) {
@@ -358,15 +414,16 @@ export class DiscordBot {
     const isRunning = await this.serverManager.checkServerRunning();
     if (!isRunning) {
       await interaction.editReply('⚠️ Server is not running');
-      return;
+      return { success: false, error: 'Server is not running' };
     }
     
     // Save first
-    await this.rconService.save();
-    await this.rconService.quit();
+    await this.rconService.save({ source: 'discord' });
+    await this.rconService.quit({ source: 'discord' });
     
     await interaction.editReply('🛑 Server is stopping...');
     await this.sendNotification(`🛑 **Server stopped** by ${interaction.user.tag}`);
+    return { success: true };
   }
 
   async handleRestart(interaction) {
@@ -377,12 +434,12 @@ export class DiscordBot {
     const isRunning = await this.serverManager.checkServerRunning();
     if (!isRunning) {
       await interaction.editReply('⚠️ Server is not running. Use /start to start the server.');
-      return;
+      return { success: false, error: 'Server is not running' };
     }
     
     // Send initial message
     if (minutes > 0) {
-      await this.rconService.serverMessage(`Server restarting in ${minutes} minute(s)!`);
+      await this.rconService.serverMessage(`Server restarting in ${minutes} minute(s)!`, { source: 'discord', priority: 'critical' });
     }
     
     await interaction.editReply(`🔄 Server restart initiated (${minutes} min warning)`);
@@ -394,19 +451,22 @@ export class DiscordBot {
     } catch (error) {
       log.error(`restart failed: ${error.message}`);
       await this.sendNotification(`❌ **Server restart failed:** ${error.message}`);
+      return { success: false, error: error.message };
     }
+    return { success: true };
   }
 
   async handleSave(interaction) {
     await interaction.deferReply();
     
-    const result = await this.rconService.save();
+    const result = await this.rconService.save({ source: 'discord' });
     
     if (result.success) {
       await interaction.editReply('💾 World saved successfully');
     } else {
       await interaction.editReply(`❌ Save failed: ${result.error}`);
     }
+    return result;
   }
 
   async handleBroadcast(interaction) {
@@ -414,13 +474,14 @@ export class DiscordBot {
     
     await interaction.deferReply();
     
-    const result = await this.rconService.serverMessage(message);
+    const result = await this.rconService.serverMessage(message, { source: 'discord' });
     
     if (result.success) {
       await interaction.editReply(`📢 Broadcast sent: "${message}"`);
     } else {
       await interaction.editReply(`❌ Broadcast failed: ${result.error}`);
     }
+    return result;
   }
 
   async handleKick(interaction) {
@@ -432,7 +493,7 @@ export class DiscordBot {
     // Sanitize inputs to prevent command injection
     const safePlayer = this.rconService.sanitize(player);
     const safeReason = this.rconService.sanitize(reason);
-    const result = await this.rconService.execute(`kick "${safePlayer}" "${safeReason}"`);
+    const result = await this.rconService.execute(`kick "${safePlayer}" "${safeReason}"`, { source: 'discord' });
     
     if (result.success) {
       await interaction.editReply(`👢 Kicked ${player}: ${reason}`);
@@ -440,34 +501,62 @@ export class DiscordBot {
     } else {
       await interaction.editReply(`❌ Kick failed: ${result.error}`);
     }
+    return result;
   }
 
   async handleRcon(interaction) {
     const command = interaction.options.getString('command');
     
     await interaction.deferReply({ ephemeral: true });
+
+    if (isMacroInvocation(command)) {
+      return this.handleMacro(interaction, command);
+    }
     
     // Basic sanitization - remove potential injection characters
     const safeCommand = this.rconService.sanitize(command);
-    const result = await this.rconService.execute(safeCommand);
+    const result = await this.rconService.execute(safeCommand, { source: 'discord' });
     
     const response = result.success 
       ? `✅ **Response:**\n\`\`\`${result.response || 'No response'}\`\`\``
       : `❌ **Error:** ${result.error}`;
     
     await interaction.editReply(response);
+    return result;
   }
 
+  /** Run a saved console macro (`!name args`) and list each step's answer */
+  async handleMacro(interaction, command) {
+    const result = await runMacroInvocation(command, {
+      rconService: this.rconService,
+      panelBridge: this.panelBridge,
+      source: 'discord'
+    });
+
+    const lines = result.steps.map(step => `${step.success ? '✅' : '❌'} ${step.command}\n${step.response || 'No response'}`);
+    const header = result.success
+      ? `✅ **Macro ${result.macro} finished**`
+      : `❌ **Macro ${result.macro} stopped:** ${result.error}`;
+    // Discord messages are limited to 2000 characters
+    const body = lines.join('\n\n').slice(0, 1900 - header.length);
+    await interaction.editReply(`${header}\n\`\`\`${body}\`\`\``);
+    return result;
+  }
+
+  /** Post to the notification channel. Resolves false when nothing was sent */
   async sendNotification(message) {
-    if (!this.channelId || !this.client) return;
+    if (!this.channelId || !this.client) return false;
     
     try {
       const channel = await this.client.channels.fetch(this.channelId);
       if (channel && channel.isTextBased()) {
         await channel.send(message);
+        return true;
       }
+      return false;
     } catch (error) {
       log.error(`Failed to send Discord notification: ${error.message}`);
+      return false;
     }
   }
 
@@ -513,7 +602,7 @@ export class DiscordBot {
                     
                     // Broadcast to server
                     // Format: [Discord] User: Message
-                    await this.rconService.serverMessage(`[Discord] ${user}: ${safeContent}`);
+                    await this.rconService.serverMessage(`[Discord] ${user}: ${safeContent}`, { source: 'discord' });
                 }
             } catch (e) {
                 log.warn(`Failed to bridge message to server: ${e.message}`);
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import { resolveServer } from '../database/init.js';
+import { getAgentClient } from './agentClient.js';
+
+// ============================================
+// Host Filesystem
+// ============================================
+//
+// File access for a server's files, wherever the server runs. Local servers
+// use the disk directly; remote servers with an agent (see agent.js) go
+// through the agent's file API. Both sides expose the same promise-based
+// API, modelled on fs.promises, plus archive/extract for world backups and
+// `path`, the path module for the host's platform.
+
+// Dynamic import for unzipper (CommonJS module)
+let unzipper;
+async function getUnzipper() {
+  if (!unzipper) {
+    unzipper = await import('unzipper');
+  }
+  return unzipper;
+}
+
+/** Count files below a folder (for archive progress) */
+async function countFiles(dir) {
+  try {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    const counts = await Promise.all(entries.map(entry =>
+      entry.isDirectory() ? countFiles(path.join(dir, entry.name)) : 1
+    ));
+    return counts.reduce((a, b) => a + b, 0);
+  } catch (e) {
+    // Ignore errors during counting (e.g. permission denied)
+    return 0;
+  }
+}
+
+export const localFs = {
+  isRemote: false,
+  path, // For building paths on the server's host (agents use their platform's)
+
+  async exists(filePath) {
+    try {
+      await fs.promises.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  access: (filePath) => fs.promises.access(filePath),
+  stat: (filePath) => fs.promises.stat(filePath),
+  readdir: (dirPath, options) => fs.promises.readdir(dirPath, options),
+  readFile: (filePath, encoding) => fs.promises.readFile(filePath, encoding),
+  writeFile: (filePath, data, encoding) => fs.promises.writeFile(filePath, data, encoding),
+  mkdir: (dirPath, options) => fs.promises.mkdir(dirPath, options),
+  rm: (targetPath, options) => fs.promises.rm(targetPath, options),
+  rmdir: (dirPath) => fs.promises.rmdir(dirPath),
+  unlink: (filePath) => fs.promises.unlink(filePath),
+  rename: (from, to) => fs.promises.rename(from, to),
+  copyFile: (from, to, mode) => fs.promises.copyFile(from, to, mode),
+  cp: (from, to, options) => fs.promises.cp(from, to, options),
+  createReadStream: (filePath) => fs.createReadStream(filePath),
+
+  // Only local folders can be watched - remote callers poll
+  watch: (dirPath, options, listener) => fs.watch(dirPath, options, listener),
+
+  /**
+   * Zip a folder. `files` adds extra entries ({ name, content }) and
+   * `onProgress` receives { totalFiles } once counted, then
+   * { filesProcessed, totalFiles, currentFile } for every entry.
+   * Resolves with the archive size in bytes.
+   */
+  async archive(sourceDir, destFile, { rootName = path.basename(sourceDir), files = [], onProgress } = {}) {
+    const totalFiles = (await countFiles(sourceDir)) + files.length;
+    onProgress?.({ totalFiles });
+
+    const output = fs.createWriteStream(destFile);
+    const archive = archiver('zip', {
+      zlib: { level: 6 } // Moderate compression
+    });
+
+    let filesProcessed = 0;
+
+    return new Promise((resolve, reject) => {
+      archive.on('entry', (entry) => {
+        filesProcessed++;
+        onProgress?.({ filesProcessed, totalFiles, currentFile: entry.name });
+      });
+
+      output.on('close', () => resolve({ size: archive.pointer(), totalFiles }));
+      output.on('error', reject);
+      archive.on('error', reject);
+
+      archive.on('warning', (err) => {
+        if (err.code !== 'ENOENT') reject(err);
+      });
+
+      archive.pipe(output);
+      archive.directory(sourceDir, rootName);
+      for (const file of files) {
+        archive.append(file.content, { name: file.name });
+      }
+      archive.finalize();
+    });
+  },
+
+  /**
+   * Unzip an archive into a folder. Reads the zip's central directory -
+   * unzipper's streaming Extract drops entries from archiver's zips.
+   */
+  async extract(archiveFile, destDir) {
+    const unzip = await getUnzipper();
+    const directory = await unzip.Open.file(archiveFile);
+    await directory.extract({ path: destDir });
+  }
+};
+
+/**
+ * File access for a server: its agent when it is a remote server with one
+ * configured, the local disk otherwise
+ */
+export function getHostFs(server) {
+  if (server?.isRemote && server.agentUrl) {
+    return getAgentClient(server);
+  }
+  return localFs;
+}
+
+/** File access for the server a request is scoped to (see serverInstances.js) */
+export async function getRequestFs(req) {
+  if (!req.hostFs) {
+    req.hostFs = getHostFs(await resolveServer(req.app.get('serverId')));
+  }
+  return req.hostFs;
+}
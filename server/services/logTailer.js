@@ -3,17 +3,34 @@ import path from 'path';
 import { EventEmitter } from 'events';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('LogTailer');
-import { getActiveServer, getSetting } from '../database/init.js';
+import { resolveServer, getSetting } from '../database/init.js';
 
 export class LogTailer extends EventEmitter {
-  constructor() {
+  constructor(serverId = null) {
     super();
+    this.serverId = serverId;  // ServerInstance id this service works for (null = the active server)
     this.logPath = null;
     this.watcher = null;
     this.currentSize = 0;
     this.isWatching = false;
     this.checkTimer = null;
     this.debounceTimer = null;
+    this.serverConsole = null;
+  }
+
+  // Parse output captured straight from the server process (works wherever
+  // PZ writes its log). While capture is active server-console.txt is still
+  // followed but not parsed, so chat lines are not emitted twice.
+  setServerConsole(serverConsole) {
+    this.serverConsole = serverConsole;
+    serverConsole.on('line', (entry) => {
+        if (entry.stream === 'panel') return;
+        try {
+            this.processNewData(entry.line);
+        } catch (e) {
+            log.error(`Error processing console line: ${e.message}`);
+        }
+    });
   }
 
   async init() {
@@ -25,19 +42,19 @@ export class LogTailer extends EventEmitter {
 
   async findLogPath() {
     try {
-        const activeServer = await getActiveServer();
+        const instance = await resolveServer(this.serverId);
         // Default Zomboid path logic
         let basePath = process.env.USERPROFILE ? path.join(process.env.USERPROFILE, 'Zomboid') : '';
         
         // Use explicitly configured Zomboid path if available
-        if (activeServer?.zomboidDataPath) {
-            basePath = activeServer.zomboidDataPath;
+        if (instance?.zomboidDataPath) {
+            basePath = instance.zomboidDataPath;
         } else {
             const settingPath = await getSetting('zomboidDataPath');
             if (settingPath) basePath = settingPath;
         }
 
-        const serverName = activeServer?.serverName || await getSetting('serverName') || 'servertest';
+        const serverName = instance?.serverName || await getSetting('serverName') || 'servertest';
         
         // Target: .../Zomboid/Server/serverName_chat.txt (Clean chat log)
         // Or: .../Zomboid/server-console.txt (noisy console log)
@@ -141,6 +158,10 @@ export class LogTailer extends EventEmitter {
                  stream.on('data', chunk => data += chunk);
                  stream.on('end', () => {
                      this.currentSize = stats.size;
+                     if (this.serverConsole?.capturing) {
+                         resolve();
+                         return;
+                     }
                      try {
                          this.processNewData(data);
                      } catch (e) {
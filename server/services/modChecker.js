@@ -1,13 +1,14 @@
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('Mods');
-import { getTrackedMods, updateModTimestamp, logServerEvent, getSetting, setSetting, addTrackedMod, getActiveServer } from '../database/init.js';
+import { getTrackedMods, updateModTimestamp, logServerEvent, getSetting, setSetting, addTrackedMod, resolveServer } from '../database/init.js';
 import fs from 'fs';
 import path from 'path';
 import { EventEmitter } from 'events';
 
 export class ModChecker extends EventEmitter {
-  constructor() {
+  constructor(serverId = null) {
     super();
+    this.serverId = serverId;  // ServerInstance id this service works for (null = the active server)
     this.checkInterval = parseInt(process.env.MOD_CHECK_INTERVAL, 10) || 300000; // 5 minutes default
     this.intervalId = null;
     this.lastCheck = null;
@@ -25,6 +26,7 @@ export class ModChecker extends EventEmitter {
     this.maxDelayMinutes = 30;  // Maximum wait time if delaying for players
     this.lastUpdateDetected = null;  // Timestamp of last update detection
     this.pendingRestart = false;  // Whether a restart is pending (waiting for players)
+    this.pendingRestartDeadline = null;  // When a pending restart stops waiting for players
     this.playerCheckInterval = null;  // Interval for checking player count
     
     // Performance: Cache mod names to avoid repeated disk reads
@@ -81,8 +83,8 @@ export class ModChecker extends EventEmitter {
           return manualPath;
       }
 
-      const activeServer = await getActiveServer();
-      let installPath = activeServer?.installPath;
+      const instance = await resolveServer(this.serverId);
+      let installPath = instance?.installPath;
       
       if (!installPath) {
         installPath = await getSetting('serverPath');
@@ -403,7 +405,8 @@ export class ModChecker extends EventEmitter {
         if (playerCount > 0) {
           log.info(`${playerCount} players online, delaying restart (max ${this.maxDelayMinutes} min)`);
           await this.scheduler.rconService?.serverMessage(
-            `🔧 Mod updates detected! Restart pending - waiting for players to leave (max ${this.maxDelayMinutes} min).`
+            `🔧 Mod updates detected! Restart pending - waiting for players to leave (max ${this.maxDelayMinutes} min).`,
+            { source: 'system' }
           );
           
           if (this.io) {
@@ -432,7 +435,7 @@ export class ModChecker extends EventEmitter {
     if (!this.scheduler?.rconService) return 0;
     
     try {
-      const result = await this.scheduler.rconService.getPlayers();
+      const result = await this.scheduler.rconService.getPlayers({ source: 'system' });
       if (result.success && result.players) {
         return result.players.length;
       }
@@ -451,6 +454,7 @@ export class ModChecker extends EventEmitter {
     this.pendingRestart = true;
     const startTime = Date.now();
     const maxWaitMs = this.maxDelayMinutes * 60 * 1000;
+    this.pendingRestartDeadline = new Date(startTime + maxWaitMs);
     
     this.playerCheckInterval = setInterval(async () => {
       const elapsed = Date.now() - startTime;
@@ -461,6 +465,7 @@ export class ModChecker extends EventEmitter {
         clearInterval(this.playerCheckInterval);
         this.playerCheckInterval = null;
         this.pendingRestart = false;
+        this.pendingRestartDeadline = null;
         await this.triggerModRestart(updatedMods);
         return;
       }
@@ -473,6 +478,7 @@ export class ModChecker extends EventEmitter {
         clearInterval(this.playerCheckInterval);
         this.playerCheckInterval = null;
         this.pendingRestart = false;
+        this.pendingRestartDeadline = null;
         await this.triggerModRestart(updatedMods);
       } else {
         const remainingMin = Math.round((maxWaitMs - elapsed) / 60000);
@@ -497,7 +503,8 @@ export class ModChecker extends EventEmitter {
     try {
       // Send warning message
       await this.scheduler.rconService?.serverMessage(
-        `🔧 Mod updates detected: ${modNames.substring(0, 100)}${modNames.length > 100 ? '...' : ''}. Server will restart in ${this.restartWarningMinutes} minute(s).`
+        `🔧 Mod updates detected: ${modNames.substring(0, 100)}${modNames.length > 100 ? '...' : ''}. Server will restart in ${this.restartWarningMinutes} minute(s).`,
+        { source: 'system', priority: 'critical' }
       );
       
       // Perform restart with configured warning time
@@ -707,6 +714,7 @@ export class ModChecker extends EventEmitter {
       this.playerCheckInterval = null;
     }
     this.pendingRestart = false;
+    this.pendingRestartDeadline = null;
     log.info('Pending restart cancelled');
     
     if (this.io) {
@@ -5,17 +5,18 @@
  * Uses file-based communication with atomic operations.
  */
 
-import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
 import { logPlayerAction, recordPlayerSession } from '../database/init.js';
 import { createLogger } from '../utils/logger.js';
+import { localFs } from './hostFs.js';
 const log = createLogger('Bridge');
 
 class PanelBridge extends EventEmitter {
-  constructor() {
+  constructor(hostFs = localFs) {
     super();
+    this.hostFs = hostFs; // Where the bridge folder lives: local disk or the server's agent (services/hostFs.js)
     this.bridgePath = null;
     this.isRunning = false;
     this.pollInterval = null;
@@ -44,7 +45,7 @@ class PanelBridge extends EventEmitter {
    * @param {string} bridgeFolderPath - Path to the panelbridge folder (or parent folder)
    * @param {boolean} isDirectPath - If true, bridgeFolderPath IS the panelbridge folder. If false, add /panelbridge/ to it.
    */
-  configure(bridgeFolderPath, isDirectPath = false) {
+  async configure(bridgeFolderPath, isDirectPath = false) {
     if (!bridgeFolderPath) {
       throw new Error('bridgeFolderPath is required');
     }
@@ -58,8 +59,8 @@ class PanelBridge extends EventEmitter {
     }
     
     // Ensure directory exists
-    if (!fs.existsSync(this.bridgePath)) {
-      fs.mkdirSync(this.bridgePath, { recursive: true });
+    if (!(await this.hostFs.exists(this.bridgePath))) {
+      await this.hostFs.mkdir(this.bridgePath, { recursive: true });
     }
 
     log.debug(`Configured path: ${this.bridgePath}`);
@@ -73,7 +74,7 @@ class PanelBridge extends EventEmitter {
    * @param {string} serverName - Name of the PZ server
    * @param {string} zomboidUserFolder - Path to Zomboid user folder (optional)
    */
-  autoDetect(serverName, zomboidUserFolder = null) {
+  async autoDetect(serverName, zomboidUserFolder = null) {
     // Default Zomboid folder locations
     const possibleBases = zomboidUserFolder 
       ? [zomboidUserFolder]
@@ -84,7 +85,7 @@ class PanelBridge extends EventEmitter {
 
     for (const base of possibleBases) {
       const savePath = path.join(base, 'Saves', 'Multiplayer', serverName);
-      if (fs.existsSync(savePath)) {
+      if (await this.hostFs.exists(savePath)) {
         return this.configure(savePath);
       }
     }
@@ -154,6 +155,12 @@ class PanelBridge extends EventEmitter {
       this.fileWatcher = null;
     }
 
+    // A remote bridge folder (agent) can't be watched - polling covers it
+    if (!this.hostFs.watch) {
+      log.debug('Bridge folder is on a remote host - polling only');
+      return;
+    }
+
     // Stop trying if we've failed too many times
     if (this.watcherRetries >= this.maxWatcherRetries) {
         log.warn(`Gave up on file watcher after ${this.maxWatcherRetries} attempts. Falling back to polling only.`);
@@ -162,7 +169,7 @@ class PanelBridge extends EventEmitter {
 
     try {
       this._debounceTimer = null;
-      this.fileWatcher = fs.watch(this.bridgePath, { persistent: false }, (eventType, filename) => {
+      this.fileWatcher = this.hostFs.watch(this.bridgePath, { persistent: false }, (eventType, filename) => {
         // Debounce rapid file changes
         if (this._debounceTimer) clearTimeout(this._debounceTimer);
         this._debounceTimer = setTimeout(() => {
@@ -292,11 +299,11 @@ class PanelBridge extends EventEmitter {
   /**
    * Append a command to the commands file (serialized via _writeQueue)
    */
-  _appendCommand(commandsFile, id, action, args) {
+  async _appendCommand(commandsFile, id, action, args) {
     let commands = { commands: [] };
     try {
-      if (fs.existsSync(commandsFile)) {
-        const content = fs.readFileSync(commandsFile, 'utf-8');
+      if (await this.hostFs.exists(commandsFile)) {
+        const content = await this.hostFs.readFile(commandsFile, 'utf-8');
         if (content.trim()) {
           commands = JSON.parse(content);
           if (!commands.commands) commands.commands = [];
@@ -314,28 +321,41 @@ class PanelBridge extends EventEmitter {
     });
 
     const tempFile = commandsFile + '.tmp';
-    fs.writeFileSync(tempFile, JSON.stringify(commands, null, 2));
+    await this.hostFs.writeFile(tempFile, JSON.stringify(commands, null, 2));
     try {
-      fs.renameSync(tempFile, commandsFile);
+      await this.hostFs.rename(tempFile, commandsFile);
     } catch (err) {
       // If rename fails (file locked), try direct write as fallback
-      log.warn(`renameSync failed, using direct write: ${err.message}`);
-      fs.writeFileSync(commandsFile, JSON.stringify(commands, null, 2));
-      try { fs.unlinkSync(tempFile); } catch (_) { /* ignore */ }
+      log.warn(`rename failed, using direct write: ${err.message}`);
+      await this.hostFs.writeFile(commandsFile, JSON.stringify(commands, null, 2));
+      try { await this.hostFs.unlink(tempFile); } catch (_) { /* ignore */ }
     }
   }
 
   /**
    * Poll for results from the mod
    */
-  pollResults() {
+  async pollResults() {
+    // Remote reads can outlast the poll interval - skip while one is in flight
+    if (this._pollingResults) return;
+    this._pollingResults = true;
+    try {
+      await this._readResults();
+    } catch (e) {
+      log.debug(`Results poll failed: ${e.message}`);
+    } finally {
+      this._pollingResults = false;
+    }
+  }
+
+  async _readResults() {
     const resultsFile = this.getResultsFile();
-    if (!resultsFile || !fs.existsSync(resultsFile)) {
+    if (!resultsFile || !(await this.hostFs.exists(resultsFile))) {
       return;
     }
 
     try {
-      const content = fs.readFileSync(resultsFile, 'utf-8');
+      const content = await this.hostFs.readFile(resultsFile, 'utf-8');
       if (!content.trim()) return;
 
       const data = JSON.parse(content);
@@ -393,7 +413,19 @@ class PanelBridge extends EventEmitter {
   /**
    * Check mod status
    */
-  checkModStatus() {
+  async checkModStatus() {
+    if (this._checkingStatus) return;
+    this._checkingStatus = true;
+    try {
+      await this._readModStatus();
+    } catch (e) {
+      this.handleStatusFailure(e.message);
+    } finally {
+      this._checkingStatus = false;
+    }
+  }
+
+  async _readModStatus() {
     const statusFile = this.getStatusFile();
     
     // Check if file exists
@@ -402,14 +434,14 @@ class PanelBridge extends EventEmitter {
       return;
     }
     
-    if (!fs.existsSync(statusFile)) {
+    if (!(await this.hostFs.exists(statusFile))) {
       this.handleStatusFailure('Status file does not exist');
       return;
     }
 
     try {
       // Check file modification time first (faster than reading)
-      const stats = fs.statSync(statusFile);
+      const stats = await this.hostFs.stat(statusFile);
       const age = Date.now() - stats.mtimeMs;
       
       // If file hasn't changed since last check and we have valid status (not just waiting), skip full re-read
@@ -429,7 +461,7 @@ class PanelBridge extends EventEmitter {
       }
       
       // Read and parse the file
-      const content = fs.readFileSync(statusFile, 'utf-8');
+      const content = await this.hostFs.readFile(statusFile, 'utf-8');
       if (!content.trim()) {
         this.handleStatusFailure('Status file is empty');
         return;
@@ -533,14 +565,14 @@ class PanelBridge extends EventEmitter {
   /**
    * Get current status with detailed diagnostics
    */
-  getStatus() {
+  async getStatus() {
     const statusFile = this.getStatusFile();
     let fileInfo = null;
     
     if (statusFile) {
       try {
-        if (fs.existsSync(statusFile)) {
-          const stats = fs.statSync(statusFile);
+        if (await this.hostFs.exists(statusFile)) {
+          const stats = await this.hostFs.stat(statusFile);
           fileInfo = {
             exists: true,
             path: statusFile,
@@ -893,8 +925,5 @@ class PanelBridge extends EventEmitter {
   }
 }
 
-// Export singleton instance
-const bridge = new PanelBridge();
-
-export { PanelBridge, bridge };
-export default bridge;
+// One bridge per server instance - see services/serverInstances.js
+export { PanelBridge };
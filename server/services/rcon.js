@@ -3,14 +3,17 @@ import { EventEmitter } from 'events';
 import net from 'net';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('RCON');
-import { logCommand, getSetting, getActiveServer } from '../database/init.js';
+import { logCommand, getSetting, resolveServer } from '../database/init.js';
+import { parsePlayerList } from '../utils/rconParsers.js';
+import { RconQueue } from './rconQueue.js';
 
 // Handle the nested default export from rcon-srcds
 const Rcon = RconPackage.default || RconPackage;
 
 export class RconService extends EventEmitter {
-  constructor() {
+  constructor(serverId = null) {
     super();
+    this.serverId = serverId;  // ServerInstance id this service works for (null = the active server)
     // Increase max listeners to prevent warnings during rapid reconnection cycles
     this.setMaxListeners(20);
     
@@ -58,6 +61,9 @@ export class RconService extends EventEmitter {
     
     // Track pending clients to ensure cleanup (prevents memory leaks)
     this.pendingClients = new Set();
+
+    // Commands are sent one at a time, by priority and per-source rate limits
+    this.queue = new RconQueue((command, options) => this._send(command, options), serverId ? `server ${serverId}` : 'RCON');
   }
 
   // Set serverStarting flag with automatic timeout failsafe
@@ -202,17 +208,17 @@ export class RconService extends EventEmitter {
     this.stopHealthCheck();
   }
 
-  // Load RCON settings from active server first, then fallback to legacy settings
+  // Load RCON settings from the server instance first, then fallback to legacy settings
   async loadConfig() {
     if (this.configLoaded) return;
     try {
-      // First try to get from active server
-      const activeServer = await getActiveServer();
-      if (activeServer?.rconPassword) {
-        this.config.password = activeServer.rconPassword;
-        this.config.host = activeServer.rconHost || '127.0.0.1';
-        this.config.port = parseInt(activeServer.rconPort) || 27015;
-        log.info('config loaded from active server');
+      // First try to get from the server instance
+      const instance = await resolveServer(this.serverId);
+      if (instance?.rconPassword) {
+        this.config.password = instance.rconPassword;
+        this.config.host = instance.rconHost || '127.0.0.1';
+        this.config.port = parseInt(instance.rconPort) || 27015;
+        log.info(`config loaded from server ${instance.name}`);
         this.configLoaded = true;
         return;
       }
@@ -686,8 +692,21 @@ export class RconService extends EventEmitter {
     return false;
   }
 
-  // Execute a command with optional skipLog to avoid polluting command history with automatic commands
-  async execute(command, { skipLog = false } = {}) {
+  // Execute a command through the queue (see rconQueue.js). `source` is who is
+  // asking (ui, discord, scheduler, poller, system) and sets the rate limit;
+  // `priority` defaults from the command. skipLog avoids polluting command
+  // history with automatic commands.
+  async execute(command, { skipLog = false, source = 'ui', priority } = {}) {
+    return this.queue.enqueue(command, { skipLog, source, priority });
+  }
+
+  // Send a command over the connection now - only the queue calls this
+  async _send(command, { skipLog = false } = {}) {
+    // However it is sent, a quit is an intentional stop - not a crash
+    if (/^\s*quit\b/i.test(command)) {
+      this.serverManager?.expectStop('RCON quit');
+    }
+    
     try {
       // If server is starting, don't try to connect yet
       if (this.serverStarting) {
@@ -839,15 +858,21 @@ export class RconService extends EventEmitter {
   }
 
   // Server commands
-  async save({ skipLog = false } = {}) {
-    return this.execute('save', { skipLog });
+  async save(options = {}) {
+    // Shown as "saving" on the dashboard until the command returns
+    this.serverManager?.lifecycle.beginSave();
+    try {
+      return await this.execute('save', options);
+    } finally {
+      this.serverManager?.lifecycle.endSave();
+    }
   }
 
-  async quit({ skipLog = false } = {}) {
+  async quit(options = {}) {
     // The quit command will shutdown the server and close the connection
     // This may result in connection errors which are expected
     try {
-      const result = await this.execute('quit', { skipLog });
+      const result = await this.execute('quit', options);
       // Mark as disconnected since server is shutting down
       this.connected = false;
       this._cleanupClient();
@@ -868,13 +893,13 @@ export class RconService extends EventEmitter {
     }
   }
 
-  async serverMessage(message, { skipLog = false } = {}) {
-    return this.execute(`servermsg "${this.sanitize(message)}"`, { skipLog });
+  async serverMessage(message, options = {}) {
+    return this.execute(`servermsg "${this.sanitize(message)}"`, options);
   }
 
-  async getPlayers() {
+  async getPlayers(options = {}) {
     // Skip logging for automatic player polling to avoid cluttering command history
-    const result = await this.execute('players', { skipLog: true });
+    const result = await this.execute('players', { skipLog: true, source: 'poller', ...options });
     if (result.success) {
       return { 
         success: true, 
@@ -885,22 +910,8 @@ export class RconService extends EventEmitter {
   }
 
   parsePlayers(response) {
-    // Parse the players response
     // Format typically: "Players connected (X):\n-username\n-username2"
-    const players = [];
-    if (!response) return players;
-    
-    const lines = response.split('\n');
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.startsWith('-')) {
-        players.push({
-          name: trimmed.substring(1).trim(),
-          online: true
-        });
-      }
-    }
-    return players;
+    return parsePlayerList(response);
   }
 
   // Player commands
@@ -1018,12 +1029,12 @@ export class RconService extends EventEmitter {
     return this.execute('thunder');
   }
 
-  async createHorde(count, username = null) {
+  async createHorde(count, username = null, options = {}) {
     // count is validated as number in routes
     if (username) {
-      return this.execute(`createhorde ${count} "${this.sanitize(username)}"`);
+      return this.execute(`createhorde ${count} "${this.sanitize(username)}"`, options);
     }
-    return this.execute(`createhorde ${count}`);
+    return this.execute(`createhorde ${count}`, options);
   }
 
   // Admin modes
@@ -1160,6 +1171,7 @@ export class RconService extends EventEmitter {
     return {
       host: this.config.host,
       port: this.config.port,
+      hasPassword: !!this.config.password,
       connected: this.connected,
       lastSuccessfulCommand: this.lastSuccessfulCommand,
       reconnectAttempts: this.reconnectAttempts,
@@ -0,0 +1,356 @@
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('RconQueue');
+
+// ============================================
+// RCON Command Queue
+// ============================================
+//
+// Every command for a server goes through its RconService's queue and is
+// sent one at a time, so the scheduler, player polling, the Discord bot and
+// the UI no longer pile concurrent commands onto one RCON connection (the
+// cause of cascading timeouts during restarts).
+//
+//   Priority  critical (quit, save, restart warnings) > moderation (kick,
+//             ban, access, whitelist) > normal > polling. Highest first,
+//             then oldest first.
+//   Sources   ui, discord, scheduler, poller, system - each has its own
+//             rate limit (a sliding window) and cap on waiting commands.
+//             Critical commands are never held back by a rate limit.
+//   Retries   Idempotent commands that fail on the connection (timeout,
+//             reset, reconnect failure) are retried a bounded number of
+//             times, with a delay, without blocking other commands.
+//   Dead letters  Commands that still failed, or waited too long, are kept
+//             in a short list for the Debug page, where they can be retried
+//             (not those refused because the game server is down).
+//
+// Queued commands resolve with the same { success, response | error }
+// result as RconService.execute - the queue never throws.
+
+export const RCON_PRIORITIES = ['critical', 'moderation', 'normal', 'polling'];
+
+export const RCON_SOURCES = ['ui', 'discord', 'scheduler', 'poller', 'system'];
+
+// Commands allowed per source within the window
+const RATE_LIMITS = {
+  ui: { limit: 30, windowMs: 10000 },
+  discord: { limit: 10, windowMs: 10000 },
+  scheduler: { limit: 20, windowMs: 10000 },
+  poller: { limit: 6, windowMs: 10000 },
+  system: { limit: 20, windowMs: 10000 }
+};
+
+const MAX_PENDING_PER_SOURCE = 50;
+const MAX_DEAD_LETTERS = 100;
+
+// How long a command may wait for its turn before it is given up
+const MAX_WAIT_MS = 60000;
+const MAX_WAIT_POLLING_MS = 10000;
+
+// Delays before each retry of an idempotent command
+const RETRY_DELAYS_MS = [1000, 3000];
+
+const CRITICAL_COMMANDS = new Set(['quit', 'save']);
+
+const MODERATION_COMMANDS = new Set([
+  'kick', 'banuser', 'unbanuser', 'banid', 'unbanid', 'voiceban', 'setaccesslevel',
+  'adduser', 'addusertowhitelist', 'removeuserfromwhitelist', 'addalltowhitelist'
+]);
+
+// Sending these twice has the same effect as sending them once
+const IDEMPOTENT_COMMANDS = new Set([
+  'players', 'showoptions', 'save', 'checkmodsneedupdate', 'reloadoptions', 'changeoption',
+  'setaccesslevel', 'addusertowhitelist', 'removeuserfromwhitelist', 'addalltowhitelist',
+  'banuser', 'unbanuser', 'banid', 'unbanid', 'stoprain', 'stopweather', 'log', 'stats'
+]);
+
+// Idempotent only with an explicit -true/-false; without one they toggle
+const TOGGLE_COMMANDS = new Set(['godmod', 'invisible', 'noclip', 'voiceban']);
+
+// Failures of the connection rather than of the command
+const RETRYABLE_ERROR = /timed out|was reset|reconnect|not connected|cannot connect/i;
+
+// Refused because the game server is down - nothing to retry later
+const OFFLINE_ERROR = /server is not running|server is starting/i;
+
+function commandName(command) {
+  return String(command).trim().split(/\s+/)[0].toLowerCase();
+}
+
+/** Default priority of a command from a source */
+export function classifyPriority(command, source) {
+  const name = commandName(command);
+  if (CRITICAL_COMMANDS.has(name)) return 'critical';
+  if (MODERATION_COMMANDS.has(name)) return 'moderation';
+  if (source === 'poller') return 'polling';
+  return 'normal';
+}
+
+/** Whether a command can safely be sent again after a connection failure */
+export function isIdempotent(command) {
+  const name = commandName(command);
+  if (IDEMPOTENT_COMMANDS.has(name)) return true;
+  return TOGGLE_COMMANDS.has(name) && /\s-?(true|false)\b/i.test(command);
+}
+
+/** Hide passwords in commands shown on the Debug page */
+function maskCommand(command) {
+  return /^\s*adduser\b/i.test(command)
+    ? command.replace(/^(\s*adduser\s+("[^"]*"|\S+)\s+).*$/i, '$1********')
+    : command;
+}
+
+export class RconQueue {
+  /**
+   * @param {(command: string, options: { skipLog: boolean }) => Promise<object>} send
+   *   Sends one command over RCON and resolves with its result
+   */
+  constructor(send, label = 'RCON') {
+    this.send = send;
+    this.label = label;
+    this.pending = [];
+    this.running = null;
+    this.deadLetters = [];
+    this.nextId = 1;
+    this.timer = null;
+    this.sentAt = Object.fromEntries(RCON_SOURCES.map(source => [source, []]));
+    this.stats = {
+      enqueued: 0,
+      sent: 0,
+      succeeded: 0,
+      failed: 0,
+      retried: 0,
+      coalesced: 0,
+      rejected: 0,
+      expired: 0
+    };
+  }
+
+  /**
+   * Queue a command. Resolves with its RCON result once sent (after any
+   * retries), or with { success: false, error } if it is rejected or expires.
+   */
+  enqueue(command, { source = 'ui', priority, skipLog = false } = {}) {
+    if (!RCON_SOURCES.includes(source)) source = 'system';
+    if (!RCON_PRIORITIES.includes(priority)) priority = classifyPriority(command, source);
+
+    // A poll already waiting answers for this one too
+    if (priority === 'polling') {
+      const waiting = this.pending.find(job => job.priority === 'polling' && job.command === command && job.attempts === 0);
+      if (waiting) {
+        this.stats.coalesced++;
+        return waiting.promise;
+      }
+    }
+
+    if (this.pending.filter(job => job.source === source).length >= MAX_PENDING_PER_SOURCE) {
+      this.stats.rejected++;
+      log.warn(`${this.label}: queue full for ${source}, rejected: ${maskCommand(command)}`);
+      return Promise.resolve({ success: false, error: 'RCON queue is full, try again shortly' });
+    }
+
+    const job = {
+      id: this.nextId++,
+      command,
+      source,
+      priority,
+      skipLog,
+      retryable: isIdempotent(command),
+      attempts: 0,
+      enqueuedAt: Date.now(),
+      notBefore: 0,
+      lastError: null
+    };
+    job.promise = new Promise(resolve => { job.resolve = resolve; });
+    this.pending.push(job);
+    this.stats.enqueued++;
+    this._pump();
+    return job.promise;
+  }
+
+  /** Send queued commands one at a time until none can go yet */
+  async _pump() {
+    if (this.running) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this._expireWaiting();
+    const job = this._takeNext();
+    if (!job) {
+      this._scheduleWake();
+      return;
+    }
+
+    job.attempts++;
+    this.running = { ...job, startedAt: Date.now() };
+    this.sentAt[job.source].push(Date.now());
+    this.stats.sent++;
+
+    let result;
+    try {
+      result = await this.send(job.command, { skipLog: job.skipLog });
+    } catch (error) {
+      result = { success: false, error: error.message };
+    }
+    this.running = null;
+
+    if (result.success) {
+      this.stats.succeeded++;
+      job.resolve(result);
+    } else if (job.retryable && job.attempts <= RETRY_DELAYS_MS.length && RETRYABLE_ERROR.test(result.error || '')) {
+      this.stats.retried++;
+      job.lastError = result.error;
+      job.notBefore = Date.now() + RETRY_DELAYS_MS[job.attempts - 1];
+      this.pending.push(job);
+      log.debug(`${this.label}: retrying "${maskCommand(job.command)}" (attempt ${job.attempts + 1}): ${result.error}`);
+    } else {
+      this.stats.failed++;
+      this._deadLetter(job, result.error);
+      job.resolve(result);
+    }
+
+    setImmediate(() => this._pump());
+  }
+
+  /** Highest-priority, oldest command that may be sent now */
+  _takeNext() {
+    const now = Date.now();
+    let best = null;
+    for (const job of this.pending) {
+      if (job.notBefore > now) continue;
+      if (job.priority !== 'critical' && this._rateLimitedUntil(job.source) > now) continue;
+      if (!best || this._compare(job, best) < 0) best = job;
+    }
+    if (best) {
+      this.pending.splice(this.pending.indexOf(best), 1);
+    }
+    return best;
+  }
+
+  _compare(a, b) {
+    const byPriority = RCON_PRIORITIES.indexOf(a.priority) - RCON_PRIORITIES.indexOf(b.priority);
+    return byPriority !== 0 ? byPriority : a.enqueuedAt - b.enqueuedAt || a.id - b.id;
+  }
+
+  /** When the source may send again (0 = now) */
+  _rateLimitedUntil(source) {
+    const { limit, windowMs } = RATE_LIMITS[source];
+    const now = Date.now();
+    const recent = this.sentAt[source].filter(time => now - time < windowMs);
+    this.sentAt[source] = recent;
+    return recent.length < limit ? 0 : recent[0] + windowMs;
+  }
+
+  /** Give up commands that waited too long for their turn */
+  _expireWaiting() {
+    const now = Date.now();
+    this.pending = this.pending.filter(job => {
+      const maxWait = job.priority === 'polling' ? MAX_WAIT_POLLING_MS : MAX_WAIT_MS;
+      if (now - job.enqueuedAt <= maxWait) return true;
+      this.stats.expired++;
+      const error = job.lastError
+        ? `RCON command gave up after ${job.attempts} attempt(s): ${job.lastError}`
+        : 'RCON command timed out waiting in the queue';
+      this._deadLetter(job, error);
+      job.resolve({ success: false, error });
+      return false;
+    });
+  }
+
+  /** Wake up when the first held-back command may be sent */
+  _scheduleWake() {
+    if (this.pending.length === 0) return;
+    const now = Date.now();
+    const wakeAt = Math.min(...this.pending.map(job => {
+      const maxWait = job.priority === 'polling' ? MAX_WAIT_POLLING_MS : MAX_WAIT_MS;
+      const ready = Math.max(job.notBefore, job.priority === 'critical' ? 0 : this._rateLimitedUntil(job.source));
+      return Math.min(ready, job.enqueuedAt + maxWait + 1);
+    }));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this._pump();
+    }, Math.max(10, wakeAt - now));
+  }
+
+  _deadLetter(job, error) {
+    // Polls run again on their own a few seconds later
+    if (job.priority === 'polling' || OFFLINE_ERROR.test(error || '')) return;
+    this.deadLetters.unshift({
+      id: job.id,
+      command: job.command,
+      source: job.source,
+      priority: job.priority,
+      skipLog: job.skipLog,
+      attempts: job.attempts,
+      error: error || 'Unknown error',
+      enqueuedAt: new Date(job.enqueuedAt).toISOString(),
+      failedAt: new Date().toISOString()
+    });
+    this.deadLetters.length = Math.min(this.deadLetters.length, MAX_DEAD_LETTERS);
+    log.warn(`${this.label}: command failed after ${job.attempts} attempt(s): ${maskCommand(job.command)} (${error})`);
+  }
+
+  /** Send a dead-lettered command again; resolves with its new result */
+  retryDeadLetter(id) {
+    const index = this.deadLetters.findIndex(entry => entry.id === id);
+    if (index === -1) return null;
+    const [entry] = this.deadLetters.splice(index, 1);
+    return this.enqueue(entry.command, { source: entry.source, priority: entry.priority, skipLog: entry.skipLog });
+  }
+
+  clearDeadLetters() {
+    const count = this.deadLetters.length;
+    this.deadLetters = [];
+    return count;
+  }
+
+  /** Resolve every waiting command with an error (server removed) */
+  clear(reason = 'RCON queue cleared') {
+    const waiting = this.pending;
+    this.pending = [];
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const job of waiting) {
+      job.resolve({ success: false, error: reason });
+    }
+    return waiting.length;
+  }
+
+  /** Queue state for the Debug page's inspector */
+  getSnapshot() {
+    const now = Date.now();
+    const describe = job => ({
+      id: job.id,
+      command: maskCommand(job.command),
+      source: job.source,
+      priority: job.priority,
+      attempts: job.attempts,
+      retryable: job.retryable,
+      waitingMs: now - job.enqueuedAt,
+      retryAt: job.notBefore > now ? new Date(job.notBefore).toISOString() : null,
+      lastError: job.lastError
+    });
+
+    return {
+      running: this.running ? { ...describe(this.running), runningMs: now - this.running.startedAt } : null,
+      pending: [...this.pending].sort((a, b) => this._compare(a, b)).map(describe),
+      deadLetters: this.deadLetters.map(({ skipLog, ...entry }) => ({ ...entry, command: maskCommand(entry.command) })),
+      stats: { ...this.stats },
+      sources: RCON_SOURCES.map(source => {
+        const { limit, windowMs } = RATE_LIMITS[source];
+        const limitedUntil = this._rateLimitedUntil(source);
+        return {
+          source,
+          limit,
+          windowMs,
+          recent: this.sentAt[source].length,
+          pending: this.pending.filter(job => job.source === source).length,
+          limitedUntil: limitedUntil ? new Date(limitedUntil).toISOString() : null
+        };
+      })
+    };
+  }
+}
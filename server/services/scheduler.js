@@ -1,38 +1,142 @@
 import cron from 'node-cron';
+import { EventEmitter } from 'events';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('Scheduler');
 import { 
   getScheduledTasks, 
   updateTaskLastRun, 
+  setScheduledTaskEnabled,
   logServerEvent,
   logScheduleExecution,
   getSetting,
-  setSetting 
+  setSetting,
+  getRestartPolicy,
+  saveRestartPolicy,
+  getScheduleHistory,
+  getSchedulePostponements,
+  createSchedulePostponement,
+  deleteSchedulePostponement
 } from '../database/init.js';
+import { recordAudit } from '../utils/audit.js';
+import { isMacroInvocation, runMacroInvocation } from '../utils/consoleMacros.js';
+import { runPipeline, describePipelineStep } from '../utils/taskPipelines.js';
+import { evaluateConditions } from '../utils/taskConditions.js';
+import { formatRunAt } from '../utils/oneOffTasks.js';
+import { findMissedRuns, planCatchUp, describeMissedRuns, formatDue } from '../utils/missedRuns.js';
+import { nextCronRuns } from '../utils/cronSchedule.js';
+import {
+  findPostponement,
+  cronFiresAt,
+  forecastCronJob,
+  forecastOneOff,
+  flagOverlaps,
+  RESTART_DOWNTIME_MS,
+  DEFAULT_TASK_MS,
+  DEFAULT_BACKUP_MS
+} from '../utils/scheduleForecast.js';
+import {
+  defaultRestartPolicy,
+  buildCountdown,
+  warningLeadSeconds,
+  RESTART_CANCELLED_MESSAGE
+} from '../utils/restartPolicy.js';
 
-export class Scheduler {
-  constructor(rconService, serverManager) {
+// How often a delayed task checks its conditions again
+const CONDITION_RECHECK_MS = 60000;
+
+// Restart warnings go out ahead of other queued RCON commands (see rconQueue.js)
+const RESTART_WARNING = { skipLog: true, source: 'scheduler', priority: 'critical' };
+
+// setTimeout cannot wait longer than ~24 days; far-off restarts are re-planned daily
+const MAX_TIMER_MS = 24 * 3600 * 1000;
+
+// How much later a single run can be postponed
+const MAX_POSTPONE_MS = 7 * 24 * 3600 * 1000;
+
+// How long late runs (catch-ups, one-offs in their grace window) wait for the game server after a panel start
+const CATCH_UP_WAIT_MS = 10 * 60 * 1000;
+
+// Schedule history searched for a task's last run when looking for missed runs
+const MISSED_RUN_HISTORY = 1000;
+
+// Restart tasks, or pipelines with a restart step
+function taskRestartsServer(task) {
+  return task.steps?.length
+    ? task.steps.some(step => step.type === 'restart')
+    : task.command.toLowerCase() === 'restart';
+}
+
+/**
+ * Runs scheduled tasks, backups and restarts for one server. Emits
+ * `restartCountdown` with { restartAt, secondsLeft, message, reason } while
+ * players are being warned of a restart, and null once it is over.
+ */
+export class Scheduler extends EventEmitter {
+  constructor(rconService, serverManager, serverId = null) {
+    super();
+    this.serverId = serverId;  // ServerInstance id this service works for (null = the active server)
     this.rconService = rconService;
     this.serverManager = serverManager;
     this.backupService = null;
+    this.panelBridge = null;
+    this.discordBot = null;
+    this.modChecker = null;
     this.jobs = new Map();
-    this.autoRestartJob = null;
+    this.restartPolicy = defaultRestartPolicy();
+    this.autoRestartTimer = null;
+    this.nextAutoRestart = null;  // { at, label } of the next restart window
+    this.restartCountdown = null;
     this.backupJob = null;
+    this.backupSettings = null;  // Settings the backup job was scheduled with
+    this.postponements = [];  // One-off moves of single runs (see utils/scheduleForecast.js)
+    this.postponedTimers = new Map();  // postponement id -> timer running the moved run
+    this.missedRuns = [];  // Runs missed while the panel was down, shown on the dashboard until dismissed
     this.modUpdateRestartPending = false;
     this.restartInProgress = false;
     this.runningTasks = new Set(); // Track tasks currently executing to prevent duplicates
-    this.warningJobs = []; // Initialize to prevent undefined iteration
   }
 
   setBackupService(backupService) {
     this.backupService = backupService;
   }
 
+  // Macro tasks (`!name args`) can run PanelBridge steps
+  setPanelBridge(panelBridge) {
+    this.panelBridge = panelBridge;
+  }
+
+  // Pipeline tasks can post to Discord
+  setDiscordBot(discordBot) {
+    this.discordBot = discordBot;
+  }
+
+  // Task conditions check player counts and pending mod updates
+  setModChecker(modChecker) {
+    this.modChecker = modChecker;
+  }
+
+  /** Record a run in the schedule history and the panel audit log */
+  async logExecution(taskId, taskName, command, success, message = null, duration = null, outcome = null) {
+    await logScheduleExecution(taskId, taskName, command, success, message, duration, outcome);
+    await recordAudit({
+      actor: 'scheduler',
+      source: 'scheduler',
+      action: taskId !== null ? (outcome === 'skipped' ? 'skip task' : 'run task') : `run ${command}`,
+      target: taskName,
+      params: taskId !== null ? { command, duration, ...(outcome ? { outcome } : {}) } : { duration },
+      success,
+      error: success ? null : message
+    });
+  }
+
   async init() {
+    // Postponed runs first - they decide which runs of a task were missed
+    const overduePostponements = await this.loadPostponements();
     // Load saved scheduled tasks
-    await this.loadScheduledTasks();
+    await this.loadScheduledTasks(overduePostponements);
     
     // Setup auto-restart if enabled
+    await this.loadRestartPolicy();
     this.setupAutoRestart();
     
     // Setup backup schedule if enabled
@@ -41,32 +145,47 @@ export class Scheduler {
     log.info('Scheduler initialized');
   }
 
-  async loadScheduledTasks() {
+  /**
+   * Schedule the saved tasks and deal with runs missed while the panel was
+   * down. `overduePostponements` are postponed runs whose new time passed
+   * in the meantime (see loadPostponements).
+   */
+  async loadScheduledTasks(overduePostponements = []) {
     try {
-      const tasks = await getScheduledTasks();
+      const tasks = await getScheduledTasks(this.serverId);
       
       if (!tasks || !Array.isArray(tasks)) {
         log.info('No scheduled tasks found');
         return;
       }
       
+      const history = await getScheduleHistory(MISSED_RUN_HISTORY);
+      const catchUps = [];
       for (const task of tasks) {
-        if (task.enabled) {
+        if (task.enabled && task.run_at && new Date(task.run_at).getTime() <= Date.now()) {
+          await this.handleMissedOneOff(task);
+        } else if (task.enabled) {
           const scheduled = this.scheduleTask(task);
           if (!scheduled) {
               log.warn(`Failed to schedule task ${task.id} (${task.name}) - see previous errors`);
+          } else if (!task.run_at) {
+            const notes = await this.handleMissedRuns(task, history, [...this.postponements, ...overduePostponements]);
+            if (notes.length > 0) catchUps.push({ task, notes });
           }
         }
       }
       
       log.info(`Loaded ${tasks.length} scheduled tasks`);
+      if (catchUps.length > 0) {
+        this.runCatchUps(catchUps).catch(error => log.error(`Catching up missed runs failed: ${error.message}`));
+      }
     } catch (error) {
       log.error(`Failed to load scheduled tasks: ${error.message}`);
     }
   }
 
   scheduleTask(task) {
-    if (!cron.validate(task.cron_expression)) {
+    if (!task.run_at && !cron.validate(task.cron_expression)) {
       log.error(`Invalid cron expression for task ${task.id} (${task.name}): ${task.cron_expression}`);
       return false;
     }
@@ -76,38 +195,250 @@ export class Scheduler {
       this.jobs.get(task.id).stop();
     }
 
-    const job = cron.schedule(task.cron_expression, async () => {
-      // Prevent duplicate execution of same task
-      if (this.runningTasks.has(task.id)) {
-        log.debug(`Skipping duplicate execution of task ${task.name} (already running)`);
-        return;
-      }
-      
-      this.runningTasks.add(task.id);
-      log.info(`Executing scheduled task: ${task.name}`);
-      const startTime = Date.now();
-      try {
-        await this.executeTask(task);
-        const duration = Date.now() - startTime;
-        await updateTaskLastRun(task.id);
-        await logScheduleExecution(task.id, task.name, task.command, true, 'Completed successfully', duration);
-        await logServerEvent('scheduled_task', `Executed: ${task.name}`);
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        log.error(`Scheduled task failed ${task.name}: ${error.message}`);
-        await logScheduleExecution(task.id, task.name, task.command, false, error.message, duration);
-        await logServerEvent('scheduled_task_error', `${task.name}: ${error.message}`);
-      } finally {
-        this.runningTasks.delete(task.id);
-      }
-    });
+    if (task.run_at) {
+      this.jobs.set(task.id, this.scheduleOneOff(task));
+      log.info(`Scheduled one-off task: ${task.name} (${formatRunAt(task)})`);
+      return true;
+    }
+
+    const job = cron.schedule(task.cron_expression, () => this.runScheduled(`task:${task.id}`, () => this.runTask(task)));
 
     this.jobs.set(task.id, job);
     log.info(`Scheduled task: ${task.name} (${task.cron_expression})`);
     return true;
   }
 
+  // A timer with the stop() of a cron job, so `jobs` holds both kinds
+  scheduleOneOff(task) {
+    const job = { timer: null, stop() { clearTimeout(this.timer); } };
+    const plan = () => {
+      const delay = Math.max(0, new Date(task.run_at).getTime() - Date.now());
+      job.timer = setTimeout(() => {
+        if (delay > MAX_TIMER_MS) {
+          plan();
+          return;
+        }
+        this.runOneOff(task, job).catch(error => log.error(`One-off task ${task.name} failed: ${error.message}`));
+      }, Math.min(delay, MAX_TIMER_MS));
+    };
+    plan();
+    return job;
+  }
+
+  /**
+   * Run a one-off task and disable it. A late run first waits for the game
+   * server to be ready. The task is disabled right before it runs, so a
+   * panel that goes down mid-run does not run it again.
+   */
+  async runOneOff(task, job, late = null) {
+    try {
+      if (late) await this.waitForServerReady(task, Date.now() + CATCH_UP_WAIT_MS);
+      // Edited, disabled or deleted while waiting
+      if (this.jobs.get(task.id) !== job) return;
+      await setScheduledTaskEnabled(task.id, false);
+      await this.runTask(task, { late });
+    } finally {
+      if (this.jobs.get(task.id) === job) this.jobs.delete(task.id);
+    }
+  }
+
+  // A one-off task whose time passed while the panel was not running
+  async handleMissedOneOff(task) {
+    const lateMinutes = Math.floor((Date.now() - new Date(task.run_at).getTime()) / 60000);
+    const grace = task.missed_grace_minutes ?? 0;
+    const inGrace = lateMinutes <= grace;
+    this.noteMissedRuns(task, [new Date(task.run_at)], inGrace ? 'once' : 'skip', inGrace ? 1 : 0);
+    if (inGrace) {
+      log.info(`Running one-off task ${task.name} ${lateMinutes} min late - the panel was not running at ${formatRunAt(task)}`);
+      const job = { stop() {} };
+      this.jobs.set(task.id, job);
+      this.runOneOff(task, job, `Ran ${lateMinutes} min late - the panel was not running at ${formatRunAt(task)}`)
+        .catch(error => log.error(`One-off task ${task.name} failed: ${error.message}`));
+      return;
+    }
+
+    log.warn(`Missed one-off task ${task.name}: due ${formatRunAt(task)}, ${lateMinutes} min ago`);
+    await setScheduledTaskEnabled(task.id, false);
+    await this.logExecution(task.id, task.name, task.command, false,
+      `Missed - the panel was not running at ${formatRunAt(task)} and the ${grace} min grace window has passed`, null, 'missed');
+  }
+
+  /**
+   * Look for runs of a cron task that were due while the panel was down
+   * and record what its catch-up policy does with them (see
+   * utils/missedRuns.js). Resolves with a note for each run to make up.
+   */
+  async handleMissedRuns(task, history, postponements) {
+    const missed = findMissedRuns(task, history, postponements);
+    if (missed.length === 0) return [];
+    const { policy, run, skipped } = planCatchUp(task, missed);
+    log.warn(`Task ${task.name} missed ${describeMissedRuns(missed)} while the panel was not running - catch-up: ${policy}`);
+    this.noteMissedRuns(task, missed, policy, run.length);
+
+    if (skipped.length > 0) {
+      const reason = policy === 'skip'
+        ? 'catch-up is off for this task'
+        : `only the last ${run.length} are made up`;
+      await this.logExecution(task.id, task.name, task.command, false,
+        `Missed ${describeMissedRuns(skipped)} - the panel was not running; ${reason}`, null, 'missed');
+    }
+    if (policy === 'once') {
+      return [`Catch-up for ${describeMissedRuns(missed)} - the panel was not running`];
+    }
+    return run.map(at => `Catch-up for the run due ${formatDue(at)} - the panel was not running`);
+  }
+
+  noteMissedRuns(task, missed, policy, caughtUp) {
+    this.missedRuns.push({
+      taskId: task.id,
+      taskName: task.name,
+      missed: missed.length,
+      firstDueAt: missed[0].toISOString(),
+      lastDueAt: missed[missed.length - 1].toISOString(),
+      policy,
+      caughtUp
+    });
+  }
+
+  /**
+   * Make up missed runs one after another, once the game server is ready -
+   * it is often still starting when the panel comes back up
+   */
+  async runCatchUps(catchUps) {
+    const deadline = Date.now() + CATCH_UP_WAIT_MS;
+    for (const { task, notes } of catchUps) {
+      for (const note of notes) {
+        await this.waitForServerReady(task, deadline);
+        // Deleted or disabled in the meantime
+        if (!this.jobs.has(task.id)) break;
+        await this.runTask(task, { late: note });
+      }
+    }
+  }
+
+  /**
+   * Wait until the game server is ready or `deadline` has passed. Runs
+   * after a panel start need this - the server is detected or started
+   * after the scheduler is set up.
+   */
+  async waitForServerReady(task, deadline) {
+    while (!taskRestartsServer(task) && !this.serverManager.lifecycle.isReady() && Date.now() < deadline) {
+      await this.sleep(CONDITION_RECHECK_MS);
+    }
+  }
+
+  /** Hide the missed-run warning on the dashboard */
+  dismissMissedRuns() {
+    this.missedRuns = [];
+  }
+
+  /**
+   * Run a task now and record the run in the history. Resolves false when
+   * the task was already running.
+   * @param {object} task
+   * @param {object} [options]
+   * @param {boolean} [options.ignoreConditions] - run without checking the task's conditions
+   * @param {string} [options.late] - why the run is late, recorded with it as outcome 'late'
+   */
+  async runTask(task, { ignoreConditions = false, late = null } = {}) {
+    // Prevent duplicate execution of same task
+    if (this.runningTasks.has(task.id)) {
+      log.debug(`Skipping duplicate execution of task ${task.name} (already running)`);
+      return false;
+    }
+    
+    this.runningTasks.add(task.id);
+    const startTime = Date.now();
+    let gate = { run: true, outcome: null, note: null };
+    try {
+      if (task.conditions && !ignoreConditions) {
+        gate = await this.waitForConditions(task);
+        if (!gate.run) {
+          log.info(`Skipped scheduled task ${task.name}: ${gate.note}`);
+          await this.logExecution(task.id, task.name, task.command, true, `Skipped - ${gate.note}`, Date.now() - startTime, 'skipped');
+          return true;
+        }
+      }
+      if (late) {
+        gate = { ...gate, outcome: gate.outcome ?? 'late', note: gate.note ? `${late} - ${gate.note}` : late };
+      }
+
+      log.info(`Executing scheduled task: ${task.name}`);
+      const message = await this.executeTask(task);
+      const duration = Date.now() - startTime;
+      const summary = message || 'Completed successfully';
+      await updateTaskLastRun(task.id);
+      await this.logExecution(task.id, task.name, task.command, true, gate.note ? `${gate.note} - ${summary}` : summary, duration, gate.outcome);
+      await logServerEvent('scheduled_task', `Executed: ${task.name}`);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      log.error(`Scheduled task failed ${task.name}: ${error.message}`);
+      await this.logExecution(task.id, task.name, task.command, false, gate.note ? `${gate.note} - ${error.message}` : error.message, duration, gate.outcome);
+      await logServerEvent('scheduled_task_error', `${task.name}: ${error.message}`);
+    } finally {
+      this.runningTasks.delete(task.id);
+    }
+    return true;
+  }
+
+  /**
+   * Check a task's conditions, waiting for them when the task allows a
+   * delay. Resolves with whether to run, the history outcome and a note
+   * on why it was held back.
+   */
+  async waitForConditions(task) {
+    const { onUnmet = 'skip', maxDelayMinutes = 0 } = task.conditions;
+    const services = { serverManager: this.serverManager, modChecker: this.modChecker, panelBridge: this.panelBridge };
+    const deadline = Date.now() + maxDelayMinutes * 60000;
+    const startTime = Date.now();
+    let result = await evaluateConditions(task.conditions, services);
+    const delayed = !result.met;
+
+    if (!result.met && onUnmet !== 'skip') {
+      log.info(`Delaying scheduled task ${task.name} up to ${maxDelayMinutes} min: ${result.unmet.join(', ')}`);
+      while (!result.met && Date.now() < deadline) {
+        await this.sleep(Math.min(CONDITION_RECHECK_MS, deadline - Date.now()));
+        // Disabled or deleted while it waited
+        if (!this.jobs.has(task.id)) {
+          return { run: false, outcome: 'skipped', note: 'task was disabled while it waited' };
+        }
+        result = await evaluateConditions(task.conditions, services);
+      }
+    }
+
+    if (result.met) {
+      const waited = Math.round((Date.now() - startTime) / 60000);
+      return delayed
+        ? { run: true, outcome: 'delayed', note: `Delayed ${waited} min until conditions were met` }
+        : { run: true, outcome: null, note: null };
+    }
+    if (onUnmet === 'delayThenRun') {
+      return { run: true, outcome: 'forced', note: `Ran after waiting ${maxDelayMinutes} min - still ${result.unmet.join(', ')}` };
+    }
+    const waitedNote = onUnmet === 'delay' ? ` after waiting ${maxDelayMinutes} min` : '';
+    return { run: false, outcome: 'skipped', note: `conditions not met${waitedNote}: ${result.unmet.join(', ')}` };
+  }
+
+  /**
+   * Throw when the server is in no state to run a task: restarts wait out
+   * a start or stop already underway, everything else needs a loaded world.
+   */
+  assertCanRunTask(task) {
+    const lifecycle = this.serverManager.lifecycle;
+    // A pipeline that restarts the server may also start it
+    if (taskRestartsServer(task)) {
+      if (lifecycle.is('starting', 'loading', 'stopping')) {
+        throw new Error(`Skipped - server is ${lifecycle.state}`);
+      }
+    } else if (!lifecycle.isReady()) {
+      throw new Error(`Skipped - server is ${lifecycle.state}, not ready`);
+    }
+  }
+
+  /** Run a task's command or steps. Resolves with a summary for the history, or throws */
   async executeTask(task) {
+    this.assertCanRunTask(task);
+    if (task.steps?.length) return this.executePipeline(task);
     const commandLower = task.command.toLowerCase();
     
     // Handle special commands - skip logging for automated scheduled tasks
@@ -118,17 +449,46 @@ export class Scheduler {
         throw new Error('Restart skipped - already in progress');
       }
     } else if (commandLower === 'save') {
-      await this.rconService.save({ skipLog: true });
+      await this.rconService.save({ skipLog: true, source: 'scheduler' });
+    } else if (isMacroInvocation(task.command)) {
+      const result = await runMacroInvocation(task.command, {
+        rconService: this.rconService,
+        panelBridge: this.panelBridge,
+        source: 'scheduler',
+        skipLog: true
+      });
+      if (!result.success) throw new Error(result.error);
     } else if (commandLower.startsWith('servermsg ')) {
       // Preserve original casing for the message text
       const message = task.command.substring(10);
-      await this.rconService.serverMessage(message, { skipLog: true });
+      await this.rconService.serverMessage(message, { skipLog: true, source: 'scheduler' });
     } else {
       // Execute as raw RCON command - skip logging for scheduled tasks
-      await this.rconService.execute(task.command, { skipLog: true });
+      await this.rconService.execute(task.command, { skipLog: true, source: 'scheduler' });
     }
   }
 
+  /** Run a pipeline task's steps, recording each step in the history */
+  async executePipeline(task) {
+    const total = task.steps.length;
+    const result = await runPipeline(task.steps, {
+      rconService: this.rconService,
+      panelBridge: this.panelBridge,
+      backupService: this.backupService,
+      discordBot: this.discordBot,
+      restart: (warningMinutes) => this.performRestart(warningMinutes),
+      onStep: async ({ index, step, success, message, attempts, duration }) => {
+        const retried = attempts > 1 ? ` (attempt ${attempts})` : '';
+        await logScheduleExecution(task.id, `${task.name} - step ${index + 1}/${total}`, describePipelineStep(step), success, `${message}${retried}`, duration);
+        if (!success) log.warn(`Task ${task.name}: step ${index + 1} failed: ${message}`);
+      }
+    });
+    if (!result.success) throw new Error(result.error);
+    return result.failed > 0
+      ? `Completed - ${result.failed} of ${total} steps failed and were skipped`
+      : `Completed all ${total} steps`;
+  }
+
   cancelTask(taskId) {
     if (this.jobs.has(taskId)) {
       this.jobs.get(taskId).stop();
@@ -162,24 +522,21 @@ export class Scheduler {
     }
     this.jobs.clear();
     
-    // Stop auto-restart job
-    if (this.autoRestartJob) {
-      this.autoRestartJob.stop();
-      this.autoRestartJob = null;
-    }
-    
-    // Stop warning jobs
-    if (this.warningJobs) {
-      for (const job of this.warningJobs) {
-        job.stop();
-      }
-      this.warningJobs = [];
+    // Stop auto-restart timer
+    if (this.autoRestartTimer) {
+      clearTimeout(this.autoRestartTimer);
+      this.autoRestartTimer = null;
     }
+    this.nextAutoRestart = null;
+
+    for (const timer of this.postponedTimers.values()) clearTimeout(timer);
+    this.postponedTimers.clear();
     
     // Stop backup job
     if (this.backupJob) {
       this.backupJob.stop();
       this.backupJob = null;
+      this.backupSettings = null;
     }
     
     log.info('All scheduled jobs stopped');
@@ -190,6 +547,7 @@ export class Scheduler {
     if (this.backupJob) {
       this.backupJob.stop();
       this.backupJob = null;
+      this.backupSettings = null;
     }
 
     if (!this.backupService) {
@@ -210,25 +568,8 @@ export class Scheduler {
         return;
       }
 
-      this.backupJob = cron.schedule(settings.schedule, async () => {
-        log.info('Executing scheduled backup');
-        const startTime = Date.now();
-        try {
-          const result = await this.backupService.createBackup({ includeDb: settings.includeDb });
-          const duration = Date.now() - startTime;
-          if (result.success) {
-            await logScheduleExecution(null, 'Scheduled Backup', 'backup', true, `Created: ${result.backup.name}`, duration);
-            log.info(`Scheduled backup completed: ${result.backup.name}`);
-          } else {
-            await logScheduleExecution(null, 'Scheduled Backup', 'backup', false, result.message, duration);
-            log.error(`Scheduled backup failed: ${result.message}`);
-          }
-        } catch (error) {
-          const duration = Date.now() - startTime;
-          await logScheduleExecution(null, 'Scheduled Backup', 'backup', false, error.message, duration);
-          log.error(`Scheduled backup error: ${error.message}`);
-        }
-      });
+      this.backupJob = cron.schedule(settings.schedule, () => this.runScheduled('backup', () => this.runScheduledBackup(settings.includeDb)));
+      this.backupSettings = settings;
 
       log.info(`Backup schedule configured: ${settings.schedule}`);
     } catch (error) {
@@ -236,56 +577,155 @@ export class Scheduler {
     }
   }
 
+  async runScheduledBackup(includeDb) {
+    log.info('Executing scheduled backup');
+    const startTime = Date.now();
+    try {
+      const result = await this.backupService.createBackup({ includeDb });
+      const duration = Date.now() - startTime;
+      if (result.success) {
+        await this.logExecution(null, 'Scheduled Backup', 'backup', true, `Created: ${result.backup.name}`, duration);
+        log.info(`Scheduled backup completed: ${result.backup.name}`);
+      } else {
+        await this.logExecution(null, 'Scheduled Backup', 'backup', false, result.message, duration);
+        log.error(`Scheduled backup failed: ${result.message}`);
+      }
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      await this.logExecution(null, 'Scheduled Backup', 'backup', false, error.message, duration);
+      log.error(`Scheduled backup error: ${error.message}`);
+    }
+  }
+
+  async loadRestartPolicy() {
+    try {
+      const saved = await getRestartPolicy(this.serverId);
+      if (saved) {
+        const { server_id, updated_at, ...policy } = saved;
+        this.restartPolicy = policy;
+      }
+    } catch (error) {
+      log.error(`Failed to load restart policy: ${error.message}`);
+    }
+  }
+
+  /** Save a new restart policy (see utils/restartPolicy.js) and re-plan the next restart */
+  async updateRestartPolicy(policy) {
+    await saveRestartPolicy(this.serverId, policy);
+    this.restartPolicy = policy;
+    this.setupAutoRestart();
+    return this.restartPolicy;
+  }
+
+  /**
+   * Plan the next restart window. Its countdown starts early enough for
+   * every warning to go out, so the server restarts at the window's time.
+   */
   setupAutoRestart() {
-    const enabled = process.env.AUTO_RESTART_ENABLED === 'true';
-    const cronExpression = process.env.AUTO_RESTART_CRON || '0 */6 * * *';
-    const warningMinutes = parseInt(process.env.RESTART_WARNING_MINUTES, 10) || 5;
+    if (this.autoRestartTimer) {
+      clearTimeout(this.autoRestartTimer);
+      this.autoRestartTimer = null;
+    }
+    this.nextAutoRestart = null;
 
-    if (!enabled) {
+    const policy = this.restartPolicy;
+    const windows = policy.windows.filter(window => window.enabled && cron.validate(window.cron));
+    if (!policy.enabled || windows.length === 0) {
       log.info('Auto-restart is disabled');
       return;
     }
 
-    if (!cron.validate(cronExpression)) {
-      log.error(`Invalid auto-restart cron expression: ${cronExpression}`);
+    const now = new Date();
+    let next = null;
+    let postponement = null;
+    const consider = (at, label, moved = null) => {
+      if (at > now && (!next || at < next.at)) {
+        next = { at, label };
+        postponement = moved;
+      }
+    };
+    for (const window of windows) {
+      // The window's next run that has not been moved
+      const at = nextCronRuns(window.cron, now, 10).find(run => !findPostponement(this.postponements, 'restart', run));
+      if (at) consider(at, window.label || window.cron);
+    }
+    for (const moved of this.postponements.filter(p => p.job_key === 'restart')) {
+      const window = windows.find(w => cronFiresAt([w.cron], moved.original_at));
+      if (window) consider(new Date(moved.postponed_to), `${window.label || window.cron} (postponed)`, moved);
+    }
+    if (!next) {
+      log.warn('Auto-restart windows never come round');
       return;
     }
 
-    // Stop existing auto-restart job if any to prevent leaks
-    if (this.autoRestartJob) {
-      this.autoRestartJob.stop();
-      this.autoRestartJob = null;
-    }
+    this.nextAutoRestart = next;
+    const countdownStart = next.at.getTime() - warningLeadSeconds(policy) * 1000;
+    const delay = Math.max(0, countdownStart - Date.now());
+    this.autoRestartTimer = setTimeout(async () => {
+      this.autoRestartTimer = null;
+      if (delay > MAX_TIMER_MS) {
+        this.setupAutoRestart();
+        return;
+      }
+      log.info(`Executing scheduled auto-restart: ${next.label}`);
+      if (postponement) await this.dropPostponement(postponement.id);
+      const warningSeconds = Math.max(0, Math.round((next.at.getTime() - Date.now()) / 1000));
+      try {
+        await this.performRestart(null, { warningSeconds, reason: next.label });
+      } catch (error) {
+        log.error(`Auto-restart failed: ${error.message}`);
+      } finally {
+        this.setupAutoRestart();
+      }
+    }, Math.min(delay, MAX_TIMER_MS));
 
-    // Schedule warnings before restart
-    this.scheduleRestartWarnings(cronExpression, warningMinutes);
+    log.info(`Next auto-restart: ${next.at.toLocaleString()} (${next.label})`);
+  }
 
-    // Schedule the actual restart
-    this.autoRestartJob = cron.schedule(cronExpression, async () => {
-      log.info('Executing scheduled auto-restart');
-      await this.performRestart();
-    });
+  // Warnings go out over RCON and/or as a PanelBridge server chat alert
+  async sendRestartWarning(message) {
+    const { delivery } = this.restartPolicy;
+    if (delivery.rcon) {
+      const result = await this.rconService.serverMessage(message, RESTART_WARNING);
+      if (!result.success) {
+        log.warn(`Auto-restart: Warning message failed: ${result.error}`);
+      }
+    }
+    if (delivery.bridge) {
+      if (!this.panelBridge?.isRunning) {
+        log.warn('Auto-restart: PanelBridge is not running - alert not sent');
+        return;
+      }
+      try {
+        await this.panelBridge.sendCommand('sendToServerChat', { message, alert: true });
+      } catch (error) {
+        log.warn(`Auto-restart: PanelBridge alert failed: ${error.message}`);
+      }
+    }
+  }
 
-    log.info(`Auto-restart scheduled: ${cronExpression}`);
+  setRestartCountdown(countdown) {
+    this.restartCountdown = countdown;
+    this.emit('restartCountdown', countdown);
   }
 
-  scheduleRestartWarnings(restartCron, warningMinutes) {
-    // Stop existing warning jobs to prevent leaks
-    if (this.warningJobs) {
-      for (const job of this.warningJobs) {
-        job.stop();
-      }
+  /** Wait until `time`, resolving false as soon as the restart is cancelled */
+  async waitForRestartTime(time) {
+    while (Date.now() < time) {
+      if (this.restartCancelled) return false;
+      await this.sleep(Math.min(1000, time - Date.now()));
     }
-    this.warningJobs = [];
-    
-    // Note: The actual warnings are handled in performRestart() with a countdown
-    // This method is a placeholder for more sophisticated warning scheduling
-    // For now, we don't need separate cron jobs for warnings since performRestart
-    // handles the countdown internally
-    log.debug(`Restart warnings configured for ${warningMinutes} minutes before restart`);
+    return !this.restartCancelled;
   }
 
-  async performRestart(warningMinutesParam = null) {
+  /**
+   * Warn players, save, stop and start the server again.
+   * @param {number|null} [warningMinutesParam] - countdown length; null uses the restart policy's first warning
+   * @param {object} [options]
+   * @param {number} [options.warningSeconds] - countdown length in seconds, instead of minutes
+   * @param {string} [options.reason] - shown with the dashboard countdown
+   */
+  async performRestart(warningMinutesParam = null, { warningSeconds = null, reason = null } = {}) {
     // Prevent concurrent restarts
     if (this.restartInProgress) {
       log.info('Restart already in progress, ignoring duplicate request');
@@ -294,7 +734,8 @@ export class Scheduler {
     
     this.restartInProgress = true;
     this.restartCancelled = false; // Allow cancellation
-    const warningMinutes = warningMinutesParam ?? (parseInt(process.env.RESTART_WARNING_MINUTES, 10) || 5);
+    const countdownSeconds = warningSeconds
+      ?? (warningMinutesParam !== null ? warningMinutesParam * 60 : warningLeadSeconds(this.restartPolicy));
     const restartStartTime = Date.now();
     
     try {
@@ -312,7 +753,7 @@ export class Scheduler {
       // Also try a quick RCON command if we think server might be running
       if (!wasRunning) {
         try {
-          const testResult = await this.rconService.execute('players', { skipLog: true });
+          const testResult = await this.rconService.execute('players', { skipLog: true, source: 'scheduler' });
           if (testResult.success) {
             log.info('Auto-restart: RCON command succeeded - server IS running');
             wasRunning = true;
@@ -334,11 +775,11 @@ export class Scheduler {
         
         const restartDuration = Date.now() - restartStartTime;
         if (isNowRunning) {
-          await logScheduleExecution(null, 'Auto Restart', 'restart', true, 'Server was offline - started successfully', restartDuration);
+          await this.logExecution(null, 'Auto Restart', 'restart', true, 'Server was offline - started successfully', restartDuration);
           logServerEvent('auto_restart', 'Server was offline - started successfully');
           log.info('Server started successfully (was not running)');
         } else {
-          await logScheduleExecution(null, 'Auto Restart', 'restart', false, 'Server was offline - failed to start', restartDuration);
+          await this.logExecution(null, 'Auto Restart', 'restart', false, 'Server was offline - failed to start', restartDuration);
           logServerEvent('auto_restart_error', 'Server was offline - failed to start');
           log.error('Failed to start server');
         }
@@ -357,58 +798,41 @@ export class Scheduler {
       }
       
       // Test RCON with a simple command before proceeding
-      const testResult = await this.rconService.execute('players', { skipLog: true });
+      const testResult = await this.rconService.execute('players', { skipLog: true, source: 'scheduler' });
       if (!testResult.success) {
         const restartDuration = Date.now() - restartStartTime;
         const errorMsg = `RCON not available: ${testResult.error || 'connection failed'}`;
         log.error(`Auto-restart failed: ${errorMsg}`);
-        await logScheduleExecution(null, 'Auto Restart', 'restart', false, errorMsg, restartDuration);
+        await this.logExecution(null, 'Auto Restart', 'restart', false, errorMsg, restartDuration);
         logServerEvent('auto_restart_error', errorMsg);
         return { success: false, message: errorMsg };
       }
       
       log.info('Auto-restart: RCON verified, sending warnings...');
       
-      if (warningMinutes > 0) {
-        // Send countdown warnings - skip logging for automated restart messages
-        for (let i = warningMinutes; i > 0; i--) {
-          if (this.restartCancelled) {
-            log.info('Auto-restart: Cancelled during countdown');
-            await this.rconService.serverMessage('ℹ️ Server restart has been cancelled.', { skipLog: true });
-            return { success: false, message: 'Restart cancelled' };
-          }
-          const msgResult = await this.rconService.serverMessage(`⚠️ Server restarting in ${i} minute(s)!`, { skipLog: true });
-          if (!msgResult.success) {
-            log.warn(`Auto-restart: Warning message failed: ${msgResult.error}`);
-          }
-          
-          if (i > 1) {
-            await this.sleep(60000); // Wait 1 minute
-          }
-        }
-
-        if (this.restartCancelled) {
-          log.info('Auto-restart: Cancelled during countdown');
-          await this.rconService.serverMessage('ℹ️ Server restart has been cancelled.', { skipLog: true });
-          return { success: false, message: 'Restart cancelled' };
-        }
-
-        // 30 second warning
-        await this.rconService.serverMessage('⚠️ Server restarting in 30 seconds!', { skipLog: true });
-        await this.sleep(25000);
-
-        // Final warning
-        await this.rconService.serverMessage('🔄 Server restarting NOW! Please reconnect in a few minutes.', { skipLog: true });
-        await this.sleep(5000);
-      } else {
-        // Immediate restart - just a brief message
-        await this.rconService.serverMessage('🔄 Server restarting NOW!', { skipLog: true });
-        await this.sleep(2000);
+      // Send countdown warnings - skip logging for automated restart messages
+      const restartAt = Date.now() + countdownSeconds * 1000;
+      for (const warning of buildCountdown(this.restartPolicy, countdownSeconds)) {
+        if (!await this.waitForRestartTime(restartAt - warning.offsetSeconds * 1000)) break;
+        this.setRestartCountdown({
+          restartAt: new Date(restartAt).toISOString(),
+          secondsLeft: warning.offsetSeconds,
+          message: warning.message,
+          reason: reason || 'Restart'
+        });
+        await this.sendRestartWarning(warning.message);
+      }
+      const restartNow = await this.waitForRestartTime(countdownSeconds > 0 ? restartAt : Date.now() + 2000);
+      if (!restartNow) {
+        log.info('Auto-restart: Cancelled during countdown');
+        await this.sendRestartWarning(RESTART_CANCELLED_MESSAGE);
+        return { success: false, message: 'Restart cancelled' };
       }
+      this.setRestartCountdown(null);
 
       // Save world - skip logging for automated save
       log.info('Auto-restart: Saving world...');
-      const saveResult = await this.rconService.save({ skipLog: true });
+      const saveResult = await this.rconService.save({ skipLog: true, source: 'scheduler' });
       if (!saveResult.success) {
         log.warn(`Auto-restart: Save command may have failed: ${saveResult.error}`);
       }
@@ -416,7 +840,8 @@ export class Scheduler {
 
       // Quit server - skip logging for automated quit
       log.info('Auto-restart: Sending quit command...');
-      await this.rconService.quit({ skipLog: true });
+      this.serverManager.expectStop('scheduled restart');
+      await this.rconService.quit({ skipLog: true, source: 'scheduler' });
       await this.sleep(10000);
 
       // Wait for server to stop
@@ -462,7 +887,7 @@ export class Scheduler {
           this.rconService.serverStarting = false;
         }
         const restartDuration = Date.now() - restartStartTime;
-        await logScheduleExecution(null, 'Auto Restart', 'restart', false, 'Server stopped but failed to start', restartDuration);
+        await this.logExecution(null, 'Auto Restart', 'restart', false, 'Server stopped but failed to start', restartDuration);
         logServerEvent('auto_restart_error', 'Server stopped but failed to start');
         log.error('Auto-restart: Server stopped but failed to start');
         return { success: false, wasRunning: true };
@@ -529,11 +954,11 @@ export class Scheduler {
       
       if (serverStarted) {
         const rconStatus = rconConnected ? ' (RCON connected)' : ' (RCON not yet connected)';
-        await logScheduleExecution(null, 'Auto Restart', 'restart', true, 'Server restarted successfully' + rconStatus, restartDuration);
+        await this.logExecution(null, 'Auto Restart', 'restart', true, 'Server restarted successfully' + rconStatus, restartDuration);
         logServerEvent('auto_restart', 'Server restarted successfully' + rconStatus);
         log.info(`Auto-restart completed successfully (took ${Math.round(restartDuration / 1000)}s)${rconStatus}`);
       } else {
-        await logScheduleExecution(null, 'Auto Restart', 'restart', false, 'Server stopped but failed to start', restartDuration);
+        await this.logExecution(null, 'Auto Restart', 'restart', false, 'Server stopped but failed to start', restartDuration);
         logServerEvent('auto_restart_error', 'Server stopped but failed to start');
         log.error('Auto-restart: Server stopped but failed to start');
       }
@@ -542,7 +967,7 @@ export class Scheduler {
     } catch (error) {
       const restartDuration = Date.now() - restartStartTime;
       log.error(`Auto-restart failed: ${error.message}`);
-      await logScheduleExecution(null, 'Auto Restart', 'restart', false, error.message, restartDuration);
+      await this.logExecution(null, 'Auto Restart', 'restart', false, error.message, restartDuration);
       logServerEvent('auto_restart_error', error.message);
       // Clear serverStarting flag on error so auto-reconnect can resume
       if (this.rconService.setServerStarting) {
@@ -553,6 +978,7 @@ export class Scheduler {
       throw error;
     } finally {
       this.restartInProgress = false;
+      if (this.restartCountdown) this.setRestartCountdown(null);
     }
   }
 
@@ -566,7 +992,7 @@ export class Scheduler {
     log.info('Mod update detected - scheduling restart');
 
     try {
-      await this.rconService.serverMessage('🔧 Mod updates detected! Server will restart in 5 minutes.');
+      await this.rconService.serverMessage('🔧 Mod updates detected! Server will restart in 5 minutes.', { source: 'scheduler', priority: 'critical' });
       await this.performRestart(5);  // Explicitly pass 5 minutes to match the message
       this.modUpdateRestartPending = false;
     } catch (error) {
@@ -575,6 +1001,245 @@ export class Scheduler {
     }
   }
 
+  // Cron callbacks go through here, so a postponed run is skipped at its usual time
+  runScheduled(jobKey, run) {
+    const postponement = findPostponement(this.postponements, jobKey, new Date());
+    if (postponement) {
+      log.info(`Skipping ${jobKey} run - postponed to ${new Date(postponement.postponed_to).toLocaleString()}`);
+      return;
+    }
+    return run();
+  }
+
+  /**
+   * Plan the saved postponed runs. Resolves with those moved to a time the
+   * panel was not running for: a task's is a missed run for its catch-up
+   * policy (see loadScheduledTasks), a backup's or restart's is dropped.
+   */
+  async loadPostponements() {
+    const overdue = [];
+    try {
+      for (const postponement of await getSchedulePostponements(this.serverId)) {
+        if (new Date(postponement.postponed_to).getTime() <= Date.now()) {
+          await deleteSchedulePostponement(postponement.id);
+          if (postponement.job_key.startsWith('task:')) {
+            overdue.push(postponement);
+          } else {
+            log.warn(`Postponed ${postponement.job_key} run was due while the panel was not running - skipped`);
+          }
+          continue;
+        }
+        this.postponements.push(postponement);
+        this.planPostponedRun(postponement);
+      }
+    } catch (error) {
+      log.error(`Failed to load postponed runs: ${error.message}`);
+    }
+    return overdue;
+  }
+
+  // Postponed restarts are planned by setupAutoRestart
+  planPostponedRun(postponement) {
+    if (postponement.job_key === 'restart') return;
+    const delay = Math.max(0, new Date(postponement.postponed_to).getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.postponedTimers.delete(postponement.id);
+      if (delay > MAX_TIMER_MS) {
+        this.planPostponedRun(postponement);
+        return;
+      }
+      this.runPostponed(postponement).catch(error => log.error(`Postponed ${postponement.job_key} run failed: ${error.message}`));
+    }, Math.min(delay, MAX_TIMER_MS));
+    this.postponedTimers.set(postponement.id, timer);
+  }
+
+  async runPostponed(postponement) {
+    await this.dropPostponement(postponement.id);
+    log.info(`Running postponed ${postponement.job_key} run`);
+    if (postponement.job_key === 'backup') {
+      if (this.backupSettings) await this.runScheduledBackup(this.backupSettings.includeDb);
+      return;
+    }
+    const taskId = Number(postponement.job_key.split(':')[1]);
+    const task = (await getScheduledTasks(this.serverId)).find(t => t.id === taskId);
+    // Deleted or disabled since it was postponed
+    if (task?.enabled && this.jobs.has(task.id)) await this.runTask(task);
+  }
+
+  async dropPostponement(id) {
+    clearTimeout(this.postponedTimers.get(id));
+    this.postponedTimers.delete(id);
+    this.postponements = this.postponements.filter(p => p.id !== id);
+    await deleteSchedulePostponement(id);
+  }
+
+  // The cron expressions a job runs on, or null when it is not scheduled
+  async jobCrons(jobKey) {
+    if (jobKey === 'restart') {
+      const windows = this.restartPolicy.enabled
+        ? this.restartPolicy.windows.filter(window => window.enabled && cron.validate(window.cron))
+        : [];
+      return windows.length > 0 ? windows.map(window => window.cron) : null;
+    }
+    if (jobKey === 'backup') return this.backupSettings ? [this.backupSettings.schedule] : null;
+
+    const taskId = Number(jobKey.split(':')[1]);
+    const task = (await getScheduledTasks(this.serverId)).find(t => t.id === taskId);
+    return task && !task.run_at && this.jobs.has(task.id) ? [task.cron_expression] : null;
+  }
+
+  /**
+   * Move one upcoming run of a job ('task:<id>', 'backup' or 'restart') to a
+   * later time. The job's other runs are left alone. Moving a run that was
+   * already postponed replaces that postponement.
+   * @returns {Promise<{ success: boolean, message?: string, postponement?: object }>}
+   */
+  async postponeRun(jobKey, originalAt, postponedTo) {
+    const original = new Date(originalAt);
+    const to = new Date(postponedTo);
+    if (isNaN(original) || isNaN(to)) return { success: false, message: 'Invalid time' };
+
+    const crons = await this.jobCrons(jobKey);
+    if (!crons) return { success: false, message: `${jobKey} is not scheduled` };
+
+    const existing = findPostponement(this.postponements, jobKey, original);
+    if (!existing) {
+      if (original.getTime() <= Date.now()) return { success: false, message: 'That run has already happened' };
+      if (!cronFiresAt(crons, original)) return { success: false, message: `${jobKey} does not run at ${original.toLocaleString()}` };
+    }
+    if (to <= original || to.getTime() <= Date.now()) return { success: false, message: 'A run can only be moved to a later time' };
+    if (to - original > MAX_POSTPONE_MS) return { success: false, message: 'A run can be postponed by at most 7 days' };
+
+    if (jobKey === 'restart') {
+      const current = existing ? new Date(existing.postponed_to) : original;
+      if (this.restartInProgress || current.getTime() - warningLeadSeconds(this.restartPolicy) * 1000 <= Date.now()) {
+        return { success: false, message: 'Players are already being warned about that restart - cancel it instead' };
+      }
+    }
+
+    if (existing) await this.dropPostponement(existing.id);
+    const postponement = await createSchedulePostponement(this.serverId, jobKey, original.toISOString(), to.toISOString());
+    this.postponements.push(postponement);
+    this.planPostponedRun(postponement);
+    if (jobKey === 'restart') this.setupAutoRestart();
+
+    log.info(`Postponed ${jobKey} run from ${original.toLocaleString()} to ${to.toLocaleString()}`);
+    return { success: true, postponement };
+  }
+
+  /** Undo a postponement; the run happens at its usual time again */
+  async cancelPostponement(id) {
+    const postponement = this.postponements.find(p => p.id === id);
+    if (!postponement) return false;
+    await this.dropPostponement(id);
+    if (postponement.job_key === 'restart') this.setupAutoRestart();
+    return true;
+  }
+
+  /**
+   * Upcoming runs of every job - scheduled tasks, backups, restart windows
+   * and restarts already counting down or waiting for players - with
+   * postponements applied and overlaps flagged.
+   * @param {object} [options]
+   * @param {Date} [options.from] - start of the range (never before now)
+   * @param {number} [options.days] - length of the range, counted from its start
+   * @param {number} [options.limit] - most runs listed per job
+   */
+  async getUpcoming({ from = new Date(), days = 7, limit = 100 } = {}) {
+    const now = new Date();
+    const start = from > now ? from : now;
+    const until = new Date(start.getTime() + days * 24 * 3600 * 1000);
+    const range = { from: start, until, limit, postponements: this.postponements };
+    const history = await getScheduleHistory(500);
+    // How long a job took the last time it ran in full
+    const lastDuration = (match, fallback) => {
+      const entry = history.find(h => h.success && !h.outcome && h.duration && match(h));
+      return entry ? Math.max(entry.duration, DEFAULT_TASK_MS) : fallback;
+    };
+
+    const events = [];
+    const truncated = [];
+    const add = (job) => {
+      const result = forecastCronJob(job, range);
+      events.push(...result.events);
+      if (result.truncated) truncated.push(job.key);
+    };
+
+    for (const task of await getScheduledTasks(this.serverId)) {
+      if (!task.enabled || !this.jobs.has(task.id)) continue;
+      const job = {
+        key: `task:${task.id}`,
+        kind: 'task',
+        name: task.name,
+        taskId: task.id,
+        durationMs: lastDuration(h => h.task_id === task.id && h.command === task.command, DEFAULT_TASK_MS),
+        disruptive: taskRestartsServer(task)
+      };
+      if (task.run_at) {
+        // One-off tasks are moved by editing them
+        const at = new Date(task.run_at);
+        if (at >= start && at <= until) events.push(forecastOneOff(job, at, at));
+      } else {
+        add({ ...job, crons: [task.cron_expression] });
+      }
+    }
+
+    if (this.backupSettings) {
+      add({
+        key: 'backup',
+        kind: 'backup',
+        name: 'Scheduled backup',
+        crons: [this.backupSettings.schedule],
+        durationMs: lastDuration(h => h.task_id === null && h.command === 'backup', DEFAULT_BACKUP_MS)
+      });
+    }
+
+    if (this.restartPolicy.enabled) {
+      const leadMs = warningLeadSeconds(this.restartPolicy) * 1000;
+      for (const window of this.restartPolicy.windows) {
+        if (!window.enabled || !cron.validate(window.cron)) continue;
+        add({
+          key: 'restart',
+          kind: 'restart',
+          name: window.label || 'Auto restart',
+          crons: [window.cron],
+          leadMs,
+          durationMs: RESTART_DOWNTIME_MS,
+          disruptive: true
+        });
+      }
+    }
+
+    // A restart counting down replaces the window it came from
+    let upcoming = events;
+    if (this.restartCountdown) {
+      const restartAt = new Date(this.restartCountdown.restartAt);
+      upcoming = events.filter(e => !(e.key === 'restart' && Math.abs(new Date(e.at) - restartAt) < 60000));
+      upcoming.push(forecastOneOff(
+        { key: 'countdown', kind: 'restart', name: this.restartCountdown.reason, durationMs: RESTART_DOWNTIME_MS, disruptive: true },
+        restartAt,
+        now
+      ));
+    }
+
+    // A mod update restart waiting for players goes ahead at the latest when the wait is over
+    if (this.modChecker?.pendingRestart && this.modChecker.pendingRestartDeadline) {
+      const at = new Date(this.modChecker.pendingRestartDeadline.getTime() + this.modChecker.restartWarningMinutes * 60000);
+      upcoming.push(forecastOneOff(
+        { key: 'modRestart', kind: 'modRestart', name: 'Mod update restart (waiting for players)', durationMs: RESTART_DOWNTIME_MS, disruptive: true },
+        at,
+        now
+      ));
+    }
+
+    return {
+      from: start.toISOString(),
+      until: until.toISOString(),
+      events: flagOverlaps(upcoming),
+      truncated
+    };
+  }
+
   getStatus() {
     const tasks = [];
     for (const [id, job] of this.jobs) {
@@ -583,7 +1248,10 @@ export class Scheduler {
 
     return {
       activeTasks: tasks.length,
-      autoRestartEnabled: !!this.autoRestartJob,
+      autoRestartEnabled: !!this.nextAutoRestart,
+      nextAutoRestart: this.nextAutoRestart,
+      restartCountdown: this.restartCountdown,
+      missedRuns: this.missedRuns,
       backupScheduleEnabled: !!this.backupJob,
       modUpdateRestartPending: this.modUpdateRestartPending
     };
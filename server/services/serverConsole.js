@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('ServerConsole');
+import { getDataPaths } from '../utils/paths.js';
+
+// Lines kept in memory for the console page
+const MAX_BUFFERED_LINES = 2000;
+
+// Panel-owned copy of the server output: server-console[-<serverId>].log,
+// rotated to <name>.1.log ... <name>.<MAX_LOG_FILES>.log
+const LOG_FILE_NAME = 'server-console';
+const MAX_LOG_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_LOG_FILES = 3;
+const FLUSH_INTERVAL_MS = 1000;
+
+// Filter patterns for console log - patterns to exclude (noise)
+const CONSOLE_LOG_EXCLUDE_PATTERNS = [
+  // Duplicate sprites/textures (very spammy)
+  /IsoSpriteManager\.AddSprite > duplicate texture/,
+  // PlayerHitZombie packet spam (not consistent packets)
+  /The packet PlayerHitZombie is not consistent/,
+  // Missing icons for build items (cosmetic only)
+  /XuiSkin\$EntityUiStyle\.Load > Could not find icon:/,
+  /XuiSkin\$EntityUiStyle\.LoadComponentInfo> Could not find icon:/,
+  // Recursive require warnings (usually harmless)
+  /LuaManager\.RunLua > recursive require\(\)/,
+  // AnimalPacket/AnimalEventPacket class warnings (known issue)
+  /The AnimalPacket class doesn't have PacketSetting attributes/,
+  /The AnimalEventPacket class doesn't have PacketSetting attributes/,
+];
+
+// Patterns for errors (always show these)
+const CONSOLE_LOG_ERROR_PATTERNS = [
+  /^ERROR\[/,
+  /Exception thrown/,
+  /Stack trace:/,
+  /java\.lang\.\w+Exception/,
+  /KahluaThread\.flushErrorMessage/,
+];
+
+// Patterns for important info (always show these)
+const CONSOLE_LOG_IMPORTANT_PATTERNS = [
+  /^\[PanelBridge\]/,
+  /SERVER STARTED/,
+  /fully-connected/,
+  /player-connect/,
+  /connection-lost/,
+  /disconnect/,
+  /Steam client .* is initiating/,
+  /RCON:/,
+  /Recipe AutoLearned/,
+  /Reduce Head Condition/,
+  /ISBuildIsoEntity/,
+];
+
+/**
+ * Filter console log lines based on filter level
+ * @param {string[]} lines - Array of log lines
+ * @param {string} filterLevel - 'all' | 'filtered' | 'important' | 'errors'
+ * @returns {string[]} Filtered lines
+ */
+export function filterConsoleLogLines(lines, filterLevel = 'filtered') {
+  if (filterLevel === 'all') {
+    return lines;
+  }
+
+  return lines.filter(line => {
+    if (!line.trim()) return false;
+
+    // Always include error lines
+    const isError = CONSOLE_LOG_ERROR_PATTERNS.some(pattern => pattern.test(line));
+    if (isError) return true;
+
+    // Always include important lines
+    const isImportant = CONSOLE_LOG_IMPORTANT_PATTERNS.some(pattern => pattern.test(line));
+    if (isImportant) return true;
+
+    // For 'errors' level, only show errors
+    if (filterLevel === 'errors') {
+      return isError;
+    }
+
+    // For 'important' level, show errors + important
+    if (filterLevel === 'important') {
+      return isError || isImportant;
+    }
+
+    // For 'filtered' level (default), exclude noise patterns
+    const isNoise = CONSOLE_LOG_EXCLUDE_PATTERNS.some(pattern => pattern.test(line));
+    return !isNoise;
+  });
+}
+
+/**
+ * Output of the server process started by the panel, independent of where
+ * Project Zomboid writes server-console.txt. Lines go to an in-memory ring
+ * buffer and a rotating log file, and are emitted as `line` events
+ * ({ seq, line, stream, time }). `attached`/`detached` are emitted when
+ * capture of a process begins and ends.
+ */
+export class ServerConsole extends EventEmitter {
+  constructor(serverId = null) {
+    super();
+    this.serverId = serverId;  // ServerInstance id this service works for (null = the active server)
+    this.lines = [];
+    this.seq = 0;
+    this.capturing = false;
+    this.process = null;
+    this.pendingWrites = [];
+    this.flushing = false;
+    this.flushTimer = null;
+    this.fileSize = null;
+  }
+
+  getLogPath() {
+    // One log per server instance when several run side by side
+    const name = this.serverId === null ? LOG_FILE_NAME : `${LOG_FILE_NAME}-${this.serverId}`;
+    return path.join(getDataPaths().logsDir, `${name}.log`);
+  }
+
+  /**
+   * Capture stdout/stderr of a spawned server process (stdio must be piped)
+   */
+  attach(child) {
+    this.process = child;
+    this.capturing = true;
+    this.push(`[Panel] Capturing server output (PID ${child.pid ?? 'unknown'})`, 'panel');
+    this.emit('attached', { pid: child.pid ?? null });
+
+    for (const [streamName, stream] of [['stdout', child.stdout], ['stderr', child.stderr]]) {
+      if (!stream) continue;
+      stream.setEncoding('utf8');
+      let partial = '';
+      stream.on('data', (chunk) => {
+        const parts = (partial + chunk).split(/\r?\n/);
+        partial = parts.pop();
+        for (const line of parts) this.push(line, streamName);
+      });
+      stream.on('end', () => {
+        if (partial) this.push(partial, streamName);
+        partial = '';
+      });
+      stream.on('error', (error) => log.debug(`Server ${streamName} error: ${error.message}`));
+    }
+
+    // 'close' fires once both pipes are closed, i.e. nothing is left writing to them
+    child.on('close', (code, signal) => {
+      if (this.process !== child) return;
+      this.process = null;
+      this.capturing = false;
+      this.push(`[Panel] Server output closed (${signal || `code ${code}`})`, 'panel');
+      this.emit('detached', { code, signal });
+    });
+  }
+
+  push(line, stream = 'stdout') {
+    const entry = { seq: ++this.seq, line, stream, time: new Date().toISOString() };
+    this.lines.push(entry);
+    if (this.lines.length > MAX_BUFFERED_LINES) {
+      this.lines.splice(0, this.lines.length - MAX_BUFFERED_LINES);
+    }
+    this.queueWrite(`[${entry.time}] ${line}\n`);
+    this.emit('line', entry);
+  }
+
+  /**
+   * Buffered lines, optionally only those after sequence number `since`
+   */
+  getLines({ since = 0, limit = MAX_BUFFERED_LINES } = {}) {
+    const lines = since > 0 ? this.lines.filter(entry => entry.seq > since) : this.lines;
+    return lines.slice(-limit);
+  }
+
+  /** Empty the in-memory buffer (the log file keeps its history) */
+  clear() {
+    this.lines = [];
+  }
+
+  getStatus() {
+    return {
+      capturing: this.capturing,
+      pid: this.process?.pid ?? null,
+      bufferedLines: this.lines.length,
+      lastSeq: this.seq,
+      logPath: this.getLogPath()
+    };
+  }
+
+  queueWrite(text) {
+    this.pendingWrites.push(text);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, FLUSH_INTERVAL_MS);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  async flush() {
+    if (this.flushing || this.pendingWrites.length === 0) return;
+    this.flushing = true;
+    const data = this.pendingWrites.join('');
+    this.pendingWrites = [];
+
+    try {
+      const logPath = this.getLogPath();
+      if (this.fileSize === null) {
+        this.fileSize = await fs.promises.stat(logPath).then(s => s.size, () => 0);
+      }
+      if (this.fileSize > 0 && this.fileSize + Buffer.byteLength(data) > MAX_LOG_FILE_BYTES) {
+        await this.rotate(logPath);
+      }
+      await fs.promises.appendFile(logPath, data);
+      this.fileSize += Buffer.byteLength(data);
+    } catch (error) {
+      log.warn(`Failed to write server console log: ${error.message}`);
+    } finally {
+      this.flushing = false;
+    }
+
+    // Lines that arrived while writing
+    if (this.pendingWrites.length > 0 && !this.flushTimer) {
+      this.queueWrite('');
+    }
+  }
+
+  async rotate(logPath) {
+    const rotatedPath = (index) => logPath.replace(/\.log$/, `.${index}.log`);
+    await fs.promises.rm(rotatedPath(MAX_LOG_FILES), { force: true });
+    for (let index = MAX_LOG_FILES - 1; index >= 1; index--) {
+      await fs.promises.rename(rotatedPath(index), rotatedPath(index + 1)).catch(() => {});
+    }
+    await fs.promises.rename(logPath, rotatedPath(1));
+    this.fileSize = 0;
+  }
+}
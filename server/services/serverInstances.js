@@ -0,0 +1,596 @@
+import path from 'path';
+import { EventEmitter } from 'events';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('Instances');
+import { getServers, getActiveServer, resolveServer, getAllSettings, getSetting, assignUnscopedScheduledTasks } from '../database/init.js';
+import { RconService } from './rcon.js';
+import { ServerManager } from './serverManager.js';
+import { ModChecker } from './modChecker.js';
+import { Scheduler } from './scheduler.js';
+import { BackupService } from './backupService.js';
+import { LogTailer } from './logTailer.js';
+import { ServerConsole } from './serverConsole.js';
+import { PanelBridge } from './panelBridge.js';
+import { getHostFs } from './hostFs.js';
+
+// ============================================
+// Server Instances
+// ============================================
+//
+// Every server in the database gets its own set of services - RCON,
+// process control, console capture, log tailer, scheduler, mod checker,
+// backups and PanelBridge - so several servers are monitored and scheduled
+// side by side. The active server only decides which set the unscoped
+// /api routes and the Discord bot use; switching it stops nothing.
+//
+// With no servers configured, one set runs from the legacy settings
+// (serverId null).
+
+// How often each set polls RCON for its player list
+const PLAYER_POLL_MS = 5000;
+
+function keyOf(serverId) {
+  return serverId === null || serverId === undefined ? '' : String(serverId);
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function withTimeout(promise, ms, message) {
+  return Promise.race([
+    promise,
+    new Promise((_, reject) => setTimeout(() => reject(new Error(message)), ms))
+  ]);
+}
+
+/**
+ * The services for one server instance, wired together the same way for
+ * every server.
+ */
+function createServiceSet(server) {
+  const serverId = server?.id ?? null;
+  const rconService = new RconService(serverId);
+  const serverManager = new ServerManager(serverId);
+  const serverConsole = new ServerConsole(serverId);
+  const logTailer = new LogTailer(serverId);
+  const scheduler = new Scheduler(rconService, serverManager, serverId);
+  const modChecker = new ModChecker(serverId);
+  const backupService = new BackupService(serverId);
+  const panelBridge = new PanelBridge(getHostFs(server));
+
+  // Connect services for cross-communication
+  rconService.setServerManager(serverManager);
+  scheduler.setBackupService(backupService);
+  scheduler.setPanelBridge(panelBridge);
+  scheduler.setModChecker(modChecker);
+  serverManager.setServerConsole(serverConsole);
+  logTailer.setServerConsole(serverConsole);
+
+  // Drive the server lifecycle state from console output, RCON and PanelBridge
+  serverManager.lifecycle.watchConsole(serverConsole);
+  serverManager.lifecycle.watchRcon(rconService);
+  serverManager.lifecycle.watchPanelBridge(panelBridge);
+
+  return {
+    serverId,
+    name: server?.name || 'Default server',
+    isRemote: !!server?.isRemote,
+    hasAgent: !!(server?.isRemote && server.agentUrl),
+    rconService,
+    serverManager,
+    serverConsole,
+    logTailer,
+    scheduler,
+    modChecker,
+    backupService,
+    panelBridge,
+    players: [],
+    playerPollingInterval: null
+  };
+}
+
+/**
+ * Keeps a service set running for every server instance. Emits `added` and
+ * `removed` with the set, `active` when the active server changes and
+ * `players` (set, players) when a server's player list changes.
+ */
+export class ServerInstances extends EventEmitter {
+  constructor({ io, discordBot }) {
+    super();
+    this.io = io;
+    this.discordBot = discordBot;
+    this.sets = new Map();
+    this.activeId = null;
+  }
+
+  async init() {
+    const servers = await getServers();
+    const active = await getActiveServer();
+
+    // Tasks created before per-server scheduling ran against the active server
+    if (active) {
+      const assigned = await assignUnscopedScheduledTasks(active.id);
+      if (assigned > 0) log.info(`Assigned ${assigned} scheduled task(s) to ${active.name}`);
+    }
+
+    if (servers.length === 0) {
+      await this.add(null);
+    }
+    for (const server of servers) {
+      await this.add(server);
+    }
+    this.setActive(active?.id ?? null);
+    log.info(`Managing ${servers.length || 1} server instance(s)`);
+  }
+
+  get(serverId) {
+    return this.sets.get(keyOf(serverId)) || null;
+  }
+
+  getActive() {
+    return this.get(this.activeId) || this.sets.values().next().value || null;
+  }
+
+  isActive(set) {
+    return this.getActive() === set;
+  }
+
+  list() {
+    return [...this.sets.values()];
+  }
+
+  /** Create and start the services of a server (null = legacy settings) */
+  async add(server) {
+    const serverId = server?.id ?? null;
+    if (this.get(serverId)) return this.get(serverId);
+
+    // The legacy set gives way to the first configured server
+    const legacy = serverId !== null ? this.get(null) : null;
+    if (legacy) {
+      this.sets.delete(keyOf(null));
+      await this.stopServiceSet(legacy);
+      this.emit('removed', legacy);
+    }
+
+    const set = createServiceSet(server);
+    set.serverManager.setDiscordBot(this.discordBot);
+    set.scheduler.setDiscordBot(this.discordBot);
+    set.rconService.on('connected', async () => {
+      log.info(`${set.name}: RCON connected - checking PanelBridge...`);
+      await this.tryStartPanelBridge(set, 'rcon-connected');
+    });
+
+    this.sets.set(keyOf(serverId), set);
+    this.emit('added', set);
+    await this.startServiceSet(set);
+    log.info(`Started services for ${set.name}`);
+    if (legacy) this.setActive(serverId);
+    return set;
+  }
+
+  /** Stop and forget the services of a deleted server */
+  async remove(serverId) {
+    const set = this.get(serverId);
+    if (!set) return false;
+
+    const wasActive = this.isActive(set);
+    this.sets.delete(keyOf(serverId));
+    await this.stopServiceSet(set);
+    this.emit('removed', set);
+    log.info(`Stopped services for ${set.name}`);
+
+    // Without servers left the legacy settings take over again
+    if (this.sets.size === 0) await this.add(null);
+    if (wasActive) {
+      const active = await getActiveServer();
+      this.setActive(active?.id ?? null);
+    }
+    return true;
+  }
+
+  /** Pick up changed settings of a server (paths, RCON, launch options) */
+  async reload(serverId) {
+    const set = this.get(serverId);
+    if (!set) return;
+
+    const server = await resolveServer(serverId);
+    set.name = server?.name || set.name;
+    set.isRemote = !!server?.isRemote;
+    set.hasAgent = !!(server?.isRemote && server.agentUrl);
+    set.panelBridge.hostFs = getHostFs(server);
+    await set.serverManager.reloadConfig();
+    await set.rconService.reloadConfig();
+    if (!set.isRemote) {
+      set.logTailer.stopWatching();
+      await set.logTailer.init();
+    }
+    // An agent added to or removed from a remote server
+    if (!set.isRemote || set.hasAgent) {
+      set.serverManager.startWatchdog();
+    } else {
+      set.serverManager.stopWatchdog();
+    }
+  }
+
+  setActive(serverId) {
+    this.activeId = serverId;
+    const set = this.getActive();
+    if (!set) return;
+    this.discordBot.setServices(set);
+    this.emit('active', set);
+  }
+
+  async startServiceSet(set) {
+    const { rconService, serverManager, logTailer, scheduler, modChecker } = set;
+
+    // Local files (logs, workshop ACF) only exist for servers on this machine
+    if (!set.isRemote) {
+      await logTailer.init();
+    }
+
+    // Initialize scheduler first (needed by modChecker for auto-restart)
+    await scheduler.init();
+
+    if (!set.isRemote) {
+      await modChecker.init(scheduler, serverManager, this.io);
+      if (modChecker.workshopAcfPath) {
+        modChecker.start();
+      } else {
+        log.info(`${set.name}: Workshop ACF not found - mod checker not started`);
+      }
+    }
+
+    // Start RCON auto-reconnect for automatic recovery
+    rconService.startAutoReconnect();
+
+    // Watch for server crashes and restart with backoff (remote servers through their agent)
+    if (!set.isRemote || set.hasAgent) {
+      serverManager.startWatchdog();
+    }
+
+    this.startPlayerPolling(set);
+  }
+
+  async stopServiceSet(set) {
+    this.stopPlayerPolling(set);
+    set.scheduler.stopAllJobs?.();
+    set.serverManager.stopWatchdog();
+    set.modChecker.stop();
+    set.logTailer.stopWatching();
+    await set.serverConsole.flush();
+    if (set.panelBridge.isRunning) {
+      set.panelBridge.stop();
+    }
+    set.rconService.stopAutoReconnect();
+    set.rconService.queue.clear('Server services stopped');
+    if (set.rconService.connected) {
+      await set.rconService.disconnect();
+    }
+  }
+
+  async shutdown() {
+    for (const set of this.list()) {
+      await this.stopServiceSet(set);
+    }
+  }
+
+  /** Summary of every running set, for the server switcher */
+  getStatus() {
+    return this.list().map(set => ({
+      serverId: set.serverId,
+      name: set.name,
+      isActive: this.isActive(set),
+      isRemote: set.isRemote,
+      hasAgent: set.hasAgent,
+      lifecycle: set.serverManager.lifecycle.getState(),
+      rconConnected: set.rconService.connected,
+      playerCount: set.players.length,
+      panelBridge: set.panelBridge.isRunning
+    }));
+  }
+
+  // ── Player polling ──
+
+  startPlayerPolling(set) {
+    this.stopPlayerPolling(set);
+
+    set.playerPollingInterval = setInterval(async () => {
+      try {
+        // Only poll if RCON is connected
+        if (!set.rconService.connected) {
+          return;
+        }
+
+        const result = await set.rconService.getPlayers();
+        if (result.success && result.players) {
+          // Check if player list has changed
+          const currentNames = result.players.map(p => p.name).sort().join(',');
+          const lastNames = set.players.map(p => p.name).sort().join(',');
+
+          if (currentNames !== lastNames) {
+            set.players = result.players;
+            this.emit('players', set, result.players);
+            log.debug(`${set.name}: player list updated, ${result.players.length} players online`);
+          }
+        }
+      } catch (error) {
+        // Silently ignore polling errors to avoid log spam
+        log.debug(`${set.name}: player polling error: ${error.message}`);
+      }
+    }, PLAYER_POLL_MS);
+  }
+
+  stopPlayerPolling(set) {
+    if (set.playerPollingInterval) {
+      clearInterval(set.playerPollingInterval);
+      set.playerPollingInterval = null;
+    }
+  }
+
+  // ── PanelBridge ──
+
+  /**
+   * Find the PanelBridge path for a server
+   * PZ Lua mod writes to: {serverRuntimePath}/Lua/panelbridge/{serverName}/
+   * For dedicated servers, this is usually a Server_files* folder (set via -cachedir)
+   */
+  async findPanelBridgePath(set) {
+    const server = await resolveServer(set.serverId);
+    if (!server) {
+      return { error: 'No server configured' };
+    }
+
+    const serverName = server.serverName || server.name;
+    if (!serverName) {
+      return { error: 'Server name not configured' };
+    }
+
+    // Remote servers without an agent have no reachable bridge folder
+    if (server.isRemote && !server.agentUrl) {
+      return { error: 'Remote server has no agent configured' };
+    }
+    const hostFs = getHostFs(server);
+
+    // Check if db.json has a saved bridgePath for this server that exists and has files
+    const settings = await getAllSettings();
+    const savedPath = settings?.panelBridge?.bridgePath;
+    if (savedPath && hostFs.path.basename(savedPath) === serverName) {
+      const statusFile = path.join(savedPath, 'status.json');
+      if (await hostFs.exists(statusFile)) {
+        return { path: savedPath, source: 'db.json (saved)', serverName };
+      }
+    }
+
+    // Build list of possible paths - PZ Lua mod writes to Lua/panelbridge/
+    const possiblePaths = [];
+
+    // Helper to safely read directory contents
+    const safeReadDir = async (dirPath) => {
+      try {
+        return await hostFs.readdir(dirPath);
+      } catch (e) {
+        return [];
+      }
+    };
+
+    // PRIORITY 1: zomboidDataPath is where -cachedir points - this is where the mod WRITES status.json
+    // This should be checked first since it's explicitly configured for the server
+    if (server.zomboidDataPath) {
+      possiblePaths.push({ p: path.join(server.zomboidDataPath, 'Lua', 'panelbridge', serverName), source: 'zomboidDataPath/Lua (cachedir)', priority: 1 });
+    }
+
+    // PRIORITY 2: Look for Server_files* folders at parent level (dedicated server runtime data)
+    // This is where -cachedir typically points for dedicated servers with separate data folders
+    if (server.installPath) {
+      const parentDir = hostFs.path.dirname(server.installPath);
+      const parentContents = await safeReadDir(parentDir);
+      for (const item of parentContents) {
+        if (item.startsWith('Server_files') || item.match(/Server.*files/i)) {
+          possiblePaths.push({ p: path.join(parentDir, item, 'Lua', 'panelbridge', serverName), source: `${item}/Lua`, priority: 2 });
+        }
+      }
+    }
+
+    // PRIORITY 3: Lua folder directly in install path (fallback)
+    if (server.installPath) {
+      possiblePaths.push({ p: path.join(server.installPath, 'Lua', 'panelbridge', serverName), source: 'installPath/Lua', priority: 3 });
+    }
+
+    // Find first path with existing status.json (bridge is active)
+    for (const { p, source } of possiblePaths) {
+      const statusFile = path.join(p, 'status.json');
+      if (await hostFs.exists(statusFile)) {
+        return { path: p, source, serverName };
+      }
+    }
+
+    // Check for .init file (bridge initialized but not yet active)
+    for (const { p, source } of possiblePaths) {
+      const initFile = path.join(p, '.init');
+      if (await hostFs.exists(initFile)) {
+        return { path: p, source: `${source} (.init)`, serverName };
+      }
+    }
+
+    // Check if any of the paths exist (even if empty - mod may have started writing)
+    for (const { p, source } of possiblePaths) {
+      if (await hostFs.exists(p)) {
+        return { path: p, source: `${source} (exists)`, serverName };
+      }
+    }
+
+    // No existing bridge found - return the best expected path but DON'T create it
+    // The directory will be created by the PZ mod when it runs
+    if (possiblePaths.length > 0) {
+      possiblePaths.sort((a, b) => a.priority - b.priority);
+      const bestPath = possiblePaths[0];
+      return { path: bestPath.p, source: `${bestPath.source} (expected)`, serverName, notCreated: true };
+    }
+
+    return { error: 'No valid bridge path could be determined', searchedPaths: possiblePaths.map(x => x.p), serverName };
+  }
+
+  /**
+   * Start a server's PanelBridge if a valid bridge path is found
+   * This is called both at startup and when RCON connects
+   */
+  async tryStartPanelBridge(set, trigger = 'unknown') {
+    if (set.panelBridge.isRunning) {
+      log.debug(`${set.name}: PanelBridge already running (trigger: ${trigger})`);
+      return true;
+    }
+
+    const result = await this.findPanelBridgePath(set);
+
+    if (result.error) {
+      log.debug(`${set.name}: ${result.error} (trigger: ${trigger})`);
+      return false;
+    }
+
+    try {
+      await set.panelBridge.configure(result.path, true);
+      set.panelBridge.start();
+      log.info(`${set.name}: PanelBridge started from ${result.source} (trigger: ${trigger})`);
+      return true;
+    } catch (error) {
+      log.warn(`${set.name}: PanelBridge failed to start - ${error.message}`);
+      return false;
+    }
+  }
+
+  // ── Startup detection ──
+
+  /**
+   * Look for running servers, connect RCON to them and, if enabled,
+   * auto-start the active server
+   */
+  async detectRunningServers() {
+    for (const set of this.list()) {
+      try {
+        await this.detectRunningServer(set, { autoStart: this.isActive(set) });
+      } catch (e) {
+        log.debug(`${set.name}: startup detection: ${e.message}`);
+      }
+    }
+  }
+
+  async detectRunningServer(set, { autoStart = false } = {}) {
+    const { rconService, serverManager } = set;
+
+    // STEP 1: Try to start PanelBridge first (file-based, independent of RCON)
+    // This works even if RCON isn't connected yet
+    const bridgeStarted = await this.tryStartPanelBridge(set, 'startup');
+    if (bridgeStarted) {
+      log.info(`${set.name}: PanelBridge started on startup (found active bridge files)`);
+    }
+
+    // Remote servers without an agent have no process to look for - RCON is all there is
+    if (set.isRemote && !set.hasAgent) {
+      await rconService.connect().catch(e => log.debug(`${set.name}: RCON connection failed: ${e.message}`));
+      return;
+    }
+
+    // STEP 2: Check if PZ server is running and connect RCON
+    const timeoutMs = 15000;
+    const isRunning = await withTimeout(serverManager.checkServerRunning(), timeoutMs, 'Server check timeout');
+
+    if (isRunning) {
+      log.info(`${set.name}: PZ server detected running - connecting RCON...`);
+
+      // Try to connect RCON with retries
+      let connected = false;
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+          await withTimeout(rconService.connect(), timeoutMs, 'RCON connection timeout');
+
+          if (rconService.connected) {
+            connected = true;
+            log.info(`${set.name}: RCON connected on attempt ${attempt}`);
+            break;
+          }
+        } catch (e) {
+          log.debug(`${set.name}: RCON connection attempt ${attempt} failed: ${e.message}`);
+          if (attempt < 3) {
+            await sleep(5000); // Wait 5s before retry
+          }
+        }
+      }
+
+      if (!connected) {
+        log.warn(`${set.name}: RCON connection failed after 3 attempts - auto-reconnect will keep trying`);
+      }
+      return;
+    }
+
+    log.info(`${set.name}: PZ server not detected running on startup`);
+
+    // Check if auto-start is enabled
+    const autoStartServer = await getSetting('autoStartServer');
+    if (!autoStart || !(autoStartServer === true || autoStartServer === 'true')) {
+      // Even if server isn't running, Panel Bridge might have stale files
+      // The bridge will detect the mod isn't responding via status timestamp
+      return;
+    }
+
+    log.info(`${set.name}: Auto-start is enabled - starting PZ server...`);
+
+    // Set flag to prevent auto-reconnect from interfering
+    rconService.setServerStarting(true);
+
+    try {
+      const startResult = await serverManager.startServer();
+      if (!startResult.success) {
+        log.error('Failed to auto-start PZ server:', startResult.error);
+        return;
+      }
+
+      // Wait for server to fully start before connecting RCON
+      // Monitor the TCP port instead of hard waiting
+      log.info('PZ server auto-started - Monitoring RCON port...');
+
+      await rconService.loadConfig(); // Ensure clean config
+      const rconHost = rconService.config.host || '127.0.0.1';
+      const rconPort = rconService.config.port || 27015;
+
+      const maxPollAttempts = 60; // 5 minutes max
+
+      for (let i = 0; i < maxPollAttempts; i++) {
+        // Check port readiness
+        const portOpen = await rconService.checkPortOpen(rconHost, rconPort);
+
+        if (!portOpen) {
+          // Log every 30s
+          if (i % 6 === 0) {
+            log.debug(`Auto-start: Waiting for RCON port ${rconHost}:${rconPort}...`);
+          }
+          await sleep(5000);
+          continue;
+        }
+
+        // Port is open, try to connect
+        log.info('RCON port open! Attempting connection...');
+
+        try {
+          await withTimeout(rconService.connect(), 15000, 'RCON connection timeout');
+
+          if (rconService.connected) {
+            log.info('RCON connected successfully after auto-start');
+            break;
+          }
+          // Port open but auth/handshake failed
+          log.debug('RCON port open but connection failed, retrying in 5s...');
+          await sleep(5000);
+        } catch (e) {
+          log.debug(`Auto-start RCON connection failed: ${e.message}`);
+          await sleep(5000);
+        }
+      }
+    } catch (e) {
+      log.error('Error during auto-start:', e.message);
+    } finally {
+      // Clear the flag so auto-reconnect can resume normally
+      rconService.setServerStarting(false);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('Lifecycle');
+
+// ============================================
+// Server Lifecycle
+// ============================================
+//
+// stopped -> starting -> loading -> ready <-> saving
+//                                     |
+//                                  stopping -> stopped
+//
+// Any state with a live process can end in `crashed` when it exits without
+// an expected stop. Process events come from ServerManager; readiness comes
+// from the console ("SERVER STARTED"), RCON connecting or PanelBridge
+// reporting in - whichever is seen first.
+
+export const SERVER_STATES = ['stopped', 'starting', 'loading', 'ready', 'saving', 'stopping', 'crashed'];
+
+// States where the server process is (or should be) alive
+const ACTIVE_STATES = ['starting', 'loading', 'ready', 'saving', 'stopping'];
+
+// Console line printed once the world is loaded and players can join
+const READY_MARKER = /SERVER STARTED/;
+
+export class ServerLifecycle extends EventEmitter {
+  constructor() {
+    super();
+    this.state = 'stopped';
+    this.since = new Date();
+    this.reason = null;
+    // When the process was first seen up; unlike `since` it survives saves
+    this.upSince = null;
+  }
+
+  getState() {
+    return { state: this.state, since: this.since, upSince: this.upSince, reason: this.reason };
+  }
+
+  is(...states) {
+    return states.includes(this.state);
+  }
+
+  /** Whether the server process is up (loaded or not) */
+  isActive() {
+    return ACTIVE_STATES.includes(this.state);
+  }
+
+  /** Whether the world is loaded and the server accepts commands */
+  isReady() {
+    return this.state === 'ready' || this.state === 'saving';
+  }
+
+  transition(state, reason = null) {
+    if (!SERVER_STATES.includes(state)) {
+      throw new Error(`Unknown server state: ${state}`);
+    }
+    if (state === this.state) return false;
+
+    const previous = this.state;
+    const wasActive = this.isActive();
+    this.state = state;
+    this.since = new Date();
+    this.reason = reason;
+    if (!this.isActive()) {
+      this.upSince = null;
+    } else if (!wasActive) {
+      this.upSince = this.since;
+    }
+    log.info(`Server ${previous} -> ${state}${reason ? ` (${reason})` : ''}`);
+    this.emit('change', { ...this.getState(), previous });
+    return true;
+  }
+
+  // ── Process events (from ServerManager) ──
+
+  processStarting(reason) {
+    this.transition('starting', reason);
+  }
+
+  /** The process was found running - it is at least loading the world */
+  processRunning() {
+    if (this.is('stopped', 'crashed', 'starting')) {
+      this.transition('loading', 'server process detected');
+    }
+  }
+
+  stopRequested(reason) {
+    if (this.isActive()) {
+      this.transition('stopping', reason);
+    }
+  }
+
+  processStopped(reason) {
+    this.transition('stopped', reason);
+  }
+
+  processCrashed(reason) {
+    this.transition('crashed', reason);
+  }
+
+  // ── Readiness signals ──
+
+  markReady(source) {
+    if (this.is('stopped', 'crashed', 'starting', 'loading')) {
+      this.transition('ready', source);
+    }
+  }
+
+  beginSave() {
+    if (this.state === 'ready') this.transition('saving', 'world save');
+  }
+
+  endSave() {
+    if (this.state === 'saving') this.transition('ready', 'save finished');
+  }
+
+  watchConsole(serverConsole) {
+    serverConsole.on('line', (entry) => {
+      if (entry.stream === 'panel') return;
+      if (READY_MARKER.test(entry.line)) {
+        this.markReady('SERVER STARTED');
+      } else if (this.state === 'starting') {
+        // First output from the game - the JVM is up and loading the world
+        this.transition('loading', 'server output');
+      }
+    });
+  }
+
+  watchRcon(rconService) {
+    rconService.on('connected', () => this.markReady('RCON connected'));
+  }
+
+  watchPanelBridge(panelBridge) {
+    panelBridge.on('modStatus', (status) => {
+      if (status?.alive) this.markReady('PanelBridge status');
+    });
+  }
+}
@@ -1,10 +1,30 @@
-import { spawn, exec } from 'child_process';
 import path from 'path';
 import fs from 'fs';
 import os from 'os';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('Server');
-import { logServerEvent, getSetting, getActiveServer } from '../database/init.js';
+import { logServerEvent, getSetting, resolveServer } from '../database/init.js';
+import {
+  DEFAULT_START_SCRIPT,
+  NOSTEAM_START_SCRIPT,
+  getCustomStartScriptName,
+  isStartScriptPath
+} from '../utils/platform.js';
+import { getStartScriptArgs } from '../utils/launchProfile.js';
+import { createServerProcess } from './serverProcess.js';
+import { getHostFs, localFs } from './hostFs.js';
+import { ServerLifecycle } from './serverLifecycle.js';
+
+// Crash watchdog: how often to look for the server process, and how
+// restarts after a crash back off
+const WATCHDOG_POLL_MS = 30000;
+const CRASH_RESTART_BASE_DELAY_MS = 30000;
+const CRASH_RESTART_MAX_DELAY_MS = 10 * 60 * 1000;
+const DEFAULT_CRASH_RESTART_ATTEMPTS = 5;
+// A server that stays up this long after a crash restart counts as recovered
+const CRASH_STABLE_MS = 10 * 60 * 1000;
+// An intentional stop that never happens stops being expected after this long
+const STOP_EXPECTED_MS = 10 * 60 * 1000;
 
 // Helper function to escape regex special characters
 function escapeRegExp(str) {
@@ -12,48 +32,83 @@ function escapeRegExp(str) {
 }
 
 export class ServerManager {
-  constructor() {
+  constructor(serverId = null) {
+    this.serverId = serverId;  // ServerInstance id this service works for (null = the active server)
     this.serverProcess = null;
     this.serverPath = process.env.PZ_SERVER_PATH || '';
-    this.serverBat = process.env.PZ_SERVER_BAT || 'StartServer64.bat';
+    this.serverBat = process.env.PZ_SERVER_BAT || DEFAULT_START_SCRIPT;
     this.savePath = process.env.PZ_SAVE_PATH || '';
     this.serverName = 'servertest';
+    this.launchOptions = {};
+    this.hostFs = localFs;
+    this.platform = createServerProcess(() => this.serverPath, () => this.serverName);
+    this.lifecycle = new ServerLifecycle();
     this.isRunning = false;
     this.startTime = null;
     this.configLoaded = false;
     this.publicIp = null;
     this.gamePort = null;
     this.fetchingIp = false;
+    this.discordBot = null;
+    this.serverConsole = null;
+
+    // Crash watchdog state
+    this.lastSeenRunning = false;  // Last process check result (startServer doesn't set this)
+    this.stopExpectedUntil = 0;    // Set by expectStop() so intentional stops aren't crashes
+    this.stopReason = null;
+    this.crashRestartAttempts = 0;
+    this.crashRestartTimer = null;
+    this.crashRestartAt = null;
+    this.lastCrashRestartAt = null;
+    this.watchdogInterval = null;
   }
 
-  // Reload config (called when active server changes)
+  // Set reference to DiscordBot for crash notifications (called after both services are instantiated)
+  setDiscordBot(discordBot) {
+    this.discordBot = discordBot;
+  }
+
+  // Set the console capture that receives the output of servers started by the panel
+  setServerConsole(serverConsole) {
+    this.serverConsole = serverConsole;
+  }
+
+  // Reload config (called when the server instance changes)
   async reloadConfig() {
     // Reset all config to defaults before reloading
     this.serverPath = process.env.PZ_SERVER_PATH || '';
-    this.serverBat = process.env.PZ_SERVER_BAT || 'StartServer64.bat';
+    this.serverBat = process.env.PZ_SERVER_BAT || DEFAULT_START_SCRIPT;
     this.savePath = process.env.PZ_SAVE_PATH || '';
     this.serverName = 'servertest';
+    this.launchOptions = {};
     this.configLoaded = false;
     await this.loadConfig();
   }
 
-  // Load settings from active server or legacy database settings
+  // Files and processes of the server's host: this machine, or the agent of a remote server
+  useHost(hostFs) {
+    if (this.hostFs === hostFs) return;
+    this.hostFs = hostFs;
+    this.platform = createServerProcess(() => this.serverPath, () => this.serverName, hostFs.isRemote ? hostFs : null);
+  }
+
+  // Load settings from the server instance or legacy database settings
   async loadConfig() {
     if (this.configLoaded) return;
     try {
-      // First, try to load from active server (multi-server support)
-      const activeServer = await getActiveServer();
-      if (activeServer) {
+      // First, try to load from the server instance (multi-server support)
+      const instance = await resolveServer(this.serverId);
+      this.useHost(getHostFs(instance));
+      if (instance) {
         // Use serverPath if available, otherwise extract from installPath
-        let serverDir = activeServer.serverPath || activeServer.installPath;
+        let serverDir = instance.serverPath || instance.installPath;
         
         // If path points to a file (e.g., .bat), extract the directory
         if (serverDir) {
-          const serverDirLower = serverDir.toLowerCase();
-          if (serverDirLower.endsWith('.bat') || serverDirLower.endsWith('.sh') || serverDirLower.endsWith('.exe')) {
+          if (isStartScriptPath(serverDir)) {
             // Extract the batch file name before getting directory
-            const batchFileName = path.basename(serverDir);
-            serverDir = path.dirname(serverDir);
+            const batchFileName = this.hostFs.path.basename(serverDir);
+            serverDir = this.hostFs.path.dirname(serverDir);
             // Use the specified batch file
             this.serverBat = batchFileName;
             log.debug(`Using batch file from installPath: ${batchFileName}`);
@@ -65,26 +120,34 @@ export class ServerManager {
           log.debug(`Loaded serverPath: ${serverDir}`);
         }
         
-        if (activeServer.serverName) {
-          this.serverName = activeServer.serverName;
+        if (instance.serverName) {
+          this.serverName = instance.serverName;
           // Only look for custom batch file if we didn't already get one from installPath
-          if (!this.serverBat || this.serverBat === 'StartServer64.bat') {
-            const customBat = `StartServer_${activeServer.serverName}.bat`;
-            const customBatPath = path.join(this.serverPath, customBat);
-            if (fs.existsSync(customBatPath)) {
+          if (!this.serverBat || this.serverBat === DEFAULT_START_SCRIPT) {
+            const customBat = getCustomStartScriptName(instance.serverName);
+            const customBatPath = this.hostFs.path.join(this.serverPath, customBat);
+            if (await this.hostFs.exists(customBatPath)) {
               this.serverBat = customBat;
-            } else if (activeServer.useNoSteam) {
-              this.serverBat = 'StartServer64_nosteam.bat';
+            } else if (instance.useNoSteam) {
+              this.serverBat = NOSTEAM_START_SCRIPT;
             } else {
-              this.serverBat = 'StartServer64.bat';
+              this.serverBat = DEFAULT_START_SCRIPT;
             }
           }
         }
-        if (activeServer.zomboidDataPath) {
-          this.savePath = activeServer.zomboidDataPath;
+        if (instance.zomboidDataPath) {
+          this.savePath = instance.zomboidDataPath;
         }
+        this.launchOptions = {
+          minMemory: instance.minMemory,
+          maxMemory: instance.maxMemory,
+          serverPort: instance.serverPort,
+          useNoSteam: instance.useNoSteam,
+          useDebug: instance.useDebug,
+          extraLaunchArgs: instance.extraLaunchArgs
+        };
         this.configLoaded = true;
-        log.debug(`Loaded config from active server: ${activeServer.name}`);
+        log.debug(`Loaded config from server: ${instance.name}`);
         return;
       }
       
@@ -100,7 +163,7 @@ export class ServerManager {
       if (dbServerName) {
         this.serverName = dbServerName;
         // Use custom batch file if server was set up through the app
-        this.serverBat = `StartServer_${dbServerName}.bat`;
+        this.serverBat = getCustomStartScriptName(dbServerName);
       }
       if (dbZomboidPath) {
         this.savePath = dbZomboidPath;
@@ -112,54 +175,181 @@ export class ServerManager {
   }
 
   async checkServerRunning() {
-    return new Promise((resolve) => {
-      // Check if ProjectZomboid DEDICATED SERVER is running
-      // The dedicated server runs as java.exe with zombie.network.GameServer class
-      // The game client also uses ProjectZomboid64.exe, so we need to check command line
-      
-      // Set a timeout to prevent hanging if PowerShell is slow
-      const timeout = setTimeout(() => {
-        log.warn('checkServerRunning: PowerShell timed out, assuming server is not running');
-        resolve(false);
-      }, 10000); // 10 second timeout
-      
-      // First, check for java.exe with the GameServer class (primary server detection)
-      exec('powershell -Command "Get-CimInstance Win32_Process -Filter \\"Name=\'java.exe\'\\" | Select-Object CommandLine | Format-List"', { timeout: 8000 }, (psError, psStdout) => {
-        if (!psError && psStdout) {
-          // Check if any java process is running the PZ dedicated server
-          const isPZServer = psStdout.toLowerCase().includes('zombie.network.gameserver');
-          if (isPZServer) {
-            clearTimeout(timeout);
-            this.isRunning = true;
-            resolve(true);
-            return;
-          }
-        }
-        
-        // Fallback: Check for standalone server builds (ProjectZomboid64.exe with -server flag)
-        // The game client does NOT have -server in its command line
-        exec('powershell -Command "Get-CimInstance Win32_Process -Filter \\"Name=\'ProjectZomboid64.exe\'\\" | Select-Object CommandLine | Format-List"', { timeout: 8000 }, (psError2, psStdout2) => {
-          clearTimeout(timeout);
-          if (psError2 || !psStdout2) {
-            this.isRunning = false;
-            resolve(false);
-            return;
-          }
-          
-          // Check if it's a server process (has -server flag or zombie.network.gameserver)
-          const cmdLine = psStdout2.toLowerCase();
-          const isServer = cmdLine.includes('-server') || 
-                          cmdLine.includes('zombie.network.gameserver') ||
-                          cmdLine.includes('startserver');
-          
-          this.isRunning = isServer;
-          resolve(isServer);
-        });
-      });
-    });
+    await this.loadConfig();
+    const running = await this.platform.isRunning();
+    const wasRunning = this.lastSeenRunning;
+    this.isRunning = running;
+    this.lastSeenRunning = running;
+
+    if (running) {
+      this.lifecycle.processRunning();
+      this.markRecoveredIfStable();
+    } else if (wasRunning) {
+      this.handleServerExit('Server process is no longer running');
+    } else if (this.lifecycle.is('loading', 'ready', 'saving', 'stopping')) {
+      // Gone without ever being seen by this check (e.g. after a force stop)
+      this.lifecycle.processStopped(this.lifecycle.is('stopping') ? this.lifecycle.reason : 'server process not found');
+    }
+    return running;
+  }
+
+  // ============================================
+  // Crash Watchdog
+  // ============================================
+
+  /**
+   * Poll for the server process so crashes are noticed even when the panel
+   * didn't start the server (e.g. after a panel restart).
+   */
+  startWatchdog() {
+    if (this.watchdogInterval) return;
+    const check = () => this.checkServerRunning().catch(e => log.debug(`Watchdog check failed: ${e.message}`));
+    this.watchdogInterval = setInterval(check, WATCHDOG_POLL_MS);
+    // Pick up a server that was already running when the panel started
+    check();
+    log.info('Crash watchdog enabled');
+  }
+
+  stopWatchdog() {
+    if (this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
+    }
+    this.cancelCrashRestart();
+  }
+
+  resetWatchdog() {
+    this.cancelCrashRestart();
+    this.lastSeenRunning = false;
+    this.stopExpectedUntil = 0;
+    this.stopReason = null;
+    this.crashRestartAttempts = 0;
+    this.lastCrashRestartAt = null;
+  }
+
+  /**
+   * Mark the next server exit as intentional (panel stop, RCON quit,
+   * scheduled restart) so the watchdog doesn't treat it as a crash.
+   */
+  expectStop(reason) {
+    this.stopExpectedUntil = Date.now() + STOP_EXPECTED_MS;
+    this.stopReason = reason;
+    this.cancelCrashRestart();
+    this.lifecycle.stopRequested(reason);
+    log.debug(`Expecting server stop: ${reason}`);
+  }
+
+  isStopExpected() {
+    return Date.now() < this.stopExpectedUntil;
+  }
+
+  cancelCrashRestart() {
+    if (this.crashRestartTimer) {
+      clearTimeout(this.crashRestartTimer);
+      this.crashRestartTimer = null;
+      this.crashRestartAt = null;
+      log.info('Pending crash restart cancelled');
+    }
+  }
+
+  markRecoveredIfStable() {
+    if (this.crashRestartAttempts > 0 && this.lastCrashRestartAt &&
+        Date.now() - this.lastCrashRestartAt >= CRASH_STABLE_MS) {
+      log.info(`Server has been up for ${CRASH_STABLE_MS / 60000} minutes since the crash restart - resetting crash counter`);
+      this.crashRestartAttempts = 0;
+      this.lastCrashRestartAt = null;
+    }
+  }
+
+  async getCrashRestartSettings() {
+    const enabled = await getSetting('crashRestartEnabled');
+    const maxAttempts = parseInt(await getSetting('crashRestartMaxAttempts'), 10);
+    return {
+      enabled: enabled !== false && enabled !== 'false',
+      maxAttempts: maxAttempts > 0 ? maxAttempts : DEFAULT_CRASH_RESTART_ATTEMPTS
+    };
+  }
+
+  /**
+   * The server went away - an intentional stop, or a crash to report and
+   * (with backoff) restart from.
+   */
+  async handleServerExit(reason) {
+    this.isRunning = false;
+    this.lastSeenRunning = false;
+    this.startTime = null;
+
+    if (this.isStopExpected()) {
+      log.info(`Server stopped (${this.stopReason})`);
+      this.lifecycle.processStopped(this.stopReason);
+      this.stopExpectedUntil = 0;
+      this.stopReason = null;
+      return;
+    }
+    if (this.crashRestartTimer) return; // Already handling this crash
+    this.lifecycle.processCrashed(reason);
+
+    try {
+      const { enabled, maxAttempts } = await this.getCrashRestartSettings();
+      const attempt = this.crashRestartAttempts + 1;
+      let action;
+
+      if (!enabled) {
+        action = 'Automatic restart is disabled.';
+      } else if (attempt > maxAttempts) {
+        action = `Not restarting - gave up after ${maxAttempts} attempt(s).`;
+      } else {
+        const delay = Math.min(CRASH_RESTART_BASE_DELAY_MS * 2 ** (attempt - 1), CRASH_RESTART_MAX_DELAY_MS);
+        action = `Restarting in ${Math.round(delay / 1000)}s (attempt ${attempt}/${maxAttempts}).`;
+        this.crashRestartAttempts = attempt;
+        this.crashRestartAt = new Date(Date.now() + delay);
+        this.crashRestartTimer = setTimeout(() => this.restartAfterCrash(), delay);
+      }
+
+      log.error(`Server crashed: ${reason}. ${action}`);
+      logServerEvent('server_crash', `${reason}. ${action}`);
+      this.discordBot?.sendEventNotification('serverCrash', {
+        reason,
+        action,
+        attempt: String(Math.min(attempt, maxAttempts)),
+        maxAttempts: String(maxAttempts)
+      }).catch(e => log.warn(`Failed to send crash notification: ${e.message}`));
+    } catch (error) {
+      log.error(`Crash watchdog failed: ${error.message}`);
+    }
   }
 
-  async startServer() {
+  async restartAfterCrash() {
+    this.crashRestartTimer = null;
+    this.crashRestartAt = null;
+
+    try {
+      if (await this.checkServerRunning()) {
+        log.info('Server is already running again - skipping crash restart');
+        return;
+      }
+      log.info(`Restarting server after crash (attempt ${this.crashRestartAttempts})`);
+      await this.startServer({ crashRestart: true });
+      this.lastCrashRestartAt = Date.now();
+    } catch (error) {
+      await this.handleServerExit(`Crash restart failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Arguments for the start script. Windows scripts (and the scripts the
+   * panel generates) carry their own options; the stock Linux
+   * start-server.sh gets memory, cachedir and the rest from the server config.
+   */
+  getLaunchArgs() {
+    return getStartScriptArgs({
+      ...this.launchOptions,
+      serverName: this.serverName,
+      zomboidDataPath: this.savePath
+    }, this.serverBat);
+  }
+
+  async startServer({ crashRestart = false } = {}) {
     // Force reload config from database before starting (settings may have changed)
     this.configLoaded = false;
     await this.loadConfig();
@@ -173,10 +363,20 @@ export class ServerManager {
       throw new Error('Server is already running');
     }
 
-    const batPath = path.join(this.serverPath, this.serverBat);
+    const batPath = this.hostFs.path.join(this.serverPath, this.serverBat);
     
-    if (!fs.existsSync(batPath)) {
-      throw new Error(`Server batch file not found: ${batPath}`);
+    if (!(await this.hostFs.exists(batPath))) {
+      throw new Error(`Server start script not found: ${batPath}`);
+    }
+
+    if (this.platform.isRemote) {
+      // The agent runs the script on the server's host - there is no output to capture
+      log.info('Starting server process through the agent');
+      const pid = await this.platform.start({ script: this.serverBat, args: this.getLaunchArgs() });
+      this.lifecycle.processStarting(crashRestart ? 'restart after crash' : 'start requested');
+      this.markStarted(crashRestart);
+      log.info(`Server start command executed (PID ${pid} on the server's host)`);
+      return { success: true, message: 'Server start command executed' };
     }
 
     return new Promise((resolve, reject) => {
@@ -184,24 +384,40 @@ export class ServerManager {
         // Start the server process
         log.info('Starting server process');
         
-        this.serverProcess = spawn('cmd.exe', ['/c', this.serverBat], {
+        const serverProcess = this.platform.start({
           cwd: this.serverPath,
-          detached: true,
-          stdio: 'ignore'
+          script: this.serverBat,
+          args: this.getLaunchArgs()
         });
+        this.serverProcess = serverProcess;
+        this.lifecycle.processStarting(crashRestart ? 'restart after crash' : 'start requested');
+        this.serverConsole?.attach(serverProcess);
         
         // Handle spawn errors (e.g., invalid path, permissions)
-        this.serverProcess.on('error', (error) => {
+        serverProcess.on('error', (error) => {
           log.error(`Server process error: ${error.message}`);
           this.isRunning = false;
+          if (this.serverProcess === serverProcess) this.serverProcess = null;
+          this.lifecycle.processCrashed(`Failed to start: ${error.message}`);
+        });
+        
+        // Forget the PID once the start script exits so it is never signalled after reuse,
+        // and let the watchdog decide whether the server went down with it
+        serverProcess.on('exit', (code, signal) => {
+          if (this.serverProcess !== serverProcess) return;
           this.serverProcess = null;
+          this.checkServerRunning()
+            .then(running => {
+              // Died before the watchdog ever saw it running
+              if (!running && this.startTime) {
+                this.handleServerExit(`Start script exited (${signal || `code ${code}`})`);
+              }
+            })
+            .catch(e => log.debug(`Exit check failed: ${e.message}`));
         });
         
         this.serverProcess.unref();
-        this.isRunning = true;
-        this.startTime = new Date();
-        
-        logServerEvent('server_start', 'Server started via manager');
+        this.markStarted(crashRestart);
         log.info('Server start command executed');
         
         resolve({ success: true, message: 'Server start command executed' });
@@ -212,6 +428,21 @@ export class ServerManager {
     });
   }
 
+  // Bookkeeping for a server the panel just started
+  markStarted(crashRestart) {
+    this.isRunning = true;
+    this.startTime = new Date();
+    this.stopExpectedUntil = 0;
+    this.stopReason = null;
+    // A start from anywhere but the watchdog begins a fresh crash history
+    if (!crashRestart) {
+      this.cancelCrashRestart();
+      this.crashRestartAttempts = 0;
+      this.lastCrashRestartAt = null;
+    }
+    logServerEvent('server_start', crashRestart ? 'Server restarted after crash' : 'Server started via manager');
+  }
+
   async stopServer(graceful = true) {
     if (graceful) {
       // This should be done via RCON 'quit' command
@@ -220,37 +451,22 @@ export class ServerManager {
       return { success: true, message: 'Use RCON quit command for graceful shutdown' };
     }
 
-    return new Promise((resolve, reject) => {
-      // First try to kill java.exe running the PZ dedicated server
-      exec('powershell -Command "Get-CimInstance Win32_Process -Filter \\"Name=\'java.exe\'\\" | Where-Object { $_.CommandLine -like \'*zombie.network.gameserver*\' } | ForEach-Object { Stop-Process -Id $_.ProcessId -Force }"', (javaErr) => {
-        // Also try to kill ProjectZomboid64.exe (for standalone builds)
-        exec('taskkill /IM ProjectZomboid64.exe /F', (pzError, stdout, stderr) => {
-          // Check if at least one process was killed
-          const javaKilled = !javaErr;
-          const pzKilled = !pzError;
-          
-          if (!javaKilled && !pzKilled) {
-            // Neither process found - server wasn't running
-            if (pzError && pzError.message.includes('not found')) {
-              resolve({ success: true, message: 'Server was not running' });
-              return;
-            }
-            // Some other error
-            resolve({ success: true, message: 'Server may not have been running' });
-            return;
-          }
-          
-          this.isRunning = false;
-          this.serverProcess = null;
-          this.startTime = null;
-          
-          logServerEvent('server_stop', 'Server force stopped');
-          log.info('Server force stopped');
-          
-          resolve({ success: true, message: 'Server stopped' });
-        });
-      });
-    });
+    this.expectStop('force stop');
+    const result = await this.platform.stop(this.serverProcess?.pid);
+    if (!result.stopped) {
+      return { success: true, message: result.message };
+    }
+
+    this.isRunning = false;
+    this.lastSeenRunning = false;
+    this.serverProcess = null;
+    this.startTime = null;
+    this.lifecycle.processStopped('force stop');
+
+    logServerEvent('server_stop', 'Server force stopped');
+    log.info('Server force stopped');
+
+    return { success: true, message: 'Server stopped' };
   }
 
   async restartServer(rconService, warningMinutes = 5) {
@@ -259,7 +475,7 @@ export class ServerManager {
       const sendWarning = async (msg) => {
         try {
           await Promise.race([
-            rconService.serverMessage(msg),
+            rconService.serverMessage(msg, { source: 'system', priority: 'critical' }),
             this.sleep(5000).then(() => { throw new Error('RCON timeout'); })
           ]);
         } catch (e) {
@@ -285,7 +501,7 @@ export class ServerManager {
       // Save the world (with timeout)
       try {
         await Promise.race([
-          rconService.save(),
+          rconService.save({ source: 'system' }),
           this.sleep(10000).then(() => { throw new Error('Save timeout'); })
         ]);
       } catch (e) {
@@ -294,9 +510,10 @@ export class ServerManager {
       await this.sleep(3000);
 
       // Quit the server (with timeout)
+      this.expectStop('restart');
       try {
         await Promise.race([
-          rconService.quit(),
+          rconService.quit({ source: 'system' }),
           this.sleep(10000).then(() => { throw new Error('Quit timeout'); })
         ]);
       } catch (e) {
@@ -348,6 +565,7 @@ export class ServerManager {
     
     return {
       running: isRunning,
+      lifecycle: this.lifecycle.getState(),
       startTime: this.startTime,
       uptime: uptimeSeconds,
       serverPath: this.serverPath,
@@ -0,0 +1,267 @@
+import { spawn, exec } from 'child_process';
+import path from 'path';
+import fs from 'fs';
+import { createLogger } from '../utils/logger.js';
+const log = createLogger('Server');
+import { IS_WINDOWS } from '../utils/platform.js';
+
+// The dedicated server's main class - present in the java command line
+const SERVER_MAIN_CLASS = 'zombie.network.gameserver';
+
+// Linux launcher binary started by start-server.sh
+const LINUX_LAUNCHER = 'ProjectZomboid64';
+
+// How long a SIGTERM gets before the server is killed outright
+const STOP_TIMEOUT_MS = 15000;
+const STOP_POLL_MS = 500;
+
+// Java and launcher processes with their command lines, as JSON
+const WINDOWS_PROCESS_QUERY = 'powershell -Command "Get-CimInstance Win32_Process -Filter \\"Name=\'java.exe\' OR Name=\'ProjectZomboid64.exe\'\\" | Select-Object ProcessId,Name,CommandLine | ConvertTo-Json -Compress"';
+
+// Server name used when a server is started without -servername
+const DEFAULT_SERVER_NAME = 'servertest';
+
+/**
+ * Whether a server command line runs the given server name. Several servers
+ * can share one install, so the name is what tells them apart.
+ */
+function matchesServerName(commandLine, serverName) {
+  if (!serverName) return true;
+  const match = /-servername\s+"?([^\s"]+)/i.exec(commandLine);
+  return (match ? match[1] : DEFAULT_SERVER_NAME).toLowerCase() === serverName.toLowerCase();
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Windows: start scripts run through cmd.exe, processes are found through
+ * PowerShell and killed with taskkill.
+ */
+class WindowsServerProcess {
+  constructor(getServerName) {
+    this.getServerName = getServerName;
+  }
+
+  /** Dedicated server processes for the configured server name */
+  findServerProcesses() {
+    return new Promise((resolve) => {
+      // Set a timeout to prevent hanging if PowerShell is slow
+      const timeout = setTimeout(() => {
+        log.warn('checkServerRunning: PowerShell timed out, assuming server is not running');
+        resolve([]);
+      }, 10000); // 10 second timeout
+
+      exec(WINDOWS_PROCESS_QUERY, { timeout: 8000 }, (psError, psStdout) => {
+        clearTimeout(timeout);
+        if (psError || !psStdout.trim()) {
+          resolve([]);
+          return;
+        }
+
+        let processes;
+        try {
+          processes = [].concat(JSON.parse(psStdout));
+        } catch {
+          resolve([]);
+          return;
+        }
+
+        resolve(processes.filter(({ Name, CommandLine }) => {
+          const cmdLine = (CommandLine || '').toLowerCase();
+          // The dedicated server runs as java.exe with the GameServer class. The game
+          // client also uses ProjectZomboid64.exe, so standalone server builds are
+          // told apart by -server/startserver in the command line.
+          const isServer = Name === 'java.exe'
+            ? cmdLine.includes(SERVER_MAIN_CLASS)
+            : cmdLine.includes('-server') || cmdLine.includes(SERVER_MAIN_CLASS) || cmdLine.includes('startserver');
+          return isServer && matchesServerName(CommandLine || '', this.getServerName());
+        }).map(({ ProcessId }) => ProcessId));
+      });
+    });
+  }
+
+  async isRunning() {
+    return (await this.findServerProcesses()).length > 0;
+  }
+
+  start({ cwd, script }) {
+    return spawn('cmd.exe', ['/c', script], {
+      cwd,
+      detached: true,
+      windowsHide: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+  }
+
+  async stop() {
+    const pids = await this.findServerProcesses();
+    if (pids.length === 0) {
+      return { stopped: false, message: 'Server was not running' };
+    }
+
+    return new Promise((resolve) => {
+      exec(`taskkill ${pids.map(pid => `/PID ${pid}`).join(' ')} /T /F`, (error) => {
+        if (error) {
+          log.warn(`taskkill failed: ${error.message}`);
+        }
+        resolve({ stopped: true });
+      });
+    });
+  }
+}
+
+/**
+ * Linux: start scripts run through bash in their own process group, the
+ * server is found through /proc (or pgrep where there is no /proc) and
+ * stopped with signals - SIGTERM first, SIGKILL if it does not exit.
+ */
+class LinuxServerProcess {
+  constructor(getServerPath, getServerName) {
+    this.getServerPath = getServerPath;
+    this.getServerName = getServerName;
+  }
+
+  /** Whether a process is the dedicated server for the configured install and server name */
+  matchesServer(argv, cwd) {
+    const commandLine = argv.join(' ');
+    if (!matchesServerName(commandLine, this.getServerName())) return false;
+    if (commandLine.toLowerCase().includes(SERVER_MAIN_CLASS)) return true;
+
+    // start-server.sh runs the launcher from the install folder, with the
+    // main class in ProjectZomboid64.json rather than on the command line
+    if (path.basename(argv[0] || '') !== LINUX_LAUNCHER) return false;
+    const serverPath = this.getServerPath();
+    return !serverPath || (!!cwd && path.resolve(cwd) === path.resolve(serverPath));
+  }
+
+  async findServerPids() {
+    if (!fs.existsSync('/proc')) {
+      return this.findServerPidsWithPgrep();
+    }
+
+    const pids = [];
+    for (const entry of await fs.promises.readdir('/proc')) {
+      if (!/^\d+$/.test(entry) || Number(entry) === process.pid) continue;
+      try {
+        const argv = (await fs.promises.readFile(`/proc/${entry}/cmdline`, 'utf8')).split('\0').filter(Boolean);
+        if (argv.length === 0) continue;
+        const cwd = await fs.promises.readlink(`/proc/${entry}/cwd`).catch(() => null);
+        if (this.matchesServer(argv, cwd)) pids.push(Number(entry));
+      } catch {
+        // Process exited while scanning, or belongs to another user
+      }
+    }
+    return pids;
+  }
+
+  findServerPidsWithPgrep() {
+    return new Promise((resolve) => {
+      exec(`pgrep -l -f -i ${SERVER_MAIN_CLASS}`, { timeout: 8000 }, (error, stdout) => {
+        // pgrep exits 1 when nothing matches; -l -f lists "<pid> <command line>"
+        if (error) {
+          resolve([]);
+          return;
+        }
+        resolve(stdout.split('\n')
+          .map(line => line.trim().split(/\s+/))
+          .filter(([pid, ...argv]) => Number(pid) > 0 && Number(pid) !== process.pid && matchesServerName(argv.join(' '), this.getServerName()))
+          .map(([pid]) => Number(pid)));
+      });
+    });
+  }
+
+  async isRunning() {
+    try {
+      return (await this.findServerPids()).length > 0;
+    } catch (error) {
+      log.warn(`checkServerRunning: process scan failed, assuming server is not running: ${error.message}`);
+      return false;
+    }
+  }
+
+  start({ cwd, script, args = [] }) {
+    // detached puts the script and everything it starts in one process group
+    return spawn('bash', [script, ...args], {
+      cwd,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+  }
+
+  /** Send a signal, returning false if the process (group) no longer exists */
+  signal(pid, signal) {
+    try {
+      process.kill(pid, signal);
+      return true;
+    } catch (error) {
+      if (error.code !== 'ESRCH') {
+        log.warn(`Failed to send ${signal} to ${pid}: ${error.message}`);
+      }
+      return false;
+    }
+  }
+
+  async stop(trackedPid) {
+    // Negative PID = the tracked start script's whole process group
+    const targets = [...(trackedPid ? [-trackedPid] : []), ...await this.findServerPids()];
+    const signalled = targets.filter(pid => this.signal(pid, 'SIGTERM'));
+    if (signalled.length === 0) {
+      return { stopped: false, message: 'Server was not running' };
+    }
+
+    log.info(`Sent SIGTERM to ${signalled.join(', ')}`);
+    const deadline = Date.now() + STOP_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await sleep(STOP_POLL_MS);
+      if (signalled.every(pid => !this.signal(pid, 0))) {
+        return { stopped: true };
+      }
+    }
+
+    const remaining = signalled.filter(pid => this.signal(pid, 'SIGKILL'));
+    log.warn(`Server did not exit within ${STOP_TIMEOUT_MS / 1000}s - sent SIGKILL to ${remaining.join(', ')}`);
+    return { stopped: true };
+  }
+}
+
+/**
+ * Remote servers: the server's agent finds, starts and stops it on its own
+ * host (routes/agent.js). There is no local child process, so the start
+ * script's output is not captured and the watchdog notices when it exits.
+ */
+class RemoteServerProcess {
+  constructor(agent, getServerPath, getServerName) {
+    this.isRemote = true;
+    this.agent = agent;
+    this.getServerPath = getServerPath;
+    this.getServerName = getServerName;
+  }
+
+  // Throws when the agent is unreachable, so that is never taken for a crash
+  isRunning() {
+    return this.agent.isServerRunning(this.getServerPath(), this.getServerName());
+  }
+
+  /** Resolves with the PID of the start script on the agent's host */
+  start({ script, args = [] }) {
+    return this.agent.startServer(this.getServerPath(), this.getServerName(), script, args);
+  }
+
+  stop() {
+    return this.agent.stopServer(this.getServerPath(), this.getServerName());
+  }
+}
+
+/**
+ * Process controller for the host platform, or for a remote server's host
+ * when `agent` (its AgentClient) is given.
+ * `getServerPath` and `getServerName` return the configured install folder
+ * and server name, used to tell this server apart from other Project Zomboid
+ * processes (including other servers managed by the panel).
+ */
+export function createServerProcess(getServerPath, getServerName = () => null, agent = null) {
+  if (agent) return new RemoteServerProcess(agent, getServerPath, getServerName);
+  return IS_WINDOWS ? new WindowsServerProcess(getServerName) : new LinuxServerProcess(getServerPath, getServerName);
+}
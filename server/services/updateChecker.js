@@ -4,6 +4,7 @@ import fs from 'fs';
 import { createLogger } from '../utils/logger.js';
 const log = createLogger('Updates');
 import { getSetting, setSetting } from '../database/init.js';
+import { findSteamCmdExecutable } from '../utils/platform.js';
 
 /**
  * Service to check for PZ server updates via Steam
@@ -111,11 +112,8 @@ export class UpdateChecker {
    * Get latest build info from Steam for a specific branch
    */
   async getLatestBuildInfo(steamcmdPath, branch = 'public') {
-    const steamcmdExe = path.join(steamcmdPath, 'steamcmd.exe');
-      
-    try {
-        await fs.promises.access(steamcmdExe);
-    } catch(e) {
+    const steamcmdExe = findSteamCmdExecutable(steamcmdPath);
+    if (!steamcmdExe) {
         throw new Error('SteamCMD not found');
     }
 
@@ -0,0 +1,176 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { SimulatedWorld } from './simulator/world.js';
+import { SimulatedRconServer } from './simulator/rconServer.js';
+import { SimulatedBridge } from './simulator/bridge.js';
+import { createRconCommandHandler } from './simulator/rconCommands.js';
+import { createSimulatorInstall, defaultServerOptions, readServerOptions, writeServerOptions } from './simulator/setup.js';
+
+// ============================================
+// Project Zomboid Server Simulator
+// ============================================
+//
+// A stand-in for a dedicated server, for working on the panel without
+// the game. It answers RCON like the game, writes server-console.txt
+// (chat included) and runs the PanelBridge file protocol, while simulated
+// players join, leave and chat.
+//
+// Create a fake install once, add a server in the panel with the printed
+// paths and RCON settings, then start and stop it from the panel:
+//
+//   npm run simulator -- --setup <folder> [--name servertest] [--rcon-port 27015] [--rcon-password simulator]
+//
+// The generated start scripts run this file with the game's arguments
+// (-servername <name>, -cachedir=<Zomboid folder>). Tuning:
+//
+//   SIM_STARTUP_SECONDS   time before "SERVER STARTED" (default 5)
+//   SIM_ACTIVITY_SECONDS  seconds between player joins/leaves/chat (default 20, 0 turns it off)
+//   SIM_MAX_PLAYERS       players online at most (default 6)
+
+dotenv.config();
+
+const DEFAULT_SERVER_NAME = 'servertest';
+
+function envNumber(name, fallback) {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** Game-style (-servername x, -cachedir=x) and setup (--setup x) arguments; later ones win */
+function parseArgs(argv) {
+  const args = { serverName: DEFAULT_SERVER_NAME, cacheDir: path.join(os.homedir(), 'Zomboid') };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i];
+    if (arg === '-servername') args.serverName = next() || DEFAULT_SERVER_NAME;
+    else if (arg.startsWith('-cachedir=')) args.cacheDir = arg.slice('-cachedir='.length);
+    else if (arg === '--setup') args.setup = next() || '.';
+    else if (arg === '--name') args.serverName = next() || DEFAULT_SERVER_NAME;
+    else if (arg === '--rcon-port') args.rconPort = parseInt(next(), 10);
+    else if (arg === '--rcon-password') args.rconPassword = next();
+  }
+  return args;
+}
+
+function runSetup(args) {
+  const install = createSimulatorInstall(args.setup, {
+    serverName: args.serverName,
+    rconPort: args.rconPort || undefined,
+    rconPassword: args.rconPassword || undefined
+  });
+  console.log('[Simulator] Created a simulated server install. Add a server in the panel with:');
+  console.log(`  Server name:      ${install.serverName}`);
+  console.log(`  Install path:     ${install.installPath}`);
+  console.log(`  Zomboid data:     ${install.zomboidDataPath}`);
+  console.log(`  Game port:        ${install.serverPort}`);
+  console.log(`  RCON:             127.0.0.1:${install.rconPort} (password: ${install.rconPassword})`);
+  console.log('[Simulator] Start it from the panel, or run the start script in the install path');
+}
+
+function formatChatTime(date) {
+  const pad = (value, length = 2) => String(value).padStart(length, '0');
+  return `${pad(date.getDate())}-${pad(date.getMonth() + 1)}-${pad(date.getFullYear() % 100)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+async function runServer({ serverName, cacheDir }) {
+  const startupMs = envNumber('SIM_STARTUP_SECONDS', 5) * 1000;
+  const activityMs = envNumber('SIM_ACTIVITY_SECONDS', 20) * 1000;
+  const maxPlayers = envNumber('SIM_MAX_PLAYERS', 6);
+
+  fs.mkdirSync(cacheDir, { recursive: true });
+  // The game starts a new server-console.txt every run
+  const consoleFile = fs.createWriteStream(path.join(cacheDir, 'server-console.txt'), { flags: 'w' });
+  const writeLine = (line) => {
+    console.log(line);
+    consoleFile.write(`${line}\n`);
+  };
+  const logLine = (category, message) => {
+    writeLine(`LOG  : ${category.padEnd(12)}, ${Date.now()}> ${message}`);
+  };
+
+  // Like the game, a missing ini is created with defaults - and RCON stays
+  // off until it has a password
+  const iniPath = path.join(cacheDir, 'Server', `${serverName}.ini`);
+  if (!fs.existsSync(iniPath)) {
+    fs.mkdirSync(path.dirname(iniPath), { recursive: true });
+    writeServerOptions(iniPath, defaultServerOptions({ serverName }));
+  }
+
+  const world = new SimulatedWorld({ serverName, serverOptions: readServerOptions(iniPath), maxPlayers });
+  world.on('console', logLine);
+  world.on('chat', (author, message) => writeLine(`[${formatChatTime(new Date())}] [chat] <${author}> ${message}`));
+
+  const bridge = new SimulatedBridge(world, path.join(cacheDir, 'Lua', 'panelbridge', serverName));
+  let rcon = null;
+  let stopping = false;
+
+  const shutdown = async (reason) => {
+    if (stopping) return;
+    stopping = true;
+    logLine('General', `${reason} - server is shutting down`);
+    world.stop();
+    bridge.stop();
+    world.save();
+    await rcon?.close();
+    logLine('General', 'Server stopped');
+    consoleFile.end(() => process.exit(0));
+    setTimeout(() => process.exit(0), 2000).unref();
+  };
+
+  process.on('SIGTERM', () => shutdown('Received SIGTERM'));
+  process.on('SIGINT', () => shutdown('Received SIGINT'));
+
+  logLine('General', 'versionNumber=41.78.16 demo=false (simulator)');
+  logLine('General', `cachedir set to "${cacheDir}"`);
+  logLine('General', `servername is "${serverName}"`);
+  logLine('Network', `server is listening on port ${world.options.get('DefaultPort') || 16261}`);
+  logLine('General', 'Loading world...');
+
+  await new Promise(resolve => setTimeout(resolve, startupMs));
+  if (stopping) return;
+
+  const rconPort = parseInt(world.options.get('RCONPort'), 10) || 27015;
+  const rconPassword = world.options.get('RCONPassword') || '';
+  if (rconPassword) {
+    rcon = new SimulatedRconServer({
+      port: rconPort,
+      password: rconPassword,
+      handler: createRconCommandHandler(world, {
+        onQuit: () => shutdown('Quit command received'),
+        saveOptions: () => writeServerOptions(iniPath, world.options),
+        reloadOptions: () => { world.options = readServerOptions(iniPath); }
+      })
+    });
+    rcon.on('auth', ({ success, address }) => {
+      logLine('General', success ? `RCON: connection from ${address} authenticated` : `RCON: wrong password from ${address}`);
+    });
+    try {
+      await rcon.listen();
+      logLine('General', `RCON: listening on port ${rconPort}`);
+    } catch (error) {
+      logLine('General', `ERROR: RCON: could not listen on port ${rconPort}: ${error.message}`);
+      rcon = null;
+    }
+  } else {
+    logLine('General', 'RCON: RCONPassword is empty, RCON is disabled');
+  }
+
+  bridge.start();
+  logLine('Lua', `[PanelBridge] Ready at: panelbridge/${serverName}/`);
+
+  world.start(activityMs);
+  writeLine('*** SERVER STARTED ****');
+}
+
+const args = parseArgs(process.argv.slice(2));
+if (args.setup) {
+  runSetup(args);
+} else {
+  runServer(args).catch(error => {
+    console.error(`[Simulator] ${error.stack || error.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,412 @@
+import fs from 'fs';
+import path from 'path';
+
+// ============================================
+// Simulated PanelBridge Mod
+// ============================================
+//
+// Does what pz-mod/PanelBridge does inside a real server, against the
+// simulated world: reads commands.json, answers each command once in
+// results.json and rewrites status.json every few seconds, all in
+// {cachedir}/Lua/panelbridge/{serverName}/. Results have the same shape as
+// the Lua handlers' so services/panelBridge.js cannot tell the difference.
+
+const VERSION = '1.4.3-sim';
+const CHECK_INTERVAL_MS = 500;
+const STATUS_INTERVAL_MS = 3000;
+const MAX_RESULTS = 50;
+
+function writeJsonAtomic(filePath, data) {
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data));
+  fs.renameSync(tempPath, filePath);
+}
+
+function readText(filePath) {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return '';
+  }
+}
+
+function parseJson(content) {
+  try {
+    return content.trim() ? JSON.parse(content) : null;
+  } catch {
+    return null;
+  }
+}
+
+export class SimulatedBridge {
+  constructor(world, bridgePath) {
+    this.world = world;
+    this.bridgePath = bridgePath;
+    this.processedIds = new Set();
+    this.stats = { processed: 0, succeeded: 0, failed: 0 };
+    this.startTime = Date.now();
+    this.commandTimer = null;
+    this.statusTimer = null;
+    this.handlers = this.createHandlers();
+  }
+
+  file(name) {
+    return path.join(this.bridgePath, name);
+  }
+
+  start() {
+    fs.mkdirSync(this.bridgePath, { recursive: true });
+    fs.writeFileSync(this.file('.init'), `PanelBridge initialized at ${new Date().toString()}`);
+    fs.writeFileSync(this.file('commands.json'), '');
+    writeJsonAtomic(this.file('startup.json'), {
+      version: VERSION,
+      startTime: this.startTime,
+      path: `panelbridge/${this.world.serverName}/`,
+      detectedVersion: 'simulator',
+      serverName: this.world.serverName
+    });
+    this.updateStatus();
+    this.commandTimer = setInterval(() => this.processCommands(), CHECK_INTERVAL_MS);
+    this.statusTimer = setInterval(() => this.updateStatus(), STATUS_INTERVAL_MS);
+  }
+
+  stop() {
+    clearInterval(this.commandTimer);
+    clearInterval(this.statusTimer);
+    this.commandTimer = null;
+    this.statusTimer = null;
+  }
+
+  updateStatus() {
+    const players = this.world.getPlayerNames();
+    writeJsonAtomic(this.file('status.json'), {
+      alive: true,
+      version: VERSION,
+      timestamp: Date.now(),
+      serverName: this.world.serverName,
+      playerCount: players.length,
+      players,
+      path: `panelbridge/${this.world.serverName}/`,
+      debugMode: false,
+      stats: { ...this.stats }
+    });
+  }
+
+  sendResult(id, success, data, error) {
+    const results = parseJson(readText(this.file('results.json'))) || { results: [] };
+    results.results = [...(results.results || []), { id, success, data, error, timestamp: Date.now() }].slice(-MAX_RESULTS);
+    writeJsonAtomic(this.file('results.json'), results);
+  }
+
+  processCommands() {
+    const content = readText(this.file('commands.json'));
+    const commands = parseJson(content);
+    if (!commands?.commands?.length) return;
+
+    for (const command of commands.commands) {
+      if (!command.id || this.processedIds.has(command.id)) continue;
+      this.processedIds.add(command.id);
+      this.stats.processed++;
+
+      const handler = this.handlers[command.action];
+      let outcome;
+      try {
+        outcome = handler ? handler(command.args || {}) : [false, null, `Unknown command: ${command.action}`];
+      } catch (error) {
+        outcome = [false, null, `Handler crashed: ${error.message}`];
+      }
+      const [success, data = null, error = null] = outcome;
+      if (success) this.stats.succeeded++;
+      else this.stats.failed++;
+      this.sendResult(command.id, success, data, error);
+    }
+
+    // Like the mod: clear the file once read (unless the panel has written
+    // more commands meanwhile), and forget old ids now and then
+    if (readText(this.file('commands.json')) === content) {
+      fs.writeFileSync(this.file('commands.json'), '');
+    }
+    if (this.processedIds.size > 100) this.processedIds.clear();
+  }
+
+  /** Handlers return [success, data, error], like the Lua handlers' three results */
+  createHandlers() {
+    const world = this.world;
+    const ok = data => [true, data];
+    const fail = error => [false, null, error];
+
+    const withPlayer = (username, action) => {
+      if (!username) return fail('Username required');
+      const player = world.findPlayer(username);
+      return player ? action(player) : fail(`Player not found: ${username}`);
+    };
+
+    const setFloat = (floatId, value, enable = true) => {
+      const float = world.climate[floatId];
+      float.adminEnabled = enable;
+      if (enable) float.adminValue = value;
+      return float;
+    };
+
+    const floatSetter = (floatId, label) => ({ value }) => {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return fail('value is required');
+      setFloat(floatId, number);
+      return ok({ message: `${label} set`, value: number });
+    };
+
+    const locate = ({ x, y, z, username }) => {
+      if (username) {
+        const player = world.findPlayer(username);
+        if (!player) return { error: `Player not found: ${username}` };
+        return { x: player.x, y: player.y, z: player.z };
+      }
+      if (!Number.isFinite(Number(x)) || !Number.isFinite(Number(y))) {
+        return { error: 'Either coordinates (x, y) or username is required' };
+      }
+      return { x: Number(x), y: Number(y), z: Number(z) || 0 };
+    };
+
+    const sound = (message, radius) => (args) => {
+      const position = locate(args);
+      if (position.error) return fail(position.error);
+      return ok({ message, ...position, radius: Number(args.radius) || radius });
+    };
+
+    const handlers = {
+      ping: () => ok({ message: 'pong', version: VERSION, serverTime: Date.now(), playerCount: world.players.size }),
+      getStats: () => ok({
+        version: VERSION,
+        uptime: Math.floor((Date.now() - this.startTime) / 1000),
+        commandsProcessed: this.stats.processed,
+        commandsSucceeded: this.stats.succeeded,
+        commandsFailed: this.stats.failed,
+        lastError: null,
+        recentErrors: [],
+        debugMode: false,
+        detectedVersion: 'simulator'
+      }),
+      getAvailableHandlers: () => ok({ handlers: Object.keys(handlers).sort(), count: Object.keys(handlers).length, version: VERSION }),
+      getServerInfo: () => {
+        const time = world.getGameTime();
+        return ok({
+          players: [...world.players.values()].map(p => ({ name: p.username, x: Math.floor(p.x), y: Math.floor(p.y), z: p.z, health: p.health })),
+          playerCount: world.players.size,
+          gameTime: { day: time.day, month: time.month, year: time.year, hour: Math.floor(time.hour), minute: time.minute }
+        });
+      },
+
+      // ── Weather and climate ──
+      getWeather: () => ok(world.getWeather()),
+      triggerBlizzard: ({ duration = 2 }) => {
+        world.startWeather('blizzard', duration);
+        return ok({ message: 'Blizzard triggered', duration });
+      },
+      triggerTropicalStorm: ({ duration = 2 }) => {
+        world.startWeather('tropical', duration);
+        return ok({ message: 'Tropical storm triggered', duration });
+      },
+      triggerStorm: ({ duration = 2 }) => {
+        world.startWeather('storm', duration);
+        return ok({ message: 'Storm triggered', duration });
+      },
+      stopWeather: () => {
+        world.stopWeather();
+        return ok({ message: 'Weather stopped' });
+      },
+      setSnow: ({ enabled }) => {
+        world.weather.snow = enabled !== false;
+        return ok({ message: `Snow ${world.weather.snow ? 'enabled' : 'disabled'}`, enabled: world.weather.snow });
+      },
+      startRain: ({ intensity = 0.5 }) => {
+        world.startWeather('rain', 2);
+        setFloat(3, Math.max(0, Math.min(1, Number(intensity) || 0.5)));
+        return ok({ message: 'Rain started', intensity });
+      },
+      stopRain: () => {
+        world.stopWeather();
+        setFloat(3, 0, false);
+        return ok({ message: 'Rain stopped' });
+      },
+      triggerLightning: (args) => ok({ message: 'Lightning triggered', x: args.x ?? null, y: args.y ?? null }),
+      setDayLight: floatSetter(11, 'Daylight'),
+      setNightStrength: floatSetter(2, 'Night strength'),
+      setDesaturation: floatSetter(0, 'Desaturation'),
+      setViewDistance: floatSetter(10, 'View distance'),
+      setAmbient: floatSetter(9, 'Ambient'),
+      setTemperature: floatSetter(4, 'Temperature'),
+      setWind: floatSetter(6, 'Wind'),
+      setFog: floatSetter(5, 'Fog'),
+      setClouds: floatSetter(8, 'Clouds'),
+      setClimateFloat: ({ floatId, value, enable }) => {
+        const id = Number(floatId);
+        const number = Number(value);
+        if (!Number.isFinite(id) || !Number.isFinite(number)) return fail('floatId and value are required numbers');
+        if (!world.climate[id]) return fail(`Invalid float ID: ${floatId}`);
+        const float = setFloat(id, number, enable !== false);
+        return ok({ message: 'Climate float set', floatId: id, value: number, enabled: enable !== false, name: float.actualName });
+      },
+      resetClimateOverrides: () => {
+        for (const float of world.climate) float.adminEnabled = false;
+        return ok({ message: 'Climate overrides reset', floatsReset: world.climate.length });
+      },
+      getClimateFloats: () => ok({
+        floats: world.climate.map(float => ({
+          id: float.id,
+          name: float.name,
+          actualName: float.actualName,
+          value: world.climateValue(float.id),
+          min: float.min,
+          max: float.max,
+          isAdminEnabled: float.adminEnabled
+        }))
+      }),
+
+      // ── Sounds ──
+      playWorldSound: (args) => {
+        const position = locate(args);
+        if (position.error) return fail('x and y coordinates are required');
+        return ok({ message: 'World sound created', ...position, radius: Number(args.radius) || 50, volume: Number(args.volume) || 100 });
+      },
+      playSoundNearPlayer: (args) => withPlayer(args.username, player => ok({
+        message: 'Sound played near player', username: player.username, x: player.x, y: player.y, z: player.z, radius: Number(args.radius) || 50
+      })),
+      triggerGunshot: sound('Gunshot sound triggered', 150),
+      triggerAlarmSound: sound('Alarm sound triggered', 100),
+      createNoise: sound('Noise created', 50),
+
+      // ── Time and world ──
+      getGameTime: () => ok(world.getGameTime()),
+      setGameTime: (args) => ok({ message: 'Game time updated', updated: world.setGameTime(args) }),
+      getWorldStats: () => ok({ serverName: world.serverName, map: world.options.get('Map') || 'Muldraugh, KY', zombiesInCell: world.zombies }),
+      getSandboxOptions: () => ok({
+        options: { zombieCount: 3, zombieSpeed: 2, dayLength: 3, startMonth: 7, startDay: 9, waterShutoff: 2, elecShutoff: 2, zombieLore: 1, charactersPerPlayer: 1 }
+      }),
+      saveWorld: () => {
+        world.save();
+        return ok({ message: 'World save triggered' });
+      },
+      getUtilitiesStatus: () => ok({
+        hydroPowerOn: world.utilities.powerOn,
+        powerOn: world.utilities.powerOn,
+        waterOn: world.utilities.waterOn,
+        currentWorldHour: Math.floor(world.worldAgeHours),
+        elecShutStart: world.utilities.powerOn ? -1 : 0,
+        waterShutStart: world.utilities.waterOn ? -1 : 0,
+        elecShut: '2',
+        waterShut: '2',
+        elecShutModifier: 14,
+        waterShutModifier: 14
+      }),
+      restoreUtilities: ({ power, water }) => {
+        if (power !== false) world.utilities.powerOn = true;
+        if (water !== false) world.utilities.waterOn = true;
+        return ok({ message: 'Utilities restored', power: power !== false, water: water !== false, hydroPowerOn: true, debug: ['simulator'] });
+      },
+      shutOffUtilities: ({ power, water }) => {
+        if (power !== false) world.utilities.powerOn = false;
+        if (water !== false) world.utilities.waterOn = false;
+        return ok({ message: 'Utilities shut off', power: power !== false, water: water !== false, hydroPowerOn: false, debug: ['simulator'] });
+      },
+
+      // ── Players ──
+      getPlayerDetails: ({ username }) => withPlayer(username, player => ok({
+        username: player.username,
+        displayName: player.displayName,
+        x: player.x,
+        y: player.y,
+        z: player.z,
+        accessLevel: player.accessLevel,
+        isAlive: player.isAlive,
+        isAsleep: false,
+        isSneaking: false,
+        isRunning: false,
+        stats: { hunger: player.hunger, thirst: player.thirst, fatigue: player.fatigue, stress: 0, boredom: 0, unhappiness: 0, pain: 0, endurance: 1 },
+        health: { overallBodyHealth: player.health, isInfected: player.isInfected, isBleeding: false, health: player.health, temperature: 37, wetness: 0 }
+      })),
+      getAllPlayerDetails: () => ok({
+        players: [...world.players.values()].map(player => ({
+          username: player.username,
+          displayName: player.displayName,
+          x: player.x,
+          y: player.y,
+          z: player.z,
+          accessLevel: player.accessLevel,
+          isAlive: player.isAlive,
+          hunger: player.hunger,
+          thirst: player.thirst,
+          fatigue: player.fatigue,
+          health: player.health,
+          isInfected: player.isInfected
+        }))
+      }),
+      teleportPlayer: ({ username, x, y, z }) => withPlayer(username, player => {
+        if (!Number.isFinite(Number(x)) || !Number.isFinite(Number(y))) return fail('x and y coordinates are required');
+        Object.assign(player, { x: Number(x), y: Number(y), z: Number(z) || 0 });
+        return ok({ message: 'Player teleported', newPosition: { x: player.x, y: player.y, z: player.z } });
+      }),
+      healPlayer: ({ username }) => withPlayer(username, player => {
+        Object.assign(player, { health: 100, isInfected: false, isAlive: true, hunger: 0, thirst: 0, fatigue: 0 });
+        return ok({ message: 'Player healed', username: player.username, healed: true });
+      }),
+      killPlayer: ({ username }) => withPlayer(username, player => {
+        Object.assign(player, { health: 0, isAlive: false });
+        world.emit('console', 'General', `${player.username} died`);
+        return ok({ message: 'Player killed', username: player.username });
+      }),
+      setGodMode: ({ username, enabled }) => withPlayer(username, player => {
+        player.godMode = enabled !== false;
+        return ok({ message: `Godmode ${player.godMode ? 'enabled' : 'disabled'}`, username: player.username });
+      }),
+      setInvisible: ({ username, enabled }) => withPlayer(username, player => {
+        player.invisible = enabled !== false;
+        return ok({ message: `Invisibility ${player.invisible ? 'enabled' : 'disabled'}`, username: player.username });
+      }),
+      giveItem: ({ username, itemType, count = 1 }) => withPlayer(username, player => {
+        if (!itemType) return fail('itemType required');
+        const added = Math.max(1, parseInt(count, 10) || 1);
+        player.inventory[itemType] = (player.inventory[itemType] || 0) + added;
+        return ok({ message: `Gave ${added}x ${itemType}`, username: player.username, itemType, count: added });
+      }),
+
+      // ── Zombies ──
+      getZombieCount: () => ok({ zombieCount: world.zombies, note: 'Count is for currently loaded cells only' }),
+      clearZombiesNearPlayer: ({ username, radius = 50 }) => withPlayer(username, () => {
+        const removed = Math.min(world.zombies, Math.floor(Math.random() * 20) + 5);
+        world.zombies -= removed;
+        return ok({ message: `Removed ${removed} zombies`, radius, removed });
+      }),
+
+      // ── Chat ──
+      sendServerMessage: ({ message }) => {
+        if (!message) return fail('Message required');
+        world.broadcast(message);
+        return ok({ message: 'Message sent' });
+      },
+      sendToServerChat: ({ message, isAlert = false }) => {
+        if (!message) return fail('Message required');
+        world.broadcast(message);
+        return ok({ message: 'Message sent via fallback', isAlert });
+      },
+      sendToAdminChat: ({ message }) => {
+        if (!message) return fail('Message required');
+        world.chat('[Admin]', message);
+        return ok({ message: 'Message sent to admin chat' });
+      },
+      sendToGeneralChat: ({ message, author = '[Panel]' }) => {
+        if (!message) return fail('Message required');
+        world.chat(author, message);
+        return ok({ message: 'Message sent to general chat', author });
+      },
+      getChatInfo: () => ok({
+        availableChats: [
+          'serverChat - Messages from server to all players',
+          'adminChat - Messages visible only to admins',
+          'generalChat - Messages in general chat with custom author'
+        ],
+        simulator: true
+      })
+    };
+    return handlers;
+  }
+}
@@ -0,0 +1,302 @@
+import { PZ_COMMANDS, PERKS } from '../utils/commands.js';
+import { tokenizeCommand } from '../utils/rconParsers.js';
+
+// ============================================
+// Simulated RCON Commands
+// ============================================
+//
+// Answers to the commands in PZ_COMMANDS, worded like the game's own so
+// the panel's parsers (utils/rconParsers.js) see what a real server sends,
+// failures included ("User x doesn't exist.").
+
+const ACCESS_LEVELS = ['admin', 'moderator', 'overseer', 'gm', 'observer', 'none'];
+
+/** `-true` / `-false` / `true` / `false` among the arguments, or null to toggle */
+function toggleArg(args) {
+  const value = args.find(arg => /^-?(true|false)$/i.test(arg));
+  return value ? /true/i.test(value) : null;
+}
+
+function withoutToggle(args) {
+  return args.filter(arg => !/^-?(true|false)$/i.test(arg));
+}
+
+/** Remove `-r "reason"` and `-ip` from moderation arguments */
+function moderationArgs(args) {
+  const rest = [];
+  let reason = null;
+  let ip = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '-r') reason = args[++i] ?? null;
+    else if (args[i] === '-ip') ip = true;
+    else rest.push(args[i]);
+  }
+  return { target: rest[0], reason, ip };
+}
+
+/**
+ * Create the handler the RCON server calls with each command line.
+ * @param {SimulatedWorld} world
+ * @param {object} hooks
+ * @param {() => void} hooks.onQuit - the server was told to shut down
+ * @param {() => void} hooks.saveOptions - write world.options back to the ini
+ * @param {() => void} hooks.reloadOptions - read the ini into world.options again
+ */
+export function createRconCommandHandler(world, { onQuit, saveOptions, reloadOptions }) {
+  const requirePlayer = (username, action) => {
+    const player = world.findPlayer(username);
+    if (!player) return { error: `User ${username ?? ''} doesn't exist.` };
+    return { player: action(player) ?? player };
+  };
+
+  const setAdminMode = (mode, args, describe) => {
+    const username = withoutToggle(args)[0];
+    const result = requirePlayer(username, () => {});
+    if (result.error) return result.error;
+    const value = toggleArg(args);
+    result.player[mode] = value === null ? !result.player[mode] : value;
+    return describe(result.player.username, result.player[mode]);
+  };
+
+  const commands = {
+    help() {
+      return ['List of server commands :', ...Object.values(PZ_COMMANDS).map(cmd => `* ${cmd.command} : ${cmd.description}`)].join('\n');
+    },
+
+    // ── Server ──
+    save() {
+      world.save();
+      return 'World saved';
+    },
+    quit() {
+      setTimeout(onQuit, 100);
+      return 'Quit';
+    },
+    servermsg(args) {
+      if (!args[0]) return 'Missing argument: message';
+      world.broadcast(args.join(' '));
+      return 'Message sent.';
+    },
+    reloadoptions() {
+      reloadOptions();
+      return 'Options reloaded';
+    },
+    showoptions() {
+      const lines = [...world.options.entries()]
+        .filter(([name]) => !/password/i.test(name))
+        .map(([name, value]) => `* ${name}=${value}`);
+      return ['List Server Options:', ...lines].join('\n');
+    },
+    changeoption([name, ...value]) {
+      const key = [...world.options.keys()].find(option => option.toLowerCase() === String(name).toLowerCase());
+      if (!key) return `Option ${name ?? ''} doesn't exist.`;
+      world.options.set(key, value.join(' '));
+      saveOptions();
+      return `Option : ${key} is now : ${value.join(' ')}`;
+    },
+    checkModsNeedUpdate() {
+      setTimeout(() => world.emit('console', 'General', 'CheckModsNeedUpdate: Mods updated'), 2000);
+      return 'Checking started. The answer will be written in the log file and in the chat';
+    },
+    clear() {
+      return 'Console cleared';
+    },
+
+    // ── Players and moderation ──
+    players() {
+      const names = world.getPlayerNames();
+      return [`Players connected (${names.length}): `, ...names.map(name => `-${name}`)].join('\n');
+    },
+    kick(args) {
+      const { target, reason } = moderationArgs(args);
+      if (!world.disconnectPlayer(target, 'kicked')) return `User ${target ?? ''} doesn't exist.`;
+      return `User ${target} kicked.${reason ? ` Reason: ${reason}` : ''}`;
+    },
+    banuser(args) {
+      const { target, reason, ip } = moderationArgs(args);
+      if (!target) return 'Missing argument: username';
+      world.getAccount(target).banned = true;
+      world.disconnectPlayer(target, 'banned');
+      return `User ${target} is now banned${ip ? ' (IP)' : ''}${reason ? ` (${reason})` : ''}`;
+    },
+    unbanuser([target]) {
+      if (!target || !world.hasAccount(target)) return `User ${target ?? ''} doesn't exist.`;
+      world.getAccount(target).banned = false;
+      return `User ${target} is now un-banned`;
+    },
+    banid([steamId]) {
+      if (!/^\d{17}$/.test(steamId || '')) return `SteamID ${steamId ?? ''} is invalid`;
+      world.bannedIds.add(steamId);
+      return `SteamID ${steamId} is now banned`;
+    },
+    unbanid([steamId]) {
+      if (!world.bannedIds.delete(steamId)) return `SteamID ${steamId ?? ''} is not banned`;
+      return `SteamID ${steamId} is now un-banned`;
+    },
+    setaccesslevel([username, level]) {
+      const accessLevel = String(level || '').toLowerCase();
+      if (!ACCESS_LEVELS.includes(accessLevel)) {
+        return `Access Level '${level ?? ''}' unknown, list of access level: player, ${ACCESS_LEVELS.join(', ')}`;
+      }
+      if (!username || (!world.hasAccount(username) && !world.findPlayer(username))) return `User ${username ?? ''} doesn't exist.`;
+      const value = accessLevel === 'none' ? 'None' : accessLevel;
+      world.getAccount(username).accessLevel = value;
+      const player = world.findPlayer(username);
+      if (player) player.accessLevel = value;
+      return `User ${username} is now ${accessLevel}`;
+    },
+    voiceban(args) {
+      const username = withoutToggle(args)[0];
+      if (!username || !world.hasAccount(username)) return `User ${username ?? ''} doesn't exist.`;
+      const banned = toggleArg(args) !== false;
+      world.getAccount(username).voiceBanned = banned;
+      return `User ${username} voice is ${banned ? 'banned' : 'unbanned'}.`;
+    },
+
+    // ── Whitelist ──
+    adduser([username, password]) {
+      if (!username || !password) return 'Missing argument: adduser "username" "password"';
+      if (world.hasAccount(username)) return 'A user with this name already exists';
+      world.getAccount(username).whitelisted = true;
+      return `User ${username} created with the password ${password}`;
+    },
+    addusertowhitelist([username]) {
+      if (!world.findPlayer(username)) return `User ${username ?? ''} doesn't exist.`;
+      world.getAccount(username).whitelisted = true;
+      return `User ${username} added to white list`;
+    },
+    removeuserfromwhitelist([username]) {
+      if (!username || !world.hasAccount(username)) return `User ${username ?? ''} doesn't exist.`;
+      world.getAccount(username).whitelisted = false;
+      return `User ${username} removed from white list`;
+    },
+    addalltowhitelist() {
+      for (const name of world.getPlayerNames()) world.getAccount(name).whitelisted = true;
+      return 'Everyone in the server has been added to the white list';
+    },
+
+    // ── Teleport and items ──
+    teleport([username, target]) {
+      const player = world.findPlayer(username);
+      const destination = world.findPlayer(target);
+      if (!player) return `User ${username ?? ''} doesn't exist.`;
+      if (!destination) return `User ${target ?? ''} doesn't exist.`;
+      Object.assign(player, { x: destination.x, y: destination.y, z: destination.z });
+      return `teleported ${player.username} to ${destination.username}`;
+    },
+    teleportto(args) {
+      const [x, y, z] = args.join(',').split(',').filter(Boolean).map(Number);
+      if (![x, y, z].every(Number.isFinite)) return 'Usage: teleportto x,y,z';
+      return `teleported to ${x},${y},${z}`;
+    },
+    additem(args) {
+      const rest = [...args];
+      const count = rest.length > 1 && /^\d+$/.test(rest[rest.length - 1]) ? parseInt(rest.pop(), 10) : 1;
+      const item = rest.pop();
+      if (!item || !item.includes('.')) return `Item ${item ?? ''} doesn't exist.`;
+      const result = requirePlayer(rest[0], player => {
+        player.inventory[item] = (player.inventory[item] || 0) + count;
+      });
+      if (result.error) return result.error;
+      return `Item ${item} Added in ${result.player.username}'s inventory.`;
+    },
+    addxp([username, perkAmount]) {
+      const [perk, amount] = String(perkAmount || '').split('=');
+      if (!PERKS.includes(perk) || !Number.isFinite(Number(amount))) return `Invalid perk or amount: ${perkAmount ?? ''}`;
+      const result = requirePlayer(username, player => {
+        player.xp[perk] = (player.xp[perk] || 0) + Number(amount);
+      });
+      if (result.error) return result.error;
+      return `Added ${amount} ${perk} xp's to ${result.player.username}`;
+    },
+    addvehicle([vehicle, username]) {
+      if (!vehicle || !vehicle.includes('.')) return `Vehicle ${vehicle ?? ''} doesn't exist.`;
+      if (username && !world.findPlayer(username)) return `User ${username} doesn't exist.`;
+      return 'Vehicle spawned';
+    },
+
+    // ── World events ──
+    startrain() {
+      world.startWeather('rain');
+      return 'Rain started';
+    },
+    stoprain() {
+      world.stopWeather();
+      return 'Rain stopped';
+    },
+    startstorm([hours]) {
+      world.startWeather('storm', hours);
+      return 'Thunderstorm started';
+    },
+    stopweather() {
+      world.stopWeather();
+      return 'Weather stopped';
+    },
+    chopper() {
+      world.emit('console', 'General', 'Helicopter event started');
+      return 'Chopper launched';
+    },
+    gunshot() {
+      return 'Gunshot fired';
+    },
+    lightning() {
+      return 'Lightning triggered';
+    },
+    thunder() {
+      return 'Thunder triggered';
+    },
+    alarm() {
+      return 'Alarm sounded';
+    },
+    createhorde([count, username]) {
+      const size = parseInt(count, 10);
+      if (!Number.isFinite(size) || size <= 0) return 'Usage: createhorde count [username]';
+      if (username && !world.findPlayer(username)) return `User ${username} doesn't exist.`;
+      world.zombies += size;
+      return 'Horde spawned.';
+    },
+    removezombies() {
+      world.zombies = 0;
+      return 'Zombies removed.';
+    },
+
+    // ── Admin modes ──
+    godmod(args) {
+      return setAdminMode('godMode', args, (name, on) => `User ${name} is ${on ? 'now' : 'no more'} invincible.`);
+    },
+    invisible(args) {
+      return setAdminMode('invisible', args, (name, on) => `User ${name} is ${on ? 'now' : 'no more'} invisible.`);
+    },
+    noclip(args) {
+      return setAdminMode('noclip', args, (name, on) => `User ${name} noclip ${on ? 'enabled' : 'disabled'}.`);
+    },
+
+    // ── Other ──
+    releasesafehouse() {
+      return 'Safehouse released';
+    },
+    reloadlua([filename]) {
+      if (!filename) return 'Missing argument: filename';
+      return `Lua file ${filename} reloaded`;
+    },
+    log([type, level]) {
+      if (!type || !level) return 'Usage: log type level';
+      return `Log level of ${type} set to ${level}`;
+    },
+    stats([mode]) {
+      if (!mode) return 'Usage: stats none|file|console|all [period]';
+      return `Stats set to ${mode}`;
+    }
+  };
+  // The game's own name for kick
+  commands.kickuser = commands.kick;
+
+  const byName = new Map(Object.entries(commands).map(([name, handler]) => [name.toLowerCase(), handler]));
+
+  return (commandLine) => {
+    const [name = '', ...args] = tokenizeCommand(commandLine.replace(/^\//, ''));
+    const handler = byName.get(name.toLowerCase());
+    if (!handler) return `Unknown command /${name}`;
+    return handler(args);
+  };
+}
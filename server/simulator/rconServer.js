@@ -0,0 +1,178 @@
+import net from 'net';
+import { EventEmitter } from 'events';
+
+// ============================================
+// Simulated RCON Server
+// ============================================
+//
+// Speaks the Source RCON protocol the game uses (and rcon-srcds expects):
+//   int32 size | int32 id | int32 type | body | 0x00 0x00
+// where size counts everything after itself. A command handler returns
+// the answer text; answers longer than one packet are sent the way the
+// game sends them, one packet at a time, each followed by the client's
+// termination packet (see RESPONSE_CHUNK_BYTES).
+
+const SERVERDATA_AUTH = 3;
+const SERVERDATA_AUTH_RESPONSE = 2;
+const SERVERDATA_EXECCOMMAND = 2;
+const SERVERDATA_RESPONSE_VALUE = 0;
+
+// rcon-srcds sends this id with the termination packet of a split answer
+const ID_TERM = 0x777;
+
+// Body bytes per answer packet. rcon-srcds treats a packet larger than
+// 3700 bytes as "more to come" and asks for the next one with a
+// termination packet, so full chunks stay above that.
+const RESPONSE_CHUNK_BYTES = 3800;
+
+// Packets larger than this are rejected, as the game does
+const MAX_PACKET_BYTES = 4096;
+
+function encodePacket(id, type, body = '') {
+  const bodyBytes = Buffer.byteLength(body, 'utf8');
+  const buffer = Buffer.alloc(bodyBytes + 14);
+  buffer.writeInt32LE(bodyBytes + 10, 0);
+  buffer.writeInt32LE(id, 4);
+  buffer.writeInt32LE(type, 8);
+  buffer.write(body, 12, bodyBytes, 'utf8');
+  return buffer;
+}
+
+/** Split an answer into packet bodies without cutting a character in half */
+function chunkBody(text) {
+  const buffer = Buffer.from(text, 'utf8');
+  if (buffer.length <= RESPONSE_CHUNK_BYTES) return [text];
+  const chunks = [];
+  let start = 0;
+  while (start < buffer.length) {
+    let end = Math.min(start + RESPONSE_CHUNK_BYTES, buffer.length);
+    // Step back over UTF-8 continuation bytes
+    while (end < buffer.length && (buffer[end] & 0xc0) === 0x80) end--;
+    chunks.push(buffer.toString('utf8', start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * One client connection: reassembles packets from the TCP stream and
+ * answers them in order.
+ */
+class RconConnection {
+  constructor(socket, server) {
+    this.socket = socket;
+    this.server = server;
+    this.buffer = Buffer.alloc(0);
+    this.authenticated = false;
+    this.pendingChunks = []; // rest of a split answer: [{ id, body }]
+
+    socket.on('data', data => this.onData(data));
+    socket.on('error', () => {});
+    socket.on('close', () => server.connections.delete(this));
+  }
+
+  onData(data) {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    while (this.buffer.length >= 4) {
+      const size = this.buffer.readInt32LE(0);
+      if (size < 10 || size > MAX_PACKET_BYTES) {
+        this.socket.destroy();
+        return;
+      }
+      if (this.buffer.length < size + 4) return;
+      const packet = {
+        id: this.buffer.readInt32LE(4),
+        type: this.buffer.readInt32LE(8),
+        body: this.buffer.toString('utf8', 12, size + 2)
+      };
+      this.buffer = this.buffer.subarray(size + 4);
+      this.handlePacket(packet);
+    }
+  }
+
+  send(id, type, body) {
+    if (!this.socket.destroyed) this.socket.write(encodePacket(id, type, body));
+  }
+
+  handlePacket(packet) {
+    if (packet.type === SERVERDATA_AUTH) {
+      this.authenticated = packet.body === this.server.password;
+      this.server.emit('auth', { success: this.authenticated, address: this.socket.remoteAddress });
+      // The game also sends an empty RESPONSE_VALUE first; rcon-srcds reads one
+      // packet per socket read, so only the packet it waits for is sent
+      this.send(this.authenticated ? packet.id : -1, SERVERDATA_AUTH_RESPONSE, '');
+      return;
+    }
+
+    if (!this.authenticated) {
+      this.socket.destroy();
+      return;
+    }
+
+    // The client asking for the next part of a split answer
+    if (packet.type === SERVERDATA_RESPONSE_VALUE && packet.id === ID_TERM) {
+      const next = this.pendingChunks.shift();
+      if (next) {
+        this.send(next.id, SERVERDATA_RESPONSE_VALUE, next.body);
+      } else {
+        this.send(ID_TERM, SERVERDATA_RESPONSE_VALUE, '');
+      }
+      return;
+    }
+
+    if (packet.type === SERVERDATA_EXECCOMMAND) {
+      this.execute(packet);
+    }
+  }
+
+  async execute(packet) {
+    let answer;
+    try {
+      answer = await this.server.handler(packet.body.trim());
+    } catch (error) {
+      answer = `Error: ${error.message}`;
+    }
+    const [first, ...rest] = chunkBody(String(answer ?? ''));
+    this.pendingChunks = rest.map(body => ({ id: packet.id, body }));
+    this.send(packet.id, SERVERDATA_RESPONSE_VALUE, first);
+  }
+}
+
+/**
+ * TCP server answering RCON commands with `handler(command) => text`.
+ * Emits 'auth' for every login attempt.
+ */
+export class SimulatedRconServer extends EventEmitter {
+  constructor({ port, password, handler }) {
+    super();
+    this.port = port;
+    this.password = password;
+    this.handler = handler;
+    this.connections = new Set();
+    this.server = null;
+  }
+
+  listen() {
+    return new Promise((resolve, reject) => {
+      this.server = net.createServer(socket => {
+        this.connections.add(new RconConnection(socket, this));
+      });
+      this.server.once('error', reject);
+      this.server.listen(this.port, () => {
+        this.server.removeListener('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  close() {
+    for (const connection of this.connections) {
+      connection.socket.destroy();
+    }
+    this.connections.clear();
+    return new Promise(resolve => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+    });
+  }
+}
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// ============================================
+// Simulator Install
+// ============================================
+//
+// Creates a fake dedicated server install and Zomboid data folder for
+// the simulator, laid out like the real ones so the panel's server setup,
+// config editor and PanelBridge auto-configure work unchanged:
+//   {base}/server/    start-server.sh / StartServer64.bat run server/simulator.js
+//   {base}/Zomboid/   Server/{name}.ini, Saves/Multiplayer/{name}, mods, Lua
+// The start scripts pass `zombie.network.GameServer` on the command line,
+// which is what the panel looks for when it checks whether a server runs.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const SIMULATOR_ENTRY = path.join(__dirname, '..', 'simulator.js');
+
+/** Options a fresh {serverName}.ini starts with - a subset of the game's own */
+export function defaultServerOptions({ serverName, serverPort = 16261, rconPort = 27015, rconPassword = '' }) {
+  return new Map([
+    ['PVP', 'true'],
+    ['PauseEmpty', 'true'],
+    ['GlobalChat', 'true'],
+    ['ChatStreams', 's,r,a,w,y,sh,f,all'],
+    ['Open', 'true'],
+    ['ServerWelcomeMessage', `Welcome to ${serverName} (simulated server)`],
+    ['AutoCreateUserInWhiteList', 'false'],
+    ['DisplayUserName', 'true'],
+    ['SafetySystem', 'true'],
+    ['Public', 'false'],
+    ['PublicName', `${serverName} (simulator)`],
+    ['PublicDescription', ''],
+    ['MaxPlayers', '16'],
+    ['PingLimit', '400'],
+    ['DefaultPort', String(serverPort)],
+    ['UDPPort', String(serverPort + 1)],
+    ['Map', 'Muldraugh, KY'],
+    ['Mods', ''],
+    ['WorkshopItems', ''],
+    ['SteamVAC', 'true'],
+    ['SaveWorldEveryMinutes', '0'],
+    ['Password', ''],
+    ['RCONPort', String(rconPort)],
+    ['RCONPassword', rconPassword],
+    ['DiscordEnable', 'false'],
+    ['MaxAccountsPerUser', '0']
+  ]);
+}
+
+/** Read a server ini into an ordered Map */
+export function readServerOptions(iniPath) {
+  const options = new Map();
+  for (const line of fs.readFileSync(iniPath, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^([^#=\s][^=]*)=(.*)$/);
+    if (match) options.set(match[1].trim(), match[2]);
+  }
+  return options;
+}
+
+/** Write options back to the ini, keeping comments and the order of existing lines */
+export function writeServerOptions(iniPath, options) {
+  const remaining = new Map(options);
+  const lines = fs.existsSync(iniPath) ? fs.readFileSync(iniPath, 'utf8').split(/\r?\n/) : [];
+  const updated = lines.map(line => {
+    const match = line.match(/^([^#=\s][^=]*)=/);
+    const key = match?.[1].trim();
+    if (!key || !remaining.has(key)) return line;
+    const value = remaining.get(key);
+    remaining.delete(key);
+    return `${key}=${value}`;
+  });
+  while (updated.length > 0 && !updated[updated.length - 1].trim()) updated.pop();
+  for (const [key, value] of remaining) updated.push(`${key}=${value}`);
+  fs.writeFileSync(iniPath, `${updated.join('\n')}\n`);
+}
+
+function writeStartScripts(installPath, zomboidPath, serverName) {
+  const node = process.execPath;
+
+  // The panel passes JVM options, `--` and -servername/-cachedir to the Linux
+  // script; the simulator reads the game options and ignores the rest. The
+  // server name the panel passes must come first, as the panel matches it.
+  fs.writeFileSync(path.join(installPath, 'start-server.sh'), [
+    '#!/usr/bin/env bash',
+    '# Project Zomboid server simulator - see server/simulator.js in the panel',
+    `case " $* " in *" -servername "*) ;; *) set -- "$@" -servername "${serverName}" ;; esac`,
+    `exec "${node}" "${SIMULATOR_ENTRY}" zombie.network.GameServer -cachedir="${zomboidPath}" "$@"`,
+    ''
+  ].join('\n'), { mode: 0o755 });
+
+  fs.writeFileSync(path.join(installPath, 'StartServer64.bat'), [
+    '@echo off',
+    'REM Project Zomboid server simulator - see server\\simulator.js in the panel',
+    `"${node}" "${SIMULATOR_ENTRY}" zombie.network.GameServer -servername "${serverName}" -cachedir="${zomboidPath}" %*`,
+    ''
+  ].join('\r\n'));
+
+  // Read by the panel's launch profile editor on Linux
+  fs.writeFileSync(path.join(installPath, 'ProjectZomboid64.json'), `${JSON.stringify({
+    mainClass: 'zombie/network/GameServer',
+    classpath: ['java/.'],
+    vmArgs: ['-Djava.awt.headless=true', '-Xms4096m', '-Xmx8192m', '-Dzomboid.steam=1']
+  }, null, 2)}\n`);
+}
+
+/**
+ * Create the install and data folders under `baseDir`. Existing config
+ * files are left alone so a setup can be re-run to refresh the scripts.
+ */
+export function createSimulatorInstall(baseDir, { serverName = 'servertest', serverPort = 16261, rconPort = 27015, rconPassword = 'simulator' } = {}) {
+  const installPath = path.resolve(baseDir, 'server');
+  const zomboidDataPath = path.resolve(baseDir, 'Zomboid');
+  const configDir = path.join(zomboidDataPath, 'Server');
+
+  for (const dir of [
+    installPath,
+    configDir,
+    path.join(zomboidDataPath, 'Saves', 'Multiplayer', serverName),
+    path.join(zomboidDataPath, 'mods'),
+    path.join(zomboidDataPath, 'Lua'),
+    path.join(zomboidDataPath, 'Logs')
+  ]) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  writeStartScripts(installPath, zomboidDataPath, serverName);
+
+  const iniPath = path.join(configDir, `${serverName}.ini`);
+  if (!fs.existsSync(iniPath)) {
+    writeServerOptions(iniPath, defaultServerOptions({ serverName, serverPort, rconPort, rconPassword }));
+  }
+  const sandboxPath = path.join(configDir, `${serverName}_SandboxVars.lua`);
+  if (!fs.existsSync(sandboxPath)) {
+    fs.writeFileSync(sandboxPath, 'SandboxVars = {\n    VERSION = 5,\n    Zombies = 3,\n    Distribution = 1,\n    DayLength = 3,\n    StartMonth = 7,\n    StartDay = 9,\n    WaterShut = 2,\n    ElecShut = 2,\n}\n');
+  }
+  const spawnRegionsPath = path.join(configDir, `${serverName}_spawnregions.lua`);
+  if (!fs.existsSync(spawnRegionsPath)) {
+    fs.writeFileSync(spawnRegionsPath, 'function SpawnRegions()\n\treturn {\n\t\t{ name = "Muldraugh, KY", file = "media/maps/Muldraugh, KY/spawnpoints.lua" },\n\t}\nend\n');
+  }
+
+  const options = readServerOptions(iniPath);
+  return {
+    installPath,
+    zomboidDataPath,
+    serverName,
+    serverPort: parseInt(options.get('DefaultPort'), 10) || serverPort,
+    rconPort: parseInt(options.get('RCONPort'), 10) || rconPort,
+    rconPassword: options.get('RCONPassword') || rconPassword
+  };
+}
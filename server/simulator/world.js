@@ -0,0 +1,373 @@
+import { EventEmitter } from 'events';
+
+// ============================================
+// Simulated World
+// ============================================
+//
+// The state a running server would have - players, accounts, game time,
+// weather, utilities and zombies - kept just detailed enough for the RCON
+// answers and PanelBridge results the panel reads. Players come and go
+// and chat on their own (see ACTIVITY_*), so the Players, Chat and Events
+// pages have something to show.
+//
+// Emits:
+//   'console' (category, message)   a line for the server console
+//   'chat' (author, message)        a chat message, written as a [chat] line
+//   'playersChanged' (names)
+
+// In-game minutes per real second - the default DayLength of one real hour per day
+const GAME_MINUTES_PER_SECOND = 24 * 60 / 3600;
+
+const PLAYER_NAMES = [
+  'Alice', 'Bob_Survivor', 'KnoxKid', 'Marge', 'DaleFromRosewood', 'Spiffo',
+  'WestPointWendy', 'MuldraughMike', 'Lou', 'RiversideRay', 'Kate', 'Baldspot'
+];
+
+const CHAT_LINES = [
+  'anyone near West Point?',
+  'need a car battery, will trade canned food',
+  'zeds everywhere at the gas station lol',
+  'heading to Louisville, wish me luck',
+  'who has a generator magazine?',
+  'thanks for the axe!',
+  'base at the school, come by',
+  'is the power still on for you?',
+  'helicopter event incoming...',
+  'found a sledgehammer!!',
+  'lag?',
+  'brb'
+];
+
+// Chance of each activity step when one runs
+const ACTIVITY_WEIGHTS = { join: 3, leave: 2, chat: 5 };
+
+// Climate floats in id order, as the game numbers them (ClimateManager.FLOAT_*)
+const CLIMATE_FLOATS = [
+  { name: 'FLOAT_DESATURATION', actualName: 'Desaturation', min: 0, max: 1, value: 0 },
+  { name: 'FLOAT_GLOBAL_LIGHT_INTENSITY', actualName: 'Global light intensity', min: 0, max: 1, value: 0.8 },
+  { name: 'FLOAT_NIGHT_STRENGTH', actualName: 'Night strength', min: 0, max: 1, value: 0 },
+  { name: 'FLOAT_PRECIPITATION_INTENSITY', actualName: 'Precipitation intensity', min: 0, max: 1, value: 0 },
+  { name: 'FLOAT_TEMPERATURE', actualName: 'Temperature', min: -80, max: 80, value: 18 },
+  { name: 'FLOAT_FOG_INTENSITY', actualName: 'Fog intensity', min: 0, max: 1, value: 0 },
+  { name: 'FLOAT_WIND_INTENSITY', actualName: 'Wind intensity', min: 0, max: 1, value: 0.2 },
+  { name: 'FLOAT_WIND_ANGLE_INTENSITY', actualName: 'Wind angle intensity', min: -1, max: 1, value: 0 },
+  { name: 'FLOAT_CLOUD_INTENSITY', actualName: 'Cloud intensity', min: 0, max: 1, value: 0.3 },
+  { name: 'FLOAT_AMBIENT', actualName: 'Ambient', min: 0, max: 1, value: 0.9 },
+  { name: 'FLOAT_VIEW_DISTANCE', actualName: 'View distance', min: 0, max: 1, value: 1 },
+  { name: 'FLOAT_DAYLIGHT_STRENGTH', actualName: 'Daylight strength', min: 0, max: 1, value: 1 },
+  { name: 'FLOAT_HUMIDITY', actualName: 'Humidity', min: 0, max: 1, value: 0.5 }
+];
+
+const FLOAT_PRECIPITATION = 3;
+const FLOAT_TEMPERATURE = 4;
+const FLOAT_WIND = 6;
+const FLOAT_CLOUDS = 8;
+
+// What each weather stage does to the climate
+const WEATHER_STAGES = {
+  rain: { precipitation: 0.6, clouds: 0.8, wind: 0.3 },
+  storm: { precipitation: 0.9, clouds: 1, wind: 0.7, thunder: true },
+  tropical: { precipitation: 1, clouds: 1, wind: 0.9, thunder: true },
+  blizzard: { precipitation: 1, clouds: 1, wind: 0.9, snow: true }
+};
+
+// Muldraugh, where most servers spawn players
+const SPAWN_AREA = { x: 10600, y: 9700, spread: 150 };
+
+function pick(list) {
+  return list[Math.floor(Math.random() * list.length)];
+}
+
+function round(value, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export class SimulatedWorld extends EventEmitter {
+  /**
+   * @param {object} options
+   * @param {string} options.serverName
+   * @param {Map<string,string>} options.serverOptions - the server ini
+   * @param {number} options.maxPlayers - players the activity loop brings online
+   */
+  constructor({ serverName, serverOptions, maxPlayers = 6 }) {
+    super();
+    this.serverName = serverName;
+    this.options = serverOptions;
+    this.maxPlayers = maxPlayers;
+    this.players = new Map();   // lowercase name -> online player
+    this.accounts = new Map();  // lowercase name -> { username, accessLevel, banned, whitelisted, voiceBanned }
+    this.bannedIds = new Set();
+    this.startedAt = Date.now();
+    this.time = { year: 1993, month: 7, day: 9, hour: 9, minute: 0 };
+    this.worldAgeHours = 0;
+    this.climate = CLIMATE_FLOATS.map((float, id) => ({ id, ...float, adminEnabled: false, adminValue: float.value }));
+    this.weather = { stage: null, snow: false, untilHours: 0 };
+    this.utilities = { powerOn: true, waterOn: true };
+    this.zombies = 2400 + Math.floor(Math.random() * 600);
+    this.tickTimer = null;
+    this.activityTimer = null;
+  }
+
+  // ── Lifecycle ──
+
+  /** Start the clock and, when activityMs > 0, simulated player activity */
+  start(activityMs) {
+    let last = Date.now();
+    this.tickTimer = setInterval(() => {
+      const now = Date.now();
+      this.tick((now - last) / 1000);
+      last = now;
+    }, 1000);
+    if (activityMs > 0) {
+      this.activityTimer = setInterval(() => this.stepActivity(), activityMs);
+    }
+  }
+
+  stop() {
+    clearInterval(this.tickTimer);
+    clearInterval(this.activityTimer);
+    this.tickTimer = null;
+    this.activityTimer = null;
+  }
+
+  /** Advance game time, weather and players by `seconds` of real time */
+  tick(seconds) {
+    const minutes = seconds * GAME_MINUTES_PER_SECOND;
+    this.worldAgeHours += minutes / 60;
+    this.time.minute += minutes;
+    while (this.time.minute >= 60) {
+      this.time.minute -= 60;
+      this.time.hour++;
+    }
+    if (this.time.hour >= 24) {
+      this.time.hour -= 24;
+      this.time.day++;
+      if (this.time.day > 30) {
+        this.time.day = 1;
+        this.time.month = this.time.month % 12 + 1;
+        if (this.time.month === 1) this.time.year++;
+      }
+    }
+
+    if (this.weather.stage && this.worldAgeHours >= this.weather.untilHours) {
+      this.stopWeather();
+    }
+
+    for (const player of this.players.values()) {
+      if (!player.isAlive) continue;
+      player.x = round(player.x + (Math.random() - 0.5) * 4);
+      player.y = round(player.y + (Math.random() - 0.5) * 4);
+      player.hunger = Math.min(1, player.hunger + 0.0005 * seconds);
+      player.thirst = Math.min(1, player.thirst + 0.0008 * seconds);
+      player.fatigue = Math.min(1, player.fatigue + 0.0003 * seconds);
+    }
+
+    this.zombies = Math.max(0, this.zombies + Math.round((Math.random() - 0.45) * 4));
+  }
+
+  /** One random join, leave or chat message */
+  stepActivity() {
+    const online = [...this.players.values()];
+    const offline = PLAYER_NAMES.filter(name => !this.players.has(name.toLowerCase()) && !this.isBanned(name));
+    const choices = [];
+    if (offline.length > 0 && online.length < this.maxPlayers) choices.push(...Array(ACTIVITY_WEIGHTS.join).fill('join'));
+    if (online.length > 0) {
+      choices.push(...Array(ACTIVITY_WEIGHTS.leave).fill('leave'));
+      choices.push(...Array(ACTIVITY_WEIGHTS.chat).fill('chat'));
+    }
+    switch (pick(choices.length > 0 ? choices : ['none'])) {
+      case 'join':
+        this.connectPlayer(pick(offline));
+        break;
+      case 'leave':
+        this.disconnectPlayer(pick(online).username, 'receive-disconnect');
+        break;
+      case 'chat':
+        this.chat(pick(online).username, pick(CHAT_LINES));
+        break;
+      default:
+        break;
+    }
+  }
+
+  // ── Players ──
+
+  getAccount(username) {
+    const key = username.toLowerCase();
+    if (!this.accounts.has(key)) {
+      this.accounts.set(key, { username, accessLevel: 'None', banned: false, whitelisted: false, voiceBanned: false });
+    }
+    return this.accounts.get(key);
+  }
+
+  hasAccount(username) {
+    return this.accounts.has(String(username).toLowerCase());
+  }
+
+  isBanned(username) {
+    return this.accounts.get(username.toLowerCase())?.banned === true;
+  }
+
+  findPlayer(username) {
+    return username ? this.players.get(String(username).toLowerCase()) || null : null;
+  }
+
+  getPlayerNames() {
+    return [...this.players.values()].map(player => player.username);
+  }
+
+  connectPlayer(username) {
+    if (this.findPlayer(username) || this.isBanned(username)) return null;
+    const account = this.getAccount(username);
+    const player = {
+      username: account.username,
+      displayName: account.username,
+      accessLevel: account.accessLevel,
+      x: round(SPAWN_AREA.x + (Math.random() - 0.5) * SPAWN_AREA.spread),
+      y: round(SPAWN_AREA.y + (Math.random() - 0.5) * SPAWN_AREA.spread),
+      z: 0,
+      health: 100,
+      hunger: round(Math.random() * 0.2),
+      thirst: round(Math.random() * 0.2),
+      fatigue: round(Math.random() * 0.3),
+      isInfected: false,
+      isAlive: true,
+      godMode: false,
+      invisible: false,
+      noclip: false,
+      inventory: {},
+      xp: {},
+      connectedAt: Date.now()
+    };
+    this.players.set(username.toLowerCase(), player);
+    const id = 100000 + Math.floor(Math.random() * 900000);
+    this.emit('console', 'Network', `ConnectionManager: [fully-connected] "" connection: guid=${id} ip=127.0.0.1 steam-id=7656119800${id} access=${player.accessLevel === 'None' ? '' : player.accessLevel} username="${player.username}" connection-type="UDPRakNet"`);
+    this.emit('playersChanged', this.getPlayerNames());
+    return player;
+  }
+
+  disconnectPlayer(username, reason = 'receive-disconnect') {
+    const player = this.findPlayer(username);
+    if (!player) return null;
+    this.players.delete(player.username.toLowerCase());
+    this.emit('console', 'Network', `ConnectionManager: [${reason}] "" connection: ip=127.0.0.1 access=${player.accessLevel === 'None' ? '' : player.accessLevel} username="${player.username}" connection-type="UDPRakNet"`);
+    this.emit('playersChanged', this.getPlayerNames());
+    return player;
+  }
+
+  chat(author, message) {
+    this.emit('chat', author, message);
+  }
+
+  /** Text every player sees, from servermsg or PanelBridge */
+  broadcast(message) {
+    this.emit('console', 'General', `ServerMessage: ${message}`);
+  }
+
+  // ── Weather and climate ──
+
+  /** Start a weather stage for `hours` of game time */
+  startWeather(stage, hours = 2) {
+    this.weather.stage = stage;
+    this.weather.snow = WEATHER_STAGES[stage].snow === true;
+    this.weather.untilHours = this.worldAgeHours + Math.max(0.5, Number(hours) || 2);
+    this.emit('console', 'Weather', `Weather stage started: ${stage} (${hours}h)`);
+  }
+
+  stopWeather() {
+    if (this.weather.stage) this.emit('console', 'Weather', `Weather stage ended: ${this.weather.stage}`);
+    this.weather.stage = null;
+    this.weather.snow = false;
+    this.weather.untilHours = 0;
+  }
+
+  /** Value the game would report for a climate float, weather and overrides included */
+  climateValue(id) {
+    const float = this.climate[id];
+    if (!float) return null;
+    if (float.adminEnabled) return float.adminValue;
+    const stage = WEATHER_STAGES[this.weather.stage];
+    if (stage) {
+      if (id === FLOAT_PRECIPITATION) return stage.precipitation;
+      if (id === FLOAT_CLOUDS) return stage.clouds;
+      if (id === FLOAT_WIND) return stage.wind;
+      if (id === FLOAT_TEMPERATURE && this.weather.snow) return -8;
+    }
+    return float.value;
+  }
+
+  getWeather() {
+    const stage = WEATHER_STAGES[this.weather.stage];
+    const precipitation = this.climateValue(FLOAT_PRECIPITATION);
+    const temperature = this.climateValue(FLOAT_TEMPERATURE);
+    return {
+      temperature,
+      humidity: this.climateValue(12),
+      windSpeed: round(this.climateValue(FLOAT_WIND) * 60, 1),
+      windAngle: 180,
+      fogIntensity: this.climateValue(5),
+      cloudIntensity: this.climateValue(FLOAT_CLOUDS),
+      precipitationIntensity: precipitation,
+      isRaining: precipitation > 0 && !(this.weather.snow || temperature < 0),
+      isSnowing: precipitation > 0 && (this.weather.snow || temperature < 0),
+      isThunderStorming: stage?.thunder === true,
+      dayLight: this.climateValue(11),
+      nightStrength: this.climateValue(2),
+      desaturation: this.climateValue(0),
+      viewDistance: this.climateValue(10),
+      ambient: this.climateValue(9)
+    };
+  }
+
+  // ── Game time ──
+
+  getGameTime() {
+    return {
+      year: this.time.year,
+      month: this.time.month,
+      day: this.time.day,
+      hour: round(this.time.hour + this.time.minute / 60),
+      minute: Math.floor(this.time.minute),
+      dayOfWeek: (this.time.day + 3) % 7,
+      worldAgeHours: round(this.worldAgeHours),
+      timeSinceApo: Math.floor(this.worldAgeHours / 24) + 1,
+      moonPhase: Math.floor(this.worldAgeHours / 24) % 8,
+      nightsSurvived: Math.floor(this.worldAgeHours / 24)
+    };
+  }
+
+  setGameTime({ year, month, day, hour }) {
+    const updated = {};
+    if (hour !== undefined) {
+      const value = Math.max(0, Math.min(23.99, Number(hour) || 0));
+      this.time.hour = Math.floor(value);
+      this.time.minute = (value - this.time.hour) * 60;
+      updated.hour = value;
+    }
+    if (day !== undefined && Number.isFinite(Number(day))) {
+      this.time.day = Math.max(1, Math.min(31, Number(day)));
+      updated.day = this.time.day;
+    }
+    if (month !== undefined && Number.isFinite(Number(month))) {
+      this.time.month = Math.max(1, Math.min(12, Number(month)));
+      updated.month = this.time.month;
+    }
+    if (year !== undefined && Number.isFinite(Number(year))) {
+      this.time.year = Number(year);
+      updated.year = this.time.year;
+    }
+    return updated;
+  }
+
+  // ── Server ──
+
+  save() {
+    this.emit('console', 'General', 'Saving world...');
+    this.emit('console', 'General', 'World saved');
+  }
+
+  getUptimeSeconds() {
+    return Math.floor((Date.now() - this.startedAt) / 1000);
+  }
+}
@@ -0,0 +1,116 @@
+import { createLogger } from './logger.js';
+const log = createLogger('Audit');
+import { logAudit } from '../database/init.js';
+
+// ============================================
+// Audit Trail
+// ============================================
+
+// Where an action came from
+export const AUDIT_SOURCES = ['web', 'api', 'discord', 'scheduler'];
+
+const REDACTED_KEY_REGEX = /pass(word)?|secret|token|api[-_]?key/i;
+const MAX_STRING_LENGTH = 256;
+const MAX_ARRAY_ITEMS = 50;
+const MAX_DEPTH = 4;
+
+// Body fields that name what an action was aimed at, in order of preference
+const TARGET_FIELDS = ['username', 'player', 'playerName', 'name', 'workshopId', 'serverId', 'steamId', 'command'];
+
+/**
+ * Copy request parameters for storage: secrets are redacted and
+ * large values (file contents, mod lists) are truncated.
+ */
+export function sanitizeParams(value, depth = 0) {
+  if (value === null || value === undefined) return value;
+
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}... [${value.length} chars]`
+      : value;
+  }
+  if (typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[nested]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(v => sanitizeParams(v, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) items.push(`... ${value.length - MAX_ARRAY_ITEMS} more`);
+    return items;
+  }
+
+  const result = {};
+  for (const [key, v] of Object.entries(value)) {
+    result[key] = REDACTED_KEY_REGEX.test(key) && v ? '[redacted]' : sanitizeParams(v, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Record an audit entry. Never throws - a failed audit write must not
+ * break the action being audited.
+ */
+export async function recordAudit({ params, ...entry }) {
+  try {
+    const hasParams = params && (typeof params !== 'object' || Object.keys(params).length > 0);
+    await logAudit({ ...entry, params: hasParams ? sanitizeParams(params) : null });
+  } catch (error) {
+    log.error(`Failed to record audit entry for ${entry.action}: ${error.message}`);
+  }
+}
+
+function describeTarget(req) {
+  const routeParam = Object.values(req.params || {}).find(v => v !== undefined && v !== '');
+  if (routeParam) return String(routeParam);
+
+  const body = req.body && typeof req.body === 'object' ? req.body : {};
+  for (const field of TARGET_FIELDS) {
+    if (typeof body[field] === 'string' || typeof body[field] === 'number') {
+      return String(body[field]).slice(0, MAX_STRING_LENGTH);
+    }
+  }
+  return null;
+}
+
+/**
+ * Express middleware recording every state-changing request (anything but
+ * GET/HEAD/OPTIONS) once its response has been sent. The action is the
+ * matched route pattern, e.g. `POST /players/kick` or `DELETE /servers/:id`.
+ *
+ * Handlers can opt out with `res.locals.audit = false`.
+ */
+export function auditTrail(req, res, next) {
+  if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') {
+    return next();
+  }
+
+  // Keep the JSON body so failures can be recorded with their error message
+  const json = res.json.bind(res);
+  res.json = (body) => {
+    res.locals.auditResponse = body;
+    return json(body);
+  };
+
+  res.on('finish', () => {
+    if (res.locals.audit === false) return;
+
+    const routePath = req.route ? String(req.route.path) : req.path;
+    const action = `${req.method} ${`${req.baseUrl}${routePath}`.replace(/^\/api/, '').replace(/(.)\/$/, '$1')}`;
+    const response = res.locals.auditResponse;
+    const success = res.statusCode < 400 && response?.success !== false;
+
+    recordAudit({
+      actor: req.apiToken ? `${req.user.username} [${req.apiToken.name}]` : (req.user?.username ?? null),
+      actorId: req.user?.id ?? null,
+      source: req.apiToken ? 'api' : 'web',
+      action,
+      target: describeTarget(req),
+      params: req.body,
+      success,
+      status: res.statusCode,
+      error: success ? null : (response?.error || response?.message || null),
+      ip: req.ip
+    });
+  });
+
+  next();
+}
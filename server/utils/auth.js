@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { createLogger } from './logger.js';
+const log = createLogger('Auth');
+import { getRolePermissions, isValidRole } from './permissions.js';
+import {
+  getPanelUsers,
+  getPanelUser,
+  createPanelUser,
+  updatePanelUser,
+  getPanelSession,
+  touchPanelSession,
+  getApiTokenByHash,
+  touchApiToken,
+  getSetting,
+  setSetting
+} from '../database/init.js';
+
+const scrypt = promisify(crypto.scrypt);
+
+// ============================================
+// Configuration
+// ============================================
+
+export const SESSION_COOKIE = 'pz_session';
+export const SESSION_TTL_MS = 7 * 24 * 3600000;   // Sliding expiry: 7 days since last activity
+const SESSION_TOUCH_INTERVAL_MS = 60000;          // Only persist last_seen once per minute
+
+export const API_TOKEN_PREFIX = 'pzt_';
+
+export const USERNAME_REGEX = /^[a-zA-Z0-9_.-]{3,32}$/;
+export const PASSWORD_MIN_LENGTH = 8;
+const PASSWORD_MAX_LENGTH = 256;
+
+// ============================================
+// Password Hashing (scrypt)
+// ============================================
+
+/**
+ * Hash a password as `scrypt$<salt>$<hash>` (hex encoded)
+ */
+export async function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Verify a password against a stored hash in constant time
+ */
+export async function verifyPassword(password, stored) {
+  if (typeof password !== 'string' || typeof stored !== 'string') return false;
+
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Returns an error message if the password doesn't meet requirements, otherwise null
+ */
+export function validatePassword(password) {
+  if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+// ============================================
+// Session Tokens
+// ============================================
+
+export function generateSessionToken() {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashSessionToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateApiToken() {
+  return `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Parse a raw Cookie header into a key/value map
+ */
+export function parseCookies(header) {
+  const cookies = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const key = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    if (!key) continue;
+    try {
+      cookies[key] = decodeURIComponent(value);
+    } catch {
+      cookies[key] = value;
+    }
+  }
+  return cookies;
+}
+
+export function setSessionCookie(req, res, token) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+    path: '/',
+    maxAge: SESSION_TTL_MS
+  });
+}
+
+export function clearSessionCookie(req, res) {
+  res.clearCookie(SESSION_COOKIE, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+    path: '/'
+  });
+}
+
+/**
+ * Resolve the session and user for a raw Cookie header.
+ * Extends the sliding expiry at most once per SESSION_TOUCH_INTERVAL_MS.
+ */
+export async function resolveSession(cookieHeader) {
+  const token = parseCookies(cookieHeader)[SESSION_COOKIE];
+  if (!token) return null;
+
+  const session = await getPanelSession(hashSessionToken(token));
+  if (!session) return null;
+
+  const user = await getPanelUser(session.user_id);
+  if (!user) return null;
+
+  if (Date.now() - new Date(session.last_seen).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    await touchPanelSession(session.id, Date.now() + SESSION_TTL_MS);
+  }
+
+  return { session, user };
+}
+
+/**
+ * Resolve the API token and its owner for an `Authorization: Bearer` header.
+ * Records last use at most once per SESSION_TOUCH_INTERVAL_MS (or when the IP changes).
+ */
+export async function resolveApiToken(authorizationHeader, ip) {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorizationHeader || '');
+  if (!match) return null;
+
+  const token = await getApiTokenByHash(hashSessionToken(match[1]));
+  if (!token) return null;
+  if (token.expires_at && new Date(token.expires_at).getTime() <= Date.now()) return null;
+
+  const user = await getPanelUser(token.user_id);
+  if (!user) return null;
+
+  const lastUsed = token.last_used_at ? new Date(token.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > SESSION_TOUCH_INTERVAL_MS || token.last_used_ip !== ip) {
+    await touchApiToken(token.id, ip);
+  }
+
+  return { token, user };
+}
+
+/** Strip secrets before sending a user to the client */
+export function toPublicUser(user) {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    permissions: getRolePermissions(user.role),
+    createdAt: user.created_at,
+    lastLogin: user.last_login
+  };
+}
+
+// ============================================
+// Middleware
+// ============================================
+
+/**
+ * Express middleware - rejects requests without a valid session cookie
+ * or API token (`Authorization: Bearer pzt_...`)
+ */
+export async function requireAuth(req, res, next) {
+  if (!req.headers.authorization) {
+    return requireSession(req, res, next);
+  }
+
+  try {
+    const resolved = await resolveApiToken(req.headers.authorization, req.ip);
+    if (!resolved) {
+      return res.status(401).json({ error: 'Invalid or expired API token' });
+    }
+    req.user = resolved.user;
+    req.apiToken = resolved.token;
+    next();
+  } catch (error) {
+    log.error(`API token check failed: ${error.message}`);
+    res.status(500).json({ error: 'API token check failed' });
+  }
+}
+
+/**
+ * Express middleware - like requireAuth but only accepts a browser session
+ * (for account actions an API token must never perform)
+ */
+export async function requireSession(req, res, next) {
+  try {
+    const resolved = await resolveSession(req.headers.cookie);
+    if (!resolved) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    req.user = resolved.user;
+    req.session = resolved.session;
+    next();
+  } catch (error) {
+    log.error(`Session check failed: ${error.message}`);
+    res.status(500).json({ error: 'Session check failed' });
+  }
+}
+
+/**
+ * Socket.IO middleware - rejects handshakes without a valid session cookie
+ */
+export async function authenticateSocket(socket, next) {
+  try {
+    const resolved = await resolveSession(socket.handshake.headers.cookie);
+    if (!resolved) {
+      return next(new Error('Authentication required'));
+    }
+    socket.data.user = toPublicUser(resolved.user);
+    socket.data.sessionId = resolved.session.id;
+    next();
+  } catch (error) {
+    log.error(`Socket session check failed: ${error.message}`);
+    next(new Error('Session check failed'));
+  }
+}
+
+/** Disconnect live Socket.IO clients matching a predicate (e.g. a revoked session) */
+export function disconnectSockets(io, predicate) {
+  if (!io) return;
+  for (const socket of io.sockets.sockets.values()) {
+    if (predicate(socket)) {
+      socket.disconnect(true);
+    }
+  }
+}
+
+// ============================================
+// Startup
+// ============================================
+
+/**
+ * Migrate the legacy plain-text `panel_password` setting into a hashed
+ * `admin` account so existing installs keep a working login, and give
+ * accounts created before roles existed the owner role.
+ */
+export async function initAuth() {
+  const users = await getPanelUsers();
+  if (users.length > 0) {
+    for (const user of users.filter(u => !isValidRole(u.role))) {
+      await updatePanelUser(user.id, { role: 'owner' });
+      log.info(`Assigned owner role to existing user "${user.username}"`);
+    }
+    return;
+  }
+
+  const legacyPassword = await getSetting('panel_password');
+  if (typeof legacyPassword === 'string' && legacyPassword.length > 0) {
+    await createPanelUser('admin', await hashPassword(legacyPassword), 'owner');
+    await setSetting('panel_password', '');
+    log.info('Migrated legacy panel_password to user "admin"');
+    return;
+  }
+
+  log.warn('No panel account exists yet - the first visitor will be asked to create one');
+}
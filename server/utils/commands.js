@@ -1,4 +1,11 @@
-// All PZ Admin commands with descriptions and parameters
+// All PZ Admin commands with descriptions and parameters.
+// Parameter fields used by the console's completion and checks:
+//   values - where suggestions come from: 'players', 'options', 'optionValue'
+//            (the current value of the option before it) or a list in
+//            COMMAND_VALUES ('items', 'perks', ...)
+//   strict - only those values are accepted
+//   flag   - given as `-flag` (boolean) or `-flag value` instead of by position
+//   format - a hint for values written in a special form
 export const PZ_COMMANDS = {
   // Server Management
   save: {
@@ -29,8 +36,8 @@ export const PZ_COMMANDS = {
     command: 'changeoption',
     description: 'Change a server option',
     parameters: [
-      { name: 'optionName', type: 'string', required: true },
-      { name: 'newValue', type: 'string', required: true }
+      { name: 'optionName', type: 'string', required: true, values: 'options' },
+      { name: 'newValue', type: 'string', required: true, values: 'optionValue' }
     ],
     category: 'server'
   },
@@ -58,8 +65,8 @@ export const PZ_COMMANDS = {
     command: 'kick',
     description: 'Kick a player from the server',
     parameters: [
-      { name: 'username', type: 'string', required: true },
-      { name: 'reason', type: 'string', required: false }
+      { name: 'username', type: 'string', required: true, values: 'players' },
+      { name: 'reason', type: 'string', required: false, flag: 'r' }
     ],
     category: 'players'
   },
@@ -67,9 +74,9 @@ export const PZ_COMMANDS = {
     command: 'banuser',
     description: 'Ban a user. Can also ban IP with -ip flag',
     parameters: [
-      { name: 'username', type: 'string', required: true },
-      { name: 'banIp', type: 'boolean', required: false },
-      { name: 'reason', type: 'string', required: false }
+      { name: 'username', type: 'string', required: true, values: 'players' },
+      { name: 'banIp', type: 'boolean', required: false, flag: 'ip' },
+      { name: 'reason', type: 'string', required: false, flag: 'r' }
     ],
     category: 'players'
   },
@@ -95,8 +102,8 @@ export const PZ_COMMANDS = {
     command: 'setaccesslevel',
     description: 'Set access level: admin, moderator, overseer, gm, observer, none',
     parameters: [
-      { name: 'username', type: 'string', required: true },
-      { name: 'level', type: 'string', required: true }
+      { name: 'username', type: 'string', required: true, values: 'players' },
+      { name: 'level', type: 'string', required: true, values: 'accessLevels', strict: true }
     ],
     category: 'players'
   },
@@ -104,7 +111,7 @@ export const PZ_COMMANDS = {
     command: 'voiceban',
     description: 'Block/unblock voice from a user',
     parameters: [
-      { name: 'username', type: 'string', required: true },
+      { name: 'username', type: 'string', required: true, values: 'players' },
       { name: 'value', type: 'boolean', required: true }
     ],
     category: 'players'
@@ -123,7 +130,7 @@ export const PZ_COMMANDS = {
   addusertowhitelist: {
     command: 'addusertowhitelist',
     description: 'Add a connected user to whitelist',
-    parameters: [{ name: 'username', type: 'string', required: true }],
+    parameters: [{ name: 'username', type: 'string', required: true, values: 'players' }],
     category: 'whitelist'
   },
   removeuserfromwhitelist: {
@@ -144,8 +151,8 @@ export const PZ_COMMANDS = {
     command: 'teleport',
     description: 'Teleport to a player or teleport player1 to player2',
     parameters: [
-      { name: 'player1', type: 'string', required: true },
-      { name: 'player2', type: 'string', required: false }
+      { name: 'player1', type: 'string', required: true, values: 'players' },
+      { name: 'player2', type: 'string', required: false, values: 'players' }
     ],
     category: 'teleport'
   },
@@ -153,9 +160,7 @@ export const PZ_COMMANDS = {
     command: 'teleportto',
     description: 'Teleport to coordinates x,y,z',
     parameters: [
-      { name: 'x', type: 'number', required: true },
-      { name: 'y', type: 'number', required: true },
-      { name: 'z', type: 'number', required: true }
+      { name: 'coordinates', type: 'coordinates', required: true, format: 'x,y,z' }
     ],
     category: 'teleport'
   },
@@ -165,8 +170,8 @@ export const PZ_COMMANDS = {
     command: 'additem',
     description: 'Give an item to a player',
     parameters: [
-      { name: 'username', type: 'string', required: false },
-      { name: 'item', type: 'string', required: true },
+      { name: 'username', type: 'string', required: false, values: 'players' },
+      { name: 'item', type: 'string', required: true, values: 'items', format: 'Module.Item' },
       { name: 'count', type: 'number', required: false }
     ],
     category: 'items'
@@ -175,9 +180,8 @@ export const PZ_COMMANDS = {
     command: 'addxp',
     description: 'Give XP to a player',
     parameters: [
-      { name: 'username', type: 'string', required: true },
-      { name: 'perk', type: 'string', required: true },
-      { name: 'amount', type: 'number', required: true }
+      { name: 'username', type: 'string', required: true, values: 'players' },
+      { name: 'perk', type: 'perkAmount', required: true, values: 'perks', strict: true, format: 'Perk=amount' }
     ],
     category: 'items'
   },
@@ -185,8 +189,8 @@ export const PZ_COMMANDS = {
     command: 'addvehicle',
     description: 'Spawn a vehicle',
     parameters: [
-      { name: 'vehicle', type: 'string', required: true },
-      { name: 'username', type: 'string', required: false }
+      { name: 'vehicle', type: 'string', required: true, values: 'vehicles', format: 'Base.Vehicle' },
+      { name: 'username', type: 'string', required: false, values: 'players' }
     ],
     category: 'items'
   },
@@ -231,13 +235,13 @@ export const PZ_COMMANDS = {
   lightning: {
     command: 'lightning',
     description: 'Strike lightning on player',
-    parameters: [{ name: 'username', type: 'string', required: false }],
+    parameters: [{ name: 'username', type: 'string', required: false, values: 'players' }],
     category: 'events'
   },
   thunder: {
     command: 'thunder',
     description: 'Thunder sound on player',
-    parameters: [{ name: 'username', type: 'string', required: false }],
+    parameters: [{ name: 'username', type: 'string', required: false, values: 'players' }],
     category: 'events'
   },
   alarm: {
@@ -251,7 +255,7 @@ export const PZ_COMMANDS = {
     description: 'Spawn a horde near a player',
     parameters: [
       { name: 'count', type: 'number', required: true },
-      { name: 'username', type: 'string', required: false }
+      { name: 'username', type: 'string', required: false, values: 'players' }
     ],
     category: 'events'
   },
@@ -261,7 +265,7 @@ export const PZ_COMMANDS = {
     command: 'godmod',
     description: 'Make player invincible',
     parameters: [
-      { name: 'username', type: 'string', required: false },
+      { name: 'username', type: 'string', required: false, values: 'players' },
       { name: 'value', type: 'boolean', required: true }
     ],
     category: 'admin'
@@ -270,7 +274,7 @@ export const PZ_COMMANDS = {
     command: 'invisible',
     description: 'Make player invisible to zombies',
     parameters: [
-      { name: 'username', type: 'string', required: false },
+      { name: 'username', type: 'string', required: false, values: 'players' },
       { name: 'value', type: 'boolean', required: true }
     ],
     category: 'admin'
@@ -279,7 +283,7 @@ export const PZ_COMMANDS = {
     command: 'noclip',
     description: 'Allow player to pass through walls',
     parameters: [
-      { name: 'username', type: 'string', required: false },
+      { name: 'username', type: 'string', required: false, values: 'players' },
       { name: 'value', type: 'boolean', required: true }
     ],
     category: 'admin'
@@ -306,8 +310,8 @@ export const PZ_COMMANDS = {
     command: 'log',
     description: 'Set log level for a specific type',
     parameters: [
-      { name: 'type', type: 'string', required: true },
-      { name: 'level', type: 'string', required: true }
+      { name: 'type', type: 'string', required: true, values: 'logTypes' },
+      { name: 'level', type: 'string', required: true, values: 'logLevels', strict: true }
     ],
     category: 'advanced'
   },
@@ -317,7 +321,7 @@ export const PZ_COMMANDS = {
     command: 'stats',
     description: 'Set and clear server statistics',
     parameters: [
-      { name: 'mode', type: 'string', required: true },
+      { name: 'mode', type: 'string', required: true, values: 'statsModes', strict: true },
       { name: 'period', type: 'number', required: false }
     ],
     category: 'advanced'
@@ -428,3 +432,32 @@ export const LOG_LEVELS = ['Trace', 'Debug', 'General', 'Warning', 'Error'];
 
 // Stats modes
 export const STATS_MODES = ['none', 'file', 'console', 'all'];
+
+// Commonly spawned items for additem - any Module.Item id works in game
+export const ITEMS = [
+  'Base.Axe', 'Base.WoodAxe', 'Base.HandAxe', 'Base.Crowbar', 'Base.BaseballBat', 'Base.BaseballBatNails',
+  'Base.Machete', 'Base.Katana', 'Base.HuntingKnife', 'Base.KitchenKnife', 'Base.Hammer', 'Base.Sledgehammer',
+  'Base.Shovel', 'Base.Saw', 'Base.Screwdriver', 'Base.Wrench', 'Base.PipeWrench', 'Base.BlowTorch',
+  'Base.Pistol', 'Base.Pistol2', 'Base.Revolver', 'Base.Shotgun', 'Base.AssaultRifle', 'Base.HuntingRifle',
+  'Base.Bullets9mmBox', 'Base.ShotgunShellsBox', 'Base.308Box', 'Base.556Box',
+  'Base.Bandage', 'Base.AlcoholBandage', 'Base.Disinfectant', 'Base.Pills', 'Base.PillsAntiDep', 'Base.PillsBeta',
+  'Base.Antibiotics', 'Base.SutureNeedle', 'Base.Splint', 'Base.FirstAidKit',
+  'Base.WaterBottleFull', 'Base.CannedBeans', 'Base.CannedChili', 'Base.TinnedSoup', 'Base.Crisps', 'Base.Chocolate',
+  'Base.TinOpener', 'Base.Pan', 'Base.Pot',
+  'Base.Bag_ALICEpack', 'Base.Bag_BigHikingBag', 'Base.Bag_DuffelBag', 'Base.Bag_Schoolbag',
+  'Base.Plank', 'Base.Nails', 'Base.NailsBox', 'Base.Screws', 'Base.SheetMetal', 'Base.Log', 'Base.Rope',
+  'Base.Generator', 'Base.PetrolCan', 'Base.CarBattery1', 'Base.Torch', 'Base.Battery', 'Base.Lighter',
+  'Base.Matches', 'Base.WalkieTalkie5', 'Base.HamRadio1', 'Base.Needle', 'Base.Thread', 'Base.Sheet',
+  'Base.Belt2', 'Base.Hat_Army', 'Base.Vest_BulletArmy', 'Base.Shoes_ArmyBoots'
+];
+
+// Value lists the console suggests for PZ_COMMANDS parameters
+export const COMMAND_VALUES = {
+  items: ITEMS,
+  vehicles: VEHICLES,
+  perks: PERKS,
+  accessLevels: ACCESS_LEVELS,
+  logTypes: LOG_TYPES,
+  logLevels: LOG_LEVELS,
+  statsModes: STATS_MODES
+};
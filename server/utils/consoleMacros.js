@@ -0,0 +1,248 @@
+import { getConsoleMacroByName } from '../database/init.js';
+import { tokenizeCommand } from './rconParsers.js';
+
+// ============================================
+// Console Macros
+// ============================================
+//
+// A macro is a saved list of steps - RCON commands or PanelBridge actions -
+// run one after another, each optionally waiting before it runs:
+//   { name, description, params: [{ name, default }],
+//     steps: [{ type: 'rcon', command, delaySeconds }
+//           | { type: 'bridge', action, args, delaySeconds }] }
+// `${param}` in a command or in a string of bridge args is replaced with the
+// value given when the macro is run. The console, Discord /rcon and scheduled
+// tasks all run a macro with the same line:
+//   !restart-warning 5 "Back in a minute"     positional, in params order
+//   !give player=Bob item=Base.Axe            or by name
+
+export const MACRO_PREFIX = '!';
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+const PARAM_PATTERN = /^[a-z_][a-z0-9_]{0,29}$/i;
+const PLACEHOLDER = /\$\{([a-z_][a-z0-9_]*)\}/gi;
+const MAX_STEPS = 50;
+const MAX_DELAY_SECONDS = 3600;
+
+/** Whether a command line runs a macro rather than an RCON command */
+export function isMacroInvocation(line) {
+  return typeof line === 'string' && line.trim().startsWith(MACRO_PREFIX);
+}
+
+/** Split `!name arg1 key=value ...` into the macro name and its arguments */
+export function parseMacroInvocation(line) {
+  if (!isMacroInvocation(line)) return null;
+  const [name = '', ...args] = tokenizeCommand(line.trim().slice(MACRO_PREFIX.length));
+  return name ? { name, args } : null;
+}
+
+/**
+ * Check a macro sent by the panel. Returns an error message, or null when
+ * the macro can be saved.
+ */
+export function validateMacro({ name, params, steps }) {
+  if (!name || !NAME_PATTERN.test(name)) {
+    return 'Name must be 1-40 letters, digits, - or _';
+  }
+  if (!Array.isArray(params)) return 'params must be an array';
+  const paramNames = new Set();
+  for (const param of params) {
+    if (!param?.name || !PARAM_PATTERN.test(param.name)) {
+      return `Invalid parameter name: ${param?.name ?? ''}`;
+    }
+    if (paramNames.has(param.name)) return `Duplicate parameter: ${param.name}`;
+    paramNames.add(param.name);
+  }
+  if (!Array.isArray(steps) || steps.length === 0) return 'A macro needs at least one step';
+  if (steps.length > MAX_STEPS) return `A macro can have at most ${MAX_STEPS} steps`;
+
+  for (const [index, step] of steps.entries()) {
+    const label = `Step ${index + 1}`;
+    const delay = step.delaySeconds ?? 0;
+    if (!Number.isFinite(delay) || delay < 0 || delay > MAX_DELAY_SECONDS) {
+      return `${label}: delay must be 0-${MAX_DELAY_SECONDS} seconds`;
+    }
+    if (step.type === 'rcon') {
+      if (!step.command?.trim()) return `${label}: command is required`;
+      if (isMacroInvocation(step.command)) return `${label}: macros cannot run other macros`;
+    } else if (step.type === 'bridge') {
+      if (!step.action?.trim()) return `${label}: PanelBridge action is required`;
+      if (step.args !== undefined && (typeof step.args !== 'object' || step.args === null || Array.isArray(step.args))) {
+        return `${label}: PanelBridge args must be an object`;
+      }
+    } else {
+      return `${label}: unknown step type ${step.type}`;
+    }
+
+    const text = step.type === 'rcon' ? step.command : `${step.action} ${JSON.stringify(step.args ?? {})}`;
+    for (const [, placeholder] of text.matchAll(PLACEHOLDER)) {
+      if (!paramNames.has(placeholder)) return `${label}: unknown parameter \${${placeholder}}`;
+    }
+  }
+  return null;
+}
+
+/** Keep only the fields a macro is saved with */
+export function normalizeMacro({ name, description, params, steps }) {
+  return {
+    name: name.trim(),
+    description: description?.trim() || '',
+    params: params.map(param => ({
+      name: param.name,
+      ...(param.default !== undefined && param.default !== null && param.default !== '' ? { default: String(param.default) } : {})
+    })),
+    steps: steps.map(step => ({
+      type: step.type,
+      ...(step.type === 'rcon'
+        ? { command: step.command.trim() }
+        : { action: step.action.trim(), args: step.args ?? {} }),
+      delaySeconds: step.delaySeconds || 0
+    }))
+  };
+}
+
+/**
+ * Match arguments to the macro's parameters. `key=value` arguments set a
+ * parameter by name, the rest fill the remaining ones in order; the last
+ * parameter takes any extra words. Throws when a parameter has no value.
+ */
+export function resolveMacroParams(macro, args = []) {
+  const values = {};
+  const positional = [];
+  for (const arg of args) {
+    const match = arg.match(/^([a-z_][a-z0-9_]*)=(.*)$/is);
+    if (match && macro.params.some(param => param.name === match[1])) {
+      values[match[1]] = match[2];
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const unfilled = macro.params.filter(param => values[param.name] === undefined);
+  unfilled.forEach((param, index) => {
+    if (index >= positional.length) return;
+    values[param.name] = index === unfilled.length - 1
+      ? positional.slice(index).join(' ')
+      : positional[index];
+  });
+  if (unfilled.length === 0 && positional.length > 0) {
+    throw new Error(`!${macro.name} takes no more arguments`);
+  }
+
+  for (const param of macro.params) {
+    if (values[param.name] === undefined) {
+      if (param.default === undefined) throw new Error(`Missing value for \${${param.name}}`);
+      values[param.name] = param.default;
+    }
+  }
+  return values;
+}
+
+// Quotes would end a quoted RCON argument early
+function fillCommand(template, values) {
+  return template.replace(PLACEHOLDER, (_, name) => String(values[name] ?? '').replace(/"/g, ''));
+}
+
+// A string that is only a placeholder takes the value's type ("${x}" -> 12)
+function fillArgs(value, values) {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\$\{([a-z_][a-z0-9_]*)\}$/i);
+    if (whole) {
+      const filled = values[whole[1]] ?? '';
+      return filled !== '' && Number.isFinite(Number(filled)) ? Number(filled) : filled;
+    }
+    return value.replace(PLACEHOLDER, (_, name) => String(values[name] ?? ''));
+  }
+  if (Array.isArray(value)) return value.map(item => fillArgs(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillArgs(item, values)]));
+  }
+  return value;
+}
+
+/** The macro's steps with parameter values filled in */
+export function expandMacro(macro, values) {
+  return macro.steps.map(step => step.type === 'rcon'
+    ? { type: 'rcon', command: fillCommand(step.command, values), delaySeconds: step.delaySeconds || 0 }
+    : { type: 'bridge', action: step.action, args: fillArgs(step.args ?? {}, values), delaySeconds: step.delaySeconds || 0 });
+}
+
+/** How a step is shown in the console and in results */
+export function describeStep(step) {
+  return step.type === 'rcon' ? step.command : `bridge:${step.action} ${JSON.stringify(step.args)}`;
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a macro's steps in order. Stops at the first step that fails to
+ * send (a game answer such as "User x doesn't exist." does not stop it).
+ * @param {object} macro
+ * @param {string[]} args - arguments from the invocation
+ * @param {object} services
+ * @param {RconService} services.rconService
+ * @param {PanelBridge} [services.panelBridge]
+ * @param {string} [services.source] - RCON queue source ('ui', 'discord', 'scheduler')
+ * @param {boolean} [services.skipLog] - keep RCON steps out of the command history
+ * @param {(result: object) => void} [services.onStep] - called after each step
+ * @returns {Promise<{ success: boolean, macro: string, steps: object[], error?: string }>}
+ */
+export async function runMacro(macro, args, { rconService, panelBridge = null, source = 'ui', skipLog = false, onStep } = {}) {
+  const steps = expandMacro(macro, resolveMacroParams(macro, args));
+  const results = [];
+
+  for (const step of steps) {
+    if (step.delaySeconds > 0) await sleep(step.delaySeconds * 1000);
+
+    let result;
+    if (step.type === 'rcon') {
+      const response = await rconService.execute(step.command, { skipLog, source });
+      result = { command: step.command, success: response.success, response: response.response || response.error || '' };
+    } else {
+      try {
+        if (!panelBridge?.isRunning) throw new Error('PanelBridge is not running');
+        const response = await panelBridge.sendCommand(step.action, step.args);
+        result = { command: describeStep(step), success: true, response: JSON.stringify(response.data ?? {}) };
+      } catch (error) {
+        result = { command: describeStep(step), success: false, response: error.message };
+      }
+    }
+
+    results.push(result);
+    onStep?.(result);
+    if (!result.success) {
+      return { success: false, macro: macro.name, steps: results, error: `${result.command}: ${result.response}` };
+    }
+  }
+  return { success: true, macro: macro.name, steps: results };
+}
+
+/**
+ * Find the macro a `!name args` line names and check its arguments fit.
+ * Throws when they do not, so nothing runs with a bad line.
+ */
+export async function findMacroInvocation(line) {
+  const invocation = parseMacroInvocation(line);
+  if (!invocation) throw new Error(`Macro lines start with ${MACRO_PREFIX}`);
+  const macro = await getConsoleMacroByName(invocation.name);
+  if (!macro) throw new Error(`Unknown macro: ${MACRO_PREFIX}${invocation.name}`);
+  resolveMacroParams(macro, invocation.args);
+  return { macro, args: invocation.args };
+}
+
+/**
+ * Start the macro a `!name args` line names. The returned `run` promise
+ * settles when the last step is done.
+ */
+export async function startMacroInvocation(line, services) {
+  const { macro, args } = await findMacroInvocation(line);
+  return { macro, run: runMacro(macro, args, services) };
+}
+
+/** Run a `!name args` line to the end */
+export async function runMacroInvocation(line, services) {
+  const { run } = await startMacroInvocation(line, services);
+  return run;
+}
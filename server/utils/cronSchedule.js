@@ -0,0 +1,96 @@
+// ============================================
+// Cron Schedule
+// ============================================
+//
+// node-cron cannot say when a job runs next. The fields of an expression
+// (5 or 6 of them, with names, ranges, lists and steps) are expanded here
+// into the values they match the way node-cron 3 does it, so the times
+// worked out here are the ones node-cron fires at.
+
+const SEARCH_DAYS = 366 * 4; // Feb 29 comes round at least once in four years
+
+// seconds, minutes, hours, day of month, month, day of week
+const FIELD_RANGES = [[0, 59], [0, 59], [0, 23], [1, 31], [1, 12], [0, 6]];
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Month and weekday names (full or short, any case) as numbers */
+function replaceNames(field, names, first) {
+  return field.replace(/[a-z]+/gi, name => {
+    const index = names.indexOf(name.slice(0, 3).toLowerCase());
+    return index === -1 ? name : String(index + first);
+  });
+}
+
+/**
+ * The values a field matches. Like node-cron, a step applies to the whole
+ * field and keeps the values divisible by it: `5-30/10` is 10,20,30.
+ */
+function parseField(field, [min, max]) {
+  const [list, step] = field.split('/');
+  const values = list.split(',').flatMap(part => {
+    if (part === '*') part = `${min}-${max}`;
+    const [from, to = from] = part.split('-').map(Number);
+    const low = Math.min(from, to);
+    return Array.from({ length: Math.max(from, to) - low + 1 }, (_, i) => low + i);
+  });
+  return new Set(step ? values.filter(value => value % Number(step) === 0) : values);
+}
+
+function sorted(set) {
+  return [...set].sort((a, b) => a - b);
+}
+
+/** The fields of a valid cron expression as sets of values */
+export function parseCron(expression) {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length === 5) fields.unshift('0');
+  fields[4] = replaceNames(fields[4], MONTH_NAMES, 1);
+  // node-cron reads the first 7 as Sunday before expanding ranges, so 5-7 is 0-5
+  fields[5] = replaceNames(fields[5].replace('7', '0'), WEEKDAY_NAMES, 0);
+  const [seconds, minutes, hours, days, months, weekdays] = fields.map((field, i) => parseField(field, FIELD_RANGES[i]));
+  return { seconds, minutes, hours, days, months, weekdays };
+}
+
+/**
+ * The next `count` times (after `from`) a cron expression fires, in server
+ * local time like node-cron.
+ * @param {string} expression - a cron expression that passed cron.validate
+ * @param {Date} [from]
+ * @param {number} [count]
+ * @param {Date} [until] - stop looking after this time
+ * @returns {Date[]}
+ */
+export function nextCronRuns(expression, from = new Date(), count = 1, until = null) {
+  const fields = parseCron(expression);
+  const hours = sorted(fields.hours);
+  const minutes = sorted(fields.minutes);
+  const seconds = sorted(fields.seconds);
+  const runs = [];
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+  for (let i = 0; i < SEARCH_DAYS && runs.length < count; i++, day.setDate(day.getDate() + 1)) {
+    if (until && day > until) break;
+    if (!fields.months.has(day.getMonth() + 1) || !fields.days.has(day.getDate()) || !fields.weekdays.has(day.getDay())) {
+      continue;
+    }
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        for (const second of seconds) {
+          const run = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute, second);
+          if (run <= from) continue;
+          if (until && run > until) return runs;
+          runs.push(run);
+          if (runs.length >= count) return runs;
+        }
+      }
+    }
+  }
+  return runs;
+}
+
+/** The next time a cron expression fires after `from`, or null */
+export function nextCronRun(expression, from = new Date()) {
+  return nextCronRuns(expression, from, 1)[0] ?? null;
+}
@@ -0,0 +1,519 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  IS_WINDOWS,
+  DEFAULT_START_SCRIPT,
+  NOSTEAM_START_SCRIPT,
+  getCustomStartScriptName,
+  isStartScriptPath,
+  buildLinuxLaunchArgs
+} from './platform.js';
+
+// ============================================
+// Launch Profiles
+// ============================================
+//
+// The JVM options and game arguments a server starts with. They live in
+// the server's own files, which this module reads and rewrites:
+//   Windows - the java command line in the start script (.bat)
+//   Linux   - `vmArgs` in ProjectZomboid64.json (read by start-server.sh);
+//             game arguments are passed to the start script, from the
+//             panel-generated StartServer_<name>.sh or the server instance.
+// The first write of a file keeps a copy of it next to it as <file>.orig.
+
+const MAIN_CLASS = 'zombie.network.GameServer';
+const JVM_CONFIG_FILE = 'ProjectZomboid64.json';
+const BACKUP_SUFFIX = '.orig';
+
+const DEFAULT_GAME_PORT = 16261;
+
+// Heap limits (MB)
+const MIN_HEAP_MB = 512;
+const MAX_HEAP_MB = 256 * 1024;
+
+// JVM properties the game needs to find its libraries - kept as they are
+const PRESERVED_PROPERTIES = ['java.library.path', 'java.class.path'];
+
+const PROPERTY_KEY_REGEX = /^[A-Za-z0-9_.-]{1,128}$/;
+const GC_FLAG_REGEX = /^-XX:([+-][A-Za-z0-9_]+|[A-Za-z0-9_]+=[A-Za-z0-9_.:/+-]+)$/;
+const SERVER_NAME_REGEX = /^[a-zA-Z0-9_-]{1,64}$/;
+// Characters that would break out of a batch or shell command line
+const UNSAFE_VALUE_REGEX = /["%&|<>^`$\r\n]/;
+const EXTRA_ARG_REGEX = /^[A-Za-z0-9_.:=/\\+-]{1,256}$/;
+// Batch parameters (%1, %*) the stock Windows scripts forward
+const BATCH_PARAMETER_REGEX = /^%(\d|\*)$/;
+
+/**
+ * Server instances store memory in MB. Records from older setups stored
+ * gigabytes, so small values are read as GB.
+ */
+export function toMegabytes(value, fallback) {
+  const num = parseInt(value, 10);
+  if (!num || num <= 0) return fallback;
+  return num < 256 ? num * 1024 : num;
+}
+
+/**
+ * Work out the folder and start script a server instance launches with.
+ * `fallbackScript` is used when the instance doesn't pick one itself.
+ */
+export function resolveStartScript(server, fallbackScript = DEFAULT_START_SCRIPT) {
+  let serverPath = server.serverPath || server.installPath || '';
+  let script = null;
+
+  // A path pointing at a script selects that script
+  if (serverPath && isStartScriptPath(serverPath)) {
+    script = path.basename(serverPath);
+    serverPath = path.dirname(serverPath);
+  }
+
+  if (!script && server.serverName && fallbackScript === DEFAULT_START_SCRIPT) {
+    const customScript = getCustomStartScriptName(server.serverName);
+    if (serverPath && fs.existsSync(path.join(serverPath, customScript))) {
+      script = customScript;
+    } else if (server.useNoSteam) {
+      script = NOSTEAM_START_SCRIPT;
+    }
+  }
+
+  return { serverPath, script: script || fallbackScript };
+}
+
+/**
+ * Arguments passed to the start script. Windows scripts (and the scripts
+ * the panel generates) carry their own options; the stock Linux
+ * start-server.sh gets them from the server instance.
+ */
+export function getStartScriptArgs(server, script) {
+  if (IS_WINDOWS || script !== DEFAULT_START_SCRIPT) return [];
+  return buildLinuxLaunchArgs({
+    serverName: server.serverName,
+    minMemory: toMegabytes(server.minMemory, 4096),
+    maxMemory: toMegabytes(server.maxMemory, 8192),
+    cacheDir: server.zomboidDataPath,
+    serverPort: server.serverPort,
+    useNoSteam: server.useNoSteam,
+    useDebug: server.useDebug,
+    extraArgs: server.extraLaunchArgs || []
+  });
+}
+
+// ── Command line parsing ──
+
+/** Split a batch command line into arguments (double quotes group, and are removed) */
+export function splitBatchArgs(line) {
+  const args = [];
+  let current = '';
+  let inQuotes = false;
+  let hasToken = false;
+  for (const char of line.trim()) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      hasToken = true;
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (hasToken) args.push(current);
+      current = '';
+      hasToken = false;
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+  if (hasToken) args.push(current);
+  return args;
+}
+
+/** Split a shell command line into arguments (single/double quotes and backslash escapes) */
+export function splitShellArgs(line) {
+  const args = [];
+  let current = '';
+  let quote = null;
+  let hasToken = false;
+  const chars = [...line.trim()];
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else if (char === '\\' && quote === '"' && i + 1 < chars.length) current += chars[++i];
+      else current += char;
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+      hasToken = true;
+    } else if (char === '\\' && i + 1 < chars.length) {
+      current += chars[++i];
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) args.push(current);
+      current = '';
+      hasToken = false;
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+  if (hasToken) args.push(current);
+  return args;
+}
+
+function quoteBatchArg(value) {
+  if (!/\s/.test(value)) return value;
+  // -option=value quotes just the value, as the generated scripts do
+  const match = /^(-[^=\s]+=)(.*)$/.exec(value);
+  return match ? `${match[1]}"${match[2]}"` : `"${value}"`;
+}
+
+function quoteShellArg(value) {
+  return `'${String(value).replace(/'/g, `'\\''`)}'`;
+}
+
+function parseHeapSize(value) {
+  const match = /^(\d+)([kKmMgG]?)$/.exec(value);
+  if (!match) return null;
+  const amount = parseInt(match[1], 10);
+  switch (match[2].toLowerCase()) {
+    case 'g': return amount * 1024;
+    case 'm': return amount;
+    case 'k': return Math.round(amount / 1024);
+    default: return Math.round(amount / (1024 * 1024));
+  }
+}
+
+/**
+ * Sort JVM arguments into the editable profile fields. Anything the
+ * editor doesn't manage (classpath, library path, agents...) is returned
+ * in `preserved` and written back unchanged.
+ */
+export function parseJvmArgs(args) {
+  const profile = { minMemory: null, maxMemory: null, gcFlags: [], properties: [] };
+  const preserved = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('-Xms') && parseHeapSize(arg.slice(4)) !== null) {
+      profile.minMemory = parseHeapSize(arg.slice(4));
+    } else if (arg.startsWith('-Xmx') && parseHeapSize(arg.slice(4)) !== null) {
+      profile.maxMemory = parseHeapSize(arg.slice(4));
+    } else if (arg.startsWith('-XX:')) {
+      profile.gcFlags.push(arg);
+    } else if (arg.startsWith('-D')) {
+      const [key, ...rest] = arg.slice(2).split('=');
+      if (PRESERVED_PROPERTIES.includes(key)) {
+        preserved.push(arg);
+      } else {
+        profile.properties.push({ key, value: rest.length > 0 ? rest.join('=') : null });
+      }
+    } else if (arg === '-cp' || arg === '-classpath') {
+      preserved.push(arg, args[++i]);
+    } else {
+      preserved.push(arg);
+    }
+  }
+
+  return { profile, preserved };
+}
+
+/** Sort game arguments into the editable profile fields */
+export function parseGameArgs(args) {
+  const profile = { serverName: '', cacheDir: '', port: null, adminPassword: '', extraGameArgs: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const lower = arg.toLowerCase();
+    if (lower === '-servername' && i + 1 < args.length) {
+      profile.serverName = args[++i];
+    } else if (lower.startsWith('-cachedir=')) {
+      profile.cacheDir = arg.slice('-cachedir='.length);
+    } else if (lower === '-cachedir' && i + 1 < args.length) {
+      profile.cacheDir = args[++i];
+    } else if (lower === '-port' && i + 1 < args.length) {
+      profile.port = parseInt(args[++i], 10) || null;
+    } else if (lower === '-adminpassword' && i + 1 < args.length) {
+      profile.adminPassword = args[++i];
+    } else {
+      profile.extraGameArgs.push(arg);
+    }
+  }
+
+  return profile;
+}
+
+export function buildJvmArgs(profile) {
+  const args = [];
+  if (profile.minMemory) args.push(`-Xms${profile.minMemory}m`);
+  if (profile.maxMemory) args.push(`-Xmx${profile.maxMemory}m`);
+  args.push(...profile.gcFlags);
+  for (const { key, value } of profile.properties) {
+    args.push(value === null || value === undefined || value === '' ? `-D${key}` : `-D${key}=${value}`);
+  }
+  return args;
+}
+
+export function buildGameArgs(profile) {
+  const args = [];
+  if (profile.serverName) args.push('-servername', profile.serverName);
+  if (profile.cacheDir) args.push(`-cachedir=${profile.cacheDir}`);
+  if (profile.port && profile.port !== DEFAULT_GAME_PORT) args.push('-port', String(profile.port));
+  if (profile.adminPassword) args.push('-adminpassword', profile.adminPassword);
+  args.push(...profile.extraGameArgs);
+  return args;
+}
+
+/**
+ * Check a profile from the editor. Returns a list of problems (empty when valid).
+ */
+export function validateLaunchProfile(profile) {
+  const errors = [];
+  const { minMemory, maxMemory } = profile;
+
+  for (const [label, value] of [['Minimum heap', minMemory], ['Maximum heap', maxMemory]]) {
+    if (value !== null && (!Number.isInteger(value) || value < MIN_HEAP_MB || value > MAX_HEAP_MB)) {
+      errors.push(`${label} must be between ${MIN_HEAP_MB} MB and ${MAX_HEAP_MB / 1024} GB`);
+    }
+  }
+  if (!maxMemory) {
+    errors.push('Maximum heap is required');
+  } else if (minMemory && minMemory > maxMemory) {
+    errors.push('Minimum heap cannot be larger than the maximum heap');
+  }
+
+  for (const flag of profile.gcFlags) {
+    if (!GC_FLAG_REGEX.test(flag)) errors.push(`Invalid JVM flag: ${flag} (expected -XX:+Option, -XX:-Option or -XX:Option=value)`);
+  }
+  for (const { key, value } of profile.properties) {
+    if (!PROPERTY_KEY_REGEX.test(key || '')) errors.push(`Invalid property name: ${key}`);
+    else if (PRESERVED_PROPERTIES.includes(key)) errors.push(`${key} is managed by the server files and cannot be edited`);
+    if (value && UNSAFE_VALUE_REGEX.test(value)) errors.push(`Property ${key} contains characters that are not allowed`);
+  }
+
+  if (!SERVER_NAME_REGEX.test(profile.serverName || '')) {
+    errors.push('Server name may only contain letters, numbers, underscores and hyphens');
+  }
+  if (profile.cacheDir) {
+    const normalized = path.normalize(profile.cacheDir);
+    if (!path.isAbsolute(normalized) || normalized.includes('..') || UNSAFE_VALUE_REGEX.test(profile.cacheDir)) {
+      errors.push('Cache directory must be an absolute path without special characters');
+    }
+  }
+  if (profile.port !== null && (!Number.isInteger(profile.port) || profile.port < 1 || profile.port > 65535)) {
+    errors.push('Port must be between 1 and 65535');
+  }
+  if (profile.adminPassword && UNSAFE_VALUE_REGEX.test(profile.adminPassword)) {
+    errors.push('Admin password contains characters that are not allowed');
+  }
+  for (const arg of profile.extraGameArgs) {
+    if (!EXTRA_ARG_REGEX.test(arg) && !BATCH_PARAMETER_REGEX.test(arg)) {
+      errors.push(`Invalid game argument: ${arg}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Turn editor input into a profile, coercing types. Unknown fields are dropped.
+ */
+export function normalizeLaunchProfile(input = {}) {
+  const toInt = (value) => (value === null || value === undefined || value === '' ? null : Number(value));
+  const toList = (value) => (Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : []);
+  return {
+    minMemory: toInt(input.minMemory),
+    maxMemory: toInt(input.maxMemory),
+    gcFlags: toList(input.gcFlags),
+    properties: (Array.isArray(input.properties) ? input.properties : [])
+      .map(p => ({ key: String(p?.key ?? '').trim(), value: p?.value === null || p?.value === undefined ? null : String(p.value).trim() }))
+      .filter(p => p.key),
+    serverName: String(input.serverName ?? '').trim(),
+    cacheDir: String(input.cacheDir ?? '').trim(),
+    port: toInt(input.port),
+    adminPassword: String(input.adminPassword ?? ''),
+    extraGameArgs: toList(input.extraGameArgs)
+  };
+}
+
+// ── Reading and writing server files ──
+
+function backupOnce(filePath) {
+  const backupPath = `${filePath}${BACKUP_SUFFIX}`;
+  if (!fs.existsSync(backupPath)) {
+    fs.copyFileSync(filePath, backupPath);
+  }
+  return backupPath;
+}
+
+function describeFile(filePath, role) {
+  const backupPath = `${filePath}${BACKUP_SUFFIX}`;
+  return { path: filePath, role, backup: fs.existsSync(backupPath) ? backupPath : null };
+}
+
+/** Find the java command line in a batch script */
+function findBatchCommand(content) {
+  const lines = content.split(/\r?\n/);
+  const index = lines.findIndex(line => line.includes(MAIN_CLASS) && !/^\s*(rem\b|::)/i.test(line));
+  if (index === -1) return null;
+
+  const args = splitBatchArgs(lines[index]);
+  const mainIndex = args.indexOf(MAIN_CLASS);
+  return {
+    lines,
+    index,
+    executable: args[0],
+    jvmArgs: args.slice(1, mainIndex),
+    gameArgs: args.slice(mainIndex + 1)
+  };
+}
+
+// The panel-generated Linux script runs `exec bash ./start-server.sh <args>`
+const SHELL_LAUNCH_REGEX = /^(\s*(?:exec\s+)?(?:bash\s+)?\.?\/?start-server\.sh)(.*)$/;
+
+function findShellCommand(content) {
+  const lines = content.split('\n');
+  const index = lines.findIndex(line => SHELL_LAUNCH_REGEX.test(line));
+  if (index === -1) return null;
+
+  const [, prefix, rest] = SHELL_LAUNCH_REGEX.exec(lines[index]);
+  const args = splitShellArgs(rest);
+  const separator = args.indexOf('--');
+  return {
+    lines,
+    index,
+    prefix,
+    jvmArgs: separator === -1 ? [] : args.slice(0, separator),
+    gameArgs: separator === -1 ? args : args.slice(separator + 1)
+  };
+}
+
+function readJvmConfig(serverPath) {
+  const configPath = path.join(serverPath, JVM_CONFIG_FILE);
+  if (!fs.existsSync(configPath)) return null;
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  return { configPath, config, vmArgs: Array.isArray(config.vmArgs) ? config.vmArgs : [] };
+}
+
+/**
+ * Read the launch profile of a server instance from its files.
+ * Returns { profile, files, script, serverPath, command }.
+ */
+export function readLaunchProfile(server) {
+  const { serverPath, script } = resolveStartScript(server);
+  if (!serverPath || !fs.existsSync(serverPath)) {
+    throw new Error(`Server folder not found: ${serverPath || '(not configured)'}`);
+  }
+  const scriptPath = path.join(serverPath, script);
+
+  if (IS_WINDOWS) {
+    if (!fs.existsSync(scriptPath)) throw new Error(`Start script not found: ${scriptPath}`);
+    const command = findBatchCommand(fs.readFileSync(scriptPath, 'utf8'));
+    if (!command) throw new Error(`No ${MAIN_CLASS} command line found in ${script}`);
+
+    const { profile } = parseJvmArgs(command.jvmArgs);
+    return {
+      profile: { ...profile, ...parseGameArgs(command.gameArgs) },
+      files: [describeFile(scriptPath, 'jvm+game')],
+      script,
+      serverPath,
+      command: `cmd.exe /c ${script}\n  -> "${command.executable}" ${[...command.jvmArgs.map(quoteBatchArg), MAIN_CLASS, ...command.gameArgs.map(quoteBatchArg)].join(' ')}`
+    };
+  }
+
+  const jvmConfig = readJvmConfig(serverPath);
+  if (!jvmConfig) throw new Error(`${JVM_CONFIG_FILE} not found in ${serverPath}`);
+  const { profile: jvmProfile } = parseJvmArgs(jvmConfig.vmArgs);
+  const files = [describeFile(jvmConfig.configPath, 'jvm')];
+
+  let scriptArgs;
+  let command;
+  if (script === DEFAULT_START_SCRIPT) {
+    scriptArgs = getStartScriptArgs(server, script);
+    const separator = scriptArgs.indexOf('--');
+    command = { jvmArgs: scriptArgs.slice(0, separator), gameArgs: scriptArgs.slice(separator + 1) };
+  } else {
+    if (!fs.existsSync(scriptPath)) throw new Error(`Start script not found: ${scriptPath}`);
+    command = findShellCommand(fs.readFileSync(scriptPath, 'utf8'));
+    if (!command) throw new Error(`No start-server.sh command line found in ${script}`);
+    scriptArgs = [];
+    files.push(describeFile(scriptPath, 'game'));
+  }
+  const gameProfile = parseGameArgs(command.gameArgs);
+
+  // Heap sizes given to the script override ProjectZomboid64.json
+  const { profile: scriptJvm } = parseJvmArgs(command.jvmArgs);
+  if (scriptJvm.minMemory) jvmProfile.minMemory = scriptJvm.minMemory;
+  if (scriptJvm.maxMemory) jvmProfile.maxMemory = scriptJvm.maxMemory;
+
+  return {
+    profile: { ...jvmProfile, ...gameProfile },
+    files,
+    script,
+    serverPath,
+    command: `bash ${[script, ...scriptArgs].map(quoteShellArg).join(' ')}\n  JVM options (${JVM_CONFIG_FILE}): ${jvmConfig.vmArgs.join(' ')}`
+  };
+}
+
+/**
+ * Write a validated launch profile into the server's files, backing up each
+ * file the first time it is changed. Returns the instance fields that mirror
+ * the profile so the caller can keep the server record in sync.
+ */
+export function writeLaunchProfile(server, profile) {
+  const { serverPath, script } = resolveStartScript(server);
+  const scriptPath = path.join(serverPath, script);
+
+  if (IS_WINDOWS) {
+    const command = findBatchCommand(fs.readFileSync(scriptPath, 'utf8'));
+    if (!command) throw new Error(`No ${MAIN_CLASS} command line found in ${script}`);
+    const { preserved } = parseJvmArgs(command.jvmArgs);
+    const args = [...buildJvmArgs(profile), ...preserved, MAIN_CLASS, ...buildGameArgs(profile)];
+
+    backupOnce(scriptPath);
+    command.lines[command.index] = `"${command.executable}" ${args.map(quoteBatchArg).join(' ')}`;
+    fs.writeFileSync(scriptPath, command.lines.join('\r\n'), 'utf8');
+  } else {
+    const jvmConfig = readJvmConfig(serverPath);
+    if (!jvmConfig) throw new Error(`${JVM_CONFIG_FILE} not found in ${serverPath}`);
+    const { preserved } = parseJvmArgs(jvmConfig.vmArgs);
+
+    backupOnce(jvmConfig.configPath);
+    jvmConfig.config.vmArgs = [...buildJvmArgs(profile), ...preserved];
+    fs.writeFileSync(jvmConfig.configPath, `${JSON.stringify(jvmConfig.config, null, 2)}\n`, 'utf8');
+
+    if (script !== DEFAULT_START_SCRIPT) {
+      const command = findShellCommand(fs.readFileSync(scriptPath, 'utf8'));
+      if (!command) throw new Error(`No start-server.sh command line found in ${script}`);
+      backupOnce(scriptPath);
+      // JVM options now come from ProjectZomboid64.json alone
+      command.lines[command.index] = `${command.prefix} ${['--', ...buildGameArgs(profile)].map(quoteShellArg).join(' ')}`;
+      fs.writeFileSync(scriptPath, command.lines.join('\n'), 'utf8');
+    }
+  }
+
+  const properties = new Set(profile.properties.map(p => p.key));
+  return {
+    serverName: profile.serverName,
+    serverPort: profile.port || DEFAULT_GAME_PORT,
+    zomboidDataPath: profile.cacheDir || null,
+    minMemory: profile.minMemory || profile.maxMemory,
+    maxMemory: profile.maxMemory,
+    useDebug: properties.has('debug'),
+    useNoSteam: profile.extraGameArgs.some(arg => arg.toLowerCase() === '-nosteam'),
+    // Only the stock Linux script takes its extra arguments from the instance
+    extraLaunchArgs: !IS_WINDOWS && script === DEFAULT_START_SCRIPT
+      ? profile.extraGameArgs.filter(arg => arg.toLowerCase() !== '-nosteam')
+      : []
+  };
+}
+
+/**
+ * Put back the files saved before the first launch profile change
+ */
+export function restoreLaunchProfile(server) {
+  const { files } = readLaunchProfile(server);
+  const restored = [];
+  for (const file of files) {
+    if (file.backup) {
+      fs.copyFileSync(file.backup, file.path);
+      fs.unlinkSync(file.backup);
+      restored.push(file.path);
+    }
+  }
+  return restored;
+}
@@ -0,0 +1,87 @@
+import { nextCronRuns } from './cronSchedule.js';
+import { findPostponement } from './scheduleForecast.js';
+
+// ============================================
+// Missed Runs
+// ============================================
+//
+// Cron jobs only fire while the panel is running. On start-up the scheduler
+// works out which runs of each cron task fell into the time the panel was
+// down and what to do about them, going by the task's `catch_up` policy:
+//   'skip' - record them as missed and wait for the next run
+//   'once' - run the task once now for all of them
+//   'all'  - run the task once for every missed run (at most MAX_CATCH_UP_RUNS)
+// A task's runs are looked for after the last sign of it having run: its
+// `last_run`, its newest history entry, or when it was last saved. A run
+// that was postponed is due at its new time, not its usual one.
+
+export const CATCH_UP_POLICIES = ['skip', 'once', 'all'];
+export const DEFAULT_CATCH_UP = 'skip';
+
+// Most runs 'all' makes up for; the rest are recorded as missed
+export const MAX_CATCH_UP_RUNS = 10;
+
+// Most missed runs counted for one task
+const MAX_COUNTED = 1000;
+
+/** The time a task last ran or was saved, or null when it is not known */
+export function lastActivity(task, history) {
+  const times = [
+    task.last_run,
+    history.find(entry => entry.task_id === task.id)?.executed_at,
+    task.updated_at,
+    task.created_at
+  ].filter(Boolean).map(time => new Date(time).getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+/**
+ * The runs of a cron task due after its last activity and before `now`.
+ * `postponements` are the schedule's postponed runs (see scheduleForecast.js):
+ * a postponed run is left out at its usual time and is missed at its new
+ * time when that has passed too.
+ */
+export function findMissedRuns(task, history, postponements = [], now = new Date()) {
+  const since = lastActivity(task, history);
+  if (!since || since >= now) return [];
+  const jobKey = `task:${task.id}`;
+  const due = nextCronRuns(task.cron_expression, since, MAX_COUNTED, now)
+    .filter(run => run < now && !findPostponement(postponements, jobKey, run));
+  const moved = postponements
+    .filter(p => p.job_key === jobKey)
+    .map(p => new Date(p.postponed_to))
+    .filter(at => at < now);
+  return [...due, ...moved].sort((a, b) => a - b);
+}
+
+/**
+ * What a task's catch-up policy does with its missed runs.
+ * @returns {{ policy: string, run: Date[], skipped: Date[] }} - `run` are
+ *   the runs made up for now, `skipped` those only recorded as missed
+ */
+export function planCatchUp(task, missed) {
+  const policy = CATCH_UP_POLICIES.includes(task.catch_up) ? task.catch_up : DEFAULT_CATCH_UP;
+  if (policy === 'once') return { policy, run: missed.slice(-1), skipped: missed.slice(0, -1) };
+  if (policy === 'all') {
+    const run = missed.slice(-MAX_CATCH_UP_RUNS);
+    return { policy, run, skipped: missed.slice(0, missed.length - run.length) };
+  }
+  return { policy, run: [], skipped: missed };
+}
+
+/** Check a catch-up policy sent by the panel. Returns an error message, or null */
+export function validateCatchUp(catchUp) {
+  if (catchUp === undefined || CATCH_UP_POLICIES.includes(catchUp)) return null;
+  return `Catch-up must be one of: ${CATCH_UP_POLICIES.join(', ')}`;
+}
+
+/** "Oct 19, 04:00" */
+export function formatDue(run) {
+  return run.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+}
+
+/** "2 runs due Oct 19, 04:00 to Oct 20, 04:00" for the history and the log */
+export function describeMissedRuns(runs) {
+  if (runs.length === 1) return `1 run due ${formatDue(runs[0])}`;
+  return `${runs.length} runs due ${formatDue(runs[0])} to ${formatDue(runs[runs.length - 1])}`;
+}
@@ -0,0 +1,100 @@
+// ============================================
+// One-off Tasks
+// ============================================
+//
+// A one-off task runs once at `run_at` instead of on a cron expression:
+//   { run_at, timezone, missed_grace_minutes }
+// It is entered as a wall-clock time in `timezone` ("2026-10-24T03:00" in
+// "Europe/Berlin"), saved as the instant that stands for (ISO, UTC) and
+// disabled once it has run. When the panel was not running at that time,
+// the next start runs it if it is at most `missed_grace_minutes` late and
+// records it as missed otherwise.
+
+export const DEFAULT_GRACE_MINUTES = 15;
+const MAX_GRACE_MINUTES = 24 * 60;
+const LOCAL_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/** The time zone the panel's server runs in */
+export function serverTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// How far the wall clock in `timeZone` is ahead of UTC at `date`, in ms
+function zoneOffset(date, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  const wall = Date.UTC(+parts.year, parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** The instant a wall-clock time ("YYYY-MM-DDTHH:mm") in `timeZone` stands for, or null */
+export function zonedTimeToDate(localTime, timeZone) {
+  const match = LOCAL_TIME.exec(localTime ?? '');
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second = '0'] = match;
+  const wall = Date.UTC(+year, month - 1, +day, +hour, +minute, +second);
+  // The offset at the wall time is a first guess; a DST change in between moves it once more
+  const guess = wall - zoneOffset(new Date(wall), timeZone);
+  return new Date(wall - zoneOffset(new Date(guess), timeZone));
+}
+
+/** A task's run time as its time zone shows it, e.g. "Sat, Oct 24, 03:00 (Europe/Berlin)" */
+export function formatRunAt(task) {
+  const timeZone = task.timezone || serverTimeZone();
+  const text = new Date(task.run_at).toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  });
+  return `${text} (${timeZone})`;
+}
+
+/**
+ * Check a one-off schedule sent by the panel: { runAt, timezone, missedGraceMinutes }.
+ * Returns an error message, or null when it can be saved.
+ */
+export function validateOneOffSchedule({ runAt, timezone, missedGraceMinutes }) {
+  const timeZone = timezone || serverTimeZone();
+  if (!isValidTimeZone(timeZone)) return `Unknown time zone ${timezone}`;
+  const date = zonedTimeToDate(runAt, timeZone);
+  if (!date || isNaN(date)) return 'Run time must look like 2026-10-24T03:00';
+  if (date.getTime() <= Date.now()) return 'Run time must be in the future';
+  if (missedGraceMinutes !== undefined && missedGraceMinutes !== null
+    && !(Number.isInteger(missedGraceMinutes) && missedGraceMinutes >= 0 && missedGraceMinutes <= MAX_GRACE_MINUTES)) {
+    return `Grace window must be 0-${MAX_GRACE_MINUTES} minutes`;
+  }
+  return null;
+}
+
+/** The fields a one-off task is saved with */
+export function normalizeOneOffSchedule({ runAt, timezone, missedGraceMinutes }) {
+  const timeZone = timezone || serverTimeZone();
+  return {
+    run_at: zonedTimeToDate(runAt, timeZone).toISOString(),
+    timezone: timeZone,
+    missed_grace_minutes: missedGraceMinutes ?? DEFAULT_GRACE_MINUTES
+  };
+}
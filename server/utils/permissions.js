@@ -0,0 +1,363 @@
+// ============================================
+// Panel Roles & Permissions
+// ============================================
+
+export const ROLES = ['owner', 'admin', 'moderator', 'viewer'];
+
+export const PERMISSIONS = {
+  'server.control': 'Start, stop, restart, install and update the server',
+  'server.manage': 'Save the world, broadcast messages and clear the console',
+  'players.moderate': 'Kick, ban and unban players',
+  'players.manage': 'Teleport, items, XP, access levels, notes and whitelist',
+  'rcon.execute': 'Run raw RCON and PanelBridge commands',
+  'events.trigger': 'Weather, world events, sounds and utilities',
+  'config.write': 'Edit server INI, sandbox and spawn files',
+  'mods.write': 'Track mods and write mod lists to the server INI',
+  'chunks.delete': 'Delete map chunks and regions',
+  'backup.create': 'Create and download world backups',
+  'backup.restore': 'Restore, delete and configure world backups',
+  'scheduler.manage': 'Create, edit and delete scheduled tasks',
+  'servers.manage': 'Add, edit, switch and remove server instances',
+  'discord.manage': 'Configure and control the Discord bot',
+  'settings.manage': 'Change panel settings, PanelBridge setup and debug tools',
+  'users.manage': 'Manage panel accounts and their roles',
+  'audit.view': 'View and export the audit log',
+  'tokens.manage': 'Create and revoke API tokens'
+};
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS);
+
+export const ROLE_PERMISSIONS = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS.filter(p => p !== 'users.manage'),
+  moderator: [
+    'server.manage',
+    'players.moderate',
+    'players.manage',
+    'events.trigger',
+    'backup.create'
+  ],
+  viewer: []
+};
+
+/**
+ * API token scopes. A token may only use the permissions its scopes grant
+ * that its creator's role also has, and may only read the route groups
+ * listed under `read` (sessions can read every group).
+ */
+export const TOKEN_SCOPES = {
+  'status:read': {
+    description: 'Read server status, players, mods, schedules and backups',
+    permissions: [],
+    read: ['server', 'servers', 'players', 'mods', 'scheduler', 'backup', 'panelBridge', 'serverFinder']
+  },
+  'config:read': {
+    description: 'Read server INI, sandbox and spawn files',
+    permissions: [],
+    read: ['config', 'serverFiles']
+  },
+  'server:control': {
+    description: 'Start, stop, restart and save the server, send broadcasts',
+    permissions: ['server.control', 'server.manage'],
+    read: ['server']
+  },
+  'players:write': {
+    description: 'Kick, ban, teleport and manage players',
+    permissions: ['players.moderate', 'players.manage'],
+    read: ['players']
+  },
+  'rcon:execute': {
+    description: 'Run raw RCON commands',
+    permissions: ['rcon.execute'],
+    read: ['rcon']
+  },
+  'events:trigger': {
+    description: 'Trigger weather and world events',
+    permissions: ['events.trigger'],
+    read: []
+  },
+  'backup:create': {
+    description: 'Create and download world backups',
+    permissions: ['backup.create'],
+    read: ['backup']
+  },
+  'audit:read': {
+    description: 'Read and export the audit log',
+    permissions: ['audit.view'],
+    read: []
+  }
+};
+
+/**
+ * Permission map per API route group.
+ *
+ * Reads (GET/HEAD) are open to every role unless listed - logs are; server
+ * INI reads mask their passwords for roles without `config.write` instead.
+ * Any other method needs the group's `default` permission unless a route
+ * entry overrides it.
+ * Entries are `'METHOD /path'` with Express-style `:params`; `null` means
+ * the route is allowed for every logged-in user.
+ */
+export const ROUTE_PERMISSIONS = {
+  server: {
+    default: 'server.manage',
+    routes: {
+      'POST /start': 'server.control',
+      'POST /stop': 'server.control',
+      'POST /force-stop': 'server.control',
+      'POST /restart': 'server.control',
+      'POST /install': 'server.control',
+      'POST /quick-setup': 'server.control',
+      'POST /configure-rcon': 'server.control',
+      'POST /configure-network': 'server.control',
+      'POST /steam-update': 'server.control',
+      'POST /steamcmd/download': 'server.control',
+      'POST /delete-files': 'server.control',
+      'POST /reloadlua': 'server.control',
+      'POST /log': 'server.control',
+      'POST /stats': 'server.control',
+      'POST /update-check/interval': 'server.control',
+      'POST /browse-folder': 'servers.manage',
+      'POST /weather/start-rain': 'events.trigger',
+      'POST /weather/stop-rain': 'events.trigger',
+      'POST /weather/start-storm': 'events.trigger',
+      'POST /weather/stop': 'events.trigger',
+      'POST /events/chopper': 'events.trigger',
+      'POST /events/gunshot': 'events.trigger',
+      'POST /events/lightning': 'events.trigger',
+      'POST /events/thunder': 'events.trigger',
+      'POST /events/horde': 'events.trigger',
+      'POST /alarm': 'events.trigger',
+      'POST /removezombies': 'events.trigger',
+      'POST /releasesafehouse': 'players.manage'
+    }
+  },
+  servers: {
+    default: 'servers.manage',
+    routes: {}
+  },
+  serverFiles: {
+    default: 'config.write',
+    routes: {}
+  },
+  players: {
+    default: 'players.manage',
+    routes: {
+      'POST /kick': 'players.moderate',
+      'POST /ban': 'players.moderate',
+      'POST /unban': 'players.moderate',
+      'POST /banid': 'players.moderate',
+      'POST /unbanid': 'players.moderate',
+      'POST /voiceban': 'players.moderate'
+    }
+  },
+  rcon: {
+    default: 'rcon.execute',
+    routes: {}
+  },
+  config: {
+    default: 'settings.manage',
+    routes: {
+      'GET /app-settings': 'settings.manage',
+      'GET /options': 'config.write',
+      'PUT /': 'config.write',
+      'POST /reload': 'config.write',
+      'POST /option': 'config.write'
+    }
+  },
+  scheduler: {
+    default: 'scheduler.manage',
+    routes: {
+      'POST /validate-cron': null,
+      'POST /restart-now': 'server.control',
+      'POST /restart/cancel': 'server.control'
+    }
+  },
+  mods: {
+    default: 'mods.write',
+    routes: {
+      'POST /check-updates': null,
+      'POST /get-mod-info': null,
+      'POST /inspect-workshop-item': null,
+      'POST /discover-mod-ids': null
+    }
+  },
+  chunks: {
+    default: 'chunks.delete',
+    routes: {}
+  },
+  discord: {
+    default: 'discord.manage',
+    routes: {
+      'GET /config': 'discord.manage'
+    }
+  },
+  debug: {
+    default: 'settings.manage',
+    routes: {
+      'GET /logs': 'settings.manage',
+      'GET /logs/files': 'settings.manage',
+      'GET /logs/download': 'settings.manage',
+      'GET /logs/download/:filename': 'settings.manage',
+      'GET /crash-logs': 'settings.manage',
+      'GET /crash-logs/:filename': 'settings.manage',
+      'POST /rcon-queue/:serverId/dead-letters/:id/retry': 'rcon.execute'
+    }
+  },
+  serverFinder: {
+    default: null,
+    routes: {}
+  },
+  panelBridge: {
+    default: 'events.trigger',
+    routes: {
+      'POST /auto-configure': 'settings.manage',
+      'POST /auto-detect': 'settings.manage',
+      'POST /configure': 'settings.manage',
+      'POST /start': 'settings.manage',
+      'POST /stop': 'settings.manage',
+      'POST /install-mod-auto': 'settings.manage',
+      'POST /install-mod': 'settings.manage',
+      'POST /debug/mode': 'settings.manage',
+      'GET /debug/log': 'settings.manage',
+      'POST /refresh': null,
+      'POST /command': 'rcon.execute',
+      'POST /world/save': 'server.manage',
+      'POST /message': 'server.manage',
+      'POST /chat/admin': 'server.manage',
+      'POST /chat/general': 'server.manage',
+      'POST /chat/alert': 'server.manage',
+      'POST /players/:username/teleport': 'players.manage',
+      'POST /players/:username/give-item': 'players.manage',
+      'POST /players/:username/heal': 'players.manage',
+      'POST /players/:username/kill': 'players.manage',
+      'POST /players/:username/godmode': 'players.manage',
+      'POST /players/:username/invisible': 'players.manage',
+      'POST /character/export': 'players.manage',
+      'POST /character/import': 'players.manage'
+    }
+  },
+  backup: {
+    default: 'backup.restore',
+    routes: {
+      'POST /create': 'backup.create',
+      'GET /download/:name': 'backup.create'
+    }
+  }
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+export function isValidRole(role) {
+  return ROLES.includes(role);
+}
+
+export function getRolePermissions(role) {
+  return ROLE_PERMISSIONS[role] || [];
+}
+
+export function hasPermission(user, permission) {
+  if (!permission) return true;
+  if (!user) return false;
+  return getRolePermissions(user.role).includes(permission);
+}
+
+export function isValidScope(scope) {
+  return Object.prototype.hasOwnProperty.call(TOKEN_SCOPES, scope);
+}
+
+export function getScopePermissions(scopes) {
+  return [...new Set(scopes.filter(isValidScope).flatMap(s => TOKEN_SCOPES[s].permissions))];
+}
+
+/**
+ * Whether a request may use a permission - its user's role must allow it
+ * and, for API token requests, one of the token's scopes must grant it
+ */
+export function requestHasPermission(req, permission) {
+  if (!hasPermission(req.user, permission)) return false;
+  if (!req.apiToken || !permission) return true;
+  return getScopePermissions(req.apiToken.scopes).includes(permission);
+}
+
+function tokenCanRead(token, group) {
+  return token.scopes.some(s => isValidScope(s) && TOKEN_SCOPES[s].read.includes(group));
+}
+
+// Compile 'METHOD /path/:param' entries into matchers once
+function compileRoutes(routes) {
+  return Object.entries(routes).map(([key, permission]) => {
+    const [method, routePath] = key.split(' ');
+    const pattern = routePath
+      .split('/')
+      .map(segment => segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('/');
+    return { method, regex: new RegExp(`^${pattern}/?$`), permission };
+  });
+}
+
+const compiledGroups = Object.fromEntries(
+  Object.entries(ROUTE_PERMISSIONS).map(([group, config]) => [
+    group,
+    { default: config.default, routes: compileRoutes(config.routes) }
+  ])
+);
+
+/**
+ * Resolve which permission a request inside a route group needs
+ * (`null` when any logged-in user may call it)
+ */
+export function resolveRoutePermission(group, method, routePath) {
+  const config = compiledGroups[group];
+  if (!config) throw new Error(`Unknown permission group: ${group}`);
+
+  const match = config.routes.find(r => r.method === method && r.regex.test(routePath));
+  if (match) return match.permission;
+
+  if (method === 'GET' || method === 'HEAD') return null;
+  return config.default;
+}
+
+// ============================================
+// Middleware
+// ============================================
+
+function deny(req, res, permission) {
+  const error = req.apiToken
+    ? `This API token is not allowed to do this (${permission})`
+    : `Your role does not allow this action (${permission})`;
+  return res.status(403).json({ error, permission });
+}
+
+/**
+ * Express middleware enforcing the permission map of a route group.
+ * Must run after requireAuth so req.user is set.
+ */
+export function authorize(group) {
+  return (req, res, next) => {
+    const permission = resolveRoutePermission(group, req.method, req.path);
+    // Routes open to everyone are lookups, not administrative actions
+    if (permission === null) res.locals.audit = false;
+    if (permission === null && req.apiToken && !tokenCanRead(req.apiToken, group)) {
+      return deny(req, res, `read:${group}`);
+    }
+    if (!requestHasPermission(req, permission)) {
+      return deny(req, res, permission);
+    }
+    next();
+  };
+}
+
+/**
+ * Express middleware requiring one specific permission for every request
+ */
+export function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!requestHasPermission(req, permission)) {
+      return deny(req, res, permission);
+    }
+    next();
+  };
+}
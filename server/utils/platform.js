@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+
+// ============================================
+// Host Platform
+// ============================================
+//
+// File names and conventions that differ between Windows and Linux hosts.
+// Process handling lives in services/serverProcess.js.
+
+export const IS_WINDOWS = process.platform === 'win32';
+
+// Stock start scripts shipped with the dedicated server. Linux has no
+// separate no-Steam script - start-server.sh takes -nosteam instead.
+export const DEFAULT_START_SCRIPT = IS_WINDOWS ? 'StartServer64.bat' : 'start-server.sh';
+export const NOSTEAM_START_SCRIPT = IS_WINDOWS ? 'StartServer64_nosteam.bat' : 'start-server.sh';
+
+export const START_SCRIPT_EXTENSION = IS_WINDOWS ? '.bat' : '.sh';
+
+// SteamCMD executables to look for, in order of preference
+const STEAMCMD_EXECUTABLES = IS_WINDOWS ? ['steamcmd.exe'] : ['steamcmd.sh', 'steamcmd'];
+
+export const STEAMCMD_DOWNLOAD_URL = IS_WINDOWS
+  ? 'https://steamcdn-a.akamaihd.net/client/installer/steamcmd.zip'
+  : 'https://steamcdn-a.akamaihd.net/client/installer/steamcmd_linux.tar.gz';
+
+// Files that mark a folder as a dedicated server install (either platform)
+export const SERVER_INSTALL_MARKERS = ['StartServer64.bat', 'StartServer64_nosteam.bat', 'start-server.sh'];
+
+/** Name of the start script generated by the panel for a server */
+export function getCustomStartScriptName(serverName) {
+  return `StartServer_${serverName}${START_SCRIPT_EXTENSION}`;
+}
+
+/** Whether a configured server path points at a script/executable rather than a folder */
+export function isStartScriptPath(filePath) {
+  const lower = String(filePath).toLowerCase();
+  return lower.endsWith('.bat') || lower.endsWith('.sh') || lower.endsWith('.exe');
+}
+
+/**
+ * Resolve the SteamCMD executable in a folder, or null if there is none
+ */
+export function findSteamCmdExecutable(steamcmdPath) {
+  for (const name of STEAMCMD_EXECUTABLES) {
+    const candidate = path.join(steamcmdPath, name);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+/** Expected SteamCMD location, for error messages */
+export function describeSteamCmdExecutable(steamcmdPath) {
+  return path.join(steamcmdPath, STEAMCMD_EXECUTABLES[0]);
+}
+
+/**
+ * Arguments for the Linux start-server.sh launcher. JVM options go before
+ * `--`, game options after it. Memory is in MB.
+ */
+export function buildLinuxLaunchArgs({ serverName, minMemory = 4096, maxMemory = 8192, cacheDir, serverPort = 16261, useNoSteam = false, useDebug = false, extraArgs = [] }) {
+  const jvmArgs = [`-Xms${minMemory}m`, `-Xmx${maxMemory}m`];
+  if (useDebug) jvmArgs.push('-Ddebug');
+
+  const gameArgs = [];
+  if (serverName) gameArgs.push('-servername', serverName);
+  if (cacheDir) gameArgs.push(`-cachedir=${cacheDir}`);
+  if (serverPort && serverPort !== 16261) gameArgs.push('-port', String(serverPort));
+  if (useNoSteam) gameArgs.push('-nosteam');
+  gameArgs.push(...extraArgs);
+
+  return [...jvmArgs, '--', ...gameArgs];
+}
+
+/**
+ * Platform details the setup wizard needs to show the right paths and instructions
+ */
+export function getPlatformInfo() {
+  return {
+    platform: process.platform,
+    isWindows: IS_WINDOWS,
+    startScript: DEFAULT_START_SCRIPT,
+    startScriptExtension: START_SCRIPT_EXTENSION,
+    steamcmdExecutable: STEAMCMD_EXECUTABLES[0],
+    steamcmdDownloadUrl: STEAMCMD_DOWNLOAD_URL,
+    folderPicker: IS_WINDOWS,
+    examplePaths: IS_WINDOWS
+      ? { steamcmd: 'C:\\SteamCMD', install: 'C:\\PZServer', data: 'D:\\PZServerData' }
+      : { steamcmd: '/opt/steamcmd', install: '/opt/pzserver', data: '/opt/pzserver-data' }
+  };
+}
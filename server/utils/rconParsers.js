@@ -0,0 +1,272 @@
+import { PZ_COMMANDS } from './commands.js';
+
+// ============================================
+// RCON Response Parsers
+// ============================================
+//
+// The game answers every RCON command with free text. Each parser below
+// turns the answer to one command in PZ_COMMANDS into a typed object:
+//   { command, kind, success, error, message, data }
+// `kind` names the shape of `data` (see client/src/types/index.ts). The
+// game reports most failures as ordinary text ("User x doesn't exist."),
+// so `success` is false for those answers as well as for transport errors.
+// Commands without a parser of their own come back as kind 'message'.
+
+// Answers the game gives when a command did nothing
+const FAILURE_PATTERNS = [
+  /doesn'?t exist/i,
+  /does not exist/i,
+  /not found/i,
+  /can'?t find/i,
+  /cannot /i,
+  /unknown/i,
+  /invalid/i,
+  /no such/i,
+  /not connected/i,
+  /isn'?t connected/i,
+  /already exists/i,
+  /^error\b/i,
+  /failed/i,
+  /^usage:/i,
+  /missing argument/i,
+  /need to be admin/i
+];
+
+// Lookup from lowercase command to its PZ_COMMANDS key
+const COMMAND_KEYS = new Map(Object.keys(PZ_COMMANDS).map(key => [key.toLowerCase(), key]));
+
+/** Split a command line into words, honouring double quotes */
+export function tokenizeCommand(command) {
+  const tokens = [];
+  const regex = /"([^"]*)"|(\S+)/g;
+  let match;
+  while ((match = regex.exec(command)) !== null) {
+    tokens.push(match[1] !== undefined ? match[1] : match[2]);
+  }
+  return tokens;
+}
+
+/** Remove `-flag` and `-flag value` options from command arguments */
+function takeFlags(args, flagsWithValue = []) {
+  const flags = {};
+  const rest = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const name = arg.startsWith('-') && !/^-?\d/.test(arg) ? arg.slice(1).toLowerCase() : null;
+    if (name === null) {
+      rest.push(arg);
+    } else if (flagsWithValue.includes(name)) {
+      flags[name] = args[++i] ?? '';
+    } else {
+      flags[name] = true;
+    }
+  }
+  return { flags, rest };
+}
+
+/** Convert an option value to a boolean or number where it is one */
+function toTypedValue(value) {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/** `-true`/`-false` (or bare true/false) from an admin mode command */
+function parseToggle(args) {
+  const value = args.find(arg => /^-?(true|false)$/i.test(arg));
+  return value ? /true/i.test(value) : null;
+}
+
+function nonFlagArgs(args) {
+  return args.filter(arg => !/^-?(true|false)$/i.test(arg));
+}
+
+function parseModeration(action) {
+  return (text, args) => {
+    const { flags, rest } = takeFlags(args, ['r']);
+    return {
+      action,
+      target: rest[0] || null,
+      banIp: action === 'ban' ? !!flags.ip : undefined,
+      reason: flags.r || null
+    };
+  };
+}
+
+function parseWhitelist(action) {
+  return (text, args) => ({ action, username: args[0] || null });
+}
+
+function parseAdminMode(mode) {
+  return (text, args) => {
+    let enabled = parseToggle(args);
+    if (enabled === null) {
+      // Without a value the game toggles the mode and says which way it went
+      enabled = /no more|no longer|disabled|\bfalse\b/i.test(text) ? false : /\bis now\b|enabled|\btrue\b/i.test(text) ? true : null;
+    }
+    return { mode, username: nonFlagArgs(args)[0] || null, enabled };
+  };
+}
+
+/** Players in a `players` answer: "Players connected (2):\n-name\n-name2" */
+export function parsePlayerList(text) {
+  if (!text) return [];
+  return text.split('\n')
+    .map(line => line.trim())
+    .filter(line => line.startsWith('-'))
+    .map(line => ({ name: line.substring(1).trim(), online: true }));
+}
+
+// kind and parser(text, args) for each command with a structured answer
+const RESPONSE_PARSERS = {
+  players: {
+    kind: 'players',
+    parse(text) {
+      const players = parsePlayerList(text);
+      const countMatch = text.match(/Players connected \((\d+)\)/i);
+      return { count: countMatch ? parseInt(countMatch[1], 10) : players.length, players };
+    }
+  },
+  showoptions: {
+    kind: 'options',
+    parse(text) {
+      const options = [];
+      for (const line of text.split('\n')) {
+        const match = line.trim().match(/^\*?\s*([A-Za-z0-9_.]+)\s*=\s*(.*)$/);
+        if (match) {
+          options.push({ name: match[1], value: toTypedValue(match[2].trim()) });
+        }
+      }
+      return { options };
+    }
+  },
+  checkModsNeedUpdate: {
+    kind: 'modCheck',
+    parse(text) {
+      // The check runs in the background; the verdict is normally written to
+      // the server log, but some builds answer with it straight away
+      let needsUpdate = null;
+      if (/need(s)? update/i.test(text)) needsUpdate = true;
+      else if (/(are )?up.to.date|mods updated/i.test(text)) needsUpdate = false;
+      return { started: /started|checking/i.test(text), needsUpdate };
+    }
+  },
+  additem: {
+    kind: 'item',
+    parse(text, args) {
+      // additem ["username"] "module.item" [count]
+      const rest = [...args];
+      const count = rest.length > 1 && /^\d+$/.test(rest[rest.length - 1]) ? parseInt(rest.pop(), 10) : 1;
+      const item = rest.pop() || null;
+      return { username: rest[0] || null, item, count };
+    }
+  },
+  addxp: {
+    kind: 'xp',
+    parse(text, args) {
+      // addxp "username" perk=amount
+      const [perk, amount] = (args[1] || '').split('=');
+      return { username: args[0] || null, perk: perk || null, amount: amount ? Number(amount) : null };
+    }
+  },
+  addvehicle: {
+    kind: 'vehicle',
+    parse(text, args) {
+      return { vehicle: args[0] || null, username: args[1] || null };
+    }
+  },
+  kick: { kind: 'moderation', parse: parseModeration('kick') },
+  banuser: { kind: 'moderation', parse: parseModeration('ban') },
+  unbanuser: { kind: 'moderation', parse: parseModeration('unban') },
+  banid: { kind: 'moderation', parse: parseModeration('banid') },
+  unbanid: { kind: 'moderation', parse: parseModeration('unbanid') },
+  voiceban: {
+    kind: 'moderation',
+    parse(text, args) {
+      return { action: parseToggle(args) === false ? 'voiceunban' : 'voiceban', target: nonFlagArgs(args)[0] || null, reason: null };
+    }
+  },
+  setaccesslevel: {
+    kind: 'accessLevel',
+    parse(text, args) {
+      return { username: args[0] || null, accessLevel: args[1] ? args[1].toLowerCase() : null };
+    }
+  },
+  adduser: { kind: 'whitelist', parse: parseWhitelist('create') },
+  addusertowhitelist: { kind: 'whitelist', parse: parseWhitelist('add') },
+  removeuserfromwhitelist: { kind: 'whitelist', parse: parseWhitelist('remove') },
+  addalltowhitelist: {
+    kind: 'whitelist',
+    parse() {
+      return { action: 'addAll', username: null };
+    }
+  },
+  changeoption: {
+    kind: 'option',
+    parse(text, args) {
+      return { name: args[0] || null, value: args.length > 1 ? toTypedValue(args.slice(1).join(' ')) : null };
+    }
+  },
+  teleport: {
+    kind: 'teleport',
+    parse(text, args) {
+      return { player: args[0] || null, target: args[1] || null, coordinates: null };
+    }
+  },
+  teleportto: {
+    kind: 'teleport',
+    parse(text, args) {
+      const [x, y, z] = args.join(',').split(',').filter(Boolean).map(Number);
+      const valid = [x, y, z].every(Number.isFinite);
+      return { player: null, target: null, coordinates: valid ? { x, y, z } : null };
+    }
+  },
+  godmod: { kind: 'adminMode', parse: parseAdminMode('godmod') },
+  invisible: { kind: 'adminMode', parse: parseAdminMode('invisible') },
+  noclip: { kind: 'adminMode', parse: parseAdminMode('noclip') }
+};
+
+/** Whether a game answer reports a failure - failures are one line, so
+ *  only the first line is checked (option values and names can be anything) */
+export function isFailureResponse(text) {
+  const firstLine = (text || '').trim().split('\n')[0].trim();
+  if (!firstLine) return false;
+  return FAILURE_PATTERNS.some(pattern => pattern.test(firstLine));
+}
+
+/**
+ * Parse an RconService.execute() result for `command` into a structured
+ * result. Parsing never throws; unparsable answers keep the raw message.
+ */
+export function parseRconResponse(command, result) {
+  const [name = '', ...args] = tokenizeCommand(String(command || ''));
+  const key = COMMAND_KEYS.get(name.toLowerCase()) || name.toLowerCase();
+  const text = result.success ? (result.response || '') : '';
+  const message = (result.success ? text : result.error || '').trim();
+  const parser = RESPONSE_PARSERS[key];
+
+  const structured = {
+    command: key,
+    kind: 'message',
+    success: !!result.success && !isFailureResponse(text),
+    error: null,
+    message,
+    data: { message }
+  };
+
+  if (!structured.success) {
+    structured.error = message || 'Command failed';
+    return structured;
+  }
+
+  if (parser) {
+    try {
+      structured.kind = parser.kind;
+      structured.data = parser.parse(text, args);
+    } catch {
+      structured.kind = 'message';
+    }
+  }
+  return structured;
+}
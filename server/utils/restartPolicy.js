@@ -0,0 +1,128 @@
+import cron from 'node-cron';
+
+// ============================================
+// Restart Policy
+// ============================================
+//
+// How a server restarts on its own and how players are warned:
+//   { enabled,
+//     windows: [{ cron, label, enabled }],        the server restarts at these times
+//     warnings: [{ offsetSeconds, message }],     sent this long before a restart
+//     delivery: { rcon, bridge } }                RCON servermsg and/or PanelBridge alert
+// Messages can use {minutes}, {seconds} and {time} ("5 minutes", "30 seconds").
+// Servers without a saved policy start from the AUTO_RESTART_* environment
+// variables.
+
+const MAX_WINDOWS = 10;
+const MAX_WARNINGS = 20;
+const MAX_OFFSET_SECONDS = 2 * 3600;
+const MAX_MESSAGE_LENGTH = 200;
+
+export const IMMEDIATE_RESTART_MESSAGE = '🔄 Server restarting NOW!';
+export const RESTART_CANCELLED_MESSAGE = 'ℹ️ Server restart has been cancelled.';
+
+const MINUTES_MESSAGE = '⚠️ Server restarting in {minutes} minute(s)!';
+const SECONDS_MESSAGE = '⚠️ Server restarting in {seconds} seconds!';
+const FINAL_MESSAGE = '🔄 Server restarting NOW! Please reconnect in a few minutes.';
+
+/** The countdown the panel has always sent: every minute, 30 seconds, then "NOW" */
+export function defaultWarnings(warningMinutes = 5) {
+  const warnings = [];
+  for (let minutes = warningMinutes; minutes > 0; minutes--) {
+    warnings.push({ offsetSeconds: minutes * 60, message: MINUTES_MESSAGE });
+  }
+  warnings.push({ offsetSeconds: 30, message: SECONDS_MESSAGE });
+  warnings.push({ offsetSeconds: 5, message: FINAL_MESSAGE });
+  return warnings;
+}
+
+/** The policy of a server that has not saved one */
+export function defaultRestartPolicy() {
+  return {
+    enabled: process.env.AUTO_RESTART_ENABLED === 'true',
+    windows: [{ cron: process.env.AUTO_RESTART_CRON || '0 */6 * * *', label: 'Auto restart', enabled: true }],
+    warnings: defaultWarnings(parseInt(process.env.RESTART_WARNING_MINUTES, 10) || 5),
+    delivery: { rcon: true, bridge: false }
+  };
+}
+
+/**
+ * Check a policy sent by the panel. Returns an error message, or null when
+ * it can be saved.
+ */
+export function validateRestartPolicy({ windows, warnings, delivery }) {
+  if (!Array.isArray(windows)) return 'windows must be an array';
+  if (windows.length > MAX_WINDOWS) return `At most ${MAX_WINDOWS} restart windows`;
+  for (const [index, window] of windows.entries()) {
+    if (!window?.cron || !cron.validate(window.cron)) return `Window ${index + 1}: invalid cron expression`;
+  }
+
+  if (!Array.isArray(warnings) || warnings.length === 0) return 'At least one warning is required';
+  if (warnings.length > MAX_WARNINGS) return `At most ${MAX_WARNINGS} warnings`;
+  const offsets = new Set();
+  for (const [index, warning] of warnings.entries()) {
+    const label = `Warning ${index + 1}`;
+    if (!Number.isInteger(warning?.offsetSeconds) || warning.offsetSeconds < 1 || warning.offsetSeconds > MAX_OFFSET_SECONDS) {
+      return `${label}: time must be 1-${MAX_OFFSET_SECONDS} seconds before the restart`;
+    }
+    if (offsets.has(warning.offsetSeconds)) return `${label}: two warnings at the same time`;
+    offsets.add(warning.offsetSeconds);
+    if (!warning.message?.trim()) return `${label}: message is required`;
+    if (warning.message.length > MAX_MESSAGE_LENGTH) return `${label}: message is longer than ${MAX_MESSAGE_LENGTH} characters`;
+  }
+
+  if (!delivery?.rcon && !delivery?.bridge) return 'Pick RCON, PanelBridge or both to send warnings';
+  return null;
+}
+
+/** Keep only the fields a policy is saved with, warnings earliest first */
+export function normalizeRestartPolicy({ enabled, windows, warnings, delivery }) {
+  return {
+    enabled: !!enabled,
+    windows: windows.map(window => ({
+      cron: window.cron.trim(),
+      label: window.label?.trim() || '',
+      enabled: window.enabled !== false
+    })),
+    warnings: warnings
+      .map(warning => ({ offsetSeconds: warning.offsetSeconds, message: warning.message.trim() }))
+      .sort((a, b) => b.offsetSeconds - a.offsetSeconds),
+    delivery: { rcon: !!delivery.rcon, bridge: !!delivery.bridge }
+  };
+}
+
+/** How long before a restart the first warning goes out */
+export function warningLeadSeconds(policy) {
+  return Math.max(0, ...policy.warnings.map(warning => warning.offsetSeconds));
+}
+
+/** Fill in {minutes}, {seconds} and {time} for a warning sent `offsetSeconds` before the restart */
+export function renderWarning(template, offsetSeconds) {
+  const minutes = Math.ceil(offsetSeconds / 60);
+  const time = offsetSeconds >= 60
+    ? `${minutes} minute${minutes === 1 ? '' : 's'}`
+    : `${offsetSeconds} second${offsetSeconds === 1 ? '' : 's'}`;
+  return template
+    .replace(/\{minutes\}/g, String(minutes))
+    .replace(/\{seconds\}/g, String(offsetSeconds))
+    .replace(/\{time\}/g, time);
+}
+
+/**
+ * The warnings for a restart `totalSeconds` from now, earliest first. The
+ * first one goes out straight away - with the message of the nearest
+ * warning at or after that time - and the policy's later warnings follow.
+ * @returns {{ offsetSeconds: number, message: string }[]}
+ */
+export function buildCountdown(policy, totalSeconds) {
+  if (totalSeconds <= 0) return [{ offsetSeconds: 0, message: IMMEDIATE_RESTART_MESSAGE }];
+
+  const warnings = [...policy.warnings].sort((a, b) => b.offsetSeconds - a.offsetSeconds);
+  const opening = [...warnings].reverse().find(warning => warning.offsetSeconds >= totalSeconds) ?? warnings[0];
+  return [
+    { offsetSeconds: totalSeconds, message: renderWarning(opening.message, totalSeconds) },
+    ...warnings
+      .filter(warning => warning.offsetSeconds < totalSeconds)
+      .map(warning => ({ offsetSeconds: warning.offsetSeconds, message: renderWarning(warning.message, warning.offsetSeconds) }))
+  ];
+}
@@ -0,0 +1,120 @@
+import { nextCronRuns } from './cronSchedule.js';
+
+// ============================================
+// Schedule Forecast
+// ============================================
+//
+// When the scheduler's jobs fire next, for the calendar in the Scheduler
+// page. Every job becomes a list of events:
+//   { id, key, kind, name, at, start, end, movable, ... }
+// `at` is when the job fires; `start`-`end` is the time it is expected to
+// keep the server busy (a restart's warnings and downtime, a backup's
+// usual duration) and is what overlaps are found with.
+//
+// Job keys: 'task:<id>', 'backup', 'restart' (every restart window) and
+// 'modRestart' (a mod update restart waiting for players to leave).
+
+// Runs within this of a postponement's original time are the postponed run
+const POSTPONE_MATCH_MS = 60 * 1000;
+
+// How long the server is expected to be down after a restart
+export const RESTART_DOWNTIME_MS = 5 * 60 * 1000;
+
+export const DEFAULT_TASK_MS = 60 * 1000;
+export const DEFAULT_BACKUP_MS = 5 * 60 * 1000;
+
+/** The postponement that moves the run of `jobKey` at `at`, if any */
+export function findPostponement(postponements, jobKey, at) {
+  const time = new Date(at).getTime();
+  return postponements.find(p =>
+    p.job_key === jobKey && Math.abs(new Date(p.original_at).getTime() - time) < POSTPONE_MATCH_MS
+  ) || null;
+}
+
+/** Whether one of the cron expressions fires at `at` */
+export function cronFiresAt(expressions, at) {
+  const time = new Date(at);
+  return expressions.some(expression => {
+    const [run] = nextCronRuns(expression, new Date(time.getTime() - POSTPONE_MATCH_MS), 1);
+    return run && Math.abs(run.getTime() - time.getTime()) < POSTPONE_MATCH_MS;
+  });
+}
+
+function event(job, at, { postponement = null } = {}) {
+  const fires = new Date(at);
+  const start = new Date(fires.getTime() - (job.leadMs || 0));
+  return {
+    id: `${job.key}@${fires.toISOString()}`,
+    key: job.key,
+    kind: job.kind,
+    name: job.name,
+    cron: job.cron ?? null,
+    taskId: job.taskId ?? null,
+    disruptive: !!job.disruptive,
+    at: fires.toISOString(),
+    start: start.toISOString(),
+    end: new Date(fires.getTime() + job.durationMs).toISOString(),
+    movable: job.movable !== false,
+    postponementId: postponement?.id ?? null,
+    postponedFrom: postponement?.original_at ?? null
+  };
+}
+
+/**
+ * The runs of a cron job between `from` and `until`, with postponed runs
+ * moved to their new time.
+ * @param {object} job - { key, kind, name, crons: string[], durationMs, leadMs?, disruptive?, taskId? }
+ * @param {object} range - { from, until, limit, postponements }
+ * @returns {{ events: object[], truncated: boolean }}
+ */
+export function forecastCronJob(job, { from, until, limit, postponements }) {
+  const runs = job.crons
+    .flatMap(expression => nextCronRuns(expression, from, limit + 1, until))
+    .sort((a, b) => a - b);
+  const truncated = runs.length > limit;
+
+  const events = [];
+  for (const run of runs.slice(0, limit)) {
+    if (!findPostponement(postponements, job.key, run)) {
+      events.push(event({ ...job, cron: job.crons.length === 1 ? job.crons[0] : null }, run));
+    }
+  }
+  // Restart windows share a key - each takes the postponements of its own runs
+  for (const postponement of postponements) {
+    const to = new Date(postponement.postponed_to);
+    if (postponement.job_key === job.key && to > from && to <= until && cronFiresAt(job.crons, postponement.original_at)) {
+      events.push(event(job, to, { postponement }));
+    }
+  }
+  return { events, truncated };
+}
+
+/** An event that is not a cron run: a restart counting down or waiting for players */
+export function forecastOneOff(job, at, start) {
+  return { ...event({ ...job, movable: false }, at), start: new Date(start).toISOString() };
+}
+
+/**
+ * Mark events whose busy times overlap. An overlap matters when one side
+ * restarts the server or is a backup - two plain tasks side by side do not.
+ * Adds `conflicts` (the ids of the events it overlaps) to every event.
+ */
+export function flagOverlaps(events) {
+  const sorted = [...events].sort((a, b) => new Date(a.start) - new Date(b.start));
+  for (const e of sorted) e.conflicts = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+    const aEnd = new Date(a.end).getTime();
+    for (let j = i + 1; j < sorted.length; j++) {
+      const b = sorted[j];
+      if (new Date(b.start).getTime() >= aEnd) break;
+      const matters = a.disruptive || b.disruptive || a.kind === 'backup' || b.kind === 'backup';
+      if (matters && a.key !== b.key) {
+        a.conflicts.push(b.id);
+        b.conflicts.push(a.id);
+      }
+    }
+  }
+  return sorted;
+}
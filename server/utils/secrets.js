@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDataPaths } from './paths.js';
+
+// ============================================
+// Secret Encryption (AES-256-GCM)
+// ============================================
+//
+// Secrets in db.json are stored as `enc:v1:<iv>:<tag>:<ciphertext>` (base64).
+// The key never lives in the database: it comes from PANEL_SECRET_KEY
+// (base64 or hex, 32 bytes) or from a key file, `data/secret.key` by
+// default (override with PANEL_SECRET_KEY_FILE), created on first use.
+
+const PREFIX = 'enc:v1:';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+// Shown instead of a stored secret in API responses
+export const SECRET_MASK = '••••••••';
+
+// Panel settings stored encrypted
+export const SECRET_SETTINGS = ['rconPassword', 'steamApiKey', 'discordToken', 'discordBotToken'];
+
+let _keys = null;
+
+export function getKeyFilePath() {
+  return process.env.PANEL_SECRET_KEY_FILE || path.join(getDataPaths().dataDir, 'secret.key');
+}
+
+/** Key written by an interrupted rotation - still accepted for decryption */
+function getPendingKeyFilePath() {
+  return `${getKeyFilePath()}.next`;
+}
+
+function parseKey(text, source) {
+  const trimmed = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${source} must be ${KEY_BYTES} bytes (base64 or hex encoded)`);
+  }
+  return key;
+}
+
+function readKeyFile(file) {
+  return fs.existsSync(file) ? parseKey(fs.readFileSync(file, 'utf8'), file) : null;
+}
+
+export function generateSecretKey() {
+  return crypto.randomBytes(KEY_BYTES).toString('base64');
+}
+
+/**
+ * Write a key file readable only by the panel's user
+ */
+export function writeKeyFile(file, encodedKey) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${encodedKey}\n`, { mode: 0o600 });
+}
+
+/**
+ * Keys in decryption order: the active key first, then any previous or
+ * pending key so secrets stay readable across a rotation.
+ */
+function loadKeys() {
+  if (_keys) return _keys;
+
+  const keys = [];
+  if (process.env.PANEL_SECRET_KEY) {
+    keys.push(parseKey(process.env.PANEL_SECRET_KEY, 'PANEL_SECRET_KEY'));
+    if (process.env.PANEL_SECRET_KEY_PREVIOUS) {
+      keys.push(parseKey(process.env.PANEL_SECRET_KEY_PREVIOUS, 'PANEL_SECRET_KEY_PREVIOUS'));
+    }
+  } else {
+    const file = getKeyFilePath();
+    let key = readKeyFile(file);
+    if (!key) {
+      writeKeyFile(file, generateSecretKey());
+      console.log(`[Secrets] Created encryption key at ${file} - keep it with your backups of db.json`);
+      key = readKeyFile(file);
+    }
+    keys.push(key);
+    const pending = readKeyFile(getPendingKeyFilePath());
+    if (pending) keys.push(pending);
+  }
+
+  _keys = keys;
+  return _keys;
+}
+
+/** Forget cached keys (after a rotation replaced them) */
+export function resetSecretKeys() {
+  _keys = null;
+}
+
+export function isEncrypted(value) {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+export function isMaskedSecret(value) {
+  return typeof value === 'string' && value.startsWith(SECRET_MASK);
+}
+
+/**
+ * Encrypt a secret with the active key (or `key` when given).
+ * Empty values and values that are already encrypted are returned as-is.
+ */
+export function encryptSecret(value, key = null) {
+  if (typeof value !== 'string' || value === '' || isEncrypted(value)) return value;
+
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key || loadKeys()[0], iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return `${PREFIX}${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/**
+ * Decrypt a stored secret. Plain-text values (from before encryption was
+ * added) are returned unchanged.
+ */
+export function decryptSecret(value, keys = null) {
+  if (!isEncrypted(value)) return value;
+
+  const [ivText, tagText, dataText] = value.slice(PREFIX.length).split(':');
+  for (const key of keys || loadKeys()) {
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(ivText, 'base64'));
+      decipher.setAuthTag(Buffer.from(tagText, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(dataText, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      // Wrong key - try the next one
+    }
+  }
+  throw new Error('Unable to decrypt a stored secret - is the right secret key configured?');
+}
+
+/** Mask a secret for API responses (empty stays empty so the UI can show "not set") */
+export function maskSecret(value) {
+  return value ? SECRET_MASK : '';
+}
+
+// Server INI keys that hold passwords or tokens
+export const INI_SECRET_KEYS = ['Password', 'RCONPassword', 'DiscordToken'];
+
+/** A parsed server INI with its passwords and tokens masked */
+export function maskIniSettings(settings) {
+  if (!settings) return settings;
+  const masked = { ...settings };
+  for (const key of INI_SECRET_KEYS) {
+    if (key in masked) masked[key] = maskSecret(masked[key]);
+  }
+  return masked;
+}
+
+/** The text of a server INI with its passwords and tokens masked */
+export function maskIniText(content) {
+  return content.replace(/^(\s*(\w+)\s*=)(.*)$/gm, (line, prefix, key, value) =>
+    INI_SECRET_KEYS.includes(key) ? `${prefix}${maskSecret(value.trim())}` : line
+  );
+}
+
+/**
+ * Begin a key rotation: returns the new key and a function that re-encrypts
+ * a value from any current key to it. Key files are swapped by
+ * finishKeyRotation() once the database has been written.
+ */
+export function beginKeyRotation(encodedKey = generateSecretKey()) {
+  const newKey = parseKey(encodedKey, 'New secret key');
+  const currentKeys = loadKeys();
+  const usesKeyFile = !process.env.PANEL_SECRET_KEY;
+  if (usesKeyFile) {
+    // Persist first so a crash mid-rotation never loses the key
+    writeKeyFile(getPendingKeyFilePath(), encodedKey);
+    resetSecretKeys();
+  }
+  return {
+    encodedKey,
+    usesKeyFile,
+    reencrypt: (value) => encryptSecret(decryptSecret(value, currentKeys), newKey)
+  };
+}
+
+export function finishKeyRotation(rotation) {
+  if (rotation.usesKeyFile) {
+    fs.renameSync(getPendingKeyFilePath(), getKeyFilePath());
+  }
+  resetSecretKeys();
+}
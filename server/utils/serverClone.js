@@ -0,0 +1,188 @@
+import path from 'path';
+import { getCustomStartScriptName } from './platform.js';
+
+// ============================================
+// Server Cloning
+// ============================================
+//
+// Copies a server's config files (and optionally its world save) under a
+// new server name, next to the originals, and picks ports no other server
+// instance uses. Files are accessed through hostFs (see services/hostFs.js)
+// so agent-backed remote servers can be cloned as well.
+
+// Config files named after the server: {serverName}{suffix}
+export const SERVER_CONFIG_SUFFIXES = ['.ini', '_SandboxVars.lua', '_spawnpoints.lua', '_spawnregions.lua'];
+
+const SERVER_NAME_REGEX = /^[a-zA-Z0-9_-]{1,64}$/;
+
+const MAX_PORT = 65535;
+
+/** Folder holding a server's {serverName}.ini and Lua config files */
+export function getServerConfigDir(server) {
+  if (server.serverConfigPath) return server.serverConfigPath;
+  if (server.zomboidDataPath) return path.join(server.zomboidDataPath, 'Server');
+  if (server.isRemote) return null;
+  const userProfile = process.env.USERPROFILE || process.env.HOME || '';
+  return path.join(userProfile, 'Zomboid', 'Server');
+}
+
+/** Validate a clone's server name - returns an error message or null */
+export function validateCloneName(source, serverName, servers) {
+  if (!serverName || !SERVER_NAME_REGEX.test(serverName)) {
+    return 'Invalid server name: only letters, numbers, underscores and hyphens allowed';
+  }
+  const configDir = getServerConfigDir(source);
+  const taken = servers.some(server =>
+    server.serverName.toLowerCase() === serverName.toLowerCase() &&
+    getServerConfigDir(server) === configDir
+  );
+  if (taken) {
+    return `A server named "${serverName}" already uses ${configDir}`;
+  }
+  return null;
+}
+
+/**
+ * Game and RCON ports for a clone that no registered server uses. A game
+ * server also listens on the port after its game port (UDP), so game
+ * ports are taken in pairs.
+ */
+export function allocateServerPorts(servers, source) {
+  const used = new Set();
+  for (const server of servers) {
+    used.add(server.serverPort);
+    used.add(server.serverPort + 1);
+    used.add(server.rconPort);
+  }
+
+  let serverPort = source.serverPort + 2;
+  while (used.has(serverPort) || used.has(serverPort + 1)) serverPort += 2;
+  used.add(serverPort);
+  used.add(serverPort + 1);
+
+  let rconPort = source.rconPort + 1;
+  while (used.has(rconPort)) rconPort++;
+
+  if (serverPort + 1 > MAX_PORT || rconPort > MAX_PORT) {
+    throw new Error('No free ports left for the clone');
+  }
+  return { serverPort, rconPort };
+}
+
+function escapeRegExp(str) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Point references to the source's config files at the clone's */
+function renameConfigReferences(content, fromName, toName) {
+  let result = content;
+  for (const suffix of SERVER_CONFIG_SUFFIXES.filter(s => s.endsWith('.lua'))) {
+    result = result.replace(new RegExp(escapeRegExp(`${fromName}${suffix}`), 'g'), `${toName}${suffix}`);
+  }
+  return result;
+}
+
+/** Rewrite the ports in a copied {serverName}.ini */
+function rewriteIni(content, { serverPort, rconPort }) {
+  return content
+    .replace(/^DefaultPort=.*$/m, `DefaultPort=${serverPort}`)
+    .replace(/^UDPPort=.*$/m, `UDPPort=${serverPort + 1}`)
+    .replace(/^RCONPort=.*$/m, `RCONPort=${rconPort}`);
+}
+
+/** Rewrite the server name and game port in a copied start script */
+function rewriteStartScript(content, { fromName, serverName, serverPort }) {
+  return content
+    .replace(new RegExp(`(-servername\\s+["']?)${escapeRegExp(fromName)}\\b`, 'gi'), `$1${serverName}`)
+    .replace(new RegExp(`(Server Name: )${escapeRegExp(fromName)}\\b`, 'g'), `$1${serverName}`)
+    .replace(/(-port\s+["']?)\d+/gi, `$1${serverPort}`);
+}
+
+/** Folder the source server's start scripts live in */
+function getInstallDir(server) {
+  if (!server.installPath) return null;
+  return /\.(bat|sh|exe)$/i.test(server.installPath) ? path.dirname(server.installPath) : server.installPath;
+}
+
+/**
+ * Copy the source server's files for a clone named `serverName`. Nothing is
+ * copied if any target already exists. Resolves with the copied targets and
+ * the instance fields that change with the files (installPath, when it
+ * points at the source's own start script).
+ */
+export async function cloneServerFiles(hostFs, source, { serverName, serverPort, rconPort, includeSaves = false }) {
+  const fromName = source.serverName;
+  const configDir = getServerConfigDir(source);
+  if (!configDir) {
+    throw new Error('Server config folder not configured');
+  }
+
+  // Work out every copy first so a conflict leaves nothing half-cloned
+  const copies = [];
+  for (const suffix of SERVER_CONFIG_SUFFIXES) {
+    const from = path.join(configDir, `${fromName}${suffix}`);
+    if (await hostFs.exists(from)) {
+      copies.push({ kind: suffix, from, to: path.join(configDir, `${serverName}${suffix}`) });
+    }
+  }
+  if (!copies.some(copy => copy.kind === '.ini')) {
+    throw new Error(`Config file not found: ${path.join(configDir, `${fromName}.ini`)}`);
+  }
+
+  const installDir = getInstallDir(source);
+  if (installDir) {
+    const from = path.join(installDir, getCustomStartScriptName(fromName));
+    if (await hostFs.exists(from)) {
+      copies.push({ kind: 'startScript', from, to: path.join(installDir, getCustomStartScriptName(serverName)) });
+    }
+  }
+
+  if (includeSaves) {
+    if (!source.zomboidDataPath) {
+      throw new Error('Zomboid data path not configured - cannot locate the world save');
+    }
+    const savesDir = path.join(source.zomboidDataPath, 'Saves', 'Multiplayer');
+    const from = path.join(savesDir, fromName);
+    if (!await hostFs.exists(from)) {
+      throw new Error(`World save not found: ${from}`);
+    }
+    copies.push({ kind: 'saves', from, to: path.join(savesDir, serverName) });
+  }
+
+  for (const copy of copies) {
+    if (await hostFs.exists(copy.to)) {
+      throw Object.assign(new Error(`${copy.to} already exists`), { code: 'EEXIST' });
+    }
+  }
+
+  for (const copy of copies) {
+    if (copy.kind === 'saves') {
+      await hostFs.cp(copy.from, copy.to, { recursive: true, errorOnExist: true, force: false });
+      continue;
+    }
+    if (copy.kind === 'startScript') {
+      // Copy first so the script keeps its executable bit
+      await hostFs.copyFile(copy.from, copy.to);
+    }
+    let content = await hostFs.readFile(copy.from, 'utf-8');
+    content = renameConfigReferences(content, fromName, serverName);
+    if (copy.kind === '.ini') {
+      content = rewriteIni(content, { serverPort, rconPort });
+    } else if (copy.kind === 'startScript') {
+      content = rewriteStartScript(content, { fromName, serverName, serverPort });
+    }
+    await hostFs.writeFile(copy.to, content, 'utf-8');
+  }
+
+  // An install path naming the source's own start script follows the copy
+  let installPath = source.installPath;
+  const startScript = copies.find(copy => copy.kind === 'startScript');
+  if (startScript && path.basename(source.installPath) === path.basename(startScript.from)) {
+    installPath = startScript.to;
+  }
+
+  return {
+    copied: copies.map(copy => copy.to),
+    installPath
+  };
+}
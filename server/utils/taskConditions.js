@@ -0,0 +1,173 @@
+// ============================================
+// Scheduled Task Conditions
+// ============================================
+//
+// Rules checked before a scheduled task runs. All of them must hold:
+//   { type: 'players', operator, value }              online player count
+//   { type: 'serverState', states: ['ready', ...] }   lifecycle state
+//   { type: 'modUpdates', pending: true|false }       mods waiting for an update
+//   { type: 'uptime', operator, minutes }             time since the last (re)start
+//   { type: 'world', action, field, operator, value } a PanelBridge value, e.g.
+//                                                     getWeather -> rain < 0.5
+// When they do not, `onUnmet` decides what happens:
+//   'skip'          skip this run
+//   'delay'         check again every minute for up to maxDelayMinutes, then skip
+//   'delayThenRun'  the same, but run anyway once maxDelayMinutes have passed
+
+import { SERVER_STATES } from '../services/serverLifecycle.js';
+
+export const CONDITION_TYPES = ['players', 'serverState', 'modUpdates', 'uptime', 'world'];
+export const UNMET_OUTCOMES = ['skip', 'delay', 'delayThenRun'];
+export const CONDITION_OPERATORS = ['<', '<=', '>', '>=', '=', '!='];
+
+const MAX_RULES = 10;
+const MAX_DELAY_MINUTES = 24 * 60;
+
+/**
+ * Check conditions sent by the panel. Returns an error message, or null
+ * when they can be saved.
+ */
+export function validateConditions(conditions) {
+  if (typeof conditions !== 'object' || Array.isArray(conditions)) return 'conditions must be an object';
+  const { rules, onUnmet = 'skip', maxDelayMinutes } = conditions;
+  if (!Array.isArray(rules) || rules.length === 0) return 'Conditions need at least one rule';
+  if (rules.length > MAX_RULES) return `At most ${MAX_RULES} condition rules`;
+  if (!UNMET_OUTCOMES.includes(onUnmet)) return `Unknown outcome ${onUnmet}`;
+  if (onUnmet !== 'skip' && !(Number.isFinite(maxDelayMinutes) && maxDelayMinutes >= 1 && maxDelayMinutes <= MAX_DELAY_MINUTES)) {
+    return `Max delay must be 1-${MAX_DELAY_MINUTES} minutes`;
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const label = `Condition ${index + 1}`;
+    if (!CONDITION_TYPES.includes(rule?.type)) return `${label}: unknown type ${rule?.type}`;
+    if (['players', 'uptime', 'world'].includes(rule.type) && !CONDITION_OPERATORS.includes(rule.operator)) {
+      return `${label}: operator must be one of ${CONDITION_OPERATORS.join(' ')}`;
+    }
+    switch (rule.type) {
+      case 'players':
+        if (!Number.isInteger(rule.value) || rule.value < 0) return `${label}: player count must be a whole number`;
+        break;
+      case 'serverState':
+        if (!Array.isArray(rule.states) || rule.states.length === 0) return `${label}: pick at least one server state`;
+        if (rule.states.some(state => !SERVER_STATES.includes(state))) return `${label}: unknown server state`;
+        break;
+      case 'modUpdates':
+        if (typeof rule.pending !== 'boolean') return `${label}: pending must be true or false`;
+        break;
+      case 'uptime':
+        if (!Number.isFinite(rule.minutes) || rule.minutes < 0) return `${label}: minutes must be a positive number`;
+        break;
+      case 'world':
+        if (!rule.action?.trim()) return `${label}: PanelBridge action is required`;
+        if (!rule.field?.trim()) return `${label}: field is required`;
+        if (rule.value === undefined || rule.value === null || rule.value === '') return `${label}: value is required`;
+        break;
+    }
+  }
+  return null;
+}
+
+/** Keep only the fields conditions are saved with */
+export function normalizeConditions({ rules, onUnmet = 'skip', maxDelayMinutes }) {
+  return {
+    rules: rules.map(rule => {
+      switch (rule.type) {
+        case 'players': return { type: 'players', operator: rule.operator, value: rule.value };
+        case 'serverState': return { type: 'serverState', states: [...new Set(rule.states)] };
+        case 'modUpdates': return { type: 'modUpdates', pending: rule.pending };
+        case 'uptime': return { type: 'uptime', operator: rule.operator, minutes: rule.minutes };
+        case 'world': return { type: 'world', action: rule.action.trim(), field: rule.field.trim(), operator: rule.operator, value: rule.value };
+      }
+    }),
+    onUnmet,
+    ...(onUnmet !== 'skip' ? { maxDelayMinutes } : {})
+  };
+}
+
+/** How a rule is shown in the panel and in the schedule history */
+export function describeCondition(rule) {
+  switch (rule.type) {
+    case 'players': return `players ${rule.operator} ${rule.value}`;
+    case 'serverState': return `server ${rule.states.join('/')}`;
+    case 'modUpdates': return rule.pending ? 'mod updates pending' : 'no mod updates pending';
+    case 'uptime': return `uptime ${rule.operator} ${rule.minutes} min`;
+    case 'world': return `${rule.action}.${rule.field} ${rule.operator} ${rule.value}`;
+    default: return rule.type;
+  }
+}
+
+function compare(actual, operator, expected) {
+  const a = Number(actual);
+  const b = Number(expected);
+  // Numbers compare as numbers, anything else only with = and !=
+  if (actual !== '' && actual !== null && Number.isFinite(a) && Number.isFinite(b)) {
+    switch (operator) {
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      case '>=': return a >= b;
+      case '=': return a === b;
+      case '!=': return a !== b;
+    }
+  }
+  if (operator === '=') return String(actual) === String(expected);
+  if (operator === '!=') return String(actual) !== String(expected);
+  return false;
+}
+
+// `a.b.c` in a PanelBridge answer
+function readField(data, field) {
+  return field.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), data);
+}
+
+// Resolves with the value the rule looked at and whether it holds
+async function evaluateRule(rule, { serverManager, modChecker, panelBridge }) {
+  const lifecycle = serverManager.lifecycle;
+  switch (rule.type) {
+    case 'players': {
+      if (!modChecker) throw new Error('mod checker not available');
+      const count = await modChecker.getOnlinePlayerCount();
+      return { actual: `${count} players`, met: compare(count, rule.operator, rule.value) };
+    }
+    case 'serverState':
+      return { actual: `server ${lifecycle.state}`, met: rule.states.includes(lifecycle.state) };
+    case 'modUpdates': {
+      const pending = (modChecker?.modsNeedingUpdate?.length ?? 0) > 0;
+      return { actual: pending ? 'mod updates pending' : 'no mod updates', met: pending === rule.pending };
+    }
+    case 'uptime': {
+      // Servers the panel did not start have no start time - use when the panel first saw them up
+      const since = serverManager.startTime ?? lifecycle.upSince;
+      if (!since) return { actual: 'server not running', met: false };
+      const minutes = Math.floor((Date.now() - new Date(since).getTime()) / 60000);
+      return { actual: `up ${minutes} min`, met: compare(minutes, rule.operator, rule.minutes) };
+    }
+    case 'world': {
+      if (!panelBridge?.isRunning) throw new Error('PanelBridge is not running');
+      const response = await panelBridge.sendCommand(rule.action, {});
+      const value = readField(response.data ?? {}, rule.field);
+      if (value === undefined) throw new Error(`${rule.action} has no ${rule.field}`);
+      return { actual: `${rule.field} is ${value}`, met: compare(value, rule.operator, rule.value) };
+    }
+    default:
+      throw new Error(`unknown condition ${rule.type}`);
+  }
+}
+
+/**
+ * Check a task's condition rules. A rule that cannot be checked (PanelBridge
+ * down, ...) counts as not met.
+ * @returns {Promise<{ met: boolean, unmet: string[] }>} unmet - why each failing rule failed
+ */
+export async function evaluateConditions(conditions, services) {
+  const unmet = [];
+  for (const rule of conditions.rules) {
+    try {
+      const { actual, met } = await evaluateRule(rule, services);
+      if (!met) unmet.push(`${describeCondition(rule)} (${actual})`);
+    } catch (error) {
+      unmet.push(`${describeCondition(rule)} (${error.message})`);
+    }
+  }
+  return { met: unmet.length === 0, unmet };
+}
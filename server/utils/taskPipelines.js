@@ -0,0 +1,247 @@
+import { isMacroInvocation, runMacroInvocation } from './consoleMacros.js';
+import { validateWorldEvent, normalizeWorldEvent, describeWorldEvent, runWorldEvent } from './worldEvents.js';
+
+// ============================================
+// Scheduled Task Pipelines
+// ============================================
+//
+// A pipeline task runs ordered steps instead of a single command, so
+// "announce, save, back up, restart, tell Discord" is one task:
+//   { type: 'rcon', command }              RCON command or `!macro args`
+//   { type: 'bridge', action, args }       PanelBridge action
+//   { type: 'event', event, args }         in-game world event (see worldEvents.js)
+//   { type: 'backup', includeDb }          backup through the BackupService
+//   { type: 'restart', warningMinutes }    restart with countdown warnings
+//   { type: 'wait', seconds }
+//   { type: 'discord', message }           post to the bot's notification channel
+//   { type: 'webhook', url, method, body } HTTP request, fails on a non-2xx answer
+// Every step also has a failure policy:
+//   onFailure: 'stop' (default) | 'continue' | 'retry'
+//   retries, retryDelaySeconds             for 'retry' - it stops once they run out
+
+export const STEP_TYPES = ['rcon', 'bridge', 'event', 'backup', 'restart', 'wait', 'discord', 'webhook'];
+export const FAILURE_POLICIES = ['stop', 'continue', 'retry'];
+
+const MAX_STEPS = 30;
+const MAX_WAIT_SECONDS = 6 * 3600;
+const MAX_RETRIES = 10;
+const MAX_RETRY_DELAY_SECONDS = 3600;
+const WEBHOOK_METHODS = ['GET', 'POST', 'PUT'];
+const WEBHOOK_TIMEOUT_MS = 15000;
+const DISCORD_MESSAGE_LIMIT = 2000;
+
+function inRange(value, min, max) {
+  return Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Check the steps of a pipeline task. Returns an error message, or null
+ * when they can be saved.
+ */
+export function validatePipeline(steps) {
+  if (!Array.isArray(steps) || steps.length === 0) return 'A pipeline needs at least one step';
+  if (steps.length > MAX_STEPS) return `A pipeline can have at most ${MAX_STEPS} steps`;
+
+  for (const [index, step] of steps.entries()) {
+    const label = `Step ${index + 1}`;
+    if (!STEP_TYPES.includes(step?.type)) return `${label}: unknown step type ${step?.type}`;
+
+    const onFailure = step.onFailure ?? 'stop';
+    if (!FAILURE_POLICIES.includes(onFailure)) return `${label}: unknown failure policy ${onFailure}`;
+    if (onFailure === 'retry') {
+      if (!inRange(step.retries ?? 3, 1, MAX_RETRIES)) return `${label}: retries must be 1-${MAX_RETRIES}`;
+      if (!inRange(step.retryDelaySeconds ?? 30, 0, MAX_RETRY_DELAY_SECONDS)) {
+        return `${label}: retry delay must be 0-${MAX_RETRY_DELAY_SECONDS} seconds`;
+      }
+    }
+
+    switch (step.type) {
+      case 'rcon':
+        if (!step.command?.trim()) return `${label}: command is required`;
+        break;
+      case 'bridge':
+        if (!step.action?.trim()) return `${label}: PanelBridge action is required`;
+        if (step.args !== undefined && (typeof step.args !== 'object' || step.args === null || Array.isArray(step.args))) {
+          return `${label}: PanelBridge args must be an object`;
+        }
+        break;
+      case 'event': {
+        const eventError = validateWorldEvent(step.event, step.args ?? {});
+        if (eventError) return `${label}: ${eventError}`;
+        break;
+      }
+      case 'restart':
+        if (step.warningMinutes !== undefined && step.warningMinutes !== null && !inRange(step.warningMinutes, 0, 60)) {
+          return `${label}: warning must be 0-60 minutes`;
+        }
+        break;
+      case 'wait':
+        if (!inRange(step.seconds, 1, MAX_WAIT_SECONDS)) return `${label}: wait must be 1-${MAX_WAIT_SECONDS} seconds`;
+        break;
+      case 'discord':
+        if (!step.message?.trim()) return `${label}: message is required`;
+        if (step.message.length > DISCORD_MESSAGE_LIMIT) return `${label}: message is longer than ${DISCORD_MESSAGE_LIMIT} characters`;
+        break;
+      case 'webhook': {
+        let url;
+        try {
+          url = new URL(step.url);
+        } catch {
+          return `${label}: webhook URL is not valid`;
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return `${label}: webhook URL must be http or https`;
+        if (!WEBHOOK_METHODS.includes(step.method ?? 'POST')) return `${label}: method must be ${WEBHOOK_METHODS.join(', ')}`;
+        break;
+      }
+    }
+  }
+  return null;
+}
+
+/** Keep only the fields a step is saved with */
+export function normalizePipeline(steps) {
+  return steps.map(step => {
+    const policy = { onFailure: step.onFailure ?? 'stop' };
+    if (policy.onFailure === 'retry') {
+      policy.retries = step.retries ?? 3;
+      policy.retryDelaySeconds = step.retryDelaySeconds ?? 30;
+    }
+    switch (step.type) {
+      case 'rcon': return { type: 'rcon', command: step.command.trim(), ...policy };
+      case 'bridge': return { type: 'bridge', action: step.action.trim(), args: step.args ?? {}, ...policy };
+      case 'event': return { type: 'event', event: step.event, args: normalizeWorldEvent(step.event, step.args ?? {}), ...policy };
+      case 'backup': return { type: 'backup', includeDb: !!step.includeDb, ...policy };
+      case 'restart': return { type: 'restart', warningMinutes: step.warningMinutes ?? null, ...policy };
+      case 'wait': return { type: 'wait', seconds: step.seconds, ...policy };
+      case 'discord': return { type: 'discord', message: step.message.trim(), ...policy };
+      case 'webhook': return { type: 'webhook', url: step.url.trim(), method: step.method ?? 'POST', body: step.body ?? '', ...policy };
+    }
+  });
+}
+
+/** How a step is shown in the schedule history */
+export function describePipelineStep(step) {
+  switch (step.type) {
+    case 'rcon': return step.command;
+    case 'bridge': return `bridge:${step.action} ${JSON.stringify(step.args ?? {})}`;
+    case 'event': return describeWorldEvent(step.event, step.args);
+    case 'backup': return step.includeDb ? 'backup (with database)' : 'backup';
+    case 'restart': return step.warningMinutes !== null && step.warningMinutes !== undefined ? `restart (${step.warningMinutes} min warning)` : 'restart';
+    case 'wait': return `wait ${step.seconds}s`;
+    case 'discord': return `discord: ${step.message}`;
+    case 'webhook': return `${step.method ?? 'POST'} ${step.url}`;
+    default: return step.type;
+  }
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Run one step; resolves with a message or throws when the step failed
+async function runStep(step, { rconService, panelBridge, backupService, discordBot, restart }) {
+  switch (step.type) {
+    case 'rcon': {
+      if (isMacroInvocation(step.command)) {
+        const result = await runMacroInvocation(step.command, { rconService, panelBridge, source: 'scheduler', skipLog: true });
+        if (!result.success) throw new Error(result.error);
+        return `Macro ${result.macro} ran ${result.steps.length} step(s)`;
+      }
+      const result = await rconService.execute(step.command, { skipLog: true, source: 'scheduler' });
+      if (!result.success) throw new Error(result.error || 'RCON command failed');
+      return result.response || 'Sent';
+    }
+    case 'bridge': {
+      if (!panelBridge?.isRunning) throw new Error('PanelBridge is not running');
+      const response = await panelBridge.sendCommand(step.action, step.args ?? {});
+      return JSON.stringify(response.data ?? {});
+    }
+    case 'event':
+      return runWorldEvent(step.event, step.args ?? {}, { rconService, panelBridge });
+    case 'backup': {
+      if (!backupService) throw new Error('Backup service not available');
+      const result = await backupService.createBackup({ includeDb: step.includeDb });
+      if (!result.success) throw new Error(result.message);
+      return `Created: ${result.backup.name}`;
+    }
+    case 'restart': {
+      const result = await restart(step.warningMinutes ?? null);
+      if (!result.success) throw new Error(result.message || 'Restart failed');
+      return 'Server restarted';
+    }
+    case 'wait':
+      await sleep(step.seconds * 1000);
+      return `Waited ${step.seconds}s`;
+    case 'discord': {
+      if (!discordBot?.isRunning) throw new Error('Discord bot is not running');
+      if (!await discordBot.sendNotification(step.message)) throw new Error('Discord message was not sent');
+      return 'Posted to Discord';
+    }
+    case 'webhook': {
+      const method = step.method ?? 'POST';
+      const init = { method, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) };
+      if (method !== 'GET' && step.body) {
+        let isJson = true;
+        try {
+          JSON.parse(step.body);
+        } catch {
+          isJson = false;
+        }
+        init.headers = { 'Content-Type': isJson ? 'application/json' : 'text/plain' };
+        init.body = step.body;
+      }
+      const response = await fetch(step.url, init);
+      if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      return `HTTP ${response.status}`;
+    }
+    default:
+      throw new Error(`Unknown step type ${step.type}`);
+  }
+}
+
+/**
+ * Run a pipeline's steps in order, applying each step's failure policy.
+ * @param {object[]} steps
+ * @param {object} services
+ * @param {RconService} services.rconService
+ * @param {PanelBridge} [services.panelBridge]
+ * @param {BackupService} [services.backupService]
+ * @param {DiscordBot} [services.discordBot]
+ * @param {(warningMinutes: number|null) => Promise<object>} services.restart
+ * @param {(result: object) => Promise<void>|void} [services.onStep] - called after each step
+ * @returns {Promise<{ success: boolean, steps: object[], failed: number, error?: string }>}
+ */
+export async function runPipeline(steps, { onStep, ...services }) {
+  const results = [];
+  let failed = 0;
+
+  for (const [index, step] of steps.entries()) {
+    const policy = step.onFailure ?? 'stop';
+    const attempts = policy === 'retry' ? 1 + (step.retries ?? 3) : 1;
+    const startTime = Date.now();
+    let result;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        const message = await runStep(step, services);
+        result = { index, step, success: true, message, attempts: attempt };
+        break;
+      } catch (error) {
+        result = { index, step, success: false, message: error.message, attempts: attempt };
+        if (attempt < attempts) await sleep((step.retryDelaySeconds ?? 30) * 1000);
+      }
+    }
+
+    result.duration = Date.now() - startTime;
+    results.push(result);
+    await onStep?.(result);
+
+    if (!result.success) {
+      failed++;
+      if (policy !== 'continue') {
+        return { success: false, steps: results, failed, error: `Step ${index + 1} (${describePipelineStep(step)}): ${result.message}` };
+      }
+    }
+  }
+  return { success: true, steps: results, failed };
+}
@@ -0,0 +1,105 @@
+// ============================================
+// World Events
+// ============================================
+//
+// The in-game events of the Events page as pipeline steps, so a scheduled
+// task can start a storm or send a horde without raw commands:
+//   { type: 'event', event: 'triggerBlizzard', args: { duration } }       hours
+//   { type: 'event', event: 'createHorde', args: { count, username } }    RCON; no username = random player
+//   { type: 'event', event: 'shutOffUtilities', args: { power, water } }
+//   { type: 'event', event: 'setClimateFloat', args: { floatId, value } } see CLIMATE_FLOATS
+//   { type: 'event', event: 'playWorldSound', args: { x, y, z, radius, volume } }
+// Everything but the horde is a PanelBridge action sent with these args.
+
+export const WORLD_EVENTS = ['triggerBlizzard', 'createHorde', 'shutOffUtilities', 'setClimateFloat', 'playWorldSound'];
+
+// The climate values the Events page sets; temperature is in °C, the rest 0-1
+export const CLIMATE_FLOATS = {
+  3: { name: 'precipitation', min: 0, max: 1 },
+  4: { name: 'temperature', min: -30, max: 45 },
+  5: { name: 'fog', min: 0, max: 1 },
+  6: { name: 'wind', min: 0, max: 1 },
+  8: { name: 'clouds', min: 0, max: 1 },
+  12: { name: 'humidity', min: 0, max: 1 }
+};
+
+const MAX_BLIZZARD_HOURS = 24;
+const MAX_HORDE = 500;
+const MAX_SOUND_RADIUS = 300;
+const MAX_SOUND_VOLUME = 300;
+
+function inRange(value, min, max) {
+  return Number.isFinite(value) && value >= min && value <= max;
+}
+
+/** Check a world event and its args. Returns an error message, or null */
+export function validateWorldEvent(event, args = {}) {
+  if (!WORLD_EVENTS.includes(event)) return `unknown world event ${event}`;
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) return 'event args must be an object';
+
+  switch (event) {
+    case 'triggerBlizzard':
+      if (!(args.duration > 0 && args.duration <= MAX_BLIZZARD_HOURS)) return `blizzard must last up to ${MAX_BLIZZARD_HOURS} hours`;
+      break;
+    case 'createHorde':
+      if (!Number.isInteger(args.count) || !inRange(args.count, 1, MAX_HORDE)) return `horde size must be 1-${MAX_HORDE}`;
+      if (args.username !== undefined && args.username !== null && typeof args.username !== 'string') return 'username must be text';
+      break;
+    case 'shutOffUtilities':
+      if (args.power === false && args.water === false) return 'shut off power, water or both';
+      break;
+    case 'setClimateFloat': {
+      const float = CLIMATE_FLOATS[args.floatId];
+      if (!float) return `unknown climate value ${args.floatId}`;
+      if (!inRange(args.value, float.min, float.max)) return `${float.name} must be ${float.min}-${float.max}`;
+      break;
+    }
+    case 'playWorldSound':
+      if (!Number.isInteger(args.x) || !Number.isInteger(args.y)) return 'sound needs x and y coordinates';
+      if (args.z !== undefined && !inRange(args.z, 0, 7)) return 'z must be 0-7';
+      if (args.radius !== undefined && !inRange(args.radius, 1, MAX_SOUND_RADIUS)) return `radius must be 1-${MAX_SOUND_RADIUS}`;
+      if (args.volume !== undefined && !inRange(args.volume, 1, MAX_SOUND_VOLUME)) return `volume must be 1-${MAX_SOUND_VOLUME}`;
+      break;
+  }
+  return null;
+}
+
+/** Keep only the args an event is saved with, defaults filled in */
+export function normalizeWorldEvent(event, args = {}) {
+  switch (event) {
+    case 'triggerBlizzard': return { duration: args.duration };
+    case 'createHorde': return { count: args.count, username: args.username?.trim() || null };
+    case 'shutOffUtilities': return { power: args.power !== false, water: args.water !== false };
+    case 'setClimateFloat': return { floatId: Number(args.floatId), value: args.value };
+    case 'playWorldSound': return { x: args.x, y: args.y, z: args.z ?? 0, radius: args.radius ?? 50, volume: args.volume ?? 100 };
+  }
+}
+
+/** How an event is shown in the schedule history */
+export function describeWorldEvent(event, args = {}) {
+  switch (event) {
+    case 'triggerBlizzard': return `blizzard (${args.duration}h)`;
+    case 'createHorde': return `horde of ${args.count}${args.username ? ` near ${args.username}` : ''}`;
+    case 'shutOffUtilities': return `shut off ${[args.power !== false && 'power', args.water !== false && 'water'].filter(Boolean).join(' and ')}`;
+    case 'setClimateFloat': {
+      const float = CLIMATE_FLOATS[args.floatId];
+      if (!float) return `climate ${args.floatId} = ${args.value}`;
+      return float.name === 'temperature' ? `temperature ${args.value}°C` : `${float.name} ${Math.round(args.value * 100)}%`;
+    }
+    case 'playWorldSound': return `sound at ${args.x},${args.y} (radius ${args.radius ?? 50})`;
+    default: return event;
+  }
+}
+
+/** Start a world event; resolves with a message or throws when it failed */
+export async function runWorldEvent(event, args, { rconService, panelBridge }) {
+  if (event === 'createHorde') {
+    const result = await rconService.createHorde(args.count, args.username, { skipLog: true, source: 'scheduler' });
+    if (!result.success) throw new Error(result.error || 'createhorde failed');
+    return result.response || `Spawned a horde of ${args.count}`;
+  }
+  if (!panelBridge?.isRunning) throw new Error('PanelBridge is not running');
+  const payload = event === 'setClimateFloat' ? { ...args, enable: true } : args;
+  const response = await panelBridge.sendCommand(event, payload);
+  return JSON.stringify(response.data ?? {});
+}